@@ -0,0 +1,85 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { BoardConfig } from "../types";
+import { BoardControl } from "./BoardControl";
+
+const mockOnChange = vi.fn<(boardConfig: BoardConfig) => void>();
+
+const CONFIG: BoardConfig = {
+  property: "status",
+  columnOrder: ["todo", "doing"],
+  hiddenColumns: ["done", ""],
+};
+
+describe("BoardControl", () => {
+  const user = userEvent.setup();
+
+  const renderControl = (boardConfig = CONFIG) =>
+    render(
+      <BoardControl boardConfig={boardConfig} propertyKeys={["status"]} onChange={mockOnChange} />
+    );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("shows the property and the column order", () => {
+    renderControl();
+
+    expect(screen.getByLabelText("Board property")).toHaveValue("status");
+    expect(screen.getByLabelText("Board column order")).toHaveValue("todo, doing");
+  });
+
+  it("commits a typed column order after the debounce, keeping hidden columns", async () => {
+    renderControl();
+
+    const input = screen.getByLabelText("Board column order");
+    await user.type(input, ", done, todo,");
+
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith({
+      ...CONFIG,
+      columnOrder: ["todo", "doing", "done"],
+    });
+    expect(input).toHaveValue("todo, doing, done, todo,");
+  });
+
+  it("commits a typed property but never an empty one", async () => {
+    renderControl();
+
+    const input = screen.getByLabelText("Board property");
+    await user.clear(input);
+    await act(() => new Promise((resolve) => setTimeout(resolve, 400)));
+    expect(mockOnChange).not.toHaveBeenCalled();
+
+    await user.type(input, "stage");
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith({ ...CONFIG, property: "stage" });
+  });
+
+  it("shows hidden columns again immediately", async () => {
+    renderControl();
+
+    await user.click(screen.getByRole("button", { name: "Show column No status" }));
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...CONFIG, hiddenColumns: ["done"] });
+  });
+
+  it("follows configurations restored from outside", () => {
+    const { rerender } = renderControl();
+
+    rerender(
+      <BoardControl
+        boardConfig={{ property: "stage", columnOrder: [], hiddenColumns: [] }}
+        propertyKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Board property")).toHaveValue("stage");
+    expect(screen.getByLabelText("Board column order")).toHaveValue("");
+    expect(screen.queryByRole("button", { name: /Show column/ })).not.toBeInTheDocument();
+  });
+});
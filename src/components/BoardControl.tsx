@@ -0,0 +1,153 @@
+import type React from "react";
+import { useEffect, useId, useRef, useState } from "react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import type { BoardConfig } from "../types";
+
+/**
+ * Props for the `BoardControl` component.
+ */
+interface BoardControlProps {
+  /** Board configuration of the view */
+  boardConfig: BoardConfig;
+  /** Frontmatter keys suggested as the board property */
+  propertyKeys: string[];
+  /** Called with the new board configuration after edits settle */
+  onChange: (boardConfig: BoardConfig) => void;
+}
+
+/**
+ * Editable parts of a board configuration: the property and the column order
+ * as typed, comma-separated
+ */
+interface BoardDraft {
+  property: string;
+  columnOrder: string;
+}
+
+/**
+ * Split a board configuration into an editable draft (internal)
+ */
+const toDraft = (boardConfig: BoardConfig): BoardDraft => ({
+  property: boardConfig.property,
+  columnOrder: boardConfig.columnOrder.join(", "),
+});
+
+/**
+ * Join an editable draft back into a board configuration (internal)
+ *
+ * Hidden columns, which the draft does not edit, are kept from `base`.
+ */
+const toBoardConfig = (draft: BoardDraft, base: BoardConfig): BoardConfig => ({
+  ...base,
+  property: draft.property.trim(),
+  columnOrder: Array.from(
+    new Set(
+      draft.columnOrder
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value !== "")
+    )
+  ),
+});
+
+/**
+ * BoardControl
+ *
+ * Edits the board layout of a view: the frontmatter property whose values are the
+ * columns, the order of the columns, and which hidden columns are shown again.
+ *
+ * Design notes:
+ * - The property and the column order are free text committed with the same debounce
+ *   as the sort keys; the order is typed as comma-separated values like the sort
+ *   fallback keys. Listed columns come first and stay visible when empty.
+ * - Columns are hidden from their header on the board; showing one again is a
+ *   discrete action and is committed immediately.
+ */
+export const BoardControl: React.FC<BoardControlProps> = ({
+  boardConfig,
+  propertyKeys,
+  onChange,
+}) => {
+  const listId = useId();
+  const [draft, setDraft] = useState(() => toDraft(boardConfig));
+  const debouncedDraft = useDebouncedValue(draft, 200);
+  // Latest stored configuration, read when committing so that an outside change
+  // (e.g. a column hidden on the board) does not trigger a commit of a stale draft
+  const boardConfigRef = useRef(boardConfig);
+  boardConfigRef.current = boardConfig;
+
+  // Keep the draft in sync when the store changes from outside (restore).
+  // A draft that already matches is kept, so typed separators are not normalized away.
+  useEffect(() => {
+    setDraft((current) => {
+      const typed = toBoardConfig(current, boardConfig);
+      return typed.property === boardConfig.property &&
+        typed.columnOrder.join(",") === boardConfig.columnOrder.join(",")
+        ? current
+        : toDraft(boardConfig);
+    });
+  }, [boardConfig]);
+
+  useEffect(() => {
+    const stored = boardConfigRef.current;
+    const next = toBoardConfig(debouncedDraft, stored);
+    if (
+      next.property !== "" &&
+      (next.property !== stored.property ||
+        next.columnOrder.join(",") !== stored.columnOrder.join(","))
+    ) {
+      onChange(next);
+    }
+  }, [debouncedDraft, onChange]);
+
+  const showColumn = (key: string) => {
+    onChange({
+      ...boardConfig,
+      hiddenColumns: boardConfig.hiddenColumns.filter((hidden) => hidden !== key),
+    });
+  };
+
+  return (
+    <div className="board-control">
+      <span className="board-control-label">Columns by</span>
+      <input
+        type="text"
+        value={draft.property}
+        onChange={(e) => setDraft((current) => ({ ...current, property: e.target.value }))}
+        list={listId}
+        placeholder="status"
+        aria-label="Board property"
+        className="board-property-input"
+      />
+      <input
+        type="text"
+        value={draft.columnOrder}
+        onChange={(e) => setDraft((current) => ({ ...current, columnOrder: e.target.value }))}
+        placeholder="column order"
+        aria-label="Board column order"
+        className="board-order-input"
+        title="Values shown first, separated by commas, e.g. todo, doing, done"
+      />
+      {boardConfig.hiddenColumns.map((key) => {
+        const label = key === "" ? `No ${boardConfig.property}` : key;
+        return (
+          <button
+            key={key}
+            type="button"
+            className="board-show-btn"
+            onClick={() => showColumn(key)}
+            aria-label={`Show column ${label}`}
+            title="Show this column again"
+          >
+            + {label}
+          </button>
+        );
+      })}
+      <datalist id={listId}>
+        {propertyKeys.map((key) => (
+          <option key={key} value={key} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
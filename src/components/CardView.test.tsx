@@ -1,4 +1,4 @@
-import { act, render, screen } from "@testing-library/react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type CardExplorerPlugin from "../main";
 import type { NoteData } from "../types";
@@ -18,6 +18,24 @@ const h = vi.hoisted(() => {
     filteredNotes: [] as any[],
     availableTags: [] as string[],
     availableFolders: [] as string[],
+    sortConfig: { key: "updated", order: "desc" as const },
+    setSortConfig: vi.fn(),
+    groupBy: { mode: "none" as const },
+    setGroupBy: vi.fn(),
+    layoutMode: "grid" as const,
+    setLayoutMode: vi.fn(),
+    tableColumns: [{ key: "filename" }],
+    setTableColumns: vi.fn(),
+    boardConfig: { property: "status", columnOrder: [], hiddenColumns: [] },
+    setBoardConfig: vi.fn(),
+    cardDisplay: {
+      cardMinWidth: 292,
+      maxCardsPerRow: 5,
+      previewLines: 3,
+      density: "comfortable" as const,
+    },
+    compactMode: "auto" as "auto" | "on" | "off",
+    setCompactMode: vi.fn(),
     refreshNotes: vi.fn(),
     setError: vi.fn(),
   };
@@ -88,6 +106,8 @@ const createMockPlugin = (): CardExplorerPlugin =>
     },
     getData: vi.fn().mockReturnValue({}),
     getSettings: vi.fn().mockReturnValue({ sortKey: "updated" }),
+    updateSetting: vi.fn(),
+    requestSaveSettings: vi.fn(),
   }) as unknown as CardExplorerPlugin;
 
 const createMockNote = (id: number, overrides: Partial<NoteData> = {}): NoteData => ({
@@ -95,10 +115,12 @@ const createMockNote = (id: number, overrides: Partial<NoteData> = {}): NoteData
   title: `Note ${id}`,
   path: `note${id}.md`,
   preview: `Preview ${id}`,
+  wordCount: 0,
   lastModified: new Date(`2024-01-${String(id).padStart(2, "0")}`),
   frontmatter: null,
   tags: [`tag${id}`, `tag${id + 1}`],
   folder: `Folder${id}`,
+  backlinkCount: 0,
   ...overrides,
 });
 
@@ -120,6 +142,24 @@ const createStoreState = (overrides = {}) => ({
   filteredNotes: createMockNotes(),
   availableTags: ["tag1", "tag2", "tag3"],
   availableFolders: ["Folder1", "Folder2"],
+  sortConfig: { key: "updated", order: "desc" as const },
+  setSortConfig: vi.fn(),
+  groupBy: { mode: "none" as const },
+  setGroupBy: vi.fn(),
+  layoutMode: "grid" as const,
+  setLayoutMode: vi.fn(),
+  tableColumns: [{ key: "filename" }],
+  setTableColumns: vi.fn(),
+  boardConfig: { property: "status", columnOrder: [], hiddenColumns: [] },
+  setBoardConfig: vi.fn(),
+  cardDisplay: {
+    cardMinWidth: 292,
+    maxCardsPerRow: 5,
+    previewLines: 3,
+    density: "comfortable" as const,
+  },
+  compactMode: "auto" as const,
+  setCompactMode: vi.fn(),
   refreshNotes: vi.fn(),
   setError: vi.fn(),
   ...overrides,
@@ -158,6 +198,22 @@ const expectHeaderProps = (expectedProps: any) => {
   expect(headerProps).toEqual({
     onToggleFilter: expect.any(Function),
     onRefresh: expect.any(Function),
+    sortConfig: h.store.sortConfig,
+    sortKeys: expect.any(Array),
+    onSortChange: h.store.setSortConfig,
+    groupBy: h.store.groupBy,
+    onGroupByChange: h.store.setGroupBy,
+    layoutMode: h.store.layoutMode,
+    onLayoutModeChange: h.store.setLayoutMode,
+    tableColumns: h.store.tableColumns,
+    onTableColumnsChange: h.store.setTableColumns,
+    boardConfig: h.store.boardConfig,
+    onBoardConfigChange: h.store.setBoardConfig,
+    cardMinWidth: h.store.cardDisplay.cardMinWidth,
+    onCardMinWidthChange: expect.any(Function),
+    compact: false,
+    compactMode: h.store.compactMode,
+    onCompactModeChange: h.store.setCompactMode,
     ...expectedProps,
   });
 };
@@ -315,6 +371,24 @@ describe("CardView", () => {
       });
     });
 
+    it("should pass the sort configuration and frontmatter key suggestions", () => {
+      const notes = [
+        createMockNote(1, { frontmatter: { priority: 1, status: "open" } }),
+        createMockNote(2, { frontmatter: { due: "2024-01-01" } }),
+      ];
+      mockHooks.setupCardViewState({ notes });
+
+      render(<CardView plugin={mockPlugin} />);
+
+      expectHeaderProps({
+        totalNotes: 2,
+        filteredNotes: 2,
+        isFilterPanelOpen: false,
+        isLoading: false,
+        sortKeys: ["due", "priority", "status"],
+      });
+    });
+
     it("should handle refresh action correctly", async () => {
       const mockRefreshNotes = vi.fn();
       const mockSetError = vi.fn();
@@ -328,6 +402,57 @@ describe("CardView", () => {
       expect(mockSetError).toHaveBeenCalledWith(null);
       expect(mockRefreshNotes).toHaveBeenCalledWith(mockPlugin.app);
     });
+
+    it("should change the card width setting when zoomed from the header", () => {
+      render(<CardView plugin={mockPlugin} />);
+
+      const headerProps = getLastComponentCall(CardViewHeader);
+      expect(headerProps.cardMinWidth).toBe(292);
+      act(() => headerProps.onCardMinWidthChange(360));
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("cardMinWidth", 360);
+      expect(mockPlugin.requestSaveSettings).toHaveBeenCalled();
+    });
+  });
+
+  describe("Card display", () => {
+    it("should apply the density, cover placement and preview lines to the container", () => {
+      mockHooks.setupStoreState({
+        cardDisplay: {
+          cardMinWidth: 292,
+          maxCardsPerRow: 5,
+          previewLines: 6,
+          density: "compact",
+          coverPlacement: "top",
+        },
+      });
+
+      const { container } = render(<CardView plugin={mockPlugin} />);
+
+      const viewContainer = container.querySelector(".card-view-container") as HTMLElement;
+      expect(viewContainer).toHaveClass("card-density-compact", "card-cover-top");
+      expect(viewContainer.style.getPropertyValue("--card-preview-lines")).toBe("6");
+    });
+
+    it("should zoom the cards with Ctrl+wheel within the width range", () => {
+      mockHooks.setupStoreState({
+        cardDisplay: {
+          cardMinWidth: 592,
+          maxCardsPerRow: 5,
+          previewLines: 3,
+          density: "comfortable",
+        },
+      });
+      const { container } = render(<CardView plugin={mockPlugin} />);
+      const content = container.querySelector(".card-view-content") as HTMLElement;
+
+      // Zooming in stops at the widest cards
+      content.dispatchEvent(new WheelEvent("wheel", { ctrlKey: true, deltaY: -100 }));
+      expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("cardMinWidth", 600);
+
+      content.dispatchEvent(new WheelEvent("wheel", { ctrlKey: true, deltaY: 100 }));
+      expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("cardMinWidth", 572);
+    });
   });
 
   describe("FilterPanel", () => {
@@ -391,6 +516,37 @@ describe("CardView", () => {
     });
   });
 
+  describe("Compact list", () => {
+    it("should keep the full layout for views that are not narrow", () => {
+      render(<CardView plugin={mockPlugin} />);
+
+      expect(getLastComponentCall(CardViewHeader).compact).toBe(false);
+      expect(getLastComponentCall(VirtualList)).toEqual({ plugin: mockPlugin, compact: false });
+    });
+
+    it("should show the compact list when the view turns it on", () => {
+      mockHooks.setupStoreState({ compactMode: "on" });
+      render(<CardView plugin={mockPlugin} />);
+
+      expect(getLastComponentCall(CardViewHeader).compact).toBe(true);
+      expect(getLastComponentCall(VirtualList)).toEqual({ plugin: mockPlugin, compact: true });
+    });
+
+    it("should open the filters as a popover closed by Escape", () => {
+      mockHooks.setupStoreState({ compactMode: "on" });
+      render(<CardView plugin={mockPlugin} />);
+
+      act(() => {
+        toggleFilterPanel();
+      });
+      const popover = screen.getByRole("region", { name: "Note filters" });
+      expect(popover).toHaveClass("card-view-filter-popover");
+
+      fireEvent.keyDown(popover, { key: "Escape" });
+      expect(screen.queryByTestId("filter-panel")).not.toBeInTheDocument();
+    });
+  });
+
   describe("LoadingSpinner", () => {
     it("should show loading overlay with correct props", () => {
       mockHooks.setupCardViewState({
@@ -423,6 +579,7 @@ describe("CardView", () => {
       const virtualListProps = getLastComponentCall(VirtualList);
       expect(virtualListProps).toEqual({
         plugin: mockPlugin,
+        compact: false,
       });
     });
   });
@@ -1,11 +1,14 @@
+import { clamp } from "es-toolkit";
 import type React from "react";
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useShallow } from "zustand/react/shallow";
-import { useRetryableRefreshNotes } from "../hooks";
+import { useCtrlWheelZoom, useResponsiveRowSize, useRetryableRefreshNotes } from "../hooks";
 import { useCardViewInitialization } from "../hooks/useCardViewInitialization";
 import { useCardViewState } from "../hooks/useCardViewState";
 import type CardExplorerPlugin from "../main";
 import { useCardExplorerStore } from "../store/cardExplorerStore";
+import { CARD_MIN_WIDTH_RANGE, CARD_ZOOM_STEP } from "../store/constants";
+import { getAvailableSortKeys } from "../store/sorting";
 import { CardViewErrorBoundary } from "./CardViewErrorBoundary";
 import { CardViewHeader } from "./CardViewHeader";
 import { ErrorDisplay } from "./ErrorDisplay";
@@ -29,6 +32,12 @@ interface CardViewProps {
  *
  * This is the primary container component for the Card View Explorer plugin interface.
  * It orchestrates all child components and manages the overall Card View Explorer UI.
+ * The card size and density settings are applied here; zooming (the header slider or
+ * Ctrl+wheel over the cards) changes the card width setting for every view.
+ *
+ * Narrow views (e.g. a sidebar leaf) switch to the compact list: the header collapses,
+ * the filters open as a popover over the list, and the notes are listed one per row.
+ * Each view can turn the compact list on or off regardless of its width.
  */
 export const CardView: React.FC<CardViewProps> = ({ plugin }) => {
   // Initialize CardView with plugin data and initial notes loading
@@ -44,25 +53,78 @@ export const CardView: React.FC<CardViewProps> = ({ plugin }) => {
     notes,
   } = useCardViewState();
 
-  const { filteredNotes, availableTags, availableFolders, setError } = useCardExplorerStore(
+  const {
+    filteredNotes,
+    availableTags,
+    availableFolders,
+    sortConfig,
+    setSortConfig,
+    groupBy,
+    setGroupBy,
+    layoutMode,
+    setLayoutMode,
+    tableColumns,
+    setTableColumns,
+    boardConfig,
+    setBoardConfig,
+    cardDisplay,
+    compactMode,
+    setCompactMode,
+    setError,
+  } = useCardExplorerStore(
     useShallow((state) => ({
       filteredNotes: state.filteredNotes,
       availableTags: state.availableTags,
       availableFolders: state.availableFolders,
+      sortConfig: state.sortConfig,
+      setSortConfig: state.setSortConfig,
+      groupBy: state.groupBy,
+      setGroupBy: state.setGroupBy,
+      layoutMode: state.layoutMode,
+      setLayoutMode: state.setLayoutMode,
+      tableColumns: state.tableColumns,
+      setTableColumns: state.setTableColumns,
+      boardConfig: state.boardConfig,
+      setBoardConfig: state.setBoardConfig,
+      cardDisplay: state.cardDisplay,
+      compactMode: state.compactMode,
+      setCompactMode: state.setCompactMode,
       setError: state.setError,
     }))
   );
 
+  // Frontmatter keys offered by the sort and group-by controls; recomputed only when notes change
+  const sortKeys = useMemo(() => getAvailableSortKeys(notes), [notes]);
+
   // Unified retry handler (UI-only orchestration). Data-layer backoff is handled in the store.
   const { retry } = useRetryableRefreshNotes(plugin);
 
   // Local state for filter panel visibility toggle
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
 
+  // Only the width of the view is needed here; the list sizes its own rows
+  const { isNarrow, ref: containerRef } = useResponsiveRowSize();
+  const isCompact = compactMode === "on" || (compactMode === "auto" && isNarrow);
+
   const handleRetry = useCallback(async () => {
     await retry();
   }, [retry]);
 
+  const handleCardMinWidthChange = useCallback(
+    (cardMinWidth: number) => {
+      plugin.updateSetting("cardMinWidth", cardMinWidth);
+      plugin.requestSaveSettings();
+    },
+    [plugin]
+  );
+
+  // Zooming in makes the cards wider, so fewer fit in a row
+  const zoomRef = useCtrlWheelZoom((direction) => {
+    const { min, max } = CARD_MIN_WIDTH_RANGE;
+    const cardMinWidth = clamp(cardDisplay.cardMinWidth + direction * CARD_ZOOM_STEP, min, max);
+    if (cardMinWidth !== cardDisplay.cardMinWidth) handleCardMinWidthChange(cardMinWidth);
+  });
+
   if (shouldShowError) {
     return (
       <ErrorDisplay
@@ -80,7 +142,11 @@ export const CardView: React.FC<CardViewProps> = ({ plugin }) => {
 
   return (
     <CardViewErrorBoundary onRetry={handleRetry}>
-      <div className="card-view-container">
+      <div
+        ref={containerRef}
+        className={`card-view-container card-density-${cardDisplay.density} card-cover-${cardDisplay.coverPlacement}`}
+        style={{ "--card-preview-lines": cardDisplay.previewLines } as React.CSSProperties}
+      >
         {/* Header with title, stats, filter toggle, and refresh button */}
         <CardViewHeader
           totalNotes={notes.length}
@@ -89,22 +155,41 @@ export const CardView: React.FC<CardViewProps> = ({ plugin }) => {
           isLoading={isLoading}
           onToggleFilter={() => setIsFilterPanelOpen(!isFilterPanelOpen)}
           onRefresh={handleRetry}
+          sortConfig={sortConfig}
+          sortKeys={sortKeys}
+          onSortChange={setSortConfig}
+          groupBy={groupBy}
+          onGroupByChange={setGroupBy}
+          layoutMode={layoutMode}
+          onLayoutModeChange={setLayoutMode}
+          tableColumns={tableColumns}
+          onTableColumnsChange={setTableColumns}
+          boardConfig={boardConfig}
+          onBoardConfigChange={setBoardConfig}
+          cardMinWidth={cardDisplay.cardMinWidth}
+          onCardMinWidthChange={handleCardMinWidthChange}
+          compact={isCompact}
+          compactMode={compactMode}
+          onCompactModeChange={setCompactMode}
         />
 
-        {/* Collapsible filter panel - only rendered when open */}
+        {/* Collapsible filter panel - only rendered when open; a popover over the compact list */}
         {isFilterPanelOpen && (
           <div
-            className="card-view-filter-panel"
+            className={`card-view-filter-panel ${isCompact ? "card-view-filter-popover" : ""}`}
             id="filter-panel"
             role="region"
             aria-label="Note filters"
+            onKeyDown={(e) => {
+              if (isCompact && e.key === "Escape") setIsFilterPanelOpen(false);
+            }}
           >
             <FilterPanel availableTags={availableTags} availableFolders={availableFolders} />
           </div>
         )}
 
         {/* Main content area with virtual list */}
-        <div className="card-view-content">
+        <div className="card-view-content" ref={zoomRef}>
           <div className="card-view-main">
             {/* Loading overlay for refresh operations - shown during refreshes but not initial load */}
             {shouldShowLoadingOverlay && (
@@ -114,7 +199,7 @@ export const CardView: React.FC<CardViewProps> = ({ plugin }) => {
             )}
 
             {/* Virtual List of Note Cards - uses react-virtuoso for performance */}
-            <VirtualList plugin={plugin} />
+            <VirtualList plugin={plugin} compact={isCompact} />
           </div>
         </div>
       </div>
@@ -1,4 +1,4 @@
-import { render, screen } from "@testing-library/react";
+import { fireEvent, render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 
 import { describe, expect, it, vi } from "vitest";
@@ -12,6 +12,22 @@ describe("CardViewHeader", () => {
     isLoading: false,
     onToggleFilter: vi.fn(),
     onRefresh: vi.fn(),
+    sortConfig: { key: "updated", order: "desc" as const },
+    sortKeys: ["priority"],
+    onSortChange: vi.fn(),
+    groupBy: { mode: "none" as const },
+    onGroupByChange: vi.fn(),
+    layoutMode: "grid" as const,
+    onLayoutModeChange: vi.fn(),
+    tableColumns: [{ key: "filename" }, { key: "folder" }],
+    onTableColumnsChange: vi.fn(),
+    boardConfig: { property: "status", columnOrder: ["todo", "done"], hiddenColumns: [] },
+    onBoardConfigChange: vi.fn(),
+    cardMinWidth: 292,
+    onCardMinWidthChange: vi.fn(),
+    compact: false,
+    compactMode: "auto" as const,
+    onCompactModeChange: vi.fn(),
   };
 
   beforeEach(() => {
@@ -137,6 +153,126 @@ describe("CardViewHeader", () => {
     });
   });
 
+  describe("Sort Control", () => {
+    it("should show the current sort key and direction", () => {
+      render(<CardViewHeader {...defaultProps} />);
+
+      expect(screen.getByLabelText("Sort by key")).toHaveValue("updated");
+      expect(screen.getByRole("button", { name: "Sort by: descending" })).toBeInTheDocument();
+    });
+
+    it("should call onSortChange when the direction is toggled", async () => {
+      const user = userEvent.setup();
+      const mockSortChange = vi.fn();
+
+      render(<CardViewHeader {...defaultProps} onSortChange={mockSortChange} />);
+      await user.click(screen.getByRole("button", { name: "Sort by: descending" }));
+
+      expect(mockSortChange).toHaveBeenCalledWith({
+        key: "updated",
+        order: "asc",
+        thenBy: [],
+        fallbackKeys: ["mtime"],
+      });
+    });
+  });
+
+  describe("Group By Control", () => {
+    it("should show the current grouping", () => {
+      render(<CardViewHeader {...defaultProps} groupBy={{ mode: "folder" }} />);
+
+      expect(screen.getByRole("combobox", { name: "Group by" })).toHaveValue("folder");
+    });
+
+    it("should call onGroupByChange when a mode is chosen", async () => {
+      const user = userEvent.setup();
+      const mockGroupByChange = vi.fn();
+
+      render(<CardViewHeader {...defaultProps} onGroupByChange={mockGroupByChange} />);
+      await user.selectOptions(screen.getByRole("combobox", { name: "Group by" }), "date");
+
+      expect(mockGroupByChange).toHaveBeenCalledWith({ mode: "date" });
+    });
+  });
+
+  describe("Layout Control", () => {
+    it("should call onLayoutModeChange when a layout is chosen", async () => {
+      const user = userEvent.setup();
+      const mockLayoutModeChange = vi.fn();
+
+      render(<CardViewHeader {...defaultProps} onLayoutModeChange={mockLayoutModeChange} />);
+      await user.selectOptions(screen.getByRole("combobox", { name: "Layout" }), "table");
+
+      expect(mockLayoutModeChange).toHaveBeenCalledWith("table");
+    });
+
+    it("should show the table columns instead of grouping in the table layout", () => {
+      render(<CardViewHeader {...defaultProps} layoutMode="table" />);
+
+      expect(screen.getByLabelText("Table columns")).toHaveValue("filename, folder");
+      expect(screen.queryByRole("combobox", { name: "Group by" })).not.toBeInTheDocument();
+    });
+
+    it("should show the board property instead of grouping in the board layout", () => {
+      render(<CardViewHeader {...defaultProps} layoutMode="board" />);
+
+      expect(screen.getByLabelText("Board property")).toHaveValue("status");
+      expect(screen.getByLabelText("Board column order")).toHaveValue("todo, done");
+      expect(screen.queryByRole("combobox", { name: "Group by" })).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Zoom Control", () => {
+    it("should show the card size in the card layouts only", () => {
+      const { rerender } = render(<CardViewHeader {...defaultProps} layoutMode="masonry" />);
+      expect(screen.getByRole("slider", { name: "Card size" })).toHaveValue("292");
+
+      rerender(<CardViewHeader {...defaultProps} layoutMode="table" />);
+      expect(screen.queryByRole("slider", { name: "Card size" })).not.toBeInTheDocument();
+    });
+
+    it("should call onCardMinWidthChange when the slider moves", () => {
+      render(<CardViewHeader {...defaultProps} />);
+
+      fireEvent.change(screen.getByRole("slider", { name: "Card size" }), {
+        target: { value: "360" },
+      });
+
+      expect(defaultProps.onCardMinWidthChange).toHaveBeenCalledWith(360);
+    });
+  });
+
+  describe("Compact Header", () => {
+    it("should collapse to the stats and buttons", () => {
+      render(<CardViewHeader {...defaultProps} compact={true} />);
+
+      expect(screen.queryByRole("heading")).not.toBeInTheDocument();
+      expect(screen.getByText("10 total notes")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: /filters/i })).toBeInTheDocument();
+      expect(screen.queryByRole("combobox", { name: "Layout" })).not.toBeInTheDocument();
+      expect(screen.queryByRole("slider", { name: "Card size" })).not.toBeInTheDocument();
+    });
+
+    it("should show the view options behind the More button", async () => {
+      const user = userEvent.setup();
+      render(<CardViewHeader {...defaultProps} compact={true} />);
+
+      await user.click(screen.getByRole("button", { name: "More" }));
+
+      expect(screen.getByRole("button", { name: "More" })).toHaveAttribute("aria-expanded", "true");
+      expect(screen.getByRole("combobox", { name: "Layout" })).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Refresh Notes" })).toBeInTheDocument();
+
+      await user.selectOptions(screen.getByRole("combobox", { name: "Compact list" }), "off");
+      expect(defaultProps.onCompactModeChange).toHaveBeenCalledWith("off");
+    });
+
+    it("should offer the compact override in the full header too", () => {
+      render(<CardViewHeader {...defaultProps} compactMode="on" />);
+      expect(screen.getByRole("combobox", { name: "Compact list" })).toHaveValue("on");
+    });
+  });
+
   describe("Edge Cases", () => {
     it("should handle zero notes correctly", () => {
       render(<CardViewHeader {...defaultProps} totalNotes={0} filteredNotes={0} />);
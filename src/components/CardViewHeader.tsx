@@ -1,5 +1,19 @@
 import type React from "react";
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
+import type {
+  BoardConfig,
+  CompactMode,
+  GroupByConfig,
+  LayoutMode,
+  SortConfig,
+  TableColumn,
+} from "../types";
+import { BoardControl } from "./BoardControl";
+import { CompactControl } from "./CompactControl";
+import { GroupByControl } from "./GroupByControl";
+import { LayoutControl } from "./LayoutControl";
+import { SortControl } from "./SortControl";
+import { ZoomControl } from "./ZoomControl";
 
 /**
  * Props for the CardViewHeader component
@@ -29,13 +43,83 @@ interface CardViewHeaderProps {
    * Callback function to refresh notes from vault
    */
   onRefresh: () => void;
+  /**
+   * Sort configuration of the view
+   */
+  sortConfig: SortConfig;
+  /**
+   * Keys suggested by the sort control
+   */
+  sortKeys: string[];
+  /**
+   * Callback function to change the sort configuration
+   */
+  onSortChange: (sortConfig: SortConfig) => void;
+  /**
+   * Grouping of the view
+   */
+  groupBy: GroupByConfig;
+  /**
+   * Callback function to change the grouping
+   */
+  onGroupByChange: (groupBy: GroupByConfig) => void;
+  /**
+   * Layout of the view
+   */
+  layoutMode: LayoutMode;
+  /**
+   * Callback function to change the layout
+   */
+  onLayoutModeChange: (layoutMode: LayoutMode) => void;
+  /**
+   * Columns of the table layout
+   */
+  tableColumns: TableColumn[];
+  /**
+   * Callback function to change the table columns
+   */
+  onTableColumnsChange: (tableColumns: TableColumn[]) => void;
+  /**
+   * Configuration of the board layout
+   */
+  boardConfig: BoardConfig;
+  /**
+   * Callback function to change the board configuration
+   */
+  onBoardConfigChange: (boardConfig: BoardConfig) => void;
+  /**
+   * Minimum card width from the settings
+   */
+  cardMinWidth: number;
+  /**
+   * Callback function to change the minimum card width (zoom)
+   */
+  onCardMinWidthChange: (cardMinWidth: number) => void;
+  /**
+   * Whether the view shows the compact list, which collapses the header
+   */
+  compact: boolean;
+  /**
+   * Compact list override of the view
+   */
+  compactMode: CompactMode;
+  /**
+   * Callback function to change the compact list override
+   */
+  onCompactModeChange: (compactMode: CompactMode) => void;
 }
 
 /**
  * CardView Header Component
  *
  * Displays the title, note statistics, and action buttons for the Card View Explorer.
- * Includes filter toggle and refresh functionality with appropriate accessibility attributes.
+ * Includes the layout, sort, group-by and board controls, filter toggle and refresh
+ * functionality with appropriate accessibility attributes. Grouping applies to the card
+ * layout only; the board control is shown for the board layout, and the zoom control for
+ * the layouts whose rows fit as many cards as their width allows.
+ *
+ * With the compact list the header collapses to the stats and the buttons; the view
+ * controls stay one click away behind the "More" button.
  */
 export const CardViewHeader: React.FC<CardViewHeaderProps> = ({
   totalNotes,
@@ -44,7 +128,26 @@ export const CardViewHeader: React.FC<CardViewHeaderProps> = ({
   isLoading,
   onToggleFilter,
   onRefresh,
+  sortConfig,
+  sortKeys,
+  onSortChange,
+  groupBy,
+  onGroupByChange,
+  layoutMode,
+  onLayoutModeChange,
+  tableColumns,
+  onTableColumnsChange,
+  boardConfig,
+  onBoardConfigChange,
+  cardMinWidth,
+  onCardMinWidthChange,
+  compact,
+  compactMode,
+  onCompactModeChange,
 }) => {
+  // Whether the view controls are expanded in the collapsed (compact) header
+  const [isExpanded, setIsExpanded] = useState(false);
+
   // Memoize calculated values for performance optimization
   const statsDisplay = useMemo(
     () => ({
@@ -71,39 +174,106 @@ export const CardViewHeader: React.FC<CardViewHeaderProps> = ({
     onRefresh();
   }, [onRefresh]);
 
+  const filterButton = (
+    <button
+      type="button"
+      className={`filter-toggle-button ${isFilterPanelOpen ? "active" : ""}`}
+      onClick={handleToggleFilter}
+      title={buttonLabels.filterButton}
+      aria-expanded={isFilterPanelOpen}
+      aria-controls="filter-panel"
+    >
+      Filters {isFilterPanelOpen ? "▲" : "▼"}
+    </button>
+  );
+
+  const refreshButton = (
+    <button
+      type="button"
+      className="refresh-button"
+      onClick={handleRefresh}
+      disabled={isLoading}
+      title="Refresh notes from vault"
+      aria-busy={isLoading}
+    >
+      {buttonLabels.refreshButton}
+    </button>
+  );
+
+  const stats = (
+    <div className="card-view-stats">
+      <span className="total-notes">{statsDisplay.totalNotesText}</span>
+      {statsDisplay.shouldShowFilteredCount && (
+        <span className="filtered-notes">{statsDisplay.filteredNotesText}</span>
+      )}
+    </div>
+  );
+
+  if (compact) {
+    return (
+      <div className="card-view-header card-view-header-compact">
+        <div className="card-view-header-row">
+          {stats}
+          {filterButton}
+          <button
+            type="button"
+            className={`more-button ${isExpanded ? "active" : ""}`}
+            onClick={() => setIsExpanded(!isExpanded)}
+            title={isExpanded ? "Hide view options" : "Show view options"}
+            aria-expanded={isExpanded}
+          >
+            More
+          </button>
+        </div>
+        {isExpanded && (
+          <div className="card-view-actions">
+            <LayoutControl
+              layoutMode={layoutMode}
+              tableColumns={tableColumns}
+              onLayoutModeChange={onLayoutModeChange}
+              onTableColumnsChange={onTableColumnsChange}
+            />
+            <SortControl sortConfig={sortConfig} sortKeys={sortKeys} onChange={onSortChange} />
+            <CompactControl compactMode={compactMode} onChange={onCompactModeChange} />
+            {refreshButton}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="card-view-header">
       <h2 className="card-view-title">Card View Explorer</h2>
 
-      <div className="card-view-stats">
-        <span className="total-notes">{statsDisplay.totalNotesText}</span>
-        {statsDisplay.shouldShowFilteredCount && (
-          <span className="filtered-notes">{statsDisplay.filteredNotesText}</span>
-        )}
-      </div>
+      {stats}
 
       <div className="card-view-actions">
-        <button
-          type="button"
-          className={`filter-toggle-button ${isFilterPanelOpen ? "active" : ""}`}
-          onClick={handleToggleFilter}
-          title={buttonLabels.filterButton}
-          aria-expanded={isFilterPanelOpen}
-          aria-controls="filter-panel"
-        >
-          Filters {isFilterPanelOpen ? "▲" : "▼"}
-        </button>
+        <LayoutControl
+          layoutMode={layoutMode}
+          tableColumns={tableColumns}
+          onLayoutModeChange={onLayoutModeChange}
+          onTableColumnsChange={onTableColumnsChange}
+        />
+        <SortControl sortConfig={sortConfig} sortKeys={sortKeys} onChange={onSortChange} />
+        {layoutMode === "grid" && (
+          <GroupByControl groupBy={groupBy} propertyKeys={sortKeys} onChange={onGroupByChange} />
+        )}
+        {layoutMode === "board" && (
+          <BoardControl
+            boardConfig={boardConfig}
+            propertyKeys={sortKeys}
+            onChange={onBoardConfigChange}
+          />
+        )}
+        {(layoutMode === "grid" || layoutMode === "masonry") && (
+          <ZoomControl cardMinWidth={cardMinWidth} onChange={onCardMinWidthChange} />
+        )}
+        <CompactControl compactMode={compactMode} onChange={onCompactModeChange} />
+
+        {filterButton}
 
-        <button
-          type="button"
-          className="refresh-button"
-          onClick={handleRefresh}
-          disabled={isLoading}
-          title="Refresh notes from vault"
-          aria-busy={isLoading}
-        >
-          {buttonLabels.refreshButton}
-        </button>
+        {refreshButton}
       </div>
     </div>
   );
@@ -0,0 +1,34 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CompactMode } from "../types";
+import { CompactControl } from "./CompactControl";
+
+const mockOnChange = vi.fn<(compactMode: CompactMode) => void>();
+
+describe("CompactControl", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("shows the compact mode of the view", () => {
+    render(<CompactControl compactMode="auto" onChange={mockOnChange} />);
+
+    expect(screen.getByRole("combobox", { name: "Compact list" })).toHaveValue("auto");
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+      "Auto",
+      "On",
+      "Off",
+    ]);
+  });
+
+  it("commits the chosen compact mode", () => {
+    render(<CompactControl compactMode="auto" onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Compact list" }), {
+      target: { value: "off" },
+    });
+
+    expect(mockOnChange).toHaveBeenCalledWith("off");
+  });
+});
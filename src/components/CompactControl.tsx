@@ -0,0 +1,46 @@
+import type React from "react";
+import { COMPACT_MODES, type CompactMode } from "../types";
+
+/**
+ * Props for the `CompactControl` component.
+ */
+interface CompactControlProps {
+  /** Whether the view shows the compact list */
+  compactMode: CompactMode;
+  /** Called with the chosen compact mode */
+  onChange: (compactMode: CompactMode) => void;
+}
+
+/**
+ * Option labels of the compact modes (internal)
+ */
+const COMPACT_MODE_LABELS: Record<CompactMode, string> = {
+  auto: "Auto",
+  on: "On",
+  off: "Off",
+};
+
+/**
+ * CompactControl
+ *
+ * Overrides for one view whether it shows the compact list: a title and one preview
+ * line per note, with a collapsed header. By default the list is shown while the view
+ * is narrow, e.g. in a sidebar.
+ */
+export const CompactControl: React.FC<CompactControlProps> = ({ compactMode, onChange }) => (
+  <div className="compact-control" title="Compact list (Auto: when the view is narrow)">
+    <span className="compact-label">Compact</span>
+    <select
+      value={compactMode}
+      onChange={(e) => onChange(e.target.value as CompactMode)}
+      aria-label="Compact list"
+      className="compact-select"
+    >
+      {COMPACT_MODES.map((mode) => (
+        <option key={mode} value={mode}>
+          {COMPACT_MODE_LABELS[mode]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
@@ -10,6 +10,7 @@ import { FilterPanel } from "./FilterPanel";
 const mockUpdateFilters = vi.fn<(filters: Partial<FilterState>) => void>();
 const mockClearFilters = vi.fn<() => void>();
 const mockHasActiveFilters = vi.fn<() => boolean>();
+const mockSetSortByRelevance = vi.fn<(sortByRelevance: boolean) => void>();
 
 vi.mock("../store/cardExplorerStore", () => ({
   useCardExplorerStore: vi.fn(),
@@ -24,6 +25,8 @@ type MockStoreSlice = {
   updateFilters: (filters: Partial<FilterState>) => void;
   clearFilters: () => void;
   hasActiveFilters: () => boolean;
+  sortByRelevance: boolean;
+  setSortByRelevance: (sortByRelevance: boolean) => void;
 };
 
 // Allow tests to override parts of the slice
@@ -32,13 +35,22 @@ interface MockStoreOverrides {
   updateFilters?: (filters: Partial<FilterState>) => void;
   clearFilters?: () => void;
   hasActiveFilters?: () => boolean;
+  sortByRelevance?: boolean;
 }
 
 const createMockStoreData = (overrides: MockStoreOverrides = {}): MockStoreSlice => {
   const defaultFilters: FilterState = {
     folders: [],
+    folderMatchMode: "any",
     tags: [],
-    filename: "",
+    tagMatchMode: "any",
+    filename: [],
+    filenamePhrases: [],
+    content: "",
+    excludeFolders: [],
+    excludeTags: [],
+    excludeFilename: [],
+    properties: [],
     dateRange: null,
   };
 
@@ -47,6 +59,8 @@ const createMockStoreData = (overrides: MockStoreOverrides = {}): MockStoreSlice
     updateFilters: overrides.updateFilters ?? mockUpdateFilters,
     clearFilters: overrides.clearFilters ?? mockClearFilters,
     hasActiveFilters: overrides.hasActiveFilters ?? mockHasActiveFilters,
+    sortByRelevance: overrides.sortByRelevance ?? false,
+    setSortByRelevance: mockSetSortByRelevance,
   };
   return slice;
 };
@@ -130,7 +144,7 @@ class FilterPanelTestHelper {
     await this.user.click(button);
   }
 
-  async changeDateType(dateType: "within" | "after") {
+  async changeDateType(dateType: "within" | "after" | "on") {
     const select = this.getDateTypeSelect();
     await this.user.selectOptions(select, dateType);
   }
@@ -149,7 +163,7 @@ class FilterPanelTestHelper {
     expect(mockClearFilters).toHaveBeenCalled();
   }
 
-  async waitForFilenameUpdate(expectedFilename: string) {
+  async waitForFilenameUpdate(expectedFilename: string[]) {
     await waitFor(
       () => {
         this.expectUpdateFiltersCalledWith({ filename: expectedFilename });
@@ -196,7 +210,53 @@ describe("FilterPanel", () => {
       await helper.renderWithMockStore(TEST_PROPS.default);
 
       await helper.typeFilename("test");
-      await helper.waitForFilenameUpdate("test");
+      await helper.waitForFilenameUpdate(["test"]);
+    });
+  });
+
+  describe("Relevance Sort", () => {
+    it("toggles sorting by relevance", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default);
+      await helper.user.click(screen.getByRole("checkbox", { name: "Sort by relevance" }));
+      expect(mockSetSortByRelevance).toHaveBeenCalledWith(true);
+    });
+
+    it("shows the stored relevance setting", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, { sortByRelevance: true });
+      expect(screen.getByRole("checkbox", { name: "Sort by relevance" })).toBeChecked();
+    });
+  });
+
+  describe("Content Search", () => {
+    it("handles content search input with debounce", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default);
+      await helper.user.type(screen.getByLabelText("Content:"), '"action items"');
+      await waitFor(() => helper.expectUpdateFiltersCalledWith({ content: '"action items"' }), {
+        timeout: 1000,
+      });
+    });
+
+    it("shows the stored content query", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, { filters: { content: "budget" } });
+      expect(screen.getByLabelText("Content:")).toHaveValue("budget");
+    });
+  });
+
+  describe("Search Query", () => {
+    it("parses query terms typed into the filename box", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default);
+      await helper.typeFilename("tag:tag1 -folder:folder2");
+      await waitFor(
+        () => helper.expectUpdateFiltersCalledWith({ tags: ["tag1"], excludeFolders: ["folder2"] }),
+        { timeout: 1000 }
+      );
+    });
+
+    it("shows selected filters as query text", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, {
+        filters: { filename: ["weekly"], tags: ["tag1"] },
+      });
+      expect(helper.getFilenameInput()).toHaveValue("weekly tag:tag1");
     });
   });
 
@@ -270,6 +330,139 @@ describe("FilterPanel", () => {
     });
   });
 
+  describe("Exclusion Filtering", () => {
+    const exclusionTestCases = [
+      {
+        description: "excludes a tag",
+        initialState: {},
+        button: "Exclude tag1",
+        expected: { excludeTags: ["tag1"] },
+      },
+      {
+        description: "stops excluding a tag",
+        initialState: { filters: { excludeTags: ["tag1"] } },
+        button: "Exclude tag1",
+        expected: { excludeTags: [] },
+      },
+      {
+        description: "moves an included folder to the exclude list",
+        initialState: { filters: { folders: ["folder1"] } },
+        button: "Exclude folder1",
+        expected: { excludeFolders: ["folder1"], folders: [] },
+      },
+    ];
+
+    exclusionTestCases.forEach(({ description, initialState, button, expected }) => {
+      it(description, async () => {
+        await helper.renderWithMockStore(TEST_PROPS.default, initialState);
+        await helper.user.click(screen.getByRole("button", { name: button }));
+        helper.expectUpdateFiltersCalledWith(expected);
+      });
+    });
+
+    it("removes an excluded tag from the exclude list when it is included", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, {
+        filters: { excludeTags: ["tag1", "tag2"] },
+      });
+      await helper.selectTag("tag1");
+      helper.expectUpdateFiltersCalledWith({ tags: ["tag1"], excludeTags: ["tag2"] });
+    });
+
+    it("marks excluded options as pressed and unchecked", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, {
+        filters: { excludeFolders: ["folder2"] },
+      });
+
+      const excludeButton = screen.getByRole("button", { name: "Exclude folder2" });
+      expect(excludeButton).toHaveAttribute("aria-pressed", "true");
+      expect(helper.getFolderCheckbox("folder2")).not.toBeChecked();
+      expect(screen.getByRole("button", { name: "Exclude folder1" })).toHaveAttribute(
+        "aria-pressed",
+        "false"
+      );
+    });
+
+    it("handles filename exclusion input with debounce", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default);
+      await helper.user.type(screen.getByLabelText("Exclude filename:"), "draft");
+      await waitFor(() => helper.expectUpdateFiltersCalledWith({ excludeFilename: ["draft"] }), {
+        timeout: 1000,
+      });
+    });
+
+    it("keeps each excluded word and phrase as a separate exclusion", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default);
+      await helper.user.type(screen.getByLabelText("Exclude filename:"), 'foo "old copy" bar');
+      await waitFor(
+        () => helper.expectUpdateFiltersCalledWith({ excludeFilename: ["foo", "old copy", "bar"] }),
+        { timeout: 1000 }
+      );
+    });
+
+    it("shows stored exclusions as words and quoted phrases", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, {
+        filters: { excludeFilename: ["foo", "old copy"] },
+      });
+
+      expect(screen.getByLabelText("Exclude filename:")).toHaveValue('foo "old copy"');
+    });
+  });
+
+  describe("Match Mode", () => {
+    const matchModeTestCases = [
+      {
+        description: "switches tags from any to all",
+        initialState: {},
+        button: "Tag match mode: any",
+        expected: { tagMatchMode: "all" },
+      },
+      {
+        description: "switches tags from all to none",
+        initialState: { filters: { tagMatchMode: "all" as const } },
+        button: "Tag match mode: all",
+        expected: { tagMatchMode: "none" },
+      },
+      {
+        description: "switches folders from none back to any",
+        initialState: { filters: { folderMatchMode: "none" as const } },
+        button: "Folder match mode: none",
+        expected: { folderMatchMode: "any" },
+      },
+    ];
+
+    matchModeTestCases.forEach(({ description, initialState, button, expected }) => {
+      it(description, async () => {
+        await helper.renderWithMockStore(TEST_PROPS.default, initialState);
+        await helper.user.click(screen.getByRole("button", { name: button }));
+        helper.expectUpdateFiltersCalledWith(expected);
+      });
+    });
+
+    it("shows the current mode next to each group heading", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default, {
+        filters: { tagMatchMode: "all" },
+      });
+
+      expect(screen.getByRole("button", { name: "Tag match mode: all" })).toHaveTextContent("All");
+      expect(screen.getByRole("button", { name: "Folder match mode: any" })).toHaveTextContent(
+        "Any"
+      );
+    });
+  });
+
+  describe("Property Filtering", () => {
+    it("writes property conditions to the store", async () => {
+      await helper.renderWithMockStore(TEST_PROPS.default);
+
+      expect(screen.getByText("Properties:")).toBeInTheDocument();
+      await helper.user.click(screen.getByRole("button", { name: "Add condition" }));
+
+      helper.expectUpdateFiltersCalledWith({
+        properties: [{ key: "", operator: "equals", value: "", valueTo: "" }],
+      });
+    });
+  });
+
   // Clear filters tests
   describe("Clear Filters", () => {
     const clearFilterTestCases = [
@@ -278,7 +471,7 @@ describe("FilterPanel", () => {
         setupAction: async () => {
           mockHasActiveFilters.mockReturnValue(true);
           await helper.renderWithMockStore(TEST_PROPS.default, {
-            filters: { folders: ["folder1"], filename: "test" },
+            filters: { folders: ["folder1"], filename: ["test"] },
             hasActiveFilters: mockHasActiveFilters,
           });
         },
@@ -292,7 +485,7 @@ describe("FilterPanel", () => {
         setupAction: async () => {
           mockHasActiveFilters.mockReturnValue(true);
           await helper.renderWithMockStore(TEST_PROPS.default, {
-            filters: { folders: ["folder1"], tags: ["tag1"], filename: "test" },
+            filters: { folders: ["folder1"], tags: ["tag1"], filename: ["test"] },
             hasActiveFilters: mockHasActiveFilters,
           });
         },
@@ -453,6 +646,17 @@ describe("FilterPanel", () => {
         expect(screen.getByDisplayValue("After date")).toBeInTheDocument();
       });
 
+      it("shows a day picked on the calendar as its local date", async () => {
+        await helper.renderWithMockStore(TEST_PROPS.default, {
+          filters: {
+            dateRange: { type: "on", value: new Date(2024, 0, 5) },
+          },
+        });
+
+        expect(screen.getByDisplayValue("On date")).toBeInTheDocument();
+        expect(screen.getByDisplayValue("2024-01-05")).toBeInTheDocument();
+      });
+
       it("reapplies date filter on type change when input exists", async () => {
         await helper.renderWithMockStore(TEST_PROPS.default);
 
@@ -2,8 +2,12 @@ import type React from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useDebouncedValue } from "../hooks/useDebouncedValue";
 import { toggleInArray } from "../lib/array";
-import { parseDateFilter } from "../lib/dateUtils";
+import { type DateFilterType, parseDateFilter, toDayKey } from "../lib/dateUtils";
 import { useCardExplorerStore } from "../store/cardExplorerStore";
+import { parseTitleExclusions, serializeTitleExclusions } from "../store/filters";
+import { FILTER_MATCH_MODES, type FilterMatchMode, type PropertyFilter } from "../types";
+import { PropertyFilterEditor } from "./PropertyFilterEditor";
+import { SearchQueryInput } from "./SearchQueryInput";
 
 /**
  * Props for the `FilterPanel` component.
@@ -19,15 +23,133 @@ interface FilterPanelProps {
   availableFolders: string[];
 }
 
+/**
+ * Props for a single tag or folder option row (internal)
+ */
+interface FilterOptionRowProps {
+  /** Option value written to the filter state */
+  value: string;
+  /** Text shown for the option */
+  label: string;
+  /** CSS class for the label text */
+  labelClassName: string;
+  /** Whether the option is in the include list */
+  included: boolean;
+  /** Whether the option is in the exclude list */
+  excluded: boolean;
+  /** Called when the include checkbox is toggled */
+  onToggleInclude: (value: string) => void;
+  /** Called when the exclude button is toggled */
+  onToggleExclude: (value: string) => void;
+}
+
+/**
+ * Tri-state option row for a tag or folder (internal)
+ *
+ * The checkbox includes the option and the "−" button excludes it; neither means ignored.
+ * The panel keeps the include and exclude lists disjoint.
+ */
+const FilterOptionRow: React.FC<FilterOptionRowProps> = ({
+  value,
+  label,
+  labelClassName,
+  included,
+  excluded,
+  onToggleInclude,
+  onToggleExclude,
+}) => (
+  <div className={`filter-option${excluded ? " is-excluded" : ""}`}>
+    <label className="checkbox-label">
+      <input type="checkbox" checked={included} onChange={() => onToggleInclude(value)} />
+      <span className={labelClassName}>{label}</span>
+    </label>
+    <button
+      type="button"
+      className="exclude-toggle-btn"
+      aria-pressed={excluded}
+      aria-label={`Exclude ${label}`}
+      title={excluded ? `Stop excluding ${label}` : `Exclude ${label}`}
+      onClick={() => onToggleExclude(value)}
+    >
+      −
+    </button>
+  </div>
+);
+
+/**
+ * Button labels and descriptions for each match mode (internal)
+ */
+const MATCH_MODE_LABELS: Record<FilterMatchMode, { text: string; description: string }> = {
+  any: { text: "Any", description: "Notes matching any selected" },
+  all: { text: "All", description: "Notes matching all selected" },
+  none: { text: "None", description: "Notes matching none of the selected" },
+};
+
+/**
+ * Props for the match mode toggle next to a group heading (internal)
+ */
+interface MatchModeToggleProps {
+  /** Name of the group, used in the accessible label (e.g. "Tag") */
+  groupName: string;
+  /** Current match mode of the group */
+  mode: FilterMatchMode;
+  /** Called with the next mode when the toggle is clicked */
+  onChange: (mode: FilterMatchMode) => void;
+}
+
+/**
+ * Toggle that cycles a group's match mode through any → all → none (internal)
+ */
+const MatchModeToggle: React.FC<MatchModeToggleProps> = ({ groupName, mode, onChange }) => {
+  const { text, description } = MATCH_MODE_LABELS[mode];
+  const next =
+    FILTER_MATCH_MODES[(FILTER_MATCH_MODES.indexOf(mode) + 1) % FILTER_MATCH_MODES.length];
+
+  return (
+    <button
+      type="button"
+      className="match-mode-toggle-btn"
+      aria-label={`${groupName} match mode: ${mode}`}
+      title={`${description} ${groupName.toLowerCase()}s (click to change)`}
+      onClick={() => onChange(next)}
+    >
+      {text}
+    </button>
+  );
+};
+
+/**
+ * Toggle a value in one list while removing it from the opposite list (internal)
+ *
+ * Returns null for the opposite list when it did not contain the value,
+ * so callers only write the fields that actually changed.
+ */
+const toggleExclusive = (
+  value: string,
+  list: string[],
+  opposite: string[]
+): { list: string[]; opposite: string[] | null } => ({
+  list: toggleInArray(list, value),
+  opposite: opposite.includes(value) ? opposite.filter((item) => item !== value) : null,
+});
+
 /**
  * FilterPanel
  *
  * Provides interactive controls to filter card results by filename, date, tags, and folders.
+ * The filename box accepts the search query language and stays in sync with the other
+ * controls (see `SearchQueryInput`).
+ * Tags and folders can each be included, excluded or ignored; exclusions use the same
+ * hierarchical matching as inclusions. Each group has a match mode (any/all/none) that
+ * decides how its selected values are combined. Frontmatter property conditions are edited
+ * as rows by `PropertyFilterEditor`. The content box searches note bodies through the
+ * shared content index. Filename matching is fuzzy; "Sort by relevance" ranks the results
+ * by match score while a filename search is active.
  *
  * Design notes:
  * - Single source of truth: Reads and writes filter state via `useCardExplorerStore` so other
  *   components react to changes consistently.
- * - Input hygiene: Filename updates are debounced to avoid frequent store updates and expensive
+ * - Input hygiene: Filename, content and search query updates are debounced to avoid frequent store updates and expensive
  *   downstream recomputation while the user is typing.
  * - Date validation: Date inputs are parsed through `parseDateFilter` and only committed when valid
  *   to keep the store free from invalid or partial values.
@@ -35,54 +157,94 @@ interface FilterPanelProps {
  *   and checkbox order independent of incoming array order.
  */
 export const FilterPanel: React.FC<FilterPanelProps> = ({ availableTags, availableFolders }) => {
-  const { filters, updateFilters, clearFilters, hasActiveFilters } = useCardExplorerStore();
+  const {
+    filters,
+    updateFilters,
+    clearFilters,
+    hasActiveFilters,
+    sortByRelevance,
+    setSortByRelevance,
+  } = useCardExplorerStore();
 
   const [dateInput, setDateInput] = useState("");
-  const [dateType, setDateType] = useState<"within" | "after">("within");
+  const [dateType, setDateType] = useState<DateFilterType>("within");
 
   // Sort once per input-change to keep checkbox order stable across renders.
   const sortedTags = useMemo(() => [...availableTags].sort(), [availableTags]);
   const sortedFolders = useMemo(() => [...availableFolders].sort(), [availableFolders]);
 
-  // Debounce filename input to limit store updates while typing.
-  const [filenameInput, setFilenameInput] = useState(filters.filename);
-  const debouncedFilename = useDebouncedValue(filenameInput, 200);
-  // Track initial mount to avoid dispatching a redundant update on first render
-  // (we hydrate local state from the store, then begin debounced updates).
-  const isInitialRender = useRef(true);
-
-  const handleFolderChange = useCallback(
-    (selectedFolders: string[]) => {
-      updateFilters({ folders: selectedFolders });
-    },
-    [updateFilters]
+  // Debounce the filename exclusion input to limit store updates while typing.
+  // The input lists the exclusions as words and quoted phrases.
+  const excludeFilenameText = useMemo(
+    () => serializeTitleExclusions(filters.excludeFilename),
+    [filters.excludeFilename]
   );
+  const [excludeFilenameInput, setExcludeFilenameInput] = useState(excludeFilenameText);
+  const debouncedExcludeFilename = useDebouncedValue(excludeFilenameInput, 200);
+  // Read the stored value through a ref so that changes made elsewhere (search query,
+  // "Clear All") do not re-run the commit effect with a stale debounced value.
+  const excludeFilenameRef = useRef(excludeFilenameText);
+  excludeFilenameRef.current = excludeFilenameText;
+  const excludeFilenameInputRef = useRef(excludeFilenameInput);
+  excludeFilenameInputRef.current = excludeFilenameInput;
 
-  const handleTagChange = useCallback(
-    (selectedTags: string[]) => {
-      updateFilters({ tags: selectedTags });
+  // Debounce the content search input the same way.
+  const [contentInput, setContentInput] = useState(filters.content);
+  const debouncedContent = useDebouncedValue(contentInput, 200);
+  const contentRef = useRef(filters.content);
+  contentRef.current = filters.content;
+
+  const toggleFolder = useCallback(
+    (folder: string) => {
+      const { list, opposite } = toggleExclusive(folder, filters.folders, filters.excludeFolders);
+      updateFilters(opposite ? { folders: list, excludeFolders: opposite } : { folders: list });
     },
-    [updateFilters]
+    [filters.folders, filters.excludeFolders, updateFilters]
   );
 
-  const toggleFolder = useCallback(
+  const toggleFolderExclusion = useCallback(
     (folder: string) => {
-      const newFolders = toggleInArray(filters.folders, folder);
-      handleFolderChange(newFolders);
+      const { list, opposite } = toggleExclusive(folder, filters.excludeFolders, filters.folders);
+      updateFilters(
+        opposite ? { excludeFolders: list, folders: opposite } : { excludeFolders: list }
+      );
     },
-    [filters.folders, handleFolderChange]
+    [filters.folders, filters.excludeFolders, updateFilters]
   );
 
   const toggleTag = useCallback(
     (tag: string) => {
-      const newTags = toggleInArray(filters.tags, tag);
-      handleTagChange(newTags);
+      const { list, opposite } = toggleExclusive(tag, filters.tags, filters.excludeTags);
+      updateFilters(opposite ? { tags: list, excludeTags: opposite } : { tags: list });
     },
-    [filters.tags, handleTagChange]
+    [filters.tags, filters.excludeTags, updateFilters]
+  );
+
+  const toggleTagExclusion = useCallback(
+    (tag: string) => {
+      const { list, opposite } = toggleExclusive(tag, filters.excludeTags, filters.tags);
+      updateFilters(opposite ? { excludeTags: list, tags: opposite } : { excludeTags: list });
+    },
+    [filters.tags, filters.excludeTags, updateFilters]
+  );
+
+  const handleFolderMatchModeChange = useCallback(
+    (folderMatchMode: FilterMatchMode) => updateFilters({ folderMatchMode }),
+    [updateFilters]
+  );
+
+  const handleTagMatchModeChange = useCallback(
+    (tagMatchMode: FilterMatchMode) => updateFilters({ tagMatchMode }),
+    [updateFilters]
+  );
+
+  const handlePropertiesChange = useCallback(
+    (properties: PropertyFilter[]) => updateFilters({ properties }),
+    [updateFilters]
   );
 
   const handleDateTypeChange = useCallback(
-    (newDateType: "within" | "after") => {
+    (newDateType: DateFilterType) => {
       setDateType(newDateType);
 
       // If the user already entered a value, re-parse and apply it using the new type.
@@ -155,26 +317,45 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ availableTags, availab
       // Expecting a date; allow string or Date
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const v: any = (filters.dateRange as any).value;
-      const iso = typeof v === "string" ? v : new Date(v).toISOString().slice(0, 10);
+      // A day picked on the calendar is a local day, which toISOString may shift
+      const iso =
+        typeof v === "string"
+          ? v
+          : filters.dateRange.type === "on"
+            ? toDayKey(new Date(v))
+            : new Date(v).toISOString().slice(0, 10);
       setDateInput(iso);
     }
   }, [filters.dateRange]);
 
   useEffect(() => {
-    setFilenameInput(filters.filename);
-  }, [filters.filename]);
+    // Keep the user's own spacing and quoting while the text still lists the stored exclusions
+    const inputText = serializeTitleExclusions(
+      parseTitleExclusions(excludeFilenameInputRef.current)
+    );
+    if (inputText !== excludeFilenameText) {
+      setExcludeFilenameInput(excludeFilenameText);
+    }
+  }, [excludeFilenameText]);
 
   useEffect(() => {
-    if (isInitialRender.current) {
-      isInitialRender.current = false;
-      return;
-    }
     // Only push a change when the debounced value actually differs from the store value.
     // This keeps the store as the canonical source and prevents unnecessary re-renders.
-    if (debouncedFilename !== filters.filename) {
-      updateFilters({ filename: debouncedFilename });
+    const exclusions = parseTitleExclusions(debouncedExcludeFilename);
+    if (serializeTitleExclusions(exclusions) !== excludeFilenameRef.current) {
+      updateFilters({ excludeFilename: exclusions });
+    }
+  }, [debouncedExcludeFilename, updateFilters]);
+
+  useEffect(() => {
+    setContentInput(filters.content);
+  }, [filters.content]);
+
+  useEffect(() => {
+    if (debouncedContent !== contentRef.current) {
+      updateFilters({ content: debouncedContent });
     }
-  }, [debouncedFilename, filters.filename, updateFilters]);
+  }, [debouncedContent, updateFilters]);
 
   return (
     <div className="filter-panel">
@@ -196,12 +377,41 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ availableTags, availab
         <h4>
           <label htmlFor="filter-filename">Filename:</label>
         </h4>
+        <SearchQueryInput id="filter-filename" filters={filters} onChange={updateFilters} />
+        <label className="checkbox-label relevance-toggle">
+          <input
+            type="checkbox"
+            checked={sortByRelevance}
+            onChange={(e) => setSortByRelevance(e.target.checked)}
+          />
+          <span>Sort by relevance</span>
+        </label>
+      </div>
+
+      <div className="filter-group">
+        <h4>
+          <label htmlFor="filter-content">Content:</label>
+        </h4>
         <input
-          id="filter-filename"
+          id="filter-content"
           type="text"
-          value={filenameInput}
-          onChange={(e) => setFilenameInput(e.target.value)}
-          placeholder="Type to search filename"
+          value={contentInput}
+          onChange={(e) => setContentInput(e.target.value)}
+          placeholder='Search note text, "exact phrase"'
+          className="filter-input"
+        />
+      </div>
+
+      <div className="filter-group">
+        <h4>
+          <label htmlFor="filter-exclude-filename">Exclude filename:</label>
+        </h4>
+        <input
+          id="filter-exclude-filename"
+          type="text"
+          value={excludeFilenameInput}
+          onChange={(e) => setExcludeFilenameInput(e.target.value)}
+          placeholder='Hide filenames containing any word or "phrase"'
           className="filter-input"
         />
       </div>
@@ -213,12 +423,13 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ availableTags, availab
         <div className="date-filter-container">
           <select
             value={dateType}
-            onChange={(e) => handleDateTypeChange(e.target.value as "within" | "after")}
+            onChange={(e) => handleDateTypeChange(e.target.value as DateFilterType)}
             className="date-type-select"
             title="Date filter type"
           >
             <option value="within">Within last</option>
             <option value="after">After date</option>
+            <option value="on">On date</option>
           </select>
 
           <input
@@ -236,21 +447,30 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ availableTags, availab
       </div>
 
       <div className="filter-group">
-        <h4>Tags:</h4>
+        <div className="filter-group-header">
+          <h4>Tags:</h4>
+          <MatchModeToggle
+            groupName="Tag"
+            mode={filters.tagMatchMode}
+            onChange={handleTagMatchModeChange}
+          />
+        </div>
         <div className="multi-select-container">
           {sortedTags.length === 0 ? (
             <div className="no-options">No tags available</div>
           ) : (
             <div className="multi-select-options">
               {sortedTags.map((tag) => (
-                <label key={tag} className="checkbox-label">
-                  <input
-                    type="checkbox"
-                    checked={filters.tags.includes(tag)}
-                    onChange={() => toggleTag(tag)}
-                  />
-                  <span className="tag-name">{tag}</span>
-                </label>
+                <FilterOptionRow
+                  key={tag}
+                  value={tag}
+                  label={tag}
+                  labelClassName="tag-name"
+                  included={filters.tags.includes(tag)}
+                  excluded={filters.excludeTags.includes(tag)}
+                  onToggleInclude={toggleTag}
+                  onToggleExclude={toggleTagExclusion}
+                />
               ))}
             </div>
           )}
@@ -258,26 +478,40 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ availableTags, availab
       </div>
 
       <div className="filter-group">
-        <h4>Folders:</h4>
+        <div className="filter-group-header">
+          <h4>Folders:</h4>
+          <MatchModeToggle
+            groupName="Folder"
+            mode={filters.folderMatchMode}
+            onChange={handleFolderMatchModeChange}
+          />
+        </div>
         <div className="multi-select-container">
           {sortedFolders.length === 0 ? (
             <div className="no-options">No folders available</div>
           ) : (
             <div className="multi-select-options">
               {sortedFolders.map((folder) => (
-                <label key={folder} className="checkbox-label">
-                  <input
-                    type="checkbox"
-                    checked={filters.folders.includes(folder)}
-                    onChange={() => toggleFolder(folder)}
-                  />
-                  <span className="folder-name">{folder || "(Root)"}</span>
-                </label>
+                <FilterOptionRow
+                  key={folder}
+                  value={folder}
+                  label={folder || "(Root)"}
+                  labelClassName="folder-name"
+                  included={filters.folders.includes(folder)}
+                  excluded={filters.excludeFolders.includes(folder)}
+                  onToggleInclude={toggleFolder}
+                  onToggleExclude={toggleFolderExclusion}
+                />
               ))}
             </div>
           )}
         </div>
       </div>
+
+      <div className="filter-group">
+        <h4>Properties:</h4>
+        <PropertyFilterEditor properties={filters.properties} onChange={handlePropertiesChange} />
+      </div>
     </div>
   );
 };
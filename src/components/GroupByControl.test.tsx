@@ -0,0 +1,68 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { GroupByConfig } from "../types";
+import { GroupByControl } from "./GroupByControl";
+
+const mockOnChange = vi.fn<(groupBy: GroupByConfig) => void>();
+
+describe("GroupByControl", () => {
+  const user = userEvent.setup();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("offers every group-by mode and shows the current one", () => {
+    render(<GroupByControl groupBy={{ mode: "tag" }} propertyKeys={[]} onChange={mockOnChange} />);
+
+    const select = screen.getByRole("combobox", { name: "Group by" });
+    expect(select).toHaveValue("tag");
+    expect(Array.from(select.querySelectorAll("option")).map((o) => o.value)).toEqual([
+      "none",
+      "folder",
+      "tag",
+      "property",
+      "date",
+    ]);
+    expect(screen.queryByLabelText("Group by property")).not.toBeInTheDocument();
+  });
+
+  it("commits a chosen mode immediately", async () => {
+    render(<GroupByControl groupBy={{ mode: "none" }} propertyKeys={[]} onChange={mockOnChange} />);
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Group by" }), "folder");
+
+    expect(mockOnChange).toHaveBeenCalledWith({ mode: "folder" });
+  });
+
+  it("suggests property keys while grouping by property", () => {
+    const { container } = render(
+      <GroupByControl
+        groupBy={{ mode: "property", property: "status" }}
+        propertyKeys={["priority", "status"]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Group by property")).toHaveValue("status");
+    const options = Array.from(container.querySelectorAll("datalist option"));
+    expect(options.map((option) => option.getAttribute("value"))).toEqual(["priority", "status"]);
+  });
+
+  it("commits a typed property after the debounce", async () => {
+    render(
+      <GroupByControl
+        groupBy={{ mode: "property", property: "" }}
+        propertyKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+
+    await user.type(screen.getByLabelText("Group by property"), " status ");
+
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith({ mode: "property", property: "status" });
+  });
+});
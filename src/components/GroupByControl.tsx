@@ -0,0 +1,112 @@
+import type React from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { GROUP_BY_MODES, type GroupByConfig, type GroupByMode } from "../types";
+
+/**
+ * Props for the `GroupByControl` component.
+ */
+interface GroupByControlProps {
+  /** Grouping currently applied to the view */
+  groupBy: GroupByConfig;
+  /** Frontmatter keys suggested for grouping by property */
+  propertyKeys: string[];
+  /** Called with the new grouping after edits settle */
+  onChange: (groupBy: GroupByConfig) => void;
+}
+
+/**
+ * Option labels of the group-by modes (internal)
+ */
+const GROUP_BY_MODE_LABELS: Record<GroupByMode, string> = {
+  none: "No grouping",
+  folder: "Folder",
+  tag: "Top-level tag",
+  property: "Property",
+  date: "Date",
+};
+
+/**
+ * GroupByControl
+ *
+ * Chooses how the cards of a view are grouped: not at all, by folder, by the top-level
+ * segment of the first tag, by a frontmatter value or by date bucket (Today, Yesterday,
+ * This week, Older).
+ *
+ * Design notes:
+ * - Choosing a mode is committed immediately; the property name is free text with
+ *   suggestions and is committed with the same debounce as the sort keys.
+ * - The property is only kept while grouping by property, so the persisted state
+ *   stays minimal for the other modes.
+ */
+export const GroupByControl: React.FC<GroupByControlProps> = ({
+  groupBy,
+  propertyKeys,
+  onChange,
+}) => {
+  const listId = useId();
+  const [property, setProperty] = useState(groupBy.property ?? "");
+  const debouncedProperty = useDebouncedValue(property, 200);
+  // Latest stored grouping, read when committing so that an outside change
+  // does not trigger a commit of a stale debounced property
+  const groupByRef = useRef(groupBy);
+  groupByRef.current = groupBy;
+
+  // Keep the typed property in sync when the store changes from outside (restore)
+  useEffect(() => {
+    setProperty((current) =>
+      current.trim() === (groupBy.property ?? "") ? current : (groupBy.property ?? "")
+    );
+  }, [groupBy.property]);
+
+  useEffect(() => {
+    const stored = groupByRef.current;
+    const next = debouncedProperty.trim();
+    if (stored.mode === "property" && next !== (stored.property ?? "")) {
+      onChange({ mode: "property", property: next });
+    }
+  }, [debouncedProperty, onChange]);
+
+  const handleModeChange = useCallback(
+    (mode: GroupByMode) => {
+      onChange(mode === "property" ? { mode, property: property.trim() } : { mode });
+    },
+    [property, onChange]
+  );
+
+  return (
+    <div className="group-by-control">
+      <span className="group-by-label">Group by</span>
+      <select
+        value={groupBy.mode}
+        onChange={(e) => handleModeChange(e.target.value as GroupByMode)}
+        aria-label="Group by"
+        className="group-by-select"
+      >
+        {GROUP_BY_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {GROUP_BY_MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+      {groupBy.mode === "property" && (
+        <>
+          <input
+            type="text"
+            value={property}
+            onChange={(e) => setProperty(e.target.value)}
+            list={listId}
+            placeholder="property"
+            aria-label="Group by property"
+            className="group-by-property-input"
+          />
+          <datalist id={listId}>
+            {propertyKeys.map((key) => (
+              <option key={key} value={key} />
+            ))}
+          </datalist>
+        </>
+      )}
+    </div>
+  );
+};
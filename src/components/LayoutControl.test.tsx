@@ -0,0 +1,76 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TableColumn } from "../types";
+import { LayoutControl } from "./LayoutControl";
+
+const mockOnLayoutModeChange = vi.fn();
+const mockOnTableColumnsChange = vi.fn<(tableColumns: TableColumn[]) => void>();
+
+const COLUMNS: TableColumn[] = [{ key: "filename", width: 240 }, { key: "status" }];
+
+describe("LayoutControl", () => {
+  const user = userEvent.setup();
+
+  const renderControl = (layoutMode: "grid" | "table", tableColumns = COLUMNS) =>
+    render(
+      <LayoutControl
+        layoutMode={layoutMode}
+        tableColumns={tableColumns}
+        onLayoutModeChange={mockOnLayoutModeChange}
+        onTableColumnsChange={mockOnTableColumnsChange}
+      />
+    );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("commits a chosen layout immediately", async () => {
+    renderControl("grid");
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Layout" }), "table");
+
+    expect(mockOnLayoutModeChange).toHaveBeenCalledWith("table");
+    expect(screen.queryByLabelText("Table columns")).not.toBeInTheDocument();
+  });
+
+  it("commits typed columns after the debounce, keeping resized widths", async () => {
+    renderControl("table");
+
+    const input = screen.getByLabelText("Table columns");
+    expect(input).toHaveValue("filename, status");
+    await user.type(input, ", due,");
+
+    await waitFor(() => expect(mockOnTableColumnsChange).toHaveBeenCalledTimes(1), {
+      timeout: 1000,
+    });
+    expect(mockOnTableColumnsChange).toHaveBeenCalledWith([...COLUMNS, { key: "due" }]);
+    expect(input).toHaveValue("filename, status, due,");
+  });
+
+  it("does not commit an empty column list", async () => {
+    renderControl("table");
+
+    await user.clear(screen.getByLabelText("Table columns"));
+    await act(() => new Promise((resolve) => setTimeout(resolve, 300)));
+
+    expect(mockOnTableColumnsChange).not.toHaveBeenCalled();
+  });
+
+  it("follows columns changed from outside", () => {
+    const { rerender } = renderControl("table");
+
+    rerender(
+      <LayoutControl
+        layoutMode="table"
+        tableColumns={[{ key: "folder" }]}
+        onLayoutModeChange={mockOnLayoutModeChange}
+        onTableColumnsChange={mockOnTableColumnsChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Table columns")).toHaveValue("folder");
+  });
+});
@@ -0,0 +1,114 @@
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { setColumnKeys } from "../store/table";
+import { LAYOUT_MODES, type LayoutMode, type TableColumn } from "../types";
+
+/**
+ * Props for the `LayoutControl` component.
+ */
+interface LayoutControlProps {
+  /** Layout currently used by the view */
+  layoutMode: LayoutMode;
+  /** Columns of the table layout */
+  tableColumns: TableColumn[];
+  /** Called with the chosen layout */
+  onLayoutModeChange: (layoutMode: LayoutMode) => void;
+  /** Called with the new table columns after edits settle */
+  onTableColumnsChange: (tableColumns: TableColumn[]) => void;
+}
+
+/**
+ * Option labels of the layouts (internal)
+ */
+const LAYOUT_MODE_LABELS: Record<LayoutMode, string> = {
+  grid: "Cards",
+  masonry: "Masonry",
+  table: "Table",
+  board: "Board",
+  calendar: "Calendar",
+  timeline: "Timeline",
+};
+
+/**
+ * Column keys as typed, comma-separated (internal)
+ */
+const toColumnText = (columns: TableColumn[]): string =>
+  columns.map((column) => column.key).join(", ");
+
+/**
+ * Parse comma-separated column keys (internal)
+ */
+const parseColumnKeys = (text: string): string[] => text.split(",");
+
+/**
+ * LayoutControl
+ *
+ * Chooses the layout of a view and, for the table layout, its columns.
+ *
+ * Design notes:
+ * - Columns are typed as comma-separated keys, like the sort fallback keys, and
+ *   committed with the same debounce; columns that stay keep their resized width.
+ * - Any sort key works as a column (built-in keys and frontmatter properties), plus
+ *   `tags` for the note's tags.
+ */
+export const LayoutControl: React.FC<LayoutControlProps> = ({
+  layoutMode,
+  tableColumns,
+  onLayoutModeChange,
+  onTableColumnsChange,
+}) => {
+  const [columnText, setColumnText] = useState(() => toColumnText(tableColumns));
+  const debouncedColumnText = useDebouncedValue(columnText, 200);
+  // Latest stored columns, read when committing so that an outside change
+  // (e.g. a resized column) does not trigger a commit of stale typed keys
+  const tableColumnsRef = useRef(tableColumns);
+  tableColumnsRef.current = tableColumns;
+
+  // Keep the typed keys in sync when the columns change from outside (restore).
+  // Text that already describes the columns is kept, so typed separators are not normalized away.
+  useEffect(() => {
+    setColumnText((current) =>
+      toColumnText(setColumnKeys(tableColumns, parseColumnKeys(current))) ===
+      toColumnText(tableColumns)
+        ? current
+        : toColumnText(tableColumns)
+    );
+  }, [tableColumns]);
+
+  useEffect(() => {
+    const stored = tableColumnsRef.current;
+    const next = setColumnKeys(stored, parseColumnKeys(debouncedColumnText));
+    if (next.length > 0 && toColumnText(next) !== toColumnText(stored)) {
+      onTableColumnsChange(next);
+    }
+  }, [debouncedColumnText, onTableColumnsChange]);
+
+  return (
+    <div className="layout-control">
+      <select
+        value={layoutMode}
+        onChange={(e) => onLayoutModeChange(e.target.value as LayoutMode)}
+        aria-label="Layout"
+        className="layout-select"
+      >
+        {LAYOUT_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {LAYOUT_MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+      {layoutMode === "table" && (
+        <input
+          type="text"
+          value={columnText}
+          onChange={(e) => setColumnText(e.target.value)}
+          placeholder="filename, folder, tags"
+          aria-label="Table columns"
+          className="table-columns-input"
+          title="Keys shown as columns, separated by commas, e.g. filename, status, due"
+        />
+      )}
+    </div>
+  );
+};
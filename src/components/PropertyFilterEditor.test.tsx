@@ -0,0 +1,113 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PropertyFilter } from "../types";
+import { PropertyFilterEditor } from "./PropertyFilterEditor";
+
+const mockOnChange = vi.fn<(properties: PropertyFilter[]) => void>();
+
+const createCondition = (overrides: Partial<PropertyFilter> = {}): PropertyFilter => ({
+  key: "status",
+  operator: "equals",
+  value: "draft",
+  valueTo: "",
+  ...overrides,
+});
+
+describe("PropertyFilterEditor", () => {
+  const user = userEvent.setup();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("renders a row per condition", () => {
+    render(
+      <PropertyFilterEditor
+        properties={[createCondition(), createCondition({ key: "due", operator: "after" })]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Property 1 name")).toHaveValue("status");
+    expect(screen.getByLabelText("Property 2 operator")).toHaveValue("after");
+    expect(screen.getByLabelText("Property 2 value")).toHaveAttribute("placeholder", "YYYY-MM-DD");
+  });
+
+  it("adds an empty condition immediately", async () => {
+    render(<PropertyFilterEditor properties={[]} onChange={mockOnChange} />);
+
+    await user.click(screen.getByRole("button", { name: "Add condition" }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      { key: "", operator: "equals", value: "", valueTo: "" },
+    ]);
+  });
+
+  it("removes a condition immediately", async () => {
+    const kept = createCondition({ key: "priority" });
+    render(<PropertyFilterEditor properties={[createCondition(), kept]} onChange={mockOnChange} />);
+
+    await user.click(screen.getByRole("button", { name: "Remove property 1" }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([kept]);
+  });
+
+  it("keeps the rows after a removed condition in place", async () => {
+    render(
+      <PropertyFilterEditor
+        properties={[createCondition(), createCondition({ key: "priority" })]}
+        onChange={mockOnChange}
+      />
+    );
+    const nextRowInput = screen.getByLabelText("Property 2 name");
+
+    await user.click(screen.getByRole("button", { name: "Remove property 1" }));
+
+    expect(screen.getByLabelText("Property 1 name")).toBe(nextRowInput);
+    expect(nextRowInput).toHaveValue("priority");
+  });
+
+  it("commits typed values after the debounce", async () => {
+    render(
+      <PropertyFilterEditor properties={[createCondition({ value: "" })]} onChange={mockOnChange} />
+    );
+
+    await user.type(screen.getByLabelText("Property 1 value"), "done");
+
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith([createCondition({ value: "done" })]);
+  });
+
+  it("shows operand inputs that match the operator", async () => {
+    const { rerender } = render(
+      <PropertyFilterEditor
+        properties={[createCondition({ operator: "exists" })]}
+        onChange={mockOnChange}
+      />
+    );
+    expect(screen.queryByLabelText("Property 1 value")).not.toBeInTheDocument();
+
+    rerender(
+      <PropertyFilterEditor
+        properties={[createCondition({ operator: "between" })]}
+        onChange={mockOnChange}
+      />
+    );
+    expect(screen.getByLabelText("Property 1 value")).toBeInTheDocument();
+    expect(screen.getByLabelText("Property 1 upper bound")).toBeInTheDocument();
+  });
+
+  it("follows outside changes without committing them back", async () => {
+    const { rerender } = render(
+      <PropertyFilterEditor properties={[createCondition()]} onChange={mockOnChange} />
+    );
+
+    rerender(<PropertyFilterEditor properties={[]} onChange={mockOnChange} />);
+
+    expect(screen.queryByLabelText("Property 1 name")).not.toBeInTheDocument();
+    await act(() => new Promise((resolve) => setTimeout(resolve, 250)));
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+import { isEqual } from "es-toolkit";
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { useRowIds } from "../hooks/useRowIds";
+import {
+  PROPERTY_FILTER_OPERATORS,
+  type PropertyFilter,
+  type PropertyFilterOperator,
+} from "../types";
+
+/**
+ * Props for the `PropertyFilterEditor` component.
+ */
+interface PropertyFilterEditorProps {
+  /** Property conditions currently stored in the filter state */
+  properties: PropertyFilter[];
+  /** Called with the full list of conditions after edits settle */
+  onChange: (properties: PropertyFilter[]) => void;
+}
+
+/**
+ * Labels shown in the operator select
+ * Shared with the property conditions of the card styling rules in the settings
+ */
+export const PROPERTY_OPERATOR_LABELS: Record<PropertyFilterOperator, string> = {
+  equals: "equals",
+  contains: "contains",
+  exists: "exists",
+  missing: "is missing",
+  gt: ">",
+  lt: "<",
+  between: "between",
+  before: "before",
+  after: "after",
+};
+
+/**
+ * Create an empty condition for a newly added row (internal)
+ */
+const createEmptyCondition = (): PropertyFilter => ({
+  key: "",
+  operator: "equals",
+  value: "",
+  valueTo: "",
+});
+
+/**
+ * Whether an operator compares against an operand (internal)
+ */
+const needsValue = (operator: PropertyFilterOperator): boolean =>
+  operator !== "exists" && operator !== "missing";
+
+/**
+ * PropertyFilterEditor
+ *
+ * Edits frontmatter property conditions as rows of key, operator and operand(s).
+ *
+ * Design notes:
+ * - Rows are edited locally and committed with the same debounce as the filename input,
+ *   so typing a key or value does not refilter the vault on every keystroke.
+ * - Incomplete rows are committed as-is; filter logic ignores them until they are complete,
+ *   which keeps half-edited rows from hiding every note.
+ */
+export const PropertyFilterEditor: React.FC<PropertyFilterEditorProps> = ({
+  properties,
+  onChange,
+}) => {
+  const [rows, setRows] = useState(properties);
+  const debouncedRows = useDebouncedValue(rows, 200);
+  const { rowIds, removeRowId } = useRowIds(rows.length);
+  // Latest stored conditions, read when committing so that an outside change
+  // (e.g. "Clear All") does not trigger a commit of stale debounced rows
+  const propertiesRef = useRef(properties);
+  propertiesRef.current = properties;
+
+  // Keep rows in sync when the store changes from outside (clear, restore)
+  useEffect(() => {
+    setRows(properties);
+  }, [properties]);
+
+  useEffect(() => {
+    if (!isEqual(debouncedRows, propertiesRef.current)) {
+      onChange(debouncedRows);
+    }
+  }, [debouncedRows, onChange]);
+
+  const updateRow = useCallback((index: number, changes: Partial<PropertyFilter>) => {
+    setRows((current) =>
+      current.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row))
+    );
+  }, []);
+
+  // Adding and removing rows are discrete actions, so they are committed immediately
+  const addRow = useCallback(() => {
+    onChange([...rows, createEmptyCondition()]);
+  }, [rows, onChange]);
+
+  const removeRow = useCallback(
+    (index: number) => {
+      // The row leaves the local rows together with its id, so the rows after it keep theirs
+      const nextRows = rows.filter((_, rowIndex) => rowIndex !== index);
+      removeRowId(index);
+      setRows(nextRows);
+      onChange(nextRows);
+    },
+    [rows, onChange, removeRowId]
+  );
+
+  return (
+    <div className="property-filter-editor">
+      {rows.map((row, index) => (
+        <div key={rowIds[index]} className="property-filter-row">
+          <input
+            type="text"
+            value={row.key}
+            onChange={(e) => updateRow(index, { key: e.target.value })}
+            placeholder="property"
+            aria-label={`Property ${index + 1} name`}
+            className="filter-input property-key-input"
+          />
+          <select
+            value={row.operator}
+            onChange={(e) =>
+              updateRow(index, { operator: e.target.value as PropertyFilterOperator })
+            }
+            aria-label={`Property ${index + 1} operator`}
+            className="property-operator-select"
+          >
+            {PROPERTY_FILTER_OPERATORS.map((operator) => (
+              <option key={operator} value={operator}>
+                {PROPERTY_OPERATOR_LABELS[operator]}
+              </option>
+            ))}
+          </select>
+          {needsValue(row.operator) && (
+            <input
+              type="text"
+              value={row.value}
+              onChange={(e) => updateRow(index, { value: e.target.value })}
+              placeholder={
+                row.operator === "before" || row.operator === "after" ? "YYYY-MM-DD" : "value"
+              }
+              aria-label={`Property ${index + 1} value`}
+              className="filter-input property-value-input"
+            />
+          )}
+          {row.operator === "between" && (
+            <input
+              type="text"
+              value={row.valueTo}
+              onChange={(e) => updateRow(index, { valueTo: e.target.value })}
+              placeholder="and"
+              aria-label={`Property ${index + 1} upper bound`}
+              className="filter-input property-value-input"
+            />
+          )}
+          <button
+            type="button"
+            className="property-remove-btn"
+            onClick={() => removeRow(index)}
+            aria-label={`Remove property ${index + 1}`}
+            title="Remove condition"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button type="button" className="property-add-btn" onClick={addRow}>
+        Add condition
+      </button>
+    </div>
+  );
+};
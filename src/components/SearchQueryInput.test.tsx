@@ -0,0 +1,131 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FilterState } from "../types";
+import { SearchQueryInput } from "./SearchQueryInput";
+
+const mockOnChange = vi.fn<(changes: Partial<FilterState>) => void>();
+
+const createFilters = (overrides: Partial<FilterState> = {}): FilterState => ({
+  folders: [],
+  folderMatchMode: "any",
+  tags: [],
+  tagMatchMode: "any",
+  filename: [],
+  filenamePhrases: [],
+  content: "",
+  excludeFolders: [],
+  excludeTags: [],
+  excludeFilename: [],
+  properties: [],
+  dateRange: null,
+  ...overrides,
+});
+
+const renderInput = (filters: FilterState) =>
+  render(
+    <>
+      <label htmlFor="query">Search</label>
+      <SearchQueryInput id="query" filters={filters} onChange={mockOnChange} />
+    </>
+  );
+
+describe("SearchQueryInput", () => {
+  const user = userEvent.setup();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("shows the current filters as query text", () => {
+    renderInput(
+      createFilters({ filename: ["weekly"], tags: ["work"], excludeFolders: ["Archive"] })
+    );
+
+    expect(screen.getByLabelText("Search")).toHaveValue("weekly tag:work -folder:Archive");
+  });
+
+  it("commits only the fields changed by the typed query", async () => {
+    renderInput(createFilters({ tags: ["work"] }));
+
+    await user.type(screen.getByLabelText("Search"), " status:active");
+
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith({
+      properties: [{ key: "status", operator: "equals", value: "active", valueTo: "" }],
+    });
+  });
+
+  it("updates the text when filters change elsewhere", () => {
+    const { rerender } = renderInput(createFilters());
+
+    rerender(
+      <>
+        <label htmlFor="query">Search</label>
+        <SearchQueryInput
+          id="query"
+          filters={createFilters({ tags: ["work"] })}
+          onChange={mockOnChange}
+        />
+      </>
+    );
+
+    expect(screen.getByLabelText("Search")).toHaveValue("tag:work");
+  });
+
+  it("keeps the user's formatting while it describes the same filters", async () => {
+    const { rerender } = renderInput(createFilters());
+    const input = screen.getByLabelText("Search");
+    await user.type(input, "TAG:#work");
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledWith({ tags: ["work"] }), {
+      timeout: 1000,
+    });
+
+    rerender(
+      <>
+        <label htmlFor="query">Search</label>
+        <SearchQueryInput
+          id="query"
+          filters={createFilters({ tags: ["work"] })}
+          onChange={mockOnChange}
+        />
+      </>
+    );
+
+    expect(input).toHaveValue("TAG:#work");
+  });
+
+  it("highlights malformed terms with a message", async () => {
+    renderInput(createFilters());
+    const input = screen.getByLabelText("Search");
+
+    await user.type(input, "tag: meeting");
+
+    expect(input).toHaveAttribute("aria-invalid", "true");
+    expect(screen.getByText("tag:", { selector: "mark" })).toHaveAttribute(
+      "title",
+      'Missing tag after "tag:"'
+    );
+    expect(screen.getByRole("listitem")).toHaveTextContent('tag:: Missing tag after "tag:"');
+  });
+
+  it("highlights every occurrence of a repeated malformed term", async () => {
+    renderInput(createFilters());
+    const input = screen.getByLabelText("Search");
+
+    await user.type(input, "tag: meeting tag:");
+
+    expect(screen.getAllByText("tag:", { selector: "mark" })).toHaveLength(2);
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+  });
+
+  it("does not commit when the text is unchanged", async () => {
+    renderInput(createFilters({ filename: ["weekly"] }));
+
+    await act(() => new Promise((resolve) => setTimeout(resolve, 250)));
+
+    expect(mockOnChange).not.toHaveBeenCalled();
+    expect(screen.getByLabelText("Search")).toHaveAttribute("aria-invalid", "false");
+  });
+});
@@ -0,0 +1,125 @@
+import type React from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { withOccurrenceKeys } from "../lib/array";
+import {
+  getSearchQueryChanges,
+  parseSearchQuery,
+  type SearchQueryError,
+  serializeSearchQuery,
+} from "../store/filters";
+import type { FilterState } from "../types";
+
+/**
+ * Props for the `SearchQueryInput` component.
+ */
+interface SearchQueryInputProps {
+  /** Id of the input, referenced by the label rendered by the caller */
+  id: string;
+  /** Current filter state; the query text is kept in sync with it */
+  filters: FilterState;
+  /** Called with the changed filter fields after typing settles */
+  onChange: (changes: Partial<FilterState>) => void;
+}
+
+/**
+ * Split the query into plain and malformed segments for highlighting (internal)
+ */
+const splitByErrors = (query: string, errors: SearchQueryError[]) => {
+  const segments: { text: string; error: string | null }[] = [];
+  let position = 0;
+  for (const error of errors) {
+    if (error.start > position) {
+      segments.push({ text: query.slice(position, error.start), error: null });
+    }
+    segments.push({ text: query.slice(error.start, error.end), error: error.message });
+    position = error.end;
+  }
+  if (position < query.length) segments.push({ text: query.slice(position), error: null });
+  return segments;
+};
+
+/**
+ * SearchQueryInput
+ *
+ * Search box that accepts plain filename text as well as the search query language
+ * (`tag:`, `-folder:`, `updated:>2024-01-01`, `status:active`, `"exact phrase"`, ...).
+ *
+ * Design notes:
+ * - Round-tripping: The text is parsed into filter fields, and filter changes made with
+ *   other controls are serialized back into the text, so both always describe the same filters.
+ * - The user's own formatting is kept while it describes the current filters; the text is only
+ *   replaced when the filters change to something the text does not describe.
+ * - Malformed terms are ignored for filtering and highlighted below the input with a message.
+ * - Commits are debounced like the previous filename input to limit store updates while typing.
+ */
+export const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ id, filters, onChange }) => {
+  const filtersQuery = useMemo(() => serializeSearchQuery(filters), [filters]);
+  const [queryInput, setQueryInput] = useState(filtersQuery);
+  const debouncedQuery = useDebouncedValue(queryInput, 200);
+  const errors = useMemo(() => parseSearchQuery(queryInput).errors, [queryInput]);
+
+  // Latest values read by effects that must not re-run when they change
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const queryInputRef = useRef(queryInput);
+  queryInputRef.current = queryInput;
+
+  // Filters changed elsewhere (checkboxes, clear, restore): rewrite the text if it no longer matches
+  useEffect(() => {
+    const currentQuery = serializeSearchQuery(parseSearchQuery(queryInputRef.current).filters);
+    if (currentQuery !== filtersQuery) {
+      setQueryInput(filtersQuery);
+    }
+  }, [filtersQuery]);
+
+  // Typing settled: push only the fields the query changes
+  useEffect(() => {
+    const changes = getSearchQueryChanges(
+      filtersRef.current,
+      parseSearchQuery(debouncedQuery).filters
+    );
+    if (Object.keys(changes).length > 0) {
+      onChange(changes);
+    }
+  }, [debouncedQuery, onChange]);
+
+  return (
+    <div className="search-query">
+      <input
+        id={id}
+        type="text"
+        value={queryInput}
+        onChange={(e) => setQueryInput(e.target.value)}
+        placeholder="Search filename, tag:, folder:, key:value"
+        className={`filter-input${errors.length > 0 ? " has-error" : ""}`}
+        aria-invalid={errors.length > 0}
+        aria-describedby={errors.length > 0 ? `${id}-errors` : undefined}
+        spellCheck={false}
+      />
+      {errors.length > 0 && (
+        <div id={`${id}-errors`} className="search-query-errors">
+          <div className="search-query-preview">
+            {withOccurrenceKeys(splitByErrors(queryInput, errors), (segment) => segment.text).map(
+              ({ key, value: segment }) =>
+                segment.error ? (
+                  <mark key={key} className="search-query-error" title={segment.error}>
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={key}>{segment.text}</span>
+                )
+            )}
+          </div>
+          <ul className="search-query-messages">
+            {errors.map((error) => (
+              <li key={error.start}>
+                <code>{queryInput.slice(error.start, error.end)}</code>: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BUILT_IN_SORT_KEY_LABELS } from "../store/constants";
+import type { SortConfig } from "../types";
+import { SortControl } from "./SortControl";
+
+const mockOnChange = vi.fn<(sortConfig: SortConfig) => void>();
+
+const SORT_CONFIG: SortConfig = {
+  key: "priority",
+  order: "desc",
+  thenBy: [{ key: "due", order: "asc" }],
+  fallbackKeys: ["created", "mtime"],
+};
+
+describe("SortControl", () => {
+  const user = userEvent.setup();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("renders the primary key and its tie-breakers", () => {
+    render(<SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />);
+
+    expect(screen.getByLabelText("Sort by key")).toHaveValue("priority");
+    expect(screen.getByLabelText("Then by (1) key")).toHaveValue("due");
+    expect(screen.getByRole("button", { name: "Then by (1): ascending" })).toBeInTheDocument();
+  });
+
+  it("suggests the built-in keys followed by the given keys", () => {
+    const { container } = render(
+      <SortControl
+        sortConfig={SORT_CONFIG}
+        sortKeys={["due", "mtime", "priority"]}
+        onChange={mockOnChange}
+      />
+    );
+
+    const options = Array.from(container.querySelectorAll("datalist option"));
+    expect(options.map((option) => option.getAttribute("value"))).toEqual([
+      ...Object.keys(BUILT_IN_SORT_KEY_LABELS),
+      "due",
+      "priority",
+    ]);
+    expect(container.querySelector('option[value="filename"]')).toHaveAttribute("label", "Title");
+    expect(screen.getByLabelText("Sort by key")).toHaveAttribute(
+      "list",
+      container.querySelector("datalist")?.id
+    );
+  });
+
+  it("toggles a direction immediately", async () => {
+    render(<SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />);
+
+    await user.click(screen.getByRole("button", { name: "Sort by: descending" }));
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...SORT_CONFIG, order: "asc" });
+  });
+
+  it("adds and removes tie-breakers immediately", async () => {
+    render(<SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />);
+
+    await user.click(screen.getByRole("button", { name: "+ Then by" }));
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      ...SORT_CONFIG,
+      thenBy: [...(SORT_CONFIG.thenBy ?? []), { key: "", order: "asc" }],
+    });
+
+    await user.click(screen.getByRole("button", { name: "Remove then by (1)" }));
+    expect(mockOnChange).toHaveBeenLastCalledWith({ ...SORT_CONFIG, thenBy: [] });
+  });
+
+  it("keeps the rows after a removed tie-breaker in place", async () => {
+    render(
+      <SortControl
+        sortConfig={{ ...SORT_CONFIG, thenBy: [...(SORT_CONFIG.thenBy ?? []), SORT_CONFIG] }}
+        sortKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+    const nextRowInput = screen.getByLabelText("Then by (2) key");
+
+    await user.click(screen.getByRole("button", { name: "Remove then by (1)" }));
+
+    expect(screen.getByLabelText("Then by (1) key")).toBe(nextRowInput);
+    expect(nextRowInput).toHaveValue("priority");
+  });
+
+  it("stops offering tie-breakers at the limit", () => {
+    render(
+      <SortControl
+        sortConfig={{ ...SORT_CONFIG, thenBy: [...(SORT_CONFIG.thenBy ?? []), SORT_CONFIG] }}
+        sortKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.queryByRole("button", { name: "+ Then by" })).not.toBeInTheDocument();
+  });
+
+  it("commits typed keys after the debounce", async () => {
+    render(<SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />);
+
+    const input = screen.getByLabelText("Sort by key");
+    await user.clear(input);
+    await user.type(input, "title");
+
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith({ ...SORT_CONFIG, key: "title" });
+  });
+
+  it("commits typed fallback keys after the debounce and keeps the typed text", async () => {
+    render(<SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />);
+
+    const input = screen.getByLabelText("Fallback keys");
+    expect(input).toHaveValue("created, mtime");
+    await user.clear(input);
+    await user.type(input, "ctime,");
+
+    await waitFor(() => expect(mockOnChange).toHaveBeenCalledTimes(1), { timeout: 1000 });
+    expect(mockOnChange).toHaveBeenCalledWith({ ...SORT_CONFIG, fallbackKeys: ["ctime"] });
+    expect(input).toHaveValue("ctime,");
+  });
+
+  it("shows the modification time fallback for configurations without fallback keys", () => {
+    render(
+      <SortControl
+        sortConfig={{ key: "updated", order: "desc" }}
+        sortKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Fallback keys")).toHaveValue("mtime");
+  });
+
+  it("toggles the missing value placement immediately", async () => {
+    const { rerender } = render(
+      <SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Missing values: last" }));
+    expect(mockOnChange).toHaveBeenLastCalledWith({ ...SORT_CONFIG, missingValues: "first" });
+
+    rerender(
+      <SortControl
+        sortConfig={{ ...SORT_CONFIG, missingValues: "first" }}
+        sortKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+    expect(screen.getByRole("button", { name: "Missing values: first" })).toHaveTextContent(
+      "Missing first"
+    );
+  });
+
+  it("labels the placement of new notes in the manual order", () => {
+    render(
+      <SortControl
+        sortConfig={{ key: "manual", order: "asc", missingValues: "first" }}
+        sortKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByRole("button", { name: "New notes: first" })).toHaveTextContent("New first");
+  });
+
+  it("follows outside changes without committing them back", async () => {
+    const { rerender } = render(
+      <SortControl sortConfig={SORT_CONFIG} sortKeys={[]} onChange={mockOnChange} />
+    );
+
+    rerender(
+      <SortControl
+        sortConfig={{ key: "updated", order: "desc" }}
+        sortKeys={[]}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Sort by key")).toHaveValue("updated");
+    expect(screen.queryByLabelText("Then by (1) key")).not.toBeInTheDocument();
+    await act(() => new Promise((resolve) => setTimeout(resolve, 250)));
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+import { isEqual } from "es-toolkit";
+import type React from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { useRowIds } from "../hooks/useRowIds";
+import {
+  BUILT_IN_SORT_KEY_LABELS,
+  MANUAL_SORT_KEY,
+  MAX_SORT_TIE_BREAKERS,
+} from "../store/constants";
+import { getSortFallbackKeys } from "../store/sorting";
+import type { SortConfig, SortCriterion } from "../types";
+
+/**
+ * Props for the `SortControl` component.
+ */
+interface SortControlProps {
+  /** Sort configuration currently applied to the view */
+  sortConfig: SortConfig;
+  /** Keys suggested after the built-in keys, e.g. frontmatter keys found in the vault */
+  sortKeys: string[];
+  /** Called with the full sort configuration after edits settle */
+  onChange: (sortConfig: SortConfig) => void;
+}
+
+/**
+ * Editable parts of a sort configuration: key rows (primary key first) and the
+ * fallback keys as typed, comma-separated
+ */
+interface SortDraft {
+  rows: SortCriterion[];
+  fallback: string;
+}
+
+/**
+ * Split a sort configuration into an editable draft (internal)
+ */
+const toDraft = (sortConfig: SortConfig): SortDraft => ({
+  rows: [{ key: sortConfig.key, order: sortConfig.order }, ...(sortConfig.thenBy ?? [])],
+  fallback: getSortFallbackKeys(sortConfig).join(", "),
+});
+
+/**
+ * Parse comma-separated fallback keys, dropping blanks (internal)
+ */
+const parseFallbackKeys = (fallback: string): string[] =>
+  fallback
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key !== "");
+
+/**
+ * Join an editable draft back into a sort configuration (internal)
+ *
+ * Settings the draft does not edit (missing value placement) are kept from `base`.
+ */
+const toSortConfig = (
+  { rows: [primary, ...thenBy], fallback }: SortDraft,
+  base: SortConfig
+): SortConfig => ({
+  ...base,
+  ...primary,
+  thenBy,
+  fallbackKeys: parseFallbackKeys(fallback),
+});
+
+/**
+ * SortControl
+ *
+ * Edits the sort of a view: the primary key with its direction, followed by up to
+ * `MAX_SORT_TIE_BREAKERS` "then by" keys that order notes the previous keys consider equal,
+ * the keys tried when a note lacks the primary key, and where notes without a value go.
+ *
+ * Design notes:
+ * - Keys are free text with suggestions, since any frontmatter property can be sorted by.
+ *   Built-in keys (title, file times, size, counts) are suggested first with their labels.
+ * - Typed keys are committed with the same debounce as the filter inputs so that the
+ *   vault is not re-sorted on every keystroke; toggling a direction or the missing value
+ *   placement, adding and removing keys are discrete actions and are committed immediately.
+ */
+export const SortControl: React.FC<SortControlProps> = ({ sortConfig, sortKeys, onChange }) => {
+  const listId = useId();
+  const [draft, setDraft] = useState(() => toDraft(sortConfig));
+  const debouncedDraft = useDebouncedValue(draft, 200);
+  // Latest stored configuration, read when committing so that an outside change
+  // (e.g. the settings tab) does not trigger a commit of a stale debounced draft
+  const sortConfigRef = useRef(sortConfig);
+  sortConfigRef.current = sortConfig;
+  const { rows } = draft;
+  const { rowIds, removeRowId } = useRowIds(rows.length);
+  const missingValues = sortConfig.missingValues ?? "last";
+  // In the manual order, the notes without a value are those not dragged into place yet
+  const isManualSort = sortConfig.key === MANUAL_SORT_KEY;
+  const missingLabel = isManualSort ? "New notes" : "Missing values";
+
+  // Keep the draft in sync when the store changes from outside (settings, restore).
+  // A draft that already matches is kept, so typed separators are not normalized away.
+  useEffect(() => {
+    setDraft((current) =>
+      isEqual(toSortConfig(current, sortConfig), toSortConfig(toDraft(sortConfig), sortConfig))
+        ? current
+        : toDraft(sortConfig)
+    );
+  }, [sortConfig]);
+
+  useEffect(() => {
+    const stored = sortConfigRef.current;
+    const next = toSortConfig(debouncedDraft, stored);
+    if (!isEqual(toSortConfig(toDraft(stored), stored), next)) {
+      onChange(next);
+    }
+  }, [debouncedDraft, onChange]);
+
+  const updateKey = useCallback((index: number, key: string) => {
+    setDraft((current) => ({
+      ...current,
+      rows: current.rows.map((row, rowIndex) => (rowIndex === index ? { ...row, key } : row)),
+    }));
+  }, []);
+
+  const updateFallback = useCallback((fallback: string) => {
+    setDraft((current) => ({ ...current, fallback }));
+  }, []);
+
+  const commitRows = useCallback(
+    (nextRows: SortCriterion[]) => {
+      onChange(toSortConfig({ ...draft, rows: nextRows }, sortConfig));
+    },
+    [draft, sortConfig, onChange]
+  );
+
+  const toggleOrder = useCallback(
+    (index: number) => {
+      commitRows(
+        rows.map((row, rowIndex) =>
+          rowIndex === index ? { ...row, order: row.order === "asc" ? "desc" : "asc" } : row
+        )
+      );
+    },
+    [rows, commitRows]
+  );
+
+  const addTieBreaker = useCallback(() => {
+    commitRows([...rows, { key: "", order: "asc" }]);
+  }, [rows, commitRows]);
+
+  const removeTieBreaker = useCallback(
+    (index: number) => {
+      // The row leaves the draft together with its id, so the rows after it keep theirs
+      const nextRows = rows.filter((_, rowIndex) => rowIndex !== index);
+      removeRowId(index);
+      setDraft((current) => ({ ...current, rows: nextRows }));
+      commitRows(nextRows);
+    },
+    [rows, commitRows, removeRowId]
+  );
+
+  const toggleMissingValues = useCallback(() => {
+    onChange({
+      ...toSortConfig(draft, sortConfig),
+      missingValues: missingValues === "last" ? "first" : "last",
+    });
+  }, [draft, sortConfig, missingValues, onChange]);
+
+  return (
+    <div className="sort-control">
+      {rows.map((row, index) => {
+        const label = index === 0 ? "Sort by" : `Then by (${index})`;
+        return (
+          <div key={rowIds[index]} className="sort-control-row">
+            <span className="sort-control-label">{index === 0 ? "Sort by" : "then"}</span>
+            <input
+              type="text"
+              value={row.key}
+              onChange={(e) => updateKey(index, e.target.value)}
+              list={listId}
+              placeholder="property"
+              aria-label={`${label} key`}
+              className="sort-key-input"
+            />
+            <button
+              type="button"
+              className="sort-order-btn"
+              onClick={() => toggleOrder(index)}
+              aria-label={`${label}: ${row.order === "asc" ? "ascending" : "descending"}`}
+              title={
+                row.order === "asc"
+                  ? "Ascending (click for descending)"
+                  : "Descending (click for ascending)"
+              }
+            >
+              {row.order === "asc" ? "↑" : "↓"}
+            </button>
+            {index > 0 && (
+              <button
+                type="button"
+                className="sort-remove-btn"
+                onClick={() => removeTieBreaker(index)}
+                aria-label={`Remove ${label.toLowerCase()}`}
+                title="Remove tie-breaker"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <div className="sort-control-row sort-fallback-row">
+        <span className="sort-control-label">else</span>
+        <input
+          type="text"
+          value={draft.fallback}
+          onChange={(e) => updateFallback(e.target.value)}
+          placeholder="none"
+          aria-label="Fallback keys"
+          className="sort-fallback-input"
+          title="Keys tried in order when a note lacks the sort key, e.g. created, ctime, mtime"
+        />
+        <button
+          type="button"
+          className="sort-missing-btn"
+          onClick={toggleMissingValues}
+          aria-label={`${missingLabel}: ${missingValues}`}
+          title={`Where ${missingLabel.toLowerCase()} are placed (click to change)`}
+        >
+          {`${isManualSort ? "New" : "Missing"} ${missingValues}`}
+        </button>
+      </div>
+      {rows.length <= MAX_SORT_TIE_BREAKERS && (
+        <button
+          type="button"
+          className="sort-add-btn"
+          onClick={addTieBreaker}
+          title="Add a key that orders notes with equal values"
+        >
+          + Then by
+        </button>
+      )}
+      <datalist id={listId}>
+        {Object.entries(BUILT_IN_SORT_KEY_LABELS).map(([key, label]) => (
+          <option key={key} value={key} label={label} />
+        ))}
+        {sortKeys
+          .filter((key) => !(key in BUILT_IN_SORT_KEY_LABELS))
+          .map((key) => (
+            <option key={key} value={key} />
+          ))}
+      </datalist>
+    </div>
+  );
+};
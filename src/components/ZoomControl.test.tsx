@@ -0,0 +1,31 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ZoomControl } from "./ZoomControl";
+
+const mockOnChange = vi.fn<(cardMinWidth: number) => void>();
+
+describe("ZoomControl", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("shows the card width within the zoom range", () => {
+    render(<ZoomControl cardMinWidth={292} onChange={mockOnChange} />);
+
+    const slider = screen.getByRole("slider", { name: "Card size" });
+    expect(slider).toHaveValue("292");
+    expect(slider).toHaveAttribute("min", "160");
+    expect(slider).toHaveAttribute("max", "600");
+  });
+
+  it("commits the new card width while sliding", () => {
+    render(<ZoomControl cardMinWidth={292} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByRole("slider", { name: "Card size" }), {
+      target: { value: "400" },
+    });
+
+    expect(mockOnChange).toHaveBeenCalledWith(400);
+  });
+});
@@ -0,0 +1,41 @@
+import type React from "react";
+import { CARD_MIN_WIDTH_RANGE } from "../store/constants";
+
+/**
+ * Props for the `ZoomControl` component.
+ */
+interface ZoomControlProps {
+  /** Minimum card width in pixels, from the settings */
+  cardMinWidth: number;
+  /** Called with the new minimum card width while the slider moves */
+  onChange: (cardMinWidth: number) => void;
+}
+
+/**
+ * ZoomControl
+ *
+ * Slider sizing the cards of the card layouts. Larger cards fit fewer to a row.
+ *
+ * Design notes:
+ * - The slider changes the card width setting shared by all views, like Ctrl+wheel
+ *   over the cards, so changes apply live and the settings tab stays in sync.
+ * - Changes are committed immediately; the plugin debounces saving the settings.
+ */
+export const ZoomControl: React.FC<ZoomControlProps> = ({ cardMinWidth, onChange }) => {
+  const { min, max, step } = CARD_MIN_WIDTH_RANGE;
+  return (
+    <div className="zoom-control" title="Card size (Ctrl+scroll over the cards to zoom)">
+      <span className="zoom-label">Size</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={cardMinWidth}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label="Card size"
+        className="zoom-slider"
+      />
+    </div>
+  );
+};
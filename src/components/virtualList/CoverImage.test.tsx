@@ -0,0 +1,85 @@
+import { act, render } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getCachedThumbnail, loadThumbnail } from "../../lib/thumbnailCache";
+import { CoverImage } from "./CoverImage";
+
+vi.mock("../../lib/thumbnailCache", () => ({
+  getCachedThumbnail: vi.fn(),
+  loadThumbnail: vi.fn(),
+}));
+
+describe("CoverImage", () => {
+  type GlobalWithIntersectionObserver = typeof globalThis & {
+    IntersectionObserver?: typeof IntersectionObserver;
+  };
+  const g = globalThis as GlobalWithIntersectionObserver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getCachedThumbnail).mockReturnValue(undefined);
+    vi.mocked(loadThumbnail).mockImplementation((src) => Promise.resolve(`thumb:${src}`));
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(g, "IntersectionObserver");
+  });
+
+  it("shows the thumbnail of the image in the given placement", async () => {
+    const { container } = render(<CoverImage src="app://cover.png" placement="side" />);
+    await act(async () => {});
+
+    expect(loadThumbnail).toHaveBeenCalledWith("app://cover.png");
+    expect(container.firstChild).toHaveClass("note-card-cover", "note-card-cover-side");
+    expect(container.querySelector("img")).toHaveAttribute("src", "thumb:app://cover.png");
+  });
+
+  it("shows cached thumbnails right away", () => {
+    vi.mocked(getCachedThumbnail).mockReturnValue("thumb:cached");
+
+    const { container } = render(<CoverImage src="app://cover.png" placement="top" />);
+
+    expect(container.querySelector("img")).toHaveAttribute("src", "thumb:cached");
+    expect(loadThumbnail).not.toHaveBeenCalled();
+  });
+
+  it("waits until the cover comes into view before loading the image", async () => {
+    let notify: IntersectionObserverCallback = () => {};
+    g.IntersectionObserver = class {
+      constructor(callback: IntersectionObserverCallback) {
+        notify = callback;
+      }
+      observe() {}
+      disconnect() {}
+    } as unknown as typeof IntersectionObserver;
+
+    const { container } = render(<CoverImage src="app://cover.png" placement="top" />);
+    await act(async () => {});
+    expect(loadThumbnail).not.toHaveBeenCalled();
+    // The cover keeps its place while the image loads
+    expect(container.firstChild).toHaveClass("note-card-cover-top");
+
+    await act(async () => {
+      notify([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+    });
+    expect(container.querySelector("img")).toHaveAttribute("src", "thumb:app://cover.png");
+  });
+
+  it("leaves no cover when the image fails to load", async () => {
+    vi.mocked(loadThumbnail).mockRejectedValue(new Error("missing"));
+
+    const { container } = render(<CoverImage src="app://missing.png" placement="top" />);
+    await act(async () => {});
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("loads the new image when the source changes", async () => {
+    const { container, rerender } = render(<CoverImage src="app://a.png" placement="top" />);
+    await act(async () => {});
+
+    rerender(<CoverImage src="app://b.png" placement="top" />);
+    await act(async () => {});
+
+    expect(container.querySelector("img")).toHaveAttribute("src", "thumb:app://b.png");
+  });
+});
@@ -0,0 +1,56 @@
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { useInView } from "../../hooks/useInView";
+import { getCachedThumbnail, loadThumbnail } from "../../lib/thumbnailCache";
+
+/**
+ * Props for the `CoverImage` component.
+ */
+interface CoverImageProps {
+  /** URL of the cover image */
+  src: string;
+  /** Banner across the top of the card, or thumbnail beside the preview */
+  placement: "top" | "side";
+}
+
+/**
+ * CoverImage
+ *
+ * Shows the cover image of a card as a banner or a thumbnail.
+ *
+ * Design notes:
+ * - Loading is lazy: the image is decoded once the cover scrolls into view, and
+ *   through the thumbnail cache, so remounted cards show their cover at once.
+ * - The cover keeps its size while the image loads, so cards do not change height.
+ * - Images that fail to load (e.g. a link to a missing file) leave no cover.
+ */
+export const CoverImage: React.FC<CoverImageProps> = ({ src, placement }) => {
+  const coverRef = useRef<HTMLDivElement>(null);
+  const isVisible = useInView(coverRef);
+  const [thumbnail, setThumbnail] = useState(() => getCachedThumbnail(src));
+  const [hasFailed, setHasFailed] = useState(false);
+
+  useEffect(() => {
+    const cached = getCachedThumbnail(src);
+    setThumbnail(cached);
+    setHasFailed(false);
+    if (!isVisible || cached) return;
+
+    let isCurrent = true;
+    loadThumbnail(src).then(
+      (url) => isCurrent && setThumbnail(url),
+      () => isCurrent && setHasFailed(true)
+    );
+    return () => {
+      isCurrent = false;
+    };
+  }, [isVisible, src]);
+
+  if (hasFailed) return null;
+
+  return (
+    <div ref={coverRef} className={`note-card-cover note-card-cover-${placement}`}>
+      {thumbnail && <img src={thumbnail} alt="" draggable={false} />}
+    </div>
+  );
+};
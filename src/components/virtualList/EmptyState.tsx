@@ -7,11 +7,13 @@ import { useCardExplorerStore } from "../../store/cardExplorerStore";
  * Provides users with a way to clear filters
  */
 export const EmptyState: React.FC = () => {
+  const clearFilters = useCardExplorerStore((state) => state.clearFilters);
+
   /**
    * Clears all filters and resets note display
    */
   const handleClearFilters = () => {
-    useCardExplorerStore.getState().clearFilters();
+    clearFilters();
   };
 
   return (
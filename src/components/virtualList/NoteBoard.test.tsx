@@ -0,0 +1,169 @@
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { handleError } from "../../core/errors/errorHandling";
+import type CardExplorerPlugin from "../../main";
+import type { BoardColumn } from "../../store/board";
+import type { NoteData } from "../../types";
+import { NoteBoard } from "./NoteBoard";
+import { NOTE_DRAG_TYPE } from "./NoteCard";
+
+// Mock react-virtuoso to render every item of a column
+vi.mock("react-virtuoso", () => ({
+  Virtuoso: (props: any) => (
+    <div data-testid="virtuoso-column">
+      {props.data.map((item: NoteData, index: number) => (
+        <div key={item.path}>{props.itemContent(index, item)}</div>
+      ))}
+    </div>
+  ),
+}));
+
+// Mock NoteCard while keeping the drag data type shared with the board
+vi.mock("./NoteCard", () => ({
+  NOTE_DRAG_TYPE: "application/x-card-view-explorer-note",
+  NoteCard: ({ note }: { note: NoteData }) => <div data-testid="note-card">{note.title}</div>,
+}));
+
+vi.mock("../../core/errors/errorHandling", () => ({
+  ErrorCategory: { API: "API" },
+  handleError: vi.fn(),
+}));
+
+const createMockNote = (title: string, status?: string): NoteData => ({
+  file: { path: `${title}.md` } as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 1),
+  frontmatter: status === undefined ? null : { status },
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+/** DataTransfer stand-in holding the dragged card's path */
+const createDataTransfer = (path: string) => ({
+  types: [NOTE_DRAG_TYPE],
+  getData: (type: string) => (type === NOTE_DRAG_TYPE ? path : ""),
+  dropEffect: "none",
+});
+
+describe("NoteBoard", () => {
+  const frontmatter: Record<string, unknown> = {};
+  const processFrontMatter = vi.fn(async (_file: unknown, fn: (fm: any) => void) => {
+    fn(frontmatter);
+  });
+  const mockPlugin = {
+    app: { fileManager: { processFrontMatter } },
+  } as unknown as CardExplorerPlugin;
+  const todo = createMockNote("Task A", "todo");
+  const done = createMockNote("Task B", "done");
+  const columns: BoardColumn[] = [
+    { key: "todo", label: "todo", value: "todo", notes: [todo] },
+    { key: "done", label: "done", value: "done", notes: [done] },
+    { key: "", label: "No status", value: null, notes: [] },
+  ];
+
+  const renderBoard = (onHideColumn = vi.fn()) =>
+    render(
+      <NoteBoard
+        columns={columns}
+        property="status"
+        plugin={mockPlugin}
+        containerRef={{ current: null }}
+        onHideColumn={onHideColumn}
+      />
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(frontmatter)) delete frontmatter[key];
+  });
+
+  it("shows each column with its label, count and cards", () => {
+    renderBoard();
+
+    const todoColumn = screen.getByRole("region", { name: "todo" });
+    expect(todoColumn).toHaveTextContent("Task A");
+    expect(todoColumn).toHaveTextContent("1");
+    expect(screen.getByRole("region", { name: "No status" })).toHaveTextContent("0");
+  });
+
+  it("hides a column from its header", () => {
+    const onHideColumn = vi.fn();
+    renderBoard(onHideColumn);
+
+    fireEvent.click(screen.getByRole("button", { name: "Hide column done" }));
+
+    expect(onHideColumn).toHaveBeenCalledWith("done");
+  });
+
+  it("rewrites the property of a card dropped on another column", async () => {
+    renderBoard();
+    const doneColumn = screen.getByRole("region", { name: "done" });
+    const dataTransfer = createDataTransfer(todo.path);
+
+    fireEvent.dragOver(doneColumn, { dataTransfer });
+    expect(doneColumn).toHaveClass("drag-over");
+    fireEvent.drop(doneColumn, { dataTransfer });
+
+    expect(doneColumn).not.toHaveClass("drag-over");
+    await waitFor(() =>
+      expect(processFrontMatter).toHaveBeenCalledWith(todo.file, expect.any(Function))
+    );
+    expect(frontmatter).toEqual({ status: "done" });
+  });
+
+  it("removes the property of a card dropped on the no-value column", async () => {
+    frontmatter.status = "todo";
+    renderBoard();
+
+    fireEvent.drop(screen.getByRole("region", { name: "No status" }), {
+      dataTransfer: createDataTransfer(todo.path),
+    });
+
+    await waitFor(() => expect(processFrontMatter).toHaveBeenCalled());
+    expect(frontmatter).toEqual({});
+  });
+
+  it("keeps the other items of list properties", async () => {
+    frontmatter.status = ["todo", "urgent"];
+    renderBoard();
+
+    fireEvent.drop(screen.getByRole("region", { name: "done" }), {
+      dataTransfer: createDataTransfer(todo.path),
+    });
+
+    await waitFor(() => expect(processFrontMatter).toHaveBeenCalled());
+    expect(frontmatter).toEqual({ status: ["done", "urgent"] });
+  });
+
+  it("ignores drops on the card's own column and drags from elsewhere", () => {
+    renderBoard();
+    const todoColumn = screen.getByRole("region", { name: "todo" });
+
+    fireEvent.drop(todoColumn, { dataTransfer: createDataTransfer(todo.path) });
+    fireEvent.drop(todoColumn, { dataTransfer: createDataTransfer("elsewhere.md") });
+
+    expect(processFrontMatter).not.toHaveBeenCalled();
+  });
+
+  it("reports failed frontmatter updates", async () => {
+    processFrontMatter.mockRejectedValueOnce(new Error("locked"));
+    renderBoard();
+
+    fireEvent.drop(screen.getByRole("region", { name: "done" }), {
+      dataTransfer: createDataTransfer(todo.path),
+    });
+
+    await waitFor(() =>
+      expect(handleError).toHaveBeenCalledWith(expect.any(Error), "API", {
+        operation: "processFrontMatter",
+        notePath: todo.path,
+        property: "status",
+      })
+    );
+  });
+});
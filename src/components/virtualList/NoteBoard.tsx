@@ -0,0 +1,138 @@
+import type React from "react";
+import { useCallback, useMemo, useState } from "react";
+import { Virtuoso } from "react-virtuoso";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import type CardExplorerPlugin from "../../main";
+import { type BoardColumn, getBoardDropChange, isInBoardColumn } from "../../store/board";
+import type { NoteData } from "../../types";
+import { NOTE_DRAG_TYPE, NoteCard } from "./NoteCard";
+
+/**
+ * Props for NoteBoard component
+ */
+export interface NoteBoardProps {
+  /** Visible columns of the board, in display order */
+  columns: BoardColumn[];
+  /** Frontmatter property whose values are the columns */
+  property: string;
+  /** Plugin instance for note operations */
+  plugin: CardExplorerPlugin;
+  /** Ref to the container element for measuring and positioning */
+  containerRef: React.Ref<HTMLDivElement>;
+  /** Called with the column key when a column is hidden from its header */
+  onHideColumn: (key: string) => void;
+}
+
+/**
+ * Kanban board of notes
+ *
+ * Shows one column per value of the board property, each a virtualized list of
+ * cards. Dropping a card on another column rewrites the property of its note
+ * through Obsidian's `processFrontMatter`; the note then moves once the metadata
+ * cache reports the change, like any other edit. Numbers and booleans keep their
+ * type and lists keep their other items; a list of several items cannot be dropped
+ * on the column without a value.
+ */
+export const NoteBoard: React.FC<NoteBoardProps> = ({
+  columns,
+  property,
+  plugin,
+  containerRef,
+  onHideColumn,
+}) => {
+  // Key of the column a card is dragged over
+  const [dragOverKey, setDragOverKey] = useState<string | null>(null);
+
+  const notesByPath = useMemo(
+    () => new Map(columns.flatMap((column) => column.notes.map((note) => [note.path, note]))),
+    [columns]
+  );
+
+  const moveToColumn = useCallback(
+    async (note: NoteData, column: BoardColumn) => {
+      try {
+        await plugin.app.fileManager.processFrontMatter(note.file, (frontmatter) => {
+          // Work from the saved value, which may have changed since the note was loaded
+          const change = getBoardDropChange(frontmatter[property], column, property);
+          if (change?.type === "remove") {
+            delete frontmatter[property];
+          } else if (change?.type === "set") {
+            frontmatter[property] = change.value;
+          }
+        });
+      } catch (error) {
+        handleError(error, ErrorCategory.API, {
+          operation: "processFrontMatter",
+          notePath: note.path,
+          property,
+        });
+      }
+    },
+    [plugin, property]
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLElement>, key: string) => {
+    // Only card drags can be dropped; the path itself is unreadable until the drop
+    if (!Array.from(e.dataTransfer.types).includes(NOTE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDragOverKey(key);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLElement>, column: BoardColumn) => {
+      setDragOverKey(null);
+      const note = notesByPath.get(e.dataTransfer.getData(NOTE_DRAG_TYPE));
+      if (!note) return;
+      e.preventDefault();
+      if (
+        !isInBoardColumn(note, property, column) &&
+        getBoardDropChange(note.frontmatter?.[property], column, property)
+      ) {
+        void moveToColumn(note, column);
+      }
+    },
+    [notesByPath, property, moveToColumn]
+  );
+
+  return (
+    <div className="virtual-list-container note-board" ref={containerRef}>
+      {columns.map((column) => (
+        <section
+          key={column.key}
+          className={`note-board-column ${dragOverKey === column.key ? "drag-over" : ""}`}
+          onDragOver={(e) => handleDragOver(e, column.key)}
+          onDragLeave={() => setDragOverKey(null)}
+          onDrop={(e) => handleDrop(e, column)}
+          aria-label={column.label}
+        >
+          <header className="note-board-column-header">
+            <span className="note-board-column-label">{column.label}</span>
+            <span className="note-board-column-count">{column.notes.length}</span>
+            <button
+              type="button"
+              className="note-board-hide-btn"
+              onClick={() => onHideColumn(column.key)}
+              aria-label={`Hide column ${column.label}`}
+              title="Hide this column"
+            >
+              ×
+            </button>
+          </header>
+          <Virtuoso
+            data={column.notes}
+            computeItemKey={(_index, note) => note.path}
+            itemContent={(_index, note) => (
+              <div className="note-board-item">
+                <NoteCard note={note} plugin={plugin} />
+              </div>
+            )}
+            className="note-board-list"
+            style={{ height: "100%" }}
+            overscan={5}
+          />
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type CardExplorerPlugin from "../../main";
+import type { CalendarMode, NoteData } from "../../types";
+import { NoteCalendar } from "./NoteCalendar";
+
+vi.mock("./NoteCard", () => ({
+  NoteCard: ({ note }: { note: NoteData }) => <div data-testid="note-card">{note.title}</div>,
+}));
+
+vi.mock("../../core/errors/errorHandling", () => ({
+  ErrorCategory: { API: "API" },
+  handleError: vi.fn(),
+}));
+
+const createMockNote = (title: string, date: Date): NoteData => ({
+  file: { path: `${title}.md` } as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: date,
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+/** Accessible name of the button showing the notes of a day */
+const dayButtonName = (day: Date) =>
+  `Show notes of ${day.toLocaleDateString([], {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })}`;
+
+describe("NoteCalendar", () => {
+  const openFile = vi.fn();
+  const mockPlugin = {
+    app: { workspace: { getLeaf: () => ({ openFile }) } },
+  } as unknown as CardExplorerPlugin;
+  const onCalendarModeChange = vi.fn();
+  const onSelectDay = vi.fn();
+  const standup = createMockNote("Standup", new Date(2024, 1, 14, 9));
+  const dailies = [1, 2, 3, 4].map((n) => createMockNote(`Daily ${n}`, new Date(2024, 1, 20, n)));
+
+  const renderCalendar = (calendarMode: CalendarMode = "month") =>
+    render(
+      <NoteCalendar
+        notes={[standup, ...dailies]}
+        sortConfig={{ key: "mtime", order: "desc" }}
+        calendarMode={calendarMode}
+        plugin={mockPlugin}
+        containerRef={{ current: null }}
+        onCalendarModeChange={onCalendarModeChange}
+        onSelectDay={onSelectDay}
+      />
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2024, 1, 14, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("places notes on the days of the month they are dated", () => {
+    renderCalendar();
+
+    const day = screen.getByRole("button", { name: dayButtonName(new Date(2024, 1, 14)) })
+      .parentElement as HTMLElement;
+    expect(day).toHaveClass("today");
+    expect(within(day).getByRole("button", { name: "Standup" })).toBeInTheDocument();
+  });
+
+  it("summarizes days with more notes than fit", () => {
+    renderCalendar();
+
+    expect(screen.getByRole("button", { name: "Daily 3" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Daily 4" })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "+1 more" }));
+
+    expect(onSelectDay).toHaveBeenCalledWith(new Date(2024, 1, 20));
+  });
+
+  it("asks to show the notes of a clicked day", () => {
+    renderCalendar();
+
+    fireEvent.click(screen.getByRole("button", { name: dayButtonName(new Date(2024, 1, 14)) }));
+
+    expect(onSelectDay).toHaveBeenCalledWith(new Date(2024, 1, 14));
+  });
+
+  it("opens a note from its title", () => {
+    renderCalendar();
+
+    fireEvent.click(screen.getByRole("button", { name: "Standup" }));
+
+    expect(openFile).toHaveBeenCalledWith(standup.file);
+  });
+
+  it("moves between months", () => {
+    renderCalendar();
+
+    fireEvent.click(screen.getByRole("button", { name: "Next month" }));
+
+    expect(screen.queryByRole("button", { name: "Standup" })).not.toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: dayButtonName(new Date(2024, 2, 31)) })
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Today" }));
+    expect(screen.getByRole("button", { name: "Standup" })).toBeInTheDocument();
+  });
+
+  it("lists the cards of each day of the week", () => {
+    renderCalendar("week");
+
+    expect(screen.getAllByTestId("note-card").map((card) => card.textContent)).toEqual(["Standup"]);
+    fireEvent.click(screen.getByRole("button", { name: "Next week" }));
+    expect(screen.getAllByTestId("note-card")).toHaveLength(4);
+  });
+
+  it("switches between month and week", () => {
+    renderCalendar();
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Calendar span" }), {
+      target: { value: "week" },
+    });
+
+    expect(onCalendarModeChange).toHaveBeenCalledWith("week");
+  });
+});
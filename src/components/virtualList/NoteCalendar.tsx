@@ -0,0 +1,220 @@
+import type React from "react";
+import { useCallback, useMemo, useState } from "react";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import { toDayKey } from "../../lib/dateUtils";
+import type CardExplorerPlugin from "../../main";
+import { getCalendarDays, groupNotesByDay, shiftCalendarDate } from "../../store/calendar";
+import { getSortKeyChain } from "../../store/sorting";
+import { CALENDAR_MODES, type CalendarMode, type NoteData, type SortConfig } from "../../types";
+import { NoteCard } from "./NoteCard";
+
+/**
+ * Props for NoteCalendar component
+ */
+export interface NoteCalendarProps {
+  /** Filtered and sorted notes of the view */
+  notes: NoteData[];
+  /** Sort configuration of the view, whose key chain resolves the date of a note */
+  sortConfig: SortConfig;
+  /** Span of days shown */
+  calendarMode: CalendarMode;
+  /** Plugin instance for note operations */
+  plugin: CardExplorerPlugin;
+  /** Ref to the container element for measuring and positioning */
+  containerRef: React.Ref<HTMLDivElement>;
+  /** Called with the chosen span of days */
+  onCalendarModeChange: (calendarMode: CalendarMode) => void;
+  /** Called with a day whose notes the user wants to see */
+  onSelectDay: (day: Date) => void;
+}
+
+/** Titles listed in a day of the month grid before the rest is summarized (internal) */
+const MAX_DAY_NOTES = 3;
+
+/**
+ * Option labels of the calendar modes (internal)
+ */
+const CALENDAR_MODE_LABELS: Record<CalendarMode, string> = {
+  month: "Month",
+  week: "Week",
+};
+
+/**
+ * Long form of a day, used in accessible names (internal)
+ */
+const formatDay = (day: Date): string =>
+  day.toLocaleDateString([], { weekday: "long", year: "numeric", month: "long", day: "numeric" });
+
+/**
+ * Title of the month or week shown (internal)
+ */
+const formatTitle = (days: Date[], shownDate: Date, mode: CalendarMode): string => {
+  if (mode === "month") {
+    return shownDate.toLocaleDateString([], { year: "numeric", month: "long" });
+  }
+  const format = (day: Date) => day.toLocaleDateString([], { month: "short", day: "numeric" });
+  return `${format(days[0])} – ${format(days[days.length - 1])}, ${days[0].getFullYear()}`;
+};
+
+/**
+ * Calendar of notes
+ *
+ * Places each note on the day its date falls on, resolved through the view's
+ * sort key chain like the date filter. The month grid lists the titles of each
+ * day; the week list shows the cards of each day. Clicking a day asks to show
+ * that day's notes, which the list does by filtering the card grid to the day.
+ */
+export const NoteCalendar: React.FC<NoteCalendarProps> = ({
+  notes,
+  sortConfig,
+  calendarMode,
+  plugin,
+  containerRef,
+  onCalendarModeChange,
+  onSelectDay,
+}) => {
+  // Day the calendar is showing the month or week of
+  const [shownDate, setShownDate] = useState(() => new Date());
+
+  const days = useMemo(() => getCalendarDays(shownDate, calendarMode), [shownDate, calendarMode]);
+  const notesByDay = useMemo(
+    () => groupNotesByDay(notes, getSortKeyChain(sortConfig)),
+    [notes, sortConfig]
+  );
+  const todayKey = toDayKey(new Date());
+  const spanLabel = calendarMode === "month" ? "month" : "week";
+
+  const openNote = useCallback(
+    async (note: NoteData) => {
+      try {
+        // Open in the active pane to respect the user's workspace layout.
+        await plugin.app.workspace.getLeaf().openFile(note.file);
+      } catch (error) {
+        handleError(error, ErrorCategory.API, {
+          operation: "openFile",
+          notePath: note.path,
+          noteTitle: note.title,
+        });
+      }
+    },
+    [plugin]
+  );
+
+  const renderDayButton = (day: Date, text: string) => (
+    <button
+      type="button"
+      className="note-calendar-day-button"
+      onClick={() => onSelectDay(day)}
+      aria-label={`Show notes of ${formatDay(day)}`}
+      title="Show the notes of this day"
+    >
+      {text}
+    </button>
+  );
+
+  return (
+    <div
+      className={`virtual-list-container note-calendar note-calendar-${calendarMode}`}
+      ref={containerRef}
+    >
+      <div className="note-calendar-toolbar">
+        <button
+          type="button"
+          onClick={() => setShownDate(shiftCalendarDate(shownDate, calendarMode, -1))}
+          aria-label={`Previous ${spanLabel}`}
+        >
+          ‹
+        </button>
+        <button type="button" onClick={() => setShownDate(new Date())}>
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={() => setShownDate(shiftCalendarDate(shownDate, calendarMode, 1))}
+          aria-label={`Next ${spanLabel}`}
+        >
+          ›
+        </button>
+        <h3 className="note-calendar-title">{formatTitle(days, shownDate, calendarMode)}</h3>
+        <select
+          value={calendarMode}
+          onChange={(e) => onCalendarModeChange(e.target.value as CalendarMode)}
+          aria-label="Calendar span"
+          className="note-calendar-mode-select"
+        >
+          {CALENDAR_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {CALENDAR_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {calendarMode === "month" ? (
+        <div className="note-calendar-grid">
+          {days.slice(0, 7).map((day) => (
+            <div key={`weekday-${day.getDay()}`} className="note-calendar-weekday">
+              {day.toLocaleDateString([], { weekday: "short" })}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = toDayKey(day);
+            const dayNotes = notesByDay.get(key) ?? [];
+            const isOutside = day.getMonth() !== shownDate.getMonth();
+            return (
+              <div
+                key={key}
+                className={`note-calendar-day ${isOutside ? "outside-month" : ""} ${key === todayKey ? "today" : ""}`}
+              >
+                {renderDayButton(day, String(day.getDate()))}
+                {dayNotes.slice(0, MAX_DAY_NOTES).map((note) => (
+                  <button
+                    key={note.path}
+                    type="button"
+                    className="note-calendar-note"
+                    onClick={() => openNote(note)}
+                    title={note.title}
+                  >
+                    {note.title}
+                  </button>
+                ))}
+                {dayNotes.length > MAX_DAY_NOTES && (
+                  <button
+                    type="button"
+                    className="note-calendar-more"
+                    onClick={() => onSelectDay(day)}
+                  >
+                    +{dayNotes.length - MAX_DAY_NOTES} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="note-calendar-week">
+          {days.map((day) => {
+            const key = toDayKey(day);
+            const dayNotes = notesByDay.get(key) ?? [];
+            return (
+              <section
+                key={key}
+                className={`note-calendar-week-day ${key === todayKey ? "today" : ""}`}
+              >
+                {renderDayButton(
+                  day,
+                  day.toLocaleDateString([], { weekday: "long", month: "short", day: "numeric" })
+                )}
+                <div className="note-calendar-week-notes">
+                  {dayNotes.map((note) => (
+                    <NoteCard key={note.path} note={note} plugin={plugin} />
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,18 @@
-import { render, screen } from "@testing-library/react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import "@testing-library/jest-dom";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
 import type CardExplorerPlugin from "../../main";
 import * as Store from "../../store/cardExplorerStore";
-import type { NoteData } from "../../types";
-import { NoteCard } from "./NoteCard";
+import {
+  type CardDisplaySettings,
+  type CardStyleRule,
+  DEFAULT_CARD_DISPLAY_SETTINGS,
+  type NoteData,
+  type SortConfig,
+} from "../../types";
+import { NOTE_DRAG_TYPE, NoteCard } from "./NoteCard";
 
 // Do not statically mock the store module to avoid leaking to other suites
 
@@ -21,7 +27,14 @@ vi.mock("../../core/errors/errorHandling", async () => {
   };
 });
 
+// Decoding images needs a browser; thumbnails are the images themselves here
+vi.mock("../../lib/thumbnailCache", () => ({
+  getCachedThumbnail: vi.fn(),
+  loadThumbnail: vi.fn((src: string) => Promise.resolve(src)),
+}));
+
 const mockTogglePin = vi.fn();
+const mockMoveNote = vi.fn();
 
 const makeNote = (overrides: Partial<NoteData> = {}): NoteData => ({
   file: {
@@ -32,19 +45,33 @@ const makeNote = (overrides: Partial<NoteData> = {}): NoteData => ({
   title: "Test Note",
   path: "test-note.md",
   preview: "This is a test note\nwith multiple lines\nof content",
+  wordCount: 10,
   lastModified: new Date("2024-01-15T10:30:00Z"),
   frontmatter: { updated: "2024-01-15" },
   tags: ["test", "example"],
   folder: "Notes",
+  backlinkCount: 0,
   ...overrides,
 });
 
-const makePlugin = (openFile: (...args: any[]) => any = vi.fn()): CardExplorerPlugin =>
+/** Plugin stand-in; `fileContent` is what the vault reads for any note */
+const makePlugin = (
+  openFile: (...args: any[]) => any = vi.fn(),
+  fileContent = ""
+): CardExplorerPlugin =>
   ({
     app: {
       workspace: {
         getLeaf: vi.fn(() => ({ openFile })),
       },
+      metadataCache: {
+        getFileCache: vi.fn(() => null),
+        getFirstLinkpathDest: vi.fn(() => null),
+      },
+      vault: {
+        getResourcePath: vi.fn(),
+        cachedRead: vi.fn(() => Promise.resolve(fileContent)),
+      },
     },
   }) as unknown as CardExplorerPlugin;
 
@@ -52,12 +79,26 @@ const makePlugin = (openFile: (...args: any[]) => any = vi.fn()): CardExplorerPl
 const mockStore = (overrides?: {
   pinnedNotes?: Set<string>;
   togglePin?: (...args: any[]) => any;
+  filters?: { content: string };
+  sortConfig?: SortConfig;
+  canReorderManually?: () => boolean;
+  layoutMode?: string;
+  cardDisplay?: Partial<CardDisplaySettings>;
 }) => {
   const baseState = {
     pinnedNotes: new Set<string>(),
     togglePin: mockTogglePin,
+    filters: { content: "" },
+    sortConfig: { key: "updated", order: "desc" },
+    canReorderManually: () => false,
+    moveNote: mockMoveNote,
+    layoutMode: "grid",
   };
-  const state = { ...baseState, ...(overrides ?? {}) } as const;
+  const state = {
+    ...baseState,
+    ...(overrides ?? {}),
+    cardDisplay: { ...DEFAULT_CARD_DISPLAY_SETTINGS, ...overrides?.cardDisplay },
+  } as const;
 
   return vi.spyOn(Store, "useCardExplorerStore").mockImplementation(((selector?: any) => {
     if (typeof selector === "function") {
@@ -126,6 +167,312 @@ describe("NoteCard", () => {
     });
   });
 
+  describe("Preview modes", () => {
+    const markdownNote = makeNote({
+      preview: "## Plan\n- [ ] Call **Alex** about [[Budget|the budget]]",
+    });
+    const markdownContent =
+      "---\nstatus: draft\n---\n## Plan\n\n- [ ] Call **Alex** about [[Budget|the budget]]\n\nLater";
+
+    it("shows the preview as written by default", () => {
+      const { container } = render(<NoteCard note={markdownNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-preview")).toHaveTextContent(
+        "## Plan - [ ] Call **Alex** about [[Budget|the budget]]"
+      );
+    });
+
+    it("shows the preview as plain text", () => {
+      mockStore({ cardDisplay: { previewMode: "stripped" } });
+      const { container } = render(<NoteCard note={markdownNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-preview")?.textContent).toBe(
+        "Plan\nCall Alex about the budget"
+      );
+    });
+
+    it("renders the beginning of the note up to the preview lines", async () => {
+      mockStore({ cardDisplay: { previewMode: "rendered", previewLines: 2 } });
+      const plugin = makePlugin(vi.fn(), markdownContent);
+      const { container } = render(<NoteCard note={markdownNote} plugin={plugin} />);
+
+      // The Obsidian mock renders the markdown as text
+      await waitFor(() =>
+        expect(container.querySelector(".note-card-rendered")?.textContent).toBe(
+          "## Plan\n\n- [ ] Call **Alex** about [[Budget|the budget]]"
+        )
+      );
+      expect(plugin.app.vault.cachedRead).toHaveBeenCalledWith(markdownNote.file);
+    });
+
+    it("does not read the note body for previews as written", () => {
+      const plugin = makePlugin();
+      render(<NoteCard note={markdownNote} plugin={plugin} />);
+
+      expect(plugin.app.vault.cachedRead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Cover images", () => {
+    const makeCoverPlugin = (embeds: { link: string }[] = []) => {
+      const plugin = makePlugin();
+      const app = plugin.app as any;
+      app.metadataCache.getFileCache.mockReturnValue({ embeds });
+      app.metadataCache.getFirstLinkpathDest.mockImplementation((link: string) =>
+        link.endsWith(".md") ? { path: link } : { path: `Images/${link}` }
+      );
+      app.vault.getResourcePath.mockImplementation(
+        (file: { path: string }) => `app://${file.path}`
+      );
+      return plugin;
+    };
+
+    const renderCard = async (note: NoteData, plugin: CardExplorerPlugin) => {
+      const utils = render(<NoteCard note={note} plugin={plugin} />);
+      await act(async () => {});
+      return utils;
+    };
+
+    it("shows the image of the first cover property as a banner", async () => {
+      const plugin = makeCoverPlugin([{ link: "photo.png" }]);
+      const { container } = await renderCard(
+        makeNote({ frontmatter: { banner: "[[wide.jpg]]", cover: "![[cover.png]]" } }),
+        plugin
+      );
+
+      expect(plugin.app.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith(
+        "cover.png",
+        "test-note.md"
+      );
+      const cover = container.querySelector(".note-card-cover-top");
+      expect(cover).toBe(container.querySelector(".note-card")?.firstChild);
+      expect(cover?.querySelector("img")).toHaveAttribute("src", "app://Images/cover.png");
+    });
+
+    it("falls back to the first image embedded in the note", async () => {
+      const { container } = await renderCard(
+        makeNote({ frontmatter: null }),
+        makeCoverPlugin([{ link: "Diagram.md" }, { link: "photo.png" }])
+      );
+
+      expect(container.querySelector(".note-card-cover img")).toHaveAttribute(
+        "src",
+        "app://Images/photo.png"
+      );
+    });
+
+    it("skips cover properties that do not resolve to an image", async () => {
+      const { container } = await renderCard(
+        makeNote({ frontmatter: { cover: "[[Other note.md]]" } }),
+        makeCoverPlugin()
+      );
+
+      expect(container.querySelector(".note-card-cover")).not.toBeInTheDocument();
+    });
+
+    it("uses web images as they are", async () => {
+      const plugin = makeCoverPlugin();
+      const { container } = await renderCard(
+        makeNote({ frontmatter: { image: "https://example.com/a.png" } }),
+        plugin
+      );
+
+      expect(container.querySelector(".note-card-cover img")).toHaveAttribute(
+        "src",
+        "https://example.com/a.png"
+      );
+      expect(plugin.app.vault.getResourcePath).not.toHaveBeenCalled();
+    });
+
+    it("shows the cover as a thumbnail beside the preview", async () => {
+      mockStore({ cardDisplay: { coverPlacement: "side" } });
+      const { container } = await renderCard(
+        makeNote({ frontmatter: { cover: "cover.png" } }),
+        makeCoverPlugin()
+      );
+
+      const body = container.querySelector(".note-card-body");
+      expect(body?.querySelector(".note-card-preview")).toBeInTheDocument();
+      expect(body?.querySelector(".note-card-cover-side img")).toHaveAttribute(
+        "src",
+        "app://Images/cover.png"
+      );
+    });
+
+    it("shows no cover when covers are turned off", async () => {
+      mockStore({ cardDisplay: { coverPlacement: "none" } });
+      const plugin = makeCoverPlugin([{ link: "photo.png" }]);
+      const { container } = await renderCard(makeNote({ frontmatter: { cover: "a.png" } }), plugin);
+
+      expect(container.querySelector(".note-card-cover")).not.toBeInTheDocument();
+      expect(plugin.app.metadataCache.getFileCache).not.toHaveBeenCalled();
+    });
+
+    it("reads only the configured cover properties", async () => {
+      mockStore({ cardDisplay: { coverPropertyKeys: ["thumbnail"] } });
+      const { container } = await renderCard(
+        makeNote({ frontmatter: { cover: "cover.png", thumbnail: "thumb.png" } }),
+        makeCoverPlugin()
+      );
+
+      expect(container.querySelector(".note-card-cover img")).toHaveAttribute(
+        "src",
+        "app://Images/thumb.png"
+      );
+    });
+  });
+
+  describe("Card fields and elements", () => {
+    const fieldNote = makeNote({
+      frontmatter: { updated: "2024-01-15", status: "Draft", done: true, topics: ["a", "b"] },
+    });
+
+    it("shows the chosen frontmatter fields after the preview", () => {
+      mockStore({ cardDisplay: { cardFields: ["topics", "status", "missing"] } });
+      const { container } = render(<NoteCard note={fieldNote} plugin={makePlugin()} />);
+
+      const fields = container.querySelector(".note-card-fields");
+      expect(fields).toHaveClass("note-card-fields-badges");
+      expect(container.querySelector(".note-card-preview")?.nextElementSibling).toBe(fields);
+      const labels = Array.from(container.querySelectorAll(".note-card-field-label"));
+      expect(labels.map((label) => label.textContent)).toEqual(["topics", "status"]);
+    });
+
+    it("shows no fields unless chosen", () => {
+      const { container } = render(<NoteCard note={fieldNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-fields")).not.toBeInTheDocument();
+    });
+
+    it("lays the fields out as a list", () => {
+      mockStore({ cardDisplay: { cardFields: ["status"], cardFieldStyle: "list" } });
+      const { container } = render(<NoteCard note={fieldNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-fields")).toHaveClass("note-card-fields-list");
+    });
+
+    it("hides the chosen built-in elements", () => {
+      mockStore({ cardDisplay: { hiddenCardElements: ["title", "preview", "tags", "folder"] } });
+      const { container } = render(<NoteCard note={fieldNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-title")).not.toBeInTheDocument();
+      expect(container.querySelector(".note-card-preview")).not.toBeInTheDocument();
+      expect(container.querySelector(".note-card-tags")).not.toBeInTheDocument();
+      expect(container.querySelector(".note-card-folder")).not.toBeInTheDocument();
+      expect(container.querySelector(".note-card-date")).toBeInTheDocument();
+      // The card keeps its accessible name and pin button
+      expect(screen.getByRole("button", { name: "Open note: Test Note" })).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Pin note" })).toBeInTheDocument();
+    });
+
+    it("drops the footer when both the folder and date are hidden", () => {
+      mockStore({ cardDisplay: { hiddenCardElements: ["folder", "date"] } });
+      const { container } = render(<NoteCard note={fieldNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-footer")).not.toBeInTheDocument();
+    });
+
+    it("keeps content search snippets when the preview is hidden", async () => {
+      mockStore({ filters: { content: "test" }, cardDisplay: { hiddenCardElements: ["preview"] } });
+      const { container } = render(
+        <NoteCard note={fieldNote} plugin={makePlugin(vi.fn(), "A test note")} />
+      );
+
+      await waitFor(() =>
+        expect(container.querySelector(".note-card-snippets")).toBeInTheDocument()
+      );
+    });
+  });
+
+  describe("Styling rules", () => {
+    const tagRule = (tag: string, rule: Partial<CardStyleRule>): CardStyleRule => ({
+      condition: { type: "tag", tag },
+      effect: "accent",
+      color: "#e0ac00",
+      icon: "",
+      ...rule,
+    });
+
+    it("marks cards of matching notes with the rule styles", () => {
+      mockStore({
+        cardDisplay: {
+          cardStyleRules: [
+            tagRule("test", { effect: "tint", color: "#e0ac00" }),
+            tagRule("example", { effect: "icon", icon: "💡" }),
+            tagRule("example", { effect: "dim" }),
+          ],
+        },
+      });
+      const { container } = render(<NoteCard note={baseNote} plugin={makePlugin()} />);
+
+      const card = container.querySelector(".note-card") as HTMLElement;
+      expect(card).toHaveClass("has-rule-tint", "is-dimmed");
+      expect(card).not.toHaveClass("has-rule-accent");
+      expect(card.style.getPropertyValue("--card-rule-tint")).toBe("#e0ac00");
+      expect(container.querySelector(".note-card-rule-icon")).toHaveTextContent("💡");
+    });
+
+    it("applies the first matching rule of a style", () => {
+      mockStore({
+        cardDisplay: {
+          cardStyleRules: [
+            tagRule("missing", { color: "red" }),
+            tagRule("test", { color: "yellow" }),
+            tagRule("example", { color: "gray" }),
+          ],
+        },
+      });
+      const { container } = render(<NoteCard note={baseNote} plugin={makePlugin()} />);
+
+      const card = container.querySelector(".note-card") as HTMLElement;
+      expect(card).toHaveClass("has-rule-accent");
+      expect(card.style.getPropertyValue("--card-rule-accent")).toBe("yellow");
+    });
+
+    it("leaves cards of other notes as they are", () => {
+      mockStore({ cardDisplay: { cardStyleRules: [tagRule("missing", { effect: "dim" })] } });
+      const { container } = render(<NoteCard note={baseNote} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card")).not.toHaveClass("is-dimmed");
+      expect(container.querySelector(".note-card-rule-icon")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Content search", () => {
+    const searchNote = makeNote({ title: "Budget review" });
+    const searchContent =
+      "Opening remarks.\nThe budget was approved after a long discussion about costs.";
+
+    it("replaces the preview with highlighted snippets", async () => {
+      mockStore({ filters: { content: "budget" } });
+      const { container } = render(
+        <NoteCard note={searchNote} plugin={makePlugin(vi.fn(), searchContent)} />
+      );
+
+      await waitFor(() =>
+        expect(screen.queryByText(/This is a test note/)).not.toBeInTheDocument()
+      );
+      const snippet = container.querySelector(".note-card-snippet");
+      expect(snippet).toHaveTextContent("Opening remarks. The budget was approved");
+      expect(
+        Array.from(
+          container.querySelectorAll("mark.note-card-highlight"),
+          (mark) => mark.textContent
+        )
+      ).toEqual(["Budget", "budget"]);
+    });
+
+    it("keeps the preview when the body has no match", async () => {
+      mockStore({ filters: { content: "missing" } });
+      const plugin = makePlugin(vi.fn(), searchContent);
+      const { container } = render(<NoteCard note={searchNote} plugin={plugin} />);
+
+      await waitFor(() => expect(plugin.app.vault.cachedRead).toHaveBeenCalled());
+      expect(screen.getByText(/This is a test note/)).toBeInTheDocument();
+      expect(container.querySelector("mark")).not.toBeInTheDocument();
+    });
+  });
+
   describe("Interactions", () => {
     it.each([
       {
@@ -291,6 +638,102 @@ describe("NoteCard", () => {
       if (expectTitle) expect(screen.getByTitle(expectTitle)).toBeInTheDocument();
       if (expectText) expect(screen.getByText(expectText)).toBeInTheDocument();
     });
+
+    it("uses the sort key and its fallback keys", () => {
+      mockStore({ sortConfig: { key: "due", order: "asc", fallbackKeys: ["created", "mtime"] } });
+      const note = makeNote({ frontmatter: { updated: "2024-01-15", created: "2024-02-20" } });
+
+      render(<NoteCard note={note} plugin={makePlugin()} />);
+
+      expect(
+        screen.getByTitle(new Date("2024-02-20T00:00:00Z").toLocaleString())
+      ).toBeInTheDocument();
+    });
+
+    it("hides the date when no key in the chain holds one", () => {
+      mockStore({ sortConfig: { key: "due", order: "asc", fallbackKeys: ["created"] } });
+      const note = makeNote({ frontmatter: { updated: "2024-01-15" }, lastModified: FIXED_NOW });
+
+      const { container } = render(<NoteCard note={note} plugin={makePlugin()} />);
+
+      expect(container.querySelector(".note-card-date")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Manual ordering", () => {
+    /** DataTransfer stand-in holding the dragged card's data */
+    const createDataTransfer = () => {
+      const data = new Map<string, string>();
+      return {
+        get types() {
+          return Array.from(data.keys());
+        },
+        setData: (type: string, value: string) => data.set(type, value),
+        getData: (type: string) => data.get(type) ?? "",
+        effectAllowed: "",
+        dropEffect: "",
+      };
+    };
+
+    it("is not draggable unless the view sorts by the manual order", () => {
+      render(<NoteCard note={baseNote} plugin={makePlugin()} />);
+
+      expect(screen.getByRole("button", { name: /Open note/ })).toHaveAttribute(
+        "draggable",
+        "false"
+      );
+    });
+
+    it("moves the dragged card to the card it is dropped on", () => {
+      mockStore({ canReorderManually: () => true });
+      const target = makeNote({ title: "Target", path: "target.md" });
+      render(
+        <>
+          <NoteCard note={baseNote} plugin={makePlugin()} />
+          <NoteCard note={target} plugin={makePlugin()} />
+        </>
+      );
+      const source = screen.getByRole("button", { name: "Open note: Test Note" });
+      const targetCard = screen.getByRole("button", { name: "Open note: Target" });
+      const dataTransfer = createDataTransfer();
+
+      expect(source).toHaveAttribute("draggable", "true");
+      fireEvent.dragStart(source, { dataTransfer });
+      fireEvent.dragOver(targetCard, { dataTransfer });
+      expect(targetCard).toHaveClass("drag-over");
+
+      fireEvent.drop(targetCard, { dataTransfer });
+      expect(targetCard).not.toHaveClass("drag-over");
+      expect(mockMoveNote).toHaveBeenCalledWith("test-note.md", "target.md");
+    });
+
+    it("can be dragged to another column on the board, leaving drops to the column", () => {
+      mockStore({ layoutMode: "board" });
+      render(<NoteCard note={baseNote} plugin={makePlugin()} />);
+      const card = screen.getByRole("button", { name: /Open note/ });
+      const dataTransfer = createDataTransfer();
+
+      expect(card).toHaveAttribute("draggable", "true");
+      fireEvent.dragStart(card, { dataTransfer });
+      fireEvent.drop(card, { dataTransfer });
+
+      expect(dataTransfer.getData(NOTE_DRAG_TYPE)).toBe("test-note.md");
+      expect(mockMoveNote).not.toHaveBeenCalled();
+    });
+
+    it("ignores drops that are not cards", () => {
+      mockStore({ canReorderManually: () => true });
+      render(<NoteCard note={baseNote} plugin={makePlugin()} />);
+      const card = screen.getByRole("button", { name: /Open note/ });
+      const dataTransfer = createDataTransfer();
+      dataTransfer.setData("text/plain", "hello");
+
+      fireEvent.dragOver(card, { dataTransfer });
+      fireEvent.drop(card, { dataTransfer });
+
+      expect(card).not.toHaveClass("drag-over");
+      expect(mockMoveNote).not.toHaveBeenCalled();
+    });
   });
 
   describe("Accessibility", () => {
@@ -1,10 +1,28 @@
 import type React from "react";
-import { useCallback } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import { useCoverSource } from "../../hooks/useCoverSource";
+import { useNoteBody } from "../../hooks/useNoteBody";
+import { withOccurrenceKeys } from "../../lib/array";
 import { formatRelativeDate, getDisplayDate } from "../../lib/dateUtils";
 import type CardExplorerPlugin from "../../main";
 import { useCardExplorerStore } from "../../store/cardExplorerStore";
-import type { NoteData } from "../../types";
+import { getCardFields } from "../../store/cardFields";
+import { resolveCardStyle } from "../../store/cardRules";
+import { RENDERED_PREVIEW_MAX_LENGTH } from "../../store/constants";
+import { getMarkdownExcerpt, stripMarkdown } from "../../store/preview";
+import {
+  type ContentQuery,
+  extractContentSnippets,
+  getHighlightSegments,
+  isContentQueryEmpty,
+  parseContentQuery,
+} from "../../store/search";
+import { getSortKeyChain } from "../../store/sorting";
+import type { CardElement, NoteData } from "../../types";
+import { CoverImage } from "./CoverImage";
+import { NoteCardFields } from "./NoteCardFields";
+import { RenderedPreview } from "./RenderedPreview";
 
 /** Props for {@link NoteCard}. */
 interface NoteCardProps {
@@ -21,11 +39,43 @@ const isActivationKey = (e: { key: string } & { code?: string }): boolean => {
   return isEnter || isSpace;
 };
 
+/** Drag data type carrying the path of a dragged card, so drops from elsewhere are ignored */
+export const NOTE_DRAG_TYPE = "application/x-card-view-explorer-note";
+
+/**
+ * Renders text with the matches of a content search wrapped in `<mark>`.
+ */
+const HighlightedText: React.FC<{ text: string; query: ContentQuery }> = ({ text, query }) => (
+  <>
+    {withOccurrenceKeys(getHighlightSegments(text, query), (segment) => segment.text).map(
+      ({ key, value: segment }) =>
+        segment.isMatch ? (
+          <mark key={key} className="note-card-highlight">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+    )}
+  </>
+);
+
 /**
  * Renders a single note as an interactive card.
  *
  * Uses the Obsidian workspace API to open files and Zustand store to persist
- * pinned state across sessions.
+ * pinned state across sessions. While a content search is active, the preview
+ * is replaced by snippets around the matches and search terms are highlighted.
+ * Otherwise the preview is shown as written, as plain text or rendered as markdown,
+ * depending on the preview mode setting. A cover image, from a cover property or the
+ * first image embedded in the note, is shown as a banner or a thumbnail beside the preview.
+ * The frontmatter fields chosen in the settings follow the preview, and any of the
+ * built-in elements (title, preview, tags, folder, date) can be hidden.
+ * Styling rules from the settings mark the card with an accent, border, tint, icon or
+ * faded look when its note matches their conditions.
+ * The footer shows the note's date for the view's sort key and its fallbacks.
+ * While the view sorts by the manual order, cards can be dragged onto each other
+ * to reorder them; on the board, cards can also be dragged to another column.
  */
 export const NoteCard: React.FC<NoteCardProps> = ({ note, plugin }) => {
   // Subscribe only to what's needed to avoid unnecessary re-renders
@@ -33,6 +83,58 @@ export const NoteCard: React.FC<NoteCardProps> = ({ note, plugin }) => {
     useCallback((state) => state.pinnedNotes.has(note.path), [note.path])
   );
   const togglePin = useCardExplorerStore((state) => state.togglePin);
+  const contentSearch = useCardExplorerStore((state) => state.filters.content);
+  const sortConfig = useCardExplorerStore((state) => state.sortConfig);
+  const canReorder = useCardExplorerStore((state) => state.canReorderManually());
+  const isOnBoard = useCardExplorerStore((state) => state.layoutMode === "board");
+  // Board cards are dragged between columns; drops there are handled by the column
+  const canDrag = canReorder || isOnBoard;
+  const moveNote = useCardExplorerStore((state) => state.moveNote);
+  const previewMode = useCardExplorerStore((state) => state.cardDisplay.previewMode);
+  const previewLines = useCardExplorerStore((state) => state.cardDisplay.previewLines);
+  const coverPlacement = useCardExplorerStore((state) => state.cardDisplay.coverPlacement);
+  const coverPropertyKeys = useCardExplorerStore((state) => state.cardDisplay.coverPropertyKeys);
+  const cardFields = useCardExplorerStore((state) => state.cardDisplay.cardFields);
+  const cardFieldStyle = useCardExplorerStore((state) => state.cardDisplay.cardFieldStyle);
+  const hiddenElements = useCardExplorerStore((state) => state.cardDisplay.hiddenCardElements);
+  const cardStyleRules = useCardExplorerStore((state) => state.cardDisplay.cardStyleRules);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const contentQuery = useMemo(() => parseContentQuery(contentSearch), [contentSearch]);
+  // The body is only read while snippets or a rendered excerpt are shown
+  const body = useNoteBody(
+    plugin.app,
+    note,
+    !isContentQueryEmpty(contentQuery) || previewMode === "rendered"
+  );
+  const snippets = useMemo(
+    () => (body === null ? [] : extractContentSnippets(body, contentQuery)),
+    [body, contentQuery]
+  );
+  const strippedPreview = useMemo(
+    () => (previewMode === "stripped" ? stripMarkdown(note.preview) : ""),
+    [previewMode, note.preview]
+  );
+  const previewExcerpt = useMemo(
+    () =>
+      previewMode === "rendered" && body !== null
+        ? getMarkdownExcerpt(body, previewLines, RENDERED_PREVIEW_MAX_LENGTH)
+        : "",
+    [previewMode, body, previewLines]
+  );
+  const fields = useMemo(
+    () => getCardFields(note.frontmatter, cardFields),
+    [note.frontmatter, cardFields]
+  );
+  const isShown = useCallback(
+    (element: CardElement) => !hiddenElements.includes(element),
+    [hiddenElements]
+  );
+  const coverSrc = useCoverSource(
+    plugin.app,
+    note,
+    coverPlacement === "none" ? null : coverPropertyKeys
+  );
 
   const handleNoteClick = useCallback(async () => {
     try {
@@ -55,7 +157,51 @@ export const NoteCard: React.FC<NoteCardProps> = ({ note, plugin }) => {
     [togglePin, note.path]
   );
 
-  const displayDate = getDisplayDate(note);
+  const handleDragStart = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      e.dataTransfer.setData(NOTE_DRAG_TYPE, note.path);
+      e.dataTransfer.effectAllowed = "move";
+    },
+    [note.path]
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    // Only card drags can be dropped; the path itself is unreadable until the drop
+    if (!Array.from(e.dataTransfer.types).includes(NOTE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setIsDragOver(true);
+  }, []);
+
+  const handleDragLeave = useCallback(() => setIsDragOver(false), []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      setIsDragOver(false);
+      const sourcePath = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+      if (!sourcePath) return;
+      e.preventDefault();
+      moveNote(sourcePath, note.path);
+    },
+    [moveNote, note.path]
+  );
+
+  // Show the date the view sorts by, resolved through the same fallback keys
+  const dateKeys = useMemo(() => getSortKeyChain(sortConfig), [sortConfig]);
+  const displayDate = getDisplayDate(note, dateKeys);
+  // Age rules date notes the same way
+  const ruleStyle = useMemo(
+    () => resolveCardStyle(note, cardStyleRules, new Date(), dateKeys),
+    [note, cardStyleRules, dateKeys]
+  );
+  const ruleClasses = [
+    ruleStyle.accent ? "has-rule-accent" : "",
+    ruleStyle.border ? "has-rule-border" : "",
+    ruleStyle.tint ? "has-rule-tint" : "",
+    ruleStyle.isDimmed ? "is-dimmed" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   const formatDate = useCallback((date: Date): string => {
     return formatRelativeDate(date, new Date());
@@ -85,19 +231,59 @@ export const NoteCard: React.FC<NoteCardProps> = ({ note, plugin }) => {
     [note.path, togglePin]
   );
 
+  // Snippets around the matches during a content search, otherwise the preview in its mode
+  // unless it is hidden
+  const preview =
+    snippets.length > 0 ? (
+      <div className="note-card-preview note-card-snippets">
+        {withOccurrenceKeys(snippets, (snippet) => snippet).map(({ key, value: snippet }) => (
+          <div key={key} className="note-card-snippet">
+            <HighlightedText text={snippet} query={contentQuery} />
+          </div>
+        ))}
+      </div>
+    ) : !isShown("preview") ? null : previewMode === "rendered" && previewExcerpt ? (
+      <RenderedPreview markdown={previewExcerpt} sourcePath={note.path} plugin={plugin} />
+    ) : (
+      <div className="note-card-preview" title={note.preview}>
+        {previewMode === "stripped" ? strippedPreview || note.title : note.preview}
+      </div>
+    );
+
   return (
     <div
-      className={`note-card ${isPinned ? "pinned" : ""}`}
+      className={`note-card ${isPinned ? "pinned" : ""} ${isDragOver ? "drag-over" : ""} ${ruleClasses}`}
+      style={
+        {
+          "--card-rule-accent": ruleStyle.accent ?? undefined,
+          "--card-rule-border": ruleStyle.border ?? undefined,
+          "--card-rule-tint": ruleStyle.tint ?? undefined,
+        } as React.CSSProperties
+      }
       onClick={handleNoteClick}
       onKeyDown={handleKeyDown}
+      draggable={canDrag}
+      onDragStart={canDrag ? handleDragStart : undefined}
+      onDragOver={canReorder ? handleDragOver : undefined}
+      onDragLeave={canReorder ? handleDragLeave : undefined}
+      onDrop={canReorder ? handleDrop : undefined}
       role="button"
       tabIndex={0}
       aria-label={`Open note: ${note.title}`}
     >
+      {coverSrc && coverPlacement === "top" && <CoverImage src={coverSrc} placement="top" />}
+
       <div className="note-card-header">
-        <h3 className="note-card-title" title={note.title}>
-          {note.title}
-        </h3>
+        {ruleStyle.icon && (
+          <span className="note-card-rule-icon" aria-hidden="true">
+            {ruleStyle.icon}
+          </span>
+        )}
+        {isShown("title") && (
+          <h3 className="note-card-title" title={note.title}>
+            <HighlightedText text={note.title} query={contentQuery} />
+          </h3>
+        )}
 
         <button
           type="button"
@@ -112,11 +298,25 @@ export const NoteCard: React.FC<NoteCardProps> = ({ note, plugin }) => {
         </button>
       </div>
 
-      <div className="note-card-preview" title={note.preview}>
-        {note.preview}
-      </div>
+      {coverSrc && coverPlacement === "side" ? (
+        <div className="note-card-body">
+          {preview}
+          <CoverImage src={coverSrc} placement="side" />
+        </div>
+      ) : (
+        preview
+      )}
 
-      {note.tags.length > 0 && (
+      {fields.length > 0 && (
+        <NoteCardFields
+          fields={fields}
+          fieldStyle={cardFieldStyle}
+          sourcePath={note.path}
+          plugin={plugin}
+        />
+      )}
+
+      {isShown("tags") && note.tags.length > 0 && (
         <div className="note-card-tags">
           {note.tags.slice(0, 3).map((tag) => (
             <span key={tag} className="note-card-tag">
@@ -130,16 +330,20 @@ export const NoteCard: React.FC<NoteCardProps> = ({ note, plugin }) => {
         </div>
       )}
 
-      <div className="note-card-footer">
-        {note.folder && (
-          <span className="note-card-folder" title={note.folder}>
-            {note.folder}
-          </span>
-        )}
-        <span className="note-card-date" title={displayDate.toLocaleString()}>
-          {formatDate(displayDate)}
-        </span>
-      </div>
+      {(isShown("folder") || isShown("date")) && (
+        <div className="note-card-footer">
+          {isShown("folder") && note.folder && (
+            <span className="note-card-folder" title={note.folder}>
+              {note.folder}
+            </span>
+          )}
+          {isShown("date") && displayDate && (
+            <span className="note-card-date" title={displayDate.toLocaleString()}>
+              {formatDate(displayDate)}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
 };
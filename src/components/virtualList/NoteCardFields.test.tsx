@@ -0,0 +1,141 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import type CardExplorerPlugin from "../../main";
+import { type CardField, getCardFields } from "../../store/cardFields";
+import { NoteCardFields } from "./NoteCardFields";
+
+vi.mock("../../core/errors/errorHandling", async () => {
+  const actual = await vi.importActual<typeof import("../../core/errors/errorHandling")>(
+    "../../core/errors/errorHandling"
+  );
+  return { ...actual, handleError: vi.fn() };
+});
+
+const makePlugin = (openLinkText = vi.fn().mockResolvedValue(undefined)) =>
+  ({ app: { workspace: { openLinkText } } }) as unknown as CardExplorerPlugin;
+
+const renderFields = (
+  fields: CardField[],
+  plugin = makePlugin(),
+  fieldStyle: "badges" | "list" = "badges"
+) =>
+  render(
+    <NoteCardFields
+      fields={fields}
+      fieldStyle={fieldStyle}
+      sourcePath="Work/note.md"
+      plugin={plugin}
+    />
+  );
+
+describe("NoteCardFields", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("labels each field with its key, in the given order", () => {
+    const { container } = renderFields(
+      getCardFields({ status: "Draft", owner: "Alex" }, ["owner", "status"])
+    );
+
+    const labels = Array.from(container.querySelectorAll(".note-card-field-label"));
+    expect(labels.map((label) => label.textContent)).toEqual(["owner", "status"]);
+    expect(container.querySelector(".note-card-field-value")).toHaveTextContent("Alex");
+  });
+
+  it("applies the field style", () => {
+    const fields = getCardFields({ status: "Draft" }, ["status"]);
+
+    const { container } = renderFields(fields, makePlugin(), "list");
+
+    expect(container.firstChild).toHaveClass("note-card-fields", "note-card-fields-list");
+  });
+
+  it("shows dates like the card date, with the full date in the tooltip", () => {
+    const { container } = renderFields(getCardFields({ due: "2024-03-01" }, ["due"]));
+
+    const time = container.querySelector("time");
+    expect(time).toHaveAttribute("dateTime", new Date("2024-03-01").toISOString());
+    expect(time).toHaveAttribute("title", new Date("2024-03-01").toLocaleString());
+    expect(time).toHaveTextContent(new Date("2024-03-01").toLocaleDateString());
+  });
+
+  it("shows booleans as checkmarks", () => {
+    renderFields(getCardFields({ done: true, archived: false }, ["done", "archived"]));
+
+    expect(screen.getByRole("img", { name: "Yes" })).toHaveTextContent("✓");
+    expect(screen.getByRole("img", { name: "No" })).toHaveTextContent("✗");
+  });
+
+  it("shows lists as chips", () => {
+    const { container } = renderFields(getCardFields({ topics: ["design", "ux"] }, ["topics"]));
+
+    const chips = Array.from(container.querySelectorAll(".note-card-field-chip"));
+    expect(chips.map((chip) => chip.textContent)).toEqual(["design", "ux"]);
+  });
+
+  it("keeps the chips of the remaining items when an item is removed", () => {
+    const plugin = makePlugin();
+    const { container, rerender } = renderFields(
+      getCardFields({ topics: ["design", "ux", "ux"] }, ["topics"]),
+      plugin
+    );
+    const [, uxChip] = Array.from(container.querySelectorAll(".note-card-field-chip"));
+
+    rerender(
+      <NoteCardFields
+        fields={getCardFields({ topics: ["ux", "ux"] }, ["topics"])}
+        fieldStyle="badges"
+        sourcePath="Work/note.md"
+        plugin={plugin}
+      />
+    );
+
+    const chips = Array.from(container.querySelectorAll(".note-card-field-chip"));
+    expect(chips.map((chip) => chip.textContent)).toEqual(["ux", "ux"]);
+    expect(chips[0]).toBe(uxChip);
+  });
+
+  it("opens linked notes from the note without opening the card", () => {
+    const openLinkText = vi.fn().mockResolvedValue(undefined);
+    const onCardClick = vi.fn();
+    render(
+      // biome-ignore lint/a11y/useKeyWithClickEvents lint/a11y/noStaticElementInteractions: stands in for the card
+      <div onClick={onCardClick}>
+        <NoteCardFields
+          fields={getCardFields({ project: "[[Projects/Alpha|Alpha]]" }, ["project"])}
+          fieldStyle="badges"
+          sourcePath="Work/note.md"
+          plugin={makePlugin(openLinkText)}
+        />
+      </div>
+    );
+
+    const link = screen.getByRole("link", { name: "Alpha" });
+    expect(link).toHaveClass("internal-link");
+    fireEvent.click(link);
+
+    expect(openLinkText).toHaveBeenCalledWith("Projects/Alpha", "Work/note.md");
+    expect(onCardClick).not.toHaveBeenCalled();
+  });
+
+  it("reports links that fail to open", async () => {
+    const error = new Error("open failed");
+    renderFields(
+      getCardFields({ project: "[[Alpha]]" }, ["project"]),
+      makePlugin(vi.fn().mockRejectedValue(error))
+    );
+
+    fireEvent.click(screen.getByRole("link", { name: "Alpha" }));
+
+    await vi.waitFor(() =>
+      expect(handleError).toHaveBeenCalledWith(error, ErrorCategory.API, {
+        operation: "openLinkText",
+        linkpath: "Alpha",
+        notePath: "Work/note.md",
+      })
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import type React from "react";
+import { useCallback } from "react";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import { withOccurrenceKeys } from "../../lib/array";
+import { formatRelativeDate } from "../../lib/dateUtils";
+import type CardExplorerPlugin from "../../main";
+import type { CardField, CardFieldScalar } from "../../store/cardFields";
+import type { CardFieldStyle } from "../../types";
+
+/**
+ * Props for the `NoteCardFields` component.
+ */
+interface NoteCardFieldsProps {
+  /** Fields of the note, in display order */
+  fields: CardField[];
+  /** Badges or a key/value list */
+  fieldStyle: CardFieldStyle;
+  /** Path of the note, used to resolve links */
+  sourcePath: string;
+  /** Plugin instance for accessing Obsidian APIs */
+  plugin: CardExplorerPlugin;
+}
+
+/**
+ * Link to another note in a field value (internal)
+ *
+ * Opens the linked note like a link in the note would, without opening the card.
+ */
+const FieldLink: React.FC<{
+  linkpath: string;
+  text: string;
+  sourcePath: string;
+  plugin: CardExplorerPlugin;
+}> = ({ linkpath, text, sourcePath, plugin }) => {
+  const handleClick = useCallback(
+    async (e: React.MouseEvent<HTMLAnchorElement>) => {
+      e.preventDefault();
+      e.stopPropagation(); // prevent click from also opening the note of the card
+      try {
+        await plugin.app.workspace.openLinkText(linkpath, sourcePath);
+      } catch (error) {
+        handleError(error, ErrorCategory.API, {
+          operation: "openLinkText",
+          linkpath,
+          notePath: sourcePath,
+        });
+      }
+    },
+    [plugin, linkpath, sourcePath]
+  );
+
+  return (
+    <a className="internal-link" href={linkpath} data-href={linkpath} onClick={handleClick}>
+      {text}
+    </a>
+  );
+};
+
+/**
+ * A single value of a field (internal)
+ */
+const FieldScalar: React.FC<{
+  value: CardFieldScalar;
+  sourcePath: string;
+  plugin: CardExplorerPlugin;
+}> = ({ value, sourcePath, plugin }) => {
+  switch (value.type) {
+    case "date":
+      return (
+        <time dateTime={value.date.toISOString()} title={value.date.toLocaleString()}>
+          {formatRelativeDate(value.date, new Date())}
+        </time>
+      );
+    case "boolean":
+      return (
+        <span
+          className={`note-card-field-check ${value.checked ? "is-checked" : ""}`}
+          role="img"
+          aria-label={value.checked ? "Yes" : "No"}
+        >
+          {value.checked ? "✓" : "✗"}
+        </span>
+      );
+    case "link":
+      return (
+        <FieldLink
+          linkpath={value.linkpath}
+          text={value.text}
+          sourcePath={sourcePath}
+          plugin={plugin}
+        />
+      );
+    default:
+      return <>{value.text}</>;
+  }
+};
+
+/**
+ * NoteCardFields
+ *
+ * Shows the frontmatter properties chosen for cards, as labelled badges or as a
+ * list of keys and values. Dates read like the card date, booleans as checkmarks,
+ * lists as chips and wikilinks as links that open the linked note.
+ */
+export const NoteCardFields: React.FC<NoteCardFieldsProps> = ({
+  fields,
+  fieldStyle,
+  sourcePath,
+  plugin,
+}) => (
+  <div className={`note-card-fields note-card-fields-${fieldStyle}`}>
+    {fields.map(({ key, value }) => (
+      <div key={key} className="note-card-field">
+        <span className="note-card-field-label">{key}</span>
+        <span className="note-card-field-value">
+          {value.type === "list" ? (
+            withOccurrenceKeys(value.items, (item) => JSON.stringify(item)).map(
+              ({ key: itemKey, value: item }) => (
+                <span key={itemKey} className="note-card-field-chip">
+                  <FieldScalar value={item} sourcePath={sourcePath} plugin={plugin} />
+                </span>
+              )
+            )
+          ) : (
+            <FieldScalar value={value} sourcePath={sourcePath} plugin={plugin} />
+          )}
+        </span>
+      </div>
+    ))}
+  </div>
+);
@@ -22,10 +22,12 @@ const makeNote = (overrides: Partial<NoteData> = {}): NoteData => ({
   title: overrides.title || "Test Note",
   path: overrides.path || "test-note.md",
   preview: "This is a test note\nwith multiple lines\nof content",
+  wordCount: 0,
   lastModified: new Date("2024-01-15T10:30:00Z"),
   frontmatter: { updated: "2024-01-15" },
   tags: ["test", "example"],
   folder: "Notes",
+  backlinkCount: 0,
   ...overrides,
 });
 
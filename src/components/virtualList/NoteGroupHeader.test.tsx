@@ -0,0 +1,40 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { describe, expect, it, vi } from "vitest";
+import type { GridGroup } from "../../hooks/useNoteGrid";
+import { NoteGroupHeader } from "./NoteGroupHeader";
+
+const makeGroup = (overrides: Partial<GridGroup> = {}): GridGroup => ({
+  key: "work",
+  label: "Work",
+  noteCount: 12,
+  rowCount: 4,
+  isCollapsed: false,
+  ...overrides,
+});
+
+describe("NoteGroupHeader", () => {
+  it("shows the label and note count of an expanded group", () => {
+    render(<NoteGroupHeader group={makeGroup()} onToggle={vi.fn()} />);
+
+    const toggle = screen.getByRole("button", { name: /Work/ });
+    expect(toggle).toHaveAttribute("aria-expanded", "true");
+    expect(toggle).toHaveTextContent("12");
+  });
+
+  it("marks collapsed groups", () => {
+    render(<NoteGroupHeader group={makeGroup({ isCollapsed: true })} onToggle={vi.fn()} />);
+
+    expect(screen.getByRole("button", { name: /Work/ })).toHaveAttribute("aria-expanded", "false");
+  });
+
+  it("toggles the group when clicked", async () => {
+    const onToggle = vi.fn();
+    render(<NoteGroupHeader group={makeGroup()} onToggle={onToggle} />);
+
+    await userEvent.setup().click(screen.getByRole("button", { name: /Work/ }));
+
+    expect(onToggle).toHaveBeenCalledWith("work");
+  });
+});
@@ -0,0 +1,38 @@
+import React from "react";
+import type { GridGroup } from "../../hooks/useNoteGrid";
+
+/**
+ * Props for NoteGroupHeader component
+ */
+export interface NoteGroupHeaderProps {
+  /** Group shown by this header */
+  group: GridGroup;
+  /** Called with the group key when the header is clicked */
+  onToggle: (groupKey: string) => void;
+}
+
+/**
+ * Renders the sticky header of a group in the virtualized note grid
+ *
+ * Shows the group label with its note count and collapses or expands the
+ * group's cards when clicked.
+ */
+export const NoteGroupHeader: React.FC<NoteGroupHeaderProps> = React.memo(({ group, onToggle }) => {
+  return (
+    <div className="note-group-header">
+      <button
+        type="button"
+        className="note-group-toggle"
+        onClick={() => onToggle(group.key)}
+        aria-expanded={!group.isCollapsed}
+        title={group.isCollapsed ? "Expand group" : "Collapse group"}
+      >
+        <span className="note-group-chevron" aria-hidden="true">
+          {group.isCollapsed ? "▶" : "▼"}
+        </span>
+        <span className="note-group-label">{group.label}</span>
+        <span className="note-group-count">{group.noteCount}</span>
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,64 @@
+import "@testing-library/jest-dom";
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type CardExplorerPlugin from "../../main";
+import type { NoteData } from "../../types";
+import { NoteTimeline } from "./NoteTimeline";
+
+// Mock react-virtuoso to render every item
+vi.mock("react-virtuoso", () => ({
+  Virtuoso: (props: any) => (
+    <div data-testid="virtuoso">
+      {props.data.map((item: any, index: number) => (
+        <div key={props.computeItemKey(index, item)}>{props.itemContent(index, item)}</div>
+      ))}
+    </div>
+  ),
+}));
+
+vi.mock("./NoteCard", () => ({
+  NoteCard: ({ note }: { note: NoteData }) => <div data-testid="note-card">{note.title}</div>,
+}));
+
+const createMockNote = (title: string, date: Date): NoteData => ({
+  file: {} as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: date,
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+describe("NoteTimeline", () => {
+  const notes = [
+    createMockNote("Kickoff", new Date(2023, 11, 4)),
+    createMockNote("Retro", new Date(2024, 0, 26)),
+  ];
+
+  it("lists cards in date order under year and month separators", () => {
+    render(
+      <NoteTimeline
+        notes={notes}
+        sortConfig={{ key: "mtime", order: "desc" }}
+        plugin={{} as CardExplorerPlugin}
+        containerRef={{ current: null }}
+      />
+    );
+
+    const monthLabel = (date: Date) => date.toLocaleDateString([], { month: "long" });
+    expect(screen.getAllByRole("heading").map((heading) => heading.textContent)).toEqual([
+      "2024",
+      monthLabel(new Date(2024, 0, 1)),
+      "2023",
+      monthLabel(new Date(2023, 11, 1)),
+    ]);
+    expect(screen.getAllByTestId("note-card").map((card) => card.textContent)).toEqual([
+      "Retro",
+      "Kickoff",
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import type React from "react";
+import { useMemo } from "react";
+import { Virtuoso } from "react-virtuoso";
+import type CardExplorerPlugin from "../../main";
+import { buildTimeline, type TimelineItem } from "../../store/calendar";
+import { getSortKeyChain } from "../../store/sorting";
+import type { NoteData, SortConfig } from "../../types";
+import { NoteCard } from "./NoteCard";
+
+/**
+ * Props for NoteTimeline component
+ */
+export interface NoteTimelineProps {
+  /** Filtered and sorted notes of the view */
+  notes: NoteData[];
+  /** Sort configuration of the view, whose key chain and direction order the timeline */
+  sortConfig: SortConfig;
+  /** Plugin instance for note operations */
+  plugin: CardExplorerPlugin;
+  /** Ref to the container element for measuring and positioning */
+  containerRef: React.Ref<HTMLDivElement>;
+}
+
+/**
+ * Render an item of the timeline (internal)
+ */
+const renderItem = (item: TimelineItem, plugin: CardExplorerPlugin) => {
+  if (item.type === "note") {
+    return (
+      <div className="note-timeline-item">
+        <NoteCard note={item.note} plugin={plugin} />
+      </div>
+    );
+  }
+  const Heading = item.type === "year" ? "h3" : "h4";
+  return (
+    <Heading className={`note-timeline-separator note-timeline-${item.type}`}>{item.label}</Heading>
+  );
+};
+
+/**
+ * Vertical timeline of notes
+ *
+ * Lists the cards in date order with year and month separators, so that dated
+ * notes such as daily and meeting notes can be browsed by time. Dates are resolved
+ * through the view's sort key chain; the list is virtualized like the card grid.
+ */
+export const NoteTimeline: React.FC<NoteTimelineProps> = ({
+  notes,
+  sortConfig,
+  plugin,
+  containerRef,
+}) => {
+  const items = useMemo(
+    () => buildTimeline(notes, getSortKeyChain(sortConfig), sortConfig.order),
+    [notes, sortConfig]
+  );
+
+  return (
+    <div className="virtual-list-container note-timeline" ref={containerRef}>
+      <Virtuoso
+        data={items}
+        computeItemKey={(_index, item) => (item.type === "note" ? item.note.path : item.key)}
+        itemContent={(_index, item) => renderItem(item, plugin)}
+        className="note-timeline-list"
+        style={{ height: "100%" }}
+        overscan={5}
+        increaseViewportBy={200}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import { act, render } from "@testing-library/react";
+import { Component, MarkdownRenderer } from "obsidian";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import type CardExplorerPlugin from "../../main";
+import { RenderedPreview } from "./RenderedPreview";
+
+vi.mock("../../core/errors/errorHandling", async () => {
+  const actual = await vi.importActual<typeof import("../../core/errors/errorHandling")>(
+    "../../core/errors/errorHandling"
+  );
+  return { ...actual, handleError: vi.fn() };
+});
+
+const plugin = { app: {} } as unknown as CardExplorerPlugin;
+
+describe("RenderedPreview", () => {
+  type GlobalWithIntersectionObserver = typeof globalThis & {
+    IntersectionObserver?: typeof IntersectionObserver;
+  };
+  const g = globalThis as GlobalWithIntersectionObserver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(g, "IntersectionObserver");
+  });
+
+  it("renders the markdown for the note right away without IntersectionObserver", async () => {
+    const renderSpy = vi.spyOn(MarkdownRenderer, "render");
+    const { container } = render(
+      <RenderedPreview markdown="**Bold**" sourcePath="Work/note.md" plugin={plugin} />
+    );
+    await act(async () => {});
+
+    expect(renderSpy).toHaveBeenCalledWith(
+      plugin.app,
+      "**Bold**",
+      container.firstChild,
+      "Work/note.md",
+      expect.any(Component)
+    );
+    expect(container.firstChild).toHaveClass("note-card-preview", "note-card-rendered");
+  });
+
+  it("waits until the preview comes into view", async () => {
+    let notify: IntersectionObserverCallback = () => {};
+    g.IntersectionObserver = class {
+      constructor(callback: IntersectionObserverCallback) {
+        notify = callback;
+      }
+      observe() {}
+      disconnect() {}
+    } as unknown as typeof IntersectionObserver;
+    const renderSpy = vi.spyOn(MarkdownRenderer, "render");
+
+    render(<RenderedPreview markdown="Text" sourcePath="note.md" plugin={plugin} />);
+    expect(renderSpy).not.toHaveBeenCalled();
+
+    await act(async () => {
+      notify([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+    });
+    expect(renderSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("unloads the rendered markdown on unmount", async () => {
+    const unloadSpy = vi.spyOn(Component.prototype, "unload");
+    const { container, unmount } = render(
+      <RenderedPreview markdown="Text" sourcePath="note.md" plugin={plugin} />
+    );
+    await act(async () => {});
+    const el = container.firstChild as HTMLElement;
+    expect(el).toHaveTextContent("Text");
+
+    unmount();
+
+    expect(unloadSpy).toHaveBeenCalledTimes(1);
+    expect(el).toBeEmptyDOMElement();
+  });
+
+  it("reports rendering failures", async () => {
+    const error = new Error("render failed");
+    vi.spyOn(MarkdownRenderer, "render").mockRejectedValue(error);
+
+    render(<RenderedPreview markdown="Text" sourcePath="note.md" plugin={plugin} />);
+    await act(async () => {});
+
+    expect(handleError).toHaveBeenCalledWith(error, ErrorCategory.UI, {
+      operation: "renderPreview",
+      notePath: "note.md",
+    });
+  });
+});
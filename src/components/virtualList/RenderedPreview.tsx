@@ -0,0 +1,62 @@
+import { Component, MarkdownRenderer } from "obsidian";
+import type React from "react";
+import { useEffect, useRef } from "react";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import { useInView } from "../../hooks/useInView";
+import type CardExplorerPlugin from "../../main";
+
+/**
+ * Props for the `RenderedPreview` component.
+ */
+interface RenderedPreviewProps {
+  /** Markdown excerpt of the note to render */
+  markdown: string;
+  /** Path of the note, used to resolve links and embeds */
+  sourcePath: string;
+  /** Plugin instance for accessing Obsidian APIs */
+  plugin: CardExplorerPlugin;
+}
+
+/**
+ * RenderedPreview
+ *
+ * Renders the beginning of a note as markdown with Obsidian's `MarkdownRenderer`.
+ *
+ * Design notes:
+ * - Rendering is lazy: it waits until the preview scrolls into view, so cards in the
+ *   overscan of the virtualized lists cost nothing until they are seen. Without
+ *   `IntersectionObserver` the preview renders right away.
+ * - Each render gets its own `Component`, unloaded when the excerpt changes or the
+ *   card unmounts, so embeds and post processors release what they hold.
+ * - The excerpt is bounded by the caller and clipped by CSS to the preview lines.
+ */
+export const RenderedPreview: React.FC<RenderedPreviewProps> = ({
+  markdown,
+  sourcePath,
+  plugin,
+}) => {
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Wait for the preview to come into view before rendering it
+  const isVisible = useInView(previewRef);
+
+  useEffect(() => {
+    const el = previewRef.current;
+    if (!el || !isVisible) return;
+    const component = new Component();
+    component.load();
+    MarkdownRenderer.render(plugin.app, markdown, el, sourcePath, component).catch((error) => {
+      handleError(error, ErrorCategory.UI, {
+        operation: "renderPreview",
+        notePath: sourcePath,
+      });
+    });
+    return () => {
+      component.unload();
+      el.replaceChildren();
+    };
+  }, [isVisible, markdown, sourcePath, plugin]);
+
+  return (
+    <div ref={previewRef} className="note-card-preview note-card-rendered markdown-rendered" />
+  );
+};
@@ -5,7 +5,16 @@ import "@testing-library/jest-dom";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type CardExplorerPlugin from "../../main";
 import { useCardExplorerStore } from "../../store/cardExplorerStore";
-import type { NoteData } from "../../types";
+import type {
+  BoardConfig,
+  CalendarMode,
+  CardDisplaySettings,
+  GroupByConfig,
+  LayoutMode,
+  NoteData,
+  SortConfig,
+  TableColumn,
+} from "../../types";
 import { ErrorFallback } from "./ErrorFallback";
 import { VirtualList } from "./VirtualList";
 
@@ -18,12 +27,31 @@ interface TestState {
   filters: {
     tags: string[];
     folders: string[];
-    filename: string;
+    filename: string[];
+    filenamePhrases: string[];
     dateRange: null;
     excludeTags: string[];
     excludeFolders: string[];
-    excludeFilenames: string[];
+    excludeFilename: string[];
   };
+  sortConfig: SortConfig;
+  layoutMode: LayoutMode;
+  groupBy: GroupByConfig;
+  collapsedGroups: string[];
+  tableColumns: TableColumn[];
+  boardConfig: BoardConfig;
+  calendarMode: CalendarMode;
+  cardDisplay: CardDisplaySettings;
+  pendingScrollAnchor: string | null;
+  setScrollAnchor: ReturnType<typeof vi.fn>;
+  clearPendingScrollAnchor: ReturnType<typeof vi.fn>;
+  toggleGroupCollapsed: ReturnType<typeof vi.fn>;
+  setSortConfig: ReturnType<typeof vi.fn>;
+  setTableColumns: ReturnType<typeof vi.fn>;
+  setBoardConfig: ReturnType<typeof vi.fn>;
+  setCalendarMode: ReturnType<typeof vi.fn>;
+  setLayoutMode: ReturnType<typeof vi.fn>;
+  updateFilters: ReturnType<typeof vi.fn>;
 }
 
 interface TestHookReturns {
@@ -42,10 +70,12 @@ const createMockNote = (id: string, title = `Note ${id}`): NoteData => ({
   title,
   path: `/note${id}.md`,
   preview: `Preview for ${title}`,
+  wordCount: 0,
   lastModified: new Date(),
   frontmatter: null,
   tags: [],
   folder: "",
+  backlinkCount: 0,
 });
 
 /**
@@ -64,12 +94,43 @@ const createTestState = (overrides: Partial<TestState> = {}): TestState => ({
   filters: {
     tags: [],
     folders: [],
-    filename: "",
+    filename: [],
+    filenamePhrases: [],
     dateRange: null,
     excludeTags: [],
     excludeFolders: [],
-    excludeFilenames: [],
+    excludeFilename: [],
   },
+  sortConfig: { key: "updated", order: "desc" },
+  layoutMode: "grid",
+  groupBy: { mode: "none" },
+  collapsedGroups: [],
+  tableColumns: [{ key: "filename" }, { key: "status" }],
+  boardConfig: { property: "status", columnOrder: [], hiddenColumns: [] },
+  calendarMode: "month",
+  cardDisplay: {
+    cardMinWidth: 292,
+    maxCardsPerRow: 5,
+    previewLines: 3,
+    density: "comfortable",
+    previewMode: "raw",
+    coverPlacement: "top",
+    coverPropertyKeys: ["cover"],
+    cardFields: [],
+    cardFieldStyle: "badges",
+    hiddenCardElements: [],
+    cardStyleRules: [],
+  },
+  pendingScrollAnchor: null,
+  setScrollAnchor: vi.fn(),
+  clearPendingScrollAnchor: vi.fn(),
+  toggleGroupCollapsed: vi.fn(),
+  setSortConfig: vi.fn(),
+  setTableColumns: vi.fn(),
+  setBoardConfig: vi.fn(),
+  setCalendarMode: vi.fn(),
+  setLayoutMode: vi.fn(),
+  updateFilters: vi.fn(),
   ...overrides,
 });
 
@@ -118,6 +179,44 @@ vi.mock("./VirtualizedNoteGrid", () => ({
   },
 }));
 
+const mockVirtualizedNoteTable = vi.fn();
+vi.mock("./VirtualizedNoteTable", () => ({
+  VirtualizedNoteTable: (props: any) => {
+    mockVirtualizedNoteTable(props);
+    return <div data-testid="virtualized-note-table">Table with {props.notes.length} notes</div>;
+  },
+}));
+
+const mockVirtualizedNoteMasonry = vi.fn();
+vi.mock("./VirtualizedNoteMasonry", () => ({
+  VirtualizedNoteMasonry: (props: any) => {
+    mockVirtualizedNoteMasonry(props);
+    return <div data-testid="virtualized-note-masonry">Masonry of {props.notes.length} notes</div>;
+  },
+}));
+
+const mockNoteCalendar = vi.fn();
+vi.mock("./NoteCalendar", () => ({
+  NoteCalendar: (props: any) => {
+    mockNoteCalendar(props);
+    return <div data-testid="note-calendar">Calendar of {props.notes.length} notes</div>;
+  },
+}));
+
+vi.mock("./NoteTimeline", () => ({
+  NoteTimeline: (props: any) => (
+    <div data-testid="note-timeline">Timeline of {props.notes.length} notes</div>
+  ),
+}));
+
+const mockNoteBoard = vi.fn();
+vi.mock("./NoteBoard", () => ({
+  NoteBoard: (props: any) => {
+    mockNoteBoard(props);
+    return <div data-testid="note-board">Board with {props.columns.length} columns</div>;
+  },
+}));
+
 vi.mock("./LoadingState", () => ({
   LoadingState: () => <div data-testid="loading-state">Loading notes...</div>,
 }));
@@ -154,11 +253,13 @@ const mockUseNoteGrid = vi.fn();
 const mockUseResponsiveRowSize = vi.fn();
 const mockUseRetryableRefreshNotes = vi.fn();
 const mockUseScrollToTopOnChange = vi.fn();
+const mockUseScrollToAnchor = vi.fn();
 
 vi.mock("../../hooks", () => ({
   useNoteGrid: (...args: any[]) => mockUseNoteGrid(...args),
-  useResponsiveRowSize: () => mockUseResponsiveRowSize(),
+  useResponsiveRowSize: (...args: unknown[]) => mockUseResponsiveRowSize(...args),
   useRetryableRefreshNotes: (...args: any[]) => mockUseRetryableRefreshNotes(...args),
+  useScrollToAnchor: (...args: any[]) => mockUseScrollToAnchor(...args),
   useScrollToTopOnChange: (...args: any[]) => mockUseScrollToTopOnChange(...args),
 }));
 
@@ -330,14 +431,29 @@ describe("VirtualList", () => {
 
     const hookTestCases: HookTestCase[] = [
       {
-        name: "calls useResponsiveRowSize hook",
+        name: "calls useResponsiveRowSize hook with the card width settings",
         setup: () => {
           mockUseCardExplorerStore.mockReturnValue(
-            createTestState({ filteredNotes: createMockNotes(1) })
+            createTestState({
+              filteredNotes: createMockNotes(1),
+              cardDisplay: {
+                cardMinWidth: 200,
+                maxCardsPerRow: 8,
+                previewLines: 3,
+                density: "comfortable",
+                previewMode: "raw",
+                coverPlacement: "top",
+                coverPropertyKeys: ["cover"],
+                cardFields: [],
+                cardFieldStyle: "badges",
+                hiddenCardElements: [],
+                cardStyleRules: [],
+              },
+            })
           );
         },
         expectation: () => {
-          expect(mockUseResponsiveRowSize).toHaveBeenCalled();
+          expect(mockUseResponsiveRowSize).toHaveBeenCalledWith(200, 8);
         },
       },
       {
@@ -381,7 +497,37 @@ describe("VirtualList", () => {
       renderVirtualList();
 
       // Assert
-      expect(mockUseNoteGrid).toHaveBeenCalledWith(mockNotes, rowSize);
+      expect(mockUseNoteGrid).toHaveBeenCalledWith(mockNotes, rowSize, [], []);
+    });
+
+    it("passes the note groups and collapsed groups to useNoteGrid when grouped", () => {
+      // Arrange
+      const [first, second] = createMockNotes(2);
+      const mockNotes = [
+        { ...first, folder: "Work" },
+        { ...second, folder: "Home" },
+      ];
+      mockUseCardExplorerStore.mockReturnValue(
+        createTestState({
+          filteredNotes: mockNotes,
+          groupBy: { mode: "folder" },
+          collapsedGroups: ["Home"],
+        })
+      );
+
+      // Act
+      renderVirtualList();
+
+      // Assert
+      expect(mockUseNoteGrid).toHaveBeenCalledWith(
+        mockNotes,
+        testHookReturns.rowSize,
+        [
+          { key: "Home", label: "Home", notes: [mockNotes[1]] },
+          { key: "Work", label: "Work", notes: [mockNotes[0]] },
+        ],
+        ["Home"]
+      );
     });
 
     it("calls useScrollToTopOnChange with correct parameters", () => {
@@ -503,11 +649,12 @@ describe("VirtualList", () => {
         filters: {
           tags: ["tag1"],
           folders: ["folder1"],
-          filename: "abc",
+          filename: ["abc"],
+          filenamePhrases: [],
           dateRange: null,
           excludeTags: [],
           excludeFolders: [],
-          excludeFilenames: [],
+          excludeFilename: [],
         },
       }) as any;
 
@@ -528,14 +675,269 @@ describe("VirtualList", () => {
         isLoading: mockState.isLoading,
         error: mockState.error,
         filters: mockState.filters,
+        sortConfig: mockState.sortConfig,
+        layoutMode: mockState.layoutMode,
+        groupBy: mockState.groupBy,
+        collapsedGroups: mockState.collapsedGroups,
+        tableColumns: mockState.tableColumns,
+        boardConfig: mockState.boardConfig,
+        calendarMode: mockState.calendarMode,
+        cardDisplay: mockState.cardDisplay,
+        pendingScrollAnchor: mockState.pendingScrollAnchor,
+        setScrollAnchor: mockState.setScrollAnchor,
+        clearPendingScrollAnchor: mockState.clearPendingScrollAnchor,
+        toggleGroupCollapsed: mockState.toggleGroupCollapsed,
+        setSortConfig: mockState.setSortConfig,
+        setTableColumns: mockState.setTableColumns,
+        setBoardConfig: mockState.setBoardConfig,
+        setCalendarMode: mockState.setCalendarMode,
+        setLayoutMode: mockState.setLayoutMode,
+        updateFilters: mockState.updateFilters,
       });
       // Ensure no unrelated keys slipped in
       expect(Object.keys(selected as Record<string, unknown>).sort()).toEqual([
+        "boardConfig",
+        "calendarMode",
+        "cardDisplay",
+        "clearPendingScrollAnchor",
+        "collapsedGroups",
         "error",
         "filteredNotes",
         "filters",
+        "groupBy",
         "isLoading",
+        "layoutMode",
+        "pendingScrollAnchor",
+        "setBoardConfig",
+        "setCalendarMode",
+        "setLayoutMode",
+        "setScrollAnchor",
+        "setSortConfig",
+        "setTableColumns",
+        "sortConfig",
+        "tableColumns",
+        "toggleGroupCollapsed",
+        "updateFilters",
       ]);
     });
   });
+
+  describe("Scroll anchor", () => {
+    const setupNotes = (state: Partial<TestState>) => {
+      const notes = createMockNotes(7);
+      const noteRows = calculateNoteRows(notes, testHookReturns.rowSize);
+      mockUseNoteGrid.mockReturnValue({ noteRows, totalRows: noteRows.length });
+      const testState = createTestState({ filteredNotes: notes, ...state });
+      mockUseCardExplorerStore.mockReturnValue(testState);
+      return testState;
+    };
+
+    it("scrolls to the row containing the restored anchor", () => {
+      const state = setupNotes({ pendingScrollAnchor: "/note5.md" });
+
+      renderVirtualList();
+
+      // Note 5 is the second card of the second row with 3 cards per row
+      expect(mockUseScrollToAnchor).toHaveBeenCalledWith(
+        expect.objectContaining({ current: null }),
+        1,
+        state.clearPendingScrollAnchor
+      );
+      // Scroll-to-top stays disabled while the anchor is pending
+      expect(mockUseScrollToTopOnChange).toHaveBeenLastCalledWith(
+        expect.anything(),
+        state.filters,
+        false
+      );
+    });
+
+    it("drops an anchor whose note is no longer listed", () => {
+      const state = setupNotes({ pendingScrollAnchor: "/deleted.md" });
+
+      renderVirtualList();
+
+      expect(mockUseScrollToAnchor).toHaveBeenCalledWith(
+        expect.anything(),
+        null,
+        expect.anything()
+      );
+      expect(state.clearPendingScrollAnchor).toHaveBeenCalled();
+    });
+
+    it("records the first note of the first visible row", () => {
+      const state = setupNotes({});
+
+      renderVirtualList();
+      const { onRangeChanged } = mockVirtualizedNoteGrid.mock.calls.at(-1)![0];
+      onRangeChanged({ startIndex: 2, endIndex: 2 });
+      onRangeChanged({ startIndex: 0, endIndex: 2 });
+
+      expect(state.setScrollAnchor).toHaveBeenNthCalledWith(1, "/note7.md");
+      expect(state.setScrollAnchor).toHaveBeenNthCalledWith(2, null);
+    });
+
+    it("does not record ranges while a restored anchor is pending", () => {
+      const state = setupNotes({ pendingScrollAnchor: "/note5.md" });
+
+      renderVirtualList();
+      const { onRangeChanged } = mockVirtualizedNoteGrid.mock.calls.at(-1)![0];
+      onRangeChanged({ startIndex: 0, endIndex: 2 });
+
+      expect(state.setScrollAnchor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Table layout", () => {
+    it("renders the table with one note per row and ungrouped notes", () => {
+      const notes = createMockNotes(4);
+      const state = createTestState({
+        filteredNotes: notes,
+        layoutMode: "table",
+        groupBy: { mode: "folder" },
+      });
+      mockUseCardExplorerStore.mockReturnValue(state);
+
+      renderVirtualList();
+
+      expect(screen.getByTestId("virtualized-note-table")).toHaveTextContent("Table with 4 notes");
+      expect(screen.queryByTestId("virtualized-note-grid")).not.toBeInTheDocument();
+      expect(mockUseNoteGrid).toHaveBeenCalledWith(notes, 1, [], []);
+      expect(mockVirtualizedNoteTable).toHaveBeenCalledWith(
+        expect.objectContaining({
+          notes,
+          columns: state.tableColumns,
+          sortConfig: state.sortConfig,
+          onSortChange: state.setSortConfig,
+          onColumnsChange: state.setTableColumns,
+        })
+      );
+    });
+  });
+
+  describe("Masonry layout", () => {
+    it("renders the masonry with one column per card of a grid row and tracks its range", () => {
+      const notes = createMockNotes(4);
+      const state = createTestState({ filteredNotes: notes, layoutMode: "masonry" });
+      mockUseCardExplorerStore.mockReturnValue(state);
+
+      renderVirtualList();
+
+      expect(screen.getByTestId("virtualized-note-masonry")).toHaveTextContent(
+        "Masonry of 4 notes"
+      );
+      expect(screen.queryByTestId("virtualized-note-grid")).not.toBeInTheDocument();
+      expect(mockUseNoteGrid).toHaveBeenCalledWith(notes, 1, [], []);
+      expect(mockVirtualizedNoteMasonry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          notes,
+          columnCount: 3,
+          onRangeChanged: expect.any(Function),
+        })
+      );
+    });
+  });
+
+  describe("Compact list", () => {
+    it("lists the notes one per row whatever the layout", () => {
+      const notes = createMockNotes(4);
+      mockUseCardExplorerStore.mockReturnValue(
+        createTestState({ filteredNotes: notes, layoutMode: "board" })
+      );
+
+      render(<VirtualList plugin={mockPlugin} compact={true} />);
+
+      expect(screen.getByTestId("virtualized-note-grid")).toBeInTheDocument();
+      expect(mockUseNoteGrid).toHaveBeenCalledWith(notes, 1, [], []);
+      expect(mockVirtualizedNoteGrid).toHaveBeenCalledWith(
+        expect.objectContaining({ compact: true, onRangeChanged: expect.any(Function) })
+      );
+    });
+  });
+
+  describe("Board layout", () => {
+    const createBoardNotes = () => [
+      { ...createMockNote("1"), frontmatter: { status: "todo" } },
+      { ...createMockNote("2"), frontmatter: { status: "done" } },
+      { ...createMockNote("3"), frontmatter: { status: "todo" } },
+    ];
+
+    it("renders a column per value of the board property", () => {
+      const notes = createBoardNotes();
+      mockUseCardExplorerStore.mockReturnValue(
+        createTestState({ filteredNotes: notes, layoutMode: "board", groupBy: { mode: "folder" } })
+      );
+
+      renderVirtualList();
+
+      expect(screen.getByTestId("note-board")).toHaveTextContent("Board with 2 columns");
+      expect(screen.queryByTestId("virtualized-note-grid")).not.toBeInTheDocument();
+      const { columns, property } = mockNoteBoard.mock.calls.at(-1)![0];
+      expect(property).toBe("status");
+      expect(columns.map((column: any) => column.notes)).toEqual([
+        [notes[1]],
+        [notes[0], notes[2]],
+      ]);
+    });
+
+    it("hides a column by adding it to the hidden columns", () => {
+      const state = createTestState({
+        filteredNotes: createBoardNotes(),
+        layoutMode: "board",
+        boardConfig: { property: "status", columnOrder: [], hiddenColumns: ["done"] },
+      });
+      mockUseCardExplorerStore.mockReturnValue(state);
+
+      renderVirtualList();
+      mockNoteBoard.mock.calls.at(-1)![0].onHideColumn("todo");
+
+      expect(state.setBoardConfig).toHaveBeenCalledWith({
+        property: "status",
+        columnOrder: [],
+        hiddenColumns: ["done", "todo"],
+      });
+    });
+
+    it("drops a pending scroll anchor, since board columns scroll on their own", () => {
+      const state = createTestState({
+        filteredNotes: createBoardNotes(),
+        layoutMode: "board",
+        pendingScrollAnchor: "/note1.md",
+      });
+      mockUseCardExplorerStore.mockReturnValue(state);
+
+      renderVirtualList();
+
+      expect(state.clearPendingScrollAnchor).toHaveBeenCalled();
+    });
+  });
+
+  describe("Calendar and timeline layouts", () => {
+    it("filters the grid to a day selected on the calendar", () => {
+      const state = createTestState({ filteredNotes: createMockNotes(2), layoutMode: "calendar" });
+      mockUseCardExplorerStore.mockReturnValue(state);
+
+      renderVirtualList();
+      expect(screen.getByTestId("note-calendar")).toHaveTextContent("Calendar of 2 notes");
+      const { calendarMode, onCalendarModeChange, onSelectDay } =
+        mockNoteCalendar.mock.calls.at(-1)![0];
+      const day = new Date(2024, 1, 14);
+      onSelectDay(day);
+
+      expect(calendarMode).toBe("month");
+      expect(onCalendarModeChange).toBe(state.setCalendarMode);
+      expect(state.updateFilters).toHaveBeenCalledWith({ dateRange: { type: "on", value: day } });
+      expect(state.setLayoutMode).toHaveBeenCalledWith("grid");
+    });
+
+    it("renders the timeline", () => {
+      mockUseCardExplorerStore.mockReturnValue(
+        createTestState({ filteredNotes: createMockNotes(3), layoutMode: "timeline" })
+      );
+
+      renderVirtualList();
+
+      expect(screen.getByTestId("note-timeline")).toHaveTextContent("Timeline of 3 notes");
+      expect(screen.queryByTestId("virtualized-note-grid")).not.toBeInTheDocument();
+    });
+  });
 });
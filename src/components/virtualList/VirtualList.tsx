@@ -1,20 +1,29 @@
 import type { FC, RefObject } from "react";
-import { useCallback, useEffect, useRef, useState } from "react";
-import type { VirtuosoHandle } from "react-virtuoso";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ListRange, VirtuosoHandle } from "react-virtuoso";
 import { useShallow } from "zustand/react/shallow";
 import { ErrorCategory } from "../../core/errors/errorHandling";
 import {
   useNoteGrid,
   useResponsiveRowSize,
   useRetryableRefreshNotes,
+  useScrollToAnchor,
   useScrollToTopOnChange,
 } from "../../hooks";
 import type CardExplorerPlugin from "../../main";
+import { buildBoardColumns } from "../../store/board";
 import { useCardExplorerStore } from "../../store/cardExplorerStore";
+import { groupNotes } from "../../store/grouping";
+import { getSortKeyChain } from "../../store/sorting";
 import { EmptyState } from "./EmptyState";
 import { ErrorFallback } from "./ErrorFallback";
 import { LoadingState } from "./LoadingState";
+import { NoteBoard } from "./NoteBoard";
+import { NoteCalendar } from "./NoteCalendar";
+import { NoteTimeline } from "./NoteTimeline";
 import { VirtualizedNoteGrid } from "./VirtualizedNoteGrid";
+import { VirtualizedNoteMasonry } from "./VirtualizedNoteMasonry";
+import { VirtualizedNoteTable } from "./VirtualizedNoteTable";
 
 /**
  * Props for VirtualList component
@@ -22,6 +31,8 @@ import { VirtualizedNoteGrid } from "./VirtualizedNoteGrid";
 interface VirtualListProps {
   /** Plugin instance for note operations and state management */
   plugin: CardExplorerPlugin;
+  /** Whether to list the notes one per row as compact cards, whatever the layout */
+  compact?: boolean;
 }
 
 /**
@@ -37,24 +48,116 @@ interface VirtualListProps {
  * - Responsive grid sizing based on container width
  * - Virtual scrolling for performance with large datasets
  * - Auto-scroll to top on filter changes
+ * - Scroll anchor tracking and restoration for per-leaf view state
+ * - Optional grouping with collapsible group headers
+ * - Masonry layout packing cards of different heights into columns
+ * - Table layout with one note per row
+ * - Board layout with a column per value of a frontmatter property
+ * - Calendar and timeline layouts placing notes by date
+ * - Compact list of one note per row for narrow views, keeping the chosen layout
+ *   for when the view is wide again
  * - Error handling with retry functionality
  * - Initial render tracking for UX optimizations
  */
-export const VirtualList: FC<VirtualListProps> = ({ plugin }) => {
-  const { filteredNotes, isLoading, error, filters } = useCardExplorerStore(
+export const VirtualList: FC<VirtualListProps> = ({ plugin, compact = false }) => {
+  const {
+    filteredNotes,
+    isLoading,
+    error,
+    filters,
+    sortConfig,
+    layoutMode,
+    groupBy,
+    collapsedGroups,
+    tableColumns,
+    boardConfig,
+    calendarMode,
+    cardDisplay,
+    pendingScrollAnchor,
+    setScrollAnchor,
+    clearPendingScrollAnchor,
+    toggleGroupCollapsed,
+    setSortConfig,
+    setTableColumns,
+    setBoardConfig,
+    setCalendarMode,
+    setLayoutMode,
+    updateFilters,
+  } = useCardExplorerStore(
     useShallow((state) => ({
       filteredNotes: state.filteredNotes,
       isLoading: state.isLoading,
       error: state.error,
       filters: state.filters,
+      sortConfig: state.sortConfig,
+      layoutMode: state.layoutMode,
+      groupBy: state.groupBy,
+      collapsedGroups: state.collapsedGroups,
+      tableColumns: state.tableColumns,
+      boardConfig: state.boardConfig,
+      calendarMode: state.calendarMode,
+      cardDisplay: state.cardDisplay,
+      pendingScrollAnchor: state.pendingScrollAnchor,
+      setScrollAnchor: state.setScrollAnchor,
+      clearPendingScrollAnchor: state.clearPendingScrollAnchor,
+      toggleGroupCollapsed: state.toggleGroupCollapsed,
+      setSortConfig: state.setSortConfig,
+      setTableColumns: state.setTableColumns,
+      setBoardConfig: state.setBoardConfig,
+      setCalendarMode: state.setCalendarMode,
+      setLayoutMode: state.setLayoutMode,
+      updateFilters: state.updateFilters,
     }))
   );
 
   const virtuosoRef = useRef<VirtuosoHandle>(null);
   // Track initial render to prevent unwanted scroll-to-top on component mount
   const [hasInitiallyRendered, setHasInitiallyRendered] = useState(false);
-  const { rowSize, ref: containerRef } = useResponsiveRowSize();
-  const { noteRows, totalRows } = useNoteGrid(filteredNotes, rowSize);
+  const { rowSize, ref: containerRef } = useResponsiveRowSize(
+    cardDisplay.cardMinWidth,
+    cardDisplay.maxCardsPerRow
+  );
+  // The compact list is the card grid with one card per row
+  const displayedLayout = compact ? "grid" : layoutMode;
+  const isTable = displayedLayout === "table";
+  const isMasonry = displayedLayout === "masonry";
+  const isBoard = displayedLayout === "board";
+  // The table and the masonry show ungrouped notes one by one, so their rows
+  // (and scroll anchors) are notes
+  const rowsAreNotes = isTable || isMasonry;
+  // Only the grid, the masonry and the table scroll as one list whose position is tracked
+  const tracksScrollAnchor = displayedLayout === "grid" || rowsAreNotes;
+  // Date groups follow the date shown on the cards, which comes from the sort key chain
+  const noteGroups = useMemo(
+    () =>
+      layoutMode === "grid"
+        ? groupNotes(filteredNotes, groupBy, getSortKeyChain(sortConfig), new Date())
+        : [],
+    [layoutMode, filteredNotes, groupBy, sortConfig]
+  );
+  const { noteRows, totalRows, groups } = useNoteGrid(
+    filteredNotes,
+    rowsAreNotes || compact ? 1 : rowSize,
+    noteGroups,
+    collapsedGroups
+  );
+  const boardColumns = useMemo(
+    () => (isBoard ? buildBoardColumns(filteredNotes, boardConfig) : []),
+    [isBoard, filteredNotes, boardConfig]
+  );
+  const handleHideBoardColumn = useCallback(
+    (key: string) =>
+      setBoardConfig({ ...boardConfig, hiddenColumns: [...boardConfig.hiddenColumns, key] }),
+    [boardConfig, setBoardConfig]
+  );
+  // Show the cards of a calendar day by filtering the grid to it
+  const handleSelectDay = useCallback(
+    (day: Date) => {
+      updateFilters({ dateRange: { type: "on", value: day } });
+      setLayoutMode("grid");
+    },
+    [updateFilters, setLayoutMode]
+  );
 
   // Set initial render flag only after first data load to avoid scroll interference
   useEffect(() => {
@@ -63,11 +166,53 @@ export const VirtualList: FC<VirtualListProps> = ({ plugin }) => {
     }
   }, [filteredNotes.length, hasInitiallyRendered]);
 
-  // Auto-scroll to top when filters change, but only after initial render
+  // Row containing the restored scroll anchor, or null until it can be located
+  // (also null while the anchor sits in a collapsed group, and in layouts
+  // without tracked rows)
+  const anchorRowIndex = useMemo(() => {
+    if (!pendingScrollAnchor || !tracksScrollAnchor) return null;
+    const rowIndex = noteRows.findIndex((row) =>
+      row.notes.some((note) => note.path === pendingScrollAnchor)
+    );
+    return rowIndex === -1 ? null : rowIndex;
+  }, [pendingScrollAnchor, tracksScrollAnchor, noteRows]);
+
+  // Drop an anchor whose note is no longer listed once notes are displayed
+  useEffect(() => {
+    if (pendingScrollAnchor && anchorRowIndex === null && !isLoading && filteredNotes.length > 0) {
+      clearPendingScrollAnchor();
+    }
+  }, [
+    pendingScrollAnchor,
+    anchorRowIndex,
+    isLoading,
+    filteredNotes.length,
+    clearPendingScrollAnchor,
+  ]);
+
+  useScrollToAnchor(
+    virtuosoRef as unknown as RefObject<VirtuosoHandle>,
+    anchorRowIndex,
+    clearPendingScrollAnchor
+  );
+
+  // Auto-scroll to top when filters change, but only after initial render and
+  // never while a restored scroll position is still being applied
   useScrollToTopOnChange(
     virtuosoRef as unknown as RefObject<VirtuosoHandle>,
     filters,
-    hasInitiallyRendered
+    hasInitiallyRendered && pendingScrollAnchor === null
+  );
+
+  // Track the first visible note so the scroll position can be saved with the leaf
+  const handleRangeChanged = useCallback(
+    (range: ListRange) => {
+      // Keep the restored anchor until the list has scrolled to it
+      if (pendingScrollAnchor !== null) return;
+      const anchor = range.startIndex > 0 ? noteRows[range.startIndex]?.notes[0]?.path : null;
+      setScrollAnchor(anchor ?? null);
+    },
+    [pendingScrollAnchor, noteRows, setScrollAnchor]
   );
 
   const { retry } = useRetryableRefreshNotes(plugin);
@@ -109,14 +254,84 @@ export const VirtualList: FC<VirtualListProps> = ({ plugin }) => {
     return <EmptyState />;
   }
 
+  if (isTable) {
+    return (
+      <VirtualizedNoteTable
+        notes={filteredNotes}
+        columns={tableColumns}
+        sortConfig={sortConfig}
+        plugin={plugin}
+        virtuosoRef={virtuosoRef}
+        containerRef={containerRef}
+        onRangeChanged={handleRangeChanged}
+        onSortChange={setSortConfig}
+        onColumnsChange={setTableColumns}
+      />
+    );
+  }
+
+  if (isMasonry) {
+    return (
+      <VirtualizedNoteMasonry
+        notes={filteredNotes}
+        columnCount={rowSize}
+        plugin={plugin}
+        virtuosoRef={virtuosoRef}
+        containerRef={containerRef}
+        onRangeChanged={handleRangeChanged}
+      />
+    );
+  }
+
+  if (isBoard) {
+    return (
+      <NoteBoard
+        columns={boardColumns}
+        property={boardConfig.property}
+        plugin={plugin}
+        containerRef={containerRef}
+        onHideColumn={handleHideBoardColumn}
+      />
+    );
+  }
+
+  if (displayedLayout === "calendar") {
+    return (
+      <NoteCalendar
+        notes={filteredNotes}
+        sortConfig={sortConfig}
+        calendarMode={calendarMode}
+        plugin={plugin}
+        containerRef={containerRef}
+        onCalendarModeChange={setCalendarMode}
+        onSelectDay={handleSelectDay}
+      />
+    );
+  }
+
+  if (displayedLayout === "timeline") {
+    return (
+      <NoteTimeline
+        notes={filteredNotes}
+        sortConfig={sortConfig}
+        plugin={plugin}
+        containerRef={containerRef}
+      />
+    );
+  }
+
   // Render the main virtualized grid with notes
   return (
     <VirtualizedNoteGrid
+      compact={compact}
       noteRows={noteRows}
       totalRows={totalRows}
       plugin={plugin}
       virtuosoRef={virtuosoRef}
       containerRef={containerRef}
+      onRangeChanged={handleRangeChanged}
+      groups={groups}
+      onToggleGroup={toggleGroupCollapsed}
     />
   );
 };
@@ -1,14 +1,15 @@
 import "@testing-library/jest-dom";
-import { render } from "@testing-library/react";
+import { fireEvent, render } from "@testing-library/react";
 import React from "react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { GridRow } from "../../hooks/useNoteGrid";
+import type { GridGroup, GridRow } from "../../hooks/useNoteGrid";
 import type CardExplorerPlugin from "../../main";
 import type { NoteData } from "../../types";
 import { VirtualizedNoteGrid } from "./VirtualizedNoteGrid";
 
 // Mock for capturing Virtuoso props
 let capturedVirtuosoProps: any = {};
+let capturedGroupedProps: any = {};
 let capturedRef: any = {};
 
 // Mock react-virtuoso to capture props and actually use custom components
@@ -50,6 +51,19 @@ vi.mock("react-virtuoso", () => ({
       </div>
     );
   }),
+  GroupedVirtuoso: React.forwardRef((props: any, ref: any) => {
+    capturedGroupedProps = { ...props };
+    capturedRef = ref;
+
+    return (
+      <div data-testid="grouped-virtuoso-component">
+        {props.groupCounts.map((_: number, index: number) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Using index for testing purposes
+          <div key={`group-${index}`}>{props.groupContent(index)}</div>
+        ))}
+      </div>
+    );
+  }),
 }));
 
 // Mock NoteGridRow component
@@ -87,10 +101,12 @@ const createMockNote = (id: string, title: string): NoteData => ({
   title,
   path: `/note${id}.md`,
   preview: `Preview for ${title}`,
+  wordCount: 0,
   lastModified: new Date(),
   frontmatter: null,
   tags: [],
   folder: "",
+  backlinkCount: 0,
 });
 
 describe("VirtualizedNoteGrid", () => {
@@ -101,6 +117,7 @@ describe("VirtualizedNoteGrid", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     capturedVirtuosoProps = {};
+    capturedGroupedProps = {};
   });
 
   describe("Virtuoso Props Validation", () => {
@@ -223,4 +240,69 @@ describe("VirtualizedNoteGrid", () => {
       expect(getByTestId("note-grid-row-2")).toBeInTheDocument();
     });
   });
+
+  describe("Compact list", () => {
+    it("should mark the list as compact and expect shorter rows", () => {
+      const { container } = render(
+        <VirtualizedNoteGrid
+          noteRows={createMockGridRows(3, 1)}
+          totalRows={3}
+          plugin={mockPlugin}
+          virtuosoRef={mockVirtuosoRef}
+          containerRef={mockContainerRef}
+          compact={true}
+        />
+      );
+
+      expect(container.firstChild).toHaveClass("virtual-list-container", "card-view-compact");
+      expect(capturedVirtuosoProps.defaultItemHeight).toBe(64);
+    });
+  });
+
+  describe("Grouped mode", () => {
+    const groups: GridGroup[] = [
+      { key: "a", label: "Alpha", noteCount: 4, rowCount: 2, isCollapsed: false },
+      { key: "b", label: "Beta", noteCount: 2, rowCount: 0, isCollapsed: true },
+    ];
+
+    it("should render GroupedVirtuoso with the row count of each group", () => {
+      const { getByText, queryByTestId } = render(
+        <VirtualizedNoteGrid
+          noteRows={createMockGridRows(4, 2)}
+          totalRows={2}
+          plugin={mockPlugin}
+          virtuosoRef={mockVirtuosoRef}
+          containerRef={mockContainerRef}
+          groups={groups}
+          onToggleGroup={vi.fn()}
+        />
+      );
+
+      expect(queryByTestId("virtuoso-component")).not.toBeInTheDocument();
+      expect(capturedGroupedProps.groupCounts).toEqual([2, 0]);
+      expect(capturedGroupedProps.itemContent).toBeTypeOf("function");
+      expect(capturedRef).toBe(mockVirtuosoRef);
+      expect(getByText("Alpha")).toBeInTheDocument();
+      expect(getByText("Beta")).toBeInTheDocument();
+    });
+
+    it("should toggle a group when its header is clicked", () => {
+      const onToggleGroup = vi.fn();
+      const { getByText } = render(
+        <VirtualizedNoteGrid
+          noteRows={createMockGridRows(4, 2)}
+          totalRows={2}
+          plugin={mockPlugin}
+          virtuosoRef={mockVirtuosoRef}
+          containerRef={mockContainerRef}
+          groups={groups}
+          onToggleGroup={onToggleGroup}
+        />
+      );
+
+      fireEvent.click(getByText("Beta"));
+
+      expect(onToggleGroup).toHaveBeenCalledWith("b");
+    });
+  });
 });
@@ -1,8 +1,15 @@
 import React, { useCallback } from "react";
-import { Virtuoso, type VirtuosoHandle } from "react-virtuoso";
-import type { GridRow } from "../../hooks/useNoteGrid";
+import {
+  GroupedVirtuoso,
+  type GroupedVirtuosoHandle,
+  type ListRange,
+  Virtuoso,
+  type VirtuosoHandle,
+} from "react-virtuoso";
+import type { GridGroup, GridRow } from "../../hooks/useNoteGrid";
 import type CardExplorerPlugin from "../../main";
 import { NoteGridRow } from "./NoteGridRow";
+import { NoteGroupHeader } from "./NoteGroupHeader";
 
 /**
  * Props for VirtualizedNoteGrid component
@@ -18,8 +25,33 @@ export interface VirtualizedNoteGridProps {
   virtuosoRef: React.Ref<VirtuosoHandle>;
   /** Ref to the container element for measuring and positioning */
   containerRef: React.Ref<HTMLDivElement>;
+  /** Called when the range of visible rows changes, used to track the scroll anchor */
+  onRangeChanged?: (range: ListRange) => void;
+  /** Group headers when the notes are grouped; noteRows then holds the rows of every group in order */
+  groups?: GridGroup[];
+  /** Called with a group key when its header is clicked */
+  onToggleGroup?: (groupKey: string) => void;
+  /** Whether the rows are a compact list: one small card per row showing the title and a preview line */
+  compact?: boolean;
 }
 
+/**
+ * Custom list and item components shared by the flat and grouped grids
+ */
+const GRID_COMPONENTS = {
+  // Custom List component for additional CSS styling
+  List: React.forwardRef<HTMLDivElement>((props, ref) => (
+    <div ref={ref} {...props} className="virtual-grid-list" />
+  )),
+
+  // Custom Item wrapper for row-level styling
+  Item: ({ children, ...props }: React.PropsWithChildren) => (
+    <div {...props} className="virtual-grid-row-wrapper">
+      {children}
+    </div>
+  ),
+};
+
 /**
  * High-performance virtualized grid component for displaying note cards
  *
@@ -31,6 +63,7 @@ export interface VirtualizedNoteGridProps {
  * - Virtual scrolling with configurable overscan for smooth scrolling
  * - Memoized row rendering to prevent unnecessary re-renders
  * - Responsive height calculation and viewport management
+ * - Grouped mode with sticky, collapsible group headers (react-virtuoso's GroupedVirtuoso)
  */
 export const VirtualizedNoteGrid: React.FC<VirtualizedNoteGridProps> = ({
   noteRows,
@@ -38,6 +71,10 @@ export const VirtualizedNoteGrid: React.FC<VirtualizedNoteGridProps> = ({
   plugin,
   virtuosoRef,
   containerRef,
+  onRangeChanged,
+  groups = [],
+  onToggleGroup,
+  compact = false,
 }) => {
   /**
    * Renders a single row of the virtual grid
@@ -51,32 +88,44 @@ export const VirtualizedNoteGrid: React.FC<VirtualizedNoteGridProps> = ({
     [noteRows, plugin]
   );
 
-  return (
-    <div className="virtual-list-container" ref={containerRef}>
-      <Virtuoso
-        ref={virtuosoRef}
-        totalCount={totalRows}
-        itemContent={renderNoteRow}
-        className="virtual-grid"
-        style={{ height: "100%" }}
-        components={{
-          // Custom List component for additional CSS styling
-          List: React.forwardRef<HTMLDivElement>((props, ref) => (
-            <div ref={ref} {...props} className="virtual-grid-list" />
-          )),
+  /**
+   * Renders the sticky header of a group
+   */
+  const renderGroupHeader = useCallback(
+    (index: number) => (
+      <NoteGroupHeader group={groups[index]} onToggle={onToggleGroup ?? (() => {})} />
+    ),
+    [groups, onToggleGroup]
+  );
+
+  const sharedProps = {
+    itemContent: renderNoteRow,
+    rangeChanged: onRangeChanged,
+    className: "virtual-grid",
+    style: { height: "100%" },
+    components: GRID_COMPONENTS,
+    // Performance optimizations for smooth scrolling
+    overscan: 5, // Pre-render 5 items above and below viewport
+    increaseViewportBy: 200, // Extend virtual viewport by 200px
+    defaultItemHeight: compact ? 64 : 192, // Estimated row height for initial render
+  };
 
-          // Custom Item wrapper for row-level styling
-          Item: ({ children, ...props }) => (
-            <div {...props} className="virtual-grid-row-wrapper">
-              {children}
-            </div>
-          ),
-        }}
-        // Performance optimizations for smooth scrolling
-        overscan={5} // Pre-render 5 items above and below viewport
-        increaseViewportBy={200} // Extend virtual viewport by 200px
-        defaultItemHeight={192} // Estimated row height for initial render
-      />
+  return (
+    <div
+      className={`virtual-list-container ${compact ? "card-view-compact" : ""}`}
+      ref={containerRef}
+    >
+      {groups.length > 0 ? (
+        <GroupedVirtuoso
+          // Both handles provide scrollToIndex with row indexes, which is all the list uses
+          ref={virtuosoRef as React.Ref<GroupedVirtuosoHandle>}
+          groupCounts={groups.map((group) => group.rowCount)}
+          groupContent={renderGroupHeader}
+          {...sharedProps}
+        />
+      ) : (
+        <Virtuoso ref={virtuosoRef} totalCount={totalRows} {...sharedProps} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,148 @@
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { createRef } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type CardExplorerPlugin from "../../main";
+import type { NoteData } from "../../types";
+import { type MasonryScrollHandle, VirtualizedNoteMasonry } from "./VirtualizedNoteMasonry";
+
+vi.mock("./NoteCard", () => ({
+  NoteCard: ({ note }: { note: NoteData }) => <div data-testid="note-card">{note.title}</div>,
+}));
+
+const createMockNote = (index: number): NoteData => ({
+  file: {} as any,
+  title: `Note ${index}`,
+  path: `note-${index}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 1),
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+/** Card heights by note path; cards not listed measure 100px */
+let cardHeights: Record<string, number> = {};
+
+describe("VirtualizedNoteMasonry", () => {
+  const onRangeChanged = vi.fn();
+
+  const renderMasonry = (notes: NoteData[], virtuosoRef = createRef<MasonryScrollHandle>()) => {
+    const result = render(
+      <VirtualizedNoteMasonry
+        notes={notes}
+        columnCount={2}
+        plugin={{} as CardExplorerPlugin}
+        virtuosoRef={virtuosoRef}
+        containerRef={{ current: null }}
+        onRangeChanged={onRangeChanged}
+      />
+    );
+    const scroller = result.container.querySelector(".note-masonry-scroller") as HTMLElement;
+    return { ...result, scroller, virtuosoRef };
+  };
+
+  /** Rendered cards in DOM order with their positions */
+  const renderedItems = () =>
+    Array.from(document.querySelectorAll<HTMLElement>(".note-masonry-item")).map((item) => [
+      item.textContent,
+      item.style.top,
+      item.style.left,
+    ]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cardHeights = {};
+    // jsdom does not lay out elements, so give cards and the scroller their sizes
+    vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockImplementation(function (
+      this: HTMLElement
+    ) {
+      const path = this.dataset.path;
+      return path ? (cardHeights[path] ?? 100) : 0;
+    });
+    vi.spyOn(HTMLElement.prototype, "clientHeight", "get").mockImplementation(function (
+      this: HTMLElement
+    ) {
+      return this.classList.contains("note-masonry-scroller") ? 500 : 0;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("packs measured cards into the shortest column, in note order", () => {
+    cardHeights = { "note-0.md": 300 };
+    renderMasonry([0, 1, 2, 3, 4].map(createMockNote));
+
+    expect(renderedItems()).toEqual([
+      ["Note 0", "0px", "0%"],
+      ["Note 1", "0px", "50%"],
+      ["Note 2", "112px", "50%"],
+      ["Note 3", "224px", "50%"],
+      ["Note 4", "312px", "0%"],
+    ]);
+  });
+
+  it("renders only the cards near the viewport", () => {
+    renderMasonry(Array.from({ length: 100 }, (_, index) => createMockNote(index)));
+
+    // Rows of 100px cards with 12px gaps start before the viewport bottom (500px) plus overscan
+    expect(screen.getAllByTestId("note-card")).toHaveLength(18);
+    expect(screen.queryByText("Note 18")).not.toBeInTheDocument();
+  });
+
+  it("scrolls to a note by its index", () => {
+    cardHeights = { "note-0.md": 300 };
+    const { scroller, virtuosoRef } = renderMasonry([0, 1, 2, 3, 4].map(createMockNote));
+    scroller.scrollTo = vi.fn();
+
+    virtuosoRef.current?.scrollToIndex({ index: 4, align: "start", behavior: "auto" });
+
+    expect(scroller.scrollTo).toHaveBeenCalledWith({ top: 312, behavior: "auto" });
+  });
+
+  it("reports the notes inside the viewport while scrolling", () => {
+    cardHeights = { "note-0.md": 300 };
+    const { scroller } = renderMasonry(
+      Array.from({ length: 20 }, (_, index) => createMockNote(index))
+    );
+    // Cards starting above the viewport bottom (500px) once measured
+    expect(onRangeChanged).toHaveBeenLastCalledWith({ startIndex: 0, endIndex: 7 });
+
+    scroller.scrollTop = 300;
+    fireEvent.scroll(scroller);
+
+    // Note 0 ends at 300px; note 3 is the first card below it
+    expect(onRangeChanged).toHaveBeenLastCalledWith(expect.objectContaining({ startIndex: 3 }));
+  });
+
+  it("stops observing cards once they scroll out of view", () => {
+    const observed = new Set<Element>();
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe = (element: Element) => observed.add(element);
+        unobserve = (element: Element) => observed.delete(element);
+        disconnect = () => observed.clear();
+      }
+    );
+    const { scroller } = renderMasonry(
+      Array.from({ length: 100 }, (_, index) => createMockNote(index))
+    );
+    const firstCard = document.querySelector('[data-path="note-0.md"]');
+    expect(observed.has(firstCard as Element)).toBe(true);
+
+    scroller.scrollTop = 3000;
+    fireEvent.scroll(scroller);
+
+    const renderedCards = Array.from(document.querySelectorAll(".note-masonry-item"));
+    expect(firstCard).not.toBeInTheDocument();
+    expect([...observed].filter((element) => element.matches(".note-masonry-item"))).toEqual(
+      renderedCards
+    );
+  });
+});
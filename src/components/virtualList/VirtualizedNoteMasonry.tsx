@@ -0,0 +1,213 @@
+import type React from "react";
+import { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
+import type { ListRange, VirtuosoHandle } from "react-virtuoso";
+import type CardExplorerPlugin from "../../main";
+import { ESTIMATED_MASONRY_CARD_HEIGHT, MASONRY_GAP } from "../../store/constants";
+import { getMasonryItemsInView, layoutMasonry } from "../../store/masonry";
+import type { NoteData } from "../../types";
+import { NoteCard } from "./NoteCard";
+
+/**
+ * Scrolling methods of a Virtuoso handle that the masonry provides
+ */
+export type MasonryScrollHandle = Pick<VirtuosoHandle, "scrollToIndex" | "scrollTo" | "scrollBy">;
+
+/**
+ * Props for VirtualizedNoteMasonry component
+ */
+export interface VirtualizedNoteMasonryProps {
+  /** Notes to display, in order */
+  notes: NoteData[];
+  /** Number of columns, from the container width */
+  columnCount: number;
+  /** Plugin instance for note operations */
+  plugin: CardExplorerPlugin;
+  /** Ref receiving a handle that scrolls to a note by its index */
+  virtuosoRef: React.Ref<MasonryScrollHandle>;
+  /** Ref to the container element for measuring and positioning */
+  containerRef: React.Ref<HTMLDivElement>;
+  /** Called when the range of visible notes changes, used to track the scroll anchor */
+  onRangeChanged?: (range: ListRange) => void;
+}
+
+/** Pixels rendered above and below the viewport so cards are ready before they scroll in (internal) */
+const OVERSCAN = 400;
+
+/**
+ * Virtualized masonry of note cards
+ *
+ * Packs cards into columns by their measured height, so cards with short previews
+ * do not leave gaps like in the rows of the card grid. Only the cards overlapping
+ * the viewport (plus an overscan) are rendered, absolutely positioned; cards that
+ * have not been measured yet are assumed to have an estimated height and move into
+ * place once they render.
+ *
+ * Rendered cards are kept in note order in the DOM, so the keyboard moves through
+ * them in sort order rather than column by column. The handle given to `virtuosoRef`
+ * only provides the scrolling methods; `scrollToIndex` takes note indexes, which is
+ * all the list uses for scroll-to-top and restoring the scroll anchor.
+ */
+export const VirtualizedNoteMasonry: React.FC<VirtualizedNoteMasonryProps> = ({
+  notes,
+  columnCount,
+  plugin,
+  virtuosoRef,
+  containerRef,
+  onRangeChanged,
+}) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  // Measured heights of the cards by note path
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const layout = useMemo(
+    () =>
+      layoutMasonry(
+        notes,
+        columnCount,
+        (note) => heights.get(note.path) ?? ESTIMATED_MASONRY_CARD_HEIGHT,
+        MASONRY_GAP
+      ),
+    [notes, columnCount, heights]
+  );
+
+  const renderedIndexes = useMemo(
+    () =>
+      getMasonryItemsInView(
+        layout.items,
+        viewport.top - OVERSCAN,
+        viewport.top + viewport.height + OVERSCAN
+      ),
+    [layout, viewport]
+  );
+
+  // Record card heights as they render or change size
+  const recordHeights = useCallback((measured: [string, number][]) => {
+    setHeights((current) => {
+      const changed = measured.filter(
+        ([path, height]) => height > 0 && current.get(path) !== height
+      );
+      return changed.length > 0 ? new Map([...current, ...changed]) : current;
+    });
+  }, []);
+
+  const resizeObserver = useMemo(
+    () =>
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver((entries) =>
+            recordHeights(
+              entries.map((entry) => [
+                (entry.target as HTMLElement).dataset.path ?? "",
+                (entry.target as HTMLElement).offsetHeight,
+              ])
+            )
+          ),
+    [recordHeights]
+  );
+  useEffect(() => () => resizeObserver?.disconnect(), [resizeObserver]);
+
+  // Observe each card while it is mounted; the cleanup runs when it scrolls out or unmounts
+  const measureItem = useCallback(
+    (element: HTMLDivElement) => {
+      recordHeights([[element.dataset.path ?? "", element.offsetHeight]]);
+      resizeObserver?.observe(element);
+      return () => resizeObserver?.unobserve(element);
+    },
+    [recordHeights, resizeObserver]
+  );
+
+  // Forget the heights of notes that are no longer listed
+  useEffect(() => {
+    setHeights((current) => {
+      const paths = new Set(notes.map((note) => note.path));
+      const kept = [...current].filter(([path]) => paths.has(path));
+      return kept.length === current.size ? current : new Map(kept);
+    });
+  }, [notes]);
+
+  const updateViewport = useCallback(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    setViewport((current) =>
+      current.top === scroller.scrollTop && current.height === scroller.clientHeight
+        ? current
+        : { top: scroller.scrollTop, height: scroller.clientHeight }
+    );
+  }, []);
+
+  useEffect(() => {
+    updateViewport();
+    const scroller = scrollerRef.current;
+    if (!scroller || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, [updateViewport]);
+
+  // Latest card positions, read by the scrolling handle
+  const itemsRef = useRef(layout.items);
+  itemsRef.current = layout.items;
+
+  // Report the notes inside the viewport, without the overscan, as the view
+  // scrolls and as measured cards move into place
+  const lastRangeRef = useRef<ListRange | null>(null);
+  useEffect(() => {
+    if (!onRangeChanged || viewport.height === 0) return;
+    const visible = getMasonryItemsInView(
+      layout.items,
+      viewport.top,
+      viewport.top + viewport.height
+    );
+    if (visible.length === 0) return;
+    const range = { startIndex: visible[0], endIndex: visible[visible.length - 1] };
+    const last = lastRangeRef.current;
+    if (last?.startIndex !== range.startIndex || last?.endIndex !== range.endIndex) {
+      lastRangeRef.current = range;
+      onRangeChanged(range);
+    }
+  }, [layout, viewport, onRangeChanged]);
+
+  useImperativeHandle(
+    virtuosoRef,
+    () => ({
+      scrollToIndex: (location) => {
+        const { index, behavior } =
+          typeof location === "number" ? { index: location, behavior: undefined } : location;
+        const item = itemsRef.current[index === "LAST" ? itemsRef.current.length - 1 : index];
+        scrollerRef.current?.scrollTo({ top: item?.top ?? 0, behavior });
+      },
+      scrollTo: (options) => scrollerRef.current?.scrollTo(options),
+      scrollBy: (options) => scrollerRef.current?.scrollBy(options),
+    }),
+    []
+  );
+
+  return (
+    <div className="virtual-list-container note-masonry-container" ref={containerRef}>
+      <div className="note-masonry-scroller" ref={scrollerRef} onScroll={updateViewport}>
+        <div className="note-masonry" style={{ height: layout.height }}>
+          {renderedIndexes.map((index) => {
+            const { note, column, top } = layout.items[index];
+            return (
+              <div
+                key={note.path}
+                ref={measureItem}
+                data-path={note.path}
+                data-index={index}
+                className="note-masonry-item"
+                style={{
+                  top,
+                  left: `${(column * 100) / Math.max(1, columnCount)}%`,
+                  width: `${100 / Math.max(1, columnCount)}%`,
+                }}
+              >
+                <NoteCard note={note} plugin={plugin} />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
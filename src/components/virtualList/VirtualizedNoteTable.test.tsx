@@ -0,0 +1,172 @@
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type CardExplorerPlugin from "../../main";
+import type { NoteData, SortConfig, TableColumn } from "../../types";
+import { VirtualizedNoteTable } from "./VirtualizedNoteTable";
+
+// Mock for capturing TableVirtuoso props
+let capturedTableProps: any = {};
+let capturedRef: any = {};
+
+// Mock react-virtuoso to render every row with the provided header, row component and cells
+vi.mock("react-virtuoso", () => ({
+  TableVirtuoso: React.forwardRef((props: any, ref: any) => {
+    capturedTableProps = { ...props };
+    capturedRef = ref;
+    const TableRow = props.components.TableRow;
+
+    return (
+      <table data-testid="table-virtuoso">
+        <thead>{props.fixedHeaderContent()}</thead>
+        <tbody>
+          {props.data.map((item: NoteData, index: number) => (
+            <TableRow key={item.path} item={item} context={props.context} data-index={index}>
+              {props.itemContent(index, item)}
+            </TableRow>
+          ))}
+        </tbody>
+      </table>
+    );
+  }),
+}));
+
+vi.mock("../../core/errors/errorHandling", () => ({
+  ErrorCategory: { API: "API" },
+  handleError: vi.fn(),
+}));
+
+const createMockNote = (title: string, overrides: Partial<NoteData> = {}): NoteData => ({
+  file: { path: `${title}.md` } as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 1),
+  frontmatter: null,
+  tags: [],
+  folder: "Work",
+  backlinkCount: 0,
+  ...overrides,
+});
+
+describe("VirtualizedNoteTable", () => {
+  const openFile = vi.fn();
+  const mockPlugin = {
+    app: { workspace: { getLeaf: () => ({ openFile }) } },
+  } as unknown as CardExplorerPlugin;
+  const mockVirtuosoRef = { current: null };
+  const columns: TableColumn[] = [{ key: "filename", width: 240 }, { key: "status" }];
+  const sortConfig: SortConfig = { key: "filename", order: "asc" };
+  const notes = [
+    createMockNote("Alpha", { frontmatter: { status: "open" } }),
+    createMockNote("Beta", { frontmatter: { status: "done" } }),
+  ];
+
+  const renderTable = (props: Partial<React.ComponentProps<typeof VirtualizedNoteTable>> = {}) =>
+    render(
+      <VirtualizedNoteTable
+        notes={notes}
+        columns={columns}
+        sortConfig={sortConfig}
+        plugin={mockPlugin}
+        virtuosoRef={mockVirtuosoRef}
+        containerRef={{ current: null }}
+        onSortChange={vi.fn()}
+        onColumnsChange={vi.fn()}
+        {...props}
+      />
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    capturedTableProps = {};
+  });
+
+  it("renders a header per column and a row per note", () => {
+    renderTable();
+
+    const headers = screen.getAllByRole("columnheader");
+    expect(headers.map((header) => header.textContent)).toEqual(["Title ↑", "status"]);
+    expect(headers[0]).toHaveStyle({ width: "240px" });
+    expect(headers[0]).toHaveAttribute("aria-sort", "ascending");
+    expect(headers[1]).toHaveAttribute("aria-sort", "none");
+    expect(screen.getAllByRole("cell").map((cell) => cell.textContent)).toEqual([
+      "Alpha",
+      "open",
+      "Beta",
+      "done",
+    ]);
+    expect(capturedTableProps.data).toBe(notes);
+    expect(capturedRef).toBe(mockVirtuosoRef);
+  });
+
+  it("sorts by a column when its header is clicked", () => {
+    const onSortChange = vi.fn();
+    renderTable({ onSortChange });
+
+    fireEvent.click(screen.getByRole("button", { name: "Title" }));
+    fireEvent.click(screen.getByRole("button", { name: "status" }));
+
+    expect(onSortChange).toHaveBeenNthCalledWith(1, { key: "filename", order: "desc" });
+    expect(onSortChange).toHaveBeenNthCalledWith(2, { key: "status", order: "asc" });
+  });
+
+  it("opens a note when its row is clicked", () => {
+    renderTable();
+
+    fireEvent.click(screen.getByRole("row", { name: "Open note: Beta" }));
+
+    expect(openFile).toHaveBeenCalledWith(notes[1].file);
+  });
+
+  it("commits the new width when a column resize ends", () => {
+    const onColumnsChange = vi.fn();
+    const { container } = renderTable({ onColumnsChange });
+    const resizer = container.querySelectorAll(".note-table-resizer")[1];
+
+    // jsdom lacks PointerEvent, so pointer events are dispatched as mouse events carrying clientX
+    fireEvent(resizer, new MouseEvent("pointerdown", { bubbles: true, clientX: 100 }));
+    fireEvent(document, new MouseEvent("pointermove", { clientX: 150 }));
+    expect(screen.getAllByRole("columnheader")[1]).toHaveStyle({ width: "210px" });
+    expect(onColumnsChange).not.toHaveBeenCalled();
+
+    fireEvent(document, new MouseEvent("pointerup", { clientX: 140 }));
+
+    expect(onColumnsChange).toHaveBeenCalledWith([
+      { key: "filename", width: 240 },
+      { key: "status", width: 200 },
+    ]);
+  });
+
+  it("commits the last width when a column resize is cancelled", () => {
+    const onColumnsChange = vi.fn();
+    const { container } = renderTable({ onColumnsChange });
+    const resizer = container.querySelectorAll(".note-table-resizer")[1];
+
+    fireEvent(resizer, new MouseEvent("pointerdown", { bubbles: true, clientX: 100 }));
+    fireEvent(document, new MouseEvent("pointermove", { clientX: 150 }));
+    fireEvent(document, new MouseEvent("pointercancel", { clientX: 0 }));
+
+    expect(onColumnsChange).toHaveBeenCalledWith([
+      { key: "filename", width: 240 },
+      { key: "status", width: 210 },
+    ]);
+    fireEvent(document, new MouseEvent("pointerup", { clientX: 140 }));
+    expect(onColumnsChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops listening for a column resize when the table unmounts", () => {
+    const onColumnsChange = vi.fn();
+    const { container, unmount } = renderTable({ onColumnsChange });
+    const resizer = container.querySelectorAll(".note-table-resizer")[1];
+
+    fireEvent(resizer, new MouseEvent("pointerdown", { bubbles: true, clientX: 100 }));
+    unmount();
+    fireEvent(document, new MouseEvent("pointermove", { clientX: 150 }));
+    fireEvent(document, new MouseEvent("pointerup", { clientX: 140 }));
+
+    expect(onColumnsChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  type ListRange,
+  type TableComponents,
+  TableVirtuoso,
+  type TableVirtuosoHandle,
+  type VirtuosoHandle,
+} from "react-virtuoso";
+import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
+import type CardExplorerPlugin from "../../main";
+import { DEFAULT_TABLE_COLUMN_WIDTH, MIN_TABLE_COLUMN_WIDTH } from "../../store/constants";
+import {
+  getCellText,
+  getColumnLabel,
+  getColumnSortKey,
+  resizeColumn,
+  sortByColumn,
+} from "../../store/table";
+import type { NoteData, SortConfig, TableColumn } from "../../types";
+
+/**
+ * Props for VirtualizedNoteTable component
+ */
+export interface VirtualizedNoteTableProps {
+  /** Notes to display, one per row */
+  notes: NoteData[];
+  /** Columns of the table */
+  columns: TableColumn[];
+  /** Sort configuration of the view, shown on the sorted column's header */
+  sortConfig: SortConfig;
+  /** Plugin instance for note operations */
+  plugin: CardExplorerPlugin;
+  /** Ref to the Virtuoso instance for programmatic control */
+  virtuosoRef: React.Ref<VirtuosoHandle>;
+  /** Ref to the container element for measuring and positioning */
+  containerRef: React.Ref<HTMLDivElement>;
+  /** Called when the range of visible rows changes, used to track the scroll anchor */
+  onRangeChanged?: (range: ListRange) => void;
+  /** Called with the new sort configuration when a column header is clicked */
+  onSortChange: (sortConfig: SortConfig) => void;
+  /** Called with the new columns when a column is resized */
+  onColumnsChange: (columns: TableColumn[]) => void;
+}
+
+/**
+ * Context passed to the table's row component (internal)
+ */
+interface NoteTableContext {
+  /** Open a note in the active pane */
+  openNote: (note: NoteData) => void;
+}
+
+/**
+ * Custom table components; rows open their note when clicked or activated with Enter (internal)
+ */
+const TABLE_COMPONENTS: TableComponents<NoteData, NoteTableContext> = {
+  TableRow: ({ item, context, ...props }) => (
+    <tr
+      {...props}
+      className="note-table-row"
+      onClick={() => context.openNote(item)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") context.openNote(item);
+      }}
+      tabIndex={0}
+      aria-label={`Open note: ${item.title}`}
+    />
+  ),
+};
+
+/**
+ * Virtualized table of notes
+ *
+ * Shows one note per row with the view's columns, using react-virtuoso's TableVirtuoso
+ * so that only visible rows are rendered. Clicking a row opens its note. Column headers
+ * sort the view when clicked and can be resized by dragging their right edge; the new
+ * width is committed when the drag ends so the view state is not saved on every pointer move.
+ */
+export const VirtualizedNoteTable: React.FC<VirtualizedNoteTableProps> = ({
+  notes,
+  columns,
+  sortConfig,
+  plugin,
+  virtuosoRef,
+  containerRef,
+  onRangeChanged,
+  onSortChange,
+  onColumnsChange,
+}) => {
+  const openNote = useCallback(
+    async (note: NoteData) => {
+      try {
+        // Open in the active pane to respect the user's workspace layout.
+        await plugin.app.workspace.getLeaf().openFile(note.file);
+      } catch (error) {
+        handleError(error, ErrorCategory.API, {
+          operation: "openFile",
+          notePath: note.path,
+          noteTitle: note.title,
+        });
+      }
+    },
+    [plugin]
+  );
+  const context = useMemo(() => ({ openNote }), [openNote]);
+
+  // Width of the column being resized, shown until the drag ends
+  const [resizing, setResizing] = useState<{ key: string; width: number } | null>(null);
+  // Removes the document listeners of the resize in progress, so they do not outlive the table
+  const stopResizeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopResizeRef.current?.(), []);
+
+  const getWidth = useCallback(
+    (column: TableColumn) =>
+      resizing?.key === column.key ? resizing.width : (column.width ?? DEFAULT_TABLE_COLUMN_WIDTH),
+    [resizing]
+  );
+
+  const handleResizeStart = useCallback(
+    (e: React.PointerEvent<HTMLElement>, column: TableColumn) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const startX = e.clientX;
+      const startWidth = column.width ?? DEFAULT_TABLE_COLUMN_WIDTH;
+      const widthAt = (clientX: number) =>
+        Math.max(MIN_TABLE_COLUMN_WIDTH, startWidth + clientX - startX);
+      // Listen on the header's own document, so resizing works in popout windows
+      const doc = e.currentTarget.ownerDocument;
+      let width = startWidth;
+
+      const stopResize = () => {
+        doc.removeEventListener("pointermove", handleMove);
+        doc.removeEventListener("pointerup", handleEnd);
+        doc.removeEventListener("pointercancel", handleEnd);
+        stopResizeRef.current = null;
+      };
+      const handleMove = (moveEvent: PointerEvent) => {
+        width = widthAt(moveEvent.clientX);
+        setResizing({ key: column.key, width });
+      };
+      // A cancelled pointer (e.g. a touch taken over by the system) has no reliable
+      // position, so the resize ends at the last width it moved to
+      const handleEnd = (endEvent: PointerEvent) => {
+        stopResize();
+        if (endEvent.type === "pointerup") width = widthAt(endEvent.clientX);
+        setResizing(null);
+        onColumnsChange(resizeColumn(columns, column.key, width));
+      };
+
+      stopResizeRef.current?.();
+      stopResizeRef.current = stopResize;
+      doc.addEventListener("pointermove", handleMove);
+      doc.addEventListener("pointerup", handleEnd);
+      doc.addEventListener("pointercancel", handleEnd);
+    },
+    [columns, onColumnsChange]
+  );
+
+  const renderHeader = useCallback(
+    () => (
+      <tr>
+        {columns.map((column) => {
+          const label = getColumnLabel(column.key);
+          const isSorted = sortConfig.key === getColumnSortKey(column.key);
+          const direction = sortConfig.order === "asc" ? "ascending" : "descending";
+          return (
+            <th
+              key={column.key}
+              className="note-table-header"
+              style={{ width: getWidth(column) }}
+              aria-sort={isSorted ? direction : "none"}
+            >
+              <button
+                type="button"
+                className="note-table-sort"
+                onClick={() => onSortChange(sortByColumn(sortConfig, column.key))}
+                title={`Sort by ${label}`}
+              >
+                {label}
+                {isSorted && (
+                  <span className="note-table-sort-indicator" aria-hidden="true">
+                    {sortConfig.order === "asc" ? " ↑" : " ↓"}
+                  </span>
+                )}
+              </button>
+              <span
+                className="note-table-resizer"
+                onPointerDown={(e) => handleResizeStart(e, column)}
+                title={`Resize ${label}`}
+                aria-hidden="true"
+              />
+            </th>
+          );
+        })}
+      </tr>
+    ),
+    [columns, sortConfig, getWidth, onSortChange, handleResizeStart]
+  );
+
+  const renderRow = useCallback(
+    (_index: number, note: NoteData) => (
+      <>
+        {columns.map((column) => {
+          const text = getCellText(note, column.key);
+          return (
+            <td key={column.key} className="note-table-cell" title={text}>
+              {text}
+            </td>
+          );
+        })}
+      </>
+    ),
+    [columns]
+  );
+
+  return (
+    <div className="virtual-list-container note-table-container" ref={containerRef}>
+      <TableVirtuoso
+        // Both handles provide scrollToIndex with row indexes, which is all the list uses
+        ref={virtuosoRef as React.Ref<TableVirtuosoHandle>}
+        data={notes}
+        context={context}
+        components={TABLE_COMPONENTS}
+        computeItemKey={(_index, note) => note.path}
+        fixedHeaderContent={renderHeader}
+        itemContent={renderRow}
+        rangeChanged={onRangeChanged}
+        className="note-table"
+        style={{ height: "100%" }}
+        overscan={5}
+        increaseViewportBy={200}
+      />
+    </div>
+  );
+};
@@ -32,7 +32,7 @@ const TEST_DATA = {
     lastFilters: {
       folders: ["work", "personal"],
       tags: ["important", "todo"],
-      filename: "search-term",
+      filename: ["search-term"],
       dateRange: { type: "within", value: "2024-01-01" },
     },
     sortConfig: {
@@ -46,6 +46,28 @@ const TEST_DATA = {
     sortKey: "created",
     autoStart: true,
     showInSidebar: false,
+    cardMinWidth: 240,
+    maxCardsPerRow: 4,
+    previewLines: 5,
+    density: "compact",
+    previewMode: "stripped",
+    coverPlacement: "side",
+    coverPropertyKeys: ["thumbnail"],
+    cardFields: ["status", "due"],
+    cardFieldStyle: "list",
+    hiddenCardElements: ["folder"],
+    cardStyleRules: [
+      {
+        condition: { type: "tag", tag: "idea" },
+        effect: "tint",
+        color: "#e0ac00",
+        icon: "",
+      },
+    ],
+    excerptPropertyKeys: ["abstract"],
+    excerptSkipSyntax: false,
+    excerptStartHeading: "Summary",
+    excerptMaxLength: 300,
   } as PluginSettings,
 
   INVALID_PLUGIN_DATA: {
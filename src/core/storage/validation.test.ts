@@ -1,15 +1,27 @@
 import { describe, expect, it, test } from "vitest";
-import type { FilterState, PluginData, PluginSettings, SortConfig } from "../../types";
-import { validatePluginData, validatePluginSettings } from "./validation";
+import {
+  type CardViewState,
+  DEFAULT_BOARD_CONFIG,
+  DEFAULT_CARD_DISPLAY_SETTINGS,
+  DEFAULT_EXCERPT_SETTINGS,
+  type FilterState,
+  type PluginData,
+  type PluginSettings,
+  type SortConfig,
+} from "../../types";
+import { validateCardViewState, validatePluginData, validatePluginSettings } from "./validation";
 
 /**
  * Test helper function - Creates a valid PluginSettings object
- * Returns default values for plugin settings (sort key, auto start, sidebar display)
+ * Returns default values for plugin settings (sort key, auto start, sidebar display, card display,
+ * excerpt rules)
  */
 const createValidPluginSettings = (): PluginSettings => ({
   sortKey: "updated",
   autoStart: true,
   showInSidebar: false,
+  ...DEFAULT_CARD_DISPLAY_SETTINGS,
+  ...DEFAULT_EXCERPT_SETTINGS,
 });
 
 /**
@@ -29,8 +41,16 @@ const createValidPluginData = (): PluginData => ({
  */
 const createValidFilterState = (): FilterState => ({
   folders: ["folder1", "folder2"],
+  folderMatchMode: "any",
   tags: ["tag1", "tag2"],
-  filename: "test",
+  tagMatchMode: "any",
+  filename: ["test"],
+  filenamePhrases: [],
+  content: "",
+  excludeFolders: ["Templates"],
+  excludeTags: ["draft"],
+  excludeFilename: [],
+  properties: [],
   dateRange: {
     type: "within",
     value: new Date("2023-01-01"),
@@ -66,6 +86,17 @@ const createDataWithSortConfig = (sortConfig: any) => ({
   sortConfig: sortConfig,
 });
 
+/**
+ * Test helper function - Creates a valid CardViewState object
+ * Contains per-leaf view state (filters, sort config, layout mode, scroll anchor)
+ */
+const createValidCardViewState = (): CardViewState => ({
+  filters: createValidFilterState(),
+  sortConfig: createValidSortConfig(),
+  layoutMode: "grid",
+  scrollAnchor: "folder/note.md",
+});
+
 describe("validation", () => {
   describe("validatePluginSettings", () => {
     it("should validate correct PluginSettings", () => {
@@ -105,6 +136,90 @@ describe("validation", () => {
     ])("should reject %s showInSidebar", (_, settings) => {
       expect(validatePluginSettings(settings)).toBe(false);
     });
+
+    it("should accept card styling rules of every kind", () => {
+      const settings = {
+        ...createValidPluginSettings(),
+        cardStyleRules: [
+          { condition: { type: "tag", tag: "idea" }, effect: "tint", color: "#e0ac00", icon: "" },
+          { condition: { type: "folder", folder: "Archive" }, effect: "dim", color: "", icon: "" },
+          {
+            condition: {
+              type: "property",
+              property: { key: "due", operator: "before", value: "today", valueTo: "" },
+            },
+            effect: "accent",
+            color: "#e5534b",
+            icon: "",
+          },
+          {
+            condition: { type: "age", comparison: "older", days: 90 },
+            effect: "icon",
+            color: "",
+            icon: "🕸",
+          },
+        ],
+      };
+      expect(validatePluginSettings(settings)).toBe(true);
+    });
+
+    it("should accept settings saved before the card display settings", () => {
+      expect(
+        validatePluginSettings({ sortKey: "updated", autoStart: true, showInSidebar: false })
+      ).toBe(true);
+    });
+
+    test.each([
+      ["zero card width", { cardMinWidth: 0 }],
+      ["fractional cards per row", { maxCardsPerRow: 2.5 }],
+      ["non-number preview lines", { previewLines: "3" }],
+      ["unknown density", { density: "cozy" }],
+      ["unknown preview mode", { previewMode: "html" }],
+      ["unknown cover placement", { coverPlacement: "bottom" }],
+      ["non-string cover property", { coverPropertyKeys: [null] }],
+      ["non-array card fields", { cardFields: "status" }],
+      ["unknown card field style", { cardFieldStyle: "table" }],
+      ["unknown hidden element", { hiddenCardElements: ["title", "cover"] }],
+      ["non-array styling rules", { cardStyleRules: {} }],
+      [
+        "unknown rule effect",
+        {
+          cardStyleRules: [
+            { condition: { type: "tag", tag: "idea" }, effect: "glow", color: "", icon: "" },
+          ],
+        },
+      ],
+      [
+        "unknown rule condition",
+        {
+          cardStyleRules: [
+            { condition: { type: "title", title: "idea" }, effect: "dim", color: "", icon: "" },
+          ],
+        },
+      ],
+      [
+        "negative rule age",
+        {
+          cardStyleRules: [
+            {
+              condition: { type: "age", comparison: "older", days: -1 },
+              effect: "dim",
+              color: "",
+              icon: "",
+            },
+          ],
+        },
+      ],
+      ["non-array excerpt properties", { excerptPropertyKeys: "summary" }],
+      ["non-string excerpt property", { excerptPropertyKeys: ["summary", 1] }],
+      ["non-boolean skipping", { excerptSkipSyntax: "yes" }],
+      ["non-string start heading", { excerptStartHeading: null }],
+      ["zero excerpt length", { excerptMaxLength: 0 }],
+    ])("should reject %s", (_, cardDisplay) => {
+      expect(validatePluginSettings({ ...createValidPluginSettings(), ...cardDisplay })).toBe(
+        false
+      );
+    });
   });
 
   describe("validatePluginData", () => {
@@ -236,12 +351,21 @@ describe("validation", () => {
 
       describe("filename validation", () => {
         it("should accept empty string filename", () => {
-          const filterState = createValidFilterState();
+          const filterState: any = createValidFilterState();
           filterState.filename = "";
           const data = createDataWithFilterState(filterState);
           expect(validatePluginData(data)).toBe(true);
         });
 
+        it("should accept filename searches saved as strings", () => {
+          const filterState: any = createValidFilterState();
+          filterState.filename = "weekly review";
+          filterState.excludeFilename = "draft";
+          delete filterState.filenamePhrases;
+          const data = createDataWithFilterState(filterState);
+          expect(validatePluginData(data)).toBe(true);
+        });
+
         test.each([
           [
             "missing",
@@ -275,6 +399,111 @@ describe("validation", () => {
         });
       });
 
+      describe("exclusion, match mode and property validation", () => {
+        it("should accept property conditions", () => {
+          const filterState = createValidFilterState();
+          filterState.properties = [
+            { key: "status", operator: "equals", value: "draft", valueTo: "" },
+            { key: "priority", operator: "between", value: "1", valueTo: "3" },
+          ];
+          const data = createDataWithFilterState(filterState);
+          expect(validatePluginData(data)).toBe(true);
+        });
+
+        it("should accept filters saved before these fields existed", () => {
+          const filterState: any = createValidFilterState();
+          delete filterState.excludeFolders;
+          delete filterState.excludeTags;
+          delete filterState.excludeFilename;
+          delete filterState.folderMatchMode;
+          delete filterState.tagMatchMode;
+          delete filterState.properties;
+          delete filterState.content;
+          const data = createDataWithFilterState(filterState);
+          expect(validatePluginData(data)).toBe(true);
+        });
+
+        test.each([
+          [
+            "non-string content",
+            (fs: any) => {
+              fs.content = 42;
+            },
+          ],
+          [
+            "non-string filenamePhrases element",
+            (fs: any) => {
+              fs.filenamePhrases = ["weekly review", 1];
+            },
+          ],
+          [
+            "non-string excludeFilename element",
+            (fs: any) => {
+              fs.excludeFilename = [null];
+            },
+          ],
+          [
+            "non-array excludeFolders",
+            (fs: any) => {
+              fs.excludeFolders = "Templates";
+            },
+          ],
+          [
+            "non-string excludeTags element",
+            (fs: any) => {
+              fs.excludeTags = ["draft", 1];
+            },
+          ],
+          [
+            "null excludeTags",
+            (fs: any) => {
+              fs.excludeTags = null;
+            },
+          ],
+          [
+            "unknown tagMatchMode",
+            (fs: any) => {
+              fs.tagMatchMode = "or";
+            },
+          ],
+          [
+            "non-string folderMatchMode",
+            (fs: any) => {
+              fs.folderMatchMode = 1;
+            },
+          ],
+          [
+            "non-array properties",
+            (fs: any) => {
+              fs.properties = { key: "status" };
+            },
+          ],
+          [
+            "property with unknown operator",
+            (fs: any) => {
+              fs.properties = [{ key: "status", operator: "like", value: "x", valueTo: "" }];
+            },
+          ],
+          [
+            "property without valueTo",
+            (fs: any) => {
+              fs.properties = [{ key: "status", operator: "equals", value: "x" }];
+            },
+          ],
+          [
+            "non-string excludeFilename",
+            (fs: any) => {
+              fs.excludeFilename = 123;
+            },
+          ],
+        ])("should reject %s", (_description, modifier) => {
+          const filterState = createValidFilterState();
+          modifier(filterState);
+          const data = createDataWithFilterState(filterState);
+          expect(validatePluginData(data)).toBe(false);
+        });
+      });
+
       describe("dateRange validation", () => {
         it("should accept null dateRange", () => {
           const filterState = createValidFilterState();
@@ -430,6 +659,61 @@ describe("validation", () => {
         const data = createDataWithSortConfig(sortConfig);
         expect(validatePluginData(data)).toBe(false);
       });
+
+      it("should accept tie-breaker keys", () => {
+        const sortConfig = {
+          key: "priority",
+          order: "desc",
+          thenBy: [
+            { key: "due", order: "asc" },
+            { key: "updated", order: "desc" },
+          ],
+        };
+        expect(validatePluginData(createDataWithSortConfig(sortConfig))).toBe(true);
+      });
+
+      test.each([
+        ["non-array", "due"],
+        ["invalid order", [{ key: "due", order: "up" }]],
+        ["missing key", [{ order: "asc" }]],
+      ])("should reject %s tie-breakers", (_description, thenBy) => {
+        const sortConfig = { key: "priority", order: "desc", thenBy };
+        expect(validatePluginData(createDataWithSortConfig(sortConfig))).toBe(false);
+      });
+
+      it("should accept fallback keys and missing value placement", () => {
+        const sortConfig = {
+          key: "updated",
+          order: "desc",
+          fallbackKeys: ["created", "ctime"],
+          missingValues: "first",
+        };
+        expect(validatePluginData(createDataWithSortConfig(sortConfig))).toBe(true);
+      });
+
+      test.each([
+        ["non-array fallback keys", { fallbackKeys: "created" }],
+        ["non-string fallback key", { fallbackKeys: ["created", 1] }],
+        ["unknown missing value placement", { missingValues: "middle" }],
+      ])("should reject %s", (_description, extra) => {
+        const sortConfig = { key: "updated", order: "desc", ...extra };
+        expect(validatePluginData(createDataWithSortConfig(sortConfig))).toBe(false);
+      });
+    });
+
+    describe("manualOrders validation", () => {
+      it("should accept manual orders keyed by view id", () => {
+        const data = { ...createValidPluginData(), manualOrders: { "view-1": ["a.md", "b.md"] } };
+        expect(validatePluginData(data)).toBe(true);
+      });
+
+      test.each([
+        ["an array", ["a.md"]],
+        ["a non-array order", { "view-1": "a.md" }],
+        ["a non-string path", { "view-1": ["a.md", 1] }],
+      ])("should reject %s", (_description, manualOrders) => {
+        expect(validatePluginData({ ...createValidPluginData(), manualOrders })).toBe(false);
+      });
     });
 
     describe("version validation", () => {
@@ -479,4 +763,104 @@ describe("validation", () => {
       });
     });
   });
+
+  describe("validateCardViewState", () => {
+    it("should validate correct CardViewState", () => {
+      expect(validateCardViewState(createValidCardViewState())).toBe(true);
+    });
+
+    it("should accept a null scroll anchor, serialized dates, the relevance flag and view id", () => {
+      const state = {
+        ...createValidCardViewState(),
+        filters: {
+          ...createValidFilterState(),
+          dateRange: { type: "after", value: "2024-01-01T00:00:00.000Z" },
+        },
+        scrollAnchor: null,
+        sortByRelevance: true,
+        viewId: "view-1",
+      };
+      expect(validateCardViewState(state)).toBe(true);
+    });
+
+    it("should accept table layout settings", () => {
+      const state = {
+        ...createValidCardViewState(),
+        layoutMode: "table",
+        tableColumns: [{ key: "filename", width: 240 }, { key: "status" }],
+      };
+      expect(validateCardViewState(state)).toBe(true);
+    });
+
+    it("should accept board layout settings", () => {
+      const state = {
+        ...createValidCardViewState(),
+        layoutMode: "board",
+        boardConfig: { property: "status", columnOrder: ["todo", "done"], hiddenColumns: [""] },
+      };
+      expect(validateCardViewState(state)).toBe(true);
+    });
+
+    it("should accept calendar settings and day filters", () => {
+      const state = {
+        ...createValidCardViewState(),
+        layoutMode: "calendar",
+        calendarMode: "week",
+        filters: {
+          ...createValidCardViewState().filters,
+          dateRange: { type: "on", value: "2024-02-14T00:00:00.000Z" },
+        },
+      };
+      expect(validateCardViewState(state)).toBe(true);
+    });
+
+    it("should accept a compact list override", () => {
+      expect(validateCardViewState({ ...createValidCardViewState(), compactMode: "off" })).toBe(
+        true
+      );
+    });
+
+    it("should accept group settings", () => {
+      const state = {
+        ...createValidCardViewState(),
+        groupBy: { mode: "property", property: "status" },
+        collapsedGroups: ["done", ""],
+      };
+      expect(validateCardViewState(state)).toBe(true);
+    });
+
+    test.each([
+      ["null", null],
+      ["empty object", {}],
+      ["array", []],
+    ])("should reject %s values", (_, value) => {
+      expect(validateCardViewState(value)).toBe(false);
+    });
+
+    test.each([
+      ["invalid filters", { filters: { folders: "a" } }],
+      ["invalid sortConfig", { sortConfig: { key: "updated", order: "up" } }],
+      ["unknown layoutMode", { layoutMode: "carousel" }],
+      ["non-string scrollAnchor", { scrollAnchor: 3 }],
+      ["missing scrollAnchor", { scrollAnchor: undefined }],
+      ["non-boolean sortByRelevance", { sortByRelevance: "yes" }],
+      ["non-string viewId", { viewId: 1 }],
+      ["unknown groupBy mode", { groupBy: { mode: "author" } }],
+      ["non-string groupBy property", { groupBy: { mode: "property", property: 1 } }],
+      ["non-array collapsedGroups", { collapsedGroups: "done" }],
+      ["non-array tableColumns", { tableColumns: "filename" }],
+      ["table column without key", { tableColumns: [{ width: 100 }] }],
+      ["non-positive table column width", { tableColumns: [{ key: "filename", width: 0 }] }],
+      ["non-string board property", { boardConfig: { ...DEFAULT_BOARD_CONFIG, property: 1 } }],
+      [
+        "non-array board column order",
+        { boardConfig: { ...DEFAULT_BOARD_CONFIG, columnOrder: "a" } },
+      ],
+      ["missing board hidden columns", { boardConfig: { property: "status", columnOrder: [] } }],
+      ["unknown calendarMode", { calendarMode: "year" }],
+      ["unknown compactMode", { compactMode: "narrow" }],
+    ])("should reject %s", (_, overrides) => {
+      expect(validateCardViewState({ ...createValidCardViewState(), ...overrides })).toBe(false);
+    });
+  });
 });
@@ -8,7 +8,32 @@
 
 import { isDate } from "es-toolkit";
 import { every, isArray, isPlainObject, isString } from "es-toolkit/compat";
-import type { FilterState, PluginData, PluginSettings, SortConfig } from "../../types";
+import {
+  type BoardConfig,
+  CALENDAR_MODES,
+  CARD_DENSITIES,
+  CARD_ELEMENTS,
+  CARD_FIELD_STYLES,
+  CARD_RULE_CONDITION_TYPES,
+  CARD_RULE_EFFECTS,
+  type CardRuleCondition,
+  type CardStyleRule,
+  type CardViewState,
+  COMPACT_MODES,
+  COVER_PLACEMENTS,
+  FILTER_MATCH_MODES,
+  type FilterState,
+  GROUP_BY_MODES,
+  type GroupByConfig,
+  LAYOUT_MODES,
+  type PluginData,
+  type PluginSettings,
+  PREVIEW_MODES,
+  PROPERTY_FILTER_OPERATORS,
+  type PropertyFilter,
+  type SortConfig,
+  type TableColumn,
+} from "../../types";
 
 /**
  * Validates plugin settings structure loaded from Obsidian settings.
@@ -23,7 +48,30 @@ export function validatePluginSettings(data: any): data is PluginSettings {
   return (
     typeof data.sortKey === "string" &&
     typeof data.autoStart === "boolean" &&
-    typeof data.showInSidebar === "boolean"
+    typeof data.showInSidebar === "boolean" &&
+    // Card display settings are optional (added later) but must be valid when present
+    isOptionalPositiveInteger(data.cardMinWidth) &&
+    isOptionalPositiveInteger(data.maxCardsPerRow) &&
+    isOptionalPositiveInteger(data.previewLines) &&
+    (data.density === undefined || CARD_DENSITIES.includes(data.density)) &&
+    (data.previewMode === undefined || PREVIEW_MODES.includes(data.previewMode)) &&
+    (data.coverPlacement === undefined || COVER_PLACEMENTS.includes(data.coverPlacement)) &&
+    (data.coverPropertyKeys === undefined ||
+      (isArray(data.coverPropertyKeys) && every(data.coverPropertyKeys, isString))) &&
+    (data.cardFields === undefined ||
+      (isArray(data.cardFields) && every(data.cardFields, isString))) &&
+    (data.cardFieldStyle === undefined || CARD_FIELD_STYLES.includes(data.cardFieldStyle)) &&
+    (data.hiddenCardElements === undefined ||
+      (isArray(data.hiddenCardElements) &&
+        every(data.hiddenCardElements, (element) => CARD_ELEMENTS.includes(element)))) &&
+    (data.cardStyleRules === undefined ||
+      (isArray(data.cardStyleRules) && every(data.cardStyleRules, isValidCardStyleRule))) &&
+    // Excerpt settings are optional (added later) but must be valid when present
+    (data.excerptPropertyKeys === undefined ||
+      (isArray(data.excerptPropertyKeys) && every(data.excerptPropertyKeys, isString))) &&
+    (data.excerptSkipSyntax === undefined || typeof data.excerptSkipSyntax === "boolean") &&
+    (data.excerptStartHeading === undefined || isString(data.excerptStartHeading)) &&
+    isOptionalPositiveInteger(data.excerptMaxLength)
   );
 }
 
@@ -50,6 +98,14 @@ export function validatePluginData(data: any): data is PluginData {
     return false;
   }
 
+  // Manual orders are optional (added later) but must map view ids to note paths
+  if (
+    data.manualOrders !== undefined &&
+    !(isPlainObject(data.manualOrders) && every(Object.values(data.manualOrders), isStringArray))
+  ) {
+    return false;
+  }
+
   // Version is optional but must be a valid version number if present
   if (!isValidOptionalVersion(data.version)) {
     return false;
@@ -58,6 +114,71 @@ export function validatePluginData(data: any): data is PluginData {
   return true;
 }
 
+/**
+ * Validates per-leaf view state restored from Obsidian's workspace layout.
+ * The layout is written by other plugin versions and can be edited by hand,
+ * so every field is checked before it is applied to a view.
+ * @param data - The view state to validate
+ * @returns True if data conforms to CardViewState interface
+ */
+export function validateCardViewState(data: any): data is CardViewState {
+  if (!isPlainObject(data)) {
+    return false;
+  }
+
+  if (!validateFilterState(data.filters) || !validateSortConfig(data.sortConfig)) {
+    return false;
+  }
+
+  if (!LAYOUT_MODES.includes(data.layoutMode)) {
+    return false;
+  }
+
+  // Relevance sort is optional (added later) but must be a boolean when present
+  if (data.sortByRelevance !== undefined && typeof data.sortByRelevance !== "boolean") {
+    return false;
+  }
+
+  // Grouping is optional (added later) but must be well-formed when present
+  if (data.groupBy !== undefined && !validateGroupByConfig(data.groupBy)) {
+    return false;
+  }
+  if (data.collapsedGroups !== undefined && !isStringArray(data.collapsedGroups)) {
+    return false;
+  }
+
+  // Table columns are optional (added later) but must be well-formed when present
+  if (
+    data.tableColumns !== undefined &&
+    !(isArray(data.tableColumns) && every(data.tableColumns, validateTableColumn))
+  ) {
+    return false;
+  }
+
+  // Board configuration is optional (added later) but must be well-formed when present
+  if (data.boardConfig !== undefined && !validateBoardConfig(data.boardConfig)) {
+    return false;
+  }
+
+  // Calendar mode is optional (added later) but must be known when present
+  if (data.calendarMode !== undefined && !CALENDAR_MODES.includes(data.calendarMode)) {
+    return false;
+  }
+
+  // Compact mode is optional (added later) but must be known when present
+  if (data.compactMode !== undefined && !COMPACT_MODES.includes(data.compactMode)) {
+    return false;
+  }
+
+  // View id is optional (added later) but must be a string when present
+  if (data.viewId !== undefined && typeof data.viewId !== "string") {
+    return false;
+  }
+
+  // Scroll anchor is a note path, or null when scrolled to the top
+  return data.scrollAnchor === null || typeof data.scrollAnchor === "string";
+}
+
 /**
  * Validates filter state structure used for note filtering.
  * @param data - The data to validate
@@ -76,17 +197,55 @@ function validateFilterState(data: any): data is FilterState {
     }
   }
 
-  if (typeof data.filename !== "string") {
+  // Versions before the phrase search saved the filename search as one string
+  if (typeof data.filename !== "string" && !isStringArray(data.filename)) {
+    return false;
+  }
+  if (data.filenamePhrases !== undefined && !isStringArray(data.filenamePhrases)) {
     return false;
   }
 
+  // Exclusion fields were added later; data saved before them omits the fields
+  // and is normalized with defaults by the store, but present values must be valid
+  for (const prop of ["excludeFolders", "excludeTags"] as const) {
+    if (data[prop] !== undefined && !isStringArray(data[prop])) {
+      return false;
+    }
+  }
+  if (
+    data.excludeFilename !== undefined &&
+    typeof data.excludeFilename !== "string" &&
+    !isStringArray(data.excludeFilename)
+  ) {
+    return false;
+  }
+
+  // The content search query is optional for the same reason
+  if (data.content !== undefined && typeof data.content !== "string") {
+    return false;
+  }
+
+  // Match modes were added later as well and are optional for the same reason
+  for (const prop of ["folderMatchMode", "tagMatchMode"] as const) {
+    if (data[prop] !== undefined && !FILTER_MATCH_MODES.includes(data[prop])) {
+      return false;
+    }
+  }
+
+  // Property conditions are optional too; each present condition must be well-formed
+  if (data.properties !== undefined) {
+    if (!isArray(data.properties) || !every(data.properties, isValidPropertyFilter)) {
+      return false;
+    }
+  }
+
   // Date range is optional; validate only when not null/undefined
   if (data.dateRange != null) {
     if (!isPlainObject(data.dateRange)) {
       return false;
     }
     const { type, value } = data.dateRange as { type?: unknown; value?: unknown };
-    if (typeof type !== "string" || !["within", "after"].includes(type)) {
+    if (typeof type !== "string" || !["within", "after", "on"].includes(type)) {
       return false;
     }
     if (!isValidDateValue(value)) {
@@ -103,22 +262,138 @@ function validateFilterState(data: any): data is FilterState {
  * @returns True if data conforms to SortConfig interface
  */
 function validateSortConfig(data: any): data is SortConfig {
-  if (!isPlainObject(data)) {
+  if (!isSortCriterion(data)) {
     return false;
   }
 
-  if (typeof data.key !== "string") {
+  // Tie-breakers are optional (added later) but must be valid keys when present
+  if (data.thenBy !== undefined && !(isArray(data.thenBy) && every(data.thenBy, isSortCriterion))) {
     return false;
   }
 
-  // Only allow ascending or descending sort orders
-  if (!["asc", "desc"].includes(data.order)) {
+  // Fallback keys and missing value placement are optional (added later) as well
+  if (
+    data.fallbackKeys !== undefined &&
+    !(isArray(data.fallbackKeys) && every(data.fallbackKeys, isString))
+  ) {
+    return false;
+  }
+  if (data.missingValues !== undefined && !["first", "last"].includes(data.missingValues)) {
     return false;
   }
 
   return true;
 }
 
+/**
+ * Validates group by configuration structure.
+ * @param data - The data to validate
+ * @returns True if data conforms to GroupByConfig interface
+ */
+function validateGroupByConfig(data: any): data is GroupByConfig {
+  return (
+    isPlainObject(data) &&
+    GROUP_BY_MODES.includes(data.mode) &&
+    (data.property === undefined || typeof data.property === "string")
+  );
+}
+
+/**
+ * Validates a column of the table layout.
+ * @param data - The data to validate
+ * @returns True if data conforms to TableColumn interface
+ */
+function validateTableColumn(data: any): data is TableColumn {
+  return (
+    isPlainObject(data) &&
+    typeof data.key === "string" &&
+    (data.width === undefined ||
+      (typeof data.width === "number" && Number.isFinite(data.width) && data.width > 0))
+  );
+}
+
+/**
+ * Validates board layout configuration structure.
+ * @param data - The data to validate
+ * @returns True if data conforms to BoardConfig interface
+ */
+function validateBoardConfig(data: any): data is BoardConfig {
+  return (
+    isPlainObject(data) &&
+    typeof data.property === "string" &&
+    isStringArray(data.columnOrder) &&
+    isStringArray(data.hiddenColumns)
+  );
+}
+
+/**
+ * Validates a single sort key with its order.
+ * @param data - The data to validate
+ * @returns True if data conforms to the SortCriterion type
+ */
+function isSortCriterion(data: any): boolean {
+  return (
+    isPlainObject(data) &&
+    typeof data.key === "string" &&
+    // Only allow ascending or descending sort orders
+    ["asc", "desc"].includes(data.order)
+  );
+}
+
+/**
+ * Validates a single frontmatter property condition.
+ * @param data - The data to validate
+ * @returns True if data conforms to PropertyFilter interface
+ */
+function isValidPropertyFilter(data: any): data is PropertyFilter {
+  return (
+    isPlainObject(data) &&
+    isString(data.key) &&
+    PROPERTY_FILTER_OPERATORS.includes(data.operator) &&
+    isString(data.value) &&
+    isString(data.valueTo)
+  );
+}
+
+/**
+ * Validates a single card styling rule.
+ * @param data - The data to validate
+ * @returns True if data conforms to CardStyleRule interface
+ */
+function isValidCardStyleRule(data: any): data is CardStyleRule {
+  return (
+    isPlainObject(data) &&
+    isValidCardRuleCondition(data.condition) &&
+    CARD_RULE_EFFECTS.includes(data.effect) &&
+    isString(data.color) &&
+    isString(data.icon)
+  );
+}
+
+/**
+ * Validates the condition of a card styling rule.
+ * @param data - The data to validate
+ * @returns True if data conforms to CardRuleCondition type
+ */
+function isValidCardRuleCondition(data: any): data is CardRuleCondition {
+  if (!isPlainObject(data) || !CARD_RULE_CONDITION_TYPES.includes(data.type)) return false;
+
+  switch (data.type) {
+    case "tag":
+      return isString(data.tag);
+    case "folder":
+      return isString(data.folder);
+    case "property":
+      return isValidPropertyFilter(data.property);
+    default:
+      return (
+        ["newer", "older"].includes(data.comparison) &&
+        Number.isInteger(data.days) &&
+        data.days >= 0
+      );
+  }
+}
+
 /**
  * Validates whether a value is a valid optional version number.
  * Version numbers must be non-negative integers (0, 1, 2, ...) or undefined (optional).
@@ -132,6 +407,15 @@ function isValidOptionalVersion(version: any): boolean {
   );
 }
 
+/**
+ * Validates whether a value is a positive integer or undefined (optional).
+ * @param value - The value to validate
+ * @returns True if the value is a positive integer or undefined
+ */
+function isOptionalPositiveInteger(value: any): boolean {
+  return value === undefined || (Number.isInteger(value) && value > 0);
+}
+
 /**
  * Validates whether a value can be converted to a valid Date.
  * Accepts both Date objects and parseable date strings.
@@ -1,7 +1,13 @@
 export { useCardViewInitialization } from "./useCardViewInitialization";
 export { useCardViewState } from "./useCardViewState";
+export { useCoverSource } from "./useCoverSource";
+export { useCtrlWheelZoom } from "./useCtrlWheelZoom";
 export { useDebouncedValue } from "./useDebouncedValue";
+export { useInView } from "./useInView";
+export { useNoteBody } from "./useNoteBody";
 export { useNoteGrid } from "./useNoteGrid";
 export { useResponsiveRowSize } from "./useResponsiveRowSize";
 export { useRetryableRefreshNotes } from "./useRetryableRefreshNotes";
+export { useRowIds } from "./useRowIds";
+export { useScrollToAnchor } from "./useScrollToAnchor";
 export { useScrollToTopOnChange } from "./useScrollToTopOnChange";
@@ -6,13 +6,13 @@ import { useCardViewInitialization } from "./useCardViewInitialization";
 // Hoisted spies to match selector-based store usage
 const h = vi.hoisted(() => ({
   initializeFromPluginDataSpy: vi.fn(),
-  refreshNotesSpy: vi.fn(),
+  ensureNotesLoadedSpy: vi.fn(),
 }));
 
 vi.mock("../store/cardExplorerStore", () => {
   const store = {
     initializeFromPluginData: h.initializeFromPluginDataSpy,
-    refreshNotes: h.refreshNotesSpy,
+    ensureNotesLoaded: h.ensureNotesLoadedSpy,
   };
   return {
     // Support both direct usage and selector usage
@@ -58,10 +58,10 @@ describe("useCardViewInitialization", () => {
     expect(h.initializeFromPluginDataSpy).toHaveBeenCalledWith(mockPluginData, mockSettings);
   });
 
-  it("should call refreshNotes with plugin.app on mount", () => {
+  it("should call ensureNotesLoaded with plugin.app on mount", () => {
     renderHook(() => useCardViewInitialization(mockPlugin));
 
-    expect(h.refreshNotesSpy).toHaveBeenCalledWith(mockPlugin.app);
+    expect(h.ensureNotesLoadedSpy).toHaveBeenCalledWith(mockPlugin.app);
   });
 
   it("should re-initialize when plugin instance changes", () => {
@@ -71,7 +71,7 @@ describe("useCardViewInitialization", () => {
 
     // Initial calls
     expect(h.initializeFromPluginDataSpy).toHaveBeenCalledTimes(1);
-    expect(h.refreshNotesSpy).toHaveBeenCalledTimes(1);
+    expect(h.ensureNotesLoadedSpy).toHaveBeenCalledTimes(1);
 
     // Create a new plugin instance
     const newApp = { vault: {}, metadataCache: {}, fileManager: {} };
@@ -87,7 +87,7 @@ describe("useCardViewInitialization", () => {
 
     // Should be called again with new plugin
     expect(h.initializeFromPluginDataSpy).toHaveBeenCalledTimes(2);
-    expect(h.refreshNotesSpy).toHaveBeenCalledTimes(2);
+    expect(h.ensureNotesLoadedSpy).toHaveBeenCalledTimes(2);
     expect(h.initializeFromPluginDataSpy).toHaveBeenLastCalledWith(
       { ...mockPluginData, version: "2.0.0" },
       { ...mockSettings, sortKey: "title" }
@@ -7,13 +7,13 @@ import { useCardExplorerStore } from "../store/cardExplorerStore";
  *
  * Handles the initial setup of the CardView component:
  * 1. Initializes store from plugin data and settings
- * 2. Performs initial notes loading from vault
+ * 2. Loads notes from the vault unless the shared note index already has them
  *
  * @param plugin - The CardExplorer plugin instance
  */
 export const useCardViewInitialization = (plugin: CardExplorerPlugin) => {
   const initializeFromPluginData = useCardExplorerStore((s) => s.initializeFromPluginData);
-  const refreshNotes = useCardExplorerStore((s) => s.refreshNotes);
+  const ensureNotesLoaded = useCardExplorerStore((s) => s.ensureNotesLoaded);
 
   // Initialize store from plugin data and settings
   useEffect(() => {
@@ -25,9 +25,9 @@ export const useCardViewInitialization = (plugin: CardExplorerPlugin) => {
   // Load initial notes from vault
   useEffect(() => {
     const loadInitialNotes = async () => {
-      await refreshNotes(plugin.app);
+      await ensureNotesLoaded(plugin.app);
     };
 
     loadInitialNotes();
-  }, [plugin.app, refreshNotes]);
+  }, [plugin.app, ensureNotesLoaded]);
 };
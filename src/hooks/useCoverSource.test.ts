@@ -0,0 +1,70 @@
+import { renderHook } from "@testing-library/react";
+import type { App } from "obsidian";
+import { describe, expect, it, vi } from "vitest";
+import type { NoteData } from "../types";
+import { useCoverSource } from "./useCoverSource";
+
+const makeApp = (files: Record<string, string>, embeds: { link: string }[] = []) =>
+  ({
+    metadataCache: {
+      getFileCache: vi.fn(() => ({ embeds })),
+      getFirstLinkpathDest: vi.fn((link: string) => (files[link] ? { path: files[link] } : null)),
+    },
+    vault: {
+      getResourcePath: vi.fn((file: { path: string }) => `app://vault/${file.path}?1`),
+    },
+  }) as unknown as App;
+
+const makeNote = (frontmatter: Record<string, unknown> | null): NoteData =>
+  ({ file: { path: "Notes/a.md" }, path: "Notes/a.md", frontmatter }) as NoteData;
+
+const KEYS = ["cover", "image"];
+
+describe("useCoverSource", () => {
+  it("resolves the cover property from the note to a resource URL", () => {
+    const app = makeApp({ "cover.png": "Images/cover.png" });
+    const { result } = renderHook(() =>
+      useCoverSource(app, makeNote({ cover: "[[cover.png]]" }), KEYS)
+    );
+
+    expect(result.current).toBe("app://vault/Images/cover.png?1");
+    expect(app.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("cover.png", "Notes/a.md");
+  });
+
+  it("uses the next link when a link is broken or not an image", () => {
+    const app = makeApp({ Other: "Other.md", "photo.jpg": "photo.jpg" }, [
+      { link: "missing.png" },
+      { link: "photo.jpg" },
+    ]);
+    const { result } = renderHook(() =>
+      useCoverSource(app, makeNote({ cover: "[[Other]]" }), KEYS)
+    );
+
+    expect(result.current).toBe("app://vault/photo.jpg?1");
+  });
+
+  it("returns web URLs as they are", () => {
+    const app = makeApp({});
+    const { result } = renderHook(() =>
+      useCoverSource(app, makeNote({ image: "https://example.com/a.png" }), KEYS)
+    );
+
+    expect(result.current).toBe("https://example.com/a.png");
+  });
+
+  it("returns null for notes without a cover", () => {
+    const { result } = renderHook(() => useCoverSource(makeApp({}), makeNote(null), KEYS));
+
+    expect(result.current).toBeNull();
+  });
+
+  it("returns null without reading the note when covers are off", () => {
+    const app = makeApp({ "cover.png": "cover.png" });
+    const { result } = renderHook(() =>
+      useCoverSource(app, makeNote({ cover: "cover.png" }), null)
+    );
+
+    expect(result.current).toBeNull();
+    expect(app.metadataCache.getFileCache).not.toHaveBeenCalled();
+  });
+});
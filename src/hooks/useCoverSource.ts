@@ -0,0 +1,40 @@
+import type { App } from "obsidian";
+import { useMemo } from "react";
+import { getCoverLinks, isExternalUrl, isImagePath } from "../store/cover";
+import type { NoteData } from "../types";
+
+/**
+ * Resolve the URL of the cover image of a note.
+ *
+ * Design rationale:
+ * - Candidate links come from `getCoverLinks`: the cover properties first, then the
+ *   images embedded in the note, read from the metadata cache.
+ * - Vault links are resolved like Obsidian resolves links from the note, through
+ *   `getFirstLinkpathDest`, and the first one that resolves to an image file wins.
+ *   Web URLs are used as they are.
+ * - Vault images are loaded through `vault.getResourcePath`, whose URL changes with
+ *   the file's modification time, so an edited image is not taken from a stale cache.
+ * - Resolution runs again when the note is reloaded (a new `note` object) or the
+ *   cover properties change; loading the image itself is left to the card.
+ *
+ * @param app - Obsidian app, for the metadata cache and the vault
+ * @param note - Note whose cover to resolve
+ * @param propertyKeys - Frontmatter keys holding the cover image, or null for no cover
+ * @returns URL of the cover image, or null if the note has none
+ */
+export const useCoverSource = (
+  app: App,
+  note: NoteData,
+  propertyKeys: readonly string[] | null
+): string | null =>
+  useMemo(() => {
+    if (!propertyKeys) return null;
+
+    const embeds = app.metadataCache.getFileCache(note.file)?.embeds;
+    for (const link of getCoverLinks(note.frontmatter, embeds, propertyKeys)) {
+      if (isExternalUrl(link)) return link;
+      const file = app.metadataCache.getFirstLinkpathDest(link, note.path);
+      if (file && isImagePath(file.path)) return app.vault.getResourcePath(file);
+    }
+    return null;
+  }, [app, note, propertyKeys]);
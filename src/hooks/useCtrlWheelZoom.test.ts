@@ -0,0 +1,65 @@
+import { renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useCtrlWheelZoom } from "./useCtrlWheelZoom";
+
+describe("useCtrlWheelZoom", () => {
+  const wheel = (element: HTMLElement, init: WheelEventInit) => {
+    const event = new WheelEvent("wheel", { cancelable: true, ...init });
+    element.dispatchEvent(event);
+    return event;
+  };
+
+  it("zooms in on Ctrl+wheel up and out on Ctrl+wheel down", () => {
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => useCtrlWheelZoom(onZoom));
+    const element = document.createElement("div");
+    result.current(element);
+
+    const zoomIn = wheel(element, { ctrlKey: true, deltaY: -100 });
+    wheel(element, { ctrlKey: true, deltaY: 100 });
+
+    expect(onZoom.mock.calls).toEqual([[1], [-1]]);
+    // The wheel does not scroll or zoom the window while zooming the cards
+    expect(zoomIn.defaultPrevented).toBe(true);
+  });
+
+  it("leaves the wheel without Ctrl alone", () => {
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => useCtrlWheelZoom(onZoom));
+    const element = document.createElement("div");
+    result.current(element);
+
+    const event = wheel(element, { deltaY: -100 });
+
+    expect(onZoom).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it("stops listening when the element is detached", () => {
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => useCtrlWheelZoom(onZoom));
+    const element = document.createElement("div");
+    result.current(element);
+
+    result.current(null);
+    wheel(element, { ctrlKey: true, deltaY: -100 });
+
+    expect(onZoom).not.toHaveBeenCalled();
+  });
+
+  it("calls the latest callback", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { result, rerender } = renderHook(({ onZoom }) => useCtrlWheelZoom(onZoom), {
+      initialProps: { onZoom: first },
+    });
+    const element = document.createElement("div");
+    result.current(element);
+
+    rerender({ onZoom: second });
+    wheel(element, { ctrlKey: true, deltaY: 100 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(-1);
+  });
+});
@@ -0,0 +1,38 @@
+import { useCallback, useRef } from "react";
+
+/**
+ * Zoom with Ctrl+wheel over an element.
+ *
+ * Design rationale:
+ * - Listens with a native, non-passive listener: React attaches `onWheel` as a
+ *   passive listener, which cannot prevent Obsidian from scrolling the view or
+ *   zooming the whole window while the wheel is used for zooming.
+ * - Trackpad pinches are reported as Ctrl+wheel by the browser, so they zoom too.
+ * - Exposes a callback `ref` like `useResponsiveRowSize`, so the listener follows
+ *   the element when it is replaced; the latest `onZoom` is always called.
+ *
+ * @param onZoom - Called with 1 to zoom in (wheel up) or -1 to zoom out (wheel down)
+ * @returns Callback `ref` to attach to the element listening for the wheel
+ */
+export const useCtrlWheelZoom = (
+  onZoom: (direction: 1 | -1) => void
+): ((node: HTMLElement | null) => void) => {
+  const onZoomRef = useRef(onZoom);
+  onZoomRef.current = onZoom;
+  const detachRef = useRef<(() => void) | null>(null);
+
+  return useCallback((node: HTMLElement | null) => {
+    detachRef.current?.();
+    detachRef.current = null;
+
+    if (!node) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey || event.deltaY === 0) return;
+      event.preventDefault();
+      onZoomRef.current(event.deltaY < 0 ? 1 : -1);
+    };
+    node.addEventListener("wheel", handleWheel, { passive: false });
+    detachRef.current = () => node.removeEventListener("wheel", handleWheel);
+  }, []);
+};
@@ -0,0 +1,60 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { useInView } from "./useInView";
+
+describe("useInView", () => {
+  type GlobalWithIntersectionObserver = typeof globalThis & {
+    IntersectionObserver?: typeof IntersectionObserver;
+  };
+  const g = globalThis as GlobalWithIntersectionObserver;
+
+  afterEach(() => {
+    Reflect.deleteProperty(g, "IntersectionObserver");
+  });
+
+  const installObserver = () => {
+    const observer = {
+      notify: (() => {}) as (isIntersecting: boolean) => void,
+      disconnect: vi.fn(),
+    };
+    g.IntersectionObserver = class {
+      constructor(callback: IntersectionObserverCallback) {
+        observer.notify = (isIntersecting) =>
+          callback(
+            [{ isIntersecting } as IntersectionObserverEntry],
+            this as unknown as IntersectionObserver
+          );
+      }
+      observe = vi.fn();
+      disconnect = observer.disconnect;
+    } as unknown as typeof IntersectionObserver;
+    return observer;
+  };
+
+  it("counts the element as seen without IntersectionObserver", () => {
+    const ref = { current: document.createElement("div") };
+    const { result } = renderHook(() => useInView(ref));
+
+    expect(result.current).toBe(true);
+  });
+
+  it("stays false without an element", () => {
+    const { result } = renderHook(() => useInView({ current: null }));
+
+    expect(result.current).toBe(false);
+  });
+
+  it("turns true once the element intersects and stops observing", () => {
+    const observer = installObserver();
+    const ref = { current: document.createElement("div") };
+    const { result } = renderHook(() => useInView(ref));
+    expect(result.current).toBe(false);
+
+    act(() => observer.notify(false));
+    expect(result.current).toBe(false);
+
+    act(() => observer.notify(true));
+    expect(result.current).toBe(true);
+    expect(observer.disconnect).toHaveBeenCalled();
+  });
+});
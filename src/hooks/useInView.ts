@@ -0,0 +1,36 @@
+import { type RefObject, useEffect, useState } from "react";
+
+/**
+ * Tell whether an element has come into view.
+ *
+ * Design rationale:
+ * - The result latches: once the element has been seen it stays `true`, so work
+ *   started for it (rendering, image decoding) is not undone by scrolling away.
+ *   Virtualized lists unmount cards far from the viewport anyway.
+ * - Without `IntersectionObserver` the element counts as seen right away.
+ *
+ * @param ref - Ref of the element to watch
+ * @returns Whether the element has intersected the viewport
+ */
+export const useInView = (ref: RefObject<Element | null>): boolean => {
+  const [isInView, setIsInView] = useState(false);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || isInView) return;
+    if (typeof IntersectionObserver === "undefined") {
+      setIsInView(true);
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setIsInView(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref, isInView]);
+
+  return isInView;
+};
@@ -0,0 +1,71 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import type { App } from "obsidian";
+import { describe, expect, it, vi } from "vitest";
+import type { NoteData } from "../types";
+import { useNoteBody } from "./useNoteBody";
+
+const makeApp = (cachedRead: (file: { path: string }) => Promise<string>) =>
+  ({ vault: { cachedRead: vi.fn(cachedRead) } }) as unknown as App;
+
+const makeNote = (path: string): NoteData => ({ file: { path }, path }) as NoteData;
+
+describe("useNoteBody", () => {
+  it("reads the body of the note without its frontmatter", async () => {
+    const app = makeApp(() => Promise.resolve("---\ntitle: A\n---\nBody text"));
+    const { result } = renderHook(() => useNoteBody(app, makeNote("a.md"), true));
+
+    expect(result.current).toBeNull();
+    await waitFor(() => expect(result.current).toBe("Body text"));
+  });
+
+  it("does not read the note when the body is not needed", () => {
+    const app = makeApp(() => Promise.resolve("Body text"));
+    const { result } = renderHook(() => useNoteBody(app, makeNote("a.md"), false));
+
+    expect(result.current).toBeNull();
+    expect(app.vault.cachedRead).not.toHaveBeenCalled();
+  });
+
+  it("returns null if the note cannot be read", async () => {
+    const app = makeApp(() => Promise.reject(new Error("gone")));
+    const { result } = renderHook(() => useNoteBody(app, makeNote("a.md"), true));
+
+    await waitFor(() => expect(app.vault.cachedRead).toHaveBeenCalled());
+    expect(result.current).toBeNull();
+  });
+
+  it("drops the body of the previous note when the card shows another one", async () => {
+    const app = makeApp((file) =>
+      file.path === "a.md" ? Promise.resolve("Body A") : new Promise<string>(() => {})
+    );
+    const { result, rerender } = renderHook(({ note }) => useNoteBody(app, note, true), {
+      initialProps: { note: makeNote("a.md") },
+    });
+    await waitFor(() => expect(result.current).toBe("Body A"));
+
+    rerender({ note: makeNote("b.md") });
+
+    expect(result.current).toBeNull();
+  });
+
+  it("keeps the previous body of the same note while it is read again", async () => {
+    let finishRead = (_content: string) => {};
+    const app = makeApp(() => Promise.resolve("Old body"));
+    const { result, rerender } = renderHook(({ note }) => useNoteBody(app, note, true), {
+      initialProps: { note: makeNote("a.md") },
+    });
+    await waitFor(() => expect(result.current).toBe("Old body"));
+
+    vi.mocked(app.vault.cachedRead).mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          finishRead = resolve;
+        })
+    );
+    rerender({ note: makeNote("a.md") });
+    expect(result.current).toBe("Old body");
+
+    finishRead("New body");
+    await waitFor(() => expect(result.current).toBe("New body"));
+  });
+});
@@ -0,0 +1,44 @@
+import type { App } from "obsidian";
+import { useEffect, useState } from "react";
+import { removeFrontmatter } from "../store/noteProcessing";
+import type { NoteData } from "../types";
+
+/**
+ * Read the body of a note for the card showing it.
+ *
+ * Design rationale:
+ * - The note index keeps no note bodies, only the content index built from them.
+ *   Cards that show search snippets or a rendered excerpt read the body of their
+ *   own note, so only the cards on screen hold one.
+ * - Bodies are read through `vault.cachedRead`, which serves unchanged files from
+ *   Obsidian's cache, and read again when the note is reloaded (a new `note` object).
+ * - The previous body of the same note stays in use while it is read again, so an
+ *   edited note does not flash its preview; reads overtaken by newer ones are dropped.
+ *
+ * @param app - Obsidian app, for the vault
+ * @param note - Note whose body to read
+ * @param isNeeded - Whether the card shows anything made from the body
+ * @returns Body without frontmatter, or null while it is read, when not needed, or if reading fails
+ */
+export const useNoteBody = (app: App, note: NoteData, isNeeded: boolean): string | null => {
+  const [body, setBody] = useState<{ path: string; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!isNeeded) return;
+
+    let isCurrent = true;
+    app.vault.cachedRead(note.file).then(
+      (content) => {
+        if (isCurrent) setBody({ path: note.path, text: removeFrontmatter(content) });
+      },
+      () => {
+        if (isCurrent) setBody(null);
+      }
+    );
+    return () => {
+      isCurrent = false;
+    };
+  }, [app, note, isNeeded]);
+
+  return isNeeded && body?.path === note.path ? body.text : null;
+};
@@ -18,10 +18,12 @@ const makeNote = (id: string): NoteData => ({
   path: `${id}.md`,
   title: `Note ${id}`,
   preview: `Preview of ${id}`,
+  wordCount: 0,
   lastModified: new Date(),
   tags: [],
   frontmatter: null,
   folder: "",
+  backlinkCount: 0,
 });
 
 const makeNotes = (ids: readonly string[]): NoteData[] => ids.map(makeNote);
@@ -105,6 +107,47 @@ describe("useNoteGrid", () => {
     });
   });
 
+  describe("groups", () => {
+    const notes = makeNotes(["1", "2", "3", "4", "5"]);
+    const groups = [
+      { key: "a", label: "A", notes: notes.slice(0, 4) },
+      { key: "b", label: "B", notes: notes.slice(4) },
+    ];
+
+    it("starts a new row for every group and describes the group headers", () => {
+      const { result } = renderHook(() => useNoteGrid(notes, DEFAULT_ROW_SIZE, groups));
+
+      expect(result.current.noteRows.map((row) => row.notes.map((note) => note.path))).toEqual([
+        ["1.md", "2.md", "3.md"],
+        ["4.md"],
+        ["5.md"],
+      ]);
+      expect(result.current.groups).toEqual([
+        { key: "a", label: "A", noteCount: 4, rowCount: 2, isCollapsed: false },
+        { key: "b", label: "B", noteCount: 1, rowCount: 1, isCollapsed: false },
+      ]);
+    });
+
+    it("hides the rows of collapsed groups but keeps their headers", () => {
+      const { result } = renderHook(() => useNoteGrid(notes, DEFAULT_ROW_SIZE, groups, ["a"]));
+
+      expect(result.current.totalRows).toBe(1);
+      expect(result.current.groups[0]).toEqual({
+        key: "a",
+        label: "A",
+        noteCount: 4,
+        rowCount: 0,
+        isCollapsed: true,
+      });
+    });
+
+    it("returns no group headers for ungrouped notes", () => {
+      const { result } = renderGrid(notes);
+
+      expect(result.current.groups).toEqual([]);
+    });
+  });
+
   describe("memoization", () => {
     it("returns same reference when re-rendering with same arguments", () => {
       const notes = makeNotes(["1", "2"]);
@@ -1,4 +1,5 @@
 import { useMemo } from "react";
+import type { NoteGroup } from "../store/grouping";
 import type { NoteData } from "../types/note";
 
 /**
@@ -11,6 +12,22 @@ export interface GridRow {
   emptySlots: number;
 }
 
+/**
+ * A group header of the grid with the rows displayed under it.
+ */
+export interface GridGroup {
+  /** Identifier of the group */
+  key: string;
+  /** Text shown in the group header */
+  label: string;
+  /** Number of notes in the group, shown in the header */
+  noteCount: number;
+  /** Number of rows displayed under the header (0 while collapsed) */
+  rowCount: number;
+  /** Whether the group is collapsed */
+  isCollapsed: boolean;
+}
+
 /**
  * Return type for the useNoteGrid hook.
  */
@@ -19,8 +36,35 @@ export interface UseNoteGridReturn {
   noteRows: GridRow[];
   /** Total number of rows in the grid */
   totalRows: number;
+  /** Group headers in display order; empty when the notes are not grouped */
+  groups: GridGroup[];
 }
 
+/** Shared defaults, so that renders without groups keep the memoized rows */
+const NO_GROUPS: NoteGroup[] = [];
+const NO_COLLAPSED_GROUPS: string[] = [];
+
+/**
+ * Split notes into rows of rowSize notes, padding the last row with empty slots.
+ */
+const chunkIntoRows = (notes: NoteData[], rowSize: number): GridRow[] => {
+  const rows: GridRow[] = [];
+
+  // Process notes in chunks of rowSize to create grid rows
+  for (let i = 0; i < notes.length; i += rowSize) {
+    const rowNotes = notes.slice(i, i + rowSize);
+    // Calculate empty slots for grid alignment (last row may be incomplete)
+    const emptySlots = Math.max(0, rowSize - rowNotes.length);
+
+    rows.push({
+      notes: rowNotes,
+      emptySlots,
+    });
+  }
+
+  return rows;
+};
+
 /**
  * Custom hook that transforms a flat array of notes into a grid layout structure.
  *
@@ -28,36 +72,51 @@ export interface UseNoteGridReturn {
  * collections of notes in a responsive grid format. It automatically calculates
  * empty slots for proper grid alignment and provides memoized results for performance.
  *
+ * When groups are given, every group starts a new row and the rows of all groups
+ * are concatenated in group order, matching the item indexes of react-virtuoso's
+ * grouped mode. Collapsed groups contribute no rows.
+ *
  * @param filteredNotes - Array of notes to be arranged in grid format
  * @param rowSize - Number of notes per row (must be positive integer)
- * @returns Object containing grid rows and metadata
+ * @param groups - Groups of the notes in display order; empty when the notes are not grouped
+ * @param collapsedGroups - Keys of the groups whose rows are hidden
+ * @returns Object containing grid rows, group headers and metadata
  */
-export const useNoteGrid = (filteredNotes: NoteData[], rowSize: number): UseNoteGridReturn => {
-  const noteRows = useMemo<GridRow[]>(() => {
+export const useNoteGrid = (
+  filteredNotes: NoteData[],
+  rowSize: number,
+  groups: NoteGroup[] = NO_GROUPS,
+  collapsedGroups: string[] = NO_COLLAPSED_GROUPS
+): UseNoteGridReturn => {
+  const { noteRows, gridGroups } = useMemo(() => {
     // Early return for invalid inputs to avoid unnecessary computation
     if (!filteredNotes.length || !Number.isInteger(rowSize) || rowSize <= 0) {
-      return [];
+      return { noteRows: [], gridGroups: [] };
     }
 
-    const rows: GridRow[] = [];
-
-    // Process notes in chunks of rowSize to create grid rows
-    for (let i = 0; i < filteredNotes.length; i += rowSize) {
-      const rowNotes = filteredNotes.slice(i, i + rowSize);
-      // Calculate empty slots for grid alignment (last row may be incomplete)
-      const emptySlots = Math.max(0, rowSize - rowNotes.length);
-
-      rows.push({
-        notes: rowNotes,
-        emptySlots,
-      });
+    if (groups.length === 0) {
+      return { noteRows: chunkIntoRows(filteredNotes, rowSize), gridGroups: [] };
     }
 
-    return rows;
-  }, [filteredNotes, rowSize]);
+    const rows: GridRow[] = [];
+    const headers: GridGroup[] = groups.map((group) => {
+      const isCollapsed = collapsedGroups.includes(group.key);
+      const groupRows = isCollapsed ? [] : chunkIntoRows(group.notes, rowSize);
+      rows.push(...groupRows);
+      return {
+        key: group.key,
+        label: group.label,
+        noteCount: group.notes.length,
+        rowCount: groupRows.length,
+        isCollapsed,
+      };
+    });
+    return { noteRows: rows, gridGroups: headers };
+  }, [filteredNotes, rowSize, groups, collapsedGroups]);
 
   return {
     noteRows,
     totalRows: noteRows.length,
+    groups: gridGroups,
   };
 };
@@ -166,6 +166,47 @@ describe("useResponsiveRowSize", () => {
     expect(result.current.rowSize).toBe(1);
   });
 
+  it("reports narrow containers, but not unmeasured ones", () => {
+    const { instances, MockResizeObserver } = withMockResizeObserver();
+
+    const { result } = renderHook(() => useResponsiveRowSize());
+    act(() => {
+      result.current.ref(createElWithWidth(0));
+    });
+    expect(result.current.isNarrow).toBe(false);
+
+    const ro = instances[0] as InstanceType<typeof MockResizeObserver>;
+    act(() => {
+      ro.trigger(320);
+    });
+    expect(result.current.isNarrow).toBe(true);
+
+    act(() => {
+      ro.trigger(800);
+    });
+    expect(result.current.isNarrow).toBe(false);
+  });
+
+  it("recomputes rowSize from the last width when the card width or row limit changes", () => {
+    withMockResizeObserver();
+
+    const { result, rerender } = renderHook(
+      ({ cardMinWidth, maxPerRow }) => useResponsiveRowSize(cardMinWidth, maxPerRow),
+      { initialProps: { cardMinWidth: CARD_MIN_WIDTH, maxPerRow: MAX_PER_ROW } }
+    );
+    act(() => {
+      result.current.ref(createElWithWidth(1200)); // floor(1200/292) = 4
+    });
+    expect(result.current.rowSize).toBe(4);
+
+    // Zoomed out: floor(1200/200) = 6, clamped to the row limit
+    rerender({ cardMinWidth: 200, maxPerRow: MAX_PER_ROW });
+    expect(result.current.rowSize).toBe(5);
+
+    rerender({ cardMinWidth: 200, maxPerRow: 6 });
+    expect(result.current.rowSize).toBe(6);
+  });
+
   it("does not rerender when next rowSize equals previous (returns prev)", () => {
     const { instances, MockResizeObserver } = withMockResizeObserver();
 
@@ -1,4 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { NARROW_CONTAINER_WIDTH } from "../store/constants";
+import { DEFAULT_CARD_DISPLAY_SETTINGS } from "../types";
 
 /**
  * Compute a responsive "row size" (columns per row) from a container's width.
@@ -12,58 +14,86 @@ import { useCallback, useEffect, useRef, useState } from "react";
  *   first render is reasonable, but it will not update on subsequent resizes.
  * - The width→columns calculation (including clamping) is delegated to `getRowSize`
  *   to keep this hook focused on measurement/observation concerns.
+ * - The card width and the row limit come from the settings and can change at any
+ *   time (e.g. zooming); the row size is then recomputed from the last measured width.
+ * - The same measurement tells whether the container is narrow (e.g. a sidebar leaf).
+ *   An unmeasured (zero) width is not narrow, so hidden leaves keep their layout.
  *
  * SSR/test notes:
  * - The hook only touches the DOM inside the ref callback, making it safe to import
  *   in non-DOM environments. Attaching the returned ref should happen in the browser.
  *
- * @returns Object with the current `rowSize` and a callback `ref` to attach to the
- * container element whose width should be observed.
+ * @param cardMinWidth - Narrowest width of a card in pixels
+ * @param maxPerRow - Most cards in a row
+ * @returns Object with the current `rowSize`, whether the container `isNarrow`, and a
+ * callback `ref` to attach to the container element whose width should be observed.
  */
-export const useResponsiveRowSize = (): {
+export const useResponsiveRowSize = (
+  cardMinWidth = DEFAULT_CARD_DISPLAY_SETTINGS.cardMinWidth,
+  maxPerRow = DEFAULT_CARD_DISPLAY_SETTINGS.maxCardsPerRow
+): {
   rowSize: number;
+  isNarrow: boolean;
   ref: (node: HTMLElement | null) => void;
 } => {
   const [rowSize, setRowSize] = useState<number>(1);
+  const [isNarrow, setIsNarrow] = useState(false);
   const observerRef = useRef<ResizeObserver | null>(null);
   const elementRef = useRef<HTMLElement | null>(null);
+  // Last measured width and the current sizing, read by the stable ref callback
+  const widthRef = useRef(0);
+  const sizingRef = useRef({ cardMinWidth, maxPerRow });
+  sizingRef.current = { cardMinWidth, maxPerRow };
 
-  const ref = useCallback((node: HTMLElement | null) => {
-    // Disconnect any prior observer when the node changes or on unmount to
-    // prevent leaks and avoid observing stale elements after re-mounts.
-    if (observerRef.current) {
-      observerRef.current.disconnect();
-      observerRef.current = null;
-    }
-    elementRef.current = null;
-
-    if (!node) return;
-
-    elementRef.current = node;
-
-    // Initial synchronous measurement to minimize visual flicker from a default value.
-    const width = node.getBoundingClientRect().width; // border-box
+  const updateRowSize = useCallback((width: number) => {
+    widthRef.current = width;
+    const { cardMinWidth, maxPerRow } = sizingRef.current;
     setRowSize((prev) => {
-      const next = getRowSize(width);
+      const next = getRowSize(width, cardMinWidth, maxPerRow);
       return next === prev ? prev : next;
     });
-
-    // Attach ResizeObserver if available. Throttling is intentionally omitted here:
-    // `getRowSize` is cheap and ResizeObserver batches notifications.
-    if (typeof ResizeObserver !== "undefined") {
-      const ro = new ResizeObserver((entries) => {
-        for (const entry of entries) {
-          setRowSize((prev) => {
-            const next = getRowSize(entry.contentRect.width);
-            return next === prev ? prev : next;
-          });
-        }
-      });
-      observerRef.current = ro;
-      ro.observe(node);
-    }
+    setIsNarrow(width > 0 && width < NARROW_CONTAINER_WIDTH);
   }, []);
 
+  const ref = useCallback(
+    (node: HTMLElement | null) => {
+      // Disconnect any prior observer when the node changes or on unmount to
+      // prevent leaks and avoid observing stale elements after re-mounts.
+      if (observerRef.current) {
+        observerRef.current.disconnect();
+        observerRef.current = null;
+      }
+      elementRef.current = null;
+
+      if (!node) return;
+
+      elementRef.current = node;
+
+      // Initial synchronous measurement to minimize visual flicker from a default value.
+      updateRowSize(node.getBoundingClientRect().width); // border-box
+
+      // Attach ResizeObserver if available. Throttling is intentionally omitted here:
+      // `getRowSize` is cheap and ResizeObserver batches notifications.
+      if (typeof ResizeObserver !== "undefined") {
+        const ro = new ResizeObserver((entries) => {
+          for (const entry of entries) {
+            updateRowSize(entry.contentRect.width);
+          }
+        });
+        observerRef.current = ro;
+        ro.observe(node);
+      }
+    },
+    [updateRowSize]
+  );
+
+  // Recompute the row size when the card width or the row limit changes
+  useEffect(() => {
+    if (!elementRef.current) return;
+    const next = getRowSize(widthRef.current, cardMinWidth, maxPerRow);
+    setRowSize((prev) => (next === prev ? prev : next));
+  }, [cardMinWidth, maxPerRow]);
+
   // Ensure observer is disconnected when the component using this hook unmounts.
   useEffect(() => {
     return () => {
@@ -75,10 +105,10 @@ export const useResponsiveRowSize = (): {
     };
   }, []);
 
-  return { rowSize, ref };
+  return { rowSize, isNarrow, ref };
 };
 
-const getRowSize = (width: number, cardMinWidth = 292, maxPerRow = 5): number => {
+const getRowSize = (width: number, cardMinWidth: number, maxPerRow: number): number => {
   if (width <= 0) return 1;
   const maxCards = Math.floor(width / cardMinWidth);
   return Math.max(1, Math.min(maxCards, maxPerRow));
@@ -0,0 +1,45 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useRowIds } from "./useRowIds";
+
+const renderRowIds = (rowCount: number) =>
+  renderHook(({ rowCount }) => useRowIds(rowCount), { initialProps: { rowCount } });
+
+describe("useRowIds", () => {
+  it("gives every row a distinct id", () => {
+    const { result } = renderRowIds(3);
+
+    expect(new Set(result.current.rowIds).size).toBe(3);
+  });
+
+  it("keeps the ids of existing rows when rows are added", () => {
+    const { result, rerender } = renderRowIds(2);
+    const [first, second] = result.current.rowIds;
+
+    rerender({ rowCount: 3 });
+
+    expect(result.current.rowIds.slice(0, 2)).toEqual([first, second]);
+    expect(result.current.rowIds[2]).not.toBe(first);
+    expect(result.current.rowIds[2]).not.toBe(second);
+  });
+
+  it("keeps the ids of the rows after a removed row", () => {
+    const { result, rerender } = renderRowIds(3);
+    const [first, , third] = result.current.rowIds;
+
+    act(() => result.current.removeRowId(1));
+    rerender({ rowCount: 2 });
+
+    expect(result.current.rowIds).toEqual([first, third]);
+  });
+
+  it("does not reuse the ids of removed rows", () => {
+    const { result, rerender } = renderRowIds(2);
+    const removed = result.current.rowIds[1];
+
+    rerender({ rowCount: 1 });
+    rerender({ rowCount: 2 });
+
+    expect(result.current.rowIds[1]).not.toBe(removed);
+  });
+});
@@ -0,0 +1,46 @@
+import { useCallback, useState } from "react";
+
+/** Last id handed out, shared by all editors so that ids never repeat */
+let lastRowId = 0;
+
+/**
+ * Keep the ids of the first `rowCount` rows and create ids for rows added after them (internal)
+ */
+const fitRowIds = (rowIds: number[], rowCount: number): number[] =>
+  rowIds.length >= rowCount
+    ? rowIds.slice(0, rowCount)
+    : [...rowIds, ...Array.from({ length: rowCount - rowIds.length }, () => ++lastRowId)];
+
+/**
+ * React hook that gives the rows of an editable list stable ids to key them by.
+ *
+ * Design rationale:
+ * - Editor rows (sort keys, property conditions) are plain values that may repeat
+ *   and have no identity of their own, so the ids are kept next to them rather than
+ *   on the stored rows.
+ * - Rows are added at the end and removed anywhere: added rows get new ids from the
+ *   row count, removed rows must be reported with `removeRowId` in the same update
+ *   that removes them, so the rows after them keep their ids (and their input focus).
+ * - Lists replaced from outside (clear, restore) keep the ids by position.
+ *
+ * @param rowCount - Number of rows currently shown
+ * @returns `rowIds` (one per row, in order) and `removeRowId` to call when a row is removed
+ */
+export const useRowIds = (
+  rowCount: number
+): { rowIds: number[]; removeRowId: (index: number) => void } => {
+  const [rowIds, setRowIds] = useState(() => fitRowIds([], rowCount));
+
+  // Adjust the ids while rendering when the row count changed, so that no render
+  // shows rows without ids
+  const fittedRowIds = rowIds.length === rowCount ? rowIds : fitRowIds(rowIds, rowCount);
+  if (fittedRowIds !== rowIds) {
+    setRowIds(fittedRowIds);
+  }
+
+  const removeRowId = useCallback((index: number) => {
+    setRowIds((current) => current.filter((_, rowIndex) => rowIndex !== index));
+  }, []);
+
+  return { rowIds: fittedRowIds, removeRowId };
+};
@@ -0,0 +1,82 @@
+import { renderHook } from "@testing-library/react";
+import type { RefObject } from "react";
+import type { VirtuosoHandle } from "react-virtuoso";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useScrollToAnchor } from "./useScrollToAnchor";
+
+const EXPECTED_REAPPLY_COUNT = 4; // 100/200/300/500ms
+
+const createRefWithSpy = (): {
+  ref: RefObject<VirtuosoHandle>;
+  spy: ReturnType<typeof vi.fn>;
+} => {
+  const spy = vi.fn();
+  const ref: RefObject<VirtuosoHandle> = {
+    // We only need scrollToIndex for these tests; cast to VirtuosoHandle for compatibility
+    current: { scrollToIndex: spy } as unknown as VirtuosoHandle,
+  };
+  return { ref, spy };
+};
+
+describe("useScrollToAnchor", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("does nothing while the anchor row is unknown", () => {
+    const { ref, spy } = createRefWithSpy();
+    const onApplied = vi.fn();
+
+    renderHook(() => useScrollToAnchor(ref, null, onApplied));
+    vi.runAllTimers();
+
+    expect(spy).not.toHaveBeenCalled();
+    expect(onApplied).not.toHaveBeenCalled();
+  });
+
+  it("scrolls to the anchor row, re-applies, then reports completion", () => {
+    const { ref, spy } = createRefWithSpy();
+    const onApplied = vi.fn();
+
+    renderHook(() => useScrollToAnchor(ref, 4, onApplied));
+
+    expect(spy).toHaveBeenCalledWith({ index: 4, align: "start", behavior: "auto" });
+    expect(onApplied).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+
+    expect(spy).toHaveBeenCalledTimes(1 + EXPECTED_REAPPLY_COUNT);
+    expect(onApplied).toHaveBeenCalledTimes(1);
+  });
+
+  it("restarts with the new row when the index changes", () => {
+    const { ref, spy } = createRefWithSpy();
+    const onApplied = vi.fn();
+
+    const { rerender } = renderHook(({ index }) => useScrollToAnchor(ref, index, onApplied), {
+      initialProps: { index: 4 },
+    });
+    vi.advanceTimersByTime(150);
+    rerender({ index: 2 });
+    vi.runAllTimers();
+
+    expect(spy).toHaveBeenLastCalledWith({ index: 2, align: "start", behavior: "auto" });
+    expect(onApplied).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels pending attempts on unmount", () => {
+    const { ref, spy } = createRefWithSpy();
+    const onApplied = vi.fn();
+
+    const { unmount } = renderHook(() => useScrollToAnchor(ref, 1, onApplied));
+    unmount();
+    vi.runAllTimers();
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(onApplied).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import type { RefObject } from "react";
+import { useEffect } from "react";
+import type { VirtuosoHandle } from "react-virtuoso";
+
+/**
+ * Scrolls a react-virtuoso list to a restored anchor row once it is known.
+ *
+ * Used to bring a view back to where it was scrolled when its state is restored
+ * from the workspace layout. The consumer resolves the anchor to a row index
+ * (null while the anchor cannot be located yet, e.g. before notes are loaded).
+ *
+ * Like `useScrollToTopOnChange`, the scroll command is re-issued on short timeouts
+ * because react-virtuoso may override early scroll commands while it measures rows.
+ * `onApplied` is called after the last attempt so the consumer can drop the anchor.
+ *
+ * @param virtuosoRef - Ref to the Virtuoso handle used to perform the scroll.
+ * @param index - Row index to bring to the top, or null when there is nothing to restore.
+ * @param onApplied - Called once the scroll has been issued for the final time.
+ * @returns void
+ */
+export const useScrollToAnchor = (
+  virtuosoRef: RefObject<VirtuosoHandle>,
+  index: number | null,
+  onApplied: () => void
+): void => {
+  useEffect(() => {
+    if (index === null || !virtuosoRef.current) return;
+
+    const scroll = () => {
+      virtuosoRef.current?.scrollToIndex({ index, align: "start", behavior: "auto" });
+    };
+    scroll();
+
+    const delays = [100, 200, 300, 500];
+    const timeouts = delays.map((delay, i) =>
+      setTimeout(() => {
+        scroll();
+        if (i === delays.length - 1) onApplied();
+      }, delay)
+    );
+
+    return () => {
+      // Re-run with a new index (e.g. column count changed) or unmount: drop stale attempts
+      timeouts.forEach(clearTimeout);
+    };
+  }, [index, virtuosoRef, onApplied]);
+};
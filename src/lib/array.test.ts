@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { toggleInArray } from "./array";
+import { toggleInArray, withOccurrenceKeys } from "./array";
 
 describe("toggleInArray", () => {
   describe("adds when not present", () => {
@@ -101,3 +101,28 @@ describe("toggleInArray", () => {
     });
   });
 });
+
+describe("withOccurrenceKeys", () => {
+  const identity = (value: string) => value;
+
+  it("keys repeated values by their occurrence", () => {
+    expect(withOccurrenceKeys(["a", "b", "a"], identity)).toEqual([
+      { key: "0:a", value: "a" },
+      { key: "0:b", value: "b" },
+      { key: "1:a", value: "a" },
+    ]);
+  });
+
+  it("keeps keys distinct from values that look like keys", () => {
+    const keys = withOccurrenceKeys(["a", "a", "1:a"], identity).map(({ key }) => key);
+    expect(new Set(keys).size).toBe(3);
+  });
+
+  it("keys values by their text", () => {
+    const values = [{ n: 1 }, { n: 1 }];
+    expect(withOccurrenceKeys(values, (value) => String(value.n)).map(({ key }) => key)).toEqual([
+      "0:1",
+      "1:1",
+    ]);
+  });
+});
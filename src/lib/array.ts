@@ -2,3 +2,20 @@ export const toggleInArray = <T>(list: readonly T[], item: T): T[] => {
   const contains = list.some((x) => Object.is(x, item));
   return contains ? list.filter((x) => !Object.is(x, item)) : [...list, item];
 };
+
+/**
+ * Pair each value with a React key made of its text and the number of equal values before it.
+ * Suits lists whose values may repeat and have no id, e.g. snippets or list property chips.
+ */
+export const withOccurrenceKeys = <T>(
+  values: readonly T[],
+  toText: (value: T) => string
+): { key: string; value: T }[] => {
+  const counts = new Map<string, number>();
+  return values.map((value) => {
+    const text = toText(value);
+    const count = counts.get(text) ?? 0;
+    counts.set(text, count + 1);
+    return { key: `${count}:${text}`, value };
+  });
+};
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { formatRelativeDate, getDisplayDate, parseDateFilter } from "./dateUtils";
+import {
+  formatRelativeDate,
+  getDisplayDate,
+  getNoteDateByKeys,
+  parseDateFilter,
+  toDayKey,
+} from "./dateUtils";
 
 /**
  * Test data constants for consistent date testing.
@@ -73,6 +79,11 @@ describe("dateUtils", () => {
           value: "2024-01-15T10:30:00.000Z",
           expectedTime: new Date("2024-01-15T10:30:00.000Z").getTime(),
         },
+        {
+          description: "timestamp",
+          value: 1705314600000 as any,
+          expectedTime: 1705314600000,
+        },
       ];
 
       it.each(validDateTestCases)(
@@ -84,61 +95,85 @@ describe("dateUtils", () => {
           expect(result).toBeInstanceOf(Date);
 
           if (expectedDate) {
-            expect(result.getTime()).toBe(expectedDate.getTime());
+            expect(result?.getTime()).toBe(expectedDate.getTime());
           } else if (expectedTime !== undefined) {
-            expect(result.getTime()).toBe(expectedTime);
+            expect(result?.getTime()).toBe(expectedTime);
           } else if (
             expectedYear !== undefined &&
             expectedMonth !== undefined &&
             expectedDay !== undefined
           ) {
-            expect(result.getUTCFullYear()).toBe(expectedYear);
-            expect(result.getUTCMonth()).toBe(expectedMonth);
-            expect(result.getUTCDate()).toBe(expectedDay);
+            expect(result?.getUTCFullYear()).toBe(expectedYear);
+            expect(result?.getUTCMonth()).toBe(expectedMonth);
+            expect(result?.getUTCDate()).toBe(expectedDay);
           }
         }
       );
     });
 
     describe("when frontmatter contains invalid updated values", () => {
-      // Test cases for values that should trigger fallback to lastModified
-      const fallbackTestCases = [
+      // Test cases for values that are not dates
+      const invalidTestCases = [
         { description: "invalid string", value: "not-a-date" },
         { description: "empty string", value: "" },
         { description: "whitespace only", value: "   " },
         { description: "impossible date", value: "2024-13-45" }, // 13th month, 45th day
-        { description: "number", value: 123456 as any },
+        { description: "date without a year", value: "Jan 15" },
+        { description: "boolean", value: true as any },
         { description: "null", value: null as any },
         { description: "undefined", value: undefined },
       ];
 
-      it.each(fallbackTestCases)(
-        "should fallback to lastModified when frontmatter updated is $description",
+      it.each(invalidTestCases)(
+        "should return null when frontmatter updated is $description",
         ({ value }) => {
           const note = createNoteWithFrontmatter(value);
-          const result = getDisplayDate(note as any);
-          // Compare timestamps to allow for cloned Date instances
-          expect(result.getTime()).toBe(note.lastModified.getTime());
+          expect(getDisplayDate(note as any)).toBeNull();
         }
       );
+
+      it("should fall back to lastModified only when the chain includes mtime", () => {
+        const note = createNoteWithFrontmatter("not-a-date");
+        expect(getDisplayDate(note as any, ["updated", "mtime"])).toBe(note.lastModified);
+      });
     });
 
     describe("when frontmatter is missing or empty", () => {
-      it("should fallback to lastModified when no frontmatter", () => {
+      it("should return null when no frontmatter", () => {
         const note = createNoteWithoutFrontmatter();
-        const result = getDisplayDate(note as any);
-        // Compare timestamps to allow for cloned Date instances
-        expect(result.getTime()).toBe(note.lastModified.getTime());
+        expect(getDisplayDate(note as any)).toBeNull();
       });
 
-      it("should fallback to lastModified when frontmatter exists but no updated field", () => {
+      it("should return null when frontmatter exists but no updated field", () => {
         const note = {
           lastModified: TEST_DATES.BASE_DATE,
           frontmatter: { title: "Test Note", tags: ["test"] },
         };
-        const result = getDisplayDate(note as any);
-        // Compare timestamps to allow for cloned Date instances
-        expect(result.getTime()).toBe(note.lastModified.getTime());
+        expect(getDisplayDate(note as any)).toBeNull();
+      });
+    });
+
+    describe("with a chain of date keys", () => {
+      it("should use the first key holding a valid date", () => {
+        const note = {
+          lastModified: TEST_DATES.BASE_DATE,
+          frontmatter: { updated: "invalid", created: "2024-01-10" },
+        };
+
+        const result = getDisplayDate(note as any, ["updated", "created", "mtime"]);
+
+        expect(result?.getTime()).toBe(new Date("2024-01-10").getTime());
+      });
+
+      it("should read the file creation time for ctime and skip it when unavailable", () => {
+        const ctime = new Date("2023-12-01T00:00:00Z").getTime();
+        const note = { lastModified: TEST_DATES.BASE_DATE, frontmatter: null };
+
+        expect(getDisplayDate({ ...note, file: { stat: { ctime } } }, ["ctime"])?.getTime()).toBe(
+          ctime
+        );
+        expect(getNoteDateByKeys(note, ["ctime"])).toBeNull();
+        expect(getNoteDateByKeys(note, ["ctime", "mtime"])).toBe(TEST_DATES.BASE_DATE);
       });
     });
   });
@@ -264,5 +299,18 @@ describe("dateUtils", () => {
     it("returns null for after with invalid date string", () => {
       expect(parseDateFilter("after", "not-a-date")).toBeNull();
     });
+
+    it("parses on with a day as local midnight", () => {
+      const result = parseDateFilter("on", "2024-01-05");
+      expect(result!.getTime()).toBe(new Date(2024, 0, 5).getTime());
+      expect(parseDateFilter("on", "not-a-date")).toBeNull();
+    });
+  });
+
+  describe("toDayKey", () => {
+    it("formats the local day with zero padding", () => {
+      expect(toDayKey(new Date(2024, 0, 5, 23, 59))).toBe("2024-01-05");
+      expect(toDayKey(new Date(2024, 11, 31, 0, 0))).toBe("2024-12-31");
+    });
   });
 });
@@ -3,6 +3,8 @@
  * These utilities help standardize date handling across the application
  */
 
+import { CTIME_SORT_KEY, MTIME_SORT_KEY } from "../store/constants";
+
 /**
  * Interface for note frontmatter with optional updated field
  * Supports both string and Date formats for the updated field to handle
@@ -24,6 +26,8 @@ interface NoteData {
   lastModified: Date;
   /** Optional frontmatter data containing user-defined metadata */
   frontmatter?: NoteFrontmatter | null;
+  /** Optional file with its stats, used for the creation time */
+  file?: { stat?: { ctime?: number } };
 }
 
 /**
@@ -90,28 +94,122 @@ export const formatRelativeDate = (date: Date, referenceTime: Date): string => {
 /**
  * Extracts the most appropriate date to display for a note
  *
- * Prioritizes the frontmatter 'updated' field if available and valid,
- * otherwise falls back to the file's lastModified timestamp. This allows
- * users to override file system dates with custom update dates in frontmatter.
+ * Uses the first of the given keys holding a valid date, so that the card shows
+ * the date the view sorts by (and its fallback keys). This allows users to override
+ * file system dates with custom dates in frontmatter; the file's lastModified
+ * timestamp is only used when the chain includes 'mtime'.
+ *
+ * @param note - The note data object containing lastModified date and optional frontmatter
+ * @param dateKeys - Frontmatter fields or 'mtime'/'ctime' to try in order (default: 'updated')
+ * @returns The date to display for this note, or null if no key holds a date
+ */
+export const getDisplayDate = (note: NoteData, dateKeys: string[] = ["updated"]): Date | null =>
+  getNoteDateByKeys(note, dateKeys);
+
+/**
+ * Finds the first date of a note among a chain of keys
+ *
+ * Each key is either a frontmatter field, 'mtime' (file modification time) or
+ * 'ctime' (file creation time). Keys without a value parseable as a date are skipped.
  *
  * @param note - The note data object containing lastModified date and optional frontmatter
- * @returns The most appropriate Date object to display for this note
+ * @param dateKeys - Keys to try in order, e.g. ["updated", "created", "ctime", "mtime"]
+ * @returns The first date found, or null if no key holds a date
+ */
+export const getNoteDateByKeys = (note: NoteData, dateKeys: string[]): Date | null => {
+  for (const key of dateKeys) {
+    if (key === MTIME_SORT_KEY) return note.lastModified;
+    if (key === CTIME_SORT_KEY) {
+      const ctime = note.file?.stat?.ctime;
+      if (typeof ctime === "number") return new Date(ctime);
+      continue;
+    }
+
+    const date = parseDateValue(note.frontmatter?.[key]);
+    if (date) return date;
+  }
+  return null;
+};
+
+/**
+ * Parses a frontmatter value into a Date object if possible
+ *
+ * Shared by the date filters, the sort and the card footer so that all three
+ * agree on which values are dates. Accepts valid Date objects, timestamps in
+ * milliseconds and date strings accepted by parseDateSafely.
+ *
+ * @param value - The frontmatter value (Date, number, string, or any other type)
+ * @returns A valid Date object or null if the value is not a date
+ */
+export const parseDateValue = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isValidDate(value) ? value : null;
+  }
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return Number.isFinite(value) && isValidDate(date) ? date : null;
+  }
+  if (typeof value === "string") {
+    return parseDateSafely(value.trim());
+  }
+  return null;
+};
+
+/**
+ * Safely parse a date string with validation
+ *
+ * Performs basic validation to avoid ambiguous date parsing:
+ * - Requires minimum length and year pattern
+ * - Validates resulting date is within reasonable range
+ * - Returns null for invalid inputs
+ *
+ * @param dateString - The text to parse
+ * @returns A valid Date object or null if parsing fails
  */
-export const getDisplayDate = (note: NoteData): Date => {
-  // Try to use user-defined updated date from frontmatter first
-  const updatedDate = parseUpdatedDate(note.frontmatter?.updated);
+export const parseDateSafely = (dateString: string): Date | null => {
+  // Pre-validate: must have reasonable length and contain 4-digit year
+  if (!dateString || dateString.length < 4 || !/\d{4}/.test(dateString)) {
+    return null;
+  }
+
+  const parsed = new Date(dateString);
+
+  // Check if parsing succeeded
+  if (!isValidDate(parsed)) {
+    return null;
+  }
 
-  // Fallback to file system modification time using nullish coalescing
-  return updatedDate ?? note.lastModified;
+  // Validate year is within reasonable range (1900-2100)
+  const year = parsed.getFullYear();
+  if (year < 1900 || year > 2100) {
+    return null;
+  }
+
+  return parsed;
+};
+
+/**
+ * Formats the local calendar day of a date as YYYY-MM-DD
+ *
+ * Unlike `toISOString`, the day does not shift for dates near midnight in
+ * time zones away from UTC.
+ *
+ * @param date - Date to format
+ * @returns The local day, e.g. "2024-01-05"
+ */
+export const toDayKey = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
 };
 
 // === Date filter parsing (moved from dateFilter.ts) ===
-export type DateFilterType = "within" | "after";
+export type DateFilterType = "within" | "after" | "on";
 
 /**
  * Parse user input and date filter type into a concrete Date value.
  * - within: interprets input as a number of days (parseInt), must be > 0
  * - after: interprets input as a date string, must be a valid date
+ * - on: interprets input as a date string; a YYYY-MM-DD day is read as local midnight
  * Returns null if parsing fails or input is empty/invalid.
  */
 export const parseDateFilter = (
@@ -132,32 +230,11 @@ export const parseDateFilter = (
     return null;
   }
 
-  const parsed = new Date(raw);
+  const day = type === "on" ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw) : null;
+  const parsed = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])) : new Date(raw);
   return Number.isNaN(parsed.getTime()) ? null : parsed;
 };
 
-/**
- * Parses a frontmatter updated value into a Date object if possible
- * Handles both Date objects and string representations gracefully
- *
- * @param updatedValue - The updated value from frontmatter (Date, string, or any other type)
- * @returns A valid Date object or null if parsing fails
- */
-const parseUpdatedDate = (updatedValue: unknown): Date | null => {
-  // Early return for already valid Date objects
-  if (isValidDate(updatedValue)) {
-    return updatedValue;
-  }
-
-  // Parse string values, but only if they contain actual content
-  if (typeof updatedValue === "string" && updatedValue.trim()) {
-    const parsedDate = new Date(updatedValue);
-    return isValidDate(parsedDate) ? parsedDate : null;
-  }
-
-  return null;
-};
-
 /**
  * Validates if a value is a valid Date object
  * Uses type predicate to provide type safety for subsequent operations
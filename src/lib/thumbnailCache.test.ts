@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { COVER_THUMBNAIL_CACHE_LIMIT } from "../store/constants";
+import { clearThumbnailCache, getCachedThumbnail, loadThumbnail } from "./thumbnailCache";
+
+describe("thumbnailCache", () => {
+  let imageSize: number;
+  let decode: ReturnType<typeof vi.fn>;
+  let objectUrlCount: number;
+
+  beforeEach(() => {
+    imageSize = 1000;
+    objectUrlCount = 0;
+    decode = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(HTMLImageElement.prototype, "naturalWidth", "get").mockImplementation(() => imageSize);
+    vi.spyOn(HTMLImageElement.prototype, "naturalHeight", "get").mockImplementation(
+      () => imageSize / 2
+    );
+    HTMLImageElement.prototype.decode = decode;
+    HTMLCanvasElement.prototype.getContext = vi.fn(() => ({ drawImage: vi.fn() })) as any;
+    HTMLCanvasElement.prototype.toBlob = vi.fn((callback: BlobCallback) => {
+      callback(new Blob(["thumbnail"]));
+    });
+    URL.createObjectURL = vi.fn(() => `blob:thumbnail-${++objectUrlCount}`);
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    clearThumbnailCache();
+    vi.restoreAllMocks();
+  });
+
+  it("scales large images down to an object URL", async () => {
+    await expect(loadThumbnail("app://vault/large.png")).resolves.toBe("blob:thumbnail-1");
+
+    const canvas = vi.mocked(HTMLCanvasElement.prototype.toBlob).mock.contexts[0] as any;
+    expect(canvas.width).toBe(480);
+    expect(canvas.height).toBe(240);
+  });
+
+  it("uses small and SVG images as they are", async () => {
+    await expect(loadThumbnail("app://vault/large.svg?123")).resolves.toBe(
+      "app://vault/large.svg?123"
+    );
+    imageSize = 200;
+    await expect(loadThumbnail("app://vault/small.png")).resolves.toBe("app://vault/small.png");
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it("uses the image as it is when the canvas cannot read it", async () => {
+    HTMLCanvasElement.prototype.toBlob = vi.fn(() => {
+      throw new DOMException("Tainted canvas", "SecurityError");
+    });
+
+    await expect(loadThumbnail("https://example.com/a.png")).resolves.toBe(
+      "https://example.com/a.png"
+    );
+  });
+
+  it("decodes each image once and returns it from the cache afterwards", async () => {
+    expect(getCachedThumbnail("app://vault/a.png")).toBeUndefined();
+
+    const [first, second] = await Promise.all([
+      loadThumbnail("app://vault/a.png"),
+      loadThumbnail("app://vault/a.png"),
+    ]);
+
+    expect(first).toBe(second);
+    expect(decode).toHaveBeenCalledTimes(1);
+    expect(getCachedThumbnail("app://vault/a.png")).toBe(first);
+  });
+
+  it("does not cache images that fail to load", async () => {
+    decode.mockRejectedValueOnce(new Error("broken"));
+
+    await expect(loadThumbnail("app://vault/broken.png")).rejects.toThrow("broken");
+    expect(getCachedThumbnail("app://vault/broken.png")).toBeUndefined();
+    await expect(loadThumbnail("app://vault/broken.png")).resolves.toBe("blob:thumbnail-1");
+  });
+
+  it("releases the least recently used thumbnails beyond the limit", async () => {
+    await loadThumbnail("app://vault/first.png");
+    await loadThumbnail("app://vault/second.png");
+    // Using the first image again keeps it over the second
+    await loadThumbnail("app://vault/first.png");
+    for (let index = 0; index < COVER_THUMBNAIL_CACHE_LIMIT - 1; index++) {
+      await loadThumbnail(`app://vault/${index}.png`);
+    }
+
+    expect(getCachedThumbnail("app://vault/first.png")).toBe("blob:thumbnail-1");
+    expect(getCachedThumbnail("app://vault/second.png")).toBeUndefined();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:thumbnail-2");
+  });
+
+  it("releases every thumbnail when cleared", async () => {
+    await loadThumbnail("app://vault/a.png");
+
+    clearThumbnailCache();
+
+    expect(getCachedThumbnail("app://vault/a.png")).toBeUndefined();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:thumbnail-1");
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Cache of decoded cover thumbnails for the cards
+ *
+ * Cover images are decoded once, scaled down to thumbnails and kept as object URLs,
+ * so cards that scroll back into view (virtualized lists remount them) show their
+ * cover at once instead of decoding a full-size image again.
+ */
+
+import { COVER_THUMBNAIL_CACHE_LIMIT, COVER_THUMBNAIL_MAX_SIZE } from "../store/constants";
+
+/**
+ * Thumbnail being decoded, with its URL once it is ready (internal)
+ */
+interface ThumbnailEntry {
+  promise: Promise<string>;
+  url?: string;
+}
+
+/** Thumbnails by image URL, least recently used first (internal) */
+const thumbnails = new Map<string, ThumbnailEntry>();
+
+/**
+ * Decodes an image and scales it down to a thumbnail (internal)
+ *
+ * Images that are already small, SVG images and images the canvas cannot read
+ * (such as web images without CORS headers) are used as they are once decoded.
+ */
+const createThumbnail = async (src: string): Promise<string> => {
+  const image = new Image();
+  image.decoding = "async";
+  image.src = src;
+  await image.decode();
+
+  const scale = Math.min(
+    1,
+    COVER_THUMBNAIL_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight, 1)
+  );
+  if (scale === 1 || /\.svg(?:$|\?)/i.test(src)) return src;
+
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext("2d");
+    if (!context) return src;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/webp", 0.85)
+    );
+    return blob ? URL.createObjectURL(blob) : src;
+  } catch {
+    return src;
+  }
+};
+
+/**
+ * Releases the object URL of a thumbnail (internal)
+ */
+const revokeThumbnail = (entry: ThumbnailEntry): void => {
+  if (entry.url?.startsWith("blob:")) URL.revokeObjectURL(entry.url);
+};
+
+/**
+ * Get the thumbnail of an image if it has been decoded already
+ *
+ * @param src - URL of the image
+ * @returns URL of the thumbnail, or undefined if it is not ready
+ */
+export const getCachedThumbnail = (src: string): string | undefined => thumbnails.get(src)?.url;
+
+/**
+ * Get the thumbnail of an image, decoding it on first use
+ *
+ * Concurrent requests for the same image share one decode. Images that fail to
+ * load are not cached, so they are tried again next time.
+ *
+ * @param src - URL of the image
+ * @returns Promise resolving to the URL of the thumbnail; rejects if the image fails to load
+ */
+export const loadThumbnail = (src: string): Promise<string> => {
+  const cached = thumbnails.get(src);
+  if (cached) {
+    // Move to the end: most recently used
+    thumbnails.delete(src);
+    thumbnails.set(src, cached);
+    return cached.promise;
+  }
+
+  const entry: ThumbnailEntry = {
+    promise: createThumbnail(src).then(
+      (url) => {
+        entry.url = url;
+        return url;
+      },
+      (error) => {
+        if (thumbnails.get(src) === entry) thumbnails.delete(src);
+        throw error;
+      }
+    ),
+  };
+  thumbnails.set(src, entry);
+
+  for (const [oldest, oldestEntry] of thumbnails) {
+    if (thumbnails.size <= COVER_THUMBNAIL_CACHE_LIMIT) break;
+    thumbnails.delete(oldest);
+    revokeThumbnail(oldestEntry);
+  }
+  return entry.promise;
+};
+
+/**
+ * Release every cached thumbnail
+ * Called when the plugin unloads.
+ */
+export const clearThumbnailCache = (): void => {
+  for (const entry of thumbnails.values()) revokeThumbnail(entry);
+  thumbnails.clear();
+};
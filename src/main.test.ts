@@ -1,6 +1,8 @@
 import type { App, WorkspaceLeaf } from "obsidian";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import CardExplorerPlugin from "./main";
+import { DEFAULT_SETTINGS } from "./settings";
+import { DEFAULT_EXCERPT_SETTINGS } from "./types";
 import { VIEW_TYPE_CARD_EXPLORER } from "./view";
 
 // Test data constants for better maintainability
@@ -16,6 +18,8 @@ const TEST_DATA = {
   MOCK_STORE_DATA: {
     pinnedNotes: ["a.md", "b.md"],
     lastFilters: { folders: [], tags: ["tag"], filename: "", dateRange: null },
+    sortConfig: { key: "priority", order: "asc", thenBy: [] },
+    manualOrders: { "view-1": ["b.md", "a.md"] },
   },
   MD_FILE: { extension: "md", path: "note.md" },
   OTHER_FILE: { extension: "txt", path: "note.txt" },
@@ -140,6 +144,34 @@ describe("CardExplorerPlugin (unit)", () => {
           expect(spy).toHaveBeenCalledTimes(1);
         });
       });
+
+      it("saves the view passed to requestSaveStoreState", async () => {
+        await TestHelpers.withFakeTimers(async () => {
+          const spy = vi.spyOn(plugin as any, "saveStoreState").mockResolvedValue(undefined);
+          const view = {} as any;
+
+          plugin.requestSaveStoreState(view);
+          await vi.runAllTimersAsync();
+
+          expect(spy).toHaveBeenCalledWith(view);
+        });
+      });
+
+      it("keeps the requesting view when a save without a view follows", async () => {
+        await TestHelpers.withFakeTimers(async () => {
+          const spy = vi.spyOn(plugin as any, "saveStoreState").mockResolvedValue(undefined);
+          const view = {} as any;
+
+          plugin.requestSaveStoreState(view);
+          plugin.requestSaveStoreState();
+          await vi.runAllTimersAsync();
+          plugin.requestSaveStoreState();
+          await vi.runAllTimersAsync();
+
+          expect(spy).toHaveBeenNthCalledWith(1, view);
+          expect(spy).toHaveBeenNthCalledWith(2, undefined);
+        });
+      });
     });
   });
 
@@ -167,36 +199,130 @@ describe("CardExplorerPlugin (unit)", () => {
     });
 
     describe("markdown file event handling", () => {
-      it("triggers refreshNotes for markdown file events", async () => {
+      it("queues per-file changes instead of reloading the vault", async () => {
         await TestHelpers.withFakeTimers(async () => {
           const refreshSpy = vi.spyOn(plugin, "refreshNotes").mockResolvedValue(undefined);
+          const flushSpy = vi.spyOn(plugin, "flushNoteChanges").mockResolvedValue(undefined);
 
           (plugin as any).setupEventHandlers();
 
           const vaultCalls = (app as any).vault.on.mock.calls;
           const metaCalls = (app as any).metadataCache.on.mock.calls;
 
-          // Trigger all vault events with markdown file
-          VAULT_EVENTS.forEach((eventName) => {
-            const handler = TestHelpers.getEventHandler(vaultCalls, eventName);
-            handler(TEST_DATA.MD_FILE);
+          TestHelpers.getEventHandler(vaultCalls, "create")({ extension: "md", path: "new.md" });
+          TestHelpers.getEventHandler(vaultCalls, "modify")(TEST_DATA.MD_FILE);
+          TestHelpers.getEventHandler(metaCalls, "changed")(TEST_DATA.MD_FILE);
+          TestHelpers.getEventHandler(vaultCalls, "delete")({ extension: "md", path: "gone.md" });
+          TestHelpers.getEventHandler(vaultCalls, "rename")(
+            { extension: "md", path: "moved.md" },
+            "before.md"
+          );
+
+          // Changes to the same file collapse into one entry
+          expect(Array.from((plugin as any).pendingNoteChanges.values())).toEqual([
+            { type: "upsert", file: { extension: "md", path: "new.md" } },
+            { type: "upsert", file: TEST_DATA.MD_FILE },
+            { type: "remove", path: "gone.md" },
+            { type: "move", oldPath: "before.md", file: { extension: "md", path: "moved.md" } },
+          ]);
+
+          // All debounced calls should coalesce into a single flush and no full reload
+          await vi.runAllTimersAsync();
+          expect(flushSpy).toHaveBeenCalledTimes(1);
+          expect(refreshSpy).not.toHaveBeenCalled();
+        });
+      });
+
+      it("keeps renamed notes in the saved manual orders", async () => {
+        await TestHelpers.withFakeTimers(async () => {
+          const saveSpy = vi.spyOn(plugin, "saveStoreState").mockResolvedValue(undefined);
+          (plugin as any).data = {
+            ...TEST_DATA.MOCK_PLUGIN_DATA,
+            manualOrders: { "view-1": ["a.md", "b.md"], "view-2": ["b.md"] },
+          };
+          (plugin as any).setupEventHandlers();
+          const vaultCalls = (app as any).vault.on.mock.calls;
+
+          TestHelpers.getEventHandler(vaultCalls, "rename")(
+            { extension: "md", path: "x/a.md" },
+            "a.md"
+          );
+
+          expect((plugin as any).data.manualOrders).toEqual({
+            "view-1": ["x/a.md", "b.md"],
+            "view-2": ["b.md"],
           });
+          await vi.runAllTimersAsync();
+          expect(saveSpy).toHaveBeenCalledTimes(1);
+        });
+      });
 
-          // Trigger metadata events
-          TestHelpers.getEventHandler(metaCalls, "changed")(TEST_DATA.MD_FILE);
-          TestHelpers.getEventHandler(metaCalls, "resolved")();
+      it("removes the original path when a renamed note is deleted before flushing", () => {
+        (plugin as any).setupEventHandlers();
+        const vaultCalls = (app as any).vault.on.mock.calls;
+
+        TestHelpers.getEventHandler(vaultCalls, "rename")(
+          { extension: "md", path: "b.md" },
+          "a.md"
+        );
+        TestHelpers.getEventHandler(vaultCalls, "delete")({ extension: "md", path: "b.md" });
+
+        expect(Array.from((plugin as any).pendingNoteChanges.values())).toEqual([
+          { type: "remove", path: "b.md" },
+          { type: "remove", path: "a.md" },
+        ]);
+      });
+
+      it("moves a note renamed twice before flushing from its original path", () => {
+        (plugin as any).setupEventHandlers();
+        const vaultCalls = (app as any).vault.on.mock.calls;
+        const rename = TestHelpers.getEventHandler(vaultCalls, "rename");
+        const c = { extension: "md", path: "c.md" };
+
+        rename({ extension: "md", path: "b.md" }, "a.md");
+        rename(c, "b.md");
+
+        expect(Array.from((plugin as any).pendingNoteChanges.values())).toEqual([
+          { type: "move", oldPath: "a.md", file: c },
+        ]);
+      });
 
-          // All debounced calls should coalesce into a single refresh
+      it("turns a pending upsert of a renamed note into an upsert of its new path", () => {
+        (plugin as any).setupEventHandlers();
+        const vaultCalls = (app as any).vault.on.mock.calls;
+        const c = { extension: "md", path: "c.md" };
+
+        TestHelpers.getEventHandler(vaultCalls, "modify")({ extension: "md", path: "b.md" });
+        TestHelpers.getEventHandler(vaultCalls, "rename")(c, "b.md");
+
+        expect(Array.from((plugin as any).pendingNoteChanges.values())).toEqual([
+          { type: "remove", path: "b.md" },
+          { type: "upsert", file: c },
+        ]);
+      });
+
+      it("reloads all notes only on the first resolved event", async () => {
+        await TestHelpers.withFakeTimers(async () => {
+          const refreshSpy = vi.spyOn(plugin, "refreshNotes").mockResolvedValue(undefined);
+
+          (plugin as any).setupEventHandlers();
+          const metaCalls = (app as any).metadataCache.on.mock.calls;
+          const resolved = TestHelpers.getEventHandler(metaCalls, "resolved");
+
+          resolved();
           await vi.runAllTimersAsync();
+          resolved();
+          await vi.runAllTimersAsync();
+
           expect(refreshSpy).toHaveBeenCalledTimes(1);
         });
       });
     });
 
     describe("non-markdown file filtering", () => {
-      it("ignores non-markdown files except for resolved events", async () => {
+      it("ignores non-markdown files", async () => {
         await TestHelpers.withFakeTimers(async () => {
-          const refreshSpy = vi.spyOn(plugin, "refreshNotes").mockResolvedValue(undefined);
+          const flushSpy = vi.spyOn(plugin, "flushNoteChanges").mockResolvedValue(undefined);
 
           (plugin as any).setupEventHandlers();
 
@@ -206,21 +332,29 @@ describe("CardExplorerPlugin (unit)", () => {
           // Trigger vault events with non-markdown file (should be ignored)
           VAULT_EVENTS.forEach((eventName) => {
             const handler = TestHelpers.getEventHandler(vaultCalls, eventName);
-            handler(TEST_DATA.OTHER_FILE);
+            handler(TEST_DATA.OTHER_FILE, "other.txt");
           });
 
           // Trigger metadata changed with non-markdown file (should be ignored)
           TestHelpers.getEventHandler(metaCalls, "changed")(TEST_DATA.OTHER_FILE);
 
-          // Trigger resolved event (should always trigger regardless of file type)
-          TestHelpers.getEventHandler(metaCalls, "resolved")();
-
           await vi.runAllTimersAsync();
 
-          // Only one refresh from the resolved event
-          expect(refreshSpy).toHaveBeenCalledTimes(1);
+          expect((plugin as any).pendingNoteChanges.size).toBe(0);
+          expect(flushSpy).not.toHaveBeenCalled();
         });
       });
+
+      it("removes a note renamed to a non-markdown extension", () => {
+        (plugin as any).setupEventHandlers();
+        const vaultCalls = (app as any).vault.on.mock.calls;
+
+        TestHelpers.getEventHandler(vaultCalls, "rename")(TEST_DATA.OTHER_FILE, "note.md");
+
+        expect(Array.from((plugin as any).pendingNoteChanges.values())).toEqual([
+          { type: "remove", path: "note.md" },
+        ]);
+      });
     });
   });
 
@@ -413,6 +547,7 @@ describe("CardExplorerPlugin (unit)", () => {
 
         // Verify: Correct settings are saved
         expect(saveSpy).toHaveBeenCalledWith(plugin, {
+          ...DEFAULT_SETTINGS,
           autoStart: true,
           showInSidebar: false,
           sortKey: "created",
@@ -438,6 +573,17 @@ describe("CardExplorerPlugin (unit)", () => {
     });
 
     describe("plugin data management", () => {
+      it("restores pinned notes into the shared note index on load", async () => {
+        await TestHelpers.mockDataPersistenceModule(TEST_DATA.MOCK_SETTINGS, {
+          ...TEST_DATA.MOCK_PLUGIN_DATA,
+          pinnedNotes: ["a.md"],
+        });
+
+        await plugin.loadPluginData();
+
+        expect(plugin.getNoteIndex().getState().pinnedNotes).toEqual(new Set(["a.md"]));
+      });
+
       it("saves plugin data successfully", async () => {
         const dp = await import("./core/storage/dataPersistence");
         const saveSpy = vi.spyOn(dp, "savePluginData").mockResolvedValue(true);
@@ -480,15 +626,22 @@ describe("CardExplorerPlugin (unit)", () => {
 
   describe("Store State Management", () => {
     describe("saveStoreState", () => {
-      it("merges and saves serialized store data", async () => {
-        // Setup: Mock store with serializable data
-        vi.doMock("./store/cardExplorerStore", () => ({
-          useCardExplorerStore: {
+      it("merges shared pins and view filters and sort into plugin data", async () => {
+        // Setup: Shared pins and one open view with filters
+        plugin
+          .getNoteIndex()
+          .getState()
+          .setPinnedNotes([...TEST_DATA.MOCK_STORE_DATA.pinnedNotes]);
+        const mockView = {
+          getStore: () => ({
             getState: () => ({
               getSerializableData: () => TEST_DATA.MOCK_STORE_DATA,
             }),
-          },
-        }));
+          }),
+        } as any;
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          TestHelpers.createMockLeaf({ view: mockView }),
+        ]);
 
         // Setup: Existing plugin data to merge with
         (plugin as any).data = {
@@ -496,6 +649,7 @@ describe("CardExplorerPlugin (unit)", () => {
           pinnedNotes: [],
           lastFilters: { folders: [], tags: [], filename: "", dateRange: null },
           sortConfig: { key: "updated", order: "desc" },
+          manualOrders: { "view-2": ["c.md"] },
         };
 
         // Setup: Mock save method
@@ -504,7 +658,7 @@ describe("CardExplorerPlugin (unit)", () => {
           .mockResolvedValue(undefined);
 
         // Execute
-        await (plugin as any).saveStoreState();
+        await (plugin as any).saveStoreState(mockView);
 
         // Verify: Save method is called and data is merged correctly
         expect(saveMethodSpy).toHaveBeenCalled();
@@ -512,17 +666,112 @@ describe("CardExplorerPlugin (unit)", () => {
           version: 1,
           pinnedNotes: ["a.md", "b.md"],
           lastFilters: { folders: [], tags: ["tag"], filename: "", dateRange: null },
-          sortConfig: { key: "updated", order: "desc" },
+          sortConfig: { key: "priority", order: "asc", thenBy: [] },
+          manualOrders: { "view-1": ["b.md", "a.md"], "view-2": ["c.md"] },
         });
       });
 
-      it("handles store import errors gracefully", async () => {
-        const { module: eh, spy: errorSpy } = await TestHelpers.mockErrorHandlingModule();
+      it("saves the filters and sort of the given view", async () => {
+        const createView = (sortKey: string) =>
+          ({
+            getStore: () => ({
+              getState: () => ({
+                getSerializableData: () => ({
+                  ...TEST_DATA.MOCK_STORE_DATA,
+                  sortConfig: { key: sortKey, order: "desc", thenBy: [] },
+                }),
+              }),
+            }),
+          }) as any;
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          TestHelpers.createMockLeaf({ view: createView("first") }),
+        ]);
+        vi.spyOn(plugin as any, "savePluginData").mockResolvedValue(undefined);
 
-        // Setup: Mock failing store import
-        vi.doMock("./store/cardExplorerStore", () => {
-          throw new Error("store import failed");
+        await (plugin as any).saveStoreState(createView("second"));
+
+        expect((plugin as any).data.sortConfig.key).toBe("second");
+      });
+
+      it("drops the manual orders of views whose leaves were closed", async () => {
+        const createLeaf = (viewId: string, view: any = {}) =>
+          TestHelpers.createMockLeaf({
+            view,
+            getViewState: () => ({ type: VIEW_TYPE_CARD_EXPLORER, state: { viewId } }),
+          });
+        const view = {
+          getStore: () => ({
+            getState: () => ({ getSerializableData: () => TEST_DATA.MOCK_STORE_DATA }),
+          }),
+        } as any;
+        // view-2 stands for a leaf whose view has not been loaded yet
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          createLeaf("view-1", view),
+          createLeaf("view-2"),
+        ]);
+        (app.workspace as any).layoutReady = true;
+        (plugin as any).data = {
+          ...TEST_DATA.MOCK_PLUGIN_DATA,
+          manualOrders: { "view-2": ["c.md"], "view-3": ["d.md"] },
+        };
+        vi.spyOn(plugin as any, "savePluginData").mockResolvedValue(undefined);
+
+        await (plugin as any).saveStoreState(view);
+
+        expect((plugin as any).data.manualOrders).toEqual({
+          "view-1": ["b.md", "a.md"],
+          "view-2": ["c.md"],
         });
+      });
+
+      it("keeps all manual orders until the workspace layout is restored", async () => {
+        (plugin as any).data = {
+          ...TEST_DATA.MOCK_PLUGIN_DATA,
+          manualOrders: { "view-3": ["d.md"] },
+        };
+        vi.spyOn(plugin as any, "savePluginData").mockResolvedValue(undefined);
+
+        await (plugin as any).saveStoreState();
+
+        expect((plugin as any).data.manualOrders).toEqual({ "view-3": ["d.md"] });
+      });
+
+      it("keeps saved filters and sort when no view requested the save", async () => {
+        const view = {
+          getStore: () => ({
+            getState: () => ({ getSerializableData: () => TEST_DATA.MOCK_STORE_DATA }),
+          }),
+        } as any;
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          TestHelpers.createMockLeaf({ view }),
+        ]);
+        const { lastFilters, sortConfig } = TEST_DATA.MOCK_PLUGIN_DATA;
+        (plugin as any).data = { ...TEST_DATA.MOCK_PLUGIN_DATA };
+        vi.spyOn(plugin as any, "savePluginData").mockResolvedValue(undefined);
+
+        await (plugin as any).saveStoreState();
+
+        expect((plugin as any).data.lastFilters).toBe(lastFilters);
+        expect((plugin as any).data.sortConfig).toBe(sortConfig);
+      });
+
+      it("keeps saved filters when no view is open", async () => {
+        const lastFilters = { folders: ["work"], tags: [], filename: "", dateRange: null };
+        (plugin as any).data = { ...TEST_DATA.MOCK_PLUGIN_DATA, lastFilters };
+        vi.spyOn(plugin as any, "savePluginData").mockResolvedValue(undefined);
+        plugin.getNoteIndex().getState().togglePin("a.md");
+
+        await (plugin as any).saveStoreState();
+
+        expect((plugin as any).data.pinnedNotes).toEqual(["a.md"]);
+        expect((plugin as any).data.lastFilters).toBe(lastFilters);
+      });
+
+      it("handles save errors gracefully", async () => {
+        const { module: eh, spy: errorSpy } = await TestHelpers.mockErrorHandlingModule();
+
+        // Setup: Mock failing save
+        vi.spyOn(plugin as any, "savePluginData").mockRejectedValue(new Error("save failed"));
 
         // Execute
         await (plugin as any).saveStoreState();
@@ -536,19 +785,29 @@ describe("CardExplorerPlugin (unit)", () => {
     });
 
     describe("refreshNotes", () => {
-      it("refreshes all active views successfully", async () => {
-        const mockView = {
-          refreshNotes: vi.fn().mockResolvedValue(undefined),
-        } as any;
-        const mockLeaf = TestHelpers.createMockLeaf({ view: mockView });
-
-        (app.workspace.getLeavesOfType as any).mockReturnValue([mockLeaf]);
+      it("reloads the shared note index once for all views", async () => {
+        const refreshSpy = vi
+          .spyOn(plugin.getNoteIndex().getState(), "refreshNotes")
+          .mockResolvedValue(undefined);
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          TestHelpers.createMockLeaf(),
+          TestHelpers.createMockLeaf(),
+        ]);
 
         // Execute
         await plugin.refreshNotes();
 
-        // Verify: View refresh is called
-        expect(mockView.refreshNotes).toHaveBeenCalled();
+        // Verify: Index reload is called once
+        expect(refreshSpy).toHaveBeenCalledTimes(1);
+        expect(refreshSpy).toHaveBeenCalledWith(app);
+      });
+
+      it("skips reloading while no view has loaded notes", async () => {
+        const refreshSpy = vi.spyOn(plugin.getNoteIndex().getState(), "refreshNotes");
+
+        await plugin.refreshNotes();
+
+        expect(refreshSpy).not.toHaveBeenCalled();
       });
 
       it("handles workspace errors gracefully", async () => {
@@ -574,6 +833,108 @@ describe("CardExplorerPlugin (unit)", () => {
     });
   });
 
+  describe("Incremental Note Updates", () => {
+    describe("flushNoteChanges", () => {
+      it("resolves queued changes and applies deltas to the shared index", async () => {
+        const deltas = [{ type: "remove", path: "gone.md" }];
+        const np = await import("./store/noteProcessing");
+        const resolveSpy = vi.spyOn(np, "resolveNoteChanges").mockResolvedValue(deltas as any);
+        plugin.getNoteIndex().setState({ hasLoaded: true });
+        const applySpy = vi.spyOn(plugin.getNoteIndex().getState(), "applyNoteDeltas");
+
+        (plugin as any).pendingNoteChanges.set("gone.md", { type: "remove", path: "gone.md" });
+        await plugin.flushNoteChanges();
+
+        expect(resolveSpy).toHaveBeenCalledWith(
+          app,
+          [{ type: "remove", path: "gone.md" }],
+          [],
+          plugin.getNoteIndex().getState().linkIndex,
+          DEFAULT_EXCERPT_SETTINGS
+        );
+        expect(applySpy).toHaveBeenCalledWith(deltas);
+        expect((plugin as any).pendingNoteChanges.size).toBe(0);
+      });
+
+      it("waits for a pending load before resolving queued changes", async () => {
+        const loadedNotes = [
+          {
+            file: { path: "a.md" },
+            title: "a",
+            path: "a.md",
+            preview: "",
+            wordCount: 0,
+            lastModified: new Date(0),
+            frontmatter: null,
+            tags: [],
+            folder: "",
+            backlinkCount: 0,
+          },
+        ] as any[];
+        let finishLoad = () => {};
+        const np = await import("./store/noteProcessing");
+        vi.spyOn(np, "loadNotesFromVault").mockReturnValue(
+          new Promise((resolve) => {
+            finishLoad = () => resolve({ notes: loadedNotes, bodies: new Map() });
+          })
+        );
+        const resolveSpy = vi.spyOn(np, "resolveNoteChanges").mockResolvedValue([]);
+        const load = plugin.getNoteIndex().getState().refreshNotes(app);
+
+        (plugin as any).pendingNoteChanges.set("a.md", { type: "remove", path: "a.md" });
+        const flush = plugin.flushNoteChanges();
+        await Promise.resolve();
+        expect(resolveSpy).not.toHaveBeenCalled();
+
+        finishLoad();
+        await load;
+        await flush;
+
+        expect(resolveSpy).toHaveBeenCalledWith(
+          app,
+          [{ type: "remove", path: "a.md" }],
+          loadedNotes,
+          plugin.getNoteIndex().getState().linkIndex,
+          DEFAULT_EXCERPT_SETTINGS
+        );
+      });
+
+      it("drops queued changes until the index has been loaded", async () => {
+        const np = await import("./store/noteProcessing");
+        const resolveSpy = vi.spyOn(np, "resolveNoteChanges");
+
+        (plugin as any).pendingNoteChanges.set("a.md", { type: "remove", path: "a.md" });
+        await plugin.flushNoteChanges();
+
+        expect(resolveSpy).not.toHaveBeenCalled();
+        expect((plugin as any).pendingNoteChanges.size).toBe(0);
+      });
+
+      it("does nothing when no changes are queued", async () => {
+        const np = await import("./store/noteProcessing");
+        const resolveSpy = vi.spyOn(np, "resolveNoteChanges");
+
+        await plugin.flushNoteChanges();
+
+        expect(resolveSpy).not.toHaveBeenCalled();
+      });
+
+      it("handles resolution failures with error handling", async () => {
+        const { module: eh, spy: errorSpy } = await TestHelpers.mockErrorHandlingModule();
+        const np = await import("./store/noteProcessing");
+        vi.spyOn(np, "resolveNoteChanges").mockRejectedValue(new Error("read failed"));
+        plugin.getNoteIndex().setState({ hasLoaded: true });
+
+        (plugin as any).pendingNoteChanges.set("a.md", { type: "remove", path: "a.md" });
+        await expect(plugin.flushNoteChanges()).resolves.toBeUndefined();
+
+        const [, category, context] = errorSpy.mock.calls[0];
+        expect(category).toBe(eh.ErrorCategory.API);
+        expect(context).toMatchObject({ operation: "flushNoteChanges", changeCount: 1 });
+      });
+    });
+  });
+
   describe("Settings Integration", () => {
     describe("updateSetting", () => {
       it("triggers sort key update when sortKey setting changes", () => {
@@ -592,6 +953,38 @@ describe("CardExplorerPlugin (unit)", () => {
         (plugin as any).updateSetting("autoStart", true);
         expect(updateSortSpy).not.toHaveBeenCalled();
       });
+
+      it("applies card display settings to the store of every view", () => {
+        const setCardDisplayMock = vi.fn();
+        const mockView = {
+          getStore: () => ({ getState: () => ({ setCardDisplay: setCardDisplayMock }) }),
+        } as any;
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          TestHelpers.createMockLeaf({ view: mockView }),
+        ]);
+        (plugin as any).settings = { ...DEFAULT_SETTINGS };
+
+        (plugin as any).updateSetting("cardMinWidth", 200);
+
+        expect(setCardDisplayMock).toHaveBeenCalledWith({
+          cardMinWidth: 200,
+          maxCardsPerRow: 5,
+          previewLines: 3,
+          density: "comfortable",
+          previewMode: "raw",
+          coverPlacement: "top",
+          coverPropertyKeys: ["cover", "image", "banner"],
+          cardFields: [],
+          cardFieldStyle: "badges",
+          hiddenCardElements: [],
+          cardStyleRules: [],
+        });
+
+        // Other settings leave the cards as they are
+        setCardDisplayMock.mockClear();
+        (plugin as any).updateSetting("autoStart", true);
+        expect(setCardDisplayMock).not.toHaveBeenCalled();
+      });
     });
   });
 
@@ -618,9 +1011,7 @@ describe("CardExplorerPlugin (unit)", () => {
           return unsubscribeMock;
         });
 
-        vi.doMock("./store/cardExplorerStore", () => ({
-          useCardExplorerStore: { subscribe: subscribeMock },
-        }));
+        vi.spyOn(plugin.getNoteIndex(), "subscribe").mockImplementation(subscribeMock as any);
 
         // Execute
         await (plugin as any).setupPinnedNotesAutoSave();
@@ -648,19 +1039,17 @@ describe("CardExplorerPlugin (unit)", () => {
           return vi.fn();
         });
 
-        vi.doMock("./store/cardExplorerStore", () => ({
-          useCardExplorerStore: { subscribe: subscribeMock },
-        }));
+        vi.spyOn(plugin.getNoteIndex(), "subscribe").mockImplementation(subscribeMock as any);
 
         await (plugin as any).setupPinnedNotesAutoSave();
         expect(subscribeMock).toHaveBeenCalled();
       });
 
-      it("handles store import failures with error handling", async () => {
+      it("handles subscription failures with error handling", async () => {
         const { module: eh, spy: errorSpy } = await TestHelpers.mockErrorHandlingModule();
 
-        vi.doMock("./store/cardExplorerStore", () => {
-          throw new Error("subscribe import failed");
+        vi.spyOn(plugin.getNoteIndex(), "subscribe").mockImplementation(() => {
+          throw new Error("subscribe failed");
         });
 
         // Execute
@@ -700,26 +1089,49 @@ describe("CardExplorerPlugin (unit)", () => {
     });
 
     describe("updateSortKeyInViews", () => {
-      it("updates sort key in store successfully", async () => {
+      it("updates sort key in the store of every view", async () => {
         const updateSortFromSettingsMock = vi.fn();
-        vi.doMock("./store/cardExplorerStore", () => ({
-          useCardExplorerStore: {
+        const mockView = {
+          getStore: () => ({
             getState: () => ({ updateSortFromSettings: updateSortFromSettingsMock }),
-          },
-        }));
+          }),
+        } as any;
+        (app.workspace.getLeavesOfType as any).mockReturnValue([
+          TestHelpers.createMockLeaf({ view: mockView }),
+          TestHelpers.createMockLeaf({ view: mockView }),
+        ]);
 
         // Execute
         await (plugin as any).updateSortKeyInViews("created");
 
         // Verify
+        expect(updateSortFromSettingsMock).toHaveBeenCalledTimes(2);
         expect(updateSortFromSettingsMock).toHaveBeenCalledWith("created");
       });
 
-      it("handles store import errors", async () => {
+      it("updates the saved sort key for views opened later", async () => {
+        (app.workspace.getLeavesOfType as any).mockReturnValue([]);
+        (plugin as any).data = {
+          ...TEST_DATA.MOCK_PLUGIN_DATA,
+          sortConfig: { key: "updated", order: "asc" },
+        };
+        const saveSpy = vi.spyOn(plugin as any, "debouncedSaveStoreState");
+
+        await (plugin as any).updateSortKeyInViews("created");
+
+        expect((plugin as any).data.sortConfig).toEqual({
+          key: "created",
+          order: "asc",
+          thenBy: [],
+        });
+        expect(saveSpy).toHaveBeenCalled();
+      });
+
+      it("handles workspace errors", async () => {
         const { module: eh, spy: errorSpy } = await TestHelpers.mockErrorHandlingModule();
 
-        vi.doMock("./store/cardExplorerStore", () => {
-          throw new Error("store import failed");
+        (app.workspace.getLeavesOfType as any).mockImplementation(() => {
+          throw new Error("workspace failed");
         });
 
         // Execute
@@ -1,4 +1,4 @@
-import { debounce } from "es-toolkit";
+import { debounce, mapValues, pick } from "es-toolkit";
 import {
   type EventRef,
   Plugin,
@@ -13,7 +13,11 @@ import {
   savePluginData,
   savePluginSettings,
 } from "./core/storage/dataPersistence";
+import { clearThumbnailCache } from "./lib/thumbnailCache";
 import { type CardExplorerSettings, CardExplorerSettingTab, DEFAULT_SETTINGS } from "./settings";
+import { createNoteIndexStore, type NoteIndexStore } from "./store/noteIndexStore";
+import { renameInManualOrder } from "./store/sorting";
+import { CARD_DISPLAY_SETTING_KEYS, EXCERPT_SETTING_KEYS, type VaultNoteChange } from "./types";
 import { DEFAULT_DATA, type PluginData } from "./types/plugin";
 import { CardExplorerView, VIEW_TYPE_CARD_EXPLORER } from "./view";
 
@@ -23,6 +27,12 @@ import { CardExplorerView, VIEW_TYPE_CARD_EXPLORER } from "./view";
  */
 const DEFAULT_REFRESH_DEBOUNCE_DELAY = 300;
 
+/**
+ * Debounce delay for applying queued per-file note changes (in milliseconds)
+ * Changes to the same file within this window are coalesced into one update
+ */
+const NOTE_CHANGE_DEBOUNCE_DELAY = 300;
+
 /**
  * Main Card View Explorer plugin class
  *
@@ -62,6 +72,17 @@ export default class CardExplorerPlugin extends Plugin {
    */
   private data: PluginData = DEFAULT_DATA;
 
+  /**
+   * Note index shared by every Card View Explorer view
+   *
+   * Holds the notes loaded from the vault, their filter options and the pinned
+   * notes. Each view keeps its own filters and sort on top of this index, so
+   * the vault is loaded once and file events are applied once.
+   */
+  private readonly noteIndex: NoteIndexStore = createNoteIndexStore(() =>
+    pick(this.settings, EXCERPT_SETTING_KEYS)
+  );
+
   // Event handling related properties
   /**
    * Array of registered event handler references for proper cleanup
@@ -75,7 +96,7 @@ export default class CardExplorerPlugin extends Plugin {
   /**
    * Store subscription unsubscribe function for pinned notes auto-save
    *
-   * This subscription monitors changes to the pinnedNotes state in the Zustand store
+   * This subscription monitors changes to the pinnedNotes state in the shared note index
    * and automatically saves the state to disk with debouncing to prevent excessive I/O.
    */
   private unsubscribePinnedNotesAutoSave?: () => void;
@@ -89,17 +110,56 @@ export default class CardExplorerPlugin extends Plugin {
   private readonly debouncedSaveStoreState: () => void;
 
   /**
-   * Debounced function for note refresh operations
+   * View whose filters and sort the pending debounced save stores
    *
-   * Prevents excessive UI updates when multiple file system events
-   * (create, delete, modify, rename) occur rapidly. Uses es-toolkit's
-   * debounce with a 300ms delay to batch updates efficiently.
+   * Kept apart from the debounced call so that saves requested without a view
+   * (e.g. pin changes) do not drop the view of an earlier request.
+   */
+  private pendingSaveView?: CardExplorerView;
+
+  /**
+   * Debounced function for saving settings
    *
-   * This is crucial for performance when users perform bulk operations
-   * like importing many files or using find-and-replace across multiple notes.
+   * Used by the zoom control of the views, which changes the card width
+   * setting on every wheel step.
+   */
+  private readonly debouncedSaveSettings: () => void;
+
+  /**
+   * Debounced function for full note refresh operations
+   *
+   * Reloads every note in the vault. Only used once the metadata cache has
+   * finished its initial resolution; regular file events go through the
+   * incremental path (see debouncedFlushNoteChanges) instead.
    */
   private readonly debouncedRefreshNotes: () => void;
 
+  /**
+   * File-level changes waiting to be applied to the note index, keyed by file path
+   *
+   * Vault and metadata events only enqueue changes here; repeated events for the
+   * same file (e.g. `modify` followed by metadata `changed` while typing) collapse
+   * into a single entry so each file is read at most once per flush.
+   */
+  private pendingNoteChanges = new Map<string, VaultNoteChange>();
+
+  /**
+   * Debounced function that applies queued note changes
+   *
+   * Batches per-file changes so that only the changed notes are re-read,
+   * instead of reloading the entire vault on every event.
+   */
+  private readonly debouncedFlushNoteChanges: () => void;
+
+  /**
+   * Whether the initial metadata cache resolution has been handled
+   *
+   * The first `resolved` event triggers one full reload so notes loaded before
+   * the metadata cache was ready pick up their tags and frontmatter. Later
+   * `resolved` events are covered by per-file changes.
+   */
+  private hasHandledInitialResolve = false;
+
   /**
    * Initialize the Card View Explorer plugin
    *
@@ -117,10 +177,22 @@ export default class CardExplorerPlugin extends Plugin {
       await this.refreshNotes();
     }, DEFAULT_REFRESH_DEBOUNCE_DELAY);
 
+    // Initialize debounced incremental note change function
+    this.debouncedFlushNoteChanges = debounce(async () => {
+      await this.flushNoteChanges();
+    }, NOTE_CHANGE_DEBOUNCE_DELAY);
+
     // Initialize debounced store state save function
     this.debouncedSaveStoreState = debounce(async () => {
-      await this.saveStoreState();
+      const sourceView = this.pendingSaveView;
+      this.pendingSaveView = undefined;
+      await this.saveStoreState(sourceView);
     }, 500); // 500ms debounce for save operations
+
+    // Initialize debounced settings save function
+    this.debouncedSaveSettings = debounce(async () => {
+      await this.saveSettings();
+    }, 500);
   }
 
   /**
@@ -192,6 +264,9 @@ export default class CardExplorerPlugin extends Plugin {
 
     // Clean up pinned notes auto-save subscription
     this.cleanupPinnedNotesAutoSave();
+
+    // Release the decoded cover thumbnails
+    clearThumbnailCache();
   }
 
   /**
@@ -243,6 +318,24 @@ export default class CardExplorerPlugin extends Plugin {
     if (key === "sortKey") {
       this.updateSortKeyInViews(value as string);
     }
+
+    // Card size and density apply to every open view right away
+    if ((CARD_DISPLAY_SETTING_KEYS as readonly string[]).includes(key)) {
+      this.updateCardDisplayInViews();
+    }
+
+    // Excerpt rules change the previews of every note, so the notes are reloaded
+    if ((EXCERPT_SETTING_KEYS as readonly string[]).includes(key)) {
+      this.debouncedRefreshNotes();
+    }
+  }
+
+  /**
+   * Save settings after changes settle
+   * Used for settings changed in quick succession, such as by the zoom control of a view
+   */
+  requestSaveSettings(): void {
+    this.debouncedSaveSettings();
   }
 
   /**
@@ -270,6 +363,17 @@ export default class CardExplorerPlugin extends Plugin {
    */
   async loadPluginData(): Promise<void> {
     this.data = await loadPluginData(this);
+
+    // Pins are shared by all views, so they are restored into the note index
+    this.noteIndex.getState().setPinnedNotes(this.data.pinnedNotes);
+  }
+
+  /**
+   * Get the note index shared by all Card View Explorer views
+   * @returns Shared note index store
+   */
+  getNoteIndex(): NoteIndexStore {
+    return this.noteIndex;
   }
 
   /**
@@ -289,25 +393,33 @@ export default class CardExplorerPlugin extends Plugin {
   /**
    * Save store state to plugin data
    *
-   * Retrieves current pin states and filters from the store and persists
-   * them to the plugin's data file for restoration on next load.
+   * Retrieves current pin states from the shared note index and the filters
+   * and sort of the view that requested the save, and persists them to the
+   * plugin's data file for restoration on next load. Without a source view
+   * (e.g. when only pins changed) the saved filters and sort are kept, so they
+   * always come from the view last changed. The manual order of the view is
+   * saved under its view id next to the orders of other open views; orders of
+   * views whose leaves were closed are dropped.
    *
+   * @param sourceView - View whose filters and sort are saved
    * @returns Promise that resolves when data is saved
    */
-  async saveStoreState(): Promise<void> {
+  async saveStoreState(sourceView?: CardExplorerView): Promise<void> {
     try {
-      // Dynamically import store to avoid circular dependencies
-      const { useCardExplorerStore } = await import("./store/cardExplorerStore");
-      const store = useCardExplorerStore.getState();
+      const pinnedNotes = Array.from(this.noteIndex.getState().pinnedNotes);
 
-      // Get serializable data from store
-      const { pinnedNotes, lastFilters } = store.getSerializableData();
+      const { lastFilters, sortConfig, manualOrders } =
+        sourceView && typeof sourceView.getStore === "function"
+          ? sourceView.getStore().getState().getSerializableData()
+          : this.getData();
 
       // Preserve existing plugin data while updating known store-backed fields
       this.updateData({
         ...this.getData(),
         pinnedNotes,
         lastFilters,
+        sortConfig,
+        manualOrders: this.pruneManualOrders({ ...this.getData().manualOrders, ...manualOrders }),
       });
 
       await this.savePluginData();
@@ -318,6 +430,29 @@ export default class CardExplorerPlugin extends Plugin {
     }
   }
 
+  /**
+   * Drop the manual orders of views that no longer have an open leaf
+   *
+   * View ids are read from the leaf state, so leaves whose views have not been
+   * loaded yet keep their orders. Nothing is dropped before the workspace layout
+   * is restored, while the leaves are not known yet.
+   *
+   * @param manualOrders - Manual orders keyed by view id
+   * @returns Manual orders of the open views
+   */
+  private pruneManualOrders(manualOrders: Record<string, string[]>): Record<string, string[]> {
+    if (!this.app.workspace.layoutReady) return manualOrders;
+
+    const openViewIds = new Set(
+      this.app.workspace
+        .getLeavesOfType(VIEW_TYPE_CARD_EXPLORER)
+        .map((leaf) => leaf.getViewState().state?.viewId)
+    );
+    return Object.fromEntries(
+      Object.entries(manualOrders).filter(([viewId]) => openViewIds.has(viewId))
+    );
+  }
+
   /**
    * Activate or create Card View Explorer view in workspace
    * Creates new view if none exists, focuses existing view if found
@@ -358,22 +493,17 @@ export default class CardExplorerPlugin extends Plugin {
   }
 
   /**
-   * Update notes in all active Card View Explorer views
-   * Used by components to trigger note reloading
+   * Reload the shared note index used by all Card View Explorer views
+   *
+   * The vault is read once regardless of how many views are open. Skipped while
+   * nothing has loaded the index yet; the first view to open loads it.
    */
   async refreshNotes(): Promise<void> {
     try {
       const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CARD_EXPLORER);
+      if (leaves.length === 0 && !this.noteIndex.getState().hasLoaded) return;
 
-      // Use Promise.allSettled to properly handle individual view failures
-      const refreshPromises = leaves.map(async (leaf) => {
-        const view = leaf.view as CardExplorerView;
-        if (view && typeof view.refreshNotes === "function") {
-          return await view.refreshNotes();
-        }
-      });
-
-      await Promise.allSettled(refreshPromises);
+      await this.noteIndex.getState().refreshNotes(this.app);
     } catch (error) {
       handleError(error, ErrorCategory.API, {
         operation: "refreshNotes",
@@ -382,9 +512,97 @@ export default class CardExplorerPlugin extends Plugin {
     }
   }
 
+  /**
+   * Apply queued per-file note changes to the shared note index
+   *
+   * Reads only the changed files and applies the resulting deltas once; every
+   * open view then patches its own filtered list instead of reloading the vault.
+   */
+  async flushNoteChanges(): Promise<void> {
+    if (this.pendingNoteChanges.size === 0) return;
+
+    const changes = Array.from(this.pendingNoteChanges.values());
+    this.pendingNoteChanges = new Map();
+
+    // Nothing to patch until a view has started loading the index
+    const { hasLoaded, isLoading } = this.noteIndex.getState();
+    if (!hasLoaded && !isLoading) return;
+
+    try {
+      // Patch the loaded index rather than one a full load is about to replace
+      if (isLoading) {
+        await this.noteIndex.getState().ensureNotesLoaded(this.app);
+        if (!this.noteIndex.getState().hasLoaded) return;
+      }
+
+      // Dynamically import note processing to keep the plugin entry lightweight
+      const { resolveNoteChanges } = await import("./store/noteProcessing");
+      const { notes, linkIndex } = this.noteIndex.getState();
+      const deltas = await resolveNoteChanges(
+        this.app,
+        changes,
+        notes,
+        linkIndex,
+        pick(this.settings, EXCERPT_SETTING_KEYS)
+      );
+
+      this.noteIndex.getState().applyNoteDeltas(deltas);
+    } catch (error) {
+      handleError(error, ErrorCategory.API, {
+        operation: "flushNoteChanges",
+        changeCount: changes.length,
+      });
+    }
+  }
+
+  /**
+   * Queue a file-level change for the next incremental flush
+   *
+   * Later events for the same path replace earlier ones. A removal that replaces
+   * a pending move also removes the move's original path, so a note renamed and
+   * then deleted within one debounce window does not linger in the index.
+   * A move of a path with a pending change takes that change over: a note renamed
+   * twice (A to B, then B to C) moves from A to C, and a pending upsert of B becomes
+   * an upsert of C with B removed.
+   *
+   * @param change - File-level change observed from vault or metadata events
+   */
+  private queueNoteChange(change: VaultNoteChange): void {
+    if (change.type === "move") {
+      const pending = this.pendingNoteChanges.get(change.oldPath);
+      // The old path is handled by the move itself
+      this.pendingNoteChanges.delete(change.oldPath);
+      if (pending?.type === "move") {
+        change =
+          pending.oldPath === change.file.path
+            ? { type: "upsert", file: change.file } // Renamed back within the window
+            : { type: "move", oldPath: pending.oldPath, file: change.file };
+      } else if (pending?.type === "upsert") {
+        this.pendingNoteChanges.set(change.oldPath, { type: "remove", path: change.oldPath });
+        change = { type: "upsert", file: change.file };
+      }
+    }
+
+    const path = change.type === "remove" ? change.path : change.file.path;
+    const previous = this.pendingNoteChanges.get(path);
+
+    if (change.type === "remove" && previous?.type === "move") {
+      this.pendingNoteChanges.set(previous.oldPath, { type: "remove", path: previous.oldPath });
+    }
+    if (change.type === "upsert" && previous?.type === "move") {
+      // Keep the move so the old path is still removed; it re-reads the file anyway
+      this.debouncedFlushNoteChanges();
+      return;
+    }
+
+    this.pendingNoteChanges.set(path, change);
+    this.debouncedFlushNoteChanges();
+  }
+
   /**
    * Set up event handlers for real-time updates
-   * Subscribe to vault and metadata cache events to keep notes up to date
+   * Subscribe to vault and metadata cache events and translate them into
+   * per-file note changes
    */
   private setupEventHandlers(): void {
     // Subscribe to vault events for file changes
@@ -392,7 +610,7 @@ export default class CardExplorerPlugin extends Plugin {
     // Handle file creation
     const createRef = this.app.vault.on("create", (file: TAbstractFile) => {
       if (this.isMarkdownFile(file)) {
-        this.debouncedRefreshNotes();
+        this.queueNoteChange({ type: "upsert", file: file as TFile });
       }
     });
     this.eventRefs.push(createRef);
@@ -400,7 +618,7 @@ export default class CardExplorerPlugin extends Plugin {
     // Handle file deletion
     const deleteRef = this.app.vault.on("delete", (file: TAbstractFile) => {
       if (this.isMarkdownFile(file)) {
-        this.debouncedRefreshNotes();
+        this.queueNoteChange({ type: "remove", path: file.path });
       }
     });
     this.eventRefs.push(deleteRef);
@@ -408,15 +626,19 @@ export default class CardExplorerPlugin extends Plugin {
     // Handle file modification (content changes)
     const modifyRef = this.app.vault.on("modify", (file: TAbstractFile) => {
       if (this.isMarkdownFile(file)) {
-        this.debouncedRefreshNotes();
+        this.queueNoteChange({ type: "upsert", file: file as TFile });
       }
     });
     this.eventRefs.push(modifyRef);
 
     // Handle file rename/move
-    const renameRef = this.app.vault.on("rename", (file: TAbstractFile) => {
+    const renameRef = this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
       if (this.isMarkdownFile(file)) {
-        this.debouncedRefreshNotes();
+        this.queueNoteChange({ type: "move", oldPath, file: file as TFile });
+        this.renameInManualOrders(oldPath, file.path);
+      } else if (oldPath.endsWith(".md")) {
+        // Renamed away from markdown: drop the note from the index
+        this.queueNoteChange({ type: "remove", path: oldPath });
       }
     });
     this.eventRefs.push(renameRef);
@@ -426,13 +648,15 @@ export default class CardExplorerPlugin extends Plugin {
     // Handle metadata cache changes (frontmatter, tags, etc.)
     const metadataRef = this.app.metadataCache.on("changed", (file: TFile) => {
       if (this.isMarkdownFile(file)) {
-        this.debouncedRefreshNotes();
+        this.queueNoteChange({ type: "upsert", file });
       }
     });
     this.eventRefs.push(metadataRef);
 
-    // Handle metadata cache resolution (when cache is fully loaded)
+    // Handle the initial metadata cache resolution with a single full reload
     const resolvedRef = this.app.metadataCache.on("resolved", () => {
+      if (this.hasHandledInitialResolve) return;
+      this.hasHandledInitialResolve = true;
       this.debouncedRefreshNotes();
     });
     this.eventRefs.push(resolvedRef);
@@ -452,20 +676,52 @@ export default class CardExplorerPlugin extends Plugin {
     this.eventRefs = [];
   }
 
+  /**
+   * Keep a renamed note at its place in the saved manual orders
+   *
+   * Open views update their own order when the rename reaches the note index;
+   * this covers the orders of views that have not been loaded yet.
+   *
+   * @param oldPath - Path of the note before the rename
+   * @param newPath - Path of the note after the rename
+   */
+  private renameInManualOrders(oldPath: string, newPath: string): void {
+    const { manualOrders = {} } = this.getData();
+    if (!Object.values(manualOrders).some((order) => order.includes(oldPath))) return;
+
+    this.updateData({
+      ...this.getData(),
+      manualOrders: mapValues(manualOrders, (order) =>
+        renameInManualOrder(order, [{ oldPath, newPath }])
+      ),
+    });
+    this.debouncedSaveStoreState();
+  }
+
+  /**
+   * Request a debounced save of the store state
+   *
+   * Called by views when their persisted preferences (e.g. the filters or sort) change.
+   *
+   * @param sourceView - View whose filters and sort should be saved
+   */
+  requestSaveStoreState(sourceView?: CardExplorerView): void {
+    if (sourceView) this.pendingSaveView = sourceView;
+    this.debouncedSaveStoreState();
+  }
+
   /**
    * Set up automatic save subscription for pinned notes changes
    *
    * Uses Zustand's subscribeWithSelector to monitor changes to the pinnedNotes
-   * state and automatically trigger a debounced save operation. This ensures
-   * pinned note preferences are persisted without manual intervention.
+   * state of the shared note index and automatically trigger a debounced save
+   * operation. This ensures pinned note preferences are persisted without
+   * manual intervention.
    */
   private async setupPinnedNotesAutoSave(): Promise<void> {
     try {
-      // Dynamically import store to avoid circular dependencies
-      const { useCardExplorerStore } = await import("./store/cardExplorerStore");
-
       // Subscribe to pinnedNotes changes with fine-grained monitoring
-      this.unsubscribePinnedNotesAutoSave = useCardExplorerStore.subscribe(
+      this.unsubscribePinnedNotesAutoSave = this.noteIndex.subscribe(
         (state) => state.pinnedNotes,
         () => {
           // Only trigger save if there are actual pinned notes or if the set was cleared
@@ -516,16 +772,30 @@ export default class CardExplorerPlugin extends Plugin {
 
   /**
    * Update sort key in all active Card View Explorer views
+   *
+   * The saved sort configuration is updated as well, so views opened later
+   * start with the new key.
+   *
    * @param sortKey - New sort key from settings
    */
   private async updateSortKeyInViews(sortKey: string): Promise<void> {
     try {
-      // Dynamically import store to avoid circular dependencies
-      const { useCardExplorerStore } = await import("./store/cardExplorerStore");
-      const store = useCardExplorerStore.getState();
+      const { sortConfig } = this.getData();
+      this.updateData({
+        ...this.getData(),
+        sortConfig: { ...sortConfig, key: sortKey, thenBy: sortConfig.thenBy ?? [] },
+      });
+      this.debouncedSaveStoreState();
+
+      const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CARD_EXPLORER);
 
-      // Update sort configuration in store
-      store.updateSortFromSettings(sortKey);
+      // Update sort configuration in the store of each view
+      for (const leaf of leaves) {
+        const view = leaf.view as CardExplorerView;
+        if (view && typeof view.getStore === "function") {
+          view.getStore().getState().updateSortFromSettings(sortKey);
+        }
+      }
     } catch (error) {
       handleError(error, ErrorCategory.GENERAL, {
         operation: "updateSortKeyInViews",
@@ -533,4 +803,23 @@ export default class CardExplorerPlugin extends Plugin {
       });
     }
   }
+
+  /**
+   * Apply the card size and density settings to all active Card View Explorer views
+   */
+  private updateCardDisplayInViews(): void {
+    try {
+      const cardDisplay = pick(this.settings, CARD_DISPLAY_SETTING_KEYS);
+      const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CARD_EXPLORER);
+
+      for (const leaf of leaves) {
+        const view = leaf.view as CardExplorerView;
+        if (view && typeof view.getStore === "function") {
+          view.getStore().getState().setCardDisplay(cardDisplay);
+        }
+      }
+    } catch (error) {
+      handleError(error, ErrorCategory.GENERAL, { operation: "updateCardDisplayInViews" });
+    }
+  }
 }
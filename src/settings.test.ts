@@ -1,6 +1,7 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type CardExplorerPlugin from "./main";
 import { CardExplorerSettingTab, DEFAULT_SETTINGS } from "./settings";
+import type { CardStyleRule } from "./types";
 
 // Mock DOM elements
 const mockContainerEl = {
@@ -34,6 +35,11 @@ vi.mock("obsidian", () => ({
     private desc = "";
     private textOnChange: ((value: string) => void) | null = null;
     private toggleOnChange: ((value: boolean) => void) | null = null;
+    private sliderOnChange: ((value: number) => void) | null = null;
+    private dropdownOnChange: ((value: string) => void) | null = null;
+    private colorOnChange: ((value: string) => void) | null = null;
+    private buttonOnClick: (() => void) | null = null;
+    private extraButtonOnClicks: (() => void)[] = [];
 
     constructor(containerEl: any) {
       this.containerEl = containerEl;
@@ -76,6 +82,71 @@ vi.mock("obsidian", () => ({
       return this;
     }
 
+    addSlider(callback: (slider: any) => void) {
+      const mockSlider = {
+        setLimits: vi.fn().mockReturnThis(),
+        setValue: vi.fn().mockReturnThis(),
+        setDynamicTooltip: vi.fn().mockReturnThis(),
+        onChange: vi.fn().mockImplementation((handler) => {
+          this.sliderOnChange = handler;
+          return mockSlider;
+        }),
+      };
+      callback(mockSlider);
+      return this;
+    }
+
+    addDropdown(callback: (dropdown: any) => void) {
+      const mockDropdown = {
+        addOptions: vi.fn().mockReturnThis(),
+        setValue: vi.fn().mockReturnThis(),
+        onChange: vi.fn().mockImplementation((handler) => {
+          this.dropdownOnChange = handler;
+          return mockDropdown;
+        }),
+      };
+      callback(mockDropdown);
+      return this;
+    }
+
+    addColorPicker(callback: (picker: any) => void) {
+      const mockPicker = {
+        setValue: vi.fn().mockReturnThis(),
+        onChange: vi.fn().mockImplementation((handler) => {
+          this.colorOnChange = handler;
+          return mockPicker;
+        }),
+      };
+      callback(mockPicker);
+      return this;
+    }
+
+    addButton(callback: (button: any) => void) {
+      const mockButton = {
+        setButtonText: vi.fn().mockReturnThis(),
+        onClick: vi.fn().mockImplementation((handler) => {
+          this.buttonOnClick = handler;
+          return mockButton;
+        }),
+      };
+      callback(mockButton);
+      return this;
+    }
+
+    addExtraButton(callback: (button: any) => void) {
+      const mockButton = {
+        setIcon: vi.fn().mockReturnThis(),
+        setTooltip: vi.fn().mockReturnThis(),
+        setDisabled: vi.fn().mockReturnThis(),
+        onClick: vi.fn().mockImplementation((handler) => {
+          this.extraButtonOnClicks.push(handler);
+          return mockButton;
+        }),
+      };
+      callback(mockButton);
+      return this;
+    }
+
     // Helper methods to trigger onChange callbacks in tests
     triggerTextChange(value: string) {
       if (this.textOnChange) {
@@ -88,6 +159,34 @@ vi.mock("obsidian", () => ({
         return this.toggleOnChange(value);
       }
     }
+
+    triggerSliderChange(value: number) {
+      if (this.sliderOnChange) {
+        return this.sliderOnChange(value);
+      }
+    }
+
+    triggerDropdownChange(value: string) {
+      if (this.dropdownOnChange) {
+        return this.dropdownOnChange(value);
+      }
+    }
+
+    triggerColorChange(value: string) {
+      if (this.colorOnChange) {
+        return this.colorOnChange(value);
+      }
+    }
+
+    triggerButtonClick() {
+      if (this.buttonOnClick) {
+        return this.buttonOnClick();
+      }
+    }
+
+    triggerExtraButtonClick(index: number) {
+      return this.extraButtonOnClicks[index]?.();
+    }
   },
 }));
 
@@ -141,6 +240,21 @@ describe("CardExplorerSettingTab", () => {
         sortKey: "updated",
         autoStart: false,
         showInSidebar: false,
+        cardMinWidth: 292,
+        maxCardsPerRow: 5,
+        previewLines: 3,
+        density: "comfortable",
+        previewMode: "raw",
+        coverPlacement: "top",
+        coverPropertyKeys: ["cover", "image", "banner"],
+        cardFields: [],
+        cardFieldStyle: "badges",
+        hiddenCardElements: [],
+        cardStyleRules: [],
+        excerptPropertyKeys: ["summary", "description"],
+        excerptSkipSyntax: true,
+        excerptStartHeading: "",
+        excerptMaxLength: 500,
       });
     });
   });
@@ -217,5 +331,226 @@ describe("CardExplorerSettingTab", () => {
       expect(mockPlugin.updateSetting).toHaveBeenCalledWith("showInSidebar", true);
       expect(mockPlugin.saveSettings).toHaveBeenCalled();
     });
+
+    it.each([
+      { name: "card width", index: 3, key: "cardMinWidth", value: 240 },
+      { name: "cards per row", index: 4, key: "maxCardsPerRow", value: 3 },
+      { name: "preview lines", index: 5, key: "previewLines", value: 6 },
+    ])(
+      "should call plugin.updateSetting and plugin.saveSettings when $name changes",
+      async ({ index, key, value }) => {
+        mockPlugin.updateSetting = vi.fn();
+
+        settingTab.display();
+        await mockSettings[index].triggerSliderChange(value);
+
+        expect(mockPlugin.updateSetting).toHaveBeenCalledWith(key, value);
+        expect(mockPlugin.saveSettings).toHaveBeenCalled();
+      }
+    );
+
+    it("should call plugin.updateSetting and plugin.saveSettings when density changes", async () => {
+      mockPlugin.updateSetting = vi.fn();
+
+      settingTab.display();
+      await mockSettings[6].triggerDropdownChange("compact");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("density", "compact");
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should call plugin.updateSetting and plugin.saveSettings when the preview mode changes", async () => {
+      mockPlugin.updateSetting = vi.fn();
+
+      settingTab.display();
+      await mockSettings[7].triggerDropdownChange("rendered");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("previewMode", "rendered");
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should call plugin.updateSetting and plugin.saveSettings when the cover placement changes", async () => {
+      mockPlugin.updateSetting = vi.fn();
+
+      settingTab.display();
+      await mockSettings[8].triggerDropdownChange("side");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("coverPlacement", "side");
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should save the cover properties as a list of keys", async () => {
+      mockPlugin.updateSetting = vi.fn();
+
+      settingTab.display();
+      await mockSettings[9].triggerTextChange(" banner, ,thumbnail ");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("coverPropertyKeys", [
+        "banner",
+        "thumbnail",
+      ]);
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should save the card fields in the order they are written", async () => {
+      mockPlugin.updateSetting = vi.fn();
+
+      settingTab.display();
+      await mockSettings[10].triggerTextChange("due, status,");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("cardFields", ["due", "status"]);
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should call plugin.updateSetting and plugin.saveSettings when the card field style changes", async () => {
+      mockPlugin.updateSetting = vi.fn();
+
+      settingTab.display();
+      await mockSettings[11].triggerDropdownChange("list");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("cardFieldStyle", "list");
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should hide and show the built-in card elements", async () => {
+      mockPlugin.updateSetting = vi.fn();
+      vi.mocked(mockPlugin.getSettings).mockReturnValue({
+        ...DEFAULT_SETTINGS,
+        hiddenCardElements: ["tags"],
+      });
+
+      try {
+        settingTab.display();
+        // Toggles follow the fields and their style: title, preview, tags, folder, date
+        await mockSettings[16].triggerToggleChange(false);
+        expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("hiddenCardElements", [
+          "tags",
+          "date",
+        ]);
+
+        await mockSettings[14].triggerToggleChange(true);
+        expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("hiddenCardElements", []);
+        expect(mockPlugin.saveSettings).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.mocked(mockPlugin.getSettings).mockReturnValue(defaultSettings);
+      }
+    });
+  });
+
+  describe("Card styling rules", () => {
+    const ideaRule: CardStyleRule = {
+      condition: { type: "tag", tag: "idea" },
+      effect: "tint",
+      color: "#e0ac00",
+      icon: "",
+    };
+    const archiveRule: CardStyleRule = {
+      condition: { type: "folder", folder: "Archive" },
+      effect: "dim",
+      color: "#e5534b",
+      icon: "",
+    };
+
+    // The rules follow the other settings: a row adding rules, then a condition row
+    // and a style row per rule
+    const getRuleRows = () => {
+      const header = mockSettings.findIndex((setting) => setting.name === "Card styling rules");
+      return {
+        header: mockSettings[header],
+        condition: (index: number) => mockSettings[header + 1 + index * 2],
+        style: (index: number) => mockSettings[header + 2 + index * 2],
+      };
+    };
+
+    beforeEach(() => {
+      mockPlugin.updateSetting = vi.fn();
+      vi.mocked(mockPlugin.getSettings).mockReturnValue({
+        ...DEFAULT_SETTINGS,
+        cardStyleRules: [ideaRule, archiveRule],
+      });
+    });
+
+    afterEach(() => {
+      vi.mocked(mockPlugin.getSettings).mockReturnValue(defaultSettings);
+    });
+
+    it("should add a rule and redraw the tab", async () => {
+      settingTab.display();
+      await getRuleRows().header.triggerButtonClick();
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("cardStyleRules", [
+        ideaRule,
+        archiveRule,
+        { condition: { type: "tag", tag: "" }, effect: "accent", color: "#e5534b", icon: "" },
+      ]);
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+      expect(mockContainerEl.empty).toHaveBeenCalledTimes(2);
+    });
+
+    it("should show a condition row and a style row per rule", () => {
+      settingTab.display();
+      const rows = getRuleRows();
+
+      expect(rows.condition(0).name).toBe("Rule 1");
+      expect(rows.condition(1).name).toBe("Rule 2");
+      expect(rows.style(1).desc).toBe("Style");
+    });
+
+    it("should update the condition of a rule as it is typed", async () => {
+      settingTab.display();
+      await getRuleRows().condition(0).triggerTextChange(" project ");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("cardStyleRules", [
+        { ...ideaRule, condition: { type: "tag", tag: "project" } },
+        archiveRule,
+      ]);
+      // Typing keeps the focus in the field
+      expect(mockContainerEl.empty).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reset the condition when its kind changes", async () => {
+      settingTab.display();
+      await getRuleRows().condition(1).triggerDropdownChange("property");
+
+      expect(mockPlugin.updateSetting).toHaveBeenCalledWith("cardStyleRules", [
+        ideaRule,
+        {
+          ...archiveRule,
+          condition: {
+            type: "property",
+            property: { key: "", operator: "equals", value: "", valueTo: "" },
+          },
+        },
+      ]);
+      expect(mockContainerEl.empty).toHaveBeenCalledTimes(2);
+    });
+
+    it("should change the style of a rule", async () => {
+      settingTab.display();
+      await getRuleRows().style(0).triggerColorChange("#3e8ed0");
+      expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("cardStyleRules", [
+        { ...ideaRule, color: "#3e8ed0" },
+        archiveRule,
+      ]);
+
+      await getRuleRows().style(1).triggerDropdownChange("icon");
+      expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("cardStyleRules", [
+        ideaRule,
+        { ...archiveRule, effect: "icon" },
+      ]);
+    });
+
+    it("should move and remove rules", async () => {
+      settingTab.display();
+      // Extra buttons: move up, move down, remove
+      await getRuleRows().condition(0).triggerExtraButtonClick(1);
+      expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("cardStyleRules", [
+        archiveRule,
+        ideaRule,
+      ]);
+
+      await getRuleRows().condition(0).triggerExtraButtonClick(2);
+      expect(mockPlugin.updateSetting).toHaveBeenLastCalledWith("cardStyleRules", [archiveRule]);
+    });
   });
 });
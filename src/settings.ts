@@ -1,5 +1,30 @@
 import { type App, PluginSettingTab, Setting } from "obsidian";
+import { PROPERTY_OPERATOR_LABELS } from "./components/PropertyFilterEditor";
 import type CardExplorerPlugin from "./main";
+import {
+  CARD_MIN_WIDTH_RANGE,
+  EXCERPT_MAX_LENGTH_RANGE,
+  MAX_CARDS_PER_ROW_LIMIT,
+  PREVIEW_MAX_LINES,
+} from "./store/constants";
+import {
+  CARD_ELEMENTS,
+  type CardDensity,
+  type CardDisplaySettings,
+  type CardElement,
+  type CardFieldStyle,
+  type CardRuleCondition,
+  type CardRuleConditionType,
+  type CardRuleEffect,
+  type CardStyleRule,
+  type CoverPlacement,
+  DEFAULT_CARD_DISPLAY_SETTINGS,
+  DEFAULT_EXCERPT_SETTINGS,
+  type ExcerptSettings,
+  type PreviewMode,
+  type PropertyFilter,
+  type PropertyFilterOperator,
+} from "./types";
 
 /**
  * Interface defining all configurable settings for the Card View Explorer plugin
@@ -8,8 +33,10 @@ import type CardExplorerPlugin from "./main";
  * Settings are persisted in the plugin's data.json file and loaded on plugin startup.
  *
  * This interface is used throughout the plugin to ensure type safety when accessing settings.
+ * The card size and density settings ({@link CardDisplaySettings}) apply to every open view
+ * as soon as they change; changed excerpt rules ({@link ExcerptSettings}) reload the notes.
  */
-export interface CardExplorerSettings {
+export interface CardExplorerSettings extends CardDisplaySettings, ExcerptSettings {
   /**
    * Frontmatter field name used for sorting notes
    *
@@ -77,6 +104,115 @@ export const DEFAULT_SETTINGS: CardExplorerSettings = {
   autoStart: false,
   /** Display in main workspace area, not in sidebar */
   showInSidebar: false,
+  /** Cards at least 292px wide, at most five to a row, three raw preview lines, comfortable spacing */
+  ...DEFAULT_CARD_DISPLAY_SETTINGS,
+  /** Previews prefer a summary or description property, then up to 500 characters of prose */
+  ...DEFAULT_EXCERPT_SETTINGS,
+};
+
+/**
+ * Option labels of the card densities (internal)
+ */
+const CARD_DENSITY_LABELS: Record<CardDensity, string> = {
+  compact: "Compact",
+  comfortable: "Comfortable",
+  spacious: "Spacious",
+};
+
+/**
+ * Option labels of the preview modes (internal)
+ */
+const PREVIEW_MODE_LABELS: Record<PreviewMode, string> = {
+  raw: "Raw markdown",
+  stripped: "Plain text",
+  rendered: "Rendered",
+};
+
+/**
+ * Parses a comma-separated list of frontmatter keys, dropping empty entries (internal)
+ */
+const parsePropertyKeys = (value: string): string[] =>
+  value
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key !== "");
+
+/**
+ * Option labels of the cover placements (internal)
+ */
+const COVER_PLACEMENT_LABELS: Record<CoverPlacement, string> = {
+  top: "Top banner",
+  side: "Side thumbnail",
+  none: "None",
+};
+
+/**
+ * Option labels of the card field styles (internal)
+ */
+const CARD_FIELD_STYLE_LABELS: Record<CardFieldStyle, string> = {
+  badges: "Badges",
+  list: "Key/value list",
+};
+
+/**
+ * Names of the built-in card elements, as used in the settings (internal)
+ */
+const CARD_ELEMENT_LABELS: Record<CardElement, string> = {
+  title: "title",
+  preview: "preview",
+  tags: "tags",
+  folder: "folder",
+  date: "date",
+};
+
+/**
+ * Option labels of the kinds of styling rule conditions (internal)
+ */
+const CARD_RULE_CONDITION_LABELS: Record<CardRuleConditionType, string> = {
+  tag: "Has tag",
+  folder: "In folder",
+  property: "Property",
+  age: "Dated",
+};
+
+/**
+ * Option labels of the styling rule effects (internal)
+ */
+const CARD_RULE_EFFECT_LABELS: Record<CardRuleEffect, string> = {
+  accent: "Accent color",
+  border: "Border",
+  tint: "Background tint",
+  icon: "Icon",
+  dim: "Dimmed",
+};
+
+/**
+ * Option labels of the age comparisons (internal)
+ */
+const CARD_RULE_AGE_LABELS: Record<"newer" | "older", string> = {
+  newer: "within the last",
+  older: "more than",
+};
+
+/**
+ * Color of newly added styling rules (internal)
+ */
+const DEFAULT_CARD_RULE_COLOR = "#e5534b";
+
+/**
+ * Create an empty condition of the given kind (internal)
+ */
+const createRuleCondition = (type: CardRuleConditionType): CardRuleCondition => {
+  switch (type) {
+    case "folder":
+      return { type, folder: "" };
+    case "property":
+      return { type, property: { key: "", operator: "equals", value: "", valueTo: "" } };
+    case "age":
+      return { type, comparison: "older", days: 30 };
+    default:
+      return { type: "tag", tag: "" };
+  }
 };
 
 /**
@@ -90,6 +226,13 @@ export const DEFAULT_SETTINGS: CardExplorerSettings = {
  * - Sort key configuration (text input field)
  * - Auto-start enable/disable (toggle switch)
  * - Sidebar display enable/disable (toggle switch)
+ * - Card minimum width, cards per row and preview lines (sliders), density, preview
+ *   mode and cover placement (dropdowns), cover properties (text input field)
+ * - Card fields (text input field), their style (dropdown) and the built-in card
+ *   elements shown (toggle switches)
+ * - Excerpt properties and start heading (text input fields), skipping lines without
+ *   prose (toggle switch) and excerpt length (slider)
+ * - Card styling rules: a condition and a style per rule, reordered and removed with buttons
  *
  * All setting changes are automatically saved to the plugin's data.json file.
  *
@@ -141,6 +284,18 @@ export class CardExplorerSettingTab extends PluginSettingTab {
 
     // Sidebar display setting - Configure whether to display Card View Explorer in sidebar instead of main area
     this.addSidebarDisplaySetting(containerEl, settings);
+
+    // Card display settings - Configure the size and spacing of the cards in every view
+    this.addCardDisplaySettings(containerEl, settings);
+
+    // Card field settings - Configure the frontmatter fields and built-in elements shown on cards
+    this.addCardFieldSettings(containerEl, settings);
+
+    // Excerpt settings - Configure which part of each note its card previews
+    this.addExcerptSettings(containerEl, settings);
+
+    // Card styling rules - Configure how cards are marked by the notes they show
+    this.addCardStyleRuleSettings(containerEl, settings);
   }
 
   /**
@@ -155,7 +310,9 @@ export class CardExplorerSettingTab extends PluginSettingTab {
   private addSortKeySetting(containerEl: HTMLElement, settings: CardExplorerSettings) {
     new Setting(containerEl)
       .setName("Sort key")
-      .setDesc("Frontmatter field to use for sorting (fallback to file modification time)")
+      .setDesc(
+        "Frontmatter field or built-in key (mtime, ctime, filename, filesize, wordcount, backlinks, tagcount) to sort by (fallback to file modification time)"
+      )
       .addText((text) =>
         text
           .setPlaceholder("updated")
@@ -210,4 +367,562 @@ export class CardExplorerSettingTab extends PluginSettingTab {
         })
       );
   }
+
+  /**
+   * Add card display setting controls
+   *
+   * Creates sliders for the card minimum width, the most cards per row and the
+   * number of preview lines, dropdowns for the density preset, the preview mode and
+   * the cover placement, and a text input for the cover properties. Changes apply to
+   * open views right away; the card width can also be changed with the zoom control
+   * of a view.
+   *
+   * @param containerEl - HTML element to add the settings to
+   * @param settings - Current plugin settings
+   */
+  private addCardDisplaySettings(containerEl: HTMLElement, settings: CardExplorerSettings) {
+    const { min, max, step } = CARD_MIN_WIDTH_RANGE;
+    new Setting(containerEl)
+      .setName("Card width")
+      .setDesc("Minimum width of a card in pixels; narrower cards fit more to a row")
+      .addSlider((slider) =>
+        slider
+          .setLimits(min, max, step)
+          .setValue(settings.cardMinWidth)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.updateSetting("cardMinWidth", value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Cards per row")
+      .setDesc("Most cards shown side by side, however wide the view")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, MAX_CARDS_PER_ROW_LIMIT, 1)
+          .setValue(settings.maxCardsPerRow)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.updateSetting("maxCardsPerRow", value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Preview lines")
+      .setDesc("Number of lines of the note preview shown on a card")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, PREVIEW_MAX_LINES, 1)
+          .setValue(settings.previewLines)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.updateSetting("previewLines", value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Density")
+      .setDesc("Spacing and text size of the cards")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(CARD_DENSITY_LABELS)
+          .setValue(settings.density)
+          .onChange(async (value) => {
+            this.plugin.updateSetting("density", value as CardDensity);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Preview")
+      .setDesc(
+        "Show the note preview as written, as plain text without markdown syntax, or rendered like the note (slower)"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(PREVIEW_MODE_LABELS)
+          .setValue(settings.previewMode)
+          .onChange(async (value) => {
+            this.plugin.updateSetting("previewMode", value as PreviewMode);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Cover image")
+      .setDesc("Show the cover image of a note as a banner, as a thumbnail, or not at all")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(COVER_PLACEMENT_LABELS)
+          .setValue(settings.coverPlacement)
+          .onChange(async (value) => {
+            this.plugin.updateSetting("coverPlacement", value as CoverPlacement);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Cover properties")
+      .setDesc(
+        "Frontmatter keys, separated by commas, holding the cover image; otherwise the first image in the note is used"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("cover, image, banner")
+          .setValue(settings.coverPropertyKeys.join(", "))
+          .onChange(async (value) => {
+            this.plugin.updateSetting("coverPropertyKeys", parsePropertyKeys(value));
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /**
+   * Add card field setting controls
+   *
+   * Creates a text input for the frontmatter properties shown on cards, whose order
+   * is the display order, a dropdown for their style, and a toggle per built-in
+   * element of the cards. Changes apply to open views right away.
+   *
+   * @param containerEl - HTML element to add the settings to
+   * @param settings - Current plugin settings
+   */
+  private addCardFieldSettings(containerEl: HTMLElement, settings: CardExplorerSettings) {
+    new Setting(containerEl)
+      .setName("Card fields")
+      .setDesc("Frontmatter properties shown on cards, separated by commas, in display order")
+      .addText((text) =>
+        text
+          .setPlaceholder("status, due, project")
+          .setValue(settings.cardFields.join(", "))
+          .onChange(async (value) => {
+            this.plugin.updateSetting("cardFields", parsePropertyKeys(value));
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Card field style")
+      .setDesc("Show the card fields as labelled badges or as a list of keys and values")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(CARD_FIELD_STYLE_LABELS)
+          .setValue(settings.cardFieldStyle)
+          .onChange(async (value) => {
+            this.plugin.updateSetting("cardFieldStyle", value as CardFieldStyle);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    for (const element of CARD_ELEMENTS) {
+      const label = CARD_ELEMENT_LABELS[element];
+      new Setting(containerEl)
+        .setName(`Show ${label}`)
+        .setDesc(`Show the ${label} of the note on its card`)
+        .addToggle((toggle) =>
+          toggle
+            .setValue(!settings.hiddenCardElements.includes(element))
+            .onChange(async (value) => {
+              // Read the current list, since other toggles may have changed it
+              const hidden = this.plugin
+                .getSettings()
+                .hiddenCardElements.filter((hiddenElement) => hiddenElement !== element);
+              this.plugin.updateSetting(
+                "hiddenCardElements",
+                value ? hidden : [...hidden, element]
+              );
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+  }
+
+  /**
+   * Add excerpt setting controls
+   *
+   * Creates text inputs for the frontmatter keys preferred as the excerpt and the
+   * heading the excerpt starts after, a toggle for skipping lines without prose and
+   * a slider for the excerpt length. Notes are reloaded with the new rules once
+   * the changes settle.
+   *
+   * @param containerEl - HTML element to add the settings to
+   * @param settings - Current plugin settings
+   */
+  private addExcerptSettings(containerEl: HTMLElement, settings: CardExplorerSettings) {
+    new Setting(containerEl)
+      .setName("Excerpt properties")
+      .setDesc(
+        "Frontmatter keys, separated by commas, whose value is previewed instead of the note body"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("summary, description")
+          .setValue(settings.excerptPropertyKeys.join(", "))
+          .onChange(async (value) => {
+            this.plugin.updateSetting("excerptPropertyKeys", parsePropertyKeys(value));
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Skip headings and embeds")
+      .setDesc(
+        "Preview prose only, skipping headings, embeds, lines of links, code blocks and tables"
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(settings.excerptSkipSyntax).onChange(async (value) => {
+          this.plugin.updateSetting("excerptSkipSyntax", value);
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Start at heading")
+      .setDesc("Preview the section after this heading, in notes that have it")
+      .addText((text) =>
+        text
+          .setPlaceholder("Summary")
+          .setValue(settings.excerptStartHeading)
+          .onChange(async (value) => {
+            this.plugin.updateSetting("excerptStartHeading", value.trim());
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const { min, max, step } = EXCERPT_MAX_LENGTH_RANGE;
+    new Setting(containerEl)
+      .setName("Excerpt length")
+      .setDesc("Most characters of a note kept for its preview")
+      .addSlider((slider) =>
+        slider
+          .setLimits(min, max, step)
+          .setValue(settings.excerptMaxLength)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.updateSetting("excerptMaxLength", value);
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /**
+   * Add card styling rule controls
+   *
+   * Creates a button adding a rule, then two rows per rule: its condition, with
+   * buttons moving it up or down the priority order or removing it, and its style.
+   * Changing the kind of a condition or effect, or the order of the rules, redraws
+   * the tab to show the matching controls; typing keeps the focus where it is.
+   *
+   * @param containerEl - HTML element to add the settings to
+   * @param settings - Current plugin settings
+   */
+  private addCardStyleRuleSettings(containerEl: HTMLElement, settings: CardExplorerSettings) {
+    new Setting(containerEl)
+      .setName("Card styling rules")
+      .setDesc(
+        "Mark the cards of notes matching a condition; where rules with the same style match, the first one wins"
+      )
+      .addButton((button) =>
+        button.setButtonText("Add rule").onClick(async () => {
+          const rule: CardStyleRule = {
+            condition: createRuleCondition("tag"),
+            effect: "accent",
+            color: DEFAULT_CARD_RULE_COLOR,
+            icon: "",
+          };
+          await this.saveCardStyleRules([...this.plugin.getSettings().cardStyleRules, rule], true);
+        })
+      );
+
+    settings.cardStyleRules.forEach((rule, index) => {
+      this.addCardStyleRuleCondition(containerEl, rule, index, settings.cardStyleRules.length);
+      this.addCardStyleRuleStyle(containerEl, rule, index);
+    });
+  }
+
+  /**
+   * Add the condition row of a styling rule
+   *
+   * @param containerEl - HTML element to add the row to
+   * @param rule - The rule
+   * @param index - Position of the rule in the priority order
+   * @param count - Number of rules
+   */
+  private addCardStyleRuleCondition(
+    containerEl: HTMLElement,
+    rule: CardStyleRule,
+    index: number,
+    count: number
+  ) {
+    const { condition } = rule;
+    const setting = new Setting(containerEl)
+      .setName(`Rule ${index + 1}`)
+      .setDesc("Applies to notes that match")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(CARD_RULE_CONDITION_LABELS)
+          .setValue(condition.type)
+          .onChange(async (value) => {
+            await this.updateCardStyleRule(
+              index,
+              (current) => ({
+                ...current,
+                condition: createRuleCondition(value as CardRuleConditionType),
+              }),
+              true
+            );
+          })
+      );
+
+    switch (condition.type) {
+      case "tag":
+        setting.addText((text) =>
+          text
+            .setPlaceholder("idea")
+            .setValue(condition.tag)
+            .onChange(async (value) => {
+              await this.updateCardStyleRule(index, (current) => ({
+                ...current,
+                condition: { type: "tag", tag: value.trim() },
+              }));
+            })
+        );
+        break;
+      case "folder":
+        setting.addText((text) =>
+          text
+            .setPlaceholder("Archive")
+            .setValue(condition.folder)
+            .onChange(async (value) => {
+              await this.updateCardStyleRule(index, (current) => ({
+                ...current,
+                condition: { type: "folder", folder: value.trim() },
+              }));
+            })
+        );
+        break;
+      case "property": {
+        const { property } = condition;
+        setting
+          .addText((text) =>
+            text
+              .setPlaceholder("due")
+              .setValue(property.key)
+              .onChange(async (value) => {
+                await this.updateRuleProperty(index, { key: value.trim() });
+              })
+          )
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOptions(PROPERTY_OPERATOR_LABELS)
+              .setValue(property.operator)
+              .onChange(async (value) => {
+                // Operators without operands and "between" change the inputs shown
+                await this.updateRuleProperty(
+                  index,
+                  { operator: value as PropertyFilterOperator },
+                  true
+                );
+              })
+          );
+        if (property.operator !== "exists" && property.operator !== "missing") {
+          setting.addText((text) =>
+            text
+              .setPlaceholder("today")
+              .setValue(property.value)
+              .onChange(async (value) => {
+                await this.updateRuleProperty(index, { value });
+              })
+          );
+        }
+        if (property.operator === "between") {
+          setting.addText((text) =>
+            text.setValue(property.valueTo).onChange(async (value) => {
+              await this.updateRuleProperty(index, { valueTo: value });
+            })
+          );
+        }
+        break;
+      }
+      case "age":
+        setting
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOptions(CARD_RULE_AGE_LABELS)
+              .setValue(condition.comparison)
+              .onChange(async (value) => {
+                const comparison = value as "newer" | "older";
+                await this.updateCardStyleRule(index, (current) =>
+                  current.condition.type === "age"
+                    ? { ...current, condition: { ...current.condition, comparison } }
+                    : current
+                );
+              })
+          )
+          .addText((text) =>
+            text
+              .setPlaceholder("days")
+              .setValue(String(condition.days))
+              .onChange(async (value) => {
+                const days = Number.parseInt(value, 10);
+                if (!Number.isFinite(days) || days < 0) return;
+                await this.updateCardStyleRule(index, (current) =>
+                  current.condition.type === "age"
+                    ? { ...current, condition: { ...current.condition, days } }
+                    : current
+                );
+              })
+          );
+        break;
+    }
+
+    setting
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            await this.moveCardStyleRule(index, index - 1);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-down")
+          .setTooltip("Move down")
+          .setDisabled(index === count - 1)
+          .onClick(async () => {
+            await this.moveCardStyleRule(index, index + 1);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove rule")
+          .onClick(async () => {
+            const rules = this.plugin.getSettings().cardStyleRules;
+            await this.saveCardStyleRules(
+              rules.filter((_, ruleIndex) => ruleIndex !== index),
+              true
+            );
+          })
+      );
+  }
+
+  /**
+   * Add the style row of a styling rule
+   *
+   * @param containerEl - HTML element to add the row to
+   * @param rule - The rule
+   * @param index - Position of the rule in the priority order
+   */
+  private addCardStyleRuleStyle(containerEl: HTMLElement, rule: CardStyleRule, index: number) {
+    const setting = new Setting(containerEl).setDesc("Style").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(CARD_RULE_EFFECT_LABELS)
+        .setValue(rule.effect)
+        .onChange(async (value) => {
+          await this.updateCardStyleRule(
+            index,
+            (current) => ({ ...current, effect: value as CardRuleEffect }),
+            true
+          );
+        })
+    );
+
+    if (rule.effect === "icon") {
+      setting.addText((text) =>
+        text
+          .setPlaceholder("💡")
+          .setValue(rule.icon)
+          .onChange(async (value) => {
+            await this.updateCardStyleRule(index, (current) => ({ ...current, icon: value }));
+          })
+      );
+    } else if (rule.effect !== "dim") {
+      setting.addColorPicker((picker) =>
+        picker.setValue(rule.color).onChange(async (value) => {
+          await this.updateCardStyleRule(index, (current) => ({ ...current, color: value }));
+        })
+      );
+    }
+  }
+
+  /**
+   * Update one styling rule, reading the current rules since other controls may have
+   * changed them
+   *
+   * @param index - Position of the rule
+   * @param update - Returns the updated rule
+   * @param redraw - Whether to redraw the tab, for changes that change the controls
+   */
+  private async updateCardStyleRule(
+    index: number,
+    update: (rule: CardStyleRule) => CardStyleRule,
+    redraw = false
+  ) {
+    const rules = this.plugin.getSettings().cardStyleRules;
+    await this.saveCardStyleRules(
+      rules.map((rule, ruleIndex) => (ruleIndex === index ? update(rule) : rule)),
+      redraw
+    );
+  }
+
+  /**
+   * Update the property condition of a styling rule
+   *
+   * @param index - Position of the rule
+   * @param changes - Changed fields of the condition
+   * @param redraw - Whether to redraw the tab
+   */
+  private async updateRuleProperty(
+    index: number,
+    changes: Partial<PropertyFilter>,
+    redraw = false
+  ) {
+    await this.updateCardStyleRule(
+      index,
+      (rule) =>
+        rule.condition.type === "property"
+          ? {
+              ...rule,
+              condition: {
+                ...rule.condition,
+                property: { ...rule.condition.property, ...changes },
+              },
+            }
+          : rule,
+      redraw
+    );
+  }
+
+  /**
+   * Move a styling rule to another position in the priority order
+   *
+   * @param from - Current position of the rule
+   * @param to - New position of the rule
+   */
+  private async moveCardStyleRule(from: number, to: number) {
+    const rules = [...this.plugin.getSettings().cardStyleRules];
+    if (to < 0 || to >= rules.length) return;
+    const [rule] = rules.splice(from, 1);
+    rules.splice(to, 0, rule);
+    await this.saveCardStyleRules(rules, true);
+  }
+
+  /**
+   * Save the styling rules, applying them to open views
+   *
+   * @param rules - The new rules
+   * @param redraw - Whether to redraw the tab
+   */
+  private async saveCardStyleRules(rules: CardStyleRule[], redraw = false) {
+    this.plugin.updateSetting("cardStyleRules", rules);
+    await this.plugin.saveSettings();
+    if (redraw) this.display();
+  }
 }
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { BoardConfig, NoteData } from "../../types";
+import {
+  type BoardColumn,
+  buildBoardColumns,
+  getBoardDropChange,
+  isInBoardColumn,
+} from "./boardLogic";
+
+const createNote = (title: string, status?: unknown): NoteData => ({
+  file: {} as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date("2024-01-01T00:00:00Z"),
+  frontmatter: status === undefined ? null : { status },
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+const config = (overrides: Partial<BoardConfig> = {}): BoardConfig => ({
+  property: "status",
+  columnOrder: [],
+  hiddenColumns: [],
+  ...overrides,
+});
+
+/** Column labels with the titles of their notes */
+const summarize = (notes: NoteData[], boardConfig: BoardConfig) =>
+  buildBoardColumns(notes, boardConfig).map((column) => [
+    column.label,
+    column.notes.map((note) => note.title),
+  ]);
+
+describe("boardLogic", () => {
+  const notes = [
+    createNote("Pinned", "doing"),
+    createNote("A", "todo"),
+    createNote("B"),
+    createNote("C", ["doing", "review"]),
+    createNote("D", "done"),
+  ];
+
+  describe("buildBoardColumns", () => {
+    it("should lay out notes by value in natural order, keeping their order within columns", () => {
+      expect(summarize(notes, config())).toEqual([
+        ["doing", ["Pinned", "C"]],
+        ["done", ["D"]],
+        ["todo", ["A"]],
+        ["No status", ["B"]],
+      ]);
+    });
+
+    it("should put ordered columns first and show them even when empty", () => {
+      expect(summarize(notes, config({ columnOrder: ["todo", "doing", "blocked"] }))).toEqual([
+        ["todo", ["A"]],
+        ["doing", ["Pinned", "C"]],
+        ["blocked", []],
+        ["done", ["D"]],
+        ["No status", ["B"]],
+      ]);
+    });
+
+    it("should leave out hidden columns, including the column without a value", () => {
+      expect(summarize(notes, config({ hiddenColumns: ["done", ""] }))).toEqual([
+        ["doing", ["Pinned", "C"]],
+        ["todo", ["A"]],
+      ]);
+    });
+
+    it("should write the column value, or remove the property for notes without a value", () => {
+      const columns = buildBoardColumns(notes, config());
+
+      expect(columns[0].value).toBe("doing");
+      expect(columns.at(-1)?.value).toBeNull();
+    });
+  });
+
+  describe("isInBoardColumn", () => {
+    it("should tell whether a note already has the value of a column", () => {
+      const columns = buildBoardColumns(notes, config());
+      const doing = columns[0];
+      const noValue = columns[3];
+
+      expect(isInBoardColumn(notes[3], "status", doing)).toBe(true);
+      expect(isInBoardColumn(notes[1], "status", doing)).toBe(false);
+      expect(isInBoardColumn(notes[2], "status", noValue)).toBe(true);
+    });
+  });
+
+  describe("getBoardDropChange", () => {
+    const column = (value: string | null, values: unknown[] = []): BoardColumn => ({
+      key: value ?? "",
+      label: value ?? "No status",
+      value,
+      notes: values.map((status, index) => createNote(`N${index}`, status)),
+    });
+
+    it("should write text values as text", () => {
+      expect(getBoardDropChange("todo", column("done"), "status")).toEqual({
+        type: "set",
+        value: "done",
+      });
+    });
+
+    it("should keep numbers and booleans of the column or the note", () => {
+      expect(getBoardDropChange(1, column("3"), "status")).toEqual({ type: "set", value: 3 });
+      expect(getBoardDropChange(undefined, column("2", [2]), "status")).toEqual({
+        type: "set",
+        value: 2,
+      });
+      expect(getBoardDropChange(false, column("true"), "status")).toEqual({
+        type: "set",
+        value: true,
+      });
+      expect(getBoardDropChange(1, column("high"), "status")).toEqual({
+        type: "set",
+        value: "high",
+      });
+    });
+
+    it("should replace only the grouped item of lists", () => {
+      expect(getBoardDropChange(["doing", "review"], column("done"), "status")).toEqual({
+        type: "set",
+        value: ["done", "review"],
+      });
+      expect(getBoardDropChange(["doing", "review"], column("review"), "status")).toEqual({
+        type: "set",
+        value: ["review"],
+      });
+    });
+
+    it("should remove the property, but refuse to drop lists of several items", () => {
+      expect(getBoardDropChange("todo", column(null), "status")).toEqual({ type: "remove" });
+      expect(getBoardDropChange(["todo"], column(null), "status")).toEqual({ type: "remove" });
+      expect(getBoardDropChange(["doing", "review"], column(null), "status")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Pure Functions - Board Layout
+ *
+ * These functions lay out the filtered and sorted notes of a view in board
+ * columns by the value of a frontmatter property. Notes keep their sorted order
+ * inside each column, so pinned notes (listed first) stay at the top of their column.
+ */
+
+import type { BoardConfig, NoteData } from "../../types";
+import { getPropertyGroupValue } from "../grouping";
+import { compareTitles } from "../sorting";
+
+/**
+ * A column of the board
+ */
+export interface BoardColumn {
+  /** Property value of the column; "" for notes without a value */
+  key: string;
+  /** Text shown in the column header */
+  label: string;
+  /** Value written to notes dropped on the column; null removes the property */
+  value: string | null;
+  /** Notes of the column, in the order of the sorted notes */
+  notes: NoteData[];
+}
+
+/** Key of the column holding notes without a value */
+const NO_VALUE_KEY = "";
+
+/**
+ * Split sorted notes into board columns
+ *
+ * Columns listed in the configured order come first, in that order, and are shown
+ * even when empty so that notes can be dragged into them. Other values follow in
+ * natural order, then the notes without a value. Hidden columns are left out.
+ *
+ * @param {NoteData[]} notes - Filtered and sorted notes of the view
+ * @param {BoardConfig} config - Board configuration
+ * @returns {BoardColumn[]} Visible columns in display order
+ */
+export const buildBoardColumns = (notes: NoteData[], config: BoardConfig): BoardColumn[] => {
+  const { property, columnOrder, hiddenColumns } = config;
+  const notesByKey = new Map<string, NoteData[]>();
+  for (const key of columnOrder) {
+    notesByKey.set(key, []);
+  }
+  for (const note of notes) {
+    const key = getPropertyGroupValue(note, property) ?? NO_VALUE_KEY;
+    const columnNotes = notesByKey.get(key);
+    if (columnNotes) {
+      columnNotes.push(note);
+    } else {
+      notesByKey.set(key, [note]);
+    }
+  }
+
+  const listed = new Set(columnOrder);
+  const otherKeys = Array.from(notesByKey.keys())
+    .filter((key) => !listed.has(key) && key !== NO_VALUE_KEY)
+    .sort(compareTitles);
+  const keys = [...listed, ...otherKeys];
+  if (!listed.has(NO_VALUE_KEY) && notesByKey.has(NO_VALUE_KEY)) {
+    keys.push(NO_VALUE_KEY);
+  }
+
+  return keys
+    .filter((key) => !hiddenColumns.includes(key))
+    .map((key) => ({
+      key,
+      label: key === NO_VALUE_KEY ? `No ${property}` : key,
+      value: key === NO_VALUE_KEY ? null : key,
+      notes: notesByKey.get(key) ?? [],
+    }));
+};
+
+/**
+ * Whether a note already sits in a column
+ *
+ * @param {NoteData} note - Note to check
+ * @param {string} property - Frontmatter property of the board
+ * @param {BoardColumn} column - Column to check
+ * @returns {boolean} True when dropping the note on the column would not change it
+ */
+export const isInBoardColumn = (note: NoteData, property: string, column: BoardColumn): boolean =>
+  (getPropertyGroupValue(note, property) ?? NO_VALUE_KEY) === column.key;
+
+/**
+ * Change of the board property of a note dropped on a column
+ *
+ * - "set": Write the value
+ * - "remove": Remove the property
+ */
+export type BoardDropChange = { type: "set"; value: unknown } | { type: "remove" };
+
+/**
+ * Text of a single frontmatter value, as it is grouped (internal)
+ */
+const toItemText = (value: unknown): string =>
+  value instanceof Date ? value.toISOString().slice(0, 10) : String(value).trim();
+
+/**
+ * Convert the text of a column to the type of a sample value (internal)
+ *
+ * Numbers and booleans stay numbers and booleans when the text reads as one;
+ * everything else is written as text.
+ */
+const toTypedValue = (text: string, sample: unknown): unknown => {
+  if (typeof sample === "number" && text !== "" && Number.isFinite(Number(text))) {
+    return Number(text);
+  }
+  if (typeof sample === "boolean" && (text === "true" || text === "false")) {
+    return text === "true";
+  }
+  return text;
+};
+
+/**
+ * Work out how to move a note to a column by rewriting its property
+ *
+ * The new value keeps the type of the values already in the column (or of the
+ * current value when the column is empty). Notes are grouped by the first item of
+ * list properties, so only that item is replaced and the other items are kept.
+ *
+ * @param {unknown} current - Current value of the property in the note
+ * @param {BoardColumn} column - Column the note is dropped on
+ * @param {string} property - Frontmatter property of the board
+ * @returns {BoardDropChange | null} Change to make, or null when the drop is refused: a list
+ *   of several items cannot move to the column without a value without losing items
+ */
+export const getBoardDropChange = (
+  current: unknown,
+  column: BoardColumn,
+  property: string
+): BoardDropChange | null => {
+  const items = Array.isArray(current) ? current : null;
+
+  if (column.value === null) {
+    return items && items.length > 1 ? null : { type: "remove" };
+  }
+
+  const text = column.value;
+  const columnValue = column.notes[0]?.frontmatter?.[property];
+  const sample = Array.isArray(columnValue) ? columnValue[0] : columnValue;
+  const value = toTypedValue(
+    text,
+    sample !== undefined && sample !== null ? sample : items ? items[0] : current
+  );
+
+  if (!items) return { type: "set", value };
+  // The new value moves to the front instead of appearing twice
+  const rest = items.slice(1).filter((item) => item === null || toItemText(item) !== text);
+  return { type: "set", value: [value, ...rest] };
+};
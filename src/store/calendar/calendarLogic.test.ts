@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { toDayKey } from "../../lib/dateUtils";
+import type { NoteData } from "../../types";
+import {
+  buildTimeline,
+  getCalendarDays,
+  groupNotesByDay,
+  shiftCalendarDate,
+} from "./calendarLogic";
+
+const createNote = (title: string, date?: Date): NoteData => ({
+  file: {} as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 1),
+  frontmatter: date === undefined ? null : { date },
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+/** Dates resolve from the `date` property only, so notes without it have no date */
+const DATE_KEYS = ["date"];
+
+describe("calendarLogic", () => {
+  describe("getCalendarDays", () => {
+    it("covers the whole weeks of a month, starting on Sunday", () => {
+      // February 2024 starts on a Thursday and ends on Thursday the 29th
+      const days = getCalendarDays(new Date(2024, 1, 14), "month");
+
+      expect(days).toHaveLength(35);
+      expect(toDayKey(days[0])).toBe("2024-01-28");
+      expect(toDayKey(days[4])).toBe("2024-02-01");
+      expect(toDayKey(days[34])).toBe("2024-03-02");
+      expect(days.every((day) => day.getHours() === 0)).toBe(true);
+    });
+
+    it("covers the week of a day", () => {
+      const days = getCalendarDays(new Date(2024, 1, 14, 15, 30), "week");
+
+      expect(days.map(toDayKey)).toEqual([
+        "2024-02-11",
+        "2024-02-12",
+        "2024-02-13",
+        "2024-02-14",
+        "2024-02-15",
+        "2024-02-16",
+        "2024-02-17",
+      ]);
+    });
+  });
+
+  describe("shiftCalendarDate", () => {
+    it("moves to the 1st of another month without overflowing short months", () => {
+      expect(toDayKey(shiftCalendarDate(new Date(2024, 0, 31), "month", 1))).toBe("2024-02-01");
+      expect(toDayKey(shiftCalendarDate(new Date(2024, 0, 31), "month", -1))).toBe("2023-12-01");
+    });
+
+    it("moves by whole weeks", () => {
+      expect(toDayKey(shiftCalendarDate(new Date(2024, 1, 28), "week", 1))).toBe("2024-03-06");
+    });
+  });
+
+  describe("groupNotesByDay", () => {
+    it("groups notes by the local day of their date, leaving out undated notes", () => {
+      const morning = createNote("Morning", new Date(2024, 1, 14, 8));
+      const evening = createNote("Evening", new Date(2024, 1, 14, 21));
+      const next = createNote("Next", new Date(2024, 1, 15, 0, 30));
+
+      const notesByDay = groupNotesByDay(
+        [morning, createNote("Undated"), evening, next],
+        DATE_KEYS
+      );
+
+      expect(Array.from(notesByDay.entries())).toEqual([
+        ["2024-02-14", [morning, evening]],
+        ["2024-02-15", [next]],
+      ]);
+    });
+  });
+
+  describe("buildTimeline", () => {
+    const jan = createNote("Jan", new Date(2023, 0, 10));
+    const febEarly = createNote("Feb early", new Date(2024, 1, 2));
+    const febLate = createNote("Feb late", new Date(2024, 1, 20));
+    const undated = createNote("Undated");
+    const notes = [febEarly, undated, jan, febLate];
+    const monthLabel = (date: Date) => date.toLocaleDateString([], { month: "long" });
+
+    it("lists notes newest first under year and month separators", () => {
+      expect(buildTimeline(notes, DATE_KEYS, "desc")).toEqual([
+        { type: "year", key: "2024", label: "2024" },
+        { type: "month", key: "2024-2", label: monthLabel(new Date(2024, 1, 1)) },
+        { type: "note", note: febLate },
+        { type: "note", note: febEarly },
+        { type: "year", key: "2023", label: "2023" },
+        { type: "month", key: "2023-1", label: monthLabel(new Date(2023, 0, 1)) },
+        { type: "note", note: jan },
+        { type: "year", key: "undated", label: "No date" },
+        { type: "note", note: undated },
+      ]);
+    });
+
+    it("lists notes oldest first for ascending sorts", () => {
+      const titles = buildTimeline(notes, DATE_KEYS, "asc").map((item) =>
+        item.type === "note" ? item.note.title : item.key
+      );
+
+      expect(titles).toEqual([
+        "2023",
+        "2023-1",
+        "Jan",
+        "2024",
+        "2024-2",
+        "Feb early",
+        "Feb late",
+        "undated",
+        "Undated",
+      ]);
+    });
+  });
+});
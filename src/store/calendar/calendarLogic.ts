@@ -0,0 +1,166 @@
+/**
+ * Pure Functions - Calendar and Timeline Layouts
+ *
+ * These functions place the filtered notes of a view on dates for the calendar
+ * and timeline layouts. A note's date is resolved through the view's sort key
+ * chain, the same way the date filter resolves it, so clicking a day of the
+ * calendar filters to exactly the notes shown on that day.
+ */
+
+import { toDayKey } from "../../lib/dateUtils";
+import type { CalendarMode, NoteData, SortConfig } from "../../types";
+import { getNoteDateBySortKey } from "../filters";
+
+/** Days in a week; weeks start on Sunday */
+const DAYS_PER_WEEK = 7;
+
+/**
+ * An item of the timeline: a year or month separator, or a note
+ */
+export type TimelineItem =
+  | {
+      /** Separator level */
+      type: "year" | "month";
+      /** Unique key of the separator */
+      key: string;
+      /** Text shown by the separator */
+      label: string;
+    }
+  | {
+      type: "note";
+      /** Note placed on the timeline */
+      note: NoteData;
+    };
+
+/**
+ * Start of the local day of a date (internal)
+ */
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Add days to a date, keeping the local time of day across daylight saving changes (internal)
+ */
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * List the days shown by the calendar around a date
+ *
+ * The month calendar covers whole weeks from the week of the 1st to the week of
+ * the last day of the month; the week calendar covers the week of the date.
+ * Weeks start on Sunday.
+ *
+ * @param {Date} date - Any day of the month or week to show
+ * @param {CalendarMode} mode - Span of days shown
+ * @returns {Date[]} Local midnights of the days, a multiple of 7
+ */
+export const getCalendarDays = (date: Date, mode: CalendarMode): Date[] => {
+  const first =
+    mode === "month" ? new Date(date.getFullYear(), date.getMonth(), 1) : startOfDay(date);
+  const start = addDays(first, -first.getDay());
+
+  let count = DAYS_PER_WEEK;
+  if (mode === "month") {
+    const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    const shownDays = first.getDay() + last.getDate();
+    count = Math.ceil(shownDays / DAYS_PER_WEEK) * DAYS_PER_WEEK;
+  }
+  return Array.from({ length: count }, (_, index) => addDays(start, index));
+};
+
+/**
+ * Move the calendar by whole months or weeks
+ *
+ * @param {Date} date - Day the calendar shows
+ * @param {CalendarMode} mode - Span of days shown
+ * @param {number} step - Months or weeks to move, negative to go back
+ * @returns {Date} The 1st of the new month, or the same weekday of the new week
+ */
+export const shiftCalendarDate = (date: Date, mode: CalendarMode, step: number): Date =>
+  mode === "month"
+    ? new Date(date.getFullYear(), date.getMonth() + step, 1)
+    : addDays(date, step * DAYS_PER_WEEK);
+
+/**
+ * Group notes by the local day of their date
+ *
+ * Notes without a date for any key of the chain are left out, as they are by the
+ * date filter. Notes keep their sorted order within each day.
+ *
+ * @param {NoteData[]} notes - Filtered and sorted notes of the view
+ * @param {string[]} dateKeys - Sort key chain resolving the date of a note
+ * @returns {Map<string, NoteData[]>} Notes keyed by day (YYYY-MM-DD)
+ */
+export const groupNotesByDay = (notes: NoteData[], dateKeys: string[]): Map<string, NoteData[]> => {
+  const notesByDay = new Map<string, NoteData[]>();
+  for (const note of notes) {
+    const date = getNoteDateBySortKey(note, dateKeys);
+    if (!date) continue;
+    const key = toDayKey(date);
+    const dayNotes = notesByDay.get(key);
+    if (dayNotes) {
+      dayNotes.push(note);
+    } else {
+      notesByDay.set(key, [note]);
+    }
+  }
+  return notesByDay;
+};
+
+/**
+ * Lay out notes on a timeline with year and month separators
+ *
+ * Notes are ordered by their date in the direction of the view's sort, newest
+ * first for descending sorts; notes on the same date keep their sorted order.
+ * Notes without a date follow under a "No date" separator.
+ *
+ * @param {NoteData[]} notes - Filtered and sorted notes of the view
+ * @param {string[]} dateKeys - Sort key chain resolving the date of a note
+ * @param {SortConfig["order"]} order - Sort direction of the view
+ * @returns {TimelineItem[]} Separators and notes in display order
+ */
+export const buildTimeline = (
+  notes: NoteData[],
+  dateKeys: string[],
+  order: SortConfig["order"]
+): TimelineItem[] => {
+  const dated: { note: NoteData; date: Date }[] = [];
+  const undated: NoteData[] = [];
+  for (const note of notes) {
+    const date = getNoteDateBySortKey(note, dateKeys);
+    if (date) {
+      dated.push({ note, date });
+    } else {
+      undated.push(note);
+    }
+  }
+  const direction = order === "asc" ? 1 : -1;
+  dated.sort((a, b) => direction * (a.date.getTime() - b.date.getTime()));
+
+  const items: TimelineItem[] = [];
+  let year: number | null = null;
+  let month: number | null = null;
+  for (const { note, date } of dated) {
+    if (date.getFullYear() !== year) {
+      year = date.getFullYear();
+      month = null;
+      items.push({ type: "year", key: String(year), label: String(year) });
+    }
+    if (date.getMonth() !== month) {
+      month = date.getMonth();
+      items.push({
+        type: "month",
+        key: `${year}-${month + 1}`,
+        label: date.toLocaleDateString([], { month: "long" }),
+      });
+    }
+    items.push({ type: "note", note });
+  }
+
+  if (undated.length > 0) {
+    items.push({ type: "year", key: "undated", label: "No date" });
+    items.push(...undated.map((note): TimelineItem => ({ type: "note", note })));
+  }
+  return items;
+};
@@ -1,11 +1,26 @@
 import type { App } from "obsidian";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type CardExplorerPlugin from "../main";
-import type { NoteData } from "../types";
-import { useCardExplorerStore } from "./cardExplorerStore";
+import {
+  DEFAULT_BOARD_CONFIG,
+  DEFAULT_CALENDAR_MODE,
+  DEFAULT_CARD_DISPLAY_SETTINGS,
+  DEFAULT_COMPACT_MODE,
+  DEFAULT_TABLE_COLUMNS,
+  type FilterState,
+  type LoadedNotes,
+  type NoteData,
+} from "../types";
+import {
+  type CardExplorerState,
+  type CardExplorerStore,
+  createCardExplorerStore,
+} from "./cardExplorerStore";
+import { createNoteIndexStore, type NoteIndexStore } from "./noteIndexStore";
 
 // Mock loadNotesFromVault function
-vi.mock("./noteProcessing", () => ({
+vi.mock("./noteProcessing", async () => ({
+  ...(await vi.importActual<typeof import("./noteProcessing")>("./noteProcessing")),
   loadNotesFromVault: vi.fn(),
 }));
 
@@ -80,7 +95,7 @@ const createTestNotes = () => ({
  */
 const createMockScenarios = () => ({
   successfulRefresh: (notes: NoteData[]) => {
-    mockLoadNotesFromVault.mockResolvedValueOnce(notes);
+    mockLoadNotesFromVault.mockResolvedValueOnce({ notes, bodies: new Map() });
     mockWithRetry.mockImplementation(async (fn) => await fn());
   },
 
@@ -98,7 +113,7 @@ const createMockScenarios = () => ({
  * State expectation helpers for consistent assertion patterns.
  * Provides reusable assertion functions for common state validations.
  */
-type StoreState = ReturnType<typeof useCardExplorerStore.getState>;
+type StoreState = CardExplorerState;
 
 const expectState = {
   initial: (state: StoreState) => {
@@ -131,7 +146,7 @@ const expectState = {
 };
 
 // Mock App object for testing
-const createMockApp = (): App => ({}) as App;
+const createMockApp = (): App => ({ metadataCache: { resolvedLinks: {} } }) as unknown as App;
 
 // Mock note data for testing
 const createMockNote = (
@@ -147,8 +162,10 @@ const createMockNote = (
   tags,
   lastModified,
   preview: `Preview for ${title}`,
+  wordCount: 0,
   file: { path } as any,
   frontmatter: {},
+  backlinkCount: 0,
 });
 
 const createMockPlugin = (data?: Partial<any>, settings?: Partial<any>): CardExplorerPlugin => {
@@ -162,6 +179,7 @@ const createMockPlugin = (data?: Partial<any>, settings?: Partial<any>): CardExp
     sortKey: "updated",
     autoStart: false,
     showInSidebar: true,
+    ...DEFAULT_CARD_DISPLAY_SETTINGS,
     ...settings,
   };
 
@@ -176,16 +194,24 @@ const createMockPlugin = (data?: Partial<any>, settings?: Partial<any>): CardExp
 };
 
 // Helper function to set up notes using refreshNotes
-const setupNotesWithRefresh = async (notes: NoteData[]) => {
-  mockLoadNotesFromVault.mockResolvedValueOnce(notes);
+const setupNotesWithRefresh = async (
+  notes: NoteData[],
+  bodies: Map<string, string> = new Map()
+) => {
+  mockLoadNotesFromVault.mockResolvedValueOnce({ notes, bodies });
   mockWithRetry.mockImplementation(async (fn) => await fn());
-  await useCardExplorerStore.getState().refreshNotes(createMockApp());
+  await store.getState().refreshNotes(createMockApp());
 };
 
+// Shared note index and the view store under test, recreated before each test
+let noteIndex: NoteIndexStore;
+let store: CardExplorerStore;
+
 describe("cardExplorerStore", () => {
   beforeEach(() => {
-    // Reset store before each test
-    useCardExplorerStore.getState().reset();
+    // Create fresh stores before each test
+    noteIndex = createNoteIndexStore();
+    store = createCardExplorerStore(noteIndex);
     // Clear all mocks
     vi.clearAllMocks();
     // Reset the mock function
@@ -196,7 +222,7 @@ describe("cardExplorerStore", () => {
 
   describe("Initial State", () => {
     it("should have correct initial state", () => {
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
 
       expectState.initial(state);
     });
@@ -210,10 +236,10 @@ describe("cardExplorerStore", () => {
       const mockApp = createMockApp();
 
       // Act
-      await useCardExplorerStore.getState().refreshNotes(mockApp);
+      await store.getState().refreshNotes(mockApp);
 
       // Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expect(state.notes).toEqual(mockNotes);
       expect(state.filteredNotes).toEqual(mockNotes);
       expectState.loading(state, false);
@@ -221,8 +247,8 @@ describe("cardExplorerStore", () => {
     });
 
     it("should set loading state during operation", async () => {
-      let resolveLoadNotes: (notes: NoteData[]) => void;
-      const loadNotesPromise = new Promise<NoteData[]>((resolve) => {
+      let resolveLoadNotes: (loaded: LoadedNotes) => void;
+      const loadNotesPromise = new Promise<LoadedNotes>((resolve) => {
         resolveLoadNotes = resolve;
       });
 
@@ -232,34 +258,34 @@ describe("cardExplorerStore", () => {
       mockLoadNotesFromVault.mockReturnValueOnce(loadNotesPromise);
 
       const mockApp = createMockApp();
-      const refreshPromise = useCardExplorerStore.getState().refreshNotes(mockApp);
+      const refreshPromise = store.getState().refreshNotes(mockApp);
 
       // Wait a bit for the async operation to start
       await new Promise((resolve) => setTimeout(resolve, 0));
 
       // Should be loading
-      expect(useCardExplorerStore.getState().isLoading).toBe(true);
+      expect(store.getState().isLoading).toBe(true);
 
       // Resolve the promise
-      resolveLoadNotes!([createMockNote("Test", "/test.md")]);
+      resolveLoadNotes!({ notes: [createMockNote("Test", "/test.md")], bodies: new Map() });
       await refreshPromise;
 
       // Should no longer be loading
-      expect(useCardExplorerStore.getState().isLoading).toBe(false);
+      expect(store.getState().isLoading).toBe(false);
     });
 
     it("should clear previous error on successful refresh", async () => {
       // Set initial error state
-      useCardExplorerStore.getState().setError("Previous error");
-      expect(useCardExplorerStore.getState().error).toBe("Previous error");
+      store.getState().setError("Previous error");
+      expect(store.getState().error).toBe("Previous error");
 
       const mockNotes = [createMockNote("Note", "/note.md")];
-      mockLoadNotesFromVault.mockResolvedValueOnce(mockNotes);
+      mockLoadNotesFromVault.mockResolvedValueOnce({ notes: mockNotes, bodies: new Map() });
       mockWithRetry.mockImplementation(async (fn) => await fn());
 
-      await useCardExplorerStore.getState().refreshNotes(createMockApp());
+      await store.getState().refreshNotes(createMockApp());
 
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expect(state.error).toBe(null);
       expect(state.notes).toEqual(mockNotes);
     });
@@ -292,10 +318,10 @@ describe("cardExplorerStore", () => {
         createMockScenarios().failedRefresh(testError, "Failed to refresh notes");
 
         // Act
-        await useCardExplorerStore.getState().refreshNotes(createMockApp());
+        await store.getState().refreshNotes(createMockApp());
 
         // Assert
-        const state = useCardExplorerStore.getState();
+        const state = store.getState();
         expectState.loading(state, false);
         expectState.error(state, "Failed to refresh notes");
 
@@ -307,6 +333,90 @@ describe("cardExplorerStore", () => {
     });
   });
 
+  describe("applyNoteDeltas", () => {
+    it("should update a single note without reloading the vault", async () => {
+      await setupNotesWithRefresh([
+        createMockNote("Alpha", "/a.md", "work", ["x"]),
+        createMockNote("Beta", "/b.md", "home", ["y"]),
+      ]);
+      const { availableTags, availableFolders } = store.getState();
+
+      noteIndex
+        .getState()
+        .applyNoteDeltas([
+          { type: "upsert", note: createMockNote("Alpha edited", "/a.md", "work", ["x"]) },
+        ]);
+
+      const state = store.getState();
+      expect(mockLoadNotesFromVault).toHaveBeenCalledTimes(1);
+      expect(state.notes.map((n) => n.title)).toEqual(["Alpha edited", "Beta"]);
+      expect(state.filteredNotes.map((n) => n.title)).toContain("Alpha edited");
+      // Options did not change, so references stay stable
+      expect(state.availableTags).toBe(availableTags);
+      expect(state.availableFolders).toBe(availableFolders);
+    });
+
+    it("should respect active filters and update available options", async () => {
+      await setupNotesWithRefresh([createMockNote("Alpha", "/a.md", "work", ["x"])]);
+      store.getState().updateFilters({ folders: ["work"] });
+
+      noteIndex.getState().applyNoteDeltas([
+        { type: "upsert", note: createMockNote("New", "/new.md", "home/sub", ["y/z"]) },
+        { type: "remove", path: "/a.md" },
+      ]);
+
+      const state = store.getState();
+      expect(state.notes.map((n) => n.path)).toEqual(["/new.md"]);
+      expect(state.filteredNotes).toEqual([]);
+      expect(state.availableTags).toEqual(["y", "y/z"]);
+      expect(state.availableFolders).toEqual(["home", "home/sub"]);
+    });
+
+    it("should search note bodies through the shared content index", async () => {
+      await setupNotesWithRefresh(
+        [createMockNote("Alpha", "/a.md"), createMockNote("Beta", "/b.md")],
+        new Map([
+          ["/a.md", "quarterly budget review"],
+          ["/b.md", "holiday plans"],
+        ])
+      );
+      store.getState().updateFilters({ content: "budget" });
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual(["/a.md"]);
+
+      noteIndex
+        .getState()
+        .applyNoteDeltas([
+          { type: "upsert", note: createMockNote("Beta", "/b.md"), body: "budget plans" },
+        ]);
+
+      expect(
+        store
+          .getState()
+          .filteredNotes.map((n) => n.path)
+          .sort()
+      ).toEqual(["/a.md", "/b.md"]);
+    });
+
+    it("should move notes and carry over their pin state", async () => {
+      await setupNotesWithRefresh([
+        createMockNote("Alpha", "/a.md"),
+        createMockNote("Beta", "/b.md"),
+      ]);
+      store.getState().togglePin("/b.md");
+
+      noteIndex
+        .getState()
+        .applyNoteDeltas([
+          { type: "move", oldPath: "/b.md", note: createMockNote("Beta", "/moved/b.md", "moved") },
+        ]);
+
+      const state = store.getState();
+      expect(state.pinnedNotes).toEqual(new Set(["/moved/b.md"]));
+      expect(state.filteredNotes.map((n) => n.path)).toEqual(["/moved/b.md", "/a.md"]);
+      expect(state.availableFolders).toEqual(["moved"]);
+    });
+  });
+
   describe("updateFilters", () => {
     // Parameterized tests for common filtering scenarios
     const filterTestCases = [
@@ -316,7 +426,7 @@ describe("cardExplorerStore", () => {
           createMockNote("Test Note", "/test.md"),
           createMockNote("Other Note", "/other.md"),
         ],
-        filter: { filename: "Test" },
+        filter: { filename: ["Test"] },
         expectedCount: 1,
         validator: (notes: NoteData[]) => {
           expect(notes[0].title).toBe("Test Note");
@@ -349,10 +459,10 @@ describe("cardExplorerStore", () => {
         await setupNotesWithRefresh(notes);
 
         // Act
-        useCardExplorerStore.getState().updateFilters(filter);
+        store.getState().updateFilters(filter);
 
         // Assert
-        const state = useCardExplorerStore.getState();
+        const state = store.getState();
         expectState.filteredResults(state, expectedCount, validator);
 
         // Verify filter state is updated
@@ -368,7 +478,7 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act
-      useCardExplorerStore.getState().updateFilters({
+      store.getState().updateFilters({
         dateRange: {
           type: "within",
           value: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
@@ -376,7 +486,7 @@ describe("cardExplorerStore", () => {
       });
 
       // Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expectState.filteredResults(state, 1, (notes) => {
         expect(notes[0].title).toBe("Note 1"); // Recent note
       });
@@ -388,7 +498,7 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act
-      useCardExplorerStore.getState().updateFilters({
+      store.getState().updateFilters({
         dateRange: {
           type: "after",
           value: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago
@@ -396,13 +506,57 @@ describe("cardExplorerStore", () => {
       });
 
       // Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expectState.filteredResults(state, 1, (notes) => {
         expect(notes[0].title).toBe("Note 1"); // Recent note
       });
     });
   });
 
+  describe("setSortByRelevance", () => {
+    const setupSearchNotes = () =>
+      setupNotesWithRefresh([
+        createMockNote("Team meeting", "/team.md", "", [], new Date("2024-03-01")),
+        createMockNote("Meeting notes", "/notes.md", "", [], new Date("2024-01-01")),
+        createMockNote("Other", "/other.md", "", [], new Date("2024-02-01")),
+      ]);
+
+    it("should rank search results by match score while enabled", async () => {
+      await setupSearchNotes();
+      store.getState().updateFilters({ filename: ["mtg", "nts"] });
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual(["/notes.md"]);
+
+      store.getState().updateFilters({ filename: ["meeting"] });
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual(["/team.md", "/notes.md"]);
+
+      store.getState().setSortByRelevance(true);
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual(["/notes.md", "/team.md"]);
+    });
+
+    it("should keep pinned notes at the top", async () => {
+      await setupSearchNotes();
+      store.getState().updateFilters({ filename: ["meeting"] });
+      store.getState().togglePin("/team.md");
+
+      store.getState().setSortByRelevance(true);
+
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual(["/team.md", "/notes.md"]);
+    });
+
+    it("should use the configured sort when no search is active", async () => {
+      await setupSearchNotes();
+
+      store.getState().setSortByRelevance(true);
+
+      expect(store.getState().sortByRelevance).toBe(true);
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual([
+        "/team.md",
+        "/other.md",
+        "/notes.md",
+      ]);
+    });
+  });
+
   describe("clearFilters", () => {
     it("should reset filters to default state and restore filtered notes", async () => {
       // Arrange
@@ -414,24 +568,24 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Apply filters to reduce the visible notes
-      useCardExplorerStore.getState().updateFilters({
+      store.getState().updateFilters({
         folders: ["work"],
         tags: ["important"],
-        filename: "Matching",
+        filename: ["Matching"],
       });
 
       // Verify filters are applied and filteredNotes is reduced
-      let state = useCardExplorerStore.getState();
+      let state = store.getState();
       expectState.filteredResults(state, 1, (notes) => {
         expect(notes[0].title).toBe("Matching Note");
       });
 
       // Act
-      useCardExplorerStore.getState().clearFilters();
+      store.getState().clearFilters();
 
       // Assert - Verify filters are cleared and all notes are now visible
-      state = useCardExplorerStore.getState();
-      expect(state.filters.filename).toBe("");
+      state = store.getState();
+      expect(state.filters.filename).toEqual([]);
       expect(state.filters.tags).toEqual([]);
       expect(state.filters.folders).toEqual([]);
       expect(state.filters.dateRange).toBe(null);
@@ -457,13 +611,22 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Update sort key to priority
-      useCardExplorerStore.getState().updateSortFromSettings("priority");
-      const state = useCardExplorerStore.getState();
+      store.getState().updateSortFromSettings("priority");
+      const state = store.getState();
 
       expect(state.sortConfig.key).toBe("priority");
       expect(state.sortConfig.order).toBe("desc"); // Should maintain default order
     });
 
+    it("should keep the chosen order and tie-breakers", () => {
+      const thenBy = [{ key: "title", order: "asc" as const }];
+      store.getState().setSortConfig({ key: "updated", order: "asc", thenBy });
+
+      store.getState().updateSortFromSettings("priority");
+
+      expect(store.getState().sortConfig).toEqual({ key: "priority", order: "asc", thenBy });
+    });
+
     it("should recompute filtered notes with new sort configuration", async () => {
       const mockNotes = [
         createMockNote("Note 1", "/note1.md"),
@@ -472,11 +635,11 @@ describe("cardExplorerStore", () => {
 
       // Set up initial state with filters
       await setupNotesWithRefresh(mockNotes);
-      useCardExplorerStore.getState().updateFilters({ folders: ["folder1"] });
+      store.getState().updateFilters({ folders: ["folder1"] });
 
       // Update sort key
-      useCardExplorerStore.getState().updateSortFromSettings("created");
-      const state = useCardExplorerStore.getState();
+      store.getState().updateSortFromSettings("created");
+      const state = store.getState();
 
       // Should maintain filters but update sort
       expect(state.sortConfig.key).toBe("created");
@@ -509,10 +672,10 @@ describe("cardExplorerStore", () => {
         await setupNotesWithRefresh(notes);
 
         // Act
-        useCardExplorerStore.getState().updateSortFromSettings(sortKey);
+        store.getState().updateSortFromSettings(sortKey);
 
         // Assert
-        const state = useCardExplorerStore.getState();
+        const state = store.getState();
         const actualOrder = state.filteredNotes.map((note) => note.title);
         expect(actualOrder).toEqual(expectedOrder);
         expect(state.sortConfig.key).toBe(sortKey);
@@ -539,15 +702,15 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act & Assert - Sort by priority
-      useCardExplorerStore.getState().updateSortFromSettings("priority");
-      let state = useCardExplorerStore.getState();
+      store.getState().updateSortFromSettings("priority");
+      let state = store.getState();
       expect(state.filteredNotes[0].title).toBe("Note A"); // priority: 3
       expect(state.filteredNotes[1].title).toBe("Note C"); // priority: 2
       expect(state.filteredNotes[2].title).toBe("Note B"); // priority: 1
 
       // Act & Assert - Switch to sort by created date
-      useCardExplorerStore.getState().updateSortFromSettings("created");
-      state = useCardExplorerStore.getState();
+      store.getState().updateSortFromSettings("created");
+      state = store.getState();
       expect(state.filteredNotes[0].title).toBe("Note B"); // 2024-01-04
       expect(state.filteredNotes[1].title).toBe("Note A"); // 2024-01-03
       expect(state.filteredNotes[2].title).toBe("Note C"); // 2024-01-02
@@ -564,10 +727,10 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(notesWithFrontmatter);
 
       // Act
-      useCardExplorerStore.getState().updateSortFromSettings("nonexistent");
+      store.getState().updateSortFromSettings("nonexistent");
 
       // Assert - Should fallback to lastModified (descending - newer first)
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expect(state.filteredNotes[0].title).toBe("New Note"); // newer date
       expect(state.filteredNotes[1].title).toBe("Old Note"); // older date
     });
@@ -590,11 +753,11 @@ describe("cardExplorerStore", () => {
 
       // Set up initial state with pinned note
       await setupNotesWithRefresh(mockNotes);
-      useCardExplorerStore.getState().togglePin("/a.md"); // Pin note with lowest priority
+      store.getState().togglePin("/a.md"); // Pin note with lowest priority
 
       // Update sort key to priority
-      useCardExplorerStore.getState().updateSortFromSettings("priority");
-      const state = useCardExplorerStore.getState();
+      store.getState().updateSortFromSettings("priority");
+      const state = store.getState();
 
       // Pinned note should still be first, despite having lowest priority
       expect(state.filteredNotes[0].path).toBe("/a.md");
@@ -604,6 +767,32 @@ describe("cardExplorerStore", () => {
     });
   });
 
+  describe("setSortConfig", () => {
+    it("should sort by the primary key and break ties with the next keys", async () => {
+      await setupNotesWithRefresh([
+        { ...createMockNote("A", "/a.md"), frontmatter: { status: "open", priority: 1 } },
+        { ...createMockNote("B", "/b.md"), frontmatter: { status: "done", priority: 3 } },
+        { ...createMockNote("C", "/c.md"), frontmatter: { status: "open", priority: 2 } },
+      ]);
+
+      store.getState().setSortConfig({
+        key: "status",
+        order: "desc",
+        thenBy: [{ key: "priority", order: "asc" }],
+      });
+
+      expect(store.getState().filteredNotes.map((n) => n.title)).toEqual(["A", "C", "B"]);
+
+      store.getState().setSortConfig({
+        key: "status",
+        order: "desc",
+        thenBy: [{ key: "priority", order: "desc" }],
+      });
+
+      expect(store.getState().filteredNotes.map((n) => n.title)).toEqual(["C", "A", "B"]);
+    });
+  });
+
   describe("togglePin", () => {
     it("should update pinned notes order", async () => {
       // Arrange
@@ -611,10 +800,10 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act
-      useCardExplorerStore.getState().togglePin("/note1.md");
+      store.getState().togglePin("/note1.md");
 
       // Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expect(state.pinnedNotes.has("/note1.md")).toBe(true);
       expect(state.pinnedNotes.has("/note2.md")).toBe(false);
     });
@@ -625,10 +814,10 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act
-      useCardExplorerStore.getState().togglePin("/note2.md");
+      store.getState().togglePin("/note2.md");
 
       // Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expect(state.filteredNotes[0].path).toBe("/note2.md"); // Pinned note first
       expect(state.filteredNotes[1].path).toBe("/note1.md");
     });
@@ -639,11 +828,11 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act
-      useCardExplorerStore.getState().togglePin("/note1.md");
-      useCardExplorerStore.getState().togglePin("/note1.md");
+      store.getState().togglePin("/note1.md");
+      store.getState().togglePin("/note1.md");
 
       // Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       expect(state.pinnedNotes.has("/note1.md")).toBe(false);
     });
   });
@@ -654,23 +843,28 @@ describe("cardExplorerStore", () => {
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      store.getState().initializeFromPluginData(data, settings);
+      const state = store.getState();
 
       expect(state.pinnedNotes.size).toBe(0);
-      expect(state.filters.filename).toBe("");
+      expect(state.filters.filename).toEqual([]);
       expect(state.sortConfig.key).toBe("updated");
     });
 
-    it("should initialize pinned notes from plugin data", () => {
+    it("should take pinned notes from the shared note index", () => {
       const plugin = createMockPlugin({
         pinnedNotes: ["/note1.md", "/note2.md"],
       });
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      store.getState().initializeFromPluginData(data, settings);
+
+      // Pins are restored by the plugin into the shared index, not per view
+      expect(store.getState().pinnedNotes.size).toBe(0);
+
+      noteIndex.getState().setPinnedNotes(data.pinnedNotes);
+      const state = store.getState();
 
       expect(state.pinnedNotes.size).toBe(2);
       expect(state.pinnedNotes.has("/note1.md")).toBe(true);
@@ -682,19 +876,19 @@ describe("cardExplorerStore", () => {
         lastFilters: {
           folders: ["work", "personal"],
           tags: ["important"],
-          filename: "meeting",
+          filename: ["meeting"],
           dateRange: null,
         },
       });
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      store.getState().initializeFromPluginData(data, settings);
+      const state = store.getState();
 
       expect(state.filters.folders).toEqual(["work", "personal"]);
       expect(state.filters.tags).toEqual(["important"]);
-      expect(state.filters.filename).toBe("meeting");
+      expect(state.filters.filename).toEqual(["meeting"]);
       expect(state.filters.dateRange).toBe(null);
     });
 
@@ -713,15 +907,17 @@ describe("cardExplorerStore", () => {
         lastFilters: {
           folders: ["work", "personal"],
           tags: [],
-          filename: "",
+          filename: [],
+          filenamePhrases: [],
           dateRange: null,
         },
       });
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      noteIndex.getState().setPinnedNotes(data.pinnedNotes);
+      store.getState().initializeFromPluginData(data, settings);
+      const state = store.getState();
 
       // Should filter out archive folder and pin personal note to top
       expect(state.filteredNotes).toHaveLength(2);
@@ -729,6 +925,30 @@ describe("cardExplorerStore", () => {
       expect(state.filteredNotes[1].path).toBe("/work/note.md");
     });
 
+    it("should restore the saved sort configuration", () => {
+      const sortConfig = {
+        key: "priority",
+        order: "asc" as const,
+        thenBy: [{ key: "due", order: "desc" as const }],
+      };
+      const plugin = createMockPlugin({ sortConfig }, { sortKey: "created" });
+
+      store.getState().initializeFromPluginData(plugin.getData(), plugin.getSettings());
+
+      expect(store.getState().sortConfig).toEqual(sortConfig);
+    });
+
+    it("should use the settings sort key for sort configurations saved by older versions", () => {
+      const plugin = createMockPlugin(
+        { sortConfig: { key: "updated", order: "desc" } },
+        { sortKey: "created" }
+      );
+
+      store.getState().initializeFromPluginData(plugin.getData(), plugin.getSettings());
+
+      expect(store.getState().sortConfig).toEqual({ key: "created", order: "desc" });
+    });
+
     it("should handle partial plugin data gracefully", () => {
       const plugin = createMockPlugin({
         pinnedNotes: ["/note1.md"],
@@ -737,12 +957,12 @@ describe("cardExplorerStore", () => {
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      store.getState().initializeFromPluginData(data, settings);
+      const state = store.getState();
 
-      // Should use defaults for missing data
-      expect(state.pinnedNotes.has("/note1.md")).toBe(true);
-      expect(state.filters.filename).toBe("");
+      // Should use defaults for missing data; pins stay with the shared index
+      expect(state.pinnedNotes.has("/note1.md")).toBe(false);
+      expect(state.filters.filename).toEqual([]);
       expect(state.sortConfig.key).toBe("updated");
     });
 
@@ -752,22 +972,22 @@ describe("cardExplorerStore", () => {
         lastFilters: {
           folders: ["work"],
           tags: ["important"],
-          filename: "test",
+          filename: ["test"],
           dateRange: null,
         },
       });
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      store.getState().initializeFromPluginData(data, settings);
+      const state = store.getState();
 
       // Should handle null pinnedNotes and initialize with empty Set
       expect(state.pinnedNotes.size).toBe(0);
       expect(state.pinnedNotes).toEqual(new Set());
 
       // Other data should be initialized correctly
-      expect(state.filters.filename).toBe("test");
+      expect(state.filters.filename).toEqual(["test"]);
       expect(state.filters.folders).toEqual(["work"]);
       expect(state.filters.tags).toEqual(["important"]);
       expect(state.sortConfig.key).toBe("updated");
@@ -779,83 +999,409 @@ describe("cardExplorerStore", () => {
         lastFilters: {
           folders: ["personal"],
           tags: [],
-          filename: "meeting",
+          filename: ["meeting"],
           dateRange: null,
         },
       });
 
       const data = plugin.getData();
       const settings = plugin.getSettings();
-      useCardExplorerStore.getState().initializeFromPluginData(data, settings);
-      const state = useCardExplorerStore.getState();
+      store.getState().initializeFromPluginData(data, settings);
+      const state = store.getState();
 
       // Should handle undefined pinnedNotes and initialize with empty Set
       expect(state.pinnedNotes.size).toBe(0);
       expect(state.pinnedNotes).toEqual(new Set());
 
       // Other data should be initialized correctly
-      expect(state.filters.filename).toBe("meeting");
+      expect(state.filters.filename).toEqual(["meeting"]);
       expect(state.filters.folders).toEqual(["personal"]);
       expect(state.filters.tags).toEqual([]);
     });
   });
 
   describe("reset", () => {
-    it("should reset all state to initial values", async () => {
+    it("should reset view configuration and keep shared notes", async () => {
       // Arrange - Set up some state
       const testNote = createTestNotes().basic(1)[0];
       await setupNotesWithRefresh([testNote]);
-      useCardExplorerStore.getState().updateFilters({ filename: "test" });
-      useCardExplorerStore.getState().togglePin("/test.md");
-      useCardExplorerStore.getState().setError("Some error");
+      store.getState().updateFilters({ filename: ["missing"] });
+      store.getState().updateSortFromSettings("created");
 
       // Verify state has been modified
-      const beforeState = useCardExplorerStore.getState();
-      expect(beforeState.notes).toHaveLength(1);
-      expect(beforeState.pinnedNotes.size).toBe(1);
-      expect(beforeState.filters.filename).toBe("test");
-      expect(beforeState.error).toBe("Some error");
+      const beforeState = store.getState();
+      expect(beforeState.filteredNotes).toHaveLength(0);
+      expect(beforeState.filters.filename).toEqual(["missing"]);
 
       // Act
-      useCardExplorerStore.getState().reset();
+      store.getState().reset();
 
-      // Assert - Should be back to initial state
-      const afterState = useCardExplorerStore.getState();
-      expectState.initial(afterState);
+      // Assert - Configuration is back to defaults, notes come from the index
+      const afterState = store.getState();
+      expect(afterState.filters.filename).toEqual([]);
       expect(afterState.sortConfig.key).toBe("updated");
       expect(afterState.sortConfig.order).toBe("desc");
+      expect(afterState.notes).toEqual([testNote]);
+      expect(afterState.filteredNotes).toEqual([testNote]);
+    });
+  });
+
+  describe("View state", () => {
+    const viewState = {
+      filters: {
+        folders: ["work"],
+        folderMatchMode: "any" as const,
+        tags: [],
+        tagMatchMode: "any" as const,
+        filename: [],
+        filenamePhrases: [],
+        content: "",
+        excludeFolders: [],
+        excludeTags: [],
+        excludeFilename: [],
+        properties: [],
+        dateRange: null,
+      },
+      sortConfig: { key: "created", order: "asc" as const },
+      sortByRelevance: false,
+      layoutMode: "grid" as const,
+      groupBy: { mode: "property" as const, property: "status" },
+      collapsedGroups: ["done"],
+      tableColumns: [{ key: "filename", width: 240 }, { key: "status" }],
+      boardConfig: { property: "stage", columnOrder: ["todo", "done"], hiddenColumns: [""] },
+      calendarMode: "week" as const,
+      compactMode: "off" as const,
+      scrollAnchor: "/work/note.md",
+      viewId: "view-1",
+    };
+
+    it("should return filters, sort, layout, groups and scroll anchor", () => {
+      store.getState().updateFilters({ filename: ["meeting"] });
+      store.getState().setScrollAnchor("/note.md");
+
+      expect(store.getState().getViewState()).toEqual({
+        filters: {
+          folders: [],
+          folderMatchMode: "any",
+          tags: [],
+          tagMatchMode: "any",
+          filename: ["meeting"],
+          filenamePhrases: [],
+          content: "",
+          excludeFolders: [],
+          excludeTags: [],
+          excludeFilename: [],
+          properties: [],
+          dateRange: null,
+        },
+        sortConfig: { key: "updated", order: "desc" },
+        sortByRelevance: false,
+        layoutMode: "grid",
+        groupBy: { mode: "none" },
+        collapsedGroups: [],
+        tableColumns: [{ key: "filename" }, { key: "folder" }, { key: "tags" }, { key: "mtime" }],
+        boardConfig: { property: "status", columnOrder: [], hiddenColumns: [] },
+        calendarMode: "month",
+        compactMode: "auto",
+        scrollAnchor: "/note.md",
+        viewId: expect.any(String),
+      });
+    });
+
+    it("should not group views restored from state saved by older versions", () => {
+      const { groupBy: _, collapsedGroups: __, ...legacyState } = viewState;
+
+      store.getState().restoreViewState(legacyState);
+
+      expect(store.getState().groupBy).toEqual({ mode: "none" });
+      expect(store.getState().collapsedGroups).toEqual([]);
+    });
+
+    it("should use the default table columns for state saved by older versions", () => {
+      const { tableColumns: _, ...legacyState } = viewState;
+      store.getState().setTableColumns([{ key: "status" }]);
+
+      store.getState().restoreViewState(legacyState);
+
+      expect(store.getState().tableColumns).toEqual(DEFAULT_TABLE_COLUMNS);
+    });
+
+    it("should use the default board for state saved by older versions", () => {
+      const { boardConfig: _, ...legacyState } = viewState;
+      store.getState().setBoardConfig({ property: "stage", columnOrder: [], hiddenColumns: [] });
+
+      store.getState().restoreViewState(legacyState);
+
+      expect(store.getState().boardConfig).toEqual(DEFAULT_BOARD_CONFIG);
+    });
+
+    it("should show months in the calendar for state saved by older versions", () => {
+      const { calendarMode: _, ...legacyState } = viewState;
+      store.getState().setCalendarMode("week");
+
+      store.getState().restoreViewState(legacyState);
+
+      expect(store.getState().calendarMode).toBe(DEFAULT_CALENDAR_MODE);
+    });
+
+    it("should switch to the compact list automatically for state saved by older versions", () => {
+      const { compactMode: _, ...legacyState } = viewState;
+      store.getState().setCompactMode("on");
+
+      store.getState().restoreViewState(legacyState);
+
+      expect(store.getState().compactMode).toBe(DEFAULT_COMPACT_MODE);
+    });
+
+    it("should keep the generated view id for state saved by older versions", () => {
+      const { viewId } = store.getState();
+      const { viewId: _, ...legacyState } = viewState;
+
+      store.getState().restoreViewState(legacyState);
+
+      expect(store.getState().viewId).toBe(viewId);
+    });
+
+    it("should restore view state and recompute filtered notes", async () => {
+      await setupNotesWithRefresh([
+        createMockNote("Work Note", "/work/note.md", "work"),
+        createMockNote("Home Note", "/home/note.md", "home"),
+      ]);
+
+      store.getState().restoreViewState(viewState);
+
+      const state = store.getState();
+      expect(state.getViewState()).toEqual(viewState);
+      expect(state.pendingScrollAnchor).toBe("/work/note.md");
+      expect(state.filteredNotes.map((n) => n.path)).toEqual(["/work/note.md"]);
+
+      state.clearPendingScrollAnchor();
+      expect(store.getState().pendingScrollAnchor).toBeNull();
+    });
+
+    it("should fill in exclusion filters missing from older saved state", () => {
+      const legacyFilters = { folders: ["work"], tags: [], filename: "", dateRange: null };
+
+      store
+        .getState()
+        .restoreViewState({ ...viewState, filters: legacyFilters as unknown as FilterState });
+
+      expect(store.getState().filters).toEqual(viewState.filters);
+    });
+
+    it("should split filename searches saved as single strings", () => {
+      const legacyFilters = {
+        ...viewState.filters,
+        filename: "weekly  review",
+        excludeFilename: "old copy",
+      };
+
+      store
+        .getState()
+        .restoreViewState({ ...viewState, filters: legacyFilters as unknown as FilterState });
+
+      expect(store.getState().filters).toMatchObject({
+        filename: ["weekly", "review"],
+        filenamePhrases: [],
+        excludeFilename: ["old copy"],
+      });
+    });
+
+    it("should not let plugin data override restored view state", () => {
+      store.getState().restoreViewState(viewState);
+
+      store
+        .getState()
+        .initializeFromPluginData(
+          createMockPlugin().getData(),
+          createMockPlugin({}, { sortKey: "title" }).getSettings()
+        );
+
+      expect(store.getState().getViewState()).toEqual(viewState);
+    });
+
+    it("should take the card display settings even after restoring view state", () => {
+      store.getState().restoreViewState(viewState);
+
+      store
+        .getState()
+        .initializeFromPluginData(
+          createMockPlugin().getData(),
+          createMockPlugin({}, { cardMinWidth: 240, density: "spacious" }).getSettings()
+        );
+
+      expect(store.getState().cardDisplay).toEqual({
+        ...DEFAULT_CARD_DISPLAY_SETTINGS,
+        cardMinWidth: 240,
+        density: "spacious",
+      });
+    });
+
+    it("should toggle collapsed groups", () => {
+      store.getState().toggleGroupCollapsed("work");
+      store.getState().toggleGroupCollapsed("home");
+      store.getState().toggleGroupCollapsed("work");
+
+      expect(store.getState().collapsedGroups).toEqual(["home"]);
+    });
+
+    it("should expand all groups when the grouping changes", () => {
+      store.getState().toggleGroupCollapsed("work");
+
+      store.getState().setGroupBy({ mode: "folder" });
+
+      expect(store.getState().groupBy).toEqual({ mode: "folder" });
+      expect(store.getState().collapsedGroups).toEqual([]);
+    });
+
+    it("should only update the scroll anchor when it changes", () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.getState().setScrollAnchor("/a.md");
+      store.getState().setScrollAnchor("/a.md");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Manual order", () => {
+    const manualSort = { key: "manual", order: "asc" as const };
+
+    beforeEach(async () => {
+      await setupNotesWithRefresh([
+        createMockNote("A", "/a.md"),
+        createMockNote("B", "/b.md"),
+        createMockNote("C", "/c.md"),
+      ]);
+    });
+
+    it("should reorder notes moved while sorting by the manual order", () => {
+      store.getState().setSortConfig(manualSort);
+      store.getState().moveNote("/c.md", "/a.md");
+
+      const state = store.getState();
+      expect(state.manualOrder).toEqual(["/c.md", "/a.md", "/b.md"]);
+      expect(state.filteredNotes.map((n) => n.path)).toEqual(["/c.md", "/a.md", "/b.md"]);
+    });
+
+    it("should ignore moves unless the notes are displayed in manual order", () => {
+      store.getState().moveNote("/c.md", "/a.md");
+      expect(store.getState().manualOrder).toEqual([]);
+
+      store.getState().setSortConfig(manualSort);
+      store.getState().setSortByRelevance(true);
+      store.getState().updateFilters({ filename: ["a"] });
+      expect(store.getState().canReorderManually()).toBe(false);
+    });
+
+    it("should restore the manual order and save it under the view id", () => {
+      store.getState().restoreViewState(
+        {
+          filters: store.getState().filters,
+          sortConfig: manualSort,
+          layoutMode: "grid",
+          scrollAnchor: null,
+          viewId: "view-1",
+        },
+        ["/b.md", "/a.md"]
+      );
+
+      const state = store.getState();
+      expect(state.filteredNotes.map((n) => n.path)).toEqual(["/b.md", "/a.md", "/c.md"]);
+      expect(state.getSerializableData().manualOrders).toEqual({ "view-1": ["/b.md", "/a.md"] });
+    });
+
+    it("should keep renamed notes at their manual position", () => {
+      store.getState().setSortConfig(manualSort);
+      store.getState().moveNote("/c.md", "/a.md");
+
+      noteIndex
+        .getState()
+        .applyNoteDeltas([
+          { type: "move", oldPath: "/c.md", note: createMockNote("C", "/x/c.md") },
+        ]);
+
+      const state = store.getState();
+      expect(state.manualOrder).toEqual(["/x/c.md", "/a.md", "/b.md"]);
+      expect(state.filteredNotes.map((n) => n.path)).toEqual(["/x/c.md", "/a.md", "/b.md"]);
+    });
+  });
+
+  describe("Independent views", () => {
+    it("should keep filters and sort separate for views sharing one index", async () => {
+      const otherStore = createCardExplorerStore(noteIndex);
+      await setupNotesWithRefresh([
+        createMockNote("Work Note", "/work/note.md", "work"),
+        createMockNote("Home Note", "/home/note.md", "home"),
+      ]);
+
+      store.getState().updateFilters({ folders: ["work"] });
+
+      expect(store.getState().filteredNotes.map((n) => n.path)).toEqual(["/work/note.md"]);
+      expect(otherStore.getState().filteredNotes).toHaveLength(2);
+      expect(otherStore.getState().filters.folders).toEqual([]);
+    });
+
+    it("should apply shared deltas and pins to every view", async () => {
+      const otherStore = createCardExplorerStore(noteIndex);
+      await setupNotesWithRefresh([
+        createMockNote("Alpha", "/a.md", "work"),
+        createMockNote("Beta", "/b.md", "home"),
+      ]);
+      store.getState().updateFilters({ folders: ["work"] });
+
+      noteIndex
+        .getState()
+        .applyNoteDeltas([{ type: "upsert", note: createMockNote("Gamma", "/c.md", "work") }]);
+      otherStore.getState().togglePin("/b.md");
+
+      const filteredPaths = store.getState().filteredNotes.map((n) => n.path);
+      expect(filteredPaths.sort()).toEqual(["/a.md", "/c.md"]);
+      expect(store.getState().pinnedNotes).toEqual(new Set(["/b.md"]));
+      expect(otherStore.getState().filteredNotes[0].path).toBe("/b.md");
+      expect(otherStore.getState().filteredNotes).toHaveLength(3);
+    });
+
+    it("should stop following the index after dispose", async () => {
+      store.getState().dispose();
+
+      await setupNotesWithRefresh([createMockNote("Alpha", "/a.md")]);
+
+      expect(noteIndex.getState().notes).toHaveLength(1);
+      expect(store.getState().notes).toEqual([]);
     });
   });
 
   describe("setError", () => {
     it("should set error message", () => {
-      const initialState = useCardExplorerStore.getState();
+      const initialState = store.getState();
       expect(initialState.error).toBe(null);
 
-      useCardExplorerStore.getState().setError("Test error message");
-      const state = useCardExplorerStore.getState();
+      store.getState().setError("Test error message");
+      const state = store.getState();
 
       expect(state.error).toBe("Test error message");
     });
 
     it("should clear error message when set to null", () => {
       // First set an error
-      useCardExplorerStore.getState().setError("Some error");
-      expect(useCardExplorerStore.getState().error).toBe("Some error");
+      store.getState().setError("Some error");
+      expect(store.getState().error).toBe("Some error");
 
       // Then clear it
-      useCardExplorerStore.getState().setError(null);
-      const state = useCardExplorerStore.getState();
+      store.getState().setError(null);
+      const state = store.getState();
 
       expect(state.error).toBe(null);
     });
 
     it("should replace existing error message", () => {
-      useCardExplorerStore.getState().setError("First error");
-      expect(useCardExplorerStore.getState().error).toBe("First error");
+      store.getState().setError("First error");
+      expect(store.getState().error).toBe("First error");
 
-      useCardExplorerStore.getState().setError("Second error");
-      const state = useCardExplorerStore.getState();
+      store.getState().setError("Second error");
+      const state = store.getState();
 
       expect(state.error).toBe("Second error");
     });
@@ -863,13 +1409,13 @@ describe("cardExplorerStore", () => {
     it("should not affect other state when setting error", async () => {
       await setupNotesWithRefresh([createMockNote("Test", "/test.md")]);
 
-      const beforeState = useCardExplorerStore.getState();
+      const beforeState = store.getState();
       const initialNotes = beforeState.notes;
       const initialLoading = beforeState.isLoading;
 
       // Change error state
-      useCardExplorerStore.getState().setError("New error");
-      const afterState = useCardExplorerStore.getState();
+      store.getState().setError("New error");
+      const afterState = store.getState();
 
       // Other state should remain unchanged
       expect(afterState.notes).toBe(initialNotes);
@@ -878,8 +1424,8 @@ describe("cardExplorerStore", () => {
     });
 
     it("should handle empty string error message", () => {
-      useCardExplorerStore.getState().setError("");
-      const state = useCardExplorerStore.getState();
+      store.getState().setError("");
+      const state = store.getState();
 
       expect(state.error).toBe("");
     });
@@ -888,11 +1434,11 @@ describe("cardExplorerStore", () => {
   describe("hasActiveFilters", () => {
     it("should detect active filters", async () => {
       await setupNotesWithRefresh([createMockNote("Test", "/test.md")]);
-      const store = useCardExplorerStore.getState();
-      expect(store.hasActiveFilters()).toBe(false);
+      const state = store.getState();
+      expect(state.hasActiveFilters()).toBe(false);
 
-      store.updateFilters({ filename: "test" });
-      expect(store.hasActiveFilters()).toBe(true);
+      state.updateFilters({ filename: ["test"] });
+      expect(store.getState().hasActiveFilters()).toBe(true);
     });
   });
 
@@ -903,7 +1449,7 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act & Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       const folders = state.availableFolders;
       expect(folders).toContain("folder1");
       expect(folders).toContain("folder2");
@@ -918,7 +1464,7 @@ describe("cardExplorerStore", () => {
       await setupNotesWithRefresh(mockNotes);
 
       // Act & Assert
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
       const tags = state.availableTags;
       expect(tags).toEqual(["tag1", "tag2", "tag3"]);
     });
@@ -926,7 +1472,7 @@ describe("cardExplorerStore", () => {
 
   describe("getSerializableData", () => {
     it("should return current pin states and filters", () => {
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
 
       // Set up some test data
       state.togglePin("/note1.md");
@@ -934,7 +1480,7 @@ describe("cardExplorerStore", () => {
       state.updateFilters({
         folders: ["work"],
         tags: ["important"],
-        filename: "test",
+        filename: ["test"],
       });
 
       const result = state.getSerializableData();
@@ -944,13 +1490,13 @@ describe("cardExplorerStore", () => {
         expect.objectContaining({
           folders: ["work"],
           tags: ["important"],
-          filename: "test",
+          filename: ["test"],
         })
       );
     });
 
     it("should convert Set to Array for pinnedNotes", () => {
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
 
       state.togglePin("/note1.md");
       state.togglePin("/note2.md");
@@ -962,19 +1508,27 @@ describe("cardExplorerStore", () => {
     });
 
     it("should return empty array for no pinned notes", () => {
-      const result = useCardExplorerStore.getState().getSerializableData();
+      const result = store.getState().getSerializableData();
 
       expect(result.pinnedNotes).toEqual([]);
       expect(result.lastFilters).toBeDefined();
     });
 
     it("should include current filter state", () => {
-      const state = useCardExplorerStore.getState();
+      const state = store.getState();
 
       const testFilters = {
         folders: ["projects", "archive"],
+        folderMatchMode: "all" as const,
         tags: ["urgent", "meeting"],
-        filename: "daily",
+        tagMatchMode: "none" as const,
+        filename: ["daily"],
+        filenamePhrases: [],
+        content: "",
+        excludeFolders: ["Templates"],
+        excludeTags: ["draft"],
+        excludeFilename: [],
+        properties: [],
         dateRange: {
           type: "within" as const,
           value: "7",
@@ -986,5 +1540,24 @@ describe("cardExplorerStore", () => {
 
       expect(result.lastFilters).toEqual(testFilters);
     });
+
+    it("should include the sort configuration with its tie-breakers", () => {
+      const state = store.getState();
+
+      expect(state.getSerializableData().sortConfig).toEqual({
+        key: "updated",
+        order: "desc",
+        thenBy: [],
+      });
+
+      const sortConfig = {
+        key: "priority",
+        order: "asc" as const,
+        thenBy: [{ key: "due", order: "desc" as const }],
+      };
+      state.setSortConfig(sortConfig);
+
+      expect(store.getState().getSerializableData().sortConfig).toEqual(sortConfig);
+    });
   });
 });
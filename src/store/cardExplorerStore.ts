@@ -1,63 +1,127 @@
 /**
- * Main Zustand Store - Card Explorer State Management
+ * Card Explorer View Store - Per-View State Management
  *
- * This is the central state management hub for the Card View Explorer plugin.
- * It implements a reactive architecture where raw data (notes) is processed
- * through filters and sorting to produce derived state (filteredNotes) that
- * automatically updates when dependencies change.
+ * Each Card View Explorer leaf owns one instance of this store. It combines the
+ * shared note index (notes, pinned notes and filter options, owned by the plugin)
+ * with the view's own configuration (filters and sort), and derives the view's
+ * filteredNotes from both. Two leaves can therefore show different filters and
+ * sort orders over the same notes at the same time.
  *
  * Key architectural patterns:
  * - Immutable state updates: All state changes create new objects/arrays
- * - Automatic recomputation: Filtered results update when raw data or filters change
- * - Separation of concerns: Raw data, user configuration, and UI state are distinct
- * - Error resilience: Comprehensive error handling with retry mechanisms
+ * - Automatic recomputation: Filtered results update when shared notes, pins, filters or sort change
+ * - Incremental updates: Single-note changes from the shared index are patched into filteredNotes
+ * - Separation of concerns: Shared data, view configuration, and UI state are distinct
+ * - Error resilience: Comprehensive error handling with retry mechanisms (in the shared index)
  *
- * The store uses subscribeWithSelector middleware to enable fine-grained
- * subscriptions for performance optimization in React components.
+ * Components read the store of their view through useCardExplorerStore, which
+ * resolves the instance from CardExplorerStoreContext.
  */
 
+import { pick } from "es-toolkit";
 import type { App } from "obsidian";
-import { create } from "zustand";
+import { createContext, useContext } from "react";
+import { createStore, useStore } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { ErrorCategory, handleError, withRetry } from "../core/errors/errorHandling";
 import type { CardExplorerSettings } from "../settings";
-import type { FilterState, NoteData, PluginData, SortConfig } from "../types";
-import { DEFAULT_SORT_KEY, DEFAULT_SORT_ORDER } from "./constants";
-import { applyFilters, hasAnyActiveFilter } from "./filters";
-import { loadNotesFromVault } from "./noteProcessing";
-import { cardExplorerSelectors } from "./selectors";
-import { sortNotes, togglePinState } from "./sorting";
+import {
+  type BoardConfig,
+  CARD_DISPLAY_SETTING_KEYS,
+  type CalendarMode,
+  type CardDisplaySettings,
+  type CardViewState,
+  type CompactMode,
+  DEFAULT_BOARD_CONFIG,
+  DEFAULT_CALENDAR_MODE,
+  DEFAULT_CARD_DISPLAY_SETTINGS,
+  DEFAULT_COMPACT_MODE,
+  DEFAULT_GROUP_BY,
+  DEFAULT_LAYOUT_MODE,
+  DEFAULT_TABLE_COLUMNS,
+  type FilterState,
+  type GroupByConfig,
+  type LayoutMode,
+  type NoteData,
+  type PluginData,
+  type SortConfig,
+  type TableColumn,
+} from "../types";
+import { DEFAULT_SORT_KEY, DEFAULT_SORT_ORDER, MANUAL_SORT_KEY } from "./constants";
+import { applyFilters, createDefaultFilters, hasAnyActiveFilter } from "./filters";
+import { applyDeltasToFilteredNotes } from "./noteIndex";
+import type { NoteIndexState, NoteIndexStore } from "./noteIndexStore";
+import { type ContentIndex, createRelevanceScorer } from "./search";
+import { getSortKeyChain, moveNoteInManualOrder, renameInManualOrder, sortNotes } from "./sorting";
 
 /**
- * Complete state interface for the Card Explorer store
+ * Complete state interface for a Card Explorer view store
  *
  * Organizes state into logical groups:
- * - Raw Data: Source data loaded from Obsidian vault
+ * - Shared Data: Mirrored from the shared note index (same for every view)
  * - Computed Data: Derived state that updates automatically
- * - User Configuration: Filter and sort preferences
+ * - User Configuration: Filter and sort preferences of this view
+ * - View State: Layout and scroll position, persisted per leaf
  * - UI State: Loading indicators and error messages
  * - Actions: Functions to modify state
  */
 export interface CardExplorerState {
-  // === Raw Data ===
+  // === Shared Data (mirrored from the note index) ===
   /** All notes loaded from the Obsidian vault */
   notes: NoteData[];
-  /** Set of file paths for notes that are pinned by the user */
+  /** Set of file paths for notes that are pinned by the user (shared by all views) */
   pinnedNotes: Set<string>;
-
-  // === Computed Data (automatically derived from raw data) ===
-  /** Notes after applying all active filters and sorting */
-  filteredNotes: NoteData[];
   /** All unique tags available across all notes for filter options */
   availableTags: string[];
   /** All unique folder paths available across all notes for filter options */
   availableFolders: string[];
 
+  // === Computed Data (automatically derived from shared data and configuration) ===
+  /** Notes after applying this view's filters and sorting */
+  filteredNotes: NoteData[];
+
   // === User Configuration ===
   /** Current filter configuration applied to notes */
   filters: FilterState;
   /** Current sort configuration for note ordering */
   sortConfig: SortConfig;
+  /**
+   * Whether notes are ranked by how well they match the filename search
+   *
+   * Only takes effect while a filename search is active; sortConfig breaks
+   * ties and applies on its own otherwise. Pinned notes stay first.
+   */
+  sortByRelevance: boolean;
+  /**
+   * Note paths in the order chosen by dragging cards, used by the 'manual' sort key
+   *
+   * Notes missing from it (e.g. created since) are placed at the end chosen by
+   * sortConfig.missingValues. Persisted in the plugin data under viewId.
+   */
+  manualOrder: string[];
+  /** Size and density of the cards, from the plugin settings shared by all views */
+  cardDisplay: CardDisplaySettings;
+
+  // === View State ===
+  /** Identifier of the view, restored from the workspace layout */
+  viewId: string;
+  /** Layout used to display notes in this view */
+  layoutMode: LayoutMode;
+  /** What the cards of this view are grouped by */
+  groupBy: GroupByConfig;
+  /** Keys of the groups collapsed by the user, cleared when the grouping changes */
+  collapsedGroups: string[];
+  /** Columns shown by the table layout, with the widths the user resized them to */
+  tableColumns: TableColumn[];
+  /** Property, column order and hidden columns of the board layout */
+  boardConfig: BoardConfig;
+  /** Span of days shown by the calendar layout */
+  calendarMode: CalendarMode;
+  /** Whether the compact list is shown: automatically in narrow views, always or never */
+  compactMode: CompactMode;
+  /** Path of the first visible note, tracked to restore the scroll position */
+  scrollAnchor: string | null;
+  /** Restored scroll anchor the note list has not scrolled to yet */
+  pendingScrollAnchor: string | null;
 
   // === UI State ===
   /** Whether a data loading operation is in progress */
@@ -71,12 +135,19 @@ export interface CardExplorerState {
   /**
    * Refresh notes from the Obsidian vault
    *
-   * Loads all markdown files from the vault, extracts metadata,
-   * and updates the store with fresh data. Includes retry logic
-   * for handling temporary failures.
+   * Reloads the shared note index, so every open view receives the
+   * fresh data. Includes retry logic for handling temporary failures.
    */
   refreshNotes: (app: App) => Promise<void>;
 
+  /**
+   * Load notes from the vault unless the shared index already has them
+   *
+   * Called when a view opens so that opening another leaf does not
+   * reload the whole vault.
+   */
+  ensureNotesLoaded: (app: App) => Promise<void>;
+
   // === User Interaction Actions ===
   /**
    * Update filter configuration with partial changes
@@ -94,39 +165,113 @@ export interface CardExplorerState {
    */
   clearFilters: () => void;
 
+  /**
+   * Replace the sort configuration (primary key, order and tie-breakers)
+   *
+   * Used by the sort control of the view; recomputes filtered results.
+   */
+  setSortConfig: (sortConfig: SortConfig) => void;
+
   /**
    * Update sort configuration from plugin settings
    *
-   * Updates the sort key while maintaining the default sort order,
-   * then recomputes filtered results with new sorting.
+   * Replaces the primary sort key while keeping the chosen order and
+   * tie-breakers, then recomputes filtered results with new sorting.
    */
   updateSortFromSettings: (sortKey: string) => void;
 
   /**
    * Toggle the pin state of a specific note
    *
-   * Adds or removes a note from the pinned set and recomputes
-   * filtered results to reflect the new pin state.
+   * Pins are shared, so the change is made in the note index and
+   * every view re-sorts to reflect the new pin state.
    */
   togglePin: (filePath: string) => void;
 
+  /**
+   * Move a dragged note to the position of the note it was dropped on
+   *
+   * Updates the manual order from the displayed notes; does nothing unless
+   * the notes are displayed in manual order (see canReorderManually).
+   */
+  moveNote: (sourcePath: string, targetPath: string) => void;
+
+  /** Turn the relevance sort for filename searches on or off */
+  setSortByRelevance: (sortByRelevance: boolean) => void;
+
+  /** Switch the layout used to display notes */
+  setLayoutMode: (layoutMode: LayoutMode) => void;
+
+  /**
+   * Change what the cards are grouped by
+   *
+   * Expands every group, since group keys of another grouping mean something else.
+   */
+  setGroupBy: (groupBy: GroupByConfig) => void;
+
+  /** Collapse an expanded group or expand a collapsed one */
+  toggleGroupCollapsed: (groupKey: string) => void;
+
+  /** Replace the columns of the table layout (keys, order and widths) */
+  setTableColumns: (tableColumns: TableColumn[]) => void;
+
+  /** Replace the configuration of the board layout */
+  setBoardConfig: (boardConfig: BoardConfig) => void;
+
+  /** Show a month or a week in the calendar layout */
+  setCalendarMode: (calendarMode: CalendarMode) => void;
+
+  /** Show the compact list automatically in narrow views, always or never */
+  setCompactMode: (compactMode: CompactMode) => void;
+
+  /** Apply changed card size and density settings */
+  setCardDisplay: (cardDisplay: CardDisplaySettings) => void;
+
+  /**
+   * Record the first visible note while the user scrolls
+   *
+   * Pass null when the list is scrolled to the top.
+   */
+  setScrollAnchor: (path: string | null) => void;
+
+  /** Mark the restored scroll anchor as applied by the note list */
+  clearPendingScrollAnchor: () => void;
+
   // === Lifecycle & Persistence ===
   /**
-   * Initialize store state from saved plugin data
+   * Initialize view configuration from saved plugin data
    *
-   * Loads previously saved pin states and filter preferences
-   * from the plugin's data file.
+   * Loads previously saved filter and sort preferences from the plugin's data
+   * file. Pinned notes are restored by the plugin into the shared note index.
+   * Skipped once the view has restored its own state from the workspace layout,
+   * which takes precedence; the card display settings are applied either way.
    */
   initializeFromPluginData: (data: PluginData, settings: CardExplorerSettings) => void;
 
   /**
-   * Reset store to initial empty state
+   * Restore the state serialized into the workspace layout for this leaf
    *
-   * Clears all data and resets to default configuration.
+   * Applies filters, sort, layout, grouping and the scroll anchor, which the note list
+   * scrolls to once the notes are displayed. The manual order is saved in the
+   * plugin data rather than the layout, so it is passed separately.
+   */
+  restoreViewState: (viewState: CardViewState, manualOrder?: string[]) => void;
+
+  /**
+   * Reset view configuration to its initial state
+   *
+   * Clears filters, sort and view state; shared notes are left untouched.
    * Used for cleanup and testing.
    */
   reset: () => void;
 
+  /**
+   * Stop following the shared note index
+   *
+   * Called when the owning view closes.
+   */
+  dispose: () => void;
+
   // === UI State Management ===
   /**
    * Set or clear the current error message
@@ -145,6 +290,14 @@ export interface CardExplorerState {
    */
   hasActiveFilters: () => boolean;
 
+  /**
+   * Check if cards can be dragged to reorder them
+   *
+   * True when the view sorts by the manual order and no relevance ranking
+   * of a filename search overrides it.
+   */
+  canReorderManually: () => boolean;
+
   /**
    * Get serializable data for persistence
    *
@@ -154,21 +307,39 @@ export interface CardExplorerState {
   getSerializableData: () => {
     pinnedNotes: string[];
     lastFilters: FilterState;
+    sortConfig: SortConfig;
+    manualOrders: Record<string, string[]>;
   };
+
+  /**
+   * Get the per-leaf state to serialize into the workspace layout
+   */
+  getViewState: () => CardViewState;
 }
 
 /**
- * Create default filter state with all filters disabled
+ * Fill in filter fields missing from saved data
  *
- * Returns a fresh FilterState object with empty arrays and null values,
- * representing no active filters (show all notes).
+ * Filters saved by older versions lack fields added since (e.g. exclusions
+ * and match modes),
+ * so restored filters are layered over the defaults. Filename searches saved
+ * as single strings are split into their words, and a filename exclusion saved
+ * as a single string becomes one exclusion.
  */
-const createDefaultFilters = (): FilterState => ({
-  folders: [],
-  tags: [],
-  filename: "",
-  dateRange: null,
-});
+const normalizeFilters = (filters: Partial<FilterState> | undefined): FilterState => {
+  const normalized = { ...createDefaultFilters(), ...filters };
+  const { filename, excludeFilename } = normalized as {
+    filename: string | string[];
+    excludeFilename: string | string[];
+  };
+  if (typeof filename === "string") {
+    normalized.filename = filename.split(/\s+/).filter(Boolean);
+  }
+  if (typeof excludeFilename === "string") {
+    normalized.excludeFilename = excludeFilename.trim() ? [excludeFilename.trim()] : [];
+  }
+  return normalized;
+};
 
 /**
  * Create default sort configuration with optional custom sort key
@@ -181,12 +352,18 @@ const createDefaultSortConfig = (sortKey?: string): SortConfig => ({
   order: DEFAULT_SORT_ORDER,
 });
 
+/**
+ * Create an identifier for a new view (internal)
+ */
+const createViewId = (): string => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
 /**
  * Recompute filtered and sorted notes from raw data
  *
  * This is the core data transformation pipeline that:
- * 1. Applies all active filters to the raw notes
- * 2. Sorts the filtered results according to sort configuration
+ * 1. Applies all active filters to the raw notes (content search through the content index)
+ * 2. Sorts the filtered results according to sort configuration, or by filename
+ *    search relevance when the view asks for it and a search is active
  * 3. Ensures pinned notes appear first while maintaining sort order
  *
  * Used whenever raw data, filters, sort config, or pin states change.
@@ -196,232 +373,413 @@ const recomputeFilteredNotes = (
   filters: FilterState,
   sortConfig: SortConfig,
   pinnedNotes: Set<string>,
-  sortKey: string = "updated"
+  contentIndex: ContentIndex,
+  sortByRelevance: boolean,
+  manualOrder: string[]
 ): NoteData[] => {
-  const filtered = applyFilters(notes, filters, new Date(), sortKey);
-  return sortNotes(filtered, sortConfig, pinnedNotes);
+  // Date filters use the sort key and its fallbacks, so they agree with the sort
+  const dateKeys = getSortKeyChain(sortConfig);
+  const filtered = applyFilters(notes, filters, new Date(), dateKeys, contentIndex);
+  const scoreNote = sortByRelevance ? createRelevanceScorer(filters) : null;
+  return sortNotes(filtered, sortConfig, pinnedNotes, scoreNote, manualOrder);
 };
 
 /**
- * Compute available filter options from the current notes collection
- *
- * Extracts all unique tags and folders from the notes to populate
- * filter dropdown options. Uses selectors to ensure consistent
- * hierarchical processing.
+ * Pick the fields a view store mirrors from the shared note index
  */
-const computeAvailableOptions = (
-  notes: NoteData[]
-): { availableTags: string[]; availableFolders: string[] } => {
-  return {
-    availableTags: cardExplorerSelectors.getAvailableTags(notes),
-    availableFolders: cardExplorerSelectors.getAvailableFolders(notes),
-  };
-};
+const pickSharedState = (index: NoteIndexState) => ({
+  notes: index.notes,
+  pinnedNotes: index.pinnedNotes,
+  availableTags: index.availableTags,
+  availableFolders: index.availableFolders,
+  isLoading: index.isLoading,
+  error: index.error,
+});
 
 /**
- * Main Zustand store instance for Card Explorer state management
+ * Create a Zustand store for a single Card View Explorer view
  *
- * Creates a reactive store with subscribeWithSelector middleware for
- * fine-grained subscriptions. The store follows immutable update patterns
- * and automatically recomputes derived state when dependencies change.
+ * The store mirrors the shared note index and keeps its own filters, sort
+ * configuration and filteredNotes. When the index reports single-note deltas
+ * the filtered list is patched in place of a full re-filter and re-sort;
+ * reloads and pin changes trigger a full recomputation.
  *
  * Usage example:
  * ```typescript
- * const { notes, filteredNotes, updateFilters } = useCardExplorerStore();
- * const isLoading = useCardExplorerStore(state => state.isLoading);
+ * const store = createCardExplorerStore(plugin.getNoteIndex());
+ * store.getState().updateFilters({ tags: ["project"] });
+ * store.getState().dispose();
  * ```
+ *
+ * @param {NoteIndexStore} noteIndex - Shared note index owned by the plugin
+ * @returns Store instance for one view
  */
-export const useCardExplorerStore = create<CardExplorerState>()(
-  subscribeWithSelector((set, get) => ({
-    // === Initial State ===
-    notes: [],
-    filteredNotes: [],
-    pinnedNotes: new Set<string>(),
-    availableTags: [],
-    availableFolders: [],
-    filters: createDefaultFilters(),
-    sortConfig: createDefaultSortConfig(),
-    isLoading: false,
-    error: null,
-
-    // === Actions - State mutation functions with automatic recomputation ===
-
-    // === Core Data Operations ===
-
-    refreshNotes: async (app: App) => {
-      try {
-        set({ isLoading: true, error: null });
-
-        // Load notes with retry logic for resilience against temporary failures
-        const notes = await withRetry(() => loadNotesFromVault(app), {
-          maxRetries: 3, // Try up to 3 times
-          baseDelay: 1000, // Start with 1 second delay
-          category: ErrorCategory.API,
-          context: { operation: "loadNotesFromVault", notesCount: get().notes.length },
-        });
+export const createCardExplorerStore = (noteIndex: NoteIndexStore) => {
+  // Whether state restored from the workspace layout has replaced the plugin data defaults
+  let hasRestoredViewState = false;
+
+  const store = createStore<CardExplorerState>()(
+    subscribeWithSelector((set, get) => {
+      /**
+       * Recompute filteredNotes from the current shared notes and configuration
+       */
+      const recompute = (
+        filters: FilterState = get().filters,
+        sortConfig: SortConfig = get().sortConfig,
+        sortByRelevance: boolean = get().sortByRelevance,
+        manualOrder: string[] = get().manualOrder
+      ): NoteData[] => {
+        const index = noteIndex.getState();
+        return recomputeFilteredNotes(
+          index.notes,
+          filters,
+          sortConfig,
+          index.pinnedNotes,
+          index.contentIndex,
+          sortByRelevance,
+          manualOrder
+        );
+      };
 
-        // Compute filter options from the new notes data
-        const { availableTags, availableFolders } = computeAvailableOptions(notes);
+      const filters = createDefaultFilters();
+      const sortConfig = createDefaultSortConfig();
 
-        const state = get();
+      return {
+        // === Initial State ===
+        ...pickSharedState(noteIndex.getState()),
+        filteredNotes: recompute(filters, sortConfig, false, []),
+        filters,
+        sortConfig,
+        sortByRelevance: false,
+        manualOrder: [],
+        cardDisplay: DEFAULT_CARD_DISPLAY_SETTINGS,
+        viewId: createViewId(),
+        layoutMode: DEFAULT_LAYOUT_MODE,
+        groupBy: DEFAULT_GROUP_BY,
+        collapsedGroups: [],
+        tableColumns: DEFAULT_TABLE_COLUMNS,
+        boardConfig: DEFAULT_BOARD_CONFIG,
+        calendarMode: DEFAULT_CALENDAR_MODE,
+        compactMode: DEFAULT_COMPACT_MODE,
+        scrollAnchor: null,
+        pendingScrollAnchor: null,
 
-        // Apply current filters and sorting to the new notes
-        const filteredNotes = recomputeFilteredNotes(
-          notes,
-          state.filters,
-          state.sortConfig,
-          state.pinnedNotes,
-          state.sortConfig.key
-        );
+        // === Actions - State mutation functions with automatic recomputation ===
 
-        // Update all derived state in a single operation
-        set({ notes, availableTags, availableFolders, filteredNotes });
+        // === Core Data Operations ===
 
-        set({ isLoading: false });
-      } catch (error) {
-        const errorInfo = handleError(error, ErrorCategory.API, {
-          operation: "refreshNotes",
-          notesCount: get().notes.length,
-          hasExistingNotes: get().notes.length > 0,
-        });
+        refreshNotes: (app: App) => noteIndex.getState().refreshNotes(app),
 
-        set({
-          isLoading: false,
-          error: errorInfo.message,
-        });
-      }
-    },
+        ensureNotesLoaded: (app: App) => noteIndex.getState().ensureNotesLoaded(app),
 
-    // === User Interaction Actions ===
+        // === User Interaction Actions ===
 
-    updateFilters: (newFilters: Partial<FilterState>) => {
-      const state = get();
-      // Immutable update: merge new filters with existing ones
-      const updatedFilters = { ...state.filters, ...newFilters };
-      set({ filters: updatedFilters });
+        updateFilters: (newFilters: Partial<FilterState>) => {
+          // Immutable update: merge new filters with existing ones
+          const updatedFilters = { ...get().filters, ...newFilters };
 
-      // Recompute filtered results with the new filter configuration
-      const filteredNotes = recomputeFilteredNotes(
-        state.notes,
-        updatedFilters,
-        state.sortConfig,
-        state.pinnedNotes,
-        state.sortConfig.key
-      );
-      set({ filteredNotes });
-    },
-
-    clearFilters: () => {
-      const defaultFilters = createDefaultFilters(); // Fresh default filters
-      set({ filters: defaultFilters });
-
-      const state = get();
-      // Recompute with cleared filters (should show all notes)
-      const filteredNotes = recomputeFilteredNotes(
-        state.notes,
-        defaultFilters,
-        state.sortConfig,
-        state.pinnedNotes,
-        state.sortConfig.key
-      );
-      set({ filteredNotes });
-    },
+          // Recompute filtered results with the new filter configuration
+          set({ filters: updatedFilters, filteredNotes: recompute(updatedFilters) });
+        },
 
-    updateSortFromSettings: (sortKey: string) => {
-      const state = get();
-      const newSortConfig = createDefaultSortConfig(sortKey);
-      set({ sortConfig: newSortConfig });
+        clearFilters: () => {
+          const defaultFilters = createDefaultFilters(); // Fresh default filters
 
-      // Recompute with new sort configuration
-      const filteredNotes = recomputeFilteredNotes(
-        state.notes,
-        state.filters,
-        newSortConfig,
-        state.pinnedNotes,
-        newSortConfig.key
-      );
-      set({ filteredNotes });
-    },
-
-    togglePin: (filePath: string) => {
-      const state = get();
-      // Immutable toggle: creates new Set with updated pin state
-      const newPinnedNotes = togglePinState(state.pinnedNotes, filePath);
-      set({ pinnedNotes: newPinnedNotes });
-
-      // Recompute to reflect new pin state in sort order
-      const filteredNotes = recomputeFilteredNotes(
-        state.notes,
+          // Recompute with cleared filters (should show all notes)
+          set({ filters: defaultFilters, filteredNotes: recompute(defaultFilters) });
+        },
+
+        setSortConfig: (sortConfig: SortConfig) => {
+          set({ sortConfig, filteredNotes: recompute(get().filters, sortConfig) });
+        },
+
+        updateSortFromSettings: (sortKey: string) => {
+          const newSortConfig = { ...get().sortConfig, key: sortKey || DEFAULT_SORT_KEY };
+
+          // Recompute with new sort configuration
+          set({
+            sortConfig: newSortConfig,
+            filteredNotes: recompute(get().filters, newSortConfig),
+          });
+        },
+
+        togglePin: (filePath: string) => {
+          // The index subscription below re-sorts every view, including this one
+          noteIndex.getState().togglePin(filePath);
+        },
+
+        moveNote: (sourcePath: string, targetPath: string) => {
+          if (!get().canReorderManually()) return;
+
+          const { manualOrder, filteredNotes, sortConfig } = get();
+          const visiblePaths = filteredNotes.map((note) => note.path);
+          const nextOrder = moveNoteInManualOrder(
+            manualOrder,
+            visiblePaths,
+            sourcePath,
+            targetPath,
+            sortConfig.order
+          );
+          if (nextOrder === manualOrder) return;
+
+          set({
+            manualOrder: nextOrder,
+            filteredNotes: recompute(undefined, undefined, undefined, nextOrder),
+          });
+        },
+
+        setSortByRelevance: (sortByRelevance: boolean) => {
+          set({ sortByRelevance, filteredNotes: recompute(undefined, undefined, sortByRelevance) });
+        },
+
+        setLayoutMode: (layoutMode: LayoutMode) => set({ layoutMode }),
+
+        setGroupBy: (groupBy: GroupByConfig) => set({ groupBy, collapsedGroups: [] }),
+
+        toggleGroupCollapsed: (groupKey: string) => {
+          const { collapsedGroups } = get();
+          set({
+            collapsedGroups: collapsedGroups.includes(groupKey)
+              ? collapsedGroups.filter((key) => key !== groupKey)
+              : [...collapsedGroups, groupKey],
+          });
+        },
+
+        setTableColumns: (tableColumns: TableColumn[]) => set({ tableColumns }),
+
+        setBoardConfig: (boardConfig: BoardConfig) => set({ boardConfig }),
+
+        setCalendarMode: (calendarMode: CalendarMode) => set({ calendarMode }),
+
+        setCompactMode: (compactMode: CompactMode) => set({ compactMode }),
+
+        setCardDisplay: (cardDisplay: CardDisplaySettings) => set({ cardDisplay }),
+
+        setScrollAnchor: (path: string | null) => {
+          if (get().scrollAnchor !== path) set({ scrollAnchor: path });
+        },
+
+        clearPendingScrollAnchor: () => set({ pendingScrollAnchor: null }),
+
+        // === Lifecycle & Persistence ===
+
+        initializeFromPluginData: (data: PluginData, settings: CardExplorerSettings) => {
+          set({ cardDisplay: pick(settings, CARD_DISPLAY_SETTING_KEYS) });
+
+          // The leaf's own saved state wins over plugin-wide defaults
+          if (hasRestoredViewState) return;
+
+          // Restore last used filters or use defaults
+          const filters = normalizeFilters(data.lastFilters);
+
+          // Sort configs saved before the view had a sort control were never written
+          // from the view (they lack tie-breakers); the settings key applied then
+          const sortConfig = data.sortConfig?.thenBy
+            ? data.sortConfig
+            : createDefaultSortConfig(settings.sortKey);
+
+          // Recompute filtered results with restored configuration
+          set({ filters, sortConfig, filteredNotes: recompute(filters, sortConfig) });
+        },
+
+        restoreViewState: (viewState: CardViewState, manualOrder: string[] = []) => {
+          hasRestoredViewState = true;
+          const { sortConfig, layoutMode, scrollAnchor } = viewState;
+          const filters = normalizeFilters(viewState.filters);
+          // Saved by versions without the relevance sort
+          const sortByRelevance = viewState.sortByRelevance ?? false;
+          set({
+            filters,
+            sortConfig,
+            sortByRelevance,
+            manualOrder,
+            // Saved by versions without manual ordering: keep the generated id
+            viewId: viewState.viewId ?? get().viewId,
+            layoutMode,
+            // Saved by versions without grouping
+            groupBy: viewState.groupBy ?? DEFAULT_GROUP_BY,
+            collapsedGroups: viewState.collapsedGroups ?? [],
+            tableColumns: viewState.tableColumns ?? DEFAULT_TABLE_COLUMNS,
+            boardConfig: viewState.boardConfig ?? DEFAULT_BOARD_CONFIG,
+            calendarMode: viewState.calendarMode ?? DEFAULT_CALENDAR_MODE,
+            compactMode: viewState.compactMode ?? DEFAULT_COMPACT_MODE,
+            scrollAnchor,
+            pendingScrollAnchor: scrollAnchor,
+            filteredNotes: recompute(filters, sortConfig, sortByRelevance, manualOrder),
+          });
+        },
+
+        reset: () => {
+          // Reset view configuration to initial values - used for cleanup and testing
+          const filters = createDefaultFilters();
+          const sortConfig = createDefaultSortConfig();
+          hasRestoredViewState = false;
+          set({
+            filters,
+            sortConfig,
+            sortByRelevance: false,
+            manualOrder: [],
+            cardDisplay: DEFAULT_CARD_DISPLAY_SETTINGS,
+            layoutMode: DEFAULT_LAYOUT_MODE,
+            groupBy: DEFAULT_GROUP_BY,
+            collapsedGroups: [],
+            tableColumns: DEFAULT_TABLE_COLUMNS,
+            boardConfig: DEFAULT_BOARD_CONFIG,
+            calendarMode: DEFAULT_CALENDAR_MODE,
+            compactMode: DEFAULT_COMPACT_MODE,
+            scrollAnchor: null,
+            pendingScrollAnchor: null,
+            filteredNotes: recompute(filters, sortConfig, false, []),
+          });
+        },
+
+        dispose: () => unsubscribeFromIndex(),
+
+        // === UI State Management ===
+
+        setError: (error: string | null) => noteIndex.getState().setError(error),
+
+        // === Computed State Getters - Direct access to computed values ===
+
+        hasActiveFilters: () => {
+          // Delegate to pure function for consistency and testability
+          return hasAnyActiveFilter(get().filters);
+        },
+
+        canReorderManually: () => {
+          const { sortConfig, sortByRelevance, filters } = get();
+          return (
+            sortConfig.key === MANUAL_SORT_KEY &&
+            !(sortByRelevance && createRelevanceScorer(filters))
+          );
+        },
+
+        getSerializableData: () => {
+          const state = get();
+          return {
+            pinnedNotes: Array.from(state.pinnedNotes),
+            lastFilters: state.filters,
+            // Always written with tie-breakers, which marks the config as chosen in the view
+            sortConfig: { ...state.sortConfig, thenBy: state.sortConfig.thenBy ?? [] },
+            manualOrders: { [state.viewId]: state.manualOrder },
+          };
+        },
+
+        getViewState: () => {
+          const state = get();
+          return {
+            filters: state.filters,
+            sortConfig: state.sortConfig,
+            sortByRelevance: state.sortByRelevance,
+            layoutMode: state.layoutMode,
+            groupBy: state.groupBy,
+            collapsedGroups: state.collapsedGroups,
+            tableColumns: state.tableColumns,
+            boardConfig: state.boardConfig,
+            calendarMode: state.calendarMode,
+            compactMode: state.compactMode,
+            scrollAnchor: state.scrollAnchor,
+            viewId: state.viewId,
+          };
+        },
+      };
+    })
+  );
+
+  // Follow the shared index: patch filteredNotes for deltas, recompute otherwise
+  const unsubscribeFromIndex = noteIndex.subscribe((index, prevIndex) => {
+    const state = store.getState();
+    let filteredNotes = state.filteredNotes;
+    let manualOrder = state.manualOrder;
+
+    if (index.lastChange !== prevIndex.lastChange) {
+      if (index.lastChange.type === "deltas") {
+        // Renamed notes keep their manual position
+        manualOrder = renameInManualOrder(
+          manualOrder,
+          index.lastChange.deltas.flatMap((delta) =>
+            delta.type === "move" ? [{ oldPath: delta.oldPath, newPath: delta.note.path }] : []
+          )
+        );
+        filteredNotes = applyDeltasToFilteredNotes(state.filteredNotes, index.lastChange.deltas, {
+          filters: state.filters,
+          sortConfig: state.sortConfig,
+          pinnedNotes: index.pinnedNotes,
+          now: new Date(),
+          contentIndex: index.contentIndex,
+          sortByRelevance: state.sortByRelevance,
+          manualOrder,
+        });
+      } else {
+        filteredNotes = recomputeFilteredNotes(
+          index.notes,
+          state.filters,
+          state.sortConfig,
+          index.pinnedNotes,
+          index.contentIndex,
+          state.sortByRelevance,
+          manualOrder
+        );
+      }
+    } else if (index.pinnedNotes !== prevIndex.pinnedNotes) {
+      // Pin changes only affect ordering, but every pinned group must move
+      filteredNotes = recomputeFilteredNotes(
+        index.notes,
         state.filters,
         state.sortConfig,
-        newPinnedNotes,
-        state.sortConfig.key
+        index.pinnedNotes,
+        index.contentIndex,
+        state.sortByRelevance,
+        manualOrder
       );
-      set({ filteredNotes });
-    },
+    }
 
-    // === Lifecycle & Persistence ===
+    store.setState({ ...pickSharedState(index), filteredNotes, manualOrder });
+  });
 
-    initializeFromPluginData: (data: PluginData, settings: CardExplorerSettings) => {
-      // Restore pinned notes from saved data
-      const pinnedNotes = new Set(data.pinnedNotes || []);
+  return store;
+};
 
-      // Restore last used filters or use defaults
-      const filters = data.lastFilters || createDefaultFilters();
+/**
+ * Type of a per-view Card Explorer store instance
+ */
+export type CardExplorerStore = ReturnType<typeof createCardExplorerStore>;
 
-      // Use sort key from settings (user preference)
-      const sortConfig = createDefaultSortConfig(settings.sortKey);
+/**
+ * React context that provides the store of the enclosing view
+ *
+ * CardExplorerView wraps its React tree in this provider.
+ */
+export const CardExplorerStoreContext = createContext<CardExplorerStore | null>(null);
 
-      set({
-        pinnedNotes,
-        filters,
-        sortConfig,
-      });
+/**
+ * Hook signature mirroring a bound Zustand store hook
+ */
+type UseCardExplorerStore = {
+  (): CardExplorerState;
+  <T>(selector: (state: CardExplorerState) => T): T;
+};
 
-      // Recompute filtered results with restored configuration
-      const state = get();
-      const filteredNotes = recomputeFilteredNotes(
-        state.notes,
-        filters,
-        sortConfig,
-        pinnedNotes,
-        sortConfig.key
-      );
-      set({ filteredNotes });
-    },
-
-    reset: () => {
-      // Reset all state to initial values - used for cleanup and testing
-      set({
-        notes: [],
-        filteredNotes: [],
-        pinnedNotes: new Set<string>(),
-        availableTags: [],
-        availableFolders: [],
-        filters: createDefaultFilters(),
-        sortConfig: createDefaultSortConfig(),
-        isLoading: false,
-        error: null,
-      });
-    },
-
-    // === UI State Management ===
-
-    setError: (error: string | null) => set({ error }),
-
-    // === Computed State Getters - Direct access to computed values ===
-
-    hasActiveFilters: () => {
-      // Delegate to pure function for consistency and testability
-      return hasAnyActiveFilter(get().filters);
-    },
-
-    getSerializableData: () => {
-      const state = get();
-      return {
-        pinnedNotes: Array.from(state.pinnedNotes),
-        lastFilters: state.filters,
-      };
-    },
-  }))
-);
+/**
+ * Read the store of the enclosing view
+ *
+ * Behaves like a bound Zustand hook: without a selector it returns the whole
+ * state, with a selector it re-renders only when the selected value changes.
+ *
+ * Usage example:
+ * ```typescript
+ * const { notes, filteredNotes, updateFilters } = useCardExplorerStore();
+ * const isLoading = useCardExplorerStore(state => state.isLoading);
+ * ```
+ *
+ * @throws {Error} When used outside CardExplorerStoreContext
+ */
+export const useCardExplorerStore: UseCardExplorerStore = <T>(
+  selector?: (state: CardExplorerState) => T
+) => {
+  const store = useContext(CardExplorerStoreContext);
+  if (!store) {
+    throw new Error("useCardExplorerStore must be used within a CardExplorerStoreContext provider");
+  }
+  return useStore(store, selector ?? ((state) => state as T));
+};
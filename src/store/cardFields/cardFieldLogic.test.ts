@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { formatCardFieldValue, getCardFields } from "./cardFieldLogic";
+
+describe("cardFieldLogic", () => {
+  describe("formatCardFieldValue", () => {
+    it.each([
+      ["text", "In progress", { type: "text", text: "In progress" }],
+      ["numbers", 3, { type: "text", text: "3" }],
+      ["text mentioning a year", "Plan 2024", { type: "text", text: "Plan 2024" }],
+      ["objects", { a: 1 }, { type: "text", text: '{"a":1}' }],
+      ["true", true, { type: "boolean", checked: true }],
+      ["false", false, { type: "boolean", checked: false }],
+      [
+        "wikilinks",
+        "[[Project Alpha]]",
+        { type: "link", linkpath: "Project Alpha", text: "Project Alpha" },
+      ],
+      [
+        "aliased wikilinks",
+        "[[People/Alex|Alex]]",
+        { type: "link", linkpath: "People/Alex", text: "Alex" },
+      ],
+    ])("types %s", (_, value, expected) => {
+      expect(formatCardFieldValue(value)).toEqual(expected);
+    });
+
+    it("types ISO dates and date objects as dates", () => {
+      expect(formatCardFieldValue("2024-03-01")).toEqual({
+        type: "date",
+        date: new Date("2024-03-01"),
+      });
+      expect(formatCardFieldValue("2024-03-01T10:00")).toMatchObject({ type: "date" });
+      const date = new Date(2024, 0, 1);
+      expect(formatCardFieldValue(date)).toEqual({ type: "date", date });
+    });
+
+    it("keeps invalid dates as text", () => {
+      expect(formatCardFieldValue("2024-13-45")).toEqual({ type: "text", text: "2024-13-45" });
+    });
+
+    it("types lists as chips of their non-empty items", () => {
+      expect(formatCardFieldValue(["design", "", null, "[[Alex]]", ["nested"]])).toEqual({
+        type: "list",
+        items: [
+          { type: "text", text: "design" },
+          { type: "link", linkpath: "Alex", text: "Alex" },
+          { type: "text", text: '["nested"]' },
+        ],
+      });
+    });
+
+    it.each([
+      ["null", null],
+      ["undefined", undefined],
+      ["blank text", "  "],
+      ["empty lists", []],
+      ["lists of empty items", ["", null]],
+      ["invalid date objects", new Date("invalid")],
+    ])("returns null for %s", (_, value) => {
+      expect(formatCardFieldValue(value)).toBeNull();
+    });
+  });
+
+  describe("getCardFields", () => {
+    it("returns the fields in the order of the keys", () => {
+      expect(
+        getCardFields({ status: "Draft", done: false, owner: "Alex" }, ["owner", "status"])
+      ).toEqual([
+        { key: "owner", value: { type: "text", text: "Alex" } },
+        { key: "status", value: { type: "text", text: "Draft" } },
+      ]);
+    });
+
+    it("skips properties the note lacks or leaves empty", () => {
+      expect(getCardFields({ status: "", due: null }, ["status", "due", "missing"])).toEqual([]);
+      expect(getCardFields(null, ["status"])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Pure Functions - Card Fields
+ *
+ * These functions pick the frontmatter properties chosen for cards and tell the
+ * cards how to show each value: dates as dates, booleans as checkmarks, lists as
+ * chips and wikilinks as links to the linked note. Everything else is shown as text.
+ */
+
+import { parseDateSafely } from "../../lib/dateUtils";
+
+/**
+ * A single value of a card field, typed for display
+ */
+export type CardFieldScalar =
+  | { type: "text"; text: string }
+  | { type: "date"; date: Date }
+  | { type: "boolean"; checked: boolean }
+  | { type: "link"; linkpath: string; text: string };
+
+/**
+ * Value of a card field: a single value, or the items of a list
+ */
+export type CardFieldValue = CardFieldScalar | { type: "list"; items: CardFieldScalar[] };
+
+/**
+ * A frontmatter property shown on a card
+ */
+export interface CardField {
+  /** Frontmatter key, shown as the label */
+  key: string;
+  /** Value typed for display */
+  value: CardFieldValue;
+}
+
+/**
+ * Matches a wikilink filling the whole value, capturing its target and alias (internal)
+ */
+const WIKILINK_PATTERN = /^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]$/;
+
+/**
+ * Matches values starting with an ISO date (internal)
+ * Only these are shown as dates, so text that happens to contain a year stays text.
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:$|[T ])/;
+
+/**
+ * Type a single value for display (internal)
+ */
+const toScalar = (value: unknown): CardFieldScalar | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean") return { type: "boolean", checked: value };
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : { type: "date", date: value };
+  }
+  if (typeof value === "object") return { type: "text", text: JSON.stringify(value) };
+
+  const text = String(value).trim();
+  if (text === "") return null;
+
+  const link = WIKILINK_PATTERN.exec(text);
+  if (link) {
+    const linkpath = link[1].trim();
+    return { type: "link", linkpath, text: link[2]?.trim() || linkpath };
+  }
+  if (ISO_DATE_PATTERN.test(text)) {
+    const date = parseDateSafely(text);
+    if (date) return { type: "date", date };
+  }
+  return { type: "text", text };
+};
+
+/**
+ * Type a frontmatter value for display on a card
+ *
+ * Lists become chips of their non-empty items; nested lists and objects are shown
+ * as text.
+ *
+ * @param {unknown} value - Frontmatter value
+ * @returns {CardFieldValue | null} Typed value, or null if there is nothing to show
+ */
+export const formatCardFieldValue = (value: unknown): CardFieldValue | null => {
+  if (Array.isArray(value)) {
+    const items = value.map(toScalar).filter((item): item is CardFieldScalar => item !== null);
+    return items.length > 0 ? { type: "list", items } : null;
+  }
+  return toScalar(value);
+};
+
+/**
+ * Fields of a note to show on its card
+ *
+ * @param {Record<string, unknown> | null} frontmatter - Frontmatter of the note
+ * @param {readonly string[]} keys - Frontmatter keys chosen for cards, in display order
+ * @returns {CardField[]} Fields in the given order; properties the note lacks or leaves empty are skipped
+ */
+export const getCardFields = (
+  frontmatter: Record<string, unknown> | null,
+  keys: readonly string[]
+): CardField[] => {
+  const fields: CardField[] = [];
+  for (const key of keys) {
+    const value = formatCardFieldValue(frontmatter?.[key]);
+    if (value) fields.push({ key, value });
+  }
+  return fields;
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { CardRuleCondition, CardStyleRule, NoteData } from "../../types";
+import { EMPTY_CARD_RULE_STYLE, noteMatchesCardRule, resolveCardStyle } from "./cardRuleLogic";
+
+const NOW = new Date(2024, 0, 10, 12);
+
+const createNote = (overrides: Partial<NoteData> = {}): NoteData => ({
+  file: {} as any,
+  title: "Note",
+  path: "projects/work/Note.md",
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 8, 12),
+  frontmatter: null,
+  tags: ["idea/app"],
+  folder: "projects/work",
+  backlinkCount: 0,
+  ...overrides,
+});
+
+const property = (
+  key: string,
+  operator: "equals" | "before" | "exists",
+  value = ""
+): CardRuleCondition => ({ type: "property", property: { key, operator, value, valueTo: "" } });
+
+const rule = (overrides: Partial<CardStyleRule>): CardStyleRule => ({
+  condition: { type: "tag", tag: "idea" },
+  effect: "accent",
+  color: "#e0ac00",
+  icon: "",
+  ...overrides,
+});
+
+describe("cardRuleLogic", () => {
+  describe("noteMatchesCardRule", () => {
+    it.each<[string, CardRuleCondition, boolean]>([
+      ["a parent tag", { type: "tag", tag: "#idea" }, true],
+      ["another tag", { type: "tag", tag: "task" }, false],
+      ["a parent folder", { type: "folder", folder: "projects/" }, true],
+      ["another folder", { type: "folder", folder: "archive" }, false],
+      ["a property value", property("status", "equals", "archived"), true],
+      ["another property value", property("status", "equals", "draft"), false],
+      ["a missing property", property("owner", "exists"), false],
+      ["a younger age", { type: "age", comparison: "newer", days: 3 }, true],
+      ["an older age", { type: "age", comparison: "older", days: 3 }, false],
+      ["a smaller older age", { type: "age", comparison: "older", days: 1 }, true],
+    ])("evaluates %s like the filters", (_, condition, expected) => {
+      const note = createNote({ frontmatter: { status: "Archived" } });
+      expect(noteMatchesCardRule(note, condition, NOW)).toBe(expected);
+    });
+
+    it("compares dates with today", () => {
+      const overdue = property("due", "before", "today");
+      expect(
+        noteMatchesCardRule(createNote({ frontmatter: { due: "2024-01-09" } }), overdue, NOW)
+      ).toBe(true);
+      expect(
+        noteMatchesCardRule(createNote({ frontmatter: { due: "2024-01-11" } }), overdue, NOW)
+      ).toBe(false);
+    });
+
+    it("dates notes by the sort key chain", () => {
+      const note = createNote({ frontmatter: { created: "2023-12-01" } });
+      const recent: CardRuleCondition = { type: "age", comparison: "newer", days: 7 };
+      expect(noteMatchesCardRule(note, recent, NOW, ["created"])).toBe(false);
+      expect(noteMatchesCardRule(note, recent, NOW, ["mtime"])).toBe(true);
+    });
+
+    it("does not call undated notes older or newer", () => {
+      const note = createNote();
+      expect(
+        noteMatchesCardRule(note, { type: "age", comparison: "older", days: 1 }, NOW, ["due"])
+      ).toBe(false);
+      expect(
+        noteMatchesCardRule(note, { type: "age", comparison: "newer", days: 1 }, NOW, ["due"])
+      ).toBe(false);
+    });
+
+    it.each<[string, CardRuleCondition]>([
+      ["blank tags", { type: "tag", tag: " " }],
+      ["blank folders", { type: "folder", folder: "" }],
+      ["blank property keys", property("", "exists")],
+      ["negative ages", { type: "age", comparison: "newer", days: -1 }],
+    ])("matches nothing for %s", (_, condition) => {
+      expect(noteMatchesCardRule(createNote(), condition, NOW)).toBe(false);
+    });
+  });
+
+  describe("resolveCardStyle", () => {
+    it("returns no style without rules", () => {
+      expect(resolveCardStyle(createNote(), [], NOW)).toBe(EMPTY_CARD_RULE_STYLE);
+    });
+
+    it("combines the effects of the matching rules", () => {
+      const style = resolveCardStyle(
+        createNote(),
+        [
+          rule({ effect: "accent", color: "#e0ac00" }),
+          rule({ effect: "border", color: "red" }),
+          rule({ effect: "tint", color: "blue", condition: { type: "tag", tag: "task" } }),
+          rule({ effect: "icon", icon: " 💡 " }),
+          rule({ effect: "dim", condition: { type: "folder", folder: "projects" } }),
+        ],
+        NOW
+      );
+
+      expect(style).toEqual({
+        accent: "#e0ac00",
+        border: "red",
+        tint: null,
+        icon: "💡",
+        isDimmed: true,
+      });
+    });
+
+    it("lets the first matching rule of an effect win", () => {
+      const style = resolveCardStyle(
+        createNote(),
+        [
+          rule({ color: "red", condition: { type: "tag", tag: "task" } }),
+          rule({ color: "yellow" }),
+          rule({ color: "gray", condition: { type: "folder", folder: "projects" } }),
+        ],
+        NOW
+      );
+
+      expect(style.accent).toBe("yellow");
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Pure Functions - Card Styling Rules
+ *
+ * These functions decide how the cards of the notes matching styling rules are
+ * marked. Each rule condition is a single criterion of the view filters, evaluated
+ * through the filter logic, so a rule matches the same notes as the equivalent filter.
+ */
+
+import { toDayKey } from "../../lib/dateUtils";
+import type {
+  CardRuleCondition,
+  CardStyleRule,
+  FilterState,
+  NoteData,
+  PropertyFilter,
+} from "../../types";
+import { MILLISECONDS_PER_DAY } from "../constants";
+import {
+  createDefaultFilters,
+  getNoteDateBySortKey,
+  isPropertyFilterActive,
+  notePassesFilters,
+} from "../filters";
+
+/**
+ * Combined effects of the styling rules matching a card
+ */
+export interface CardRuleStyle {
+  /** Color of the accent stripe and title, or null */
+  accent: string | null;
+  /** Color of the border, or null */
+  border: string | null;
+  /** Color the background is tinted with, or null */
+  tint: string | null;
+  /** Icon shown before the title, or null */
+  icon: string | null;
+  /** Whether the card is faded */
+  isDimmed: boolean;
+}
+
+/**
+ * Style of a card matched by no rules
+ */
+export const EMPTY_CARD_RULE_STYLE: CardRuleStyle = {
+  accent: null,
+  border: null,
+  tint: null,
+  icon: null,
+  isDimmed: false,
+};
+
+/**
+ * Operand standing for the current day in property conditions (internal)
+ */
+const TODAY_OPERAND = "today";
+
+/**
+ * Replace the "today" operand with the current local day (internal)
+ */
+const resolveOperand = (operand: string, now: Date): string =>
+  operand.trim().toLowerCase() === TODAY_OPERAND ? toDayKey(now) : operand;
+
+/**
+ * Convert a rule condition to filters holding only its criterion (internal)
+ *
+ * @param {CardRuleCondition} condition - Condition of the rule
+ * @param {Date} now - Current date for relative date calculations
+ * @returns {FilterState | null} Filters for the condition, or null if the condition is incomplete
+ */
+const toFilters = (condition: CardRuleCondition, now: Date): FilterState | null => {
+  const filters = createDefaultFilters();
+
+  switch (condition.type) {
+    case "tag": {
+      const tag = condition.tag.trim().replace(/^#/, "");
+      return tag ? { ...filters, tags: [tag] } : null;
+    }
+    case "folder": {
+      const folder = condition.folder.trim().replace(/\/$/, "");
+      return folder ? { ...filters, folders: [folder] } : null;
+    }
+    case "property": {
+      const property: PropertyFilter = {
+        ...condition.property,
+        value: resolveOperand(condition.property.value, now),
+        valueTo: resolveOperand(condition.property.valueTo, now),
+      };
+      return isPropertyFilterActive(property) ? { ...filters, properties: [property] } : null;
+    }
+    case "age": {
+      if (!Number.isFinite(condition.days) || condition.days < 0) return null;
+      const value = new Date(now.getTime() - condition.days * MILLISECONDS_PER_DAY);
+      return { ...filters, dateRange: { type: "within", value } };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Check if a note matches the condition of a styling rule
+ *
+ * Incomplete conditions (e.g. a blank tag) match no notes.
+ *
+ * @param {NoteData} note - The note to check
+ * @param {CardRuleCondition} condition - Condition of the rule
+ * @param {Date} now - Current date for relative date calculations
+ * @param {string | string[]} sortKey - Sort key of the view and its fallback keys, dating notes
+ *   for age conditions
+ * @returns {boolean} True if the note matches the condition
+ */
+export const noteMatchesCardRule = (
+  note: NoteData,
+  condition: CardRuleCondition,
+  now: Date,
+  sortKey: string | string[] = "updated"
+): boolean => {
+  const filters = toFilters(condition, now);
+  if (!filters) return false;
+
+  const matches = notePassesFilters(note, filters, now, sortKey);
+  if (condition.type === "age" && condition.comparison === "older") {
+    // Notes without a date are neither newer nor older than any age
+    return !matches && getNoteDateBySortKey(note, sortKey) !== null;
+  }
+  return matches;
+};
+
+/**
+ * Resolve the style of a card from the styling rules
+ *
+ * Rules are applied in priority order: where several rules with the same effect
+ * match, the first one wins. Rules with different effects combine.
+ *
+ * @param {NoteData} note - Note of the card
+ * @param {readonly CardStyleRule[]} rules - Styling rules in priority order
+ * @param {Date} now - Current date for relative date calculations
+ * @param {string | string[]} sortKey - Sort key of the view and its fallback keys
+ * @returns {CardRuleStyle} Combined effects of the matching rules
+ */
+export const resolveCardStyle = (
+  note: NoteData,
+  rules: readonly CardStyleRule[],
+  now: Date,
+  sortKey: string | string[] = "updated"
+): CardRuleStyle => {
+  if (rules.length === 0) return EMPTY_CARD_RULE_STYLE;
+
+  const style: CardRuleStyle = { ...EMPTY_CARD_RULE_STYLE };
+  const applied = new Set<CardStyleRule["effect"]>();
+  for (const rule of rules) {
+    if (applied.has(rule.effect) || !noteMatchesCardRule(note, rule.condition, now, sortKey)) {
+      continue;
+    }
+    applied.add(rule.effect);
+    switch (rule.effect) {
+      case "accent":
+      case "border":
+      case "tint":
+        style[rule.effect] = rule.color.trim() || null;
+        break;
+      case "icon":
+        style.icon = rule.icon.trim() || null;
+        break;
+      case "dim":
+        style.isDimmed = true;
+        break;
+    }
+  }
+  return style;
+};
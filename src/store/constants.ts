@@ -15,5 +15,90 @@ export const DEFAULT_SORT_ORDER = "desc" as const;
 /** Special sort key identifier for file modification time */
 export const MTIME_SORT_KEY = "mtime";
 
-/** Maximum number of lines to extract for note preview */
-export const PREVIEW_MAX_LINES = 3;
+/** Special sort key identifier for file creation time */
+export const CTIME_SORT_KEY = "ctime";
+
+/** Special sort key identifier for the note title (natural, locale-aware order) */
+export const TITLE_SORT_KEY = "filename";
+
+/** Special sort key identifier for the file size in bytes */
+export const SIZE_SORT_KEY = "filesize";
+
+/** Special sort key identifier for the number of words in the note body */
+export const WORD_COUNT_SORT_KEY = "wordcount";
+
+/** Special sort key identifier for the number of other notes linking to the note */
+export const BACKLINK_COUNT_SORT_KEY = "backlinks";
+
+/** Special sort key identifier for the number of tags on the note */
+export const TAG_COUNT_SORT_KEY = "tagcount";
+
+/** Special sort key identifier for the folder path of the note */
+export const FOLDER_SORT_KEY = "folder";
+
+/** Special sort key identifier for the order cards were dragged into in a view */
+export const MANUAL_SORT_KEY = "manual";
+
+/**
+ * Built-in sort keys with their display labels, in the order they are suggested.
+ * Built-in keys take precedence over frontmatter fields with the same name.
+ */
+export const BUILT_IN_SORT_KEY_LABELS: Record<string, string> = {
+  [MTIME_SORT_KEY]: "Modified time",
+  [CTIME_SORT_KEY]: "Created time",
+  [TITLE_SORT_KEY]: "Title",
+  [FOLDER_SORT_KEY]: "Folder",
+  [SIZE_SORT_KEY]: "File size",
+  [WORD_COUNT_SORT_KEY]: "Word count",
+  [BACKLINK_COUNT_SORT_KEY]: "Backlink count",
+  [TAG_COUNT_SORT_KEY]: "Tag count",
+  [MANUAL_SORT_KEY]: "Manual order (drag cards)",
+};
+
+/** Maximum number of tie-breaker keys after the primary sort key (secondary and tertiary) */
+export const MAX_SORT_TIE_BREAKERS = 2;
+
+/** Table column showing the tags of notes; sorts by tag count since tags are not a sort key */
+export const TAGS_COLUMN_KEY = "tags";
+
+/** Width in pixels of table columns the user has not resized */
+export const DEFAULT_TABLE_COLUMN_WIDTH = 160;
+
+/** Narrowest width in pixels a table column can be resized to */
+export const MIN_TABLE_COLUMN_WIDTH = 60;
+
+/**
+ * Highest value of the preview lines setting
+ * Excerpts are bounded by the excerpt length setting; cards show as many lines as asked for.
+ */
+export const PREVIEW_MAX_LINES = 10;
+
+/** Shortest and longest excerpt length in characters, with the slider step */
+export const EXCERPT_MAX_LENGTH_RANGE = { min: 100, max: 2000, step: 50 } as const;
+
+/** Most characters of a note rendered as its preview in the rendered preview mode */
+export const RENDERED_PREVIEW_MAX_LENGTH = 2000;
+
+/** Narrowest and widest card minimum width in pixels, with the slider step */
+export const CARD_MIN_WIDTH_RANGE = { min: 160, max: 600, step: 4 } as const;
+
+/** Change in pixels of the card minimum width per zoom step (Ctrl+wheel) */
+export const CARD_ZOOM_STEP = 20;
+
+/** Highest value of the cards per row setting */
+export const MAX_CARDS_PER_ROW_LIMIT = 10;
+
+/** Widths in pixels below which a view counts as narrow and shows the compact list */
+export const NARROW_CONTAINER_WIDTH = 400;
+
+/** Height in pixels assumed for masonry cards until they are measured */
+export const ESTIMATED_MASONRY_CARD_HEIGHT = 200;
+
+/** Vertical space in pixels between cards of a masonry column */
+export const MASONRY_GAP = 12;
+
+/** Longest side in pixels of the cover thumbnails decoded for cards */
+export const COVER_THUMBNAIL_MAX_SIZE = 480;
+
+/** Most cover thumbnails kept decoded; the least recently used are released first */
+export const COVER_THUMBNAIL_CACHE_LIMIT = 300;
@@ -0,0 +1,86 @@
+import type { EmbedCache } from "obsidian";
+import { describe, expect, it } from "vitest";
+import { getCoverLinks, isExternalUrl, isImagePath, parseCoverLink } from "./coverLogic";
+
+const embed = (link: string): EmbedCache => ({ link, original: `![[${link}]]` }) as EmbedCache;
+
+describe("coverLogic", () => {
+  describe("isImagePath", () => {
+    it.each(["cover.png", "Images/Photo.JPG", "a.b/c.webp", "icon.svg"])("accepts %s", (path) => {
+      expect(isImagePath(path)).toBe(true);
+    });
+
+    it.each(["note.md", "Images/cover", "archive.png.zip", "folder.png/file"])(
+      "rejects %s",
+      (path) => {
+        expect(isImagePath(path)).toBe(false);
+      }
+    );
+  });
+
+  describe("isExternalUrl", () => {
+    it("accepts web and image data URLs", () => {
+      expect(isExternalUrl("https://example.com/a.png")).toBe(true);
+      expect(isExternalUrl("HTTP://example.com/a")).toBe(true);
+      expect(isExternalUrl("data:image/png;base64,AAAA")).toBe(true);
+    });
+
+    it("rejects vault paths", () => {
+      expect(isExternalUrl("Images/cover.png")).toBe(false);
+      expect(isExternalUrl("https.png")).toBe(false);
+    });
+  });
+
+  describe("parseCoverLink", () => {
+    it.each([
+      ["wikilinks", "[[cover.png]]", "cover.png"],
+      ["embeds with a size", "![[Images/cover.png|300]]", "Images/cover.png"],
+      ["wikilinks with a heading", "[[Banner#Top]]", "Banner"],
+      ["markdown images", "![alt](https://example.com/a.png)", "https://example.com/a.png"],
+      ["markdown links with a title", '[cover](<Images/a b.png> "Cover")', "Images/a b.png"],
+      ["plain paths", "  Images/cover.png  ", "Images/cover.png"],
+      ["lists", ["", "[[second.png]]"], "second.png"],
+    ])("reads %s", (_, value, expected) => {
+      expect(parseCoverLink(value)).toBe(expected);
+    });
+
+    it.each([
+      ["empty text", "   "],
+      ["numbers", 42],
+      ["null", null],
+      ["empty lists", []],
+    ])("returns null for %s", (_, value) => {
+      expect(parseCoverLink(value)).toBeNull();
+    });
+  });
+
+  describe("getCoverLinks", () => {
+    it("lists the properties in the given order before the embedded images", () => {
+      expect(
+        getCoverLinks(
+          { banner: "[[banner.png]]", cover: "cover.jpg" },
+          [embed("photo.png")],
+          ["cover", "image", "banner"]
+        )
+      ).toEqual(["cover.jpg", "banner.png", "photo.png"]);
+    });
+
+    it("keeps only embedded images and web images", () => {
+      expect(
+        getCoverLinks(
+          null,
+          [embed("Other note"), embed("diagram.svg#part"), embed("https://example.com/a.png")],
+          ["cover"]
+        )
+      ).toEqual(["diagram.svg", "https://example.com/a.png"]);
+    });
+
+    it("drops duplicate links", () => {
+      expect(getCoverLinks({ cover: "[[a.png]]" }, [embed("a.png")], ["cover"])).toEqual(["a.png"]);
+    });
+
+    it("returns no links for notes without properties or embeds", () => {
+      expect(getCoverLinks(null, undefined, ["cover"])).toEqual([]);
+    });
+  });
+});
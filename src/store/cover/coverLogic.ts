@@ -0,0 +1,96 @@
+/**
+ * Pure Functions - Card Covers
+ *
+ * These functions find the links that may point at the cover image of a note: the
+ * frontmatter properties named by the cover settings, in order, then the images
+ * embedded in the note. Links are resolved to files by the caller, which keeps the
+ * first one that turns out to be an image.
+ */
+
+import type { EmbedCache } from "obsidian";
+
+/**
+ * File extensions Obsidian shows as images (internal)
+ */
+const IMAGE_EXTENSIONS = new Set(["avif", "bmp", "gif", "jpeg", "jpg", "png", "svg", "webp"]);
+
+/**
+ * Check whether a file path or link points at an image by its extension
+ *
+ * @param {string} path - File path or link path
+ * @returns {boolean} True if the extension is an image extension
+ */
+export const isImagePath = (path: string): boolean => {
+  const extension = /\.([^./]+)$/.exec(path)?.[1];
+  return extension !== undefined && IMAGE_EXTENSIONS.has(extension.toLowerCase());
+};
+
+/**
+ * Check whether a cover link is a web or data URL rather than a path in the vault
+ *
+ * @param {string} link - Cover link
+ * @returns {boolean} True for http(s) and image data URLs
+ */
+export const isExternalUrl = (link: string): boolean => /^(?:https?:\/\/|data:image\/)/i.test(link);
+
+/**
+ * Link path of a wikilink target, without its heading, block or alias (internal)
+ */
+const toLinkpath = (link: string): string => link.split(/[#|^]/)[0].trim();
+
+/**
+ * Read the cover link written in a frontmatter property
+ *
+ * Accepts wikilinks and embeds (`[[cover.png]]`, `![[cover.png|300]]`), markdown
+ * images and links (`![](https://…)`), plain paths and URLs, and lists of them,
+ * of which the first link counts.
+ *
+ * @param {unknown} value - Property value
+ * @returns {string | null} Link path or URL, or null if the value holds no link
+ */
+export const parseCoverLink = (value: unknown): string | null => {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const link = parseCoverLink(item);
+      if (link) return link;
+    }
+    return null;
+  }
+  if (typeof value !== "string") return null;
+
+  const text = value.trim();
+  const wikilink = /^!?\[\[([^\]]+)\]\]$/.exec(text);
+  if (wikilink) return toLinkpath(wikilink[1]) || null;
+  const markdownLink = /^!?\[[^\]]*\]\(\s*(?:<([^>]+)>|([^)\s]+))[^)]*\)$/.exec(text);
+  if (markdownLink) return markdownLink[1] ?? markdownLink[2];
+  return text || null;
+};
+
+/**
+ * Links that may point at the cover image of a note, in order of preference
+ *
+ * The properties named by the cover settings come first, in the order given; the
+ * images embedded in the note follow in the order they appear. Property links are
+ * kept whatever their extension, since a link may resolve to an image by name.
+ *
+ * @param {Record<string, unknown> | null} frontmatter - Frontmatter of the note
+ * @param {EmbedCache[] | undefined} embeds - Embeds of the note from the metadata cache
+ * @param {readonly string[]} propertyKeys - Frontmatter keys holding the cover image
+ * @returns {string[]} Link paths and URLs, without duplicates
+ */
+export const getCoverLinks = (
+  frontmatter: Record<string, unknown> | null,
+  embeds: EmbedCache[] | undefined,
+  propertyKeys: readonly string[]
+): string[] => {
+  const links = new Set<string>();
+  for (const key of propertyKeys) {
+    const link = parseCoverLink(frontmatter?.[key]);
+    if (link) links.add(link);
+  }
+  for (const embed of embeds ?? []) {
+    const link = toLinkpath(embed.link);
+    if (isImagePath(link) || isExternalUrl(link)) links.add(link);
+  }
+  return [...links];
+};
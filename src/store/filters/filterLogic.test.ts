@@ -1,6 +1,12 @@
 import { describe, expect, it } from "vitest";
-import type { FilterState, NoteData } from "../../types";
-import { applyFilters, hasAnyActiveFilter } from "./filterLogic";
+import type { FilterState, NoteData, PropertyFilter } from "../../types";
+import { buildContentIndex } from "../search";
+import {
+  applyFilters,
+  hasAnyActiveFilter,
+  isPropertyFilterActive,
+  matchesContentCriteria,
+} from "./filterLogic";
 
 // Test Constants
 const TEST_DATES = {
@@ -30,21 +36,38 @@ const createMockNote = (
   title,
   path,
   preview: `Preview for ${title}`,
+  wordCount: 0,
   lastModified,
   frontmatter,
   tags,
   folder,
+  backlinkCount: 0,
 });
 
 const createFiltersWith = (overrides: Partial<FilterState>): FilterState => ({
   folders: [],
+  folderMatchMode: "any",
   tags: [],
-  filename: "",
+  tagMatchMode: "any",
+  filename: [],
+  filenamePhrases: [],
+  content: "",
+  excludeFolders: [],
+  excludeTags: [],
+  excludeFilename: [],
+  properties: [],
   dateRange: null,
   ...overrides,
 });
 
-const createDateRangeFilter = (type: "within" | "after", value: Date | string) => ({
+const createPropertyFilter = (
+  key: string,
+  operator: PropertyFilter["operator"],
+  value = "",
+  valueTo = ""
+): PropertyFilter => ({ key, operator, value, valueTo });
+
+const createDateRangeFilter = (type: "within" | "after" | "on", value: Date | string) => ({
   type,
   value,
 });
@@ -102,12 +125,52 @@ describe("filterLogic", () => {
       },
       {
         description: "filename filter is active",
-        filters: createFiltersWith({ filename: "test" }),
+        filters: createFiltersWith({ filename: ["test"] }),
+        expected: true,
+      },
+      {
+        description: "filename phrase search is active",
+        filters: createFiltersWith({ filenamePhrases: ["weekly review"] }),
+        expected: true,
+      },
+      {
+        description: "folder exclusion is active",
+        filters: createFiltersWith({ excludeFolders: ["archive"] }),
+        expected: true,
+      },
+      {
+        description: "tag exclusion is active",
+        filters: createFiltersWith({ excludeTags: ["draft"] }),
+        expected: true,
+      },
+      {
+        description: "filename exclusion is active",
+        filters: createFiltersWith({ excludeFilename: ["old"] }),
+        expected: true,
+      },
+      {
+        description: "filename exclusion is empty",
+        filters: createFiltersWith({ excludeFilename: [] }),
+        expected: false,
+      },
+      {
+        description: "content search is active",
+        filters: createFiltersWith({ content: "budget" }),
+        expected: true,
+      },
+      {
+        description: "content search has no words",
+        filters: createFiltersWith({ content: ' "" ' }),
+        expected: false,
+      },
+      {
+        description: "property condition is active",
+        filters: createFiltersWith({ properties: [createPropertyFilter("status", "exists")] }),
         expected: true,
       },
       {
-        description: "filename filter is whitespace only",
-        filters: createFiltersWith({ filename: "   " }),
+        description: "property condition is incomplete",
+        filters: createFiltersWith({ properties: [createPropertyFilter("status", "equals")] }),
         expected: false,
       },
       {
@@ -122,7 +185,7 @@ describe("filterLogic", () => {
         filters: createFiltersWith({
           folders: ["projects"],
           tags: ["work"],
-          filename: "test",
+          filename: ["test"],
           dateRange: createDateRangeFilter("after", new Date()),
         }),
         expected: true,
@@ -251,23 +314,18 @@ describe("filterLogic", () => {
       const filenameTestCases = [
         {
           description: "case-insensitive filename search",
-          filename: "project",
+          filename: ["project"],
           expectedCount: 1,
           expectedTitle: "Project Note",
         },
         {
           description: "partial filename match",
-          filename: "Note",
+          filename: ["Note"],
           expectedCount: EXPECTED_COUNTS.NOTE_TITLED,
         },
         {
           description: "empty filename filter",
-          filename: "",
-          expectedCount: EXPECTED_COUNTS.ALL_NOTES,
-        },
-        {
-          description: "whitespace-only filename filter",
-          filename: "   ",
+          filename: [],
           expectedCount: EXPECTED_COUNTS.ALL_NOTES,
         },
       ];
@@ -283,6 +341,364 @@ describe("filterLogic", () => {
           }
         });
       });
+
+      it("should match abbreviations and frontmatter aliases fuzzily", () => {
+        const fuzzyNotes = [
+          createMockNote("Meeting notes 2024-03", "meeting.md"),
+          createMockNote("Mountain trip", "trip.md"),
+          createMockNote("2024-03-12", "daily.md", "", [], { aliases: ["Sprint retro"] }),
+        ];
+
+        const abbreviated = applyFilters(
+          fuzzyNotes,
+          createFiltersWith({ filename: ["mtg", "nts"] }),
+          TEST_DATES.NOW
+        );
+        const aliased = applyFilters(
+          fuzzyNotes,
+          createFiltersWith({ filename: ["retro"] }),
+          TEST_DATES.NOW
+        );
+
+        expect(abbreviated.map((note) => note.path)).toEqual(["meeting.md"]);
+        expect(aliased.map((note) => note.path)).toEqual(["daily.md"]);
+      });
+
+      it("should match quoted phrases exactly in titles and aliases", () => {
+        const phraseNotes = [
+          createMockNote("Meeting notes 2024-03", "meeting.md"),
+          createMockNote("Mountain trip", "trip.md"),
+          createMockNote("2024-03-12", "daily.md", "", [], { aliases: ["Sprint retro"] }),
+        ];
+        const matchPhrase = (phrase: string) =>
+          applyFilters(
+            phraseNotes,
+            createFiltersWith({ filenamePhrases: [phrase] }),
+            TEST_DATES.NOW
+          ).map((note) => note.path);
+
+        expect(matchPhrase("MEETING NOTES")).toEqual(["meeting.md"]);
+        expect(matchPhrase("sprint retro")).toEqual(["daily.md"]);
+        expect(matchPhrase("mtg nts")).toEqual([]);
+        expect(matchPhrase("notes meeting")).toEqual([]);
+      });
+
+      it("should require the words and every phrase to match", () => {
+        const filters = createFiltersWith({ filename: ["note"], filenamePhrases: ["project"] });
+        const result = applyFilters(notes, filters, TEST_DATES.NOW);
+
+        expect(result.map((note) => note.title)).toEqual(["Project Note"]);
+      });
+    });
+
+    describe("content search", () => {
+      const contentNotes = [
+        createMockNote("Weekly", "weekly.md"),
+        createMockNote("Daily", "daily.md"),
+        createMockNote("Plan", "work/plan.md", "work"),
+      ];
+      const bodies = new Map([
+        ["weekly.md", "Budget review and action items"],
+        ["daily.md", "Nothing about money"],
+        ["work/plan.md", "Action items: budget"],
+      ]);
+
+      it("should keep notes whose body matches every term", () => {
+        const filters = createFiltersWith({ content: "budget action" });
+        const result = applyFilters(
+          contentNotes,
+          filters,
+          TEST_DATES.NOW,
+          "updated",
+          buildContentIndex(bodies)
+        );
+        expect(result.map((note) => note.title)).toEqual(["Weekly", "Plan"]);
+      });
+
+      it("should match no notes without a content index", () => {
+        const filters = createFiltersWith({ content: "budget" });
+        expect(applyFilters(contentNotes, filters, TEST_DATES.NOW)).toEqual([]);
+      });
+
+      it("should combine the content search with other filters", () => {
+        const filters = createFiltersWith({ content: '"action items"', folders: ["work"] });
+        const result = applyFilters(
+          contentNotes,
+          filters,
+          TEST_DATES.NOW,
+          "updated",
+          buildContentIndex(bodies)
+        );
+        expect(result.map((note) => note.title)).toEqual(["Plan"]);
+      });
+
+      it("should match single notes the same way through matchesContentCriteria", () => {
+        const index = buildContentIndex(bodies);
+        expect(matchesContentCriteria(contentNotes[0], "review", index)).toBe(true);
+        expect(matchesContentCriteria(contentNotes[1], "review", index)).toBe(false);
+        expect(matchesContentCriteria(contentNotes[1], "  ", index)).toBe(true);
+      });
+    });
+
+    describe("match modes", () => {
+      const matchModeTestCases = [
+        {
+          description: "tags with all (AND)",
+          overrides: { tags: ["work", "important"], tagMatchMode: "all" as const },
+          expectedTitles: ["Project Note"],
+        },
+        {
+          description: "tags with none (NOT)",
+          overrides: { tags: ["work", "old"], tagMatchMode: "none" as const },
+          expectedTitles: ["Personal Note", "Root Note"],
+        },
+        {
+          description: "hierarchical folders with all",
+          overrides: {
+            folders: ["projects", "projects/meetings"],
+            folderMatchMode: "all" as const,
+          },
+          expectedTitles: ["Meeting Notes"],
+        },
+        {
+          description: "folders with none",
+          overrides: { folders: ["projects", "archive"], folderMatchMode: "none" as const },
+          expectedTitles: ["Personal Note", "Root Note"],
+        },
+        {
+          description: "empty selection regardless of mode",
+          overrides: { tags: [], tagMatchMode: "none" as const },
+          expectedTitles: notes.map((n) => n.title),
+        },
+      ];
+
+      matchModeTestCases.forEach(({ description, overrides, expectedTitles }) => {
+        it(`should filter notes by ${description}`, () => {
+          const filters = createFiltersWith(overrides);
+          const result = applyFilters(notes, filters, TEST_DATES.NOW);
+          expect(result.map((n) => n.title)).toEqual(expectedTitles);
+        });
+      });
+
+      it("should match child tags for every selection with all", () => {
+        const both = createMockNote("Both", "/both.md", "", ["project/frontend", "urgent"]);
+        const one = createMockNote("One", "/one.md", "", ["project/frontend"]);
+
+        const filters = createFiltersWith({ tags: ["project", "urgent"], tagMatchMode: "all" });
+        const result = applyFilters([both, one], filters, TEST_DATES.NOW);
+
+        expect(result).toEqual([both]);
+      });
+
+      it("should keep untagged notes with none", () => {
+        const untagged = createMockNote("Untagged", "/untagged.md");
+
+        const filters = createFiltersWith({ tags: ["work"], tagMatchMode: "none" });
+        expect(applyFilters([untagged], filters, TEST_DATES.NOW)).toEqual([untagged]);
+      });
+    });
+
+    describe("property filtering", () => {
+      const propertyNotes = [
+        createMockNote("Draft", "/draft.md", "", [], {
+          status: "Draft",
+          priority: 3,
+          due: "2024-02-01",
+          authors: ["Alice", "Bob"],
+        }),
+        createMockNote("Done", "/done.md", "", [], {
+          status: "done",
+          priority: "10",
+          due: "2024-03-15",
+        }),
+        createMockNote("Bare", "/bare.md", "", [], { status: null }),
+        createMockNote("No Frontmatter", "/none.md"),
+      ];
+
+      const propertyTestCases = [
+        {
+          description: "equals (case-insensitive)",
+          condition: createPropertyFilter("status", "equals", "draft"),
+          expectedTitles: ["Draft"],
+        },
+        {
+          description: "contains on list items",
+          condition: createPropertyFilter("authors", "contains", "bo"),
+          expectedTitles: ["Draft"],
+        },
+        {
+          description: "exists (null counts as missing)",
+          condition: createPropertyFilter("status", "exists"),
+          expectedTitles: ["Draft", "Done"],
+        },
+        {
+          description: "missing",
+          condition: createPropertyFilter("status", "missing"),
+          expectedTitles: ["Bare", "No Frontmatter"],
+        },
+        {
+          description: "greater than with numeric strings",
+          condition: createPropertyFilter("priority", "gt", "5"),
+          expectedTitles: ["Done"],
+        },
+        {
+          description: "less than",
+          condition: createPropertyFilter("priority", "lt", "5"),
+          expectedTitles: ["Draft"],
+        },
+        {
+          description: "between numbers (inclusive)",
+          condition: createPropertyFilter("priority", "between", "3", "9"),
+          expectedTitles: ["Draft"],
+        },
+        {
+          description: "between dates",
+          condition: createPropertyFilter("due", "between", "2024-03-01", "2024-03-31"),
+          expectedTitles: ["Done"],
+        },
+        {
+          description: "before a date",
+          condition: createPropertyFilter("due", "before", "2024-03-01"),
+          expectedTitles: ["Draft"],
+        },
+        {
+          description: "after a date",
+          condition: createPropertyFilter("due", "after", "2024-03-01"),
+          expectedTitles: ["Done"],
+        },
+        {
+          description: "an unparseable date operand",
+          condition: createPropertyFilter("due", "after", "soon"),
+          expectedTitles: [],
+        },
+        {
+          description: "an incomplete condition (ignored)",
+          condition: createPropertyFilter("status", "between", "a"),
+          expectedTitles: ["Draft", "Done", "Bare", "No Frontmatter"],
+        },
+      ];
+
+      propertyTestCases.forEach(({ description, condition, expectedTitles }) => {
+        it(`should filter notes by ${description}`, () => {
+          const filters = createFiltersWith({ properties: [condition] });
+          const result = applyFilters(propertyNotes, filters, TEST_DATES.NOW);
+          expect(result.map((n) => n.title)).toEqual(expectedTitles);
+        });
+      });
+
+      it("should require every condition to match", () => {
+        const filters = createFiltersWith({
+          properties: [
+            createPropertyFilter("status", "exists"),
+            createPropertyFilter("due", "after", "2024-01-01"),
+            createPropertyFilter("priority", "lt", "5"),
+          ],
+        });
+        const result = applyFilters(propertyNotes, filters, TEST_DATES.NOW);
+        expect(result.map((n) => n.title)).toEqual(["Draft"]);
+      });
+
+      it("should compare Date values from frontmatter", () => {
+        const note = createMockNote("Dated", "/dated.md", "", [], {
+          due: new Date("2024-05-01T00:00:00Z"),
+        });
+        const filters = createFiltersWith({
+          properties: [createPropertyFilter("due", "before", "2024-06-01")],
+        });
+        expect(applyFilters([note], filters, TEST_DATES.NOW)).toEqual([note]);
+      });
+    });
+
+    describe("isPropertyFilterActive", () => {
+      it.each([
+        [createPropertyFilter("", "exists"), false],
+        [createPropertyFilter("  ", "equals", "x"), false],
+        [createPropertyFilter("status", "missing"), true],
+        [createPropertyFilter("status", "contains", " "), false],
+        [createPropertyFilter("status", "contains", "x"), true],
+        [createPropertyFilter("n", "between", "1"), false],
+        [createPropertyFilter("n", "between", "1", "2"), true],
+      ])("should report %o as %s", (condition, expected) => {
+        expect(isPropertyFilterActive(condition)).toBe(expected);
+      });
+    });
+
+    describe("exclusion filtering", () => {
+      const exclusionTestCases = [
+        {
+          description: "folder and its subfolders",
+          overrides: { excludeFolders: ["projects"] },
+          expectedTitles: ["Personal Note", "Old Document", "Root Note"],
+        },
+        {
+          description: "subfolder only",
+          overrides: { excludeFolders: ["projects/meetings"] },
+          expectedTitles: ["Project Note", "Personal Note", "Old Document", "Root Note"],
+        },
+        {
+          description: "vault root only",
+          overrides: { excludeFolders: [""] },
+          expectedTitles: ["Project Note", "Personal Note", "Meeting Notes", "Old Document"],
+        },
+        {
+          description: "tag",
+          overrides: { excludeTags: ["work"] },
+          expectedTitles: ["Personal Note", "Old Document", "Root Note"],
+        },
+        {
+          description: "filename (case-insensitive)",
+          overrides: { excludeFilename: ["NOTE"] },
+          expectedTitles: ["Old Document"],
+        },
+        {
+          description: "any of several filename terms",
+          overrides: { excludeFilename: ["old", "root"] },
+          expectedTitles: ["Project Note", "Personal Note", "Meeting Notes"],
+        },
+        {
+          description: "excluded folder over included folder",
+          overrides: { folders: ["projects"], excludeFolders: ["projects/meetings"] },
+          expectedTitles: ["Project Note"],
+        },
+      ];
+
+      exclusionTestCases.forEach(({ description, overrides, expectedTitles }) => {
+        it(`should exclude notes by ${description}`, () => {
+          const filters = createFiltersWith(overrides);
+          const result = applyFilters(notes, filters, TEST_DATES.NOW);
+          expect(result.map((n) => n.title)).toEqual(expectedTitles);
+        });
+      });
+
+      it("should match excluded folders by path segment, not prefix", () => {
+        const archived = createMockNote("Archived", "/archived/a.md", "archived");
+        const archive = createMockNote("Archive", "/archive/2023/a.md", "archive/2023");
+
+        const filters = createFiltersWith({ excludeFolders: ["archive"] });
+        const result = applyFilters([archived, archive], filters, TEST_DATES.NOW);
+
+        expect(result).toEqual([archived]);
+      });
+
+      it("should exclude child tags of an excluded tag", () => {
+        const wip = createMockNote("WIP", "/wip.md", "", ["draft/wip"]);
+        const drafted = createMockNote("Drafted", "/drafted.md", "", ["drafted"]);
+
+        const filters = createFiltersWith({ excludeTags: ["draft"] });
+        const result = applyFilters([wip, drafted], filters, TEST_DATES.NOW);
+
+        expect(result).toEqual([drafted]);
+      });
+
+      it("should keep notes without tags when a tag exclusion is active", () => {
+        const untagged = {
+          ...createMockNote("Untagged", "/untagged.md"),
+          tags: undefined as unknown as string[],
+        } as NoteData;
+
+        const filters = createFiltersWith({ excludeTags: ["draft"] });
+        expect(applyFilters([untagged], filters, TEST_DATES.NOW)).toEqual([untagged]);
+      });
     });
 
     describe("date range filtering", () => {
@@ -317,6 +733,27 @@ describe("filterLogic", () => {
           expectedCount: 1,
           expectedTitle: "Recent",
         },
+        {
+          description: "notes on the local day of the filter date",
+          dateRange: createDateRangeFilter(
+            "on",
+            new Date(
+              TEST_DATES.RECENT.getFullYear(),
+              TEST_DATES.RECENT.getMonth(),
+              TEST_DATES.RECENT.getDate(),
+              23,
+              59
+            )
+          ),
+          expectedCount: 1,
+          expectedTitle: "Recent",
+        },
+        {
+          description: "days without notes in on filter",
+          dateRange: createDateRangeFilter("on", TEST_DATES.MEDIUM),
+          expectedCount: 0,
+          expectedTitle: undefined,
+        },
       ];
 
       validDateTestCases.forEach(({ description, dateRange, expectedCount, expectedTitle }) => {
@@ -398,7 +835,7 @@ describe("filterLogic", () => {
           filters: createFiltersWith({
             folders: ["projects"],
             tags: ["work"],
-            filename: "Project",
+            filename: ["Project"],
           }),
           expectedCount: 1,
           expectedTitle: "Project Note",
@@ -611,6 +1048,31 @@ describe("filterLogic", () => {
         expect(result).toHaveLength(1);
         expect(result[0].title).toBe("Note with partial frontmatter");
       });
+
+      it("should follow a fallback chain and exclude notes without any date", () => {
+        const created = createMockNote("Created", "created.md", "", [], {
+          created: "2024-01-09T00:00:00Z",
+        });
+        const undated = createMockNote(
+          "Undated",
+          "undated.md",
+          "",
+          [],
+          null,
+          new Date("2024-01-09T00:00:00Z") // lastModified is not part of the chain
+        );
+
+        const filters = createFiltersWith({
+          dateRange: createDateRangeFilter("after", new Date("2024-01-08T00:00:00Z")),
+        });
+
+        const result = applyFilters([created, undated], filters, TEST_DATES.NOW, [
+          "updated",
+          "created",
+        ]);
+
+        expect(result.map((note) => note.title)).toEqual(["Created"]);
+      });
     });
   });
 });
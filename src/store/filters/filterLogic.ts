@@ -8,14 +8,58 @@
  * The filter system supports:
  * - Folder inclusion/exclusion with hierarchical matching
  * - Tag inclusion/exclusion with hierarchical matching
- * - Filename pattern matching (inclusion/exclusion)
- * - Date range filtering (within X days or after specific date)
+ * - Per-group match modes for tags and folders (any/all/none)
+ * - Fuzzy filename words and exact filename phrases on titles and aliases,
+ *   substring filename exclusion
+ * - Full-text content search through the content index
+ * - Date range filtering (within X days, after a specific date or on a specific day)
+ * - Frontmatter property conditions (equals, contains, exists, comparisons, dates)
  */
 
-import type { FilterState, NoteData } from "../../types";
-import { MILLISECONDS_PER_DAY } from "../constants";
+import { getNoteDateByKeys, parseDateSafely, toDayKey } from "../../lib/dateUtils";
+import {
+  DEFAULT_FILTER_MATCH_MODE,
+  type FilterMatchMode,
+  type FilterState,
+  type NoteData,
+  type PropertyFilter,
+} from "../../types";
+import { MILLISECONDS_PER_DAY, MTIME_SORT_KEY } from "../constants";
+import {
+  buildContentIndex,
+  type ContentIndex,
+  contentIndexMatchesNote,
+  getNoteAliases,
+  isContentQueryEmpty,
+  parseContentQuery,
+  scoreNoteTitleMatch,
+  searchContentIndex,
+} from "../search";
 import { tagMatchesFilter } from "./tagUtils";
 
+/**
+ * Create default filter state with all filters disabled
+ *
+ * Returns a fresh FilterState object with empty arrays and null values,
+ * representing no active filters (show all notes).
+ * Exported for the per-view stores and for card styling rules, which evaluate
+ * a single criterion through the same filters.
+ */
+export const createDefaultFilters = (): FilterState => ({
+  folders: [],
+  folderMatchMode: DEFAULT_FILTER_MATCH_MODE,
+  tags: [],
+  tagMatchMode: DEFAULT_FILTER_MATCH_MODE,
+  filename: [],
+  filenamePhrases: [],
+  content: "",
+  excludeFolders: [],
+  excludeTags: [],
+  excludeFilename: [],
+  properties: [],
+  dateRange: null,
+});
+
 /**
  * Check if any filter criteria is currently active
  *
@@ -30,7 +74,13 @@ export const hasAnyActiveFilter = (filters: FilterState): boolean => {
   return (
     filters.folders.length > 0 || // Folder inclusion filters
     filters.tags.length > 0 || // Tag inclusion filters
-    filters.filename.trim() !== "" || // Filename search
+    filters.filename.length > 0 || // Filename search
+    filters.filenamePhrases.length > 0 || // Filename phrase search
+    !isContentQueryEmpty(parseContentQuery(filters.content)) || // Full-text content search
+    filters.excludeFolders.length > 0 || // Folder exclusion filters
+    filters.excludeTags.length > 0 || // Tag exclusion filters
+    filters.excludeFilename.length > 0 || // Filename exclusion
+    filters.properties.some(isPropertyFilterActive) || // Frontmatter property conditions
     filters.dateRange !== null // Date range filter
   );
 };
@@ -40,114 +90,388 @@ export const hasAnyActiveFilter = (filters: FilterState): boolean => {
  *
  * Filters the input array to only include notes that pass all
  * active filter criteria. Returns a new array without modifying the original.
- * Supports hierarchical tag filtering.
+ * Supports hierarchical tag filtering. A content search is answered by the
+ * content index once for the whole collection instead of scanning every body.
  *
  * @param {NoteData[]} notes - Array of notes to filter
  * @param {FilterState} filters - Filter configuration to apply
  * @param {Date} now - Current date for relative date calculations
+ * @param {string | string[]} sortKey - Frontmatter key used for date filtering, or the sort key
+ *   followed by its fallback keys
+ * @param {ContentIndex} contentIndex - Index of the note bodies; without it no note matches a
+ *   content search
  * @returns {NoteData[]} New array containing only notes that pass filters
  */
 export const applyFilters = (
   notes: NoteData[],
   filters: FilterState,
   now: Date,
-  sortKey: string = "updated"
+  sortKey: string | string[] = "updated",
+  contentIndex: ContentIndex = buildContentIndex(new Map())
 ): NoteData[] => {
-  return notes.filter((note) => notePassesFilters(note, filters, now, sortKey));
+  const contentQuery = parseContentQuery(filters.content);
+  const contentMatches = isContentQueryEmpty(contentQuery)
+    ? null
+    : searchContentIndex(contentIndex, contentQuery);
+
+  return notes.filter(
+    (note) =>
+      (contentMatches === null || contentMatches.has(note.path)) &&
+      notePassesFilters(note, filters, now, sortKey)
+  );
 };
 
 /**
- * Check if a note passes all active filter criteria (internal)
+ * Check if a single note matches the content search of the filters
+ *
+ * Counterpart of the content step in {@link applyFilters}, used by incremental
+ * index updates that evaluate one changed note.
+ *
+ * @param {NoteData} note - The note to evaluate (must already be in the index)
+ * @param {string} content - Content search query from the filters
+ * @param {ContentIndex} contentIndex - Index of the note bodies
+ * @returns {boolean} True if the note matches or no content search is active
+ */
+export const matchesContentCriteria = (
+  note: NoteData,
+  content: string,
+  contentIndex: ContentIndex
+): boolean => {
+  const contentQuery = parseContentQuery(content);
+  return (
+    isContentQueryEmpty(contentQuery) ||
+    contentIndexMatchesNote(contentIndex, note.path, contentQuery)
+  );
+};
+
+/**
+ * Check if a note passes all active filter criteria
  *
  * This is the main filter orchestrator that combines all individual
- * filter checks. A note must pass ALL criteria to be included.
+ * filter checks. A note must pass ALL criteria to be included,
+ * so exclusions always win over inclusions.
+ * The content search is not part of this check since it needs the content index;
+ * see {@link applyFilters} and {@link matchesContentCriteria}.
  * Uses short-circuit evaluation for performance optimization.
+ * Exported for incremental index updates that evaluate a single note.
  *
  * @param {NoteData} note - The note to evaluate
  * @param {FilterState} filters - Complete filter configuration
  * @param {Date} now - Current date for relative date calculations
  * @returns {boolean} True if note passes all active filters
  */
-const notePassesFilters = (
+export const notePassesFilters = (
   note: NoteData,
   filters: FilterState,
   now: Date,
-  sortKey: string = "updated"
+  sortKey: string | string[] = "updated"
 ): boolean => {
   return (
-    matchesFolderCriteria(note, filters.folders) && // Must be in included folders
-    matchesTagCriteria(note, filters.tags) && // Must have required tags (hierarchical)
-    matchesFilenameCriteria(note, filters.filename) && // Must match filename search
+    matchesFolderCriteria(note, filters.folders, filters.folderMatchMode) && // Folder selection
+    matchesTagCriteria(note, filters.tags, filters.tagMatchMode) && // Tag selection (hierarchical)
+    matchesFilenameCriteria(note, filters.filename, filters.filenamePhrases) && // Must match filename search
+    !matchesFolderExclusion(note, filters.excludeFolders) && // Must not be in excluded folders
+    !matchesTagExclusion(note, filters.excludeTags) && // Must not have excluded tags
+    !matchesFilenameExclusion(note, filters.excludeFilename) && // Must not match excluded filename
+    matchesPropertyCriteria(note, filters.properties) && // Must satisfy property conditions
     matchesDateRangeCriteria(note, filters.dateRange, now, sortKey) // Must match date criteria
   );
 };
 
 /**
- * Check if note matches folder inclusion criteria (internal)
+ * Combine per-value match results according to a match mode (internal)
+ *
+ * @param {string[]} values - Selected filter values
+ * @param {FilterMatchMode} mode - How the values are combined
+ * @param {(value: string) => boolean} matches - Whether the note matches a single value
+ * @returns {boolean} True if the note satisfies the group
+ */
+const matchesWithMode = (
+  values: string[],
+  mode: FilterMatchMode,
+  matches: (value: string) => boolean
+): boolean => {
+  switch (mode) {
+    case "all":
+      return values.every(matches);
+    case "none":
+      return !values.some(matches);
+    default:
+      return values.some(matches);
+  }
+};
+
+/**
+ * Check if note matches folder selection criteria (internal)
  *
  * Uses startsWith matching to support hierarchical folder filtering.
  * For example, filtering by "projects" will include notes in "projects/work".
  *
  * @param {NoteData} note - The note to check
- * @param {string[]} folders - Array of folder paths to include
+ * @param {string[]} folders - Array of selected folder paths
+ * @param {FilterMatchMode} mode - Whether the note must be in any, all or none of the folders
  * @returns {boolean} True if note matches criteria or no folders specified
  */
-const matchesFolderCriteria = (note: NoteData, folders: string[]): boolean => {
+const matchesFolderCriteria = (
+  note: NoteData,
+  folders: string[],
+  mode: FilterMatchMode
+): boolean => {
   // No folder filter means include all notes
   if (folders.length === 0) return true;
 
   const noteFolder = note.folder || "";
-  // Check if note's folder starts with any of the filter folders
-  return folders.some((folder) => noteFolder.startsWith(folder));
+  return matchesWithMode(folders, mode, (folder) => noteFolder.startsWith(folder));
 };
 
 /**
- * Check if note matches tag inclusion criteria (internal)
+ * Check if note matches tag selection criteria (internal)
  *
- * Supports hierarchical tag matching. A note matches if:
+ * Supports hierarchical tag matching. A note matches a selected tag if:
  * - It has the exact tag specified in the filter, OR
  * - It has any child tag of the filter tag (e.g., filter "project" matches "project/frontend")
  *
+ * The match mode then decides whether any, all or none of the selected tags must match.
+ *
  * @param {NoteData} note - The note to check
- * @param {string[]} tags - Array of tags to filter by
- * @returns {boolean} True if note has matching tags or no tags specified
+ * @param {string[]} tags - Array of selected tags
+ * @param {FilterMatchMode} mode - Whether the note must match any, all or none of the tags
+ * @returns {boolean} True if note satisfies the tag selection or no tags specified
  */
-const matchesTagCriteria = (note: NoteData, tags: string[]): boolean => {
+const matchesTagCriteria = (note: NoteData, tags: string[], mode: FilterMatchMode): boolean => {
   // No tag filter means include all notes
   if (tags.length === 0) return true;
 
-  // Check if note has any tag that matches the filter criteria (hierarchical)
+  const noteTags = Array.isArray(note.tags) ? note.tags : [];
+  return matchesWithMode(tags, mode, (filterTag) =>
+    noteTags.some((noteTag) => tagMatchesFilter(noteTag, filterTag))
+  );
+};
+
+/**
+ * Check if note matches filename search criteria (internal)
+ *
+ * Performs case-insensitive matching on the note title and its frontmatter
+ * aliases. Words are matched fuzzily: they must appear in order in the title or
+ * in one alias, not necessarily adjacent ("mtg nts" matches "Meeting notes").
+ * Each phrase must appear exactly in the title or an alias. No words and no
+ * phrases match all notes.
+ *
+ * @param {NoteData} note - The note to check
+ * @param {string[]} words - Words of the filename search
+ * @param {string[]} phrases - Phrases of the filename search
+ * @returns {boolean} True if the title or an alias matches the search, or search is empty
+ */
+const matchesFilenameCriteria = (note: NoteData, words: string[], phrases: string[]): boolean => {
+  if (words.length > 0 && scoreNoteTitleMatch(note, words.join(" ")) === null) return false;
+  if (phrases.length === 0) return true;
+
+  const candidates = [note.title, ...getNoteAliases(note)].map((text) => text.toLowerCase());
+  return phrases.every((phrase) =>
+    candidates.some((candidate) => candidate.includes(phrase.toLowerCase()))
+  );
+};
+
+/**
+ * Check if note is in an excluded folder (internal)
+ *
+ * Uses the same hierarchical semantics as tagMatchesFilter: excluding
+ * "Archive" matches "Archive" and "Archive/2023" but not "Archived".
+ * Excluding "" (the vault root) only matches notes directly in the root.
+ *
+ * @param {NoteData} note - The note to check
+ * @param {string[]} excludeFolders - Array of folder paths to exclude
+ * @returns {boolean} True if note is inside any excluded folder
+ */
+const matchesFolderExclusion = (note: NoteData, excludeFolders: string[]): boolean => {
+  if (excludeFolders.length === 0) return false;
+
+  const noteFolder = note.folder || "";
+  return excludeFolders.some((folder) => tagMatchesFilter(noteFolder, folder));
+};
+
+/**
+ * Check if note has an excluded tag (internal)
+ *
+ * Supports hierarchical tag matching: excluding "draft" also matches
+ * notes tagged "draft/wip".
+ *
+ * @param {NoteData} note - The note to check
+ * @param {string[]} excludeTags - Array of tags to exclude
+ * @returns {boolean} True if note has any excluded tag
+ */
+const matchesTagExclusion = (note: NoteData, excludeTags: string[]): boolean => {
+  if (excludeTags.length === 0) return false;
+
   if (!Array.isArray(note.tags) || note.tags.length === 0) return false;
   return note.tags.some((noteTag) =>
-    tags.some((filterTag) => tagMatchesFilter(noteTag, filterTag))
+    excludeTags.some((excludeTag) => tagMatchesFilter(noteTag, excludeTag))
   );
 };
 
 /**
- * Check if note matches filename search criteria (internal)
+ * Check if note title matches a filename exclusion (internal)
  *
  * Performs case-insensitive partial matching on note title.
- * Empty search term matches all notes.
+ * Blank exclusion terms match no notes.
  *
  * @param {NoteData} note - The note to check
- * @param {string} filename - Search term for filename filtering
- * @returns {boolean} True if note title contains search term or search is empty
+ * @param {string[]} excludeFilename - Terms for excluding notes by filename
+ * @returns {boolean} True if note title contains any exclusion term
  */
-const matchesFilenameCriteria = (note: NoteData, filename: string): boolean => {
-  const searchTerm = filename.trim();
-  // Empty search term means include all notes
-  if (!searchTerm) return true;
+const matchesFilenameExclusion = (note: NoteData, excludeFilename: string[]): boolean => {
+  if (excludeFilename.length === 0) return false;
 
-  // Case-insensitive partial matching
-  return note.title.toLowerCase().includes(searchTerm.toLowerCase());
+  const title = note.title.toLowerCase();
+  return excludeFilename.some((term) => term.trim() && title.includes(term.trim().toLowerCase()));
+};
+
+/**
+ * Check if a property condition is complete enough to be applied
+ *
+ * Conditions are edited row by row in the filter panel, so a condition
+ * without a key, or without the operands its operator needs, is skipped
+ * instead of hiding every note.
+ *
+ * @param {PropertyFilter} condition - Property condition to check
+ * @returns {boolean} True if the condition takes part in filtering
+ */
+export const isPropertyFilterActive = (condition: PropertyFilter): boolean => {
+  if (!condition.key.trim()) return false;
+
+  switch (condition.operator) {
+    case "exists":
+    case "missing":
+      return true;
+    case "between":
+      return condition.value.trim() !== "" && condition.valueTo.trim() !== "";
+    default:
+      return condition.value.trim() !== "";
+  }
+};
+
+/**
+ * Check if note satisfies all active property conditions (internal)
+ *
+ * @param {NoteData} note - The note to check
+ * @param {PropertyFilter[]} properties - Property conditions from the filter state
+ * @returns {boolean} True if every active condition matches or none are active
+ */
+const matchesPropertyCriteria = (note: NoteData, properties: PropertyFilter[]): boolean => {
+  return properties.every(
+    (condition) => !isPropertyFilterActive(condition) || matchesPropertyCondition(note, condition)
+  );
+};
+
+/**
+ * Evaluate a single property condition against a note (internal)
+ *
+ * List values match when any of their items match, so "tags-like"
+ * properties such as `aliases` or `authors` behave intuitively.
+ *
+ * @param {NoteData} note - The note to check
+ * @param {PropertyFilter} condition - Active property condition
+ * @returns {boolean} True if the note's property satisfies the condition
+ */
+const matchesPropertyCondition = (note: NoteData, condition: PropertyFilter): boolean => {
+  const raw = note.frontmatter?.[condition.key.trim()];
+  const hasValue = raw !== undefined && raw !== null;
+
+  if (condition.operator === "exists") return hasValue;
+  if (condition.operator === "missing") return !hasValue;
+  if (!hasValue) return false;
+
+  const values: unknown[] = Array.isArray(raw) ? raw : [raw];
+  return values.some((value) => matchesPropertyValue(value, condition));
+};
+
+/**
+ * Compare one property value with the operands of a condition (internal)
+ *
+ * @param {unknown} value - Frontmatter value (a single item for list properties)
+ * @param {PropertyFilter} condition - Active property condition
+ * @returns {boolean} True if the value satisfies the operator
+ */
+const matchesPropertyValue = (value: unknown, condition: PropertyFilter): boolean => {
+  const operand = condition.value.trim();
+
+  switch (condition.operator) {
+    case "equals":
+      return String(value).toLowerCase() === operand.toLowerCase();
+    case "contains":
+      return String(value).toLowerCase().includes(operand.toLowerCase());
+    case "gt":
+      return compareProperty(value, operand) > 0;
+    case "lt":
+      return compareProperty(value, operand) < 0;
+    case "between":
+      return (
+        compareProperty(value, operand) >= 0 &&
+        compareProperty(value, condition.valueTo.trim()) <= 0
+      );
+    case "before":
+      return compareDates(value, operand) < 0;
+    case "after":
+      return compareDates(value, operand) > 0;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Compare a property value with an operand, numerically when both are numbers
+ * and as dates otherwise (internal)
+ *
+ * @param {unknown} value - Frontmatter value
+ * @param {string} operand - Operand entered in the filter panel
+ * @returns {number} Negative, zero or positive like a comparator; NaN when not comparable
+ */
+const compareProperty = (value: unknown, operand: string): number => {
+  const numericValue = toNumber(value);
+  const numericOperand = toNumber(operand);
+  if (numericValue !== null && numericOperand !== null) {
+    return numericValue - numericOperand;
+  }
+  return compareDates(value, operand);
+};
+
+/**
+ * Compare a property value with an operand as dates (internal)
+ *
+ * Uses parseDateSafely so that only values with a 4-digit year are
+ * treated as dates, matching how frontmatter dates are sorted.
+ *
+ * @param {unknown} value - Frontmatter value (Date or date string)
+ * @param {string} operand - Date operand entered in the filter panel
+ * @returns {number} Difference in milliseconds; NaN when either side is not a date
+ */
+const compareDates = (value: unknown, operand: string): number => {
+  const date = value instanceof Date ? value : parseDateSafely(String(value));
+  const operandDate = parseDateSafely(operand);
+  if (!date || Number.isNaN(date.getTime()) || !operandDate) return Number.NaN;
+  return date.getTime() - operandDate.getTime();
+};
+
+/**
+ * Convert a number or numeric string to a finite number (internal)
+ *
+ * @param {unknown} value - Value to convert
+ * @returns {number | null} The number, or null if the value is not numeric
+ */
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
 };
 
 /**
  * Check if note matches date range filtering criteria (internal)
  *
- * Supports two types of date filtering:
+ * Supports three types of date filtering:
  * - "within": Note was modified within X days from the filter date
  * - "after": Note was modified after the filter date
+ * - "on": Note is dated on the same local calendar day as the filter date
  *
  * @param {NoteData} note - The note to check
  * @param {FilterState["dateRange"]} dateRange - Date range filter configuration or null
@@ -158,17 +482,19 @@ const matchesDateRangeCriteria = (
   note: NoteData,
   dateRange: FilterState["dateRange"],
   now: Date,
-  sortKey: string = "updated"
+  sortKey: string | string[] = "updated"
 ): boolean => {
   // No date filter means include all notes
   if (!dateRange) return true;
 
-  // Get date based on sortKey setting, fallback to lastModified
-  const noteDate = getNoteDateBySortKey(note, sortKey);
   const filterDate = normalizeDateInput(dateRange.value);
   // If the provided date value cannot be parsed, treat as no-op filter (graceful fallback)
   if (!filterDate) return true;
 
+  // Get date based on the sort key chain; notes without any date cannot be in range
+  const noteDate = getNoteDateBySortKey(note, sortKey);
+  if (!noteDate) return false;
+
   if (dateRange.type === "within") {
     // Check if note was modified within the specified time range
     // Calculate how many days ago the note was last modified
@@ -185,6 +511,10 @@ const matchesDateRangeCriteria = (
     return noteDate >= filterDate;
   }
 
+  if (dateRange.type === "on") {
+    return toDayKey(noteDate) === toDayKey(filterDate);
+  }
+
   return true;
 };
 
@@ -203,25 +533,19 @@ const calculateDaysDifference = (fromDate: Date, toDate: Date): number => {
 };
 
 /**
- * Gets the appropriate date from a note based on the sort key setting
+ * Gets the appropriate date from a note based on the sort key chain
+ *
+ * Exported so that the calendar and timeline place notes on the dates they are filtered by.
+ *
  * @param {NoteData} note - Note to extract date from
- * @param {string} sortKey - Frontmatter field name to look for date
- * @returns {Date} The date value from the specified field or note.lastModified as fallback
- */
-const getNoteDateBySortKey = (note: NoteData, sortKey: string): Date => {
-  // Try to get date from the specified frontmatter field
-  const frontmatterValue = note.frontmatter?.[sortKey];
-
-  // Parse the frontmatter date value (similar to parseUpdatedDate logic)
-  if (frontmatterValue) {
-    const parsed = new Date(frontmatterValue);
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed;
-    }
-  }
-
-  // Fallback to file system modification time
-  return note.lastModified;
+ * @param {string | string[]} sortKey - Frontmatter field name to look for date, or the
+ *   sort key followed by its fallback keys
+ * @returns {Date | null} The date from the first key holding one; a single key falls back to
+ *   note.lastModified, a chain returns null when no key holds a date
+ */
+export const getNoteDateBySortKey = (note: NoteData, sortKey: string | string[]): Date | null => {
+  const dateKeys = Array.isArray(sortKey) ? sortKey : [sortKey, MTIME_SORT_KEY];
+  return getNoteDateByKeys(note, dateKeys);
 };
 
 /**
@@ -1,2 +1,3 @@
 export * from "./filterLogic";
+export * from "./searchQuery";
 export * from "./tagUtils";
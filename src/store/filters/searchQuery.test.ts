@@ -0,0 +1,278 @@
+import { describe, expect, it } from "vitest";
+import type { FilterState, PropertyFilter } from "../../types";
+import {
+  getSearchQueryChanges,
+  parseSearchQuery,
+  parseTitleExclusions,
+  type SearchQueryFilters,
+  serializeSearchQuery,
+  serializeTitleExclusions,
+} from "./searchQuery";
+
+const NOW = new Date("2024-01-10T12:00:00Z");
+
+const createQueryFilters = (overrides: Partial<SearchQueryFilters> = {}): SearchQueryFilters => ({
+  filename: [],
+  filenamePhrases: [],
+  excludeFilename: [],
+  tags: [],
+  excludeTags: [],
+  folders: [],
+  excludeFolders: [],
+  properties: [],
+  dateRange: null,
+  ...overrides,
+});
+
+const createFilterState = (overrides: Partial<FilterState> = {}): FilterState => ({
+  ...createQueryFilters(),
+  content: "",
+  folderMatchMode: "any",
+  tagMatchMode: "any",
+  ...overrides,
+});
+
+const property = (
+  key: string,
+  operator: PropertyFilter["operator"],
+  value = "",
+  valueTo = ""
+): PropertyFilter => ({ key, operator, value, valueTo });
+
+describe("searchQuery", () => {
+  describe("parseSearchQuery", () => {
+    it("should parse the full example query", () => {
+      const { filters, errors } = parseSearchQuery(
+        'tag:project/alpha -folder:Archive status:active updated:>2024-01-01 "exact phrase"',
+        NOW
+      );
+
+      expect(errors).toEqual([]);
+      expect(filters).toEqual(
+        createQueryFilters({
+          filenamePhrases: ["exact phrase"],
+          tags: ["project/alpha"],
+          excludeFolders: ["Archive"],
+          properties: [property("status", "equals", "active")],
+          dateRange: { type: "after", value: new Date("2024-01-01") },
+        })
+      );
+    });
+
+    it("should keep plain text as a filename search", () => {
+      expect(parseSearchQuery("meeting notes", NOW).filters).toEqual(
+        createQueryFilters({ filename: ["meeting", "notes"] })
+      );
+    });
+
+    it("should keep title words, phrases and exclusions as separate entries", () => {
+      expect(
+        parseSearchQuery('weekly "team sync" -foo -bar -"old copy" weekly', NOW).filters
+      ).toEqual(
+        createQueryFilters({
+          filename: ["weekly"],
+          filenamePhrases: ["team sync"],
+          excludeFilename: ["foo", "bar", "old copy"],
+        })
+      );
+    });
+
+    const termTestCases: [string, Partial<SearchQueryFilters>][] = [
+      ["-draft", { excludeFilename: ["draft"] }],
+      ['-"old copy"', { excludeFilename: ["old copy"] }],
+      ["tag:#work -tag:draft", { tags: ["work"], excludeTags: ["draft"] }],
+      ['folder:"My Notes/" folder:/', { folders: ["My Notes", ""] }],
+      ["TAG:work tag:work", { tags: ["work"] }],
+      ["status:*", { properties: [property("status", "exists")] }],
+      ["-status:*", { properties: [property("status", "missing")] }],
+      ["title:~plan", { properties: [property("title", "contains", "plan")] }],
+      ["priority:>3", { properties: [property("priority", "gt", "3")] }],
+      ["priority:<3", { properties: [property("priority", "lt", "3")] }],
+      ["due:<2024-03-01", { properties: [property("due", "before", "2024-03-01")] }],
+      ["due:>2024-03-01", { properties: [property("due", "after", "2024-03-01")] }],
+      ["score:1.5..2.5", { properties: [property("score", "between", "1.5", "2.5")] }],
+      ['status:"in progress"', { properties: [property("status", "equals", "in progress")] }],
+      ['"a \\"quoted\\" word"', { filenamePhrases: ['a "quoted" word'] }],
+    ];
+
+    it.each(termTestCases)("should parse %s", (query, expected) => {
+      const { filters, errors } = parseSearchQuery(query, NOW);
+      expect(errors).toEqual([]);
+      expect(filters).toEqual(createQueryFilters(expected));
+    });
+
+    it("should parse updated:Nd as a within filter", () => {
+      const { filters } = parseSearchQuery("updated:7d", NOW);
+      expect(filters.dateRange?.type).toBe("within");
+      expect(serializeSearchQuery(filters, NOW)).toBe("updated:7d");
+    });
+
+    it("should round-trip updated:YYYY-MM-DD as a local day filter", () => {
+      const { filters, errors } = parseSearchQuery("updated:2024-03-05", NOW);
+      expect(errors).toEqual([]);
+      expect(filters.dateRange).toEqual({ type: "on", value: new Date(2024, 2, 5) });
+      expect(serializeSearchQuery(filters, NOW)).toBe("updated:2024-03-05");
+    });
+
+    it("should serialize a calendar day as its local day", () => {
+      const filters = parseSearchQuery("", NOW).filters;
+      filters.dateRange = { type: "on", value: new Date(2024, 2, 5, 0, 0) };
+      expect(serializeSearchQuery(filters, NOW)).toBe("updated:2024-03-05");
+    });
+
+    const errorTestCases: [string, string][] = [
+      ["tag:", "Missing tag"],
+      ['folder:"Unclosed', "Missing closing quote"],
+      ['"unclosed phrase', "Missing closing quote"],
+      ["updated:yesterday", "Expected updated:>YYYY-MM-DD, updated:YYYY-MM-DD or updated:Nd"],
+      ["updated:2024-13-45", "Expected a date"],
+      ["updated:>soon", "Expected a date"],
+      ["updated:0d", "Expected a positive number of days"],
+      ["-updated:7d", "cannot be negated"],
+      ["-status:active", "can be negated"],
+      ["status:", "Missing value"],
+      ["priority:>", "Missing value"],
+      ["score:1..", "Expected score:from..to"],
+    ];
+
+    it.each(errorTestCases)("should report %s as malformed", (query, message) => {
+      const { errors } = parseSearchQuery(query, NOW);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain(message);
+    });
+
+    it("should report error positions and still apply valid terms", () => {
+      const query = "tag:work status: meeting";
+      const { filters, errors } = parseSearchQuery(query, NOW);
+
+      expect(errors).toEqual([{ start: 9, end: 16, message: 'Missing value after "status:"' }]);
+      expect(query.slice(errors[0].start, errors[0].end)).toBe("status:");
+      expect(filters).toEqual(createQueryFilters({ tags: ["work"], filename: ["meeting"] }));
+    });
+  });
+
+  describe("serializeSearchQuery", () => {
+    it("should return an empty query for empty filters", () => {
+      expect(serializeSearchQuery(createQueryFilters(), NOW)).toBe("");
+    });
+
+    it("should serialize every field", () => {
+      const query = serializeSearchQuery(
+        createQueryFilters({
+          filename: ["weekly", "review"],
+          filenamePhrases: ["team sync"],
+          excludeFilename: ["draft", "old copy"],
+          tags: ["project/alpha"],
+          excludeTags: ["old"],
+          folders: ["My Notes", ""],
+          excludeFolders: ["Archive"],
+          dateRange: { type: "after", value: "2024-01-01" },
+          properties: [
+            property("status", "equals", "in progress"),
+            property("due", "before", "2024-03-01"),
+            property("score", "between", "1", "5"),
+            property("reviewed", "missing"),
+          ],
+        }),
+        NOW
+      );
+
+      expect(query).toBe(
+        'weekly review "team sync" -draft -"old copy" tag:project/alpha -tag:old folder:"My Notes" folder:/ ' +
+          '-folder:Archive updated:>2024-01-01 status:"in progress" due:<2024-03-01 ' +
+          "score:1..5 -reviewed:*"
+      );
+    });
+
+    it("should leave out incomplete property conditions", () => {
+      const query = serializeSearchQuery(
+        createQueryFilters({ properties: [property("status", "equals"), property("", "exists")] }),
+        NOW
+      );
+      expect(query).toBe("");
+    });
+
+    it("should quote title text that would be read as query syntax", () => {
+      expect(serializeSearchQuery(createQueryFilters({ filename: ["a:b"] }), NOW)).toBe('"a:b"');
+      expect(serializeSearchQuery(createQueryFilters({ filename: ["-x"] }), NOW)).toBe('"-x"');
+      expect(serializeSearchQuery(createQueryFilters({ excludeFilename: ["a b"] }), NOW)).toBe(
+        '-"a b"'
+      );
+    });
+
+    it.each<[string, string]>([
+      ["-foo -bar", "-foo -bar"],
+      ['-foo -"old copy" -bar', '-foo -"old copy" -bar'],
+      ['weekly "team sync" review -draft', 'weekly review "team sync" -draft'],
+    ])("should round-trip the title terms of %s", (query, expected) => {
+      const { filters } = parseSearchQuery(query, NOW);
+      expect(serializeSearchQuery(filters, NOW)).toBe(expected);
+      expect(parseSearchQuery(expected, NOW).filters).toEqual(filters);
+    });
+
+    const roundTripCases: SearchQueryFilters[] = [
+      createQueryFilters({ filenamePhrases: ['say "hi"'], excludeFilename: ["tag:x", "-x"] }),
+      createQueryFilters({ filename: ["a", ":b"], excludeFilename: ["foo", "bar"] }),
+      createQueryFilters({ tags: ["a b"], folders: [""], excludeFolders: ["Archive/2023"] }),
+      createQueryFilters({
+        properties: [property("n", "gt", "3"), property("due", "after", "2024-01-01")],
+      }),
+    ];
+
+    it.each(roundTripCases)("should round-trip %o", (filters) => {
+      const { filters: parsed, errors } = parseSearchQuery(serializeSearchQuery(filters, NOW), NOW);
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual(filters);
+    });
+  });
+
+  describe("parseTitleExclusions", () => {
+    it("should turn words and quoted phrases into separate exclusions", () => {
+      expect(parseTitleExclusions('foo  "old copy" bar foo')).toEqual(["foo", "old copy", "bar"]);
+    });
+
+    it("should keep an unclosed phrase while it is being typed", () => {
+      expect(parseTitleExclusions('foo "old co')).toEqual(["foo", "old co"]);
+    });
+
+    it("should round-trip through serializeTitleExclusions", () => {
+      const exclusions = ["foo", "old copy", "a:b", '"x"'];
+      expect(serializeTitleExclusions(exclusions)).toBe('foo "old copy" "a:b" "\\"x\\""');
+      expect(parseTitleExclusions(serializeTitleExclusions(exclusions))).toEqual(exclusions);
+    });
+  });
+
+  describe("getSearchQueryChanges", () => {
+    it("should return only fields that differ", () => {
+      const current = createFilterState({ tags: ["work"], filename: ["old"] });
+      const parsed = parseSearchQuery("tag:work new", NOW).filters;
+
+      expect(getSearchQueryChanges(current, parsed, NOW)).toEqual({ filename: ["new"] });
+    });
+
+    it("should treat equivalent within date ranges as unchanged", () => {
+      const current = createFilterState({
+        dateRange: { type: "within", value: new Date("2024-01-03T09:00:00Z") },
+      });
+      const parsed = parseSearchQuery("updated:7d", NOW).filters;
+
+      expect(getSearchQueryChanges(current, parsed, NOW)).toEqual({});
+    });
+
+    it("should keep incomplete property rows while the query is unchanged", () => {
+      const current = createFilterState({
+        properties: [property("status", "exists"), property("due", "before")],
+      });
+      const parsed = parseSearchQuery("status:*", NOW).filters;
+
+      expect(getSearchQueryChanges(current, parsed, NOW)).toEqual({});
+    });
+
+    it("should leave match modes alone", () => {
+      const current = createFilterState({ tags: ["a", "b"], tagMatchMode: "all" });
+      const changes = getSearchQueryChanges(current, parseSearchQuery("tag:a", NOW).filters, NOW);
+
+      expect(changes).toEqual({ tags: ["a"] });
+    });
+  });
+});
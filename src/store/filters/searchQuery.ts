@@ -0,0 +1,518 @@
+/**
+ * Pure Functions - Search Query Language
+ *
+ * Parses the text of the search box into structured filter fields and
+ * serializes filter fields back into query text, so the search box and the
+ * filter panel controls always describe the same filters.
+ *
+ * Syntax (terms are separated by spaces and combined with AND):
+ * - `word`: Title matches the word fuzzily; `"exact phrase"`: Title contains the exact text
+ * - `-word`, `-"phrase"`: Title does not contain the text (each one hides notes on its own)
+ * - `tag:project/alpha`, `-tag:draft`: Include/exclude tag (hierarchical, "#" optional)
+ * - `folder:Projects`, `-folder:Archive`, `folder:/`: Include/exclude folder ("/" is the root)
+ * - `updated:>2024-01-01`: Date filter "after"; `updated:2024-01-01`: Date filter "on";
+ *   `updated:7d`: Date filter "within 7 days"
+ * - `key:value`: Property equals; `key:~text` contains; `key:*` exists; `-key:*` missing
+ * - `key:>v`, `key:<v`: Greater/less than (after/before when `v` is a date); `key:a..b` between
+ *
+ * Values containing spaces are quoted: `folder:"My Notes"`. Malformed terms are
+ * reported as errors with their position and otherwise ignored.
+ */
+
+import { parseDateFilter, parseDateSafely, toDayKey } from "../../lib/dateUtils";
+import type { FilterState, PropertyFilter } from "../../types";
+import { MILLISECONDS_PER_DAY } from "../constants";
+import { isPropertyFilterActive } from "./filterLogic";
+
+/**
+ * Filter fields described by the search query
+ *
+ * Fields not listed here (e.g. match modes) are only edited through the filter panel.
+ */
+export type SearchQueryFilters = Pick<
+  FilterState,
+  | "filename"
+  | "filenamePhrases"
+  | "excludeFilename"
+  | "tags"
+  | "excludeTags"
+  | "folders"
+  | "excludeFolders"
+  | "properties"
+  | "dateRange"
+>;
+
+/**
+ * Malformed term found while parsing, with its position in the query text
+ */
+export interface SearchQueryError {
+  /** Index of the first character of the term */
+  start: number;
+  /** Index after the last character of the term */
+  end: number;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of parsing a search query
+ */
+export interface ParsedSearchQuery {
+  /** Filter fields built from the well-formed terms */
+  filters: SearchQueryFilters;
+  /** Malformed terms, in query order */
+  errors: SearchQueryError[];
+}
+
+/**
+ * Raw term split from the query text (internal)
+ */
+interface QueryTerm {
+  /** Term text including a leading "-" */
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Reserved keys handled by dedicated filter fields (internal) */
+const TAG_KEY = "tag";
+const FOLDER_KEY = "folder";
+const UPDATED_KEY = "updated";
+
+/**
+ * Parse search box text into filter fields
+ *
+ * @param {string} query - Text typed into the search box
+ * @param {Date} now - Current date, used for "within N days" date filters
+ * @returns {ParsedSearchQuery} Parsed filter fields and malformed terms
+ */
+export const parseSearchQuery = (query: string, now: Date = new Date()): ParsedSearchQuery => {
+  const filters: SearchQueryFilters = {
+    filename: [],
+    filenamePhrases: [],
+    excludeFilename: [],
+    tags: [],
+    excludeTags: [],
+    folders: [],
+    excludeFolders: [],
+    properties: [],
+    dateRange: null,
+  };
+  const errors: SearchQueryError[] = [];
+
+  for (const term of splitQueryTerms(query)) {
+    const error = applyQueryTerm(term.text, filters, now);
+    if (error) {
+      errors.push({ start: term.start, end: term.end, message: error });
+    }
+  }
+
+  return { filters, errors };
+};
+
+/**
+ * Serialize filter fields into search box text
+ *
+ * parseSearchQuery(serializeSearchQuery(filters)) yields equivalent filters.
+ *
+ * @param {SearchQueryFilters} filters - Filter fields to describe
+ * @param {Date} now - Current date, used to express "within" date filters in days
+ * @returns {string} Query text
+ */
+export const serializeSearchQuery = (
+  filters: SearchQueryFilters,
+  now: Date = new Date()
+): string => {
+  const terms: string[] = [];
+
+  for (const word of filters.filename) terms.push(serializeTitleText(word));
+  for (const phrase of filters.filenamePhrases) terms.push(quote(phrase));
+  for (const text of filters.excludeFilename) terms.push(`-${serializeTitleText(text, true)}`);
+  for (const tag of filters.tags) terms.push(`${TAG_KEY}:${quoteValue(tag)}`);
+  for (const tag of filters.excludeTags) terms.push(`-${TAG_KEY}:${quoteValue(tag)}`);
+  for (const folder of filters.folders) terms.push(`${FOLDER_KEY}:${serializeFolder(folder)}`);
+  for (const folder of filters.excludeFolders) {
+    terms.push(`-${FOLDER_KEY}:${serializeFolder(folder)}`);
+  }
+
+  const dateRange = serializeDateRange(filters.dateRange, now);
+  if (dateRange) terms.push(`${UPDATED_KEY}:${dateRange}`);
+
+  const properties = serializePropertyFilters(filters.properties);
+  if (properties) terms.push(properties);
+
+  return terms.join(" ");
+};
+
+/**
+ * Compute the filter changes needed to make the filters match a parsed query
+ *
+ * Only fields that differ are returned, so unrelated fields keep their
+ * identity and an unchanged query causes no store update. Date ranges are
+ * compared by their query text because "within" dates are recomputed from
+ * the current time on every parse.
+ *
+ * @param {FilterState} current - Current filter state
+ * @param {SearchQueryFilters} parsed - Filter fields from parseSearchQuery
+ * @param {Date} now - Current date
+ * @returns {Partial<FilterState>} Changed fields (empty when nothing changed)
+ */
+export const getSearchQueryChanges = (
+  current: FilterState,
+  parsed: SearchQueryFilters,
+  now: Date = new Date()
+): Partial<FilterState> => {
+  const changes: Partial<FilterState> = {};
+
+  const listKeys = [
+    "filename",
+    "filenamePhrases",
+    "excludeFilename",
+    "tags",
+    "excludeTags",
+    "folders",
+    "excludeFolders",
+  ] as const;
+  for (const key of listKeys) {
+    if (!isSameList(current[key], parsed[key])) changes[key] = parsed[key];
+  }
+  if (serializeDateRange(current.dateRange, now) !== serializeDateRange(parsed.dateRange, now)) {
+    changes.dateRange = parsed.dateRange;
+  }
+  if (
+    serializePropertyFilters(current.properties) !== serializePropertyFilters(parsed.properties)
+  ) {
+    changes.properties = parsed.properties;
+  }
+
+  return changes;
+};
+
+/**
+ * Parse the text of the filename exclusion input into exclusions
+ *
+ * Words and quoted phrases each become one exclusion, like `-word` and
+ * `-"phrase"` terms of the search query. An unclosed quote runs to the end.
+ *
+ * @param {string} text - Text typed into the exclusion input
+ * @returns {string[]} Exclusions without duplicates, in input order
+ */
+export const parseTitleExclusions = (text: string): string[] => {
+  const exclusions: string[] = [];
+  for (const term of splitQueryTerms(text)) {
+    const value = unquote(term.text) ?? term.text.slice(1);
+    if (value.trim() && !exclusions.includes(value)) exclusions.push(value);
+  }
+  return exclusions;
+};
+
+/**
+ * Serialize filename exclusions into the text of the exclusion input
+ *
+ * parseTitleExclusions(serializeTitleExclusions(exclusions)) yields the same list.
+ *
+ * @param {string[]} exclusions - Filename exclusions
+ * @returns {string} Input text
+ */
+export const serializeTitleExclusions = (exclusions: string[]): string =>
+  exclusions.map((text) => serializeTitleText(text, true)).join(" ");
+
+/**
+ * Split query text into terms, keeping quoted values together (internal)
+ *
+ * @param {string} query - Query text
+ * @returns {QueryTerm[]} Terms with their positions
+ */
+const splitQueryTerms = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuotes = false;
+    while (index < query.length && (inQuotes || !/\s/.test(query[index]))) {
+      if (query[index] === "\\" && inQuotes) {
+        index += 2;
+        continue;
+      }
+      if (query[index] === '"') inQuotes = !inQuotes;
+      index++;
+    }
+    const end = Math.min(index, query.length);
+    terms.push({ text: query.slice(start, end), start, end });
+  }
+
+  return terms;
+};
+
+/**
+ * Apply one term to the filter fields being built (internal)
+ *
+ * @returns {string | null} Error message for a malformed term, or null
+ */
+const applyQueryTerm = (term: string, filters: SearchQueryFilters, now: Date): string | null => {
+  const negated = term.length > 1 && term.startsWith("-");
+  const body = negated ? term.slice(1) : term;
+
+  const keyMatch = /^([^":\s]+):([\s\S]*)$/.exec(body);
+  if (!keyMatch) {
+    const text = unquote(body);
+    if (text === null) return "Missing closing quote";
+    if (!text.trim()) return null;
+    const list = negated
+      ? filters.excludeFilename
+      : body.startsWith('"')
+        ? filters.filenamePhrases
+        : filters.filename;
+    if (!list.includes(text)) list.push(text);
+    return null;
+  }
+
+  const key = keyMatch[1];
+  const rawValue = keyMatch[2];
+  switch (key.toLowerCase()) {
+    case TAG_KEY:
+      return applyListTerm(rawValue, negated ? filters.excludeTags : filters.tags, "tag", (v) =>
+        v.replace(/^#/, "")
+      );
+    case FOLDER_KEY:
+      return applyListTerm(
+        rawValue,
+        negated ? filters.excludeFolders : filters.folders,
+        "folder",
+        parseFolder
+      );
+    case UPDATED_KEY:
+      return negated ? "updated: cannot be negated" : applyDateTerm(rawValue, filters, now);
+    default:
+      return applyPropertyTerm(key, rawValue, negated, filters.properties);
+  }
+};
+
+/**
+ * Add the value of a tag: or folder: term to a list (internal)
+ */
+const applyListTerm = (
+  rawValue: string,
+  list: string[],
+  name: string,
+  normalize: (value: string) => string
+): string | null => {
+  const value = unquote(rawValue);
+  if (value === null) return "Missing closing quote";
+  if (!value.trim()) return `Missing ${name} after "${name}:"`;
+
+  const normalized = normalize(value.trim());
+  if (!list.includes(normalized)) list.push(normalized);
+  return null;
+};
+
+/**
+ * Apply an updated: term to the date range filter (internal)
+ */
+const applyDateTerm = (rawValue: string, filters: SearchQueryFilters, now: Date): string | null => {
+  const withinMatch = /^(\d+)d$/i.exec(rawValue);
+  if (withinMatch) {
+    const value = parseDateFilter("within", withinMatch[1], now);
+    if (!value) return "Expected a positive number of days, e.g. updated:7d";
+    filters.dateRange = { type: "within", value };
+    return null;
+  }
+
+  if (rawValue.startsWith(">")) {
+    const value = parseDateSafely(rawValue.slice(1));
+    if (!value) return "Expected a date, e.g. updated:>2024-01-01";
+    filters.dateRange = { type: "after", value };
+    return null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(rawValue)) {
+    // Read as a local day, like a day picked on the calendar
+    const value = parseDateFilter("on", rawValue, now);
+    // Impossible days (e.g. 2024-13-45) would otherwise roll over into later months
+    if (!value || toDayKey(value) !== rawValue) return "Expected a date, e.g. updated:2024-01-01";
+    filters.dateRange = { type: "on", value };
+    return null;
+  }
+
+  return "Expected updated:>YYYY-MM-DD, updated:YYYY-MM-DD or updated:Nd";
+};
+
+/**
+ * Add a frontmatter property condition for a key:value term (internal)
+ */
+const applyPropertyTerm = (
+  key: string,
+  rawValue: string,
+  negated: boolean,
+  properties: PropertyFilter[]
+): string | null => {
+  const condition = (
+    operator: PropertyFilter["operator"],
+    value = "",
+    valueTo = ""
+  ): PropertyFilter => ({ key, operator, value, valueTo });
+
+  if (rawValue === "*") {
+    properties.push(condition(negated ? "missing" : "exists"));
+    return null;
+  }
+  if (negated) return `Only -${key}:* (property is missing) can be negated`;
+
+  const prefix = rawValue[0];
+  if (prefix === ">" || prefix === "<" || prefix === "~") {
+    const value = unquote(rawValue.slice(1));
+    if (value === null) return "Missing closing quote";
+    if (!value.trim()) return `Missing value after "${key}:${prefix}"`;
+    if (prefix === "~") {
+      properties.push(condition("contains", value));
+    } else if (isDateOperand(value)) {
+      properties.push(condition(prefix === ">" ? "after" : "before", value));
+    } else {
+      properties.push(condition(prefix === ">" ? "gt" : "lt", value));
+    }
+    return null;
+  }
+
+  const rangeMatch = /^([^"]*?)\.\.([^"]*)$/.exec(rawValue);
+  if (rangeMatch) {
+    if (!rangeMatch[1] || !rangeMatch[2]) return `Expected ${key}:from..to`;
+    properties.push(condition("between", rangeMatch[1], rangeMatch[2]));
+    return null;
+  }
+
+  const value = unquote(rawValue);
+  if (value === null) return "Missing closing quote";
+  if (!value.trim()) return `Missing value after "${key}:"`;
+  properties.push(condition("equals", value));
+  return null;
+};
+
+/**
+ * Serialize a property condition into a query term (internal)
+ *
+ * Incomplete conditions are left out; they are still being edited in the
+ * filter panel and do not affect filtering yet.
+ *
+ * @returns {string | null} Query term, or null for incomplete conditions
+ */
+const serializePropertyFilter = (condition: PropertyFilter): string | null => {
+  if (!isPropertyFilterActive(condition)) return null;
+  const key = condition.key.trim();
+
+  const value = quoteValue(condition.value);
+  switch (condition.operator) {
+    case "exists":
+      return `${key}:*`;
+    case "missing":
+      return `-${key}:*`;
+    case "contains":
+      return `${key}:~${value}`;
+    case "gt":
+    case "after":
+      return `${key}:>${value}`;
+    case "lt":
+    case "before":
+      return `${key}:<${value}`;
+    case "between":
+      return `${key}:${condition.value}..${condition.valueTo}`;
+    default:
+      return `${key}:${value}`;
+  }
+};
+
+/**
+ * Serialize the complete property conditions into space-separated terms (internal)
+ */
+const serializePropertyFilters = (properties: PropertyFilter[]): string =>
+  properties
+    .map(serializePropertyFilter)
+    .filter((term) => term !== null)
+    .join(" ");
+
+/**
+ * Serialize a date range into the value of an updated: term (internal)
+ *
+ * @returns {string | null} Term value, or null when there is no (valid) date range
+ */
+const serializeDateRange = (dateRange: FilterState["dateRange"], now: Date): string | null => {
+  if (!dateRange) return null;
+
+  if (dateRange.type === "within") {
+    const value: unknown = dateRange.value;
+    // "within" values are normally cutoff dates; numbers come from older data
+    const days =
+      typeof value === "number"
+        ? value
+        : Math.round(
+            (now.getTime() - new Date(value as string | Date).getTime()) / MILLISECONDS_PER_DAY
+          );
+    return Number.isFinite(days) && days > 0 ? `${days}d` : null;
+  }
+
+  const date = new Date(dateRange.value);
+  if (Number.isNaN(date.getTime())) return null;
+  // "on" days are local days, which toISOString may shift
+  return dateRange.type === "on" ? toDayKey(date) : `>${date.toISOString().slice(0, 10)}`;
+};
+
+/**
+ * Serialize a title word or exclusion as a bare term, or as a quoted phrase when
+ * it would otherwise be split, or read as a keyed or negated term (internal)
+ */
+const serializeTitleText = (text: string, negated = false): string => {
+  const needsQuotes =
+    /[\s"]/.test(text) ||
+    /^[^":\s]+:/.test(text) ||
+    text === "" ||
+    (!negated && text.length > 1 && text.startsWith("-"));
+  return needsQuotes ? quote(text) : text;
+};
+
+/**
+ * Serialize a folder path, using "/" for the vault root (internal)
+ */
+const serializeFolder = (folder: string): string => (folder === "" ? "/" : quoteValue(folder));
+
+/**
+ * Parse a folder value, treating "/" as the vault root (internal)
+ */
+const parseFolder = (value: string): string => (value === "/" ? "" : value.replace(/\/+$/, ""));
+
+/**
+ * Check whether a comparison operand is a date rather than a number (internal)
+ */
+const isDateOperand = (value: string): boolean =>
+  !Number.isFinite(Number(value)) && parseDateSafely(value) !== null;
+
+/**
+ * Quote a value when it contains characters that would split or end the term (internal)
+ */
+const quoteValue = (value: string): string => (/[\s"]/.test(value) ? quote(value) : value);
+
+/**
+ * Wrap a value in double quotes, escaping quotes and backslashes (internal)
+ */
+const quote = (value: string): string => `"${value.replace(/[\\"]/g, "\\$&")}"`;
+
+/**
+ * Remove surrounding double quotes and unescape the content (internal)
+ *
+ * @returns {string | null} Unquoted value, or null when the closing quote is missing
+ */
+const unquote = (value: string): string | null => {
+  if (!value.startsWith('"')) return value;
+  if (value.length < 2 || !value.endsWith('"') || value.endsWith('\\"')) return null;
+  return value.slice(1, -1).replace(/\\(.)/g, "$1");
+};
+
+/**
+ * Compare two string lists in order (internal)
+ */
+const isSameList = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { GroupByConfig, NoteData } from "../../types";
+import { getDateBucket, groupNotes } from "./groupLogic";
+
+const createNote = (title: string, overrides: Partial<NoteData> = {}): NoteData => ({
+  file: {} as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date("2024-01-01T00:00:00Z"),
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+  ...overrides,
+});
+
+const NOW = new Date(2024, 2, 15, 12, 0);
+
+/** Group labels with the titles of their notes */
+const summarize = (notes: NoteData[], groupBy: GroupByConfig) =>
+  groupNotes(notes, groupBy, ["updated", "mtime"], NOW).map((group) => [
+    group.label,
+    group.notes.map((note) => note.title),
+  ]);
+
+describe("groupLogic", () => {
+  describe("getDateBucket", () => {
+    it.each([
+      [new Date(2024, 2, 16, 9, 0), "upcoming"],
+      [new Date(2024, 2, 15, 0, 0), "today"],
+      [new Date(2024, 2, 14, 23, 59), "yesterday"],
+      [new Date(2024, 2, 9, 8, 0), "week"],
+      [new Date(2024, 2, 8, 8, 0), "older"],
+      [new Date("invalid"), "older"],
+    ])("should place %s in %s", (date, bucket) => {
+      expect(getDateBucket(date, NOW)).toBe(bucket);
+    });
+  });
+
+  describe("groupNotes", () => {
+    it("should return no groups when the view is not grouped", () => {
+      expect(groupNotes([createNote("A")], { mode: "none" }, [], NOW)).toEqual([]);
+    });
+
+    it("should group by folder in natural order with the vault root last", () => {
+      const notes = [
+        createNote("A", { folder: "Work 10" }),
+        createNote("B"),
+        createNote("C", { folder: "Work 2" }),
+        createNote("D", { folder: "Work 10" }),
+      ];
+
+      expect(summarize(notes, { mode: "folder" })).toEqual([
+        ["Work 2", ["C"]],
+        ["Work 10", ["A", "D"]],
+        ["Vault root", ["B"]],
+      ]);
+    });
+
+    it("should group by the top-level segment of the first tag", () => {
+      const notes = [
+        createNote("A", { tags: ["project/a", "idea"] }),
+        createNote("B", { tags: ["idea"] }),
+        createNote("C", { tags: ["project"] }),
+        createNote("D"),
+      ];
+
+      expect(summarize(notes, { mode: "tag" })).toEqual([
+        ["#idea", ["B"]],
+        ["#project", ["A", "C"]],
+        ["No tags", ["D"]],
+      ]);
+    });
+
+    it("should group by a frontmatter value, using the first item of lists", () => {
+      const notes = [
+        createNote("A", { frontmatter: { status: "open" } }),
+        createNote("B", { frontmatter: { status: ["done", "open"] } }),
+        createNote("C", { frontmatter: { status: " " } }),
+        createNote("D", { frontmatter: { status: 2 } }),
+      ];
+
+      expect(summarize(notes, { mode: "property", property: "status" })).toEqual([
+        ["2", ["D"]],
+        ["done", ["B"]],
+        ["open", ["A"]],
+        ["No status", ["C"]],
+      ]);
+    });
+
+    it("should group by the date shown on the card, newest bucket first", () => {
+      const notes = [
+        createNote("Old", { lastModified: new Date(2023, 0, 1) }),
+        createNote("Due", { frontmatter: { updated: "2024-03-20" } }),
+        createNote("Today", { lastModified: new Date(2024, 2, 15, 8, 0) }),
+        createNote("Monday", { lastModified: new Date(2024, 2, 11, 8, 0) }),
+      ];
+
+      expect(summarize(notes, { mode: "date" })).toEqual([
+        ["Upcoming", ["Due"]],
+        ["Today", ["Today"]],
+        ["This week", ["Monday"]],
+        ["Older", ["Old"]],
+      ]);
+    });
+
+    it("should list notes without a date in the chain last", () => {
+      const notes = [
+        createNote("Undated", { lastModified: new Date(2024, 2, 15, 8, 0) }),
+        createNote("Dated", { frontmatter: { updated: "2023-01-01" } }),
+      ];
+
+      expect(
+        groupNotes(notes, { mode: "date" }, ["updated"], NOW).map((group) => group.label)
+      ).toEqual(["Older", "No date"]);
+    });
+  });
+});
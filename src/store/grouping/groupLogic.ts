@@ -0,0 +1,195 @@
+/**
+ * Pure Functions - Note Grouping
+ *
+ * These functions split the filtered and sorted notes of a view into labelled
+ * groups (folder, top-level tag, frontmatter value or date bucket). Notes keep
+ * their sorted order inside each group, so pinned notes still lead their group.
+ */
+
+import { getDisplayDate } from "../../lib/dateUtils";
+import type { GroupByConfig, NoteData } from "../../types";
+import { MILLISECONDS_PER_DAY } from "../constants";
+import { compareTitles } from "../sorting";
+
+/**
+ * A group of notes shown under one header
+ */
+export interface NoteGroup {
+  /** Identifier of the group, stable across reloads (used to remember collapsed groups) */
+  key: string;
+  /** Text shown in the group header */
+  label: string;
+  /** Notes of the group, in the order of the sorted notes */
+  notes: NoteData[];
+}
+
+/**
+ * Date buckets in display order, newest first, with undated notes last
+ */
+const DATE_BUCKETS = [
+  { key: "upcoming", label: "Upcoming" },
+  { key: "today", label: "Today" },
+  { key: "yesterday", label: "Yesterday" },
+  { key: "week", label: "This week" },
+  { key: "older", label: "Older" },
+  { key: "undated", label: "No date" },
+] as const;
+
+/** Key of the group holding notes without a value (listed last) */
+const NO_VALUE_KEY = "";
+
+/**
+ * Number of calendar days from a date to the reference date (internal)
+ *
+ * Negative for dates after the reference day; NaN for invalid dates.
+ */
+const daysBefore = (date: Date, now: Date): number => {
+  const startOfDay = (value: Date) =>
+    new Date(value.getFullYear(), value.getMonth(), value.getDate()).getTime();
+  // Rounded because days around daylight saving changes are not exactly 24 hours
+  return Math.round((startOfDay(now) - startOfDay(date)) / MILLISECONDS_PER_DAY);
+};
+
+/**
+ * Find the date bucket of a date
+ *
+ * Days are local calendar days; "This week" covers the 7 days up to today.
+ * Invalid dates are treated as old.
+ *
+ * @param {Date} date - Date shown on the card
+ * @param {Date} now - Reference time
+ * @returns {string} Key of the bucket in DATE_BUCKETS
+ */
+export const getDateBucket = (date: Date, now: Date): string => {
+  const days = daysBefore(date, now);
+  if (days < 0) return "upcoming";
+  if (days === 0) return "today";
+  if (days === 1) return "yesterday";
+  if (days < 7) return "week";
+  return "older";
+};
+
+/**
+ * Text form of a frontmatter value, or null when it is missing or blank (internal)
+ *
+ * Lists are grouped by their first item.
+ */
+const toGroupValue = (value: unknown): string | null => {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === null || first === undefined) return null;
+  const text = first instanceof Date ? first.toISOString().slice(0, 10) : String(first).trim();
+  return text === "" ? null : text;
+};
+
+/**
+ * Value of a frontmatter property a note is grouped by
+ *
+ * Exported so that board columns follow the same values as property groups.
+ *
+ * @param {NoteData} note - Note to read
+ * @param {string} property - Frontmatter property
+ * @returns {string | null} Text of the value (first item of lists), or null when missing or blank
+ */
+export const getPropertyGroupValue = (note: NoteData, property: string): string | null =>
+  toGroupValue(note.frontmatter?.[property]);
+
+/**
+ * Find the group key and label of a note for a non-date grouping (internal)
+ */
+const getValueGroup = (
+  note: NoteData,
+  groupBy: GroupByConfig
+): { key: string; label: string } | null => {
+  switch (groupBy.mode) {
+    case "folder":
+      return note.folder ? { key: note.folder, label: note.folder } : null;
+    case "tag": {
+      const [tag] = note.tags;
+      if (!tag) return null;
+      const topLevel = tag.split("/")[0];
+      return { key: topLevel, label: `#${topLevel}` };
+    }
+    case "property": {
+      const value = groupBy.property ? getPropertyGroupValue(note, groupBy.property) : null;
+      return value === null ? null : { key: value, label: value };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Header label of the group of notes without a value (internal)
+ */
+const getNoValueLabel = (groupBy: GroupByConfig): string => {
+  switch (groupBy.mode) {
+    case "folder":
+      return "Vault root";
+    case "tag":
+      return "No tags";
+    default:
+      return groupBy.property ? `No ${groupBy.property}` : "No value";
+  }
+};
+
+/**
+ * Split sorted notes into groups
+ *
+ * Folder, tag and property groups are ordered by label in natural order, with
+ * notes lacking a value last; date buckets are ordered newest first. Empty
+ * groups are left out.
+ *
+ * @param {NoteData[]} notes - Filtered and sorted notes of the view
+ * @param {GroupByConfig} groupBy - What to group by
+ * @param {string[]} dateKeys - Keys resolving the date shown on cards (the sort key chain)
+ * @param {Date} now - Reference time for date buckets
+ * @returns {NoteGroup[]} Groups in display order; empty when the view is not grouped
+ */
+export const groupNotes = (
+  notes: NoteData[],
+  groupBy: GroupByConfig,
+  dateKeys: string[],
+  now: Date
+): NoteGroup[] => {
+  if (groupBy.mode === "none") return [];
+
+  if (groupBy.mode === "date") {
+    const buckets = new Map<string, NoteData[]>();
+    for (const note of notes) {
+      const date = getDisplayDate(note, dateKeys);
+      const key = date ? getDateBucket(date, now) : "undated";
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(note);
+      } else {
+        buckets.set(key, [note]);
+      }
+    }
+    return DATE_BUCKETS.filter(({ key }) => buckets.has(key)).map(({ key, label }) => ({
+      key,
+      label,
+      notes: buckets.get(key) ?? [],
+    }));
+  }
+
+  const groups = new Map<string, NoteGroup>();
+  for (const note of notes) {
+    const { key, label } = getValueGroup(note, groupBy) ?? {
+      key: NO_VALUE_KEY,
+      label: getNoValueLabel(groupBy),
+    };
+    const group = groups.get(key);
+    if (group) {
+      group.notes.push(note);
+    } else {
+      groups.set(key, { key, label, notes: [note] });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (a.key === NO_VALUE_KEY || b.key === NO_VALUE_KEY) {
+      return Number(a.key === NO_VALUE_KEY) - Number(b.key === NO_VALUE_KEY);
+    }
+    return compareTitles(a.label, b.label);
+  });
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { NoteData } from "../../types";
+import { getMasonryItemsInView, layoutMasonry } from "./masonryLogic";
+
+const createNote = (title: string): NoteData => ({
+  file: {} as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 1),
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+describe("masonryLogic", () => {
+  const heights: Record<string, number> = { A: 100, B: 300, C: 50, D: 80, E: 40 };
+  const notes = Object.keys(heights).map(createNote);
+  const getHeight = (note: NoteData) => heights[note.title];
+
+  describe("layoutMasonry", () => {
+    it("places each card in the shortest column, leftmost on ties", () => {
+      const { items, height } = layoutMasonry(notes, 2, getHeight, 10);
+
+      expect(items.map(({ note, column, top }) => [note.title, column, top])).toEqual([
+        ["A", 0, 0],
+        ["B", 1, 0],
+        ["C", 0, 110],
+        ["D", 0, 170],
+        ["E", 0, 260],
+      ]);
+      // Column 0 ends at 260 + 40, column 1 at 300
+      expect(height).toBe(300);
+    });
+
+    it("uses a single column for invalid column counts", () => {
+      const { items, height } = layoutMasonry(notes.slice(0, 2), 0, getHeight, 10);
+
+      expect(items.map((item) => item.column)).toEqual([0, 0]);
+      expect(height).toBe(410);
+    });
+
+    it("has no height without notes", () => {
+      expect(layoutMasonry([], 3, getHeight, 10)).toEqual({ items: [], height: 0 });
+    });
+  });
+
+  describe("getMasonryItemsInView", () => {
+    it("finds the cards overlapping the span, in note order", () => {
+      const { items } = layoutMasonry(notes, 2, getHeight, 10);
+
+      expect(getMasonryItemsInView(items, 120, 200)).toEqual([1, 2, 3]);
+      expect(getMasonryItemsInView(items, 310, 400)).toEqual([]);
+    });
+  });
+});
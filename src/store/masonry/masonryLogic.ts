@@ -0,0 +1,87 @@
+/**
+ * Pure Functions - Masonry Layout
+ *
+ * These functions pack cards of different heights into columns for the masonry
+ * layout and find the cards inside the scrolled viewport, so that only those are
+ * rendered. Cards are placed in the order of the sorted notes, each one in the
+ * column that is currently the shortest.
+ */
+
+import type { NoteData } from "../../types";
+
+/**
+ * Position of a card in the masonry layout
+ */
+export interface MasonryItem {
+  /** Note shown by the card */
+  note: NoteData;
+  /** Index of the column holding the card */
+  column: number;
+  /** Offset in pixels of the card from the top of the layout */
+  top: number;
+  /** Height in pixels of the card, measured or estimated */
+  height: number;
+}
+
+/**
+ * Cards of the masonry layout with the height of the tallest column
+ */
+export interface MasonryLayout {
+  /** Cards in the order of the notes */
+  items: MasonryItem[];
+  /** Height in pixels of the tallest column */
+  height: number;
+}
+
+/**
+ * Pack cards into columns
+ *
+ * Each card goes to the shortest column so far (the leftmost one on ties), so the
+ * sort order reads left to right, top to bottom, like the card grid.
+ *
+ * @param {NoteData[]} notes - Notes in display order
+ * @param {number} columnCount - Number of columns; at least one is used
+ * @param {(note: NoteData) => number} getHeight - Measured or estimated card height
+ * @param {number} gap - Space between cards of a column
+ * @returns {MasonryLayout} Positions of the cards and the layout height
+ */
+export const layoutMasonry = (
+  notes: NoteData[],
+  columnCount: number,
+  getHeight: (note: NoteData) => number,
+  gap: number
+): MasonryLayout => {
+  const columnHeights = new Array<number>(Math.max(1, Math.floor(columnCount))).fill(0);
+  const items = notes.map((note) => {
+    const column = columnHeights.indexOf(Math.min(...columnHeights));
+    const top = columnHeights[column];
+    const height = getHeight(note);
+    columnHeights[column] = top + height + gap;
+    return { note, column, top, height };
+  });
+  // The last card of a column is not followed by a gap
+  const height = Math.max(0, ...columnHeights.map((columnHeight) => columnHeight - gap));
+  return { items, height: items.length > 0 ? height : 0 };
+};
+
+/**
+ * Find the cards overlapping a vertical span of the layout
+ *
+ * @param {MasonryItem[]} items - Cards of the layout
+ * @param {number} top - Top of the span in pixels
+ * @param {number} bottom - Bottom of the span in pixels
+ * @returns {number[]} Indexes of the overlapping cards, in note order
+ */
+export const getMasonryItemsInView = (
+  items: MasonryItem[],
+  top: number,
+  bottom: number
+): number[] => {
+  const indexes: number[] = [];
+  items.forEach((item, index) => {
+    if (item.top < bottom && item.top + item.height > top) {
+      indexes.push(index);
+    }
+  });
+  return indexes;
+};
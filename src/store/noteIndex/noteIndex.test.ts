@@ -0,0 +1,275 @@
+import { describe, expect, it } from "vitest";
+import type { FilterState, NoteData } from "../../types";
+import { applyFilters } from "../filters";
+import { buildContentIndex, createRelevanceScorer } from "../search";
+import { sortNotes } from "../sorting";
+import {
+  applyDeltasToFilteredNotes,
+  applyDeltasToIndex,
+  buildFilterOptionCounts,
+  getAvailableOptionsFromCounts,
+  type NoteIndexContext,
+  type NoteIndexData,
+} from "./noteIndex";
+
+const createNote = (
+  title: string,
+  path: string,
+  folder = "",
+  tags: string[] = [],
+  lastModified = new Date("2024-01-01T00:00:00Z")
+): NoteData => ({
+  file: {} as any,
+  title,
+  path,
+  preview: "",
+  wordCount: 0,
+  lastModified,
+  frontmatter: null,
+  tags,
+  folder,
+  backlinkCount: 0,
+});
+
+const NO_FILTERS: FilterState = {
+  folders: [],
+  folderMatchMode: "any",
+  tags: [],
+  tagMatchMode: "any",
+  filename: [],
+  filenamePhrases: [],
+  content: "",
+  excludeFolders: [],
+  excludeTags: [],
+  excludeFilename: [],
+  properties: [],
+  dateRange: null,
+};
+
+const createContext = (overrides: Partial<NoteIndexContext> = {}): NoteIndexContext => ({
+  filters: NO_FILTERS,
+  sortConfig: { key: "mtime", order: "desc" },
+  pinnedNotes: new Set(),
+  now: new Date("2024-02-01T00:00:00Z"),
+  contentIndex: buildContentIndex(new Map()),
+  sortByRelevance: false,
+  manualOrder: [],
+  ...overrides,
+});
+
+/** Builds index data the same way a full reload would */
+const createIndex = (notes: NoteData[]): NoteIndexData => {
+  const optionCounts = buildFilterOptionCounts(notes);
+  return { notes, optionCounts, ...getAvailableOptionsFromCounts(optionCounts) };
+};
+
+/** Builds a view's filtered list the same way a full recompute would */
+const createFilteredNotes = (notes: NoteData[], context: NoteIndexContext): NoteData[] =>
+  sortNotes(
+    applyFilters(notes, context.filters, context.now, context.sortConfig.key, context.contentIndex),
+    context.sortConfig,
+    context.pinnedNotes,
+    context.sortByRelevance ? createRelevanceScorer(context.filters) : null,
+    context.manualOrder
+  );
+
+const NOTES = [
+  createNote("Old", "/old.md", "archive/2023", ["project/a"], new Date("2024-01-01")),
+  createNote("Mid", "/mid.md", "work", ["project/b"], new Date("2024-01-05")),
+  createNote("New", "/new.md", "work", ["idea"], new Date("2024-01-10")),
+];
+
+describe("noteIndex", () => {
+  describe("getAvailableOptionsFromCounts", () => {
+    it("should match hierarchical options from the selectors", () => {
+      const options = getAvailableOptionsFromCounts(buildFilterOptionCounts(NOTES));
+
+      expect(options.availableTags).toEqual(["idea", "project", "project/a", "project/b"]);
+      expect(options.availableFolders).toEqual(["archive", "archive/2023", "work"]);
+    });
+  });
+
+  describe("applyDeltasToIndex", () => {
+    it("should return the same index when there are no deltas", () => {
+      const index = createIndex(NOTES);
+
+      expect(applyDeltasToIndex(index, [])).toBe(index);
+    });
+
+    it("should produce the same result as a full reload", () => {
+      const updated = createNote("Mid", "/mid.md", "work", ["project/b"], new Date("2024-01-20"));
+      const added = createNote("Added", "/added.md", "inbox", [], new Date("2024-01-07"));
+
+      const result = applyDeltasToIndex(createIndex(NOTES), [
+        { type: "upsert", note: updated },
+        { type: "upsert", note: added },
+        { type: "remove", path: "/new.md" },
+      ]);
+
+      const expected = createIndex([NOTES[0], updated, added]);
+      expect(result.notes).toEqual(expected.notes);
+      expect(result.availableTags).toEqual(expected.availableTags);
+      expect(result.availableFolders).toEqual(expected.availableFolders);
+    });
+
+    it("should keep option references when a note's tags and folder are unchanged", () => {
+      const index = createIndex(NOTES);
+      const edited = { ...NOTES[1], preview: "edited" };
+
+      const result = applyDeltasToIndex(index, [{ type: "upsert", note: edited }]);
+
+      expect(result.optionCounts).toBe(index.optionCounts);
+      expect(result.availableTags).toBe(index.availableTags);
+      expect(result.availableFolders).toBe(index.availableFolders);
+    });
+
+    it("should keep shared options until the last contributing note is removed", () => {
+      const index = createIndex(NOTES);
+
+      const first = applyDeltasToIndex(index, [{ type: "remove", path: "/mid.md" }]);
+      expect(first.availableFolders).toEqual(["archive", "archive/2023", "work"]);
+      expect(first.availableTags).toEqual(["idea", "project", "project/a"]);
+
+      const second = applyDeltasToIndex(first, [{ type: "remove", path: "/new.md" }]);
+      expect(second.availableFolders).toEqual(["archive", "archive/2023"]);
+      expect(second.availableTags).toEqual(["project", "project/a"]);
+    });
+
+    it("should replace the old path on moves", () => {
+      const moved = createNote("Mid", "/archive/mid.md", "archive", ["project/b"]);
+
+      const result = applyDeltasToIndex(createIndex(NOTES), [
+        { type: "move", oldPath: "/mid.md", note: moved },
+      ]);
+
+      expect(result.notes.map((n) => n.path)).toEqual(["/old.md", "/new.md", "/archive/mid.md"]);
+      expect(result.availableFolders).toEqual(["archive", "archive/2023", "work"]);
+    });
+
+    it("should ignore removals of unknown paths", () => {
+      const index = createIndex(NOTES);
+
+      const result = applyDeltasToIndex(index, [{ type: "remove", path: "/missing.md" }]);
+
+      expect(result.notes).toBe(index.notes);
+    });
+  });
+
+  describe("applyDeltasToFilteredNotes", () => {
+    it("should produce the same order as a full recompute", () => {
+      const context = createContext({ pinnedNotes: new Set(["/old.md"]) });
+      const updated = createNote("Mid", "/mid.md", "work", ["project/b"], new Date("2024-01-20"));
+      const added = createNote("Added", "/added.md", "inbox", [], new Date("2024-01-07"));
+
+      const result = applyDeltasToFilteredNotes(
+        createFilteredNotes(NOTES, context),
+        [
+          { type: "upsert", note: updated },
+          { type: "upsert", note: added },
+          { type: "remove", path: "/new.md" },
+        ],
+        context
+      );
+
+      const expected = createFilteredNotes([NOTES[0], updated, added], context);
+      expect(result.map((n) => n.path)).toEqual(expected.map((n) => n.path));
+    });
+
+    it("should only insert changed notes that pass the filters", () => {
+      const context = createContext({ filters: { ...NO_FILTERS, folders: ["work"] } });
+
+      const result = applyDeltasToFilteredNotes(
+        createFilteredNotes(NOTES, context),
+        [
+          {
+            type: "move",
+            oldPath: "/mid.md",
+            note: createNote("Mid", "/archive/mid.md", "archive", ["project/b"]),
+          },
+        ],
+        context
+      );
+
+      expect(result.map((n) => n.path)).toEqual(["/new.md"]);
+    });
+
+    it("should place changed notes by the content search of the updated index", () => {
+      const bodies = new Map(NOTES.map((note) => [note.path, "weekly status"]));
+      const edited = NOTES[1];
+      const filters = { ...NO_FILTERS, content: "status" };
+      const before = createContext({ filters, contentIndex: buildContentIndex(bodies) });
+      const after = createContext({
+        filters,
+        contentIndex: buildContentIndex(new Map([...bodies, [edited.path, "nothing to see"]])),
+      });
+
+      const result = applyDeltasToFilteredNotes(
+        createFilteredNotes(NOTES, before),
+        [{ type: "upsert", note: edited, body: "nothing to see" }],
+        after
+      );
+
+      expect(result.map((n) => n.path)).toEqual(["/new.md", "/old.md"]);
+    });
+
+    it("should insert changed notes by relevance when the view sorts by it", () => {
+      const context = createContext({
+        filters: { ...NO_FILTERS, filename: ["mid"] },
+        sortByRelevance: true,
+      });
+      const notes = [...NOTES, createNote("Mild idea", "/mild.md", "", [], new Date("2024-01-30"))];
+      const renamed = createNote("Mid", "/mid.md", "work", [], new Date("2023-12-01"));
+
+      const result = applyDeltasToFilteredNotes(
+        createFilteredNotes(notes, context),
+        [{ type: "upsert", note: renamed }],
+        context
+      );
+
+      const expected = createFilteredNotes([NOTES[0], renamed, NOTES[2], notes[3]], context);
+      expect(result.map((n) => n.path)).toEqual(expected.map((n) => n.path));
+      expect(result.map((n) => n.path)).toEqual(["/mid.md", "/mild.md"]);
+    });
+
+    it("should insert moved notes at their manual position and new notes at the end", () => {
+      const context = createContext({
+        sortConfig: { key: "manual", order: "asc" },
+        manualOrder: ["/new.md", "/archive/mid.md", "/old.md"],
+      });
+      const added = createNote("Added", "/added.md", "inbox", [], new Date("2024-01-30"));
+
+      const result = applyDeltasToFilteredNotes(
+        createFilteredNotes(NOTES, context),
+        [
+          {
+            type: "move",
+            oldPath: "/mid.md",
+            note: createNote("Mid", "/archive/mid.md", "archive", ["project/b"]),
+          },
+          { type: "upsert", note: added },
+        ],
+        context
+      );
+
+      expect(result.map((n) => n.path)).toEqual([
+        "/new.md",
+        "/archive/mid.md",
+        "/old.md",
+        "/added.md",
+      ]);
+    });
+
+    it("should return the same list when unaffected notes are removed", () => {
+      const context = createContext({ filters: { ...NO_FILTERS, folders: ["work"] } });
+      const filteredNotes = createFilteredNotes(NOTES, context);
+
+      const result = applyDeltasToFilteredNotes(
+        filteredNotes,
+        [{ type: "remove", path: "/old.md" }],
+        context
+      );
+
+      expect(result).toBe(filteredNotes);
+    });
+  });
+});
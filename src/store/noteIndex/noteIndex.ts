@@ -0,0 +1,299 @@
+/**
+ * Pure Functions - Incremental Note Index
+ *
+ * These functions apply single-note deltas (produced from vault and metadata
+ * events) to the shared note index and to each view's filtered list. A change
+ * to one file only touches that note: filtered lists are patched in place of a
+ * full filter + sort pass, and filter options are tracked with reference counts
+ * so tag/folder lists are rebuilt only when an option appears or disappears.
+ */
+
+import type { FilterState, NoteData, NoteIndexDelta, SortConfig } from "../../types";
+import { matchesContentCriteria, notePassesFilters } from "../filters";
+import { type ContentIndex, createRelevanceScorer } from "../search";
+import { cardExplorerSelectors } from "../selectors";
+import { getSortKeyChain, insertNoteSorted } from "../sorting";
+
+/**
+ * Reference counts for filter options
+ *
+ * Each key is a hierarchically expanded tag or folder path, and the value is
+ * the number of notes contributing it. An option is available while its count
+ * is above zero.
+ */
+export interface FilterOptionCounts {
+  /** Number of notes contributing each tag path (including parent tags) */
+  tags: Map<string, number>;
+  /** Number of notes contributing each folder path (including parent folders) */
+  folders: Map<string, number>;
+}
+
+/**
+ * Shared note index data that deltas are applied to
+ */
+export interface NoteIndexData {
+  /** All notes loaded from the vault */
+  notes: NoteData[];
+  /** Reference counts backing availableTags/availableFolders */
+  optionCounts: FilterOptionCounts;
+  /** All unique tags available across all notes */
+  availableTags: string[];
+  /** All unique folder paths available across all notes */
+  availableFolders: string[];
+}
+
+/**
+ * View configuration needed to place a changed note in a filtered list
+ */
+export interface NoteIndexContext {
+  filters: FilterState;
+  sortConfig: SortConfig;
+  pinnedNotes: Set<string>;
+  now: Date;
+  /** Content index already updated with the deltas, used for content searches */
+  contentIndex: ContentIndex;
+  /** Whether the view ranks notes by filename search relevance */
+  sortByRelevance: boolean;
+  /** Manual order of the view, already updated for moved notes */
+  manualOrder: string[];
+}
+
+/**
+ * Build filter option reference counts from a complete notes collection
+ *
+ * @param {NoteData[]} notes - All loaded notes
+ * @returns {FilterOptionCounts} Fresh counts for tags and folders
+ */
+export const buildFilterOptionCounts = (notes: NoteData[]): FilterOptionCounts => {
+  const counts: FilterOptionCounts = { tags: new Map(), folders: new Map() };
+  for (const note of notes) {
+    adjustCounts(counts.tags, getNoteTagOptions(note), 1);
+    adjustCounts(counts.folders, getNoteFolderOptions(note), 1);
+  }
+  return counts;
+};
+
+/**
+ * Convert filter option counts into the sorted option lists shown in the UI
+ *
+ * Ordering matches cardExplorerSelectors so incremental and full loads
+ * produce identical lists.
+ *
+ * @param {FilterOptionCounts} counts - Current option reference counts
+ * @returns Sorted availableTags and availableFolders arrays
+ */
+export const getAvailableOptionsFromCounts = (
+  counts: FilterOptionCounts
+): { availableTags: string[]; availableFolders: string[] } => ({
+  availableTags: Array.from(counts.tags.keys()).sort((a, b) => a.localeCompare(b)),
+  availableFolders: Array.from(counts.folders.keys()).sort(),
+});
+
+/**
+ * Apply a batch of deltas to the shared note index
+ *
+ * Deltas are applied in order. Returns the same object when nothing changed,
+ * and keeps the availableTags/availableFolders references stable unless an
+ * option was added or removed (e.g. while typing in a note).
+ *
+ * @param {NoteIndexData} index - Current note index data
+ * @param {NoteIndexDelta[]} deltas - Changes to apply
+ * @returns {NoteIndexData} Updated note index data
+ */
+export const applyDeltasToIndex = (
+  index: NoteIndexData,
+  deltas: NoteIndexDelta[]
+): NoteIndexData => {
+  if (deltas.length === 0) return index;
+
+  let { notes, optionCounts } = index;
+  let optionsChanged = false;
+
+  for (const delta of deltas) {
+    const result = applyDeltaToNotes(notes, delta);
+    notes = result.notes;
+
+    const update = updateFilterOptionCounts(optionCounts, result.removed, result.added);
+    optionCounts = update.counts;
+    optionsChanged = optionsChanged || update.keysChanged;
+  }
+
+  return {
+    notes,
+    optionCounts,
+    ...(optionsChanged
+      ? getAvailableOptionsFromCounts(optionCounts)
+      : { availableTags: index.availableTags, availableFolders: index.availableFolders }),
+  };
+};
+
+/**
+ * Apply a batch of deltas to a view's filtered and sorted notes
+ *
+ * Patches the list instead of re-filtering and re-sorting every note: entries
+ * affected by each delta are dropped, and the changed note is inserted at its
+ * sorted position when it passes the view's filters.
+ *
+ * @param {NoteData[]} filteredNotes - Current filtered and sorted notes of a view
+ * @param {NoteIndexDelta[]} deltas - Changes to apply
+ * @param {NoteIndexContext} context - Filters, sort and pins used to place changed notes
+ * @returns {NoteData[]} Updated filtered notes
+ */
+export const applyDeltasToFilteredNotes = (
+  filteredNotes: NoteData[],
+  deltas: NoteIndexDelta[],
+  context: NoteIndexContext
+): NoteData[] => {
+  let next = filteredNotes;
+  const scoreNote = context.sortByRelevance ? createRelevanceScorer(context.filters) : null;
+
+  for (const delta of deltas) {
+    const affectedPaths = new Set(getAffectedPaths(delta));
+    if (next.some((note) => affectedPaths.has(note.path))) {
+      next = next.filter((note) => !affectedPaths.has(note.path));
+    }
+
+    if (
+      delta.type !== "remove" &&
+      notePassesFilters(
+        delta.note,
+        context.filters,
+        context.now,
+        getSortKeyChain(context.sortConfig)
+      ) &&
+      matchesContentCriteria(delta.note, context.filters.content, context.contentIndex)
+    ) {
+      next = insertNoteSorted(
+        next,
+        delta.note,
+        context.sortConfig,
+        context.pinnedNotes,
+        scoreNote,
+        context.manualOrder
+      );
+    }
+  }
+
+  return next;
+};
+
+/**
+ * Paths whose entries are replaced or removed by a delta (internal)
+ */
+const getAffectedPaths = (delta: NoteIndexDelta): string[] => {
+  switch (delta.type) {
+    case "remove":
+      return [delta.path];
+    case "move":
+      return [delta.oldPath, delta.note.path];
+    default:
+      return [delta.note.path];
+  }
+};
+
+/**
+ * Apply a single delta to the notes array (internal)
+ *
+ * Upserts replace the note with the same path in place so the original
+ * load order is preserved; new notes are appended.
+ */
+const applyDeltaToNotes = (
+  notes: NoteData[],
+  delta: NoteIndexDelta
+): { notes: NoteData[]; removed: NoteData[]; added: NoteData | null } => {
+  const removed: NoteData[] = [];
+  let next = notes;
+
+  if (delta.type === "remove" || delta.type === "move") {
+    const removedPath = delta.type === "remove" ? delta.path : delta.oldPath;
+    const existing = next.find((note) => note.path === removedPath);
+    if (existing) {
+      removed.push(existing);
+      next = next.filter((note) => note !== existing);
+    }
+    if (delta.type === "remove") {
+      return { notes: next, removed, added: null };
+    }
+  }
+
+  const { note } = delta;
+  const index = next.findIndex((existing) => existing.path === note.path);
+  if (index === -1) {
+    next = [...next, note];
+  } else {
+    removed.push(next[index]);
+    next = [...next.slice(0, index), note, ...next.slice(index + 1)];
+  }
+
+  return { notes: next, removed, added: note };
+};
+
+/**
+ * Update option counts for replaced/removed notes and an added note (internal)
+ *
+ * Copies the count maps only when something actually changes, and reports
+ * whether the set of available options changed.
+ */
+const updateFilterOptionCounts = (
+  counts: FilterOptionCounts,
+  removed: NoteData[],
+  added: NoteData | null
+): { counts: FilterOptionCounts; keysChanged: boolean } => {
+  const removedTags = removed.flatMap(getNoteTagOptions);
+  const removedFolders = removed.flatMap(getNoteFolderOptions);
+  const addedTags = added ? getNoteTagOptions(added) : [];
+  const addedFolders = added ? getNoteFolderOptions(added) : [];
+
+  // Common case (editing note content): options are unchanged, keep the same maps
+  if (isSameOptionList(removedTags, addedTags) && isSameOptionList(removedFolders, addedFolders)) {
+    return { counts, keysChanged: false };
+  }
+
+  const tags = new Map(counts.tags);
+  const folders = new Map(counts.folders);
+  const keysChanged = [
+    adjustCounts(tags, removedTags, -1),
+    adjustCounts(folders, removedFolders, -1),
+    adjustCounts(tags, addedTags, 1),
+    adjustCounts(folders, addedFolders, 1),
+  ].some(Boolean);
+
+  return { counts: { tags, folders }, keysChanged };
+};
+
+/**
+ * Add `delta` to the count of each key, deleting keys that reach zero (internal)
+ *
+ * @returns True if any key was added to or removed from the map
+ */
+const adjustCounts = (map: Map<string, number>, keys: string[], delta: 1 | -1): boolean => {
+  let keysChanged = false;
+  for (const key of keys) {
+    const next = (map.get(key) ?? 0) + delta;
+    if (next <= 0) {
+      keysChanged = map.delete(key) || keysChanged;
+    } else {
+      keysChanged = keysChanged || !map.has(key);
+      map.set(key, next);
+    }
+  }
+  return keysChanged;
+};
+
+/**
+ * Tag options contributed by a single note, expanded hierarchically (internal)
+ */
+const getNoteTagOptions = (note: NoteData): string[] =>
+  cardExplorerSelectors.getAvailableTags([note]);
+
+/**
+ * Folder options contributed by a single note, including parent folders (internal)
+ */
+const getNoteFolderOptions = (note: NoteData): string[] =>
+  cardExplorerSelectors.getAvailableFolders([note]);
+
+/**
+ * Order-sensitive equality for option lists produced by the selectors (internal)
+ */
+const isSameOptionList = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
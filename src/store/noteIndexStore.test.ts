@@ -0,0 +1,167 @@
+import type { App } from "obsidian";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LoadedNotes, NoteData } from "../types";
+import { createNoteIndexStore, type NoteIndexStore } from "./noteIndexStore";
+
+// Mock loadNotesFromVault function
+vi.mock("./noteProcessing", async () => ({
+  ...(await vi.importActual<typeof import("./noteProcessing")>("./noteProcessing")),
+  loadNotesFromVault: vi.fn(),
+}));
+
+// Import the mocked function for type safety
+import { loadNotesFromVault } from "./noteProcessing";
+
+const mockLoadNotesFromVault = vi.mocked(loadNotesFromVault);
+
+// Mock error handling utilities (preserve real ErrorCategory enum)
+vi.mock("../core/errors/errorHandling", async () => {
+  const actual = await vi.importActual<typeof import("../core/errors/errorHandling")>(
+    "../core/errors/errorHandling"
+  );
+  return {
+    ...actual,
+    withRetry: vi.fn(async (fn: () => Promise<unknown>) => await fn()),
+    handleError: vi.fn(),
+  };
+});
+
+const createMockApp = (resolvedLinks: Record<string, Record<string, number>> = {}): App =>
+  ({ metadataCache: { resolvedLinks } }) as unknown as App;
+
+const createMockNote = (title: string, path: string, folder = "", tags: string[] = []) =>
+  ({
+    title,
+    path,
+    folder,
+    tags,
+    lastModified: new Date("2024-01-01"),
+    preview: "",
+    wordCount: 0,
+    file: { path } as any,
+    frontmatter: {},
+    backlinkCount: 0,
+  }) as NoteData;
+
+/** Result of a full load without note bodies unless given */
+const createLoadedNotes = (notes: NoteData[], bodies = new Map<string, string>()): LoadedNotes => ({
+  notes,
+  bodies,
+});
+
+describe("noteIndexStore", () => {
+  let noteIndex: NoteIndexStore;
+
+  beforeEach(() => {
+    noteIndex = createNoteIndexStore();
+    mockLoadNotesFromVault.mockReset();
+  });
+
+  describe("refreshNotes", () => {
+    it("should load notes, options and report a reload", async () => {
+      mockLoadNotesFromVault.mockResolvedValueOnce(
+        createLoadedNotes([createMockNote("A", "/a.md", "work", ["x"])])
+      );
+
+      await noteIndex.getState().refreshNotes(createMockApp());
+
+      const state = noteIndex.getState();
+      expect(state.notes).toHaveLength(1);
+      expect(state.availableTags).toEqual(["x"]);
+      expect(state.availableFolders).toEqual(["work"]);
+      expect(state.lastChange).toEqual({ type: "reload" });
+      expect(state.hasLoaded).toBe(true);
+      expect(state.isLoading).toBe(false);
+    });
+
+    it("should build the link index the loaded backlink counts come from", async () => {
+      mockLoadNotesFromVault.mockResolvedValueOnce(createLoadedNotes([]));
+
+      await noteIndex.getState().refreshNotes(createMockApp({ "/a.md": { "/b.md": 1 } }));
+
+      const { linkIndex } = noteIndex.getState();
+      expect(linkIndex.incoming.get("/b.md")).toEqual(new Set(["/a.md"]));
+      expect(mockLoadNotesFromVault).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        linkIndex
+      );
+    });
+  });
+
+  describe("ensureNotesLoaded", () => {
+    it("should load the vault only once for several views", async () => {
+      mockLoadNotesFromVault.mockResolvedValue(createLoadedNotes([createMockNote("A", "/a.md")]));
+
+      await Promise.all([
+        noteIndex.getState().ensureNotesLoaded(createMockApp()),
+        noteIndex.getState().ensureNotesLoaded(createMockApp()),
+      ]);
+      await noteIndex.getState().ensureNotesLoaded(createMockApp());
+
+      expect(mockLoadNotesFromVault).toHaveBeenCalledTimes(1);
+      expect(noteIndex.getState().notes).toHaveLength(1);
+    });
+  });
+
+  describe("applyNoteDeltas", () => {
+    it("should patch notes and record the deltas for views", async () => {
+      mockLoadNotesFromVault.mockResolvedValueOnce(
+        createLoadedNotes([createMockNote("A", "/a.md")])
+      );
+      await noteIndex.getState().refreshNotes(createMockApp());
+      const deltas = [{ type: "upsert" as const, note: createMockNote("B", "/b.md") }];
+
+      noteIndex.getState().applyNoteDeltas(deltas);
+
+      const state = noteIndex.getState();
+      expect(state.notes.map((n) => n.path)).toEqual(["/a.md", "/b.md"]);
+      expect(state.lastChange).toEqual({ type: "deltas", deltas });
+    });
+
+    it("should keep the content index in step with the notes", async () => {
+      const note = createMockNote("A", "/a.md");
+      mockLoadNotesFromVault.mockResolvedValueOnce(
+        createLoadedNotes([note], new Map([["/a.md", "quarterly budget"]]))
+      );
+      await noteIndex.getState().refreshNotes(createMockApp());
+      expect(noteIndex.getState().contentIndex.documents.has("/a.md")).toBe(true);
+
+      noteIndex.getState().applyNoteDeltas([{ type: "upsert", note, body: "yearly plan" }]);
+
+      const { contentIndex } = noteIndex.getState();
+      expect(contentIndex.postings.has("budget")).toBe(false);
+      expect(contentIndex.postings.get("plan")).toEqual(new Set(["/a.md"]));
+    });
+
+    it("should carry pin state over to moved notes", () => {
+      noteIndex.getState().setPinnedNotes(["/a.md"]);
+
+      noteIndex
+        .getState()
+        .applyNoteDeltas([
+          { type: "move", oldPath: "/a.md", note: createMockNote("A", "/b/a.md") },
+        ]);
+
+      expect(noteIndex.getState().pinnedNotes).toEqual(new Set(["/b/a.md"]));
+    });
+
+    it("should ignore empty batches", () => {
+      const before = noteIndex.getState();
+
+      noteIndex.getState().applyNoteDeltas([]);
+
+      expect(noteIndex.getState()).toBe(before);
+    });
+  });
+
+  describe("pinned notes", () => {
+    it("should toggle and replace pinned notes", () => {
+      noteIndex.getState().togglePin("/a.md");
+      expect(noteIndex.getState().pinnedNotes).toEqual(new Set(["/a.md"]));
+
+      noteIndex.getState().setPinnedNotes(["/b.md", "/c.md"]);
+      expect(noteIndex.getState().pinnedNotes).toEqual(new Set(["/b.md", "/c.md"]));
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Shared Note Index Store
+ *
+ * Holds the data that every Card View Explorer leaf has in common: the notes
+ * loaded from the vault, the filter options derived from them, and the set of
+ * pinned notes. A single instance is owned by the plugin so the vault is loaded
+ * once and file events are applied once, no matter how many views are open.
+ *
+ * Per-view configuration (filters, sort and the resulting filteredNotes) lives
+ * in view stores created by createCardExplorerStore, which subscribe to this
+ * store and react to `lastChange`.
+ */
+
+import type { App } from "obsidian";
+import { createStore } from "zustand";
+import { subscribeWithSelector } from "zustand/middleware";
+import { ErrorCategory, handleError, withRetry } from "../core/errors/errorHandling";
+import {
+  DEFAULT_EXCERPT_SETTINGS,
+  type ExcerptSettings,
+  type NoteData,
+  type NoteIndexDelta,
+} from "../types";
+import {
+  applyDeltasToIndex,
+  buildFilterOptionCounts,
+  type FilterOptionCounts,
+  getAvailableOptionsFromCounts,
+} from "./noteIndex";
+import { buildLinkIndex, type LinkIndex, loadNotesFromVault } from "./noteProcessing";
+import { applyDeltasToContentIndex, buildContentIndex, type ContentIndex } from "./search";
+import { togglePinState } from "./sorting";
+
+/**
+ * Describes the most recent change to the shared notes
+ *
+ * - "reload": notes were replaced wholesale; views recompute from scratch
+ * - "deltas": notes were patched; views apply the same deltas to their lists
+ */
+export type NoteIndexChange = { type: "reload" } | { type: "deltas"; deltas: NoteIndexDelta[] };
+
+/**
+ * State interface for the shared note index store
+ */
+export interface NoteIndexState {
+  // === Raw Data ===
+  /** All notes loaded from the Obsidian vault */
+  notes: NoteData[];
+  /** Set of file paths for notes that are pinned by the user (shared by all views) */
+  pinnedNotes: Set<string>;
+
+  // === Index Data ===
+  /** Reference counts of tag/folder options, used to update available options incrementally */
+  optionCounts: FilterOptionCounts;
+  /**
+   * Inverted index over note bodies for full-text content search; patched in place
+   * by note changes, and replaced by a new object each time so views notice
+   */
+  contentIndex: ContentIndex;
+  /**
+   * Snapshot of the resolved link graph backing the backlink counts; patched in
+   * place when note changes are resolved
+   */
+  linkIndex: LinkIndex;
+  /** Most recent change to `notes`, consumed by view stores */
+  lastChange: NoteIndexChange;
+  /** Whether notes have been loaded from the vault at least once */
+  hasLoaded: boolean;
+
+  // === Computed Data ===
+  /** All unique tags available across all notes for filter options */
+  availableTags: string[];
+  /** All unique folder paths available across all notes for filter options */
+  availableFolders: string[];
+
+  // === UI State ===
+  /** Whether a data loading operation is in progress */
+  isLoading: boolean;
+  /** Current error message to display to user, null if no error */
+  error: string | null;
+
+  // === Actions ===
+  /**
+   * Reload all notes from the Obsidian vault
+   *
+   * Includes retry logic for handling temporary failures.
+   */
+  refreshNotes: (app: App) => Promise<void>;
+
+  /**
+   * Load notes unless they are already loaded or loading
+   *
+   * Used when a view opens so that additional leaves reuse the shared index
+   * instead of reloading the vault.
+   */
+  ensureNotesLoaded: (app: App) => Promise<void>;
+
+  /**
+   * Apply single-note changes from vault and metadata events
+   *
+   * Moves carry the pin state over to the new path.
+   */
+  applyNoteDeltas: (deltas: NoteIndexDelta[]) => void;
+
+  /** Toggle the pin state of a specific note */
+  togglePin: (filePath: string) => void;
+
+  /** Replace the pinned notes, e.g. when restoring saved plugin data */
+  setPinnedNotes: (filePaths: string[]) => void;
+
+  /** Set or clear the current error message */
+  setError: (error: string | null) => void;
+
+  /** Reset store to initial empty state */
+  reset: () => void;
+}
+
+/**
+ * Create the initial data portion of the note index state
+ */
+const createInitialIndexState = () => ({
+  notes: [] as NoteData[],
+  pinnedNotes: new Set<string>(),
+  optionCounts: buildFilterOptionCounts([]),
+  contentIndex: buildContentIndex(new Map()),
+  linkIndex: buildLinkIndex({}),
+  lastChange: { type: "reload" } as NoteIndexChange,
+  hasLoaded: false,
+  availableTags: [] as string[],
+  availableFolders: [] as string[],
+  isLoading: false,
+  error: null as string | null,
+});
+
+/**
+ * Create a shared note index store
+ *
+ * The plugin creates one instance and hands it to every view. Exposed as a
+ * factory (rather than a module singleton) so that tests and plugin reloads
+ * always start from a clean index.
+ *
+ * @param getExcerptSettings - Returns the current excerpt rules, read on every load
+ */
+export const createNoteIndexStore = (
+  getExcerptSettings: () => ExcerptSettings = () => DEFAULT_EXCERPT_SETTINGS
+) => {
+  // In-flight full load shared by concurrent ensureNotesLoaded calls
+  let pendingLoad: Promise<void> | null = null;
+
+  return createStore<NoteIndexState>()(
+    subscribeWithSelector((set, get) => ({
+      ...createInitialIndexState(),
+
+      refreshNotes: async (app: App) => {
+        const load = (async () => {
+          try {
+            set({ isLoading: true, error: null });
+
+            // Load notes with retry logic for resilience against temporary failures
+            const linkIndex = buildLinkIndex(app.metadataCache.resolvedLinks ?? {});
+            const { notes, bodies } = await withRetry(
+              () => loadNotesFromVault(app, getExcerptSettings(), linkIndex),
+              {
+                maxRetries: 3, // Try up to 3 times
+                baseDelay: 1000, // Start with 1 second delay
+                category: ErrorCategory.API,
+                context: { operation: "loadNotesFromVault", notesCount: get().notes.length },
+              }
+            );
+
+            // Compute filter options and the content index from the new notes data
+            const optionCounts = buildFilterOptionCounts(notes);
+            const contentIndex = buildContentIndex(bodies);
+
+            // Update all data in a single operation so views recompute once
+            set({
+              notes,
+              optionCounts,
+              contentIndex,
+              linkIndex,
+              ...getAvailableOptionsFromCounts(optionCounts),
+              lastChange: { type: "reload" },
+              hasLoaded: true,
+              isLoading: false,
+            });
+          } catch (error) {
+            const errorInfo = handleError(error, ErrorCategory.API, {
+              operation: "refreshNotes",
+              notesCount: get().notes.length,
+              hasExistingNotes: get().notes.length > 0,
+            });
+
+            set({
+              isLoading: false,
+              error: errorInfo.message,
+            });
+          }
+        })();
+
+        pendingLoad = load;
+        try {
+          await load;
+        } finally {
+          if (pendingLoad === load) pendingLoad = null;
+        }
+      },
+
+      ensureNotesLoaded: async (app: App) => {
+        if (pendingLoad) return pendingLoad;
+        if (get().hasLoaded) return;
+        await get().refreshNotes(app);
+      },
+
+      applyNoteDeltas: (deltas: NoteIndexDelta[]) => {
+        if (deltas.length === 0) return;
+
+        const state = get();
+
+        // Carry pin state over to the new path before views place moved notes
+        let pinnedNotes = state.pinnedNotes;
+        for (const delta of deltas) {
+          if (delta.type === "move" && pinnedNotes.has(delta.oldPath)) {
+            pinnedNotes = new Set(pinnedNotes);
+            pinnedNotes.delete(delta.oldPath);
+            pinnedNotes.add(delta.note.path);
+          }
+        }
+
+        set({
+          ...applyDeltasToIndex(state, deltas),
+          contentIndex: applyDeltasToContentIndex(state.contentIndex, deltas),
+          pinnedNotes,
+          lastChange: { type: "deltas", deltas },
+        });
+      },
+
+      togglePin: (filePath: string) => {
+        // Immutable toggle: creates new Set with updated pin state
+        set({ pinnedNotes: togglePinState(get().pinnedNotes, filePath) });
+      },
+
+      setPinnedNotes: (filePaths: string[]) => {
+        set({ pinnedNotes: new Set(filePaths) });
+      },
+
+      setError: (error: string | null) => set({ error }),
+
+      reset: () => {
+        pendingLoad = null;
+        set(createInitialIndexState());
+      },
+    }))
+  );
+};
+
+/**
+ * Type of the shared note index store instance
+ */
+export type NoteIndexStore = ReturnType<typeof createNoteIndexStore>;
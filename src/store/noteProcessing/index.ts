@@ -1 +1,2 @@
+export * from "./linkIndex";
 export * from "./noteLoader";
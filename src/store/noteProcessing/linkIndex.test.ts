@@ -0,0 +1,98 @@
+import type { TFile } from "obsidian";
+import { describe, expect, it } from "vitest";
+import { buildLinkIndex, getBacklinkCount, type ResolvedLinks, updateLinkIndex } from "./linkIndex";
+
+const file = (path: string) => ({ path }) as TFile;
+
+const notIndexed = () => false;
+const indexed = () => true;
+
+describe("linkIndex", () => {
+  describe("buildLinkIndex", () => {
+    it("should count distinct other notes linking to each note", () => {
+      const index = buildLinkIndex({
+        "/a.md": { "/b.md": 3, "/a.md": 1 },
+        "/c.md": { "/b.md": 1 },
+      });
+
+      expect(getBacklinkCount(index, "/a.md")).toBe(0);
+      expect(getBacklinkCount(index, "/b.md")).toBe(2);
+      expect(getBacklinkCount(index, "/missing.md")).toBe(0);
+    });
+  });
+
+  describe("updateLinkIndex", () => {
+    it("should report the notes a changed note starts or stops linking to", () => {
+      const index = buildLinkIndex({ "/a.md": { "/b.md": 1, "/c.md": 1 } });
+      const resolvedLinks: ResolvedLinks = { "/a.md": { "/c.md": 1, "/d.md": 1 } };
+
+      const changed = updateLinkIndex(
+        index,
+        resolvedLinks,
+        [{ type: "upsert", file: file("/a.md") }],
+        indexed
+      );
+
+      expect(changed).toEqual(new Set(["/b.md", "/d.md"]));
+      expect(getBacklinkCount(index, "/b.md")).toBe(0);
+      expect(getBacklinkCount(index, "/c.md")).toBe(1);
+      expect(getBacklinkCount(index, "/d.md")).toBe(1);
+    });
+
+    it("should report nothing when the links of a changed note are unchanged", () => {
+      const resolvedLinks: ResolvedLinks = { "/a.md": { "/b.md": 1 } };
+      const index = buildLinkIndex(resolvedLinks);
+
+      expect(
+        updateLinkIndex(index, resolvedLinks, [{ type: "upsert", file: file("/a.md") }], indexed)
+      ).toEqual(new Set());
+    });
+
+    it("should drop the links of removed notes", () => {
+      const index = buildLinkIndex({ "/a.md": { "/b.md": 1 } });
+
+      const changed = updateLinkIndex(index, {}, [{ type: "remove", path: "/a.md" }], indexed);
+
+      expect(changed).toEqual(new Set(["/b.md"]));
+      expect(getBacklinkCount(index, "/b.md")).toBe(0);
+    });
+
+    it("should move links to and from a renamed note", () => {
+      const index = buildLinkIndex({ "/a.md": { "/old.md": 1 }, "/old.md": { "/c.md": 1 } });
+      const resolvedLinks: ResolvedLinks = { "/a.md": { "/new.md": 1 }, "/new.md": { "/c.md": 1 } };
+
+      updateLinkIndex(
+        index,
+        resolvedLinks,
+        [{ type: "move", oldPath: "/old.md", file: file("/new.md") }],
+        notIndexed
+      );
+      // Obsidian rewrites the link in the linking note afterwards
+      const changed = updateLinkIndex(
+        index,
+        resolvedLinks,
+        [{ type: "upsert", file: file("/a.md") }],
+        indexed
+      );
+
+      expect(changed).toEqual(new Set());
+      expect(getBacklinkCount(index, "/new.md")).toBe(1);
+      expect(getBacklinkCount(index, "/old.md")).toBe(0);
+      expect(getBacklinkCount(index, "/c.md")).toBe(1);
+    });
+
+    it("should collect the links that already resolve to created notes", () => {
+      const index = buildLinkIndex({});
+      const resolvedLinks: ResolvedLinks = { "/a.md": { "/new.md": 1 } };
+
+      updateLinkIndex(
+        index,
+        resolvedLinks,
+        [{ type: "upsert", file: file("/new.md") }],
+        notIndexed
+      );
+
+      expect(getBacklinkCount(index, "/new.md")).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Pure Functions - Backlink Index
+ *
+ * These functions keep a snapshot of Obsidian's resolved link graph so that
+ * backlink counts can be kept current without walking the whole graph on every
+ * change. The index is built once on a full load and patched in place with the
+ * changed files: only the links of a changed note are compared with the snapshot,
+ * and the notes it starts or stops linking to are reported so their counts can
+ * be updated as well.
+ */
+
+import type { VaultNoteChange } from "../../types";
+
+/**
+ * Resolved links as exposed by Obsidian's metadata cache: source path to target
+ * paths with the number of links
+ */
+export type ResolvedLinks = Record<string, Record<string, number>>;
+
+/**
+ * Snapshot of the resolved link graph between notes
+ */
+export interface LinkIndex {
+  /** Paths each note links to, without self-links */
+  outgoing: Map<string, Set<string>>;
+  /** Paths of the notes linking to each note */
+  incoming: Map<string, Set<string>>;
+}
+
+/**
+ * Build the link index from the resolved link graph
+ *
+ * A source linking to a note several times is recorded once.
+ *
+ * @param {ResolvedLinks} resolvedLinks - Resolved links from the metadata cache
+ * @returns {LinkIndex} Fresh link index
+ */
+export const buildLinkIndex = (resolvedLinks: ResolvedLinks): LinkIndex => {
+  const index: LinkIndex = { outgoing: new Map(), incoming: new Map() };
+  for (const sourcePath of Object.keys(resolvedLinks)) {
+    setLinkTargets(index, sourcePath, getLinkTargets(resolvedLinks, sourcePath));
+  }
+  return index;
+};
+
+/**
+ * Count the other notes linking to a note
+ *
+ * @param {LinkIndex} index - Current link index
+ * @param {string} path - Path of the note
+ * @returns {number} Number of distinct other notes linking to the note
+ */
+export const getBacklinkCount = (index: LinkIndex, path: string): number =>
+  index.incoming.get(path)?.size ?? 0;
+
+/**
+ * Patch the link index in place with file-level changes
+ *
+ * - Removed notes no longer link anywhere.
+ * - Moved notes keep the links pointing at them, under the new path.
+ * - Notes new to the index collect the links that already resolve to them.
+ * - Changed notes replace their links with the current ones from the graph.
+ *
+ * @param {LinkIndex} index - Link index to update
+ * @param {ResolvedLinks} resolvedLinks - Current resolved links from the metadata cache
+ * @param {VaultNoteChange[]} changes - File-level changes to apply, in order
+ * @param {(path: string) => boolean} isIndexed - Whether a path is already a loaded note
+ * @returns {Set<string>} Paths of the notes whose backlinks changed
+ */
+export const updateLinkIndex = (
+  index: LinkIndex,
+  resolvedLinks: ResolvedLinks,
+  changes: VaultNoteChange[],
+  isIndexed: (path: string) => boolean
+): Set<string> => {
+  const changed = new Set<string>();
+
+  for (const change of changes) {
+    if (change.type === "remove") {
+      setLinkTargets(index, change.path, new Set(), changed);
+      continue;
+    }
+
+    const path = change.file.path;
+    if (change.type === "move") {
+      setLinkTargets(index, change.oldPath, new Set(), changed);
+      renameLinkTarget(index, change.oldPath, path);
+    } else if (!isIndexed(path)) {
+      // Created notes can resolve links that other notes already had
+      for (const sourcePath of Object.keys(resolvedLinks)) {
+        if (sourcePath !== path && resolvedLinks[sourcePath]?.[path] !== undefined) {
+          addLink(index, sourcePath, path);
+        }
+      }
+    }
+    setLinkTargets(index, path, getLinkTargets(resolvedLinks, path), changed);
+  }
+
+  return changed;
+};
+
+/**
+ * Read the link targets of a source from the resolved links, without self-links (internal)
+ */
+const getLinkTargets = (resolvedLinks: ResolvedLinks, sourcePath: string): Set<string> =>
+  new Set(Object.keys(resolvedLinks[sourcePath] ?? {}).filter((path) => path !== sourcePath));
+
+/**
+ * Replace the link targets of a source, collecting targets that gained or lost it (internal)
+ */
+const setLinkTargets = (
+  index: LinkIndex,
+  sourcePath: string,
+  targets: Set<string>,
+  changed?: Set<string>
+): void => {
+  const previous = index.outgoing.get(sourcePath);
+
+  for (const targetPath of previous ?? []) {
+    if (targets.has(targetPath)) continue;
+    const sources = index.incoming.get(targetPath);
+    sources?.delete(sourcePath);
+    if (sources?.size === 0) index.incoming.delete(targetPath);
+    changed?.add(targetPath);
+  }
+  for (const targetPath of targets) {
+    if (previous?.has(targetPath)) continue;
+    addIncoming(index, targetPath, sourcePath);
+    changed?.add(targetPath);
+  }
+
+  if (targets.size > 0) {
+    index.outgoing.set(sourcePath, targets);
+  } else {
+    index.outgoing.delete(sourcePath);
+  }
+};
+
+/**
+ * Record a single link from a source to a target (internal)
+ */
+const addLink = (index: LinkIndex, sourcePath: string, targetPath: string): void => {
+  const targets = index.outgoing.get(sourcePath);
+  if (targets) {
+    targets.add(targetPath);
+  } else {
+    index.outgoing.set(sourcePath, new Set([targetPath]));
+  }
+  addIncoming(index, targetPath, sourcePath);
+};
+
+/**
+ * Record a source in the incoming links of a target (internal)
+ */
+const addIncoming = (index: LinkIndex, targetPath: string, sourcePath: string): void => {
+  const sources = index.incoming.get(targetPath);
+  if (sources) {
+    sources.add(sourcePath);
+  } else {
+    index.incoming.set(targetPath, new Set([sourcePath]));
+  }
+};
+
+/**
+ * Point the links to a moved note at its new path (internal)
+ */
+const renameLinkTarget = (index: LinkIndex, oldPath: string, newPath: string): void => {
+  const sources = index.incoming.get(oldPath);
+  if (!sources) return;
+
+  index.incoming.delete(oldPath);
+  for (const sourcePath of sources) {
+    const targets = index.outgoing.get(sourcePath);
+    targets?.delete(oldPath);
+    if (sourcePath !== newPath) {
+      addLink(index, sourcePath, newPath);
+    } else if (targets?.size === 0) {
+      index.outgoing.delete(sourcePath);
+    }
+  }
+};
@@ -1,6 +1,8 @@
 import type { App, TFile, Vault } from "obsidian";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { loadNotesFromVault } from "./noteLoader";
+import { DEFAULT_EXCERPT_SETTINGS, type ExcerptSettings, type NoteData } from "../../types";
+import { buildLinkIndex } from "./linkIndex";
+import { loadNotesFromVault, resolveNoteChanges } from "./noteLoader";
 
 /**
  * Test constants for consistent timestamp values across tests.
@@ -37,7 +39,7 @@ const withSuppressedConsoleErrors = (testFn: () => Promise<void> | void) => {
 const TEST_CONTENT = {
   SIMPLE: "Content",
   MULTILINE: "Content of note 1\nWith multiple lines\nAnd more content",
-  FIVE_LINES: "Line 1\nLine 2\nLine 3\nLine 4\nLine 5",
+  LONG_LINES: Array.from({ length: 12 }, (_, index) => `Line ${index + 1} `.repeat(10)).join("\n"),
   WITH_FRONTMATTER: `---
 title: My Note
 tags: [test, example]
@@ -264,6 +266,22 @@ const createNonMarkdownFiles = () => ({
   textFile: () => createMockFile("/document.txt", "document", "txt") as any,
 });
 
+/**
+ * Creates a note already in the index, as passed to resolveNoteChanges.
+ */
+const createIndexedNote = (path: string, backlinkCount = 0): NoteData => ({
+  file: createMockFile(path, path.slice(1, -3), "md"),
+  title: path.slice(1, -3),
+  path,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(TEST_TIMESTAMPS.NOW),
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount,
+});
+
 /**
  * Factory functions for creating various metadata scenarios.
  * Tests different combinations of frontmatter and tag configurations
@@ -323,13 +341,13 @@ describe("noteLoader", () => {
         .withContentRead(TEST_CONTENT.SIMPLE)
         .build();
 
-      const result = await loadNotesFromVault(mockApp);
+      const { notes } = await loadNotesFromVault(mockApp);
 
       // Should only process the 2 markdown files
-      expect(result).toHaveLength(2);
-      expect(result.every((note) => note.file.extension === "md")).toBe(true);
-      expect(result[0].title).toBe("note1");
-      expect(result[1].title).toBe("note2");
+      expect(notes).toHaveLength(2);
+      expect(notes.every((note) => note.file.extension === "md")).toBe(true);
+      expect(notes[0].title).toBe("note1");
+      expect(notes[1].title).toBe("note2");
       // Verify metadata and content were only fetched for markdown files
       expect(mockApp.metadataCache.getFileCache).toHaveBeenCalledTimes(2);
       expect(mockApp.vault.cachedRead).toHaveBeenCalledTimes(2);
@@ -356,10 +374,10 @@ describe("noteLoader", () => {
         )
         .build();
 
-      const result = await loadNotesFromVault(mockApp);
+      const { notes } = await loadNotesFromVault(mockApp);
 
-      expect(result).toHaveLength(2);
-      expect(result[0]).toMatchObject({
+      expect(notes).toHaveLength(2);
+      expect(notes[0]).toMatchObject({
         file: mockFiles[0],
         title: "note1",
         path: "/folder/note1.md",
@@ -369,11 +387,12 @@ describe("noteLoader", () => {
         tags: ["tag1", "tag2"],
         folder: "folder",
       });
-      expect(result[1]).toMatchObject({
+      expect(notes[1]).toMatchObject({
         file: mockFiles[1],
         title: "note2",
         path: "/note2.md",
         preview: "Root note content",
+        wordCount: 3,
         lastModified: new Date(TEST_TIMESTAMPS.JANUARY_2024_NEXT_DAY),
         frontmatter: null,
         tags: ["tag3"],
@@ -383,9 +402,9 @@ describe("noteLoader", () => {
 
     it("should handle empty vault", async () => {
       const mockApp = new MockAppBuilder().withFiles([]).build();
-      const result = await loadNotesFromVault(mockApp);
+      const { notes } = await loadNotesFromVault(mockApp);
 
-      expect(result).toHaveLength(0);
+      expect(notes).toHaveLength(0);
       expect(mockApp.vault.getMarkdownFiles).toHaveBeenCalledOnce();
     });
 
@@ -430,10 +449,10 @@ describe("noteLoader", () => {
             .withContentRead(TEST_CONTENT.SIMPLE)
             .build();
 
-          const result = await loadNotesFromVault(mockApp);
+          const { notes } = await loadNotesFromVault(mockApp);
 
-          expect(result).toHaveLength(1);
-          expect(result[0].tags).toEqual(expectedTags);
+          expect(notes).toHaveLength(1);
+          expect(notes[0].tags).toEqual(expectedTags);
         });
       });
     });
@@ -454,25 +473,45 @@ describe("noteLoader", () => {
         .withContentRead("Test content")
         .build();
 
-      const result = await loadNotesFromVault(mockApp);
+      const { notes } = await loadNotesFromVault(mockApp);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].frontmatter).toEqual({
+      expect(notes).toHaveLength(1);
+      expect(notes[0].frontmatter).toEqual({
         title: "Test Note",
         priority: 1,
         tags: ["frontmatter-tag"],
       });
-      expect(result[0].tags).toEqual(["frontmatter-tag", "content-tag", "another-tag"]);
+      expect(notes[0].tags).toEqual(["frontmatter-tag", "content-tag", "another-tag"]);
+    });
+
+    it("should count distinct other notes linking to each note", async () => {
+      const files = [createMarkdownFiles().note1(), createMarkdownFiles().note2()];
+      const mockApp = new MockAppBuilder()
+        .withFiles(files)
+        .withMetadataCache({
+          getFileCache: vi.fn().mockReturnValue(null),
+          resolvedLinks: {
+            "/note1.md": { "/note2.md": 3, "/note1.md": 1 },
+            "/other.md": { "/note2.md": 1 },
+          },
+        })
+        .withContentRead("Body")
+        .build();
+
+      const { notes } = await loadNotesFromVault(mockApp);
+
+      expect(notes.map((note) => note.backlinkCount)).toEqual([0, 2]);
     });
 
     describe("content preview extraction", () => {
       // Test cases for preview generation logic including frontmatter handling
-      // and line limit enforcement (max 3 lines for preview)
+      // and the excerpt length (500 characters by default, cards show fewer lines)
       const previewTestCases = [
         {
-          name: "max lines limit",
-          content: TEST_CONTENT.FIVE_LINES,
-          expectedPreview: "Line 1\nLine 2\nLine 3", // Should truncate to 3 lines
+          name: "excerpt length limit",
+          content: TEST_CONTENT.LONG_LINES,
+          // Cut within the seventh line, ending with an ellipsis
+          expectedPreview: `${TEST_CONTENT.LONG_LINES.slice(0, 499).trimEnd()}…`,
         },
         {
           name: "empty content fallback to filename",
@@ -487,8 +526,8 @@ describe("noteLoader", () => {
         {
           name: "incomplete frontmatter",
           content: TEST_CONTENT.INCOMPLETE_FRONTMATTER,
-          expectedPreview:
-            "---\ntitle: Incomplete frontmatter\nThis content should be returned as-is",
+          // Kept as body text; the opening delimiter reads as a horizontal rule and is skipped
+          expectedPreview: TEST_CONTENT.INCOMPLETE_FRONTMATTER.split("\n").slice(1).join("\n"),
         },
       ];
 
@@ -501,12 +540,131 @@ describe("noteLoader", () => {
             .withContentRead(content)
             .build();
 
-          const result = await loadNotesFromVault(mockApp);
+          const { notes } = await loadNotesFromVault(mockApp);
 
-          expect(result).toHaveLength(1);
-          expect(result[0].preview).toBe(expectedPreview);
+          expect(notes).toHaveLength(1);
+          expect(notes[0].preview).toBe(expectedPreview);
         });
       });
+
+      it("should keep the full body without frontmatter as searchable content", async () => {
+        const mockFile = createMockFile("/test.md", "test", "md");
+        const mockApp = new MockAppBuilder()
+          .withFiles([mockFile])
+          .withEmptyMetadata()
+          .withContentRead(TEST_CONTENT.WITH_FRONTMATTER)
+          .build();
+
+        const { bodies } = await loadNotesFromVault(mockApp);
+
+        expect(bodies.get("/test.md")).not.toContain("---");
+        expect(bodies.get("/test.md")).toContain("This is the actual content");
+      });
+    });
+
+    describe("excerpt rules", () => {
+      const loadPreview = async (
+        content: string,
+        excerpt: Partial<ExcerptSettings> = {},
+        frontmatter: Record<string, unknown> | null = null
+      ) => {
+        const mockApp = new MockAppBuilder()
+          .withFiles([createMockFile("/test.md", "test", "md")])
+          .withMetadataCache({ getFileCache: vi.fn().mockReturnValue({ frontmatter }) })
+          .withContentRead(content)
+          .build();
+
+        const { notes } = await loadNotesFromVault(mockApp, {
+          ...DEFAULT_EXCERPT_SETTINGS,
+          ...excerpt,
+        });
+        return notes[0].preview;
+      };
+
+      const NOTE_WITH_SYNTAX = [
+        "[[Home]] > [[Projects]]",
+        "# Launch plan",
+        "![[banner.png]]",
+        "",
+        "The launch moves to **May**.",
+        "```js",
+        "const date = 'May';",
+        "```",
+        "| Task | Owner |",
+        "| --- | --- |",
+        "---",
+        "See [[Budget]] for costs.",
+        "## Risks",
+        "Suppliers may be late.",
+      ].join("\n");
+
+      it("should prefer the first property named by the rules that has text", async () => {
+        const preview = await loadPreview(
+          NOTE_WITH_SYNTAX,
+          {},
+          {
+            summary: "  ",
+            description: "Launch moved to May",
+          }
+        );
+
+        expect(preview).toBe("Launch moved to May");
+      });
+
+      it("should use other properties when configured", async () => {
+        const preview = await loadPreview(
+          NOTE_WITH_SYNTAX,
+          { excerptPropertyKeys: ["abstract"] },
+          { summary: "Ignored", abstract: "Chosen" }
+        );
+
+        expect(preview).toBe("Chosen");
+      });
+
+      it("should limit property excerpts to the excerpt length", async () => {
+        const preview = await loadPreview(
+          "Body",
+          { excerptMaxLength: 10 },
+          {
+            summary: "A summary longer than ten characters",
+          }
+        );
+
+        expect(preview).toBe("A summary…");
+      });
+
+      it("should skip headings, embeds, breadcrumbs, code blocks, tables and rules", async () => {
+        expect(await loadPreview(NOTE_WITH_SYNTAX)).toBe(
+          [
+            "The launch moves to **May**.",
+            "See [[Budget]] for costs.",
+            "Suppliers may be late.",
+          ].join("\n")
+        );
+      });
+
+      it("should keep every non-empty line when skipping is off", async () => {
+        const preview = await loadPreview(NOTE_WITH_SYNTAX, { excerptSkipSyntax: false });
+
+        expect(preview.split("\n")).toHaveLength(13);
+        expect(preview.startsWith("[[Home]] > [[Projects]]\n# Launch plan")).toBe(true);
+      });
+
+      it("should start after the chosen heading, ignoring its case", async () => {
+        expect(await loadPreview(NOTE_WITH_SYNTAX, { excerptStartHeading: "risks" })).toBe(
+          "Suppliers may be late."
+        );
+      });
+
+      it("should start at the beginning of notes without the chosen heading", async () => {
+        expect(await loadPreview("Intro\n## Other\nText", { excerptStartHeading: "Risks" })).toBe(
+          "Intro\nText"
+        );
+      });
+
+      it("should fall back to the filename when only syntax is left", async () => {
+        expect(await loadPreview("# Title\n![[image.png]]")).toBe("test");
+      });
     });
 
     describe("error handling", () => {
@@ -557,16 +715,17 @@ describe("noteLoader", () => {
             )
             .build();
 
-          const result = await loadNotesFromVault(mockApp);
+          const { notes, bodies } = await loadNotesFromVault(mockApp);
 
           // Should still return all files, with fallback for the failed one
-          expect(result).toHaveLength(3);
-          expect(result[0].title).toBe("note1");
-          expect(result[0].preview).toBe("Content 1");
-          expect(result[1].title).toBe("note2");
-          expect(result[1].preview).toBe("note2"); // Fallback to filename when content read fails
-          expect(result[2].title).toBe("note3");
-          expect(result[2].preview).toBe("Content 3");
+          expect(notes).toHaveLength(3);
+          expect(notes[0].title).toBe("note1");
+          expect(notes[0].preview).toBe("Content 1");
+          expect(notes[1].title).toBe("note2");
+          expect(notes[1].preview).toBe("note2"); // Fallback to filename when content read fails
+          expect(bodies.get("/note2.md")).toBe(""); // Nothing to search when content read fails
+          expect(notes[2].title).toBe("note3");
+          expect(notes[2].preview).toBe("Content 3");
         })
       );
 
@@ -589,15 +748,148 @@ describe("noteLoader", () => {
             )
             .build();
 
-          const result = await loadNotesFromVault(mockApp);
+          const { notes } = await loadNotesFromVault(mockApp);
+
+          expect(notes).toHaveLength(2);
+          expect(notes[0].title).toBe("note1");
+          expect(notes[0].preview).toBe("Content 1");
+          expect(notes[1].title).toBe("note2");
+          expect(notes[1].preview).toBe("note2"); // Should still fallback gracefully
+        })
+      );
+    });
+  });
+
+  describe("resolveNoteChanges", () => {
+    it("should read a changed note without listing the vault", async () => {
+      const file = createMockFile("/folder/note1.md", "note1", "md", TEST_TIMESTAMPS.NOW, "folder");
+      const mockApp = new MockAppBuilder().withEmptyMetadata().withContentRead("Body").build();
+
+      const result = await resolveNoteChanges(
+        mockApp,
+        [{ type: "upsert", file }],
+        [],
+        buildLinkIndex({})
+      );
+
+      expect(result).toEqual([
+        {
+          type: "upsert",
+          note: expect.objectContaining({
+            path: "/folder/note1.md",
+            folder: "folder",
+            preview: "Body",
+          }),
+          body: "Body",
+        },
+      ]);
+      expect(mockApp.vault.getMarkdownFiles).not.toHaveBeenCalled();
+    });
+
+    it("should resolve upserts, removals and moves into deltas in order", async () => {
+      const file = createMarkdownFiles().note1();
+      const moved = createMarkdownFiles().note2();
+      const mockApp = new MockAppBuilder().withEmptyMetadata().withContentRead("Body").build();
+
+      const result = await resolveNoteChanges(
+        mockApp,
+        [
+          { type: "upsert", file },
+          { type: "remove", path: "/gone.md" },
+          { type: "move", oldPath: "/old.md", file: moved },
+        ],
+        [],
+        buildLinkIndex({})
+      );
+
+      expect(result.map((delta) => delta.type)).toEqual(["upsert", "remove", "move"]);
+      expect(result[0]).toMatchObject({ note: { path: "/note1.md" } });
+      expect(result[1]).toEqual({ type: "remove", path: "/gone.md" });
+      expect(result[2]).toMatchObject({ oldPath: "/old.md", note: { path: "/note2.md" } });
+    });
+
+    it("should count the links that already resolve to created notes", async () => {
+      const resolvedLinks = { "/note2.md": { "/note1.md": 1 } };
+      const mockApp = new MockAppBuilder()
+        .withMetadataCache({ getFileCache: vi.fn().mockReturnValue(null), resolvedLinks })
+        .withContentRead("Body")
+        .build();
+
+      const result = await resolveNoteChanges(
+        mockApp,
+        [{ type: "upsert", file: createMarkdownFiles().note1() }],
+        [],
+        buildLinkIndex({})
+      );
+
+      expect(result[0]).toMatchObject({ note: { backlinkCount: 1 } });
+    });
 
-          expect(result).toHaveLength(2);
-          expect(result[0].title).toBe("note1");
-          expect(result[0].preview).toBe("Content 1");
-          expect(result[1].title).toBe("note2");
-          expect(result[1].preview).toBe("note2"); // Should still fallback gracefully
+    it("should update the counts of notes a changed note starts or stops linking to", async () => {
+      const note2 = createIndexedNote("/note2.md", 1);
+      const note3 = createIndexedNote("/note3.md");
+      const linkIndex = buildLinkIndex({ "/note1.md": { "/note2.md": 1 } });
+      const mockApp = new MockAppBuilder()
+        .withMetadataCache({
+          getFileCache: vi.fn().mockReturnValue(null),
+          resolvedLinks: { "/note1.md": { "/note3.md": 2 } },
         })
+        .withContentRead("Body")
+        .build();
+
+      const result = await resolveNoteChanges(
+        mockApp,
+        [{ type: "upsert", file: createMarkdownFiles().note1() }],
+        [note2, note3],
+        linkIndex
       );
+
+      expect(result).toEqual([
+        { type: "upsert", note: expect.objectContaining({ path: "/note1.md" }), body: "Body" },
+        { type: "upsert", note: { ...note2, backlinkCount: 0 } },
+        { type: "upsert", note: { ...note3, backlinkCount: 1 } },
+      ]);
+    });
+
+    it("should keep the backlinks of moved notes", async () => {
+      const linkIndex = buildLinkIndex({ "/other.md": { "/old.md": 1 } });
+      const mockApp = new MockAppBuilder().withEmptyMetadata().withContentRead("Body").build();
+
+      const result = await resolveNoteChanges(
+        mockApp,
+        [{ type: "move", oldPath: "/old.md", file: createMarkdownFiles().note2() }],
+        [createIndexedNote("/old.md", 1)],
+        linkIndex
+      );
+
+      expect(result).toEqual([
+        {
+          type: "move",
+          oldPath: "/old.md",
+          note: expect.objectContaining({ path: "/note2.md", backlinkCount: 1 }),
+          body: "Body",
+        },
+      ]);
+    });
+
+    it("should turn changes to non-markdown files into removals", async () => {
+      const image = createNonMarkdownFiles().image();
+      const mockApp = new MockAppBuilder().withEmptyMetadata().build();
+
+      const result = await resolveNoteChanges(
+        mockApp,
+        [
+          { type: "upsert", file: image },
+          { type: "move", oldPath: "/renamed.md", file: image },
+        ],
+        [],
+        buildLinkIndex({})
+      );
+
+      expect(result).toEqual([
+        { type: "remove", path: "/image.png" },
+        { type: "remove", path: "/renamed.md" },
+      ]);
     });
   });
 });
@@ -1,7 +1,24 @@
 import type { App, CachedMetadata, FrontMatterCache, TagCache, TFile } from "obsidian";
 import { ErrorCategory, handleError } from "../../core/errors/errorHandling";
-import type { ContentPreview, MarkdownFile, NoteData, NoteMetadata } from "../../types";
-import { PREVIEW_MAX_LINES } from "../constants";
+import {
+  type ContentPreview,
+  DEFAULT_EXCERPT_SETTINGS,
+  type ExcerptSettings,
+  type LoadedNotes,
+  type MarkdownFile,
+  type NoteData,
+  type NoteIndexDelta,
+  type NoteMetadata,
+  type VaultNoteChange,
+} from "../../types";
+import { countWords } from "../sorting";
+import {
+  buildLinkIndex,
+  getBacklinkCount,
+  type LinkIndex,
+  type ResolvedLinks,
+  updateLinkIndex,
+} from "./linkIndex";
 
 /**
  * Note Loading and Transformation Module
@@ -11,6 +28,16 @@ import { PREVIEW_MAX_LINES } from "../constants";
  * primary bridge between Obsidian's file system and the plugin's data model.
  */
 
+/**
+ * A processed note with the body it was read from (internal)
+ *
+ * The body is handed to the content index and not kept with the note.
+ */
+interface NoteWithBody {
+  note: NoteData;
+  body: string;
+}
+
 /**
  * Loads all markdown notes from the Obsidian vault and transforms them into NoteData objects.
  *
@@ -19,18 +46,33 @@ import { PREVIEW_MAX_LINES } from "../constants";
  * error resilience by continuing to process other notes even if individual notes fail.
  *
  * @param app - The Obsidian App instance providing access to vault and metadata cache
- * @returns Promise resolving to array of successfully processed NoteData objects
+ * @param excerpt - Rules choosing the part of each note shown as its preview
+ * @param linkIndex - Link index backing the backlink counts, built from the metadata cache by default
+ * @returns Promise resolving to the successfully processed notes and their bodies
  * @throws Error if the entire loading operation fails (e.g., vault access issues)
  */
-export const loadNotesFromVault = async (app: App): Promise<NoteData[]> => {
+export const loadNotesFromVault = async (
+  app: App,
+  excerpt: ExcerptSettings = DEFAULT_EXCERPT_SETTINGS,
+  linkIndex: LinkIndex = buildLinkIndex(getResolvedLinks(app))
+): Promise<LoadedNotes> => {
   let markdownFiles: MarkdownFile[] = [];
   try {
     const allFiles = app.vault.getMarkdownFiles();
     markdownFiles = filterMarkdownFiles(allFiles);
 
-    const noteDataResults = await processFilesWithErrorHandling(app, markdownFiles);
-
-    return extractSuccessfulResults(noteDataResults);
+    const noteDataResults = await processFilesWithErrorHandling(
+      app,
+      markdownFiles,
+      linkIndex,
+      excerpt
+    );
+
+    const results = extractSuccessfulResults(noteDataResults);
+    return {
+      notes: results.map(({ note }) => note),
+      bodies: new Map(results.map(({ note, body }) => [note.path, body])),
+    };
   } catch (error) {
     handleError(error, ErrorCategory.API, {
       operation: "loadNotesFromVault",
@@ -41,6 +83,78 @@ export const loadNotesFromVault = async (app: App): Promise<NoteData[]> => {
   }
 };
 
+/**
+ * Resolves pending file-level changes into note index deltas.
+ *
+ * Reads content and metadata only for the files referenced by the changes.
+ * Changes that no longer point at a markdown note (e.g. renamed to another
+ * extension) are converted into removals so the index never keeps stale entries.
+ * The link index is patched with the links of the changed files, and notes that
+ * gained or lost a backlink through them are re-emitted with their new count.
+ * Deltas of the changed files carry the bodies just read, for the content index.
+ *
+ * @param app - The Obsidian App instance providing access to vault and metadata cache
+ * @param changes - File-level changes collected from vault and metadata events
+ * @param notes - Notes currently in the index
+ * @param linkIndex - Link index of the loaded notes, updated in place
+ * @param excerpt - Rules choosing the part of each note shown as its preview
+ * @returns Promise resolving to deltas in the same order as the input changes, followed by
+ *   upserts of other notes whose backlink counts changed
+ */
+export const resolveNoteChanges = async (
+  app: App,
+  changes: VaultNoteChange[],
+  notes: NoteData[],
+  linkIndex: LinkIndex,
+  excerpt: ExcerptSettings = DEFAULT_EXCERPT_SETTINGS
+): Promise<NoteIndexDelta[]> => {
+  const changedPaths = new Set(
+    changes.flatMap((change) =>
+      change.type === "remove"
+        ? [change.path]
+        : change.type === "move"
+          ? [change.oldPath, change.file.path]
+          : [change.file.path]
+    )
+  );
+  const indexedPaths = new Set(
+    notes.filter((note) => changedPaths.has(note.path)).map((note) => note.path)
+  );
+  const relinkedPaths = updateLinkIndex(linkIndex, getResolvedLinks(app), changes, (path) =>
+    indexedPaths.has(path)
+  );
+
+  const deltas = await Promise.all(
+    changes.map(async (change): Promise<NoteIndexDelta> => {
+      if (change.type === "remove") {
+        return change;
+      }
+
+      const result =
+        filterMarkdownFiles([change.file]).length === 0
+          ? null
+          : await transformFileToNoteData(app, change.file, linkIndex, excerpt);
+      if (change.type === "move") {
+        return result
+          ? { type: "move", oldPath: change.oldPath, ...result }
+          : { type: "remove", path: change.oldPath };
+      }
+      return result ? { type: "upsert", ...result } : { type: "remove", path: change.file.path };
+    })
+  );
+
+  // Notes the changed files started or stopped linking to
+  for (const note of notes) {
+    if (!relinkedPaths.has(note.path) || changedPaths.has(note.path)) continue;
+    const backlinkCount = getBacklinkCount(linkIndex, note.path);
+    if (backlinkCount !== note.backlinkCount) {
+      deltas.push({ type: "upsert", note: { ...note, backlinkCount } });
+    }
+  }
+
+  return deltas;
+};
+
 /**
  * Filters TFile array to only include markdown files with proper type narrowing.
  *
@@ -55,6 +169,14 @@ const filterMarkdownFiles = (files: TFile[]): MarkdownFile[] => {
   return files.filter(isMarkdownFile);
 };
 
+/**
+ * Reads Obsidian's resolved link graph from the metadata cache.
+ *
+ * @param app - Obsidian App instance providing the resolved links
+ * @returns Resolved links by source path, empty before the cache has resolved them
+ */
+const getResolvedLinks = (app: App): ResolvedLinks => app.metadataCache.resolvedLinks ?? {};
+
 /**
  * Processes multiple files concurrently with individual error handling.
  *
@@ -63,43 +185,70 @@ const filterMarkdownFiles = (files: TFile[]): MarkdownFile[] => {
  *
  * @param app - Obsidian App instance
  * @param files - Array of markdown files to process
+ * @param linkIndex - Link index providing the backlink counts
+ * @param excerpt - Rules choosing the part of each note shown as its preview
  * @returns Promise resolving to settled results for each file transformation
  */
 const processFilesWithErrorHandling = async (
   app: App,
-  files: MarkdownFile[]
-): Promise<PromiseSettledResult<NoteData>[]> => {
-  const noteDataPromises = files.map((file) => transformFileToNoteData(app, file));
+  files: MarkdownFile[],
+  linkIndex: LinkIndex,
+  excerpt: ExcerptSettings
+): Promise<PromiseSettledResult<NoteWithBody>[]> => {
+  const noteDataPromises = files.map((file) =>
+    transformFileToNoteData(app, file, linkIndex, excerpt)
+  );
   return Promise.allSettled(noteDataPromises);
 };
 
 /**
  * Transforms a single TFile into a NoteData object with metadata and content preview.
  *
+ * The note body is returned next to the note for the content index.
+ *
  * This function handles the complete transformation pipeline for individual files,
  * including metadata extraction and content preview generation. If any step fails,
  * it gracefully falls back to default values to ensure the note is still included.
  *
  * @param app - Obsidian App instance for accessing vault and metadata
  * @param file - The TFile to transform
- * @returns Promise resolving to NoteData object (never rejects, uses fallbacks)
+ * @param linkIndex - Link index providing the backlink counts
+ * @param excerpt - Rules choosing the part of the note shown as its preview
+ * @returns Promise resolving to the NoteData object and its body (never rejects, uses fallbacks)
  */
-const transformFileToNoteData = async (app: App, file: TFile): Promise<NoteData> => {
+const transformFileToNoteData = async (
+  app: App,
+  file: TFile,
+  linkIndex: LinkIndex,
+  excerpt: ExcerptSettings
+): Promise<NoteWithBody> => {
+  const backlinkCount = getBacklinkCount(linkIndex, file.path);
   try {
     const cached = app.metadataCache.getFileCache(file);
     const metadata = extractNoteMetadata(cached);
 
     const content = await app.vault.cachedRead(file);
-    const contentPreview = extractContentPreview(content, file.basename);
-
-    return createNoteDataObject(file, metadata, contentPreview);
+    const contentPreview = extractContentPreview(
+      content,
+      file.basename,
+      metadata.frontmatter,
+      excerpt
+    );
+
+    return {
+      note: createNoteDataObject(file, metadata, contentPreview, backlinkCount),
+      body: contentPreview.body,
+    };
   } catch (error) {
     // Graceful degradation: ensure note is still included even if processing fails
     // This prevents individual file errors from breaking the entire note loading process
     const defaultMetadata = createDefaultMetadata();
     const errorPreview = createErrorPreview(file, error);
 
-    return createNoteDataObject(file, defaultMetadata, errorPreview);
+    return {
+      note: createNoteDataObject(file, defaultMetadata, errorPreview, backlinkCount),
+      body: errorPreview.body,
+    };
   }
 };
 
@@ -177,15 +326,26 @@ const normalizeTagName = (tag: string): string => {
 /**
  * Extracts a content preview from the note content, excluding frontmatter.
  *
+ * A frontmatter property named by the excerpt rules is previewed when present;
+ * otherwise the preview is an excerpt of the note body.
+ *
  * @param content - Full content of the markdown file
  * @param filename - Filename to use as fallback if content is empty
+ * @param frontmatter - Frontmatter of the note, if any
+ * @param excerpt - Rules choosing the part of the note shown as its preview
  * @returns ContentPreview object with preview text and success status
  */
-const extractContentPreview = (content: string, filename: string): ContentPreview => {
+const extractContentPreview = (
+  content: string,
+  filename: string,
+  frontmatter: FrontMatterCache | null,
+  excerpt: ExcerptSettings
+): ContentPreview => {
   const cleanContent = removeFrontmatter(content);
-  const preview = generatePreview(cleanContent, filename);
+  const preview =
+    getPropertyExcerpt(frontmatter, excerpt) ?? generatePreview(cleanContent, filename, excerpt);
 
-  return { preview, success: true };
+  return { preview, body: cleanContent, success: true };
 };
 
 /**
@@ -194,10 +354,12 @@ const extractContentPreview = (content: string, filename: string): ContentPrevie
  * Frontmatter is enclosed between '---' delimiters and should be excluded
  * from content previews to show actual note content to users.
  *
+ * Exported so that cards strip the frontmatter of the bodies they read on demand.
+ *
  * @param content - Full markdown content including potential frontmatter
  * @returns Content with frontmatter removed, or original if no frontmatter
  */
-const removeFrontmatter = (content: string): string => {
+export const removeFrontmatter = (content: string): string => {
   if (!hasFrontmatter(content)) {
     return content;
   }
@@ -235,21 +397,126 @@ const hasFrontmatter = (content: string): boolean => {
 };
 
 /**
- * Generates a preview from content by taking the first few non-empty lines.
+ * Returns the first frontmatter property named by the excerpt rules that has text.
+ *
+ * @param frontmatter - Frontmatter of the note, if any
+ * @param excerpt - Excerpt rules listing the preferred property keys
+ * @returns Property text limited to the excerpt length, or null if none has text
+ */
+const getPropertyExcerpt = (
+  frontmatter: FrontMatterCache | null,
+  excerpt: ExcerptSettings
+): string | null => {
+  for (const key of excerpt.excerptPropertyKeys) {
+    const value = frontmatter?.[key];
+    if (typeof value !== "string" && typeof value !== "number") continue;
+    const text = String(value).trim();
+    if (text) return truncateExcerpt(text, excerpt.excerptMaxLength);
+  }
+  return null;
+};
+
+/**
+ * Generates a preview from content by taking its first non-empty lines.
+ *
+ * The excerpt starts after the chosen heading when the note has it, optionally
+ * skips lines without prose, and ends once the character budget is spent.
  *
  * @param content - Clean content without frontmatter
  * @param fallbackTitle - Filename to use if content is empty
- * @returns Preview text limited to PREVIEW_MAX_LINES, or fallback title
+ * @param excerpt - Rules choosing the part of the note shown as its preview
+ * @returns Preview text limited to the excerpt length, or fallback title
  */
-const generatePreview = (content: string, fallbackTitle: string): string => {
-  const lines = content.split("\n");
+const generatePreview = (
+  content: string,
+  fallbackTitle: string,
+  excerpt: ExcerptSettings
+): string => {
+  let lines = startAfterHeading(content.split("\n"), excerpt.excerptStartHeading);
+  if (excerpt.excerptSkipSyntax) {
+    lines = removeNonProseLines(lines);
+  }
   const nonEmptyLines = lines.filter((line) => line.trim() !== "");
-  const preview = nonEmptyLines.slice(0, PREVIEW_MAX_LINES).join("\n").trim();
+  const preview = truncateExcerpt(nonEmptyLines.join("\n").trim(), excerpt.excerptMaxLength);
 
   // Use filename as fallback if no meaningful content is found
   return preview || fallbackTitle;
 };
 
+/**
+ * Matches ATX headings, capturing the heading text without closing hashes.
+ */
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+
+/**
+ * Returns the lines after the first heading with the given text.
+ *
+ * @param lines - Lines of the note body
+ * @param heading - Heading text, matched case-insensitively; empty to keep every line
+ * @returns Lines after the heading, or all lines when the note lacks it
+ */
+const startAfterHeading = (lines: string[], heading: string): string[] => {
+  const wanted = heading.trim().toLowerCase();
+  if (!wanted) return lines;
+
+  const index = lines.findIndex(
+    (line) => HEADING_PATTERN.exec(line)?.[1].trim().toLowerCase() === wanted
+  );
+  return index === -1 ? lines : lines.slice(index + 1);
+};
+
+/**
+ * Removes lines that carry no prose: headings, horizontal rules, table rows,
+ * code blocks with their fences, and lines made only of links or embeds
+ * (such as breadcrumbs like `[[Home]] > [[Projects]]`).
+ *
+ * @param lines - Lines of the note body
+ * @returns Lines of prose, in order
+ */
+const removeNonProseLines = (lines: string[]): string[] => {
+  let fence: string | null = null;
+  return lines.filter((line) => {
+    const trimmed = line.trim();
+    const fenceMarker = /^(`{3,}|~{3,})/.exec(trimmed)?.[1];
+    if (fence) {
+      // Inside a code block until the fence that closes it
+      if (fenceMarker?.startsWith(fence)) fence = null;
+      return false;
+    }
+    if (fenceMarker) {
+      fence = fenceMarker;
+      return false;
+    }
+    return !(
+      HEADING_PATTERN.test(line) ||
+      /^(?:[-*_]\s*){3,}$/.test(trimmed) ||
+      trimmed.startsWith("|") ||
+      isLinkOnlyLine(trimmed)
+    );
+  });
+};
+
+/**
+ * Checks whether a non-empty line holds only links, embeds and punctuation.
+ *
+ * @param line - Trimmed line of the note body
+ * @returns True if nothing but links and separators is left without the links
+ */
+const isLinkOnlyLine = (line: string): boolean => {
+  const withoutLinks = line.replace(/!?\[\[[^\]]*\]\]/g, "").replace(/!?\[[^\]]*\]\([^)]*\)/g, "");
+  return withoutLinks !== line && /^[\s\p{P}\p{S}]*$/u.test(withoutLinks);
+};
+
+/**
+ * Limits an excerpt to a number of characters, ending with an ellipsis when cut.
+ *
+ * @param text - Excerpt text
+ * @param maxLength - Most characters to keep, the ellipsis included
+ * @returns Text within the limit
+ */
+const truncateExcerpt = (text: string, maxLength: number): string =>
+  text.length <= maxLength ? text : `${text.slice(0, Math.max(0, maxLength - 1)).trimEnd()}…`;
+
 /**
  * Creates default metadata object for files that fail to process.
  *
@@ -270,6 +537,7 @@ const createDefaultMetadata = (): NoteMetadata => ({
  */
 const createErrorPreview = (file: TFile, error: unknown): ContentPreview => ({
   preview: file.basename,
+  body: "",
   success: false,
   error: error instanceof Error ? error.message : "Unknown error",
 });
@@ -280,39 +548,45 @@ const createErrorPreview = (file: TFile, error: unknown): ContentPreview => ({
  * @param file - The source TFile from Obsidian
  * @param metadata - Extracted metadata including tags and frontmatter
  * @param contentPreview - Generated content preview
+ * @param backlinkCount - Number of other notes linking to the file
  * @returns Complete NoteData object for use in the card view
  */
 const createNoteDataObject = (
   file: TFile,
   metadata: NoteMetadata,
-  contentPreview: ContentPreview
+  contentPreview: ContentPreview,
+  backlinkCount: number
 ): NoteData => {
   return {
     file,
     title: file.basename,
     path: file.path,
     preview: contentPreview.preview,
+    wordCount: countWords(contentPreview.body),
     lastModified: new Date(file.stat.mtime),
     frontmatter: metadata.frontmatter,
     tags: metadata.tags,
     folder: file.parent?.path || "", // Handle root folder files
+    backlinkCount,
   };
 };
 
 /**
- * Extracts successfully processed NoteData objects from Promise.allSettled results.
+ * Extracts successfully processed notes from Promise.allSettled results.
  *
  * Filters out rejected promises to ensure only valid NoteData objects are returned,
  * implementing the error resilience pattern where individual file failures don't
  * prevent the overall loading operation from succeeding.
  *
  * @param results - Array of settled promise results from file processing
- * @returns Array of successfully processed NoteData objects
+ * @returns Array of successfully processed notes with their bodies
  */
-const extractSuccessfulResults = (results: PromiseSettledResult<NoteData>[]): NoteData[] => {
+const extractSuccessfulResults = (
+  results: PromiseSettledResult<NoteWithBody>[]
+): NoteWithBody[] => {
   const isPromiseFulfilled = (
-    result: PromiseSettledResult<NoteData>
-  ): result is PromiseFulfilledResult<NoteData> => {
+    result: PromiseSettledResult<NoteWithBody>
+  ): result is PromiseFulfilledResult<NoteWithBody> => {
     return result.status === "fulfilled";
   };
 
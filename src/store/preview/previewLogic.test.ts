@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { getMarkdownExcerpt, stripMarkdown } from "./previewLogic";
+
+describe("previewLogic", () => {
+  describe("stripMarkdown", () => {
+    it.each([
+      ["headings", "## Project plan", "Project plan"],
+      ["emphasis", "**Bold**, *italic*, __strong__ and _em_", "Bold, italic, strong and em"],
+      ["strikethrough and highlights", "~~old~~ and ==new==", "old and new"],
+      ["inline code", "Run `npm test` first", "Run npm test first"],
+      ["wikilinks", "See [[Meeting notes]] and [[Plan#Goals]]", "See Meeting notes and Plan"],
+      ["wikilink aliases", "See [[2024-01-15|the meeting]]", "See the meeting"],
+      ["markdown links", "Read [the docs](https://example.com)", "Read the docs"],
+      ["embeds and images", "Chart ![[chart.png]] ![alt](img.png)", "Chart"],
+      ["footnotes and block ids", "A claim[^1] ^claim-1", "A claim"],
+      ["comments and HTML", "Text %%hidden%% <span>shown</span>", "Text shown"],
+      ["quotes", "> Quoted text", "Quoted text"],
+      ["callouts", "> [!note]- Remember", "Remember"],
+      ["list items", "- item", "item"],
+      ["numbered items", "1. first", "first"],
+      ["tasks", "- [x] Done task", "Done task"],
+    ])("should strip %s", (_, preview, expected) => {
+      expect(stripMarkdown(preview)).toBe(expected);
+    });
+
+    it("should keep underscores inside words", () => {
+      expect(stripMarkdown("Set max_cards_per_row")).toBe("Set max_cards_per_row");
+    });
+
+    it("should drop lines left without text", () => {
+      expect(
+        stripMarkdown(
+          ["# Title", "---", "```ts", "code", "```", "> [!tip]", "| a |", "|---|"].join("\n")
+        )
+      ).toBe(["Title", "code", "| a |"].join("\n"));
+    });
+  });
+
+  describe("getMarkdownExcerpt", () => {
+    it("should keep blank lines between the kept lines", () => {
+      expect(getMarkdownExcerpt("# Title\n\nFirst\n\nSecond\nThird", 3, 1000)).toBe(
+        "# Title\n\nFirst\n\nSecond"
+      );
+    });
+
+    it("should not exceed the maximum length", () => {
+      expect(getMarkdownExcerpt("a".repeat(50), 3, 10)).toBe("a".repeat(10));
+    });
+
+    it("should trim leading blank lines", () => {
+      expect(getMarkdownExcerpt("\n\nText", 3, 1000)).toBe("Text");
+    });
+  });
+});
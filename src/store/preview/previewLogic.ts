@@ -0,0 +1,103 @@
+/**
+ * Pure Functions - Card Previews
+ *
+ * These functions prepare the note preview of a card for the preview modes other
+ * than raw: plain text without markdown syntax, and a bounded excerpt of the note
+ * to be rendered as markdown. Stripping is a lightweight line-by-line cleanup, not
+ * a markdown parser; it removes the syntax that clutters previews most.
+ */
+
+/**
+ * Line patterns removed from plain text previews (internal)
+ * Code fences, horizontal rules, table separators and lone block ids carry no text.
+ */
+const SYNTAX_ONLY_LINE = /^\s*(?:```.*|~~~.*|(?:[-*_]\s*){3,}|\|?[\s:|-]*-[\s:|-]*\|?|\^[\w-]+)$/;
+
+/**
+ * Inline replacements applied in order to each line of a plain text preview (internal)
+ */
+const INLINE_REPLACEMENTS: [RegExp, string][] = [
+  // Comments and HTML tags
+  [/%%.*?%%/g, ""],
+  [/<[^>]+>/g, ""],
+  // Embeds and images show nothing in a text preview
+  [/!\[\[[^\]]*\]\]/g, ""],
+  [/!\[[^\]]*\]\([^)]*\)/g, ""],
+  // Wikilinks show their alias, or the linked note without the heading or block
+  [/\[\[[^\]|]*\|([^\]]*)\]\]/g, "$1"],
+  [/\[\[([^\]#^]*)[^\]]*\]\]/g, "$1"],
+  // Markdown links show their text; footnote references are dropped
+  [/\[\^[^\]]*\]/g, ""],
+  [/\[([^\]]*)\]\([^)]*\)/g, "$1"],
+  // Emphasis, strikethrough, highlights and inline code
+  [/(\*\*|__)(.+?)\1/g, "$2"],
+  [/\*(\S(?:.*?\S)?)\*/g, "$1"],
+  // Underscores inside words (snake_case) are not emphasis
+  [/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, "$1$2"],
+  [/(~~|==)(.+?)\1/g, "$2"],
+  [/`([^`]*)`/g, "$1"],
+  // Block ids at the end of a line
+  [/\s\^[\w-]+$/, ""],
+  // Spaces left where syntax was removed
+  [/\s{2,}/g, " "],
+];
+
+/**
+ * Block prefix patterns removed from the start of each line, in order (internal)
+ */
+const BLOCK_PREFIXES: RegExp[] = [
+  // Blockquotes and callouts, keeping the callout title
+  /^\s*(?:>\s?)+(?:\[![^\]]*\][+-]?\s*)?/,
+  // Headings
+  /^\s*#{1,6}\s+/,
+  // Tasks and list items
+  /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/,
+];
+
+/**
+ * Strip markdown syntax from a preview
+ *
+ * Each line loses its block markers (headings, quotes, callouts, lists, tasks) and
+ * inline syntax (emphasis, links, embeds, code, comments, HTML tags). Lines left
+ * without text are dropped, so the preview lines show text only.
+ *
+ * @param {string} preview - Preview lines as written in the note
+ * @returns {string} Preview lines as plain text
+ */
+export const stripMarkdown = (preview: string): string =>
+  preview
+    .split("\n")
+    .filter((line) => !SYNTAX_ONLY_LINE.test(line))
+    .map((line) => {
+      const text = BLOCK_PREFIXES.reduce((current, prefix) => current.replace(prefix, ""), line);
+      return INLINE_REPLACEMENTS.reduce(
+        (current, [pattern, replacement]) => current.replace(pattern, replacement),
+        text
+      ).trim();
+    })
+    .filter((line) => line !== "")
+    .join("\n");
+
+/**
+ * Beginning of a note to render as its preview
+ *
+ * Keeps the note as written up to the given number of non-empty lines, blank lines
+ * included so paragraphs and lists render as in the note, and never more than the
+ * given number of characters, so long notes cost no more to render than short ones.
+ * Cards clip what does not fit.
+ *
+ * @param {string} body - Note content without frontmatter
+ * @param {number} maxLines - Most non-empty lines to keep
+ * @param {number} maxLength - Most characters to keep
+ * @returns {string} Markdown excerpt of the note
+ */
+export const getMarkdownExcerpt = (body: string, maxLines: number, maxLength: number): string => {
+  const lines: string[] = [];
+  let textLines = 0;
+  for (const line of body.split("\n")) {
+    if (textLines >= maxLines) break;
+    lines.push(line);
+    if (line.trim() !== "") textLines++;
+  }
+  return lines.join("\n").trim().slice(0, maxLength);
+};
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import type { NoteData } from "../../types";
+import {
+  applyDeltasToContentIndex,
+  buildContentIndex,
+  contentIndexMatchesNote,
+  isContentQueryEmpty,
+  parseContentQuery,
+  searchContentIndex,
+  tokenizeContent,
+} from "./contentIndex";
+
+const createNote = (path: string): NoteData => ({
+  file: {} as any,
+  title: path,
+  path,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date("2024-01-01T00:00:00Z"),
+  frontmatter: null,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+const BODIES = new Map([
+  ["a.md", "Weekly meeting notes. Action items: review the budget."],
+  ["b.md", "Meeting cancelled; no action taken."],
+  ["c.md", "Budget review for Q3, see [[Action Items]]."],
+]);
+const NOTES = Array.from(BODIES.keys(), createNote);
+
+/** Paths matched by a query, in a stable order */
+const search = (index: ReturnType<typeof buildContentIndex>, query: string): string[] =>
+  Array.from(searchContentIndex(index, parseContentQuery(query))).sort();
+
+describe("contentIndex", () => {
+  describe("tokenizeContent", () => {
+    it("should split on whitespace and punctuation and lowercase tokens", () => {
+      expect(tokenizeContent("Hello, World! [[Link]] foo-bar_baz")).toEqual([
+        "hello",
+        "world",
+        "link",
+        "foo",
+        "bar",
+        "baz",
+      ]);
+    });
+
+    it("should keep non-ASCII words and split on CJK punctuation", () => {
+      expect(tokenizeContent("会議メモ、予算の確認。Café")).toEqual([
+        "会議メモ",
+        "予算の確認",
+        "café",
+      ]);
+    });
+  });
+
+  describe("parseContentQuery", () => {
+    it("should separate terms and quoted phrases", () => {
+      expect(parseContentQuery('Meeting "Action Items" budget')).toEqual({
+        terms: ["meeting", "budget"],
+        phrases: ["action items"],
+      });
+    });
+
+    it("should treat single-word phrases as terms and drop duplicates", () => {
+      expect(parseContentQuery('"budget" budget Budget')).toEqual({
+        terms: ["budget"],
+        phrases: [],
+      });
+    });
+
+    it("should accept an unclosed phrase while typing", () => {
+      expect(parseContentQuery('"action it')).toEqual({ terms: [], phrases: ["action it"] });
+    });
+
+    it("should report queries without words as empty", () => {
+      expect(isContentQueryEmpty(parseContentQuery(' "" -- '))).toBe(true);
+      expect(isContentQueryEmpty(parseContentQuery("a"))).toBe(false);
+    });
+  });
+
+  describe("searchContentIndex", () => {
+    const index = buildContentIndex(BODIES);
+
+    it("should require every term", () => {
+      expect(search(index, "meeting action")).toEqual(["a.md", "b.md"]);
+      expect(search(index, "meeting budget")).toEqual(["a.md"]);
+    });
+
+    it("should match terms inside words", () => {
+      expect(search(index, "meet")).toEqual(["a.md", "b.md"]);
+      expect(search(index, "cancel")).toEqual(["b.md"]);
+    });
+
+    it("should match phrases on consecutive words regardless of punctuation", () => {
+      expect(search(index, '"action items"')).toEqual(["a.md", "c.md"]);
+      expect(search(index, '"budget review"')).toEqual(["c.md"]);
+      expect(search(index, '"review budget"')).toEqual([]);
+    });
+
+    it("should not match phrases inside longer words", () => {
+      const wordIndex = buildContentIndex(new Map([["d.md", "bold mango"]]));
+      expect(search(wordIndex, '"old man"')).toEqual([]);
+    });
+
+    it("should combine terms and phrases", () => {
+      expect(search(index, 'weekly "action items"')).toEqual(["a.md"]);
+    });
+  });
+
+  describe("contentIndexMatchesNote", () => {
+    const index = buildContentIndex(BODIES);
+    const queries = ["meet", "meeting budget", '"action items"', 'review "budget review"', "zzz"];
+
+    it.each(queries)("should agree with searchContentIndex for %s", (query) => {
+      const matches = search(index, query);
+      for (const note of NOTES) {
+        expect(contentIndexMatchesNote(index, note.path, parseContentQuery(query))).toBe(
+          matches.includes(note.path)
+        );
+      }
+    });
+
+    it("should not match notes missing from the index", () => {
+      expect(contentIndexMatchesNote(index, "missing.md", parseContentQuery("meeting"))).toBe(
+        false
+      );
+    });
+  });
+
+  describe("applyDeltasToContentIndex", () => {
+    it("should produce the same result as a full rebuild", () => {
+      const result = applyDeltasToContentIndex(buildContentIndex(BODIES), [
+        { type: "upsert", note: createNote("b.md"), body: "Rescheduled to Friday" },
+        { type: "upsert", note: createNote("d.md"), body: "Friday budget meeting" },
+        { type: "move", oldPath: "c.md", note: createNote("archive/c.md") },
+        { type: "remove", path: "a.md" },
+      ]);
+
+      expect(result).toEqual(
+        buildContentIndex(
+          new Map([
+            ["b.md", "Rescheduled to Friday"],
+            ["archive/c.md", BODIES.get("c.md") ?? ""],
+            ["d.md", "Friday budget meeting"],
+          ])
+        )
+      );
+    });
+
+    it("should only replace the posting sets of tokens a body gains or loses", () => {
+      const index = buildContentIndex(BODIES);
+      const postings = new Map(index.postings);
+      const body = `${BODIES.get("a.md")} quarterly`;
+
+      const result = applyDeltasToContentIndex(index, [{ type: "upsert", note: NOTES[0], body }]);
+
+      expect(result).not.toBe(index);
+      expect(result.postings.get("quarterly")).toEqual(new Set(["a.md"]));
+      for (const [token, paths] of postings) {
+        expect(result.postings.get(token)).toBe(paths);
+      }
+    });
+
+    it("should leave posting sets handed out earlier untouched", () => {
+      const index = buildContentIndex(BODIES);
+      const weekly = index.postings.get("weekly");
+
+      applyDeltasToContentIndex(index, [{ type: "remove", path: "a.md" }]);
+
+      expect(weekly).toEqual(new Set(["a.md"]));
+      expect(index.postings.has("weekly")).toBe(false);
+    });
+
+    it("should return the same index when no body changed", () => {
+      const index = buildContentIndex(BODIES);
+      const retagged = { ...NOTES[0], tags: ["work"] };
+
+      expect(
+        applyDeltasToContentIndex(index, [
+          { type: "upsert", note: retagged, body: BODIES.get("a.md") },
+        ])
+      ).toBe(index);
+      expect(applyDeltasToContentIndex(index, [{ type: "upsert", note: retagged }])).toBe(index);
+    });
+  });
+});
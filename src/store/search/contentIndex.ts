@@ -0,0 +1,288 @@
+/**
+ * Pure Functions - Full-Text Content Index
+ *
+ * These functions maintain an in-memory inverted index over note bodies and
+ * answer content search queries against it. The index is built alongside the
+ * shared note index on a full load and patched with the same single-note deltas,
+ * so a change to one file only re-indexes that file.
+ *
+ * Query semantics:
+ * - Bare words are terms; a note matches a term when one of its words contains it
+ *   (so typing "meet" already finds "meeting")
+ * - Quoted text is a phrase; a note matches when the words appear consecutively
+ * - All terms and phrases must match (AND)
+ * - Matching is case-insensitive and ignores punctuation between words
+ */
+
+import type { NoteIndexDelta } from "../../types";
+
+/**
+ * Inverted index over note bodies
+ */
+export interface ContentIndex {
+  /** Paths of the notes containing each token */
+  postings: Map<string, Set<string>>;
+  /**
+   * Normalized body of each note: its tokens joined by single spaces and padded
+   * with a space on both sides, so phrases can be verified with a plain substring check
+   */
+  documents: Map<string, string>;
+}
+
+/**
+ * Parsed content search query
+ */
+export interface ContentQuery {
+  /** Normalized single-word terms, each matched as part of a word */
+  terms: string[];
+  /** Normalized multi-word phrases (tokens joined by single spaces) */
+  phrases: string[];
+}
+
+/**
+ * Splits text into words: whitespace, ASCII punctuation and CJK symbols separate tokens (internal)
+ */
+const TOKEN_PATTERN = /[^\s!-/:-@[-`{-~\u3000-\u303f]+/g;
+
+/**
+ * Splits a query into quoted phrases and bare words (internal)
+ *
+ * An unclosed quote extends to the end of the query so the phrase can be typed incrementally.
+ */
+const QUERY_PART_PATTERN = /"([^"]*)"?|[^\s"]+/g;
+
+/**
+ * Split text into lowercase tokens
+ *
+ * Shared by indexing and query parsing so that both sides agree on word boundaries.
+ *
+ * @param {string} text - Text to tokenize
+ * @returns {string[]} Lowercase tokens in order of appearance
+ */
+export const tokenizeContent = (text: string): string[] =>
+  text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+/**
+ * Parse a content search query into terms and phrases
+ *
+ * Duplicate terms and phrases are dropped. A quoted phrase with a single word is
+ * treated as a term.
+ *
+ * @param {string} query - Raw query text, e.g. `meeting "action items"`
+ * @returns {ContentQuery} Parsed query
+ */
+export const parseContentQuery = (query: string): ContentQuery => {
+  const terms = new Set<string>();
+  const phrases = new Set<string>();
+
+  for (const match of query.match(QUERY_PART_PATTERN) ?? []) {
+    const isQuoted = match.startsWith('"');
+    const tokens = tokenizeContent(match);
+    if (isQuoted && tokens.length > 1) {
+      phrases.add(tokens.join(" "));
+    } else {
+      for (const token of tokens) terms.add(token);
+    }
+  }
+
+  return { terms: Array.from(terms), phrases: Array.from(phrases) };
+};
+
+/**
+ * Check whether a parsed query has nothing to search for
+ *
+ * @param {ContentQuery} query - Parsed query
+ * @returns {boolean} True if the query has no terms and no phrases
+ */
+export const isContentQueryEmpty = (query: ContentQuery): boolean =>
+  query.terms.length === 0 && query.phrases.length === 0;
+
+/**
+ * Build a content index from the bodies of a complete notes collection
+ *
+ * @param {Map<string, string>} bodies - Body of every loaded note by path
+ * @returns {ContentIndex} Fresh index
+ */
+export const buildContentIndex = (bodies: Map<string, string>): ContentIndex => {
+  const index: ContentIndex = { postings: new Map(), documents: new Map() };
+  bodies.forEach((body, path) => {
+    setDocument(index, path, normalizeContent(body), false);
+  });
+  return index;
+};
+
+/**
+ * Apply a batch of note index deltas to the content index
+ *
+ * Deltas without a body leave the indexed body as it is, under the new path for
+ * moves. Returns the same object when no note body changed (e.g. a frontmatter-only
+ * edit). Otherwise the maps are patched in place and returned in a new index
+ * object, so stores holding the index see that it changed. Only the tokens a body
+ * gains or loses are touched, and their posting sets are replaced by copies, since
+ * search results may hand posting sets out.
+ *
+ * @param {ContentIndex} index - Current content index, owned by the caller
+ * @param {NoteIndexDelta[]} deltas - Changes to apply, in order
+ * @returns {ContentIndex} Updated content index
+ */
+export const applyDeltasToContentIndex = (
+  index: ContentIndex,
+  deltas: NoteIndexDelta[]
+): ContentIndex => {
+  let hasChanged = false;
+
+  for (const delta of deltas) {
+    if (delta.type === "remove") {
+      hasChanged = setDocument(index, delta.path, undefined, true) || hasChanged;
+      continue;
+    }
+    let document = delta.body === undefined ? undefined : normalizeContent(delta.body);
+    if (delta.type === "move") {
+      document ??= index.documents.get(delta.oldPath);
+      hasChanged = setDocument(index, delta.oldPath, undefined, true) || hasChanged;
+    }
+    if (document === undefined) continue;
+    hasChanged = setDocument(index, delta.note.path, document, true) || hasChanged;
+  }
+
+  return hasChanged ? { postings: index.postings, documents: index.documents } : index;
+};
+
+/**
+ * Find the paths of all notes matching a parsed query
+ *
+ * Terms are resolved through the token vocabulary and postings; phrases narrow
+ * the candidates through the postings of their words and are then verified
+ * against the normalized bodies.
+ *
+ * @param {ContentIndex} index - Content index to search
+ * @param {ContentQuery} query - Parsed, non-empty query
+ * @returns {Set<string>} Paths of the matching notes
+ */
+export const searchContentIndex = (index: ContentIndex, query: ContentQuery): Set<string> => {
+  let result: Set<string> | null = null;
+
+  for (const term of query.terms) {
+    const paths = new Set<string>();
+    index.postings.forEach((tokenPaths, token) => {
+      if (token.includes(term)) tokenPaths.forEach((path) => paths.add(path));
+    });
+    result = intersect(result, paths);
+  }
+
+  for (const phrase of query.phrases) {
+    let candidates: Set<string> | null = result;
+    for (const token of phrase.split(" ")) {
+      candidates = intersect(candidates, index.postings.get(token) ?? new Set());
+    }
+    const paths = new Set<string>();
+    candidates?.forEach((path) => {
+      if (documentContainsPhrase(index.documents.get(path), phrase)) paths.add(path);
+    });
+    result = paths;
+  }
+
+  return result ?? new Set(index.documents.keys());
+};
+
+/**
+ * Check whether a single indexed note matches a parsed query
+ *
+ * Gives the same answer as {@link searchContentIndex} for that note; used when
+ * placing a single changed note into a filtered list.
+ *
+ * @param {ContentIndex} index - Content index containing the note
+ * @param {string} path - Path of the note
+ * @param {ContentQuery} query - Parsed query
+ * @returns {boolean} True if the note matches every term and phrase
+ */
+export const contentIndexMatchesNote = (
+  index: ContentIndex,
+  path: string,
+  query: ContentQuery
+): boolean => {
+  const document = index.documents.get(path);
+  if (document === undefined) return isContentQueryEmpty(query);
+  return (
+    query.terms.every((term) => document.includes(term)) &&
+    query.phrases.every((phrase) => documentContainsPhrase(document, phrase))
+  );
+};
+
+/**
+ * Normalize a body into its padded token string (internal)
+ */
+const normalizeContent = (content: string): string => ` ${tokenizeContent(content).join(" ")} `;
+
+/**
+ * Whether a normalized body contains a phrase on word boundaries (internal)
+ */
+const documentContainsPhrase = (document: string | undefined, phrase: string): boolean =>
+  document?.includes(` ${phrase} `) ?? false;
+
+/**
+ * Intersect two path sets; null stands for "no constraint yet" (internal)
+ */
+const intersect = (current: Set<string> | null, paths: Set<string>): Set<string> => {
+  if (current === null) return paths;
+  const result = new Set<string>();
+  current.forEach((path) => {
+    if (paths.has(path)) result.add(path);
+  });
+  return result;
+};
+
+/**
+ * Set or remove the normalized body of a note, updating the postings of the
+ * tokens it gains or loses (internal)
+ *
+ * When `copySets` is true each changed posting set is copied before it is changed,
+ * so sets handed out earlier stay intact; a fresh build can skip the copies.
+ *
+ * @returns {boolean} True if the body changed
+ */
+const setDocument = (
+  index: ContentIndex,
+  path: string,
+  document: string | undefined,
+  copySets: boolean
+): boolean => {
+  const previous = index.documents.get(path);
+  if (previous === document) return false;
+
+  const previousTokens = previous === undefined ? new Set<string>() : getDocumentTokens(previous);
+  const tokens = document === undefined ? new Set<string>() : getDocumentTokens(document);
+
+  for (const token of previousTokens) {
+    if (tokens.has(token)) continue;
+    const existing = index.postings.get(token);
+    if (!existing) continue;
+    const paths = copySets ? new Set(existing) : existing;
+    paths.delete(path);
+    if (paths.size === 0) {
+      index.postings.delete(token);
+    } else {
+      index.postings.set(token, paths);
+    }
+  }
+  for (const token of tokens) {
+    if (previousTokens.has(token)) continue;
+    const existing = index.postings.get(token);
+    const paths = existing && !copySets ? existing : new Set(existing);
+    paths.add(path);
+    index.postings.set(token, paths);
+  }
+
+  if (document === undefined) {
+    index.documents.delete(path);
+  } else {
+    index.documents.set(path, document);
+  }
+  return true;
+};
+
+/**
+ * Unique tokens of a normalized body (internal)
+ */
+const getDocumentTokens = (document: string): Set<string> =>
+  new Set(document.split(" ").filter((token) => token !== ""));
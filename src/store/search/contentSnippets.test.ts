@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { parseContentQuery } from "./contentIndex";
+import { extractContentSnippets, getHighlightSegments } from "./contentSnippets";
+
+const LONG_TEXT =
+  "The quarterly planning session started late. After the introductions we went through the " +
+  "budget in detail and agreed on priorities. Later that afternoon the team reviewed the " +
+  "roadmap and closed with a short retrospective about the budget process.";
+
+describe("contentSnippets", () => {
+  describe("extractContentSnippets", () => {
+    it("should return keyword-in-context snippets with ellipses", () => {
+      const snippets = extractContentSnippets(LONG_TEXT, parseContentQuery("budget"), {
+        maxSnippets: 3,
+        contextLength: 10,
+      });
+
+      expect(snippets).toEqual(["…rough the budget in detail…", "…about the budget process."]);
+    });
+
+    it("should merge overlapping windows and collapse whitespace", () => {
+      const snippets = extractContentSnippets(
+        "first line\n\nbudget and\nplanning here",
+        parseContentQuery("budget planning"),
+        { maxSnippets: 3, contextLength: 5 }
+      );
+
+      expect(snippets).toEqual(["…line budget and planning here"]);
+    });
+
+    it("should stop at the snippet limit", () => {
+      const snippets = extractContentSnippets(LONG_TEXT, parseContentQuery("the"), {
+        maxSnippets: 2,
+        contextLength: 3,
+      });
+
+      expect(snippets).toHaveLength(2);
+    });
+
+    it("should find phrases across punctuation and line breaks", () => {
+      const snippets = extractContentSnippets(
+        "Notes:\nAction-items\nfollow",
+        parseContentQuery('"action items"'),
+        { maxSnippets: 3, contextLength: 100 }
+      );
+
+      expect(snippets).toEqual(["Notes: Action-items follow"]);
+    });
+
+    it("should return nothing for empty queries or missing matches", () => {
+      expect(extractContentSnippets(LONG_TEXT, parseContentQuery(""))).toEqual([]);
+      expect(extractContentSnippets(LONG_TEXT, parseContentQuery("missing"))).toEqual([]);
+    });
+  });
+
+  describe("getHighlightSegments", () => {
+    it("should mark matches case-insensitively", () => {
+      expect(getHighlightSegments("Budget and BUDGETING", parseContentQuery("budget"))).toEqual([
+        { text: "Budget", isMatch: true },
+        { text: " and ", isMatch: false },
+        { text: "BUDGET", isMatch: true },
+        { text: "ING", isMatch: false },
+      ]);
+    });
+
+    it("should prefer a whole phrase over its words", () => {
+      expect(
+        getHighlightSegments("see action items", parseContentQuery('action "action items"'))
+      ).toEqual([
+        { text: "see ", isMatch: false },
+        { text: "action items", isMatch: true },
+      ]);
+    });
+
+    it("should highlight phrases including the punctuation between words", () => {
+      expect(getHighlightSegments("a+b c", parseContentQuery('"a b"'))).toEqual([
+        { text: "a+b", isMatch: true },
+        { text: " c", isMatch: false },
+      ]);
+    });
+
+    it("should return the whole text when the query is empty", () => {
+      expect(getHighlightSegments("text", parseContentQuery(""))).toEqual([
+        { text: "text", isMatch: false },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Pure Functions - Search Snippets and Highlighting
+ *
+ * These functions locate content search matches in the original note text, to
+ * show keyword-in-context snippets on cards and to highlight the matched words.
+ * They use the same query semantics as the content index: terms match inside
+ * words, phrases match consecutive words with any punctuation between them.
+ */
+
+import { type ContentQuery, isContentQueryEmpty } from "./contentIndex";
+
+/**
+ * A piece of text that is either plain or a search match
+ */
+export interface HighlightSegment {
+  /** Text of the segment */
+  text: string;
+  /** Whether the segment matches a search term or phrase */
+  isMatch: boolean;
+}
+
+/**
+ * Options for snippet extraction
+ */
+export interface ContentSnippetOptions {
+  /** Maximum number of snippets to return */
+  maxSnippets: number;
+  /** Number of characters of context shown on each side of a match */
+  contextLength: number;
+}
+
+/**
+ * Default snippet options used by note cards
+ */
+export const DEFAULT_CONTENT_SNIPPET_OPTIONS: ContentSnippetOptions = {
+  maxSnippets: 3,
+  contextLength: 40,
+};
+
+/**
+ * Characters that separate words, mirroring the tokenizer of the content index (internal)
+ */
+const SEPARATOR_CLASS = "[\\s!-\\/:-@\\[-`{-~\\u3000-\\u303f]+";
+
+/**
+ * Escape a string for literal use in a regular expression (internal)
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Build a case-insensitive pattern matching any term or phrase of a query
+ *
+ * Longer alternatives come first so that a phrase wins over one of its words.
+ *
+ * @param {ContentQuery} query - Parsed content query
+ * @returns {RegExp | null} Global pattern, or null for an empty query
+ */
+export const createContentQueryPattern = (query: ContentQuery): RegExp | null => {
+  if (isContentQueryEmpty(query)) return null;
+
+  const alternatives = [
+    ...query.phrases.map((phrase) => phrase.split(" ").map(escapeRegExp).join(SEPARATOR_CLASS)),
+    ...query.terms.map(escapeRegExp),
+  ].sort((a, b) => b.length - a.length);
+
+  return new RegExp(alternatives.join("|"), "gi");
+};
+
+/**
+ * Split text into plain and matching segments for highlighting
+ *
+ * @param {string} text - Text to split
+ * @param {ContentQuery} query - Parsed content query
+ * @returns {HighlightSegment[]} Segments in order; a single plain segment when nothing matches
+ */
+export const getHighlightSegments = (text: string, query: ContentQuery): HighlightSegment[] => {
+  const pattern = createContentQueryPattern(query);
+  if (!pattern) return [{ text, isMatch: false }];
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const { start, end } of findMatches(text, pattern)) {
+    if (start > position) segments.push({ text: text.slice(position, start), isMatch: false });
+    segments.push({ text: text.slice(start, end), isMatch: true });
+    position = end;
+  }
+  if (position < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(position), isMatch: false });
+  }
+  return segments;
+};
+
+/**
+ * Extract keyword-in-context snippets around the matches of a query
+ *
+ * Whitespace is collapsed so snippets read as single lines. Overlapping windows
+ * are merged, and snippets cut inside the text are marked with an ellipsis.
+ *
+ * @param {string} content - Note body to search
+ * @param {ContentQuery} query - Parsed content query
+ * @param {ContentSnippetOptions} options - Snippet count and context length
+ * @returns {string[]} Snippets in document order; empty when nothing matches
+ */
+export const extractContentSnippets = (
+  content: string,
+  query: ContentQuery,
+  options: ContentSnippetOptions = DEFAULT_CONTENT_SNIPPET_OPTIONS
+): string[] => {
+  const pattern = createContentQueryPattern(query);
+  if (!pattern) return [];
+
+  const text = content.replace(/\s+/g, " ").trim();
+  const windows: { start: number; end: number }[] = [];
+
+  for (const match of findMatches(text, pattern)) {
+    const start = Math.max(0, match.start - options.contextLength);
+    const end = Math.min(text.length, match.end + options.contextLength);
+    const last = windows[windows.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else if (windows.length < options.maxSnippets) {
+      windows.push({ start, end });
+    } else {
+      break;
+    }
+  }
+
+  return windows.map(({ start, end }) => {
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < text.length ? "…" : "";
+    return `${prefix}${text.slice(start, end).trim()}${suffix}`;
+  });
+};
+
+/**
+ * Positions of all non-empty matches of a global pattern (internal)
+ */
+const findMatches = (text: string, pattern: RegExp): { start: number; end: number }[] => {
+  const matches: { start: number; end: number }[] = [];
+  pattern.lastIndex = 0;
+  let match = pattern.exec(text);
+  while (match) {
+    if (match[0] === "") {
+      pattern.lastIndex++;
+    } else {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+    match = pattern.exec(text);
+  }
+  return matches;
+};
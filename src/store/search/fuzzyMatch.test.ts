@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { FilterState, NoteData } from "../../types";
+import {
+  createRelevanceScorer,
+  getNoteAliases,
+  scoreFuzzyMatch,
+  scoreNoteTitleMatch,
+} from "./fuzzyMatch";
+
+const createNote = (title: string, frontmatter: Record<string, any> | null = null): NoteData => ({
+  file: {} as any,
+  title,
+  path: `${title}.md`,
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date("2024-01-01T00:00:00Z"),
+  frontmatter,
+  tags: [],
+  folder: "",
+  backlinkCount: 0,
+});
+
+const createFilters = (filename: string[], filenamePhrases: string[] = []): FilterState => ({
+  folders: [],
+  folderMatchMode: "any",
+  tags: [],
+  tagMatchMode: "any",
+  filename,
+  filenamePhrases,
+  content: "",
+  excludeFolders: [],
+  excludeTags: [],
+  excludeFilename: [],
+  properties: [],
+  dateRange: null,
+});
+
+/** Titles ordered from best to worst match */
+const rank = (query: string, titles: string[]): string[] =>
+  titles
+    .map((title) => ({ title, score: scoreFuzzyMatch(query, title) }))
+    .filter((entry): entry is { title: string; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.title);
+
+describe("fuzzyMatch", () => {
+  describe("scoreFuzzyMatch", () => {
+    it("should match abbreviations as ordered subsequences", () => {
+      expect(scoreFuzzyMatch("mtg nts", "Meeting notes 2024-03")).not.toBeNull();
+      expect(scoreFuzzyMatch("MTG", "meeting")).not.toBeNull();
+    });
+
+    it("should require every word in order", () => {
+      expect(scoreFuzzyMatch("mtg xyz", "Meeting notes")).toBeNull();
+      expect(scoreFuzzyMatch("gtm", "Meeting")).toBeNull();
+      expect(scoreFuzzyMatch("meetings", "Meeting")).toBeNull();
+    });
+
+    it("should treat an empty query as a neutral match", () => {
+      expect(scoreFuzzyMatch("  ", "Anything")).toBe(0);
+    });
+
+    it("should rank word starts and consecutive runs higher", () => {
+      expect(rank("mn", ["Summer plans", "Meeting notes", "Mainland"])).toEqual([
+        "Meeting notes",
+        "Mainland",
+        "Summer plans",
+      ]);
+    });
+
+    it("should rank title prefixes over word starts over matches inside words", () => {
+      expect(rank("note", ["Annotated", "Daily notebook", "Notes"])).toEqual([
+        "Notes",
+        "Daily notebook",
+        "Annotated",
+      ]);
+    });
+
+    it("should give bonuses at camelCase humps and digit boundaries", () => {
+      const camel = scoreFuzzyMatch("pn", "projectNotes");
+      const plain = scoreFuzzyMatch("pn", "projectnotes");
+      expect(camel).toBeGreaterThan(plain ?? 0);
+
+      const digits = scoreFuzzyMatch("03", "2024-03 review");
+      const inside = scoreFuzzyMatch("03", "2003 review");
+      expect(digits).toBeGreaterThan(inside ?? 0);
+    });
+  });
+
+  describe("getNoteAliases", () => {
+    it("should read aliases lists, single values and the legacy alias key", () => {
+      expect(getNoteAliases(createNote("A", { aliases: ["One", 2, null, " "] }))).toEqual([
+        "One",
+        "2",
+      ]);
+      expect(getNoteAliases(createNote("A", { aliases: "Single", alias: "Legacy" }))).toEqual([
+        "Single",
+        "Legacy",
+      ]);
+      expect(getNoteAliases(createNote("A"))).toEqual([]);
+    });
+  });
+
+  describe("scoreNoteTitleMatch", () => {
+    it("should match through aliases when the title does not match", () => {
+      const note = createNote("2024-03-12", { aliases: ["Sprint retro"] });
+      expect(scoreNoteTitleMatch(note, "retro")).not.toBeNull();
+      expect(scoreNoteTitleMatch(note, "planning")).toBeNull();
+    });
+
+    it("should use the best of the title and aliases", () => {
+      const note = createNote("Research log", { aliases: ["rl"] });
+      expect(scoreNoteTitleMatch(note, "rl")).toBe(scoreFuzzyMatch("rl", "rl"));
+    });
+  });
+
+  describe("createRelevanceScorer", () => {
+    it("should return null without a filename search", () => {
+      expect(createRelevanceScorer(createFilters([]))).toBeNull();
+    });
+
+    it("should score notes by their title match", () => {
+      const scorer = createRelevanceScorer(createFilters(["mtg"]));
+      expect(scorer?.(createNote("Meeting"))).toBe(scoreFuzzyMatch("mtg", "Meeting"));
+      expect(scorer?.(createNote("Other"))).toBe(0);
+    });
+
+    it("should score the words and phrases together", () => {
+      const scorer = createRelevanceScorer(createFilters(["weekly"], ["team sync"]));
+      expect(scorer?.(createNote("Weekly team sync"))).toBe(
+        scoreFuzzyMatch("weekly team sync", "Weekly team sync")
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Pure Functions - Fuzzy Title Matching
+ *
+ * These functions match the filename search against note titles and frontmatter
+ * aliases as ordered subsequences, so "mtg nts" finds "Meeting notes 2024-03".
+ * Each match is scored so that results can also be ranked by relevance:
+ * characters at the start of words and runs of consecutive characters score
+ * higher, and skipped characters between matches cost a little.
+ */
+
+import type { FilterState, NoteData } from "../../types";
+import type { NoteScorer } from "../sorting";
+
+/** Score for every matched character */
+const MATCH_SCORE = 1;
+
+/** Bonus for a match on the first character of the text */
+const START_BONUS = 3;
+
+/** Bonus for a match on the first character of a word (after a separator, camelCase hump, digit run) */
+const WORD_BOUNDARY_BONUS = 2;
+
+/** Bonus for a match directly following the previous matched character */
+const CONSECUTIVE_BONUS = 2;
+
+/** Penalty for each character skipped between two matched characters */
+const GAP_PENALTY = 0.1;
+
+/**
+ * Characters that separate words in titles (internal)
+ */
+const SEPARATOR_PATTERN = /[\s\-_./\\()[\]{},:;!?'"#@&+]/;
+
+/**
+ * Check whether a character starts a word in the original-case text (internal)
+ */
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  const current = text[index];
+  if (SEPARATOR_PATTERN.test(previous)) return !SEPARATOR_PATTERN.test(current);
+
+  const isDigit = (char: string) => char >= "0" && char <= "9";
+  const isLower = (char: string) => char !== char.toUpperCase() && char === char.toLowerCase();
+  const isUpper = (char: string) => char !== char.toLowerCase() && char === char.toUpperCase();
+  return (
+    (isLower(previous) && isUpper(current)) || // camelCase hump
+    isDigit(previous) !== isDigit(current) // "2024notes", "notes2024"
+  );
+};
+
+/**
+ * Score a single query word as an ordered subsequence of the text
+ *
+ * Finds the best-scoring alignment with dynamic programming over query
+ * characters and text positions. Matching is case-insensitive.
+ *
+ * @param {string} word - Query word without whitespace
+ * @param {string} text - Text to match against (title or alias)
+ * @returns {number | null} Match score, or null if the word is not a subsequence of the text
+ */
+const scoreWord = (word: string, text: string): number | null => {
+  const query = word.toLowerCase();
+  const lower = text.toLowerCase();
+  if (query.length === 0) return 0;
+  if (query.length > lower.length || lower.length !== text.length) {
+    // Lowercasing changed the length (rare Unicode cases): fall back to a plain substring check
+    return lower.includes(query) ? query.length * MATCH_SCORE : null;
+  }
+
+  const bonuses = Array.from(text, (_, index) => {
+    if (index === 0) return START_BONUS + WORD_BOUNDARY_BONUS;
+    return isWordStart(text, index) ? WORD_BOUNDARY_BONUS : 0;
+  });
+
+  // previous[j]: best score with the previous query character matched at text position j
+  let previous: number[] = Array.from(lower, (char, j) =>
+    char === query[0] ? MATCH_SCORE + bonuses[j] : Number.NEGATIVE_INFINITY
+  );
+
+  for (let i = 1; i < query.length; i++) {
+    const current: number[] = new Array(lower.length).fill(Number.NEGATIVE_INFINITY);
+    // Best of previous[k] + GAP_PENALTY * k for k < j - 1, so gaps cost GAP_PENALTY per skipped char
+    let bestWithGap = Number.NEGATIVE_INFINITY;
+    for (let j = 1; j < lower.length; j++) {
+      if (j >= 2) bestWithGap = Math.max(bestWithGap, previous[j - 2] + GAP_PENALTY * (j - 2));
+      if (lower[j] !== query[i]) continue;
+
+      const consecutive = previous[j - 1] + CONSECUTIVE_BONUS;
+      const gapped = bestWithGap - GAP_PENALTY * (j - 1);
+      const best = Math.max(consecutive, gapped);
+      if (best > Number.NEGATIVE_INFINITY) current[j] = best + MATCH_SCORE + bonuses[j];
+    }
+    previous = current;
+  }
+
+  const score = Math.max(...previous);
+  return score === Number.NEGATIVE_INFINITY ? null : score;
+};
+
+/**
+ * Score a fuzzy query against a text
+ *
+ * The query is split on whitespace and every word must match the text as an
+ * ordered subsequence; the score is the sum of the word scores.
+ *
+ * @param {string} query - Search text, e.g. "mtg nts"
+ * @param {string} text - Text to match against
+ * @returns {number | null} Match score (higher is better), or null if any word does not match
+ */
+export const scoreFuzzyMatch = (query: string, text: string): number | null => {
+  let total = 0;
+  for (const word of query.split(/\s+/)) {
+    if (!word) continue;
+    const score = scoreWord(word, text);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+};
+
+/**
+ * Read the aliases of a note from its frontmatter
+ *
+ * Accepts Obsidian's `aliases` property (list or single value) and the legacy `alias`.
+ *
+ * @param {NoteData} note - Note to read aliases from
+ * @returns {string[]} Non-empty aliases as strings
+ */
+export const getNoteAliases = (note: NoteData): string[] => {
+  const values = [note.frontmatter?.aliases, note.frontmatter?.alias].flatMap((value) =>
+    Array.isArray(value) ? value : [value]
+  );
+  return values
+    .filter((value) => value !== null && value !== undefined)
+    .map(String)
+    .filter((alias) => alias.trim() !== "");
+};
+
+/**
+ * Score the filename search against a note's title and aliases
+ *
+ * @param {NoteData} note - Note to match
+ * @param {string} query - Filename search text
+ * @returns {number | null} Best score over the title and aliases, or null if none match
+ */
+export const scoreNoteTitleMatch = (note: NoteData, query: string): number | null => {
+  let best: number | null = null;
+  for (const candidate of [note.title, ...getNoteAliases(note)]) {
+    const score = scoreFuzzyMatch(query, candidate);
+    if (score !== null && (best === null || score > best)) best = score;
+  }
+  return best;
+};
+
+/**
+ * Create the scorer used by the relevance sort
+ *
+ * @param {FilterState} filters - Filters of the view
+ * @returns {NoteScorer | null} Scorer ranking notes by their filename match, or null when no
+ *   filename search is active (the configured sort applies)
+ */
+export const createRelevanceScorer = (filters: FilterState): NoteScorer | null => {
+  const query = [...filters.filename, ...filters.filenamePhrases].join(" ").trim();
+  if (!query) return null;
+  return (note) => scoreNoteTitleMatch(note, query) ?? 0;
+};
@@ -0,0 +1,3 @@
+export * from "./contentIndex";
+export * from "./contentSnippets";
+export * from "./fuzzyMatch";
@@ -7,6 +7,7 @@ class TestNoteBuilder {
   private note: Partial<NoteData> = {
     file: {} as any,
     preview: "",
+    wordCount: 0,
     lastModified: new Date(),
     frontmatter: null,
     tags: [],
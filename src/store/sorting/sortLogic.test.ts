@@ -1,10 +1,23 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it } from "vitest";
 import type { NoteData, SortConfig } from "../../types";
-import { sortNotes, togglePinState } from "./sortLogic";
+import {
+  compareTitles,
+  countWords,
+  getAvailableSortKeys,
+  getSortCriteria,
+  getSortFallbackKeys,
+  getSortKeyChain,
+  insertNoteSorted,
+  moveNoteInManualOrder,
+  renameInManualOrder,
+  sortNotes,
+  togglePinState,
+} from "./sortLogic";
 
 // Enhanced test data builder
 class MockNoteBuilder {
   private note: Partial<NoteData> = {};
+  private stat: { ctime?: number; size?: number } | null = null;
 
   static create(title: string, path: string): MockNoteBuilder {
     return new MockNoteBuilder().withTitle(title).withPath(path);
@@ -41,17 +54,34 @@ class MockNoteBuilder {
     return this;
   }
 
+  withStat(stat: { ctime?: number; size?: number }): MockNoteBuilder {
+    this.stat = stat;
+    return this;
+  }
+
+  withWordCount(wordCount: number): MockNoteBuilder {
+    this.note.wordCount = wordCount;
+    return this;
+  }
+
+  withBacklinkCount(backlinkCount: number): MockNoteBuilder {
+    this.note.backlinkCount = backlinkCount;
+    return this;
+  }
+
   build(): NoteData {
     return {
-      file: {} as any,
+      file: (this.stat ? { stat: this.stat } : {}) as any,
       title: this.note.title || "",
       path: this.note.path || "",
       preview: this.note.preview || "",
+      wordCount: this.note.wordCount ?? 0,
       // Use a fixed timestamp to avoid time-based flakiness
       lastModified: this.note.lastModified || new Date("2000-01-01T00:00:00.000Z"),
       frontmatter: this.note.frontmatter || null,
       tags: this.note.tags || [],
       folder: this.note.folder || "",
+      backlinkCount: this.note.backlinkCount ?? 0,
     };
   }
 }
@@ -355,6 +385,311 @@ describe("sortLogic", () => {
       });
     });
 
+    describe("tie-breaker keys", () => {
+      const notes = [
+        MockNoteBuilder.create("Note 1", TEST_PATHS.NOTE1)
+          .withFrontmatter({ status: "open", priority: 1, due: "2024-02-01" })
+          .build(),
+        MockNoteBuilder.create("Note 2", TEST_PATHS.NOTE2)
+          .withFrontmatter({ status: "open", priority: 1, due: "2024-01-01" })
+          .build(),
+        MockNoteBuilder.create("Note 3", TEST_PATHS.NOTE3)
+          .withFrontmatter({ status: "open", priority: 2, due: "2024-03-01" })
+          .build(),
+      ];
+
+      it("should compare the next keys only when the previous keys are equal", () => {
+        const sortConfig: SortConfig = {
+          key: "status",
+          order: "asc",
+          thenBy: [
+            { key: "priority", order: "desc" },
+            { key: "due", order: "asc" },
+          ],
+        };
+
+        const result = sortNotes(notes, sortConfig, new Set());
+
+        expectTitleOrder(result, ["Note 3", "Note 2", "Note 1"]);
+      });
+
+      it("should keep insertions consistent with the full sort", () => {
+        const sortConfig: SortConfig = {
+          key: "priority",
+          order: "asc",
+          thenBy: [{ key: "due", order: "desc" }],
+        };
+        const sorted = sortNotes(notes.slice(1), sortConfig, new Set());
+
+        const result = insertNoteSorted(sorted, notes[0], sortConfig, new Set());
+
+        expect(result).toEqual(sortNotes(notes, sortConfig, new Set()));
+      });
+    });
+
+    describe("built-in keys", () => {
+      afterEach(() => {
+        document.documentElement.lang = "";
+      });
+
+      it("should sort titles in natural, case-insensitive order", () => {
+        const notes = ["note 10", "Note 2", "note 1", "Apple"].map((title) =>
+          MockNoteBuilder.create(title, `/${title}.md`).build()
+        );
+
+        const result = sortNotes(notes, { key: "filename", order: "asc" }, new Set());
+
+        expectTitleOrder(result, ["Apple", "note 1", "Note 2", "note 10"]);
+      });
+
+      it("should sort Japanese titles in kana order across hiragana and katakana", () => {
+        document.documentElement.lang = "ja";
+        const notes = ["か", "イ", "あ"].map((title) =>
+          MockNoteBuilder.create(title, `/${title}.md`).build()
+        );
+
+        const result = sortNotes(notes, { key: "filename", order: "asc" }, new Set());
+
+        expectTitleOrder(result, ["あ", "イ", "か"]);
+      });
+
+      it("should prefer the title key over a frontmatter field of the same name", () => {
+        const notes = [
+          MockNoteBuilder.create("B", "/b.md").withFrontmatter({ filename: "a" }).build(),
+          MockNoteBuilder.create("A", "/a.md").withFrontmatter({ filename: "b" }).build(),
+        ];
+
+        const result = sortNotes(notes, { key: "filename", order: "asc" }, new Set());
+
+        expectTitleOrder(result, ["A", "B"]);
+      });
+
+      it("should sort by folder path in natural order", () => {
+        const notes = [
+          MockNoteBuilder.create("A", "/a.md").withFolder("Work 10").build(),
+          MockNoteBuilder.create("B", "/b.md").build(),
+          MockNoteBuilder.create("C", "/c.md").withFolder("work 2").build(),
+        ];
+
+        const result = sortNotes(notes, { key: "folder", order: "asc" }, new Set());
+
+        expectTitleOrder(result, ["B", "C", "A"]);
+      });
+
+      it("should sort by creation time and fall back to mtime when it is missing", () => {
+        const notes = [
+          MockNoteBuilder.create("Created late", "/1.md")
+            .withStat({ ctime: TEST_DATES.LATE.getTime() })
+            .build(),
+          MockNoteBuilder.create("No stat", "/2.md").withDate(TEST_DATES.MIDDLE).build(),
+          MockNoteBuilder.create("Created early", "/3.md")
+            .withStat({ ctime: TEST_DATES.EARLY.getTime() })
+            .withDate(TEST_DATES.LATE)
+            .build(),
+        ];
+
+        const result = sortNotes(notes, { key: "ctime", order: "asc" }, new Set());
+
+        expectTitleOrder(result, ["Created early", "No stat", "Created late"]);
+      });
+
+      it("should sort by file size and treat an unknown size as missing", () => {
+        const notes = [
+          MockNoteBuilder.create("Large", "/1.md").withStat({ size: 2048 }).build(),
+          MockNoteBuilder.create("Unknown", "/2.md").build(),
+          MockNoteBuilder.create("Small", "/3.md").withStat({ size: 10 }).build(),
+        ];
+        const sortConfig: SortConfig = { key: "filesize", order: "desc", fallbackKeys: [] };
+
+        const result = sortNotes(notes, sortConfig, new Set());
+
+        expectTitleOrder(result, ["Large", "Small", "Unknown"]);
+      });
+
+      it("should sort by word count, backlink count and tag count", () => {
+        const notes = [
+          MockNoteBuilder.create("A", "/a.md")
+            .withWordCount(3)
+            .withBacklinkCount(1)
+            .withTags(["x", "y"])
+            .build(),
+          MockNoteBuilder.create("B", "/b.md").withWordCount(0).withBacklinkCount(4).build(),
+          MockNoteBuilder.create("C", "/c.md").withWordCount(4).withTags(["x"]).build(),
+        ];
+        const sortBy = (key: string) =>
+          sortNotes(notes, { key, order: "desc" }, new Set()).map((note) => note.title);
+
+        expect(sortBy("wordcount")).toEqual(["C", "A", "B"]);
+        expect(sortBy("backlinks")).toEqual(["B", "A", "C"]);
+        expect(sortBy("tagcount")).toEqual(["A", "C", "B"]);
+      });
+
+      it("should break ties between built-in and frontmatter keys", () => {
+        const notes = [
+          MockNoteBuilder.create("Item 10", "/1.md").withFrontmatter({ status: "open" }).build(),
+          MockNoteBuilder.create("Item 9", "/2.md").build(),
+          MockNoteBuilder.create("Item 1", "/3.md").withFrontmatter({ status: "open" }).build(),
+        ];
+        const sortConfig: SortConfig = {
+          key: "tagcount",
+          order: "asc",
+          thenBy: [{ key: "filename", order: "desc" }],
+        };
+
+        const result = sortNotes(notes, sortConfig, new Set());
+
+        expectTitleOrder(result, ["Item 10", "Item 9", "Item 1"]);
+      });
+    });
+
+    describe("fallback keys and missing values", () => {
+      const notes = [
+        MockNoteBuilder.create("Updated", "/1.md")
+          .withFrontmatter({ updated: "2024-01-10" })
+          .withDate(TEST_DATES.EARLY)
+          .build(),
+        MockNoteBuilder.create("Created", "/2.md")
+          .withFrontmatter({ created: "2024-01-05" })
+          .withDate(TEST_DATES.LATE)
+          .build(),
+        MockNoteBuilder.create("File only", "/3.md")
+          .withStat({ ctime: new Date("2024-01-07").getTime() })
+          .withDate(TEST_DATES.LATE)
+          .build(),
+        MockNoteBuilder.create("Nothing", "/4.md").withDate(TEST_DATES.MIDDLE).build(),
+      ];
+
+      it("should fall back to modification time without configured fallback keys", () => {
+        const result = sortNotes(notes, { key: "updated", order: "desc" }, new Set());
+
+        // mtime values (2024-01-02/03) mix with the updated date (2024-01-10)
+        expectTitleOrder(result, ["Updated", "Created", "File only", "Nothing"]);
+      });
+
+      it("should try the fallback keys in order", () => {
+        const sortConfig: SortConfig = {
+          key: "updated",
+          order: "asc",
+          fallbackKeys: ["created", "ctime"],
+        };
+
+        const result = sortNotes(notes, sortConfig, new Set());
+
+        expectTitleOrder(result, ["Created", "File only", "Updated", "Nothing"]);
+      });
+
+      it.each([
+        { order: "asc" as const, missingValues: "last" as const },
+        { order: "desc" as const, missingValues: "last" as const },
+        { order: "asc" as const, missingValues: "first" as const },
+        { order: "desc" as const, missingValues: "first" as const },
+      ])(
+        "should place missing values $missingValues when sorting $order",
+        ({ order, missingValues }) => {
+          const sortConfig: SortConfig = { key: "updated", order, fallbackKeys: [], missingValues };
+
+          const titles = sortNotes(notes, sortConfig, new Set()).map((note) => note.title);
+
+          const missing = missingValues === "first" ? titles.slice(0, 3) : titles.slice(1);
+          expect(missing).toEqual(["Created", "File only", "Nothing"]);
+          expect(titles).toContain("Updated");
+        }
+      );
+
+      it("should treat blank frontmatter values as missing", () => {
+        const blank = MockNoteBuilder.create("Blank", "/5.md")
+          .withFrontmatter({ updated: "  " })
+          .build();
+        const sortConfig: SortConfig = { key: "updated", order: "asc", fallbackKeys: [] };
+
+        const result = sortNotes([blank, notes[0]], sortConfig, new Set());
+
+        expectTitleOrder(result, ["Updated", "Blank"]);
+      });
+
+      it("should not apply fallback keys to tie-breakers", () => {
+        const tied = [
+          MockNoteBuilder.create("No rank", "/a.md").withFrontmatter({ status: "open" }).build(),
+          MockNoteBuilder.create("Rank 2", "/b.md")
+            .withFrontmatter({ status: "open", rank: 2 })
+            .build(),
+        ];
+        const sortConfig: SortConfig = {
+          key: "status",
+          order: "asc",
+          thenBy: [{ key: "rank", order: "desc" }],
+        };
+
+        const result = sortNotes(tied, sortConfig, new Set());
+
+        expectTitleOrder(result, ["Rank 2", "No rank"]);
+      });
+
+      it("should keep insertions consistent with the full sort", () => {
+        const sortConfig: SortConfig = {
+          key: "updated",
+          order: "desc",
+          fallbackKeys: ["created"],
+          missingValues: "first",
+        };
+        const sorted = sortNotes(notes.slice(1), sortConfig, new Set());
+
+        const result = insertNoteSorted(sorted, notes[0], sortConfig, new Set());
+
+        expect(result).toEqual(sortNotes(notes, sortConfig, new Set()));
+      });
+    });
+
+    describe("manual order", () => {
+      const notes = ["A", "B", "C", "New"].map((title) =>
+        MockNoteBuilder.create(title, `/${title}.md`).build()
+      );
+      const manualOrder = ["/C.md", "/A.md", "/B.md"];
+
+      it("should follow the manual order and place notes without a position by missingValues", () => {
+        const sortBy = (sortConfig: SortConfig) =>
+          sortNotes(notes, sortConfig, new Set(), null, manualOrder).map((note) => note.title);
+
+        expect(sortBy({ key: "manual", order: "asc" })).toEqual(["C", "A", "B", "New"]);
+        expect(sortBy({ key: "manual", order: "desc" })).toEqual(["B", "A", "C", "New"]);
+        expect(sortBy({ key: "manual", order: "asc", missingValues: "first" })).toEqual([
+          "New",
+          "C",
+          "A",
+          "B",
+        ]);
+      });
+
+      it("should not apply fallback keys to the manual order", () => {
+        const dated = [
+          MockNoteBuilder.create("Newer", "/newer.md").withDate(new Date("2024-02-01")).build(),
+          MockNoteBuilder.create("Older", "/older.md").withDate(new Date("2024-01-01")).build(),
+        ];
+        const sortConfig: SortConfig = { key: "manual", order: "asc", fallbackKeys: ["mtime"] };
+
+        const result = sortNotes(dated, sortConfig, new Set(), null, ["/newer.md", "/older.md"]);
+
+        expectTitleOrder(result, ["Newer", "Older"]);
+      });
+    });
+
+    describe("relevance scoring", () => {
+      const sortConfig: SortConfig = { key: "mtime", order: "desc" };
+      const scores: Record<string, number> = { [TEST_PATHS.NOTE2]: 5, [TEST_PATHS.NOTE3]: 5 };
+      const scoreNote = (note: NoteData) => scores[note.path] ?? 0;
+
+      it("should rank higher scores first and use the sort config for ties", () => {
+        const result = sortNotes(SAMPLE_NOTES.BASIC, sortConfig, new Set(), scoreNote);
+        expectPathOrder(result, [TEST_PATHS.NOTE3, TEST_PATHS.NOTE2, TEST_PATHS.NOTE1]);
+      });
+
+      it("should keep pinned notes at the top regardless of score", () => {
+        const pinned = new Set([TEST_PATHS.NOTE1]);
+        const result = sortNotes(SAMPLE_NOTES.BASIC, sortConfig, pinned, scoreNote);
+        expectPathOrder(result, [TEST_PATHS.NOTE1, TEST_PATHS.NOTE3, TEST_PATHS.NOTE2]);
+      });
+    });
+
     describe("edge cases", () => {
       it("should handle empty notes array", () => {
         const sortConfig: SortConfig = { key: "mtime", order: "asc" };
@@ -489,4 +824,169 @@ describe("sortLogic", () => {
       });
     });
   });
+
+  describe("getSortCriteria", () => {
+    it("should list the primary key first and skip blank tie-breakers", () => {
+      expect(
+        getSortCriteria({
+          key: "priority",
+          order: "desc",
+          thenBy: [
+            { key: " ", order: "asc" },
+            { key: "due", order: "asc" },
+          ],
+        })
+      ).toEqual([
+        { key: "priority", order: "desc" },
+        { key: "due", order: "asc" },
+      ]);
+    });
+
+    it("should accept configurations without tie-breakers", () => {
+      expect(getSortCriteria({ key: "updated", order: "desc" })).toEqual([
+        { key: "updated", order: "desc" },
+      ]);
+    });
+  });
+
+  describe("countWords", () => {
+    it.each([
+      { text: "", expected: 0 },
+      { text: "Hello, world! It's 2024.", expected: 5 },
+      { text: "  - [ ] buy milk\n## Heading", expected: 3 },
+      { text: "会議メモ", expected: 4 },
+      { text: "予算review 2件", expected: 5 },
+    ])("should count $expected words in $text", ({ text, expected }) => {
+      expect(countWords(text)).toBe(expected);
+    });
+  });
+
+  describe("compareTitles", () => {
+    it("should compare numbers by value and ignore case", () => {
+      expect(compareTitles("Note 2", "note 10")).toBeLessThan(0);
+      expect(compareTitles("ABC", "abc")).toBe(0);
+    });
+  });
+
+  describe("getSortKeyChain", () => {
+    it("should append the fallback keys to the primary key", () => {
+      expect(
+        getSortKeyChain({ key: "updated", order: "desc", fallbackKeys: ["created", " ", "ctime"] })
+      ).toEqual(["updated", "created", "ctime"]);
+    });
+
+    it("should fall back to modification time for configurations without fallback keys", () => {
+      expect(getSortKeyChain({ key: "updated", order: "desc" })).toEqual(["updated", "mtime"]);
+      expect(getSortFallbackKeys({ key: "updated", order: "desc", fallbackKeys: [] })).toEqual([]);
+    });
+  });
+
+  describe("moveNoteInManualOrder", () => {
+    it("should move the note to the target's position", () => {
+      const order = ["/a.md", "/b.md", "/c.md", "/d.md"];
+      const visible = ["/a.md", "/b.md", "/c.md", "/d.md"];
+
+      expect(moveNoteInManualOrder(order, visible, "/a.md", "/c.md", "asc")).toEqual([
+        "/b.md",
+        "/c.md",
+        "/a.md",
+        "/d.md",
+      ]);
+      expect(moveNoteInManualOrder(order, visible, "/d.md", "/b.md", "asc")).toEqual([
+        "/a.md",
+        "/d.md",
+        "/b.md",
+        "/c.md",
+      ]);
+    });
+
+    it("should keep hidden notes in place and append visible notes without a position", () => {
+      const order = ["/a.md", "/hidden.md", "/b.md"];
+      const visible = ["/a.md", "/b.md", "/new.md"];
+
+      expect(moveNoteInManualOrder(order, visible, "/new.md", "/a.md", "asc")).toEqual([
+        "/new.md",
+        "/hidden.md",
+        "/a.md",
+        "/b.md",
+      ]);
+    });
+
+    it("should read the displayed order backwards when sorting in descending order", () => {
+      const order = ["/a.md", "/b.md", "/c.md"];
+      // Displayed as c, b, a; dropping a on c puts it first on screen, i.e. last in the order
+      const visible = ["/c.md", "/b.md", "/a.md"];
+
+      expect(moveNoteInManualOrder(order, visible, "/a.md", "/c.md", "desc")).toEqual([
+        "/b.md",
+        "/c.md",
+        "/a.md",
+      ]);
+    });
+
+    it("should return the same order when nothing moves", () => {
+      const order = ["/a.md", "/b.md"];
+
+      expect(moveNoteInManualOrder(order, order, "/a.md", "/a.md", "asc")).toBe(order);
+      expect(moveNoteInManualOrder(order, order, "/other.md", "/a.md", "asc")).toBe(order);
+    });
+  });
+
+  describe("renameInManualOrder", () => {
+    it("should replace renamed paths and keep unchanged orders", () => {
+      const order = ["/a.md", "/b.md"];
+
+      expect(
+        renameInManualOrder(order, [
+          { oldPath: "/a.md", newPath: "/x/a.md" },
+          { oldPath: "/x/a.md", newPath: "/y/a.md" },
+        ])
+      ).toEqual(["/y/a.md", "/b.md"]);
+      expect(renameInManualOrder(order, [{ oldPath: "/c.md", newPath: "/d.md" }])).toBe(order);
+    });
+  });
+
+  describe("getAvailableSortKeys", () => {
+    it("should collect frontmatter keys with single values in alphabetical order", () => {
+      const notes = [
+        MockNoteBuilder.create("A", "/a.md")
+          .withFrontmatter({ priority: 1, tags: ["x"], status: "open" })
+          .build(),
+        MockNoteBuilder.create("B", "/b.md")
+          .withFrontmatter({ done: false, meta: { nested: true }, priority: 2 })
+          .build(),
+        MockNoteBuilder.create("C", "/c.md").build(),
+      ];
+
+      expect(getAvailableSortKeys(notes)).toEqual(["done", "priority", "status"]);
+    });
+  });
+
+  describe("insertNoteSorted", () => {
+    const sortConfig: SortConfig = { key: "mtime", order: "desc" };
+
+    it("should insert at the same position as a full sort", () => {
+      const sorted = sortNotes(SAMPLE_NOTES.BASIC, sortConfig, new Set());
+      const note = MockNoteBuilder.create("Note 4", "/note4.md")
+        .withDate(new Date("2024-01-02T12:00:00Z"))
+        .build();
+
+      const result = insertNoteSorted(sorted, note, sortConfig, new Set());
+
+      expect(result).toEqual(sortNotes([...SAMPLE_NOTES.BASIC, note], sortConfig, new Set()));
+      expect(sorted).toHaveLength(3); // original array is not mutated
+    });
+
+    it("should keep pinned notes ahead of unpinned notes", () => {
+      const pinned = new Set([TEST_PATHS.NOTE1]);
+      const sorted = sortNotes(SAMPLE_NOTES.BASIC, sortConfig, pinned);
+      const newest = MockNoteBuilder.create("Newest", "/newest.md")
+        .withDate(new Date("2025-01-01"))
+        .build();
+
+      const result = insertNoteSorted(sorted, newest, sortConfig, pinned);
+
+      expectPathOrder(result, [TEST_PATHS.NOTE1, "/newest.md", TEST_PATHS.NOTE3, TEST_PATHS.NOTE2]);
+    });
+  });
 });
@@ -2,11 +2,23 @@
  * Pure Functions - Sorting Logic
  *
  * These functions handle the complex sorting logic with support for
- * frontmatter fields, fallback values, and different data types.
+ * built-in file keys, frontmatter fields, chains of fallback keys, placement
+ * of missing values, different data types and chains of tie-breaker keys.
  */
 
-import type { NoteData, SortConfig } from "../../types";
-import { MTIME_SORT_KEY } from "../constants";
+import { parseDateValue } from "../../lib/dateUtils";
+import type { MissingValuesPlacement, NoteData, SortConfig, SortCriterion } from "../../types";
+import {
+  BACKLINK_COUNT_SORT_KEY,
+  CTIME_SORT_KEY,
+  FOLDER_SORT_KEY,
+  MANUAL_SORT_KEY,
+  MTIME_SORT_KEY,
+  SIZE_SORT_KEY,
+  TAG_COUNT_SORT_KEY,
+  TITLE_SORT_KEY,
+  WORD_COUNT_SORT_KEY,
+} from "../constants";
 
 /**
  * Type for sortable values that can be extracted from notes
@@ -18,6 +30,25 @@ type SortableValue = Date | string | number | boolean;
  */
 type ComparableValue = string | number | boolean;
 
+/**
+ * Characters counted as one word each, since CJK text is written without spaces (internal)
+ *
+ * Covers hiragana, katakana, CJK ideographs and half-width katakana.
+ */
+const CJK_CHARACTER_PATTERN =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/g;
+
+/**
+ * Runs of letters and digits outside CJK scripts (internal)
+ */
+const WORD_PATTERN =
+  /[^\s\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef!-/:-@[-`{-~]+/g;
+
+/**
+ * Relevance score of a note for the relevance sort (higher ranks first)
+ */
+export type NoteScorer = (note: NoteData) => number;
+
 /**
  * Toggle the pin state of a note immutably
  *
@@ -50,18 +81,25 @@ export const togglePinState = (pinnedNotes: Set<string>, filePath: string): Set<
  * appear at the top while maintaining their relative sort order within each group.
  * Creates a new array to maintain immutability.
  *
+ * With a relevance scorer, notes are ranked by score first and the sort
+ * configuration only breaks ties; pinned notes still come first.
+ *
  * @param {NoteData[]} notes - Array of notes to sort
- * @param {SortConfig} sortConfig - Sort configuration (field and order)
+ * @param {SortConfig} sortConfig - Sort configuration (fields and orders)
  * @param {Set<string>} pinnedNotes - Set of pinned note file paths
+ * @param {NoteScorer | null} scoreNote - Optional relevance scorer that takes precedence over sortConfig
+ * @param {string[]} manualOrder - Note paths in the order used by the 'manual' sort key
  * @returns {NoteData[]} New sorted array with pinned notes first, followed by unpinned notes
  */
 export const sortNotes = (
   notes: NoteData[],
   sortConfig: SortConfig,
-  pinnedNotes: Set<string>
+  pinnedNotes: Set<string>,
+  scoreNote: NoteScorer | null = null,
+  manualOrder: string[] = []
 ): NoteData[] => {
   // Create comparator and sort all notes
-  const comparator = createSortComparator(sortConfig);
+  const comparator = createSortComparator(sortConfig, scoreNote, manualOrder);
   // Create new array to avoid mutating the original notes array
   const sortedNotes = [...notes].sort(comparator);
 
@@ -72,45 +110,357 @@ export const sortNotes = (
   return [...pinned, ...unpinned];
 };
 
+/**
+ * Insert a note into an already sorted list, keeping pinned notes first
+ *
+ * Uses binary search with the same ordering as sortNotes so that incremental
+ * index updates end up where a full re-sort would place them. Notes that compare
+ * equal are inserted after the existing ones, mirroring the stable sort.
+ *
+ * @param {NoteData[]} sortedNotes - Notes already ordered by sortNotes
+ * @param {NoteData} note - Note to insert (must not already be in the list)
+ * @param {SortConfig} sortConfig - Sort configuration used to order the list
+ * @param {Set<string>} pinnedNotes - Set of pinned note file paths
+ * @param {NoteScorer | null} scoreNote - Relevance scorer the list was sorted with, if any
+ * @param {string[]} manualOrder - Manual order the list was sorted with
+ * @returns {NoteData[]} New array containing the note at its sorted position
+ */
+export const insertNoteSorted = (
+  sortedNotes: NoteData[],
+  note: NoteData,
+  sortConfig: SortConfig,
+  pinnedNotes: Set<string>,
+  scoreNote: NoteScorer | null = null,
+  manualOrder: string[] = []
+): NoteData[] => {
+  const comparator = createSortComparator(sortConfig, scoreNote, manualOrder);
+  const isPinned = pinnedNotes.has(note.path);
+
+  // Upper-bound binary search: pin status first, then the configured sort order
+  let low = 0;
+  let high = sortedNotes.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const other = sortedNotes[mid];
+    const isOtherPinned = pinnedNotes.has(other.path);
+
+    let order: number;
+    if (isOtherPinned === isPinned) {
+      order = comparator(other, note);
+    } else {
+      order = isOtherPinned ? -1 : 1;
+    }
+
+    if (order <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return [...sortedNotes.slice(0, low), note, ...sortedNotes.slice(low)];
+};
+
+/**
+ * List the keys a sort configuration compares, in order
+ *
+ * The primary key comes first, followed by its tie-breakers. Tie-breakers
+ * without a key (e.g. a row the user has just added) are skipped.
+ *
+ * @param {SortConfig} sortConfig - Sort configuration
+ * @returns {SortCriterion[]} Keys with their sort orders, primary key first
+ */
+export const getSortCriteria = (sortConfig: SortConfig): SortCriterion[] => [
+  { key: sortConfig.key, order: sortConfig.order },
+  ...(sortConfig.thenBy ?? []).filter((criterion) => criterion.key.trim() !== ""),
+];
+
+/**
+ * Move a note to the position of another note in a manual order
+ *
+ * The visible notes keep the order they are displayed in, with the dragged note
+ * taking the target's place. Their positions are written into the slots the
+ * visible notes already held, so notes hidden by filters keep their places;
+ * visible notes without a position yet are appended.
+ *
+ * @param {string[]} manualOrder - Current manual order of note paths
+ * @param {string[]} visiblePaths - Paths of the notes as currently displayed
+ * @param {string} sourcePath - Path of the dragged note
+ * @param {string} targetPath - Path of the note it was dropped on
+ * @param {SortConfig["order"]} order - Direction of the manual sort ('desc' displays it reversed)
+ * @returns {string[]} New manual order, or the given one when nothing moves
+ */
+export const moveNoteInManualOrder = (
+  manualOrder: string[],
+  visiblePaths: string[],
+  sourcePath: string,
+  targetPath: string,
+  order: SortConfig["order"]
+): string[] => {
+  // Visible notes by ascending manual position
+  const visible = order === "desc" ? [...visiblePaths].reverse() : [...visiblePaths];
+  const from = visible.indexOf(sourcePath);
+  const to = visible.indexOf(targetPath);
+  if (from === -1 || to === -1 || from === to) return manualOrder;
+
+  visible.splice(from, 1);
+  visible.splice(to, 0, sourcePath);
+
+  const visibleSet = new Set(visible);
+  let next = 0;
+  const result: string[] = [];
+  for (const path of new Set(manualOrder)) {
+    result.push(visibleSet.has(path) ? visible[next++] : path);
+  }
+  return [...result, ...visible.slice(next)];
+};
+
+/**
+ * Replace renamed note paths in a manual order
+ *
+ * @param {string[]} manualOrder - Manual order of note paths
+ * @param {Array<{ oldPath: string; newPath: string }>} moves - Renames to apply, in order
+ * @returns {string[]} Updated manual order, or the given one when no path was renamed
+ */
+export const renameInManualOrder = (
+  manualOrder: string[],
+  moves: Array<{ oldPath: string; newPath: string }>
+): string[] => {
+  let result = manualOrder;
+  for (const { oldPath, newPath } of moves) {
+    if (result.includes(oldPath)) {
+      result = result.map((path) => (path === oldPath ? newPath : path));
+    }
+  }
+  return result;
+};
+
+/**
+ * List the keys tried when a note lacks the primary sort key
+ *
+ * Sort configurations saved before fallback keys existed fall back to the
+ * file modification time, as the primary key always did.
+ *
+ * @param {SortConfig} sortConfig - Sort configuration
+ * @returns {string[]} Fallback keys in order, without blank entries
+ */
+export const getSortFallbackKeys = (sortConfig: SortConfig): string[] =>
+  (sortConfig.fallbackKeys ?? [MTIME_SORT_KEY]).filter((key) => key.trim() !== "");
+
+/**
+ * List the primary sort key followed by its fallback keys
+ *
+ * Date filters and card dates resolve a note's date through the same chain
+ * as the sort, so the three always agree.
+ *
+ * @param {SortConfig} sortConfig - Sort configuration
+ * @returns {string[]} Primary key first, then the fallback keys
+ */
+export const getSortKeyChain = (sortConfig: SortConfig): string[] => [
+  sortConfig.key,
+  ...getSortFallbackKeys(sortConfig),
+];
+
+/**
+ * Collect frontmatter keys that notes can be sorted by
+ *
+ * Only keys holding a single value (string, number or boolean) in at least one
+ * note are returned; lists and nested objects have no natural order.
+ *
+ * @param {NoteData[]} notes - Notes to inspect
+ * @returns {string[]} Sortable frontmatter keys in alphabetical order
+ */
+export const getAvailableSortKeys = (notes: NoteData[]): string[] => {
+  const keys = new Set<string>();
+  for (const note of notes) {
+    for (const [key, value] of Object.entries(note.frontmatter ?? {})) {
+      if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+        keys.add(key);
+      }
+    }
+  }
+  return Array.from(keys).sort();
+};
+
+/**
+ * Count the words of a note body
+ *
+ * Words are runs of characters between whitespace and punctuation; in Japanese
+ * and Chinese text every character counts as a word, as in Obsidian's word count.
+ * Exported so that notes are loaded with the word count they are sorted by.
+ *
+ * @param {string} text - Note body without frontmatter
+ * @returns {number} Number of words
+ */
+export const countWords = (text: string): number => {
+  const cjkCharacters = text.match(CJK_CHARACTER_PATTERN)?.length ?? 0;
+  const words = text.match(WORD_PATTERN)?.length ?? 0;
+  return cjkCharacters + words;
+};
+
+/**
+ * Compare two titles in natural order
+ *
+ * Numbers inside titles compare by value ("Note 2" before "Note 10") and case is
+ * ignored. Collation follows the language Obsidian runs in, so that e.g. Japanese
+ * titles follow the kana order regardless of hiragana or katakana.
+ *
+ * @param {string} a - First title
+ * @param {string} b - Second title
+ * @returns {number} Negative if a sorts first, positive if b sorts first, 0 if equal
+ */
+export const compareTitles = (a: string, b: string): number => getTitleCollator().compare(a, b);
+
+/**
+ * Collator for titles in the current display language, cached per language (internal)
+ */
+let titleCollator: { locale: string; collator: Intl.Collator } | null = null;
+const getTitleCollator = (): Intl.Collator => {
+  // Obsidian sets the lang attribute to the app language
+  const locale = typeof document !== "undefined" ? document.documentElement.lang : "";
+  if (titleCollator?.locale !== locale) {
+    titleCollator = {
+      locale,
+      collator: new Intl.Collator(locale || undefined, { numeric: true, sensitivity: "base" }),
+    };
+  }
+  return titleCollator.collator;
+};
+
 /**
  * Create a comparator function for Array.sort()
  *
  * Returns a comparison function that can be used with Array.sort().
  * Handles value extraction, normalization, and sort order application.
+ * Keys are compared in order: each tie-breaker only decides between notes
+ * that are equal on every key before it. The primary key falls back to the
+ * configured fallback keys; notes without a value are placed first or last
+ * in either sort direction.
  * The returned function maintains immutability by not modifying the original notes.
+ * Relevance scores and word counts are cached per note, since the comparator sees
+ * each note many times.
  */
-const createSortComparator = (sortConfig: SortConfig): ((a: NoteData, b: NoteData) => number) => {
+const createSortComparator = (
+  sortConfig: SortConfig,
+  scoreNote: NoteScorer | null = null,
+  manualOrder: string[] = []
+): ((a: NoteData, b: NoteData) => number) => {
+  const fallbackKeys = getSortFallbackKeys(sortConfig);
+  const chains = getSortCriteria(sortConfig).map(({ key, order }, index) => ({
+    order,
+    // Only the primary key has fallbacks; tie-breakers compare their own key,
+    // and notes without a manual position are new notes rather than missing a value
+    keys: index === 0 && key !== MANUAL_SORT_KEY ? [key, ...fallbackKeys] : [key],
+  }));
+  const manualPositions = new Map<string, number>();
+  manualOrder.forEach((path, position) => {
+    if (!manualPositions.has(path)) manualPositions.set(path, position);
+  });
+  const missingValues: MissingValuesPlacement = sortConfig.missingValues ?? "last";
+  const scores = new Map<NoteData, number>();
+  const getScore = (note: NoteData, scorer: NoteScorer): number => {
+    let score = scores.get(note);
+    if (score === undefined) {
+      score = scorer(note);
+      scores.set(note, score);
+    }
+    return score;
+  };
+  // First value of a note along a key chain, with the key it came from
+  const resolveValue = (
+    note: NoteData,
+    keys: string[]
+  ): { key: string; value: SortableValue } | null => {
+    for (const key of keys) {
+      // Manual positions are looked up here rather than in extractSortValue
+      const value =
+        key === MANUAL_SORT_KEY
+          ? (manualPositions.get(note.path) ?? null)
+          : extractSortValue(note, key);
+      if (value !== null) return { key, value };
+    }
+    return null;
+  };
+
   return (a: NoteData, b: NoteData): number => {
-    // Extract and normalize values for comparison
-    const aValue = normalizeForComparison(extractSortValue(a, sortConfig.key));
-    const bValue = normalizeForComparison(extractSortValue(b, sortConfig.key));
+    // Higher relevance first; the configured sort only breaks ties
+    if (scoreNote) {
+      const relevance = getScore(b, scoreNote) - getScore(a, scoreNote);
+      if (relevance !== 0) return relevance;
+    }
+
+    for (const { keys, order } of chains) {
+      const aResolved = resolveValue(a, keys);
+      const bResolved = resolveValue(b, keys);
 
-    const comparison = compareValues(aValue, bValue);
-    // Apply sort order: desc reverses the comparison result
-    return sortConfig.order === "desc" ? -comparison : comparison;
+      // Missing values keep their placement regardless of the sort direction
+      if (!aResolved || !bResolved) {
+        if (aResolved === bResolved) continue;
+        return (aResolved ? 1 : -1) * (missingValues === "first" ? 1 : -1);
+      }
+
+      let comparison: number;
+      if (
+        aResolved.key === bResolved.key &&
+        (aResolved.key === TITLE_SORT_KEY || aResolved.key === FOLDER_SORT_KEY)
+      ) {
+        // Titles and folder paths are compared in natural, locale-aware order
+        comparison = compareTitles(String(aResolved.value), String(bResolved.value));
+      } else {
+        // Normalize values for comparison
+        comparison = compareValues(
+          normalizeForComparison(aResolved.value),
+          normalizeForComparison(bResolved.value)
+        );
+      }
+      // Apply sort order: desc reverses the comparison result
+      if (comparison !== 0) return order === "desc" ? -comparison : comparison;
+    }
+    return 0;
   };
 };
 
 /**
  * Extract the sortable value from a note for comparison
  *
- * Supports sorting by frontmatter fields with automatic fallback to
- * file modification time if the field doesn't exist or is null.
+ * Supports the built-in file keys and frontmatter fields. Returns null when
+ * the note has no value for the key (missing, null or blank frontmatter field,
+ * or file stats unavailable), so that the caller can try the fallback keys.
+ * Built-in keys take precedence over frontmatter fields of the same name.
  * Automatically parses date strings from frontmatter into Date objects.
+ *
+ * Exported so that table cells show the values notes are sorted by.
  */
-const extractSortValue = (note: NoteData, sortKey: string): SortableValue => {
-  // Special case: sort by file modification time
-  if (sortKey === MTIME_SORT_KEY) {
-    return note.lastModified;
+export const extractSortValue = (note: NoteData, sortKey: string): SortableValue | null => {
+  switch (sortKey) {
+    case MTIME_SORT_KEY:
+      return note.lastModified;
+    case CTIME_SORT_KEY:
+      return typeof note.file.stat?.ctime === "number" ? new Date(note.file.stat.ctime) : null;
+    case TITLE_SORT_KEY:
+      return note.title;
+    case FOLDER_SORT_KEY:
+      return note.folder;
+    case SIZE_SORT_KEY:
+      return note.file.stat?.size ?? null;
+    case WORD_COUNT_SORT_KEY:
+      return note.wordCount;
+    case BACKLINK_COUNT_SORT_KEY:
+      return note.backlinkCount;
+    case TAG_COUNT_SORT_KEY:
+      return note.tags.length;
   }
 
-  // Try to get value from frontmatter, fallback to modification time
+  // Try to get value from frontmatter
   const frontmatterValue = note.frontmatter?.[sortKey];
 
+  if (typeof frontmatterValue === "string" && frontmatterValue.trim() === "") {
+    return null; // Blank values count as missing
+  }
   if (frontmatterValue !== null && frontmatterValue !== undefined) {
-    // If it's a string that looks like a date, try to parse it safely
+    // If it's a string that looks like a date, parse it as the filters and cards do
     if (typeof frontmatterValue === "string") {
-      const parsedDate = parseDateSafely(frontmatterValue);
+      const parsedDate = parseDateValue(frontmatterValue);
       if (parsedDate) {
         return parsedDate;
       }
@@ -119,38 +469,7 @@ const extractSortValue = (note: NoteData, sortKey: string): SortableValue => {
     return frontmatterValue;
   }
 
-  // Fallback to file modification time
-  return note.lastModified;
-};
-
-/**
- * Safely parse a date string with validation
- *
- * Performs basic validation to avoid ambiguous date parsing:
- * - Requires minimum length and year pattern
- * - Validates resulting date is within reasonable range
- * - Returns null for invalid inputs
- */
-const parseDateSafely = (dateString: string): Date | null => {
-  // Pre-validate: must have reasonable length and contain 4-digit year
-  if (!dateString || dateString.length < 4 || !/\d{4}/.test(dateString)) {
-    return null;
-  }
-
-  const parsed = new Date(dateString);
-
-  // Check if parsing succeeded
-  if (Number.isNaN(parsed.getTime())) {
-    return null;
-  }
-
-  // Validate year is within reasonable range (1900-2100)
-  const year = parsed.getFullYear();
-  if (year < 1900 || year > 2100) {
-    return null;
-  }
-
-  return parsed;
+  return null;
 };
 
 /**
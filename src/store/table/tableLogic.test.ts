@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { NoteData, SortConfig, TableColumn } from "../../types";
+import {
+  getCellText,
+  getColumnLabel,
+  getColumnSortKey,
+  resizeColumn,
+  setColumnKeys,
+  sortByColumn,
+} from "./tableLogic";
+
+const createNote = (overrides: Partial<NoteData> = {}): NoteData => ({
+  file: { stat: { size: 2048 } } as any,
+  title: "Meeting",
+  path: "Work/Meeting.md",
+  preview: "",
+  wordCount: 0,
+  lastModified: new Date(2024, 0, 15),
+  frontmatter: null,
+  tags: [],
+  folder: "Work",
+  backlinkCount: 3,
+  ...overrides,
+});
+
+describe("tableLogic", () => {
+  describe("getColumnLabel", () => {
+    it.each([
+      ["filename", "Title"],
+      ["folder", "Folder"],
+      ["tags", "Tags"],
+      ["mtime", "Modified time"],
+      ["status", "status"],
+    ])("should label %s as %s", (key, label) => {
+      expect(getColumnLabel(key)).toBe(label);
+    });
+  });
+
+  describe("getColumnSortKey", () => {
+    it("should sort the tags column by tag count and other columns by their key", () => {
+      expect(getColumnSortKey("tags")).toBe("tagcount");
+      expect(getColumnSortKey("mtime")).toBe("mtime");
+      expect(getColumnSortKey("status")).toBe("status");
+    });
+  });
+
+  describe("sortByColumn", () => {
+    const sortConfig: SortConfig = {
+      key: "mtime",
+      order: "desc",
+      thenBy: [{ key: "filename", order: "asc" }],
+    };
+
+    it("should reverse the direction when the sorted column is clicked", () => {
+      expect(sortByColumn(sortConfig, "mtime")).toEqual({ ...sortConfig, order: "asc" });
+    });
+
+    it("should sort ascending by another column, keeping the tie-breakers", () => {
+      expect(sortByColumn(sortConfig, "tags")).toEqual({
+        ...sortConfig,
+        key: "tagcount",
+        order: "asc",
+      });
+    });
+  });
+
+  describe("getCellText", () => {
+    it("should show built-in values", () => {
+      const note = createNote({ tags: ["project/a", "idea"] });
+
+      expect(getCellText(note, "filename")).toBe("Meeting");
+      expect(getCellText(note, "folder")).toBe("Work");
+      expect(getCellText(note, "tags")).toBe("#project/a #idea");
+      expect(getCellText(note, "mtime")).toBe(new Date(2024, 0, 15).toLocaleDateString());
+      expect(getCellText(note, "filesize")).toBe("2048");
+      expect(getCellText(note, "backlinks")).toBe("3");
+    });
+
+    it("should show the vault root as a slash", () => {
+      expect(getCellText(createNote({ folder: "" }), "folder")).toBe("/");
+    });
+
+    it("should show frontmatter values as written", () => {
+      const note = createNote({
+        frontmatter: { status: "open", due: "2024-02-01", owners: ["Ann", "", "Bo"], done: false },
+      });
+
+      expect(getCellText(note, "status")).toBe("open");
+      expect(getCellText(note, "due")).toBe("2024-02-01");
+      expect(getCellText(note, "owners")).toBe("Ann, Bo");
+      expect(getCellText(note, "done")).toBe("false");
+      expect(getCellText(note, "missing")).toBe("");
+    });
+  });
+
+  describe("setColumnKeys", () => {
+    it("should keep the widths of remaining columns and drop blank or repeated keys", () => {
+      const columns: TableColumn[] = [{ key: "filename", width: 240 }, { key: "folder" }];
+
+      expect(setColumnKeys(columns, ["status", " filename ", "", "status"])).toEqual([
+        { key: "status" },
+        { key: "filename", width: 240 },
+      ]);
+    });
+  });
+
+  describe("resizeColumn", () => {
+    it("should set the width of one column, keeping a minimum width", () => {
+      const columns: TableColumn[] = [{ key: "filename" }, { key: "folder", width: 200 }];
+
+      expect(resizeColumn(columns, "filename", 180.4)).toEqual([
+        { key: "filename", width: 180 },
+        { key: "folder", width: 200 },
+      ]);
+      expect(resizeColumn(columns, "folder", 10)[1]).toEqual({ key: "folder", width: 60 });
+    });
+  });
+});
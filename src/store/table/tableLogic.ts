@@ -0,0 +1,125 @@
+/**
+ * Pure Functions - Table Layout
+ *
+ * These functions describe the columns of the table layout: their labels, the
+ * sort key a click on their header sorts by, the text of their cells, and edits
+ * to the column list that keep the widths the user resized columns to.
+ */
+
+import type { NoteData, SortConfig, TableColumn } from "../../types";
+import {
+  BUILT_IN_SORT_KEY_LABELS,
+  FOLDER_SORT_KEY,
+  MIN_TABLE_COLUMN_WIDTH,
+  TAG_COUNT_SORT_KEY,
+  TAGS_COLUMN_KEY,
+} from "../constants";
+import { extractSortValue } from "../sorting";
+
+/**
+ * Header label of a column
+ *
+ * @param {string} key - Column key
+ * @returns {string} Label of a built-in key, "Tags", or the frontmatter property itself
+ */
+export const getColumnLabel = (key: string): string => {
+  if (key === TAGS_COLUMN_KEY) return "Tags";
+  return BUILT_IN_SORT_KEY_LABELS[key] ?? key;
+};
+
+/**
+ * Sort key used when the header of a column is clicked
+ *
+ * @param {string} key - Column key
+ * @returns {string} The column key itself, except the tag count for the tags column
+ */
+export const getColumnSortKey = (key: string): string =>
+  key === TAGS_COLUMN_KEY ? TAG_COUNT_SORT_KEY : key;
+
+/**
+ * Sort configuration after the header of a column is clicked
+ *
+ * Clicking the column the view is sorted by reverses the direction; clicking
+ * another column sorts by it in ascending order. Tie-breakers, fallback keys
+ * and missing value placement are kept.
+ *
+ * @param {SortConfig} sortConfig - Current sort configuration
+ * @param {string} key - Key of the clicked column
+ * @returns {SortConfig} New sort configuration
+ */
+export const sortByColumn = (sortConfig: SortConfig, key: string): SortConfig => {
+  const sortKey = getColumnSortKey(key);
+  if (sortConfig.key === sortKey) {
+    return { ...sortConfig, order: sortConfig.order === "asc" ? "desc" : "asc" };
+  }
+  return { ...sortConfig, key: sortKey, order: "asc" };
+};
+
+/**
+ * Text of a cell value (internal)
+ *
+ * Dates are shown as local dates and lists as comma-separated items.
+ */
+const formatCellValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? "" : value.toLocaleDateString();
+  if (Array.isArray(value)) {
+    return value
+      .map(formatCellValue)
+      .filter((item) => item !== "")
+      .join(", ");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Text shown in the cell of a note
+ *
+ * Built-in keys show the value notes are sorted by; frontmatter properties show
+ * the value as written, so lists keep all their items.
+ *
+ * @param {NoteData} note - Note of the row
+ * @param {string} key - Column key
+ * @returns {string} Cell text; empty when the note has no value
+ */
+export const getCellText = (note: NoteData, key: string): string => {
+  if (key === TAGS_COLUMN_KEY) return note.tags.map((tag) => `#${tag}`).join(" ");
+  if (key === FOLDER_SORT_KEY) return note.folder || "/";
+  return formatCellValue(
+    key in BUILT_IN_SORT_KEY_LABELS ? extractSortValue(note, key) : note.frontmatter?.[key]
+  );
+};
+
+/**
+ * Replace the columns of a table with the given keys
+ *
+ * Columns that remain keep their width; blank and repeated keys are dropped.
+ *
+ * @param {TableColumn[]} columns - Current columns
+ * @param {string[]} keys - Keys of the new columns, in display order
+ * @returns {TableColumn[]} New columns
+ */
+export const setColumnKeys = (columns: TableColumn[], keys: string[]): TableColumn[] => {
+  const widths = new Map(columns.map((column) => [column.key, column.width]));
+  const uniqueKeys = Array.from(new Set(keys.map((key) => key.trim()).filter((key) => key !== "")));
+  return uniqueKeys.map((key) => {
+    const width = widths.get(key);
+    return width === undefined ? { key } : { key, width };
+  });
+};
+
+/**
+ * Set the width of a column
+ *
+ * @param {TableColumn[]} columns - Current columns
+ * @param {string} key - Key of the resized column
+ * @param {number} width - New width in pixels, raised to MIN_TABLE_COLUMN_WIDTH
+ * @returns {TableColumn[]} New columns
+ */
+export const resizeColumn = (columns: TableColumn[], key: string, width: number): TableColumn[] =>
+  columns.map((column) =>
+    column.key === key
+      ? { ...column, width: Math.max(MIN_TABLE_COLUMN_WIDTH, Math.round(width)) }
+      : column
+  );
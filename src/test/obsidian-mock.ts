@@ -27,6 +27,14 @@ export class ItemView {
       },
     ],
   };
+
+  /** Mock view state - ItemView itself stores nothing */
+  getState(): Record<string, unknown> {
+    return {};
+  }
+
+  /** Mock view state restoration - no-op implementation */
+  async setState(_state: unknown, _result: unknown): Promise<void> {}
 }
 
 /**
@@ -136,3 +144,31 @@ export class TAbstractFile {
     this.name = name || path.split("/").pop() || "";
   }
 }
+
+/**
+ * Mock implementation of Obsidian's Component class
+ * Owns the lifecycle of rendered markdown in tests
+ */
+export class Component {
+  /** Mock component loading */
+  load() {}
+  /** Mock component unloading */
+  unload() {}
+}
+
+/**
+ * Mock implementation of Obsidian's MarkdownRenderer class
+ * Renders the markdown as plain text so tests can check what was rendered
+ */
+export class MarkdownRenderer extends Component {
+  /** Mock markdown rendering */
+  static async render(
+    _app: unknown,
+    markdown: string,
+    el: HTMLElement,
+    _sourcePath: string,
+    _component: Component
+  ): Promise<void> {
+    el.textContent = markdown;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Board layout configuration of a view
+ *
+ * The board lays out notes in columns by the value of a frontmatter property,
+ * e.g. one column per `status`.
+ */
+export interface BoardConfig {
+  /** Frontmatter property whose values are the columns */
+  property: string;
+
+  /** Column values shown first, in this order; listed columns are shown even when empty */
+  columnOrder: string[];
+
+  /** Column values that are not shown ("" for the column of notes without a value) */
+  hiddenColumns: string[];
+}
+
+/**
+ * Default board configuration for new views (columns by `status`)
+ */
+export const DEFAULT_BOARD_CONFIG: BoardConfig = {
+  property: "status",
+  columnOrder: [],
+  hiddenColumns: [],
+};
@@ -0,0 +1,18 @@
+/**
+ * Span of days shown by the calendar layout
+ *
+ * - "month": Month grid with one cell per day
+ * - "week": One week listed day by day
+ */
+export type CalendarMode = "month" | "week";
+
+/**
+ * All supported calendar modes
+ * Used to validate calendar modes restored from the workspace layout
+ */
+export const CALENDAR_MODES: readonly CalendarMode[] = ["month", "week"];
+
+/**
+ * Default calendar mode for new views
+ */
+export const DEFAULT_CALENDAR_MODE: CalendarMode = "month";
@@ -0,0 +1,240 @@
+import type { PropertyFilter } from "./filter";
+
+/**
+ * Spacing preset of the cards
+ *
+ * - "compact": Less padding and smaller text, to fit more cards on screen
+ * - "comfortable": Default spacing
+ * - "spacious": More padding and larger text
+ */
+export type CardDensity = "compact" | "comfortable" | "spacious";
+
+/**
+ * All supported card densities
+ * Used to validate densities loaded from the settings
+ */
+export const CARD_DENSITIES: readonly CardDensity[] = ["compact", "comfortable", "spacious"];
+
+/**
+ * How the note preview of a card is shown
+ *
+ * - "raw": The first lines of the note as written, markdown syntax included
+ * - "stripped": The same lines as plain text, without markdown syntax
+ * - "rendered": The beginning of the note rendered as markdown by Obsidian
+ */
+export type PreviewMode = "raw" | "stripped" | "rendered";
+
+/**
+ * All supported preview modes
+ * Used to validate preview modes loaded from the settings
+ */
+export const PREVIEW_MODES: readonly PreviewMode[] = ["raw", "stripped", "rendered"];
+
+/**
+ * Where the cover image of a card is shown
+ *
+ * - "top": A banner across the top of the card
+ * - "side": A small thumbnail beside the preview
+ * - "none": No cover images
+ */
+export type CoverPlacement = "top" | "side" | "none";
+
+/**
+ * All supported cover placements
+ * Used to validate cover placements loaded from the settings
+ */
+export const COVER_PLACEMENTS: readonly CoverPlacement[] = ["top", "side", "none"];
+
+/**
+ * How the frontmatter fields chosen for cards are laid out
+ *
+ * - "badges": Labelled badges that wrap across the card
+ * - "list": One field per line, the key beside its value
+ */
+export type CardFieldStyle = "badges" | "list";
+
+/**
+ * All supported card field styles
+ * Used to validate card field styles loaded from the settings
+ */
+export const CARD_FIELD_STYLES: readonly CardFieldStyle[] = ["badges", "list"];
+
+/**
+ * Built-in elements of a card that can be hidden
+ */
+export type CardElement = "title" | "preview" | "tags" | "folder" | "date";
+
+/**
+ * All built-in card elements, in the order they appear on a card
+ * Used to validate hidden elements loaded from the settings
+ */
+export const CARD_ELEMENTS: readonly CardElement[] = ["title", "preview", "tags", "folder", "date"];
+
+/**
+ * Condition of a card styling rule, a single criterion of the view filters
+ *
+ * - "tag": The note has the tag or one of its nested tags
+ * - "folder": The note is in the folder or one of its subfolders
+ * - "property": A frontmatter property satisfies a property condition; "today" stands for
+ *   the current day in date comparisons
+ * - "age": The note is dated (by the sort key of the view) within or more than some days ago
+ */
+export type CardRuleCondition =
+  | { type: "tag"; tag: string }
+  | { type: "folder"; folder: string }
+  | { type: "property"; property: PropertyFilter }
+  | { type: "age"; comparison: "newer" | "older"; days: number };
+
+/**
+ * Kinds of card styling rule conditions
+ */
+export type CardRuleConditionType = CardRuleCondition["type"];
+
+/**
+ * All kinds of card styling rule conditions
+ * Used to validate rules loaded from the settings
+ */
+export const CARD_RULE_CONDITION_TYPES: readonly CardRuleConditionType[] = [
+  "tag",
+  "folder",
+  "property",
+  "age",
+];
+
+/**
+ * How a card styling rule marks the cards it matches
+ *
+ * - "accent": A colored stripe along the card and a colored title
+ * - "border": A colored border
+ * - "tint": A background tinted with the color
+ * - "icon": An icon (emoji or short text) before the title
+ * - "dim": A faded card, shown in full on hover
+ */
+export type CardRuleEffect = "accent" | "border" | "tint" | "icon" | "dim";
+
+/**
+ * All card styling rule effects
+ * Used to validate rules loaded from the settings
+ */
+export const CARD_RULE_EFFECTS: readonly CardRuleEffect[] = [
+  "accent",
+  "border",
+  "tint",
+  "icon",
+  "dim",
+];
+
+/**
+ * Rule styling the cards of the notes matching a condition
+ */
+export interface CardStyleRule {
+  /** Notes the rule applies to */
+  condition: CardRuleCondition;
+  /** How matching cards are marked */
+  effect: CardRuleEffect;
+  /** CSS color of the accent, border and tint effects */
+  color: string;
+  /** Text shown by the icon effect */
+  icon: string;
+}
+
+/**
+ * Size and density of the cards, set in the plugin settings and shared by all views
+ */
+export interface CardDisplaySettings {
+  /**
+   * Narrowest width in pixels of a card; the card grid fits as many cards per
+   * row as this width allows. Changed by the zoom control of a view as well.
+   */
+  cardMinWidth: number;
+
+  /**
+   * Most cards shown side by side, however wide the view
+   */
+  maxCardsPerRow: number;
+
+  /**
+   * Number of lines of the note preview shown on a card
+   */
+  previewLines: number;
+
+  /**
+   * Spacing preset of the cards
+   */
+  density: CardDensity;
+
+  /**
+   * How the note preview of a card is shown
+   */
+  previewMode: PreviewMode;
+
+  /**
+   * Where the cover image of a card is shown
+   */
+  coverPlacement: CoverPlacement;
+
+  /**
+   * Frontmatter keys holding the cover image of a note, in order of preference;
+   * notes without them show their first embedded image
+   */
+  coverPropertyKeys: string[];
+
+  /**
+   * Frontmatter properties shown on cards, in display order
+   */
+  cardFields: string[];
+
+  /**
+   * How the card fields are laid out
+   */
+  cardFieldStyle: CardFieldStyle;
+
+  /**
+   * Built-in elements left off the cards
+   */
+  hiddenCardElements: CardElement[];
+
+  /**
+   * Rules styling cards by their notes, in priority order: where rules with the
+   * same effect match a card, the first one wins
+   */
+  cardStyleRules: CardStyleRule[];
+}
+
+/**
+ * Keys of the settings that change how cards are displayed
+ * Used to pass these settings on to the open views when one of them changes
+ */
+export const CARD_DISPLAY_SETTING_KEYS: readonly (keyof CardDisplaySettings)[] = [
+  "cardMinWidth",
+  "maxCardsPerRow",
+  "previewLines",
+  "density",
+  "previewMode",
+  "coverPlacement",
+  "coverPropertyKeys",
+  "cardFields",
+  "cardFieldStyle",
+  "hiddenCardElements",
+  "cardStyleRules",
+];
+
+/**
+ * Default card size and density
+ * Cards are at least 292px wide, at most five to a row, with three raw preview lines
+ * under a cover banner taken from the `cover`, `image` or `banner` property, and
+ * every built-in element but no frontmatter fields or styling rules
+ */
+export const DEFAULT_CARD_DISPLAY_SETTINGS: CardDisplaySettings = {
+  cardMinWidth: 292,
+  maxCardsPerRow: 5,
+  previewLines: 3,
+  density: "comfortable",
+  previewMode: "raw",
+  coverPlacement: "top",
+  coverPropertyKeys: ["cover", "image", "banner"],
+  cardFields: [],
+  cardFieldStyle: "badges",
+  hiddenCardElements: [],
+  cardStyleRules: [],
+};
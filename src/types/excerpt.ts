@@ -0,0 +1,50 @@
+/**
+ * Rules choosing which part of a note its card previews, set in the plugin settings
+ * and applied when notes are loaded
+ */
+export interface ExcerptSettings {
+  /**
+   * Frontmatter keys whose value is shown instead of the note body, in order of
+   * preference (e.g. `summary`, `description`)
+   */
+  excerptPropertyKeys: string[];
+
+  /**
+   * Whether to skip lines without prose: headings, embeds, lines of links only
+   * (breadcrumbs), code blocks, tables and horizontal rules
+   */
+  excerptSkipSyntax: boolean;
+
+  /**
+   * Heading after which the excerpt starts, matched case-insensitively;
+   * empty to start at the beginning of the note
+   */
+  excerptStartHeading: string;
+
+  /**
+   * Most characters of the excerpt
+   */
+  excerptMaxLength: number;
+}
+
+/**
+ * Keys of the settings that choose the excerpt of the notes
+ * Used to reload the notes when one of them changes
+ */
+export const EXCERPT_SETTING_KEYS: readonly (keyof ExcerptSettings)[] = [
+  "excerptPropertyKeys",
+  "excerptSkipSyntax",
+  "excerptStartHeading",
+  "excerptMaxLength",
+];
+
+/**
+ * Default excerpt rules
+ * A `summary` or `description` property wins; otherwise the first 500 characters of prose
+ */
+export const DEFAULT_EXCERPT_SETTINGS: ExcerptSettings = {
+  excerptPropertyKeys: ["summary", "description"],
+  excerptSkipSyntax: true,
+  excerptStartHeading: "",
+  excerptMaxLength: 500,
+};
@@ -1,10 +1,86 @@
+/**
+ * How the selected tags or folders of a filter group are combined
+ *
+ * - "any": Note matches at least one selected value (OR)
+ * - "all": Note matches every selected value (AND)
+ * - "none": Note matches none of the selected values (NOT)
+ */
+export type FilterMatchMode = "any" | "all" | "none";
+
+/**
+ * All supported match modes, in the order the filter panel cycles through them
+ * Used to validate match modes restored from saved data
+ */
+export const FILTER_MATCH_MODES: readonly FilterMatchMode[] = ["any", "all", "none"];
+
+/**
+ * Default match mode for tag and folder groups
+ */
+export const DEFAULT_FILTER_MATCH_MODE: FilterMatchMode = "any";
+
+/**
+ * Operator of a frontmatter property condition
+ *
+ * - "equals" / "contains": Case-insensitive text comparison
+ * - "exists" / "missing": Whether the property has a non-null value (no operand)
+ * - "gt" / "lt" / "between": Numeric comparison, falling back to dates
+ * - "before" / "after": Date comparison
+ *
+ * For list properties (e.g. `aliases`), a condition matches when any item matches.
+ */
+export type PropertyFilterOperator =
+  | "equals"
+  | "contains"
+  | "exists"
+  | "missing"
+  | "gt"
+  | "lt"
+  | "between"
+  | "before"
+  | "after";
+
+/**
+ * All supported property operators, in the order shown in the filter panel
+ * Used to validate property filters restored from saved data
+ */
+export const PROPERTY_FILTER_OPERATORS: readonly PropertyFilterOperator[] = [
+  "equals",
+  "contains",
+  "exists",
+  "missing",
+  "gt",
+  "lt",
+  "between",
+  "before",
+  "after",
+];
+
+/**
+ * Condition on a single frontmatter property
+ *
+ * Conditions are kept as entered (strings) so that incomplete rows survive
+ * while editing; a condition without a key, or without the operands its
+ * operator needs, is ignored when filtering.
+ */
+export interface PropertyFilter {
+  /** Frontmatter property name (e.g. "status") */
+  key: string;
+  /** How the property value is compared */
+  operator: PropertyFilterOperator;
+  /** Operand for the comparison; lower bound for "between" */
+  value: string;
+  /** Upper bound for "between"; unused by other operators */
+  valueTo: string;
+}
+
 /**
  * Filter configuration for note display in Card View Explorer
  *
  * Supports multiple filter types for comprehensive note filtering:
- * - Folder inclusion filtering with hierarchical matching
- * - Tag inclusion filtering with hierarchical matching
- * - Filename partial matching (case-insensitive)
+ * - Folder inclusion/exclusion filtering with hierarchical matching
+ * - Tag inclusion/exclusion filtering with hierarchical matching
+ * - Filename partial matching and exclusion (case-insensitive)
+ * - Frontmatter property conditions with typed operators
  * - Date range filtering with two modes
  */
 export interface FilterState {
@@ -17,6 +93,13 @@ export interface FilterState {
    */
   folders: string[];
 
+  /**
+   * How the selected folders are combined (any/all/none)
+   *
+   * Has no effect while no folders are selected.
+   */
+  folderMatchMode: FilterMatchMode;
+
   /**
    * Selected tags to filter by
    *
@@ -27,29 +110,91 @@ export interface FilterState {
   tags: string[];
 
   /**
-   * Filename search string for partial matching
+   * How the selected tags are combined (any/all/none)
+   *
+   * "all" requires a matching tag for every selection, e.g. both
+   * "project" and "urgent". Has no effect while no tags are selected.
+   */
+  tagMatchMode: FilterMatchMode;
+
+  /**
+   * Words searched for in note titles
+   *
+   * Bare words of the search box, matched fuzzily and case-insensitively
+   * against the title and aliases; every word must match. Empty array means no filename
+   * filtering.
+   */
+  filename: string[];
+
+  /**
+   * Phrases searched for in note titles
+   *
+   * Quoted text of the search box; each phrase must appear exactly
+   * (case-insensitive) in the title or an alias. Empty array means no phrase filtering.
+   */
+  filenamePhrases: string[];
+
+  /**
+   * Full-text query matched against note bodies
+   *
+   * Bare words must each appear inside a word of the body and quoted text
+   * must appear as a phrase; all of them must match. Empty string means
+   * no content search.
+   */
+  content: string;
+
+  /**
+   * Folders to exclude from results
+   *
+   * Uses the same hierarchical matching as tags - excluding "Archive" hides
+   * notes in "Archive" and "Archive/2023", but not in "Archived".
+   * Exclusions win over inclusions. Empty array means nothing is excluded.
+   */
+  excludeFolders: string[];
+
+  /**
+   * Tags to exclude from results
+   *
+   * Uses hierarchical matching - excluding "draft" hides notes tagged
+   * with "draft" or "draft/wip". Notes with any excluded tag are hidden.
+   * Empty array means nothing is excluded.
+   */
+  excludeTags: string[];
+
+  /**
+   * Words and phrases for excluding notes by partial match
+   *
+   * Hides notes whose title contains any of them (case-insensitive).
+   * Empty array means no filename exclusion.
+   */
+  excludeFilename: string[];
+
+  /**
+   * Frontmatter property conditions
    *
-   * Performs case-insensitive search within note titles.
-   * Empty string means no filename filtering.
+   * A note must satisfy every active condition.
+   * Empty array means no property filtering.
    */
-  filename: string;
+  properties: PropertyFilter[];
 
   /**
    * Date range filter configuration
    *
-   * Two modes available:
+   * Three modes available:
    * - "within": Show notes modified within X days from the filter date
    * - "after": Show notes modified after the specified date
+   * - "on": Show notes dated on the local calendar day of the specified date
    *
    * Set to null to disable date filtering.
    */
   dateRange: {
     /** Type of date filter to apply */
-    type: "within" | "after";
+    type: "within" | "after" | "on";
     /**
      * Date value for filtering
      * - For "within" mode: Date object representing X days ago from now
      * - For "after" mode: Date object or ISO string of the cutoff date
+     * - For "on" mode: Date object or ISO string of a time on the day
      */
     value: Date | string;
   } | null;
@@ -0,0 +1,32 @@
+/**
+ * What the cards of a view are grouped by
+ *
+ * - "none": No groups (default)
+ * - "folder": Folder of the note
+ * - "tag": Top-level segment of the note's first tag (e.g. "project" for #project/a)
+ * - "property": Value of a frontmatter property
+ * - "date": Date bucket (Today, Yesterday, This week, Older) of the date shown on the card
+ */
+export type GroupByMode = "none" | "folder" | "tag" | "property" | "date";
+
+/**
+ * All supported group by modes
+ * Used to validate group settings restored from the workspace layout
+ */
+export const GROUP_BY_MODES: readonly GroupByMode[] = ["none", "folder", "tag", "property", "date"];
+
+/**
+ * Group by configuration of a view
+ */
+export interface GroupByConfig {
+  /** What notes are grouped by */
+  mode: GroupByMode;
+
+  /** Frontmatter property grouped by in "property" mode */
+  property?: string;
+}
+
+/**
+ * Default group by configuration for new views (no groups)
+ */
+export const DEFAULT_GROUP_BY: GroupByConfig = { mode: "none" };
@@ -1,6 +1,13 @@
 // Re-export all types from individual modules
 
+export * from "./board";
+export * from "./calendar";
+export * from "./display";
+export * from "./excerpt";
 export * from "./filter";
+export * from "./group";
 export * from "./note";
 export * from "./plugin";
 export * from "./sort";
+export * from "./table";
+export * from "./view";
@@ -13,6 +13,8 @@ export interface NoteData {
   path: string;
   /** First 3 lines of note content for preview display */
   preview: string;
+  /** Number of words in the note body, for the word count sort key */
+  wordCount: number;
   /** Last modified timestamp of the note */
   lastModified: Date;
   /** Frontmatter metadata extracted from the note, or null if none exists */
@@ -21,8 +23,49 @@ export interface NoteData {
   tags: string[];
   /** Folder path containing the note (without filename) */
   folder: string;
+  /** Number of other notes linking to this note, updated as linking notes change */
+  backlinkCount: number;
 }
 
+/**
+ * A single-note change applied to the note index.
+ *
+ * Produced from vault/metadata events so the store can update one note at a
+ * time instead of reloading the whole vault:
+ * - "upsert": insert a new note or replace the note with the same path
+ * - "remove": drop the note stored under `path`
+ * - "move": drop the note stored under `oldPath` and upsert `note` (rename/move)
+ *
+ * Note bodies are not kept in the index; `body` carries the text just read for
+ * the content index, and is omitted when the body did not change (e.g. only the
+ * backlink count did).
+ */
+export type NoteIndexDelta =
+  | { type: "upsert"; note: NoteData; body?: string }
+  | { type: "remove"; path: string }
+  | { type: "move"; oldPath: string; note: NoteData; body?: string };
+
+/**
+ * Notes read by a full load, with their bodies for building the content index
+ */
+export interface LoadedNotes {
+  /** Successfully processed notes */
+  notes: NoteData[];
+  /** Note body without frontmatter by path */
+  bodies: Map<string, string>;
+}
+
+/**
+ * A pending file-level change observed from Obsidian events.
+ *
+ * Unlike {@link NoteIndexDelta}, this only references the file; the note
+ * content and metadata are read when the change is resolved into a delta.
+ */
+export type VaultNoteChange =
+  | { type: "upsert"; file: TFile }
+  | { type: "remove"; path: string }
+  | { type: "move"; oldPath: string; file: TFile };
+
 /**
  * Type guard for ensuring a file is specifically a markdown file.
  * Used for filtering non-markdown files from processing.
@@ -55,6 +98,8 @@ export interface NoteMetadata {
 export interface ContentPreview {
   /** Extracted preview text (typically first 3 lines) */
   preview: string;
+  /** Full body without frontmatter, empty if extraction failed */
+  body: string;
   /** Whether the extraction was successful */
   success: boolean;
   /** Error message if extraction failed */
@@ -1,12 +1,16 @@
 import type { Plugin } from "obsidian";
+import { type CardDisplaySettings, DEFAULT_CARD_DISPLAY_SETTINGS } from "./display";
+import { DEFAULT_EXCERPT_SETTINGS, type ExcerptSettings } from "./excerpt";
 import type { FilterState } from "./filter";
 import type { SortConfig } from "./sort";
 
 /**
  * Plugin settings stored in Obsidian's settings system
- * These settings are configurable through the plugin settings tab
+ * These settings are configurable through the plugin settings tab.
+ * The card size and density settings are shared by all views, and the excerpt
+ * rules by the notes of all views.
  */
-export interface PluginSettings {
+export interface PluginSettings extends CardDisplaySettings, ExcerptSettings {
   /**
    * Frontmatter key used for default sorting
    * Can be any frontmatter property or special value "updated" for file modification time
@@ -46,10 +50,19 @@ export interface PluginData {
 
   /**
    * Last used sort configuration
-   * Persisted between sessions to maintain user's sort preferences
+   * Persisted between sessions to maintain user's sort preferences.
+   * Configurations without `thenBy` were saved before the view could change
+   * the sort, so the settings sort key is used for them instead.
    */
   sortConfig: SortConfig;
 
+  /**
+   * Manual card orders of the views, keyed by view id
+   * Each order lists note paths from first to last for the 'manual' sort key.
+   * Optional because data saved before manual ordering lacks it.
+   */
+  manualOrders?: Record<string, string[]>;
+
   /**
    * Data format version for compatibility tracking
    * Used to identify the data structure version for future compatibility checks.
@@ -91,6 +104,8 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   sortKey: "updated",
   autoStart: false,
   showInSidebar: false,
+  ...DEFAULT_CARD_DISPLAY_SETTINGS,
+  ...DEFAULT_EXCERPT_SETTINGS,
 };
 
 /**
@@ -118,12 +133,22 @@ export const DEFAULT_DATA: PluginData = {
   pinnedNotes: [],
   lastFilters: {
     folders: [],
+    folderMatchMode: "any",
     tags: [],
-    filename: "",
+    tagMatchMode: "any",
+    filename: [],
+    filenamePhrases: [],
+    content: "",
+    excludeFolders: [],
+    excludeTags: [],
+    excludeFilename: [],
+    properties: [],
     dateRange: null,
   },
   sortConfig: {
     key: "updated",
     order: "desc",
+    thenBy: [],
   },
+  manualOrders: {},
 };
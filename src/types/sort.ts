@@ -2,17 +2,21 @@
  * Sort configuration for note ordering in Card View Explorer
  *
  * This interface defines how notes should be sorted in the card view.
- * It supports sorting by frontmatter fields with automatic fallback to
- * file modification time if the specified field doesn't exist in a note.
+ * It supports sorting by frontmatter fields with a chain of fallback keys
+ * used when the specified field doesn't exist in a note, a placement for
+ * notes that have none of them, and secondary keys that break ties of the
+ * primary key.
  */
 export interface SortConfig {
   /**
    * Key to sort by - can be:
    * - 'mtime' for file modification time (special case)
+   * - A built-in key: 'ctime', 'filename', 'filesize', 'wordcount', 'backlinks' or 'tagcount'
+   * - 'manual' for the order cards were dragged into in the view
    * - Any frontmatter field name (e.g., 'title', 'date', 'priority')
    *
    * If a note doesn't have the specified frontmatter field,
-   * sorting will automatically fall back to file modification time.
+   * sorting falls back to the keys in `fallbackKeys`.
    */
   key: string;
 
@@ -24,4 +28,40 @@ export interface SortConfig {
    * Default is 'desc' in the application.
    */
   order: "asc" | "desc";
+
+  /**
+   * Tie-breaker keys, compared in order when notes are equal on `key`
+   *
+   * Optional because sort configurations saved by older versions have none.
+   */
+  thenBy?: SortCriterion[];
+
+  /**
+   * Keys tried in order when a note lacks `key`, e.g. ['created', 'ctime', 'mtime']
+   * Not used by the 'manual' key: notes without a manual position are new notes.
+   *
+   * Optional because older sort configurations have none; they fall back to
+   * file modification time ('mtime') only.
+   */
+  fallbackKeys?: string[];
+
+  /**
+   * Where notes without a value for a key (after its fallbacks) are placed,
+   * which for the 'manual' key is the end new notes are added at:
+   * - 'first': before all notes with a value
+   * - 'last': after all notes with a value (default)
+   *
+   * Applies in both sort directions.
+   */
+  missingValues?: MissingValuesPlacement;
 }
+
+/**
+ * Placement of notes without a value for a sort key
+ */
+export type MissingValuesPlacement = "first" | "last";
+
+/**
+ * A single key of a sort chain: the primary key or one of its tie-breakers
+ */
+export type SortCriterion = Pick<SortConfig, "key" | "order">;
@@ -0,0 +1,23 @@
+/**
+ * A column of the table layout
+ */
+export interface TableColumn {
+  /**
+   * What the column shows: a sort key (built-in key or frontmatter property)
+   * or "tags" for the note's tags
+   */
+  key: string;
+
+  /** Width in pixels set by resizing the column; the default width when omitted */
+  width?: number;
+}
+
+/**
+ * Columns of the table layout for new views: title, folder, tags and modification time
+ */
+export const DEFAULT_TABLE_COLUMNS: TableColumn[] = [
+  { key: "filename" },
+  { key: "folder" },
+  { key: "tags" },
+  { key: "mtime" },
+];
@@ -0,0 +1,139 @@
+import type { BoardConfig } from "./board";
+import type { CalendarMode } from "./calendar";
+import type { FilterState } from "./filter";
+import type { GroupByConfig } from "./group";
+import type { SortConfig } from "./sort";
+import type { TableColumn } from "./table";
+
+/**
+ * Layout used by a Card View Explorer view to display notes
+ *
+ * - "grid": Responsive card grid (default)
+ * - "masonry": Cards packed into columns by their height
+ * - "table": One note per row with configurable columns
+ * - "board": Kanban board with a column per value of a frontmatter property
+ * - "calendar": Notes placed on the days their dates fall on
+ * - "timeline": Notes in date order under year and month separators
+ */
+export type LayoutMode = "grid" | "masonry" | "table" | "board" | "calendar" | "timeline";
+
+/**
+ * All supported layout modes
+ * Used to validate layout modes restored from the workspace layout
+ */
+export const LAYOUT_MODES: readonly LayoutMode[] = [
+  "grid",
+  "masonry",
+  "table",
+  "board",
+  "calendar",
+  "timeline",
+];
+
+/**
+ * Default layout mode for new views
+ */
+export const DEFAULT_LAYOUT_MODE: LayoutMode = "grid";
+
+/**
+ * Whether a view shows the compact list for narrow containers
+ *
+ * - "auto": When the view is narrow, such as in a sidebar (default)
+ * - "on": Always
+ * - "off": Never
+ */
+export type CompactMode = "auto" | "on" | "off";
+
+/**
+ * All supported compact modes
+ * Used to validate compact modes restored from the workspace layout
+ */
+export const COMPACT_MODES: readonly CompactMode[] = ["auto", "on", "off"];
+
+/**
+ * Default compact mode for new views
+ */
+export const DEFAULT_COMPACT_MODE: CompactMode = "auto";
+
+/**
+ * Per-leaf view state serialized into Obsidian's workspace layout
+ *
+ * Returned from CardExplorerView.getState() and restored through setState(),
+ * so every card tab comes back with its own configuration after a restart
+ * or workspace switch.
+ */
+export interface CardViewState {
+  /** Filter configuration of the view */
+  filters: FilterState;
+
+  /** Sort configuration of the view */
+  sortConfig: SortConfig;
+
+  /**
+   * Whether filename search results are ranked by relevance
+   *
+   * Optional because layouts saved before the relevance sort lack it.
+   */
+  sortByRelevance?: boolean;
+
+  /** Layout used to display notes */
+  layoutMode: LayoutMode;
+
+  /**
+   * What the cards are grouped by
+   *
+   * Optional because layouts saved before grouping lack it.
+   */
+  groupBy?: GroupByConfig;
+
+  /**
+   * Keys of the groups the user collapsed
+   *
+   * Optional because layouts saved before grouping lack it.
+   */
+  collapsedGroups?: string[];
+
+  /**
+   * Columns of the table layout
+   *
+   * Optional because layouts saved before the table layout lack it.
+   */
+  tableColumns?: TableColumn[];
+
+  /**
+   * Configuration of the board layout
+   *
+   * Optional because layouts saved before the board layout lack it.
+   */
+  boardConfig?: BoardConfig;
+
+  /**
+   * Span of days shown by the calendar layout
+   *
+   * Optional because layouts saved before the calendar layout lack it.
+   */
+  calendarMode?: CalendarMode;
+
+  /**
+   * Whether the compact list is shown, overriding the automatic switch for narrow views
+   *
+   * Optional because layouts saved before the compact list lack it.
+   */
+  compactMode?: CompactMode;
+
+  /**
+   * Path of the first visible note, used to restore the scroll position
+   *
+   * A note path rather than a pixel offset or row index, so the position
+   * survives changes in container width and column count.
+   * Null when the view is scrolled to the top.
+   */
+  scrollAnchor: string | null;
+
+  /**
+   * Identifier of the view, used to find its manual card order in the plugin data
+   *
+   * Optional because layouts saved before manual ordering lack it.
+   */
+  viewId?: string;
+}
@@ -2,6 +2,8 @@
 import type { WorkspaceLeaf } from "obsidian";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type CardExplorerPlugin from "./main";
+import { CardExplorerStoreContext } from "./store/cardExplorerStore";
+import { createNoteIndexStore, type NoteIndexStore } from "./store/noteIndexStore";
 import { CardExplorerView, VIEW_TYPE_CARD_EXPLORER } from "./view";
 
 vi.mock("react-dom/client", () => {
@@ -21,6 +23,7 @@ vi.mock("react-dom/client", () => {
 describe("CardExplorerView", () => {
   let mockLeaf: WorkspaceLeaf;
   let mockPlugin: CardExplorerPlugin;
+  let noteIndex: NoteIndexStore;
   let view: CardExplorerView;
   let mockContainer: HTMLElement;
   let mockContainerElement: HTMLElement;
@@ -50,6 +53,9 @@ describe("CardExplorerView", () => {
       },
     } as unknown as WorkspaceLeaf;
 
+    // Shared note index handed to every view by the plugin
+    noteIndex = createNoteIndexStore();
+
     // Mock CardExplorerPlugin
     mockPlugin = {
       settings: {
@@ -57,6 +63,8 @@ describe("CardExplorerView", () => {
         showInSidebar: false,
         sortKey: "updated",
       },
+      getNoteIndex: vi.fn(() => noteIndex),
+      getData: vi.fn(() => ({ manualOrders: { "view-1": ["work/b.md", "work/a.md"] } })),
     } as unknown as CardExplorerPlugin;
 
     view = new CardExplorerView(mockLeaf, mockPlugin);
@@ -115,23 +123,186 @@ describe("CardExplorerView", () => {
       await expect(view.onClose()).resolves.toBeUndefined();
       expect((view as any).containerElement).toBeNull();
     });
+
+    it("should stop following the shared note index", async () => {
+      await view.onClose();
+
+      noteIndex.getState().setPinnedNotes(["note.md"]);
+
+      expect(view.getStore().getState().pinnedNotes.size).toBe(0);
+    });
+  });
+
+  describe("getStore", () => {
+    it("should give each view its own store over the shared note index", () => {
+      const otherView = new CardExplorerView(mockLeaf, mockPlugin);
+
+      view
+        .getStore()
+        .getState()
+        .updateFilters({ filename: ["meeting"] });
+
+      expect(otherView.getStore()).not.toBe(view.getStore());
+      expect(otherView.getStore().getState().filters.filename).toEqual([]);
+      expect(mockPlugin.getNoteIndex).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getState / setState", () => {
+    const savedState = {
+      filters: {
+        folders: ["work"],
+        folderMatchMode: "any",
+        tags: [],
+        tagMatchMode: "any",
+        filename: ["meeting"],
+        filenamePhrases: [],
+        content: "",
+        excludeFolders: ["Templates"],
+        excludeTags: [],
+        excludeFilename: [],
+        properties: [],
+        dateRange: null,
+      },
+      sortConfig: { key: "created", order: "asc" },
+      sortByRelevance: false,
+      layoutMode: "grid",
+      groupBy: { mode: "folder" },
+      collapsedGroups: ["work"],
+      tableColumns: [{ key: "filename", width: 240 }],
+      boardConfig: { property: "status", columnOrder: ["todo"], hiddenColumns: [] },
+      calendarMode: "week",
+      compactMode: "on",
+      scrollAnchor: "work/note.md",
+      viewId: "view-1",
+    };
+
+    it("should serialize this view's filters, sort, layout, groups and scroll anchor", () => {
+      view
+        .getStore()
+        .getState()
+        .updateFilters({ filename: ["draft"] });
+      view.getStore().getState().setScrollAnchor("draft.md");
+
+      expect(view.getState()).toEqual({
+        filters: {
+          folders: [],
+          folderMatchMode: "any",
+          tags: [],
+          tagMatchMode: "any",
+          filename: ["draft"],
+          filenamePhrases: [],
+          content: "",
+          excludeFolders: [],
+          excludeTags: [],
+          excludeFilename: [],
+          properties: [],
+          dateRange: null,
+        },
+        sortConfig: { key: "updated", order: "desc" },
+        sortByRelevance: false,
+        layoutMode: "grid",
+        groupBy: { mode: "none" },
+        collapsedGroups: [],
+        tableColumns: expect.any(Array),
+        boardConfig: expect.any(Object),
+        calendarMode: "month",
+        compactMode: "auto",
+        scrollAnchor: "draft.md",
+        viewId: expect.any(String),
+      });
+    });
+
+    it("should restore saved state into this view's store", async () => {
+      await view.setState(savedState, { history: false });
+
+      const state = view.getStore().getState();
+      expect(view.getState()).toEqual(savedState);
+      expect(state.pendingScrollAnchor).toBe("work/note.md");
+      expect(state.manualOrder).toEqual(["work/b.md", "work/a.md"]);
+    });
+
+    it("should keep restored state when plugin data initializes later", async () => {
+      await view.setState(savedState, { history: false });
+
+      view
+        .getStore()
+        .getState()
+        .initializeFromPluginData(
+          { pinnedNotes: [], lastFilters: { ...savedState.filters, folders: [] } } as any,
+          { sortKey: "updated" } as any
+        );
+
+      expect(view.getState()).toEqual(savedState);
+    });
+
+    it("should ignore invalid or empty state", async () => {
+      await view.setState({}, { history: false });
+      await view.setState({ ...savedState, layoutMode: "carousel" }, { history: false });
+
+      expect(view.getStore().getState().filters.folders).toEqual([]);
+      expect(view.getStore().getState().pendingScrollAnchor).toBeNull();
+    });
+
+    it("should request a layout save when serialized state changes", async () => {
+      const requestSaveLayout = vi.fn();
+      (view as any).app = { workspace: { requestSaveLayout } };
+      await view.onOpen();
+
+      view.getStore().getState().setScrollAnchor("a.md");
+      noteIndex.getState().setError("boom"); // unrelated changes do not save
+
+      expect(requestSaveLayout).toHaveBeenCalledTimes(1);
+
+      view.getStore().getState().toggleGroupCollapsed("work");
+      expect(requestSaveLayout).toHaveBeenCalledTimes(2);
+
+      await view.onClose();
+      view.getStore().getState().setScrollAnchor("b.md");
+      expect(requestSaveLayout).toHaveBeenCalledTimes(2);
+    });
+
+    it("should save the manual order as plugin data when it changes", async () => {
+      const requestSaveStoreState = vi.fn();
+      (mockPlugin as any).requestSaveStoreState = requestSaveStoreState;
+      (view as any).app = { workspace: { requestSaveLayout: vi.fn() } };
+      await view.onOpen();
+
+      // Same sort as before, so only the manual order changes
+      const { sortConfig } = view.getStore().getState();
+      view
+        .getStore()
+        .getState()
+        .restoreViewState({ ...(savedState as any), sortConfig }, ["a.md"]);
+
+      expect(requestSaveStoreState).toHaveBeenCalledWith(view);
+      await view.onClose();
+    });
+
+    it("should save the sort as plugin data when it changes", async () => {
+      const requestSaveStoreState = vi.fn();
+      (mockPlugin as any).requestSaveStoreState = requestSaveStoreState;
+      (view as any).app = { workspace: { requestSaveLayout: vi.fn() } };
+      await view.onOpen();
+
+      view.getStore().getState().setScrollAnchor("a.md");
+      view.getStore().getState().setSortConfig({ key: "updated", order: "desc" }); // unchanged
+      expect(requestSaveStoreState).not.toHaveBeenCalled();
+
+      view.getStore().getState().setSortConfig({ key: "priority", order: "asc" });
+      expect(requestSaveStoreState).toHaveBeenCalledWith(view);
+
+      await view.onClose();
+      view.getStore().getState().setSortConfig({ key: "title", order: "asc" });
+      expect(requestSaveStoreState).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("refreshNotes", () => {
-    it("should call store refreshNotes method", async () => {
-      // Mock the cardExplorerStore
-      const mockRefreshNotes = vi.fn().mockResolvedValue(undefined);
-      const mockStore = {
-        refreshNotes: mockRefreshNotes,
-      };
-      const mockUseCardExplorerStore = {
-        getState: vi.fn().mockReturnValue(mockStore),
-      };
-
-      // Mock the dynamic import
-      vi.doMock("./store/cardExplorerStore", () => ({
-        useCardExplorerStore: mockUseCardExplorerStore,
-      }));
+    it("should reload the shared note index", async () => {
+      const mockRefreshNotes = vi
+        .spyOn(noteIndex.getState(), "refreshNotes")
+        .mockResolvedValue(undefined);
 
       // Mock app object
       const mockApp = { vault: { adapter: {} } };
@@ -140,26 +311,14 @@ describe("CardExplorerView", () => {
       // Call refreshNotes
       await view.refreshNotes();
 
-      // Verify that store.refreshNotes was called with the correct app
-      expect(mockUseCardExplorerStore.getState).toHaveBeenCalled();
+      // Verify that the index was reloaded with the correct app
       expect(mockRefreshNotes).toHaveBeenCalledWith(mockApp);
     });
 
     it("should handle errors gracefully", async () => {
-      // Mock the cardExplorerStore to throw an error
+      // Make the index reload throw an error
       const mockError = new Error("Store error");
-      const mockRefreshNotes = vi.fn().mockRejectedValue(mockError);
-      const mockStore = {
-        refreshNotes: mockRefreshNotes,
-      };
-      const mockUseCardExplorerStore = {
-        getState: vi.fn().mockReturnValue(mockStore),
-      };
-
-      // Mock the dynamic import
-      vi.doMock("./store/cardExplorerStore", () => ({
-        useCardExplorerStore: mockUseCardExplorerStore,
-      }));
+      vi.spyOn(noteIndex.getState(), "refreshNotes").mockRejectedValue(mockError);
 
       // Mock app object
       const mockApp = { vault: { adapter: {} } };
@@ -180,11 +339,17 @@ describe("CardExplorerView", () => {
       // Call refresh
       view.refresh();
 
-      // Verify that render was called with CardView component
+      // Verify that render was called with CardView inside this view's store provider
       expect(mockRender).toHaveBeenCalledWith(
         expect.objectContaining({
-          type: expect.any(Function), // CardView component
-          props: { plugin: mockPlugin },
+          type: CardExplorerStoreContext.Provider,
+          props: expect.objectContaining({
+            value: view.getStore(),
+            children: expect.objectContaining({
+              type: expect.any(Function), // CardView component
+              props: { plugin: mockPlugin },
+            }),
+          }),
         })
       );
     });
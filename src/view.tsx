@@ -1,7 +1,15 @@
-import { ItemView, type WorkspaceLeaf } from "obsidian";
+import { isEqual } from "es-toolkit";
+import { ItemView, type ViewStateResult, type WorkspaceLeaf } from "obsidian";
 import { createRoot, type Root } from "react-dom/client";
+import { shallow } from "zustand/shallow";
 import { CardView } from "./components/CardView";
+import { validateCardViewState } from "./core/storage/validation";
 import type CardExplorerPlugin from "./main";
+import {
+  type CardExplorerStore,
+  CardExplorerStoreContext,
+  createCardExplorerStore,
+} from "./store/cardExplorerStore";
 
 /**
  * Card View Explorer view identifier - used to identify the view within Obsidian workspace
@@ -19,6 +27,8 @@ export const VIEW_TYPE_CARD_EXPLORER = "card-view-explorer-view";
  * - Mount and unmount React application
  * - Manage Obsidian view lifecycle
  * - Bridge between plugin and React components
+ * - Own the per-view store (filters, sort) layered over the shared note index
+ * - Serialize per-leaf state into the workspace layout (getState/setState)
  * - Handle view refresh and note data updates
  */
 export class CardExplorerView extends ItemView {
@@ -31,6 +41,15 @@ export class CardExplorerView extends ItemView {
   /** Container element where React components are mounted - serves as the React app's DOM root */
   private containerElement: HTMLElement | null = null;
 
+  /** Store holding this view's filters, sort and filtered notes - independent of other leaves */
+  private readonly store: CardExplorerStore;
+
+  /** Unsubscribe function for the store subscription that requests layout saves */
+  private unsubscribeViewState: (() => void) | null = null;
+
+  /** Unsubscribe function for the subscription saving the sort and manual order as plugin data */
+  private unsubscribeSortConfig: (() => void) | null = null;
+
   /**
    * CardExplorerView constructor
    *
@@ -43,6 +62,38 @@ export class CardExplorerView extends ItemView {
   constructor(leaf: WorkspaceLeaf, plugin: CardExplorerPlugin) {
     super(leaf);
     this.plugin = plugin;
+    this.store = createCardExplorerStore(plugin.getNoteIndex());
+  }
+
+  /**
+   * Returns the per-leaf state saved into the workspace layout
+   *
+   * Includes this view's filters, sort config, layout mode and scroll anchor
+   * on top of the state managed by Obsidian.
+   *
+   * @returns Serializable view state
+   */
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), ...this.store.getState().getViewState() };
+  }
+
+  /**
+   * Restores the per-leaf state saved in the workspace layout
+   *
+   * Invalid or missing state (e.g. a newly opened leaf or a layout written
+   * by an older version) is ignored, leaving the plugin-wide defaults.
+   * The manual card order is looked up in the plugin data by the saved view id.
+   *
+   * @param state - State previously returned from getState
+   * @param result - Navigation result passed through to Obsidian
+   */
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    if (validateCardViewState(state)) {
+      const manualOrders = this.plugin.getData().manualOrders ?? {};
+      const manualOrder = state.viewId ? manualOrders[state.viewId] : undefined;
+      this.store.getState().restoreViewState(state, manualOrder);
+    }
+    await super.setState(state, result);
   }
 
   /**
@@ -91,7 +142,7 @@ export class CardExplorerView extends ItemView {
    * 1. Clear any existing content from the container
    * 2. Create a dedicated div for React mounting
    * 3. Initialize React 18's concurrent root
-   * 4. Render the main CardView component
+   * 4. Render the main CardView component inside this view's store provider
    */
   async onOpen(): Promise<void> {
     // Get content container (skip header) - containerEl.children[1] is the main content area
@@ -107,7 +158,34 @@ export class CardExplorerView extends ItemView {
     this.root = createRoot(this.containerElement);
 
     // Render main CardView component with plugin instance for API access
-    this.root.render(<CardView plugin={this.plugin} />);
+    this.root.render(this.renderContent());
+
+    // Save the workspace layout when state serialized by getState changes
+    this.unsubscribeViewState = this.store.subscribe(
+      (state) => [
+        state.filters,
+        state.sortConfig,
+        state.sortByRelevance,
+        state.layoutMode,
+        state.groupBy,
+        state.collapsedGroups,
+        state.tableColumns,
+        state.boardConfig,
+        state.calendarMode,
+        state.compactMode,
+        state.scrollAnchor,
+        state.viewId,
+      ],
+      () => this.app.workspace.requestSaveLayout(),
+      { equalityFn: shallow }
+    );
+
+    // Remember the last chosen filters and sort for new views, and the manual order of this view
+    this.unsubscribeSortConfig = this.store.subscribe(
+      (state) => [state.filters, state.sortConfig, state.manualOrder],
+      () => this.plugin.requestSaveStoreState(this),
+      { equalityFn: isEqual }
+    );
   }
 
   /**
@@ -126,6 +204,13 @@ export class CardExplorerView extends ItemView {
 
     // Clear container reference
     this.containerElement = null;
+
+    // Stop requesting layout and data saves and following the shared note index
+    this.unsubscribeViewState?.();
+    this.unsubscribeViewState = null;
+    this.unsubscribeSortConfig?.();
+    this.unsubscribeSortConfig = null;
+    this.store.getState().dispose();
   }
 
   /**
@@ -137,25 +222,44 @@ export class CardExplorerView extends ItemView {
    */
   refresh(): void {
     if (this.root && this.containerElement) {
-      this.root.render(<CardView plugin={this.plugin} />);
+      this.root.render(this.renderContent());
     }
   }
 
+  /**
+   * Returns the store owned by this view
+   *
+   * Used by the plugin to push settings changes and read state for persistence.
+   *
+   * @returns The per-view Card Explorer store
+   */
+  getStore(): CardExplorerStore {
+    return this.store;
+  }
+
   /**
    * Updates note data in the store
    *
-   * This method is called by the plugin to trigger a refresh of note data
-   * from the Obsidian vault. It uses dynamic import to avoid circular
-   * dependencies between the view and store modules.
+   * This method is called to trigger a refresh of note data from the
+   * Obsidian vault. Notes live in the shared note index, so every open
+   * view receives the reloaded notes.
    *
    * @throws Will handle errors gracefully through the store's error handling system
    */
   async refreshNotes(): Promise<void> {
-    // Dynamically import store to avoid circular dependencies
-    const { useCardExplorerStore } = await import("./store/cardExplorerStore");
-    const store = useCardExplorerStore.getState();
+    await this.store.getState().refreshNotes(this.plugin.app);
+  }
 
-    // Trigger note update in store - this will reload all notes from the vault
-    await store.refreshNotes(this.plugin.app);
+  /**
+   * Builds the React tree for this view
+   *
+   * Wraps CardView in the provider that scopes useCardExplorerStore to this view's store.
+   */
+  private renderContent() {
+    return (
+      <CardExplorerStoreContext.Provider value={this.store}>
+        <CardView plugin={this.plugin} />
+      </CardExplorerStoreContext.Provider>
+    );
   }
 }